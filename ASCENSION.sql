@@ -0,0 +1,167 @@
+-- =============================================
+-- ASCENSION
+-- =============================================
+-- Prestige loop: once lifetime earnings pass the next threshold a player can
+-- ascend, resetting divinePoints and upgrade levels for a permanent mining
+-- multiplier. The multiplier and ascension count are kept here and copied into
+-- user_game_data.game_data on every save, so clients can't raise them.
+-- Requires ECONOMY_LEDGER.sql. Safe to run multiple times.
+
+-- 1. One row per ascension
+CREATE TABLE IF NOT EXISTS user_ascensions (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    ascension_number INTEGER NOT NULL CHECK (ascension_number > 0),
+    multiplier NUMERIC(10, 4) NOT NULL CHECK (multiplier >= 1),
+    lifetime_points_earned NUMERIC(24, 6) NOT NULL,
+    points_reset NUMERIC(24, 6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, ascension_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_ascensions_user_id ON user_ascensions(user_id, ascension_number DESC);
+
+INSERT INTO economy_rules (entry_type, currency, direction, client_allowed, max_amount, max_per_second, max_per_day, description) VALUES
+    ('ascension_reset', 'divine_points', -1, FALSE, NULL, NULL, NULL, 'Balance removed when the player ascends')
+ON CONFLICT (entry_type) DO NOTHING;
+
+-- 2. Same curve as getAscensionMultiplier (src/game/engine/ascension.ts):
+-- +0.25 per step, steps at 1M, 4M, 9M... lifetime points
+CREATE OR REPLACE FUNCTION ascension_multiplier(p_lifetime_earned NUMERIC)
+RETURNS NUMERIC AS $$
+    SELECT 1 + 0.25 * floor(sqrt(GREATEST(p_lifetime_earned, 0) / 1000000));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE VIEW user_ascension_state AS
+SELECT DISTINCT ON (user_id)
+    user_id,
+    ascension_number AS ascension_count,
+    multiplier,
+    created_at AS last_ascended_at
+FROM user_ascensions
+ORDER BY user_id, ascension_number DESC;
+
+-- 3. Upgrade levels only count purchases made since the latest ascension.
+-- Replaces the version in ECONOMY_LEDGER.sql.
+CREATE OR REPLACE FUNCTION get_upgrade_level(p_user_id INTEGER, p_upgrade_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    ascended_at TIMESTAMP WITH TIME ZONE;
+    opening_level INTEGER := 0;
+BEGIN
+    SELECT last_ascended_at INTO ascended_at FROM user_ascension_state WHERE user_id = p_user_id;
+
+    -- Levels carried over from the pre-ledger save were reset by the first ascension
+    IF ascended_at IS NULL THEN
+        SELECT COALESCE((metadata -> 'upgrade_levels' ->> p_upgrade_id)::INTEGER, 0) INTO opening_level
+        FROM economy_ledger
+        WHERE user_id = p_user_id AND entry_type = 'opening_balance'
+        LIMIT 1;
+    END IF;
+
+    RETURN COALESCE(opening_level, 0) + (
+        SELECT COUNT(*)::INTEGER
+        FROM economy_ledger
+        WHERE user_id = p_user_id
+          AND entry_type = 'upgrade_purchase'
+          AND reference = p_upgrade_id
+          AND (ascended_at IS NULL OR created_at > ascended_at)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 4. Player RPC. Flush pending economy entries first: eligibility uses the ledger's lifetime earnings.
+CREATE OR REPLACE FUNCTION ascend()
+RETURNS TABLE (ascension_count INTEGER, multiplier NUMERIC, divine_points NUMERIC) AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    lifetime_earned NUMERIC;
+    balance NUMERIC;
+    current_count INTEGER;
+    current_multiplier NUMERIC;
+    next_multiplier NUMERIC;
+    reset_amount NUMERIC := 0;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- One ascension at a time per player
+    PERFORM pg_advisory_xact_lock(hashtext('ascend'), caller_id);
+    PERFORM ensure_economy_opening_balance(caller_id);
+
+    SELECT b.total_points_earned, b.divine_points INTO lifetime_earned, balance
+    FROM user_economy_balances b
+    WHERE b.user_id = caller_id;
+
+    SELECT s.ascension_count, s.multiplier INTO current_count, current_multiplier
+    FROM user_ascension_state s
+    WHERE s.user_id = caller_id;
+
+    current_count := COALESCE(current_count, 0);
+    current_multiplier := COALESCE(current_multiplier, 1);
+    next_multiplier := ascension_multiplier(lifetime_earned);
+
+    IF next_multiplier <= current_multiplier THEN
+        RAISE EXCEPTION 'Lifetime earnings of % are not enough to ascend past x%', lifetime_earned, current_multiplier;
+    END IF;
+
+    -- Balance goes back to the starting 100 (lower balances are kept)
+    IF balance > 100 THEN
+        reset_amount := 100 - balance;
+        PERFORM insert_economy_entry(
+            caller_id,
+            'ascension_reset',
+            reset_amount,
+            NULL,
+            'ascension:' || caller_id || ':' || (current_count + 1),
+            jsonb_build_object('ascension_number', current_count + 1),
+            FALSE
+        );
+    END IF;
+
+    INSERT INTO user_ascensions (user_id, ascension_number, multiplier, lifetime_points_earned, points_reset)
+    VALUES (caller_id, current_count + 1, next_multiplier, lifetime_earned, -reset_amount);
+
+    RETURN QUERY SELECT current_count + 1, next_multiplier, balance + reset_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Saves carry the server's multiplier and count. Runs before enforce_ledger_balances,
+-- which then resets upgrade levels through get_upgrade_level.
+CREATE OR REPLACE FUNCTION enforce_ascension_state()
+RETURNS TRIGGER AS $$
+DECLARE
+    state RECORD;
+BEGIN
+    SELECT ascension_count, multiplier INTO state
+    FROM user_ascension_state
+    WHERE user_id = NEW.user_id;
+
+    NEW.game_data := jsonb_set(NEW.game_data, '{ascensionCount}', to_jsonb(COALESCE(state.ascension_count, 0)));
+    NEW.game_data := jsonb_set(NEW.game_data, '{ascensionMultiplier}', to_jsonb(COALESCE(state.multiplier, 1)));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_ascension_state ON user_game_data;
+CREATE TRIGGER enforce_ascension_state
+    BEFORE INSERT OR UPDATE ON user_game_data
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_ascension_state();
+
+-- 6. RLS: players read their own history; rows are only written by ascend()
+ALTER TABLE user_ascensions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS user_ascensions_select_own_policy ON user_ascensions;
+CREATE POLICY user_ascensions_select_own_policy ON user_ascensions
+    FOR SELECT USING (user_id = current_app_user_id());
+
+GRANT EXECUTE ON FUNCTION ascend() TO authenticated;
+
+COMMENT ON TABLE user_ascensions IS 'Ascension history; the latest row holds the player''s permanent mining multiplier';
+
+INSERT INTO schema_version (version, description)
+VALUES (6, 'Ascension prestige loop')
+ON CONFLICT (version) DO NOTHING;
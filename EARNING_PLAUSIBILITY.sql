@@ -0,0 +1,103 @@
+-- =============================================
+-- EARNING PLAUSIBILITY CHECKS
+-- =============================================
+-- Support for the activityMonitor cron job (src/cron/earningPlausibility.ts), which
+-- compares each synced save with the last validated one and records anything the
+-- game formulas can't explain in earning_discrepancies.
+-- Requires ECONOMY_LEDGER.sql. Safe to run multiple times.
+
+-- 1. Last validated snapshot per save
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_game_data' AND column_name = 'validated_game_data'
+    ) THEN
+        ALTER TABLE user_game_data ADD COLUMN validated_game_data JSONB;
+        ALTER TABLE user_game_data ADD COLUMN validated_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added validation snapshot columns to user_game_data';
+    ELSE
+        RAISE NOTICE 'user_game_data validation columns already exist';
+    END IF;
+END $$;
+
+-- 2. Discrepancy details
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'earning_discrepancies' AND column_name = 'source'
+    ) THEN
+        ALTER TABLE earning_discrepancies ADD COLUMN source TEXT DEFAULT 'reconciliation';
+        ALTER TABLE earning_discrepancies ADD COLUMN resolution TEXT CHECK (resolution IN ('flagged', 'clamped'));
+        ALTER TABLE earning_discrepancies ADD COLUMN details JSONB DEFAULT '{}'::jsonb;
+        RAISE NOTICE 'Added plausibility columns to earning_discrepancies';
+    ELSE
+        RAISE NOTICE 'earning_discrepancies plausibility columns already exist';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_earning_discrepancies_user_id ON earning_discrepancies(user_id, timestamp DESC);
+
+-- 3. Saves changed since they were last validated
+CREATE OR REPLACE VIEW unvalidated_game_data AS
+SELECT user_id, game_data, last_updated, validated_game_data, validated_at
+FROM user_game_data
+WHERE validated_at IS NULL OR last_updated > validated_at;
+
+-- Snapshot the save as validated. The timestamp trigger sets last_updated to the
+-- same NOW(), so the row drops out of unvalidated_game_data.
+CREATE OR REPLACE FUNCTION mark_game_data_validated(p_user_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    -- Rewrite the save from the ledger first (enforce_ledger_balances) so the
+    -- snapshot has any plausibility_adjustment applied, not the clamped points
+    UPDATE user_game_data
+    SET game_data = game_data
+    WHERE user_id = p_user_id;
+
+    UPDATE user_game_data
+    SET validated_game_data = game_data,
+        validated_at = NOW()
+    WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Server-granted points in a window; they aren't mining and mustn't count as excess
+CREATE OR REPLACE FUNCTION get_external_credits(p_user_id INTEGER, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS NUMERIC AS $$
+    SELECT COALESCE(SUM(l.amount), 0)
+    FROM economy_ledger l
+    JOIN economy_rules r ON r.entry_type = l.entry_type
+    WHERE l.user_id = p_user_id
+      AND l.currency = 'divine_points'
+      AND l.amount > 0
+      AND NOT r.client_allowed
+      AND l.created_at > p_since;
+$$ LANGUAGE sql STABLE;
+
+-- 4. Clamping writes a correcting ledger entry
+INSERT INTO economy_rules (entry_type, currency, direction, client_allowed, max_amount, max_per_second, max_per_day, description) VALUES
+    ('plausibility_adjustment', 'divine_points', -1, FALSE, NULL, NULL, NULL, 'Earnings removed by the plausibility check')
+ON CONFLICT (entry_type) DO NOTHING;
+
+-- Adjustments also reduce lifetime earnings
+CREATE OR REPLACE VIEW user_economy_balances AS
+SELECT
+    l.user_id,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.currency = 'divine_points'), 0) AS divine_points,
+    COALESCE(SUM(l.amount) FILTER (
+        WHERE l.currency = 'divine_points' AND (l.amount > 0 OR l.entry_type = 'plausibility_adjustment')
+    ), 0) + COALESCE(MAX(eb.points_earned), 0) AS total_points_earned,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.currency = 'gems'), 0) AS gems,
+    MAX(l.created_at) AS last_entry_at
+FROM economy_ledger l
+LEFT JOIN economy_earned_baselines eb ON eb.user_id = l.user_id
+GROUP BY l.user_id;
+
+REVOKE ALL ON FUNCTION mark_game_data_validated(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION mark_game_data_validated(INTEGER) TO service_role;
+
+INSERT INTO schema_version (version, description)
+VALUES (4, 'Earning plausibility checks')
+ON CONFLICT (version) DO NOTHING;
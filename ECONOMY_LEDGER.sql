@@ -0,0 +1,418 @@
+-- =============================================
+-- ECONOMY LEDGER
+-- =============================================
+-- Append-only record of every divinePoints and gems change. Balances are
+-- derived from the ledger instead of trusted from client saves:
+--   * players write entries through record_economy_entries(), which checks
+--     each delta against economy_rules
+--   * server code (task rewards, referral bonuses) uses grant_economy_entry()
+--     with the service role key
+--   * user_game_data.game_data balances are overwritten from the ledger on write
+-- Requires TELEGRAM_AUTH_RLS.sql (current_app_user_id). Safe to run multiple times.
+
+-- 1. Rules per entry type. direction is the required sign of amount.
+CREATE TABLE IF NOT EXISTS economy_rules (
+    entry_type TEXT PRIMARY KEY,
+    currency TEXT NOT NULL CHECK (currency IN ('divine_points', 'gems')),
+    direction SMALLINT NOT NULL CHECK (direction IN (-1, 1)),
+    client_allowed BOOLEAN NOT NULL DEFAULT FALSE,
+    max_amount NUMERIC(24, 6),      -- Per entry, NULL for no limit
+    max_per_second NUMERIC(24, 6),  -- Against time since the user's previous entry of this type
+    max_per_day NUMERIC(24, 6),     -- Rolling 24h total
+    mining_budget BOOLEAN NOT NULL DEFAULT FALSE, -- Shares the player's mining rate budget (section 5)
+    description TEXT
+);
+
+ALTER TABLE economy_rules ADD COLUMN IF NOT EXISTS mining_budget BOOLEAN NOT NULL DEFAULT FALSE;
+
+INSERT INTO economy_rules (entry_type, currency, direction, client_allowed, max_amount, max_per_second, max_per_day, mining_budget, description) VALUES
+    ('opening_balance',  'divine_points',  1, FALSE, NULL,  NULL,  NULL,  FALSE, 'Balance carried over from user_game_data when the ledger was introduced'),
+    ('mine_tick',        'divine_points',  1, TRUE,  NULL,  NULL,  NULL,  TRUE,  'Points mined since the previous sync'),
+    ('upgrade_purchase', 'divine_points', -1, TRUE,  NULL,  NULL,  NULL,  FALSE, 'Upgrade level bought; reference is the upgrade id'),
+    ('offline_claim',    'divine_points',  1, TRUE,  NULL,  NULL,  NULL,  TRUE,  'Offline earnings claimed on return'),
+    ('gem_grant',        'gems',           1, FALSE, 1000,  NULL,  10000, FALSE, 'Gems awarded by the server; reference is the source'),
+    ('task_reward',      'divine_points',  1, FALSE, NULL,  NULL,  NULL,  FALSE, 'Task reward paid by the task service'),
+    ('referral_bonus',   'divine_points',  1, FALSE, NULL,  NULL,  NULL,  FALSE, 'Referral bonus paid by the referral service')
+ON CONFLICT (entry_type) DO NOTHING;
+
+-- Rules from before mining entries shared a budget and gems were granted by the server
+UPDATE economy_rules
+SET max_per_second = NULL, mining_budget = TRUE
+WHERE entry_type IN ('mine_tick', 'offline_claim');
+
+UPDATE economy_rules
+SET client_allowed = FALSE, description = 'Gems awarded by the server; reference is the source'
+WHERE entry_type = 'gem_grant';
+
+-- 2. Ledger
+CREATE TABLE IF NOT EXISTS economy_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    entry_type TEXT REFERENCES economy_rules(entry_type) NOT NULL,
+    currency TEXT NOT NULL CHECK (currency IN ('divine_points', 'gems')),
+    amount NUMERIC(24, 6) NOT NULL,
+    reference TEXT,
+    idempotency_key TEXT UNIQUE,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_economy_ledger_user_type ON economy_ledger(user_id, entry_type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_economy_ledger_created_at ON economy_ledger(created_at);
+
+-- 3. Append-only: corrections are new entries, never edits
+CREATE OR REPLACE FUNCTION prevent_economy_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'economy_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS economy_ledger_append_only ON economy_ledger;
+CREATE TRIGGER economy_ledger_append_only
+    BEFORE UPDATE OR DELETE ON economy_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_economy_ledger_changes();
+
+-- 4. Derived balances
+-- Lifetime earnings from before the ledger that the opening balance doesn't cover:
+-- legacy totalPointsEarned minus the carried-over divinePoints. Seeded in section 10.
+CREATE TABLE IF NOT EXISTS economy_earned_baselines (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    points_earned NUMERIC(24, 6) NOT NULL CHECK (points_earned >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE VIEW user_economy_balances AS
+SELECT
+    l.user_id,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.currency = 'divine_points'), 0) AS divine_points,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.currency = 'divine_points' AND l.amount > 0), 0)
+        + COALESCE(MAX(eb.points_earned), 0) AS total_points_earned,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.currency = 'gems'), 0) AS gems,
+    MAX(l.created_at) AS last_entry_at
+FROM economy_ledger l
+LEFT JOIN economy_earned_baselines eb ON eb.user_id = l.user_id
+GROUP BY l.user_id;
+
+CREATE OR REPLACE FUNCTION get_economy_balance(p_user_id INTEGER, p_currency TEXT)
+RETURNS NUMERIC AS $$
+    SELECT COALESCE(SUM(amount), 0)
+    FROM economy_ledger
+    WHERE user_id = p_user_id AND currency = p_currency;
+$$ LANGUAGE sql STABLE;
+
+-- Opening level carried over from the pre-ledger save plus levels bought since
+CREATE OR REPLACE FUNCTION get_upgrade_level(p_user_id INTEGER, p_upgrade_id TEXT)
+RETURNS INTEGER AS $$
+    SELECT
+        COALESCE((
+            SELECT (metadata -> 'upgrade_levels' ->> p_upgrade_id)::INTEGER
+            FROM economy_ledger
+            WHERE user_id = p_user_id AND entry_type = 'opening_balance'
+            LIMIT 1
+        ), 0)
+        + (
+            SELECT COUNT(*)::INTEGER
+            FROM economy_ledger
+            WHERE user_id = p_user_id AND entry_type = 'upgrade_purchase' AND reference = p_upgrade_id
+        );
+$$ LANGUAGE sql STABLE;
+
+-- Every player starts with the game's starting points (STARTING_POINTS in the engine)
+CREATE OR REPLACE FUNCTION ensure_economy_opening_balance(p_user_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO economy_ledger (user_id, entry_type, currency, amount, idempotency_key)
+    VALUES (p_user_id, 'opening_balance', 'divine_points', 100, 'opening_balance:' || p_user_id)
+    ON CONFLICT (idempotency_key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Validate and insert one entry. Raises on any rule violation.
+CREATE OR REPLACE FUNCTION insert_economy_entry(
+    p_user_id INTEGER,
+    p_entry_type TEXT,
+    p_amount NUMERIC,
+    p_reference TEXT,
+    p_idempotency_key TEXT,
+    p_metadata JSONB,
+    p_is_client BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+    rule economy_rules%ROWTYPE;
+    previous_at TIMESTAMP WITH TIME ZONE;
+    elapsed_seconds NUMERIC;
+    budget_used NUMERIC;
+    day_total NUMERIC;
+    current_level INTEGER;
+BEGIN
+    -- One writer per player, so concurrent spends can't both pass the balance check.
+    -- Same lock order as apply_stk_entry (STK_LEDGER.sql): the users row first.
+    PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+    SELECT * INTO rule FROM economy_rules WHERE entry_type = p_entry_type;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown economy entry type %', p_entry_type;
+    END IF;
+
+    IF p_is_client AND NOT rule.client_allowed THEN
+        RAISE EXCEPTION 'Entry type % can only be written by the server', p_entry_type;
+    END IF;
+
+    -- Retried requests are accepted once
+    IF p_idempotency_key IS NOT NULL AND EXISTS (
+        SELECT 1 FROM economy_ledger WHERE idempotency_key = p_idempotency_key
+    ) THEN
+        RETURN;
+    END IF;
+
+    IF p_amount IS NULL OR p_amount = 0 OR sign(p_amount) <> rule.direction THEN
+        RAISE EXCEPTION 'Invalid amount % for %', p_amount, p_entry_type;
+    END IF;
+
+    IF rule.max_amount IS NOT NULL AND abs(p_amount) > rule.max_amount THEN
+        RAISE EXCEPTION '% amount % exceeds limit %', p_entry_type, p_amount, rule.max_amount;
+    END IF;
+
+    IF rule.max_per_second IS NOT NULL THEN
+        SELECT MAX(created_at) INTO previous_at
+        FROM economy_ledger
+        WHERE user_id = p_user_id AND entry_type = p_entry_type;
+
+        -- First entry of this type: measure from the ledger's first entry, capped at 14 days
+        IF previous_at IS NULL THEN
+            SELECT MIN(created_at) INTO previous_at FROM economy_ledger WHERE user_id = p_user_id;
+        END IF;
+
+        elapsed_seconds := LEAST(
+            EXTRACT(EPOCH FROM (NOW() - COALESCE(previous_at, NOW()))),
+            14 * 24 * 60 * 60
+        );
+
+        IF abs(p_amount) > rule.max_per_second * GREATEST(elapsed_seconds, 1) THEN
+            RAISE EXCEPTION '% amount % exceeds rate limit for % seconds', p_entry_type, p_amount, elapsed_seconds;
+        END IF;
+    END IF;
+
+    -- Mining entries (mine_tick, offline_claim) draw from one budget: the most the
+    -- player's mining can produce since any of them was last written, so the same
+    -- time can't be claimed twice. max_mining_rate() is in MINING_RATE_LIMITS.sql.
+    IF rule.mining_budget THEN
+        -- Entries written earlier in this transaction share NOW() and the same window
+        SELECT MAX(l.created_at) FILTER (WHERE l.created_at < NOW()),
+               COALESCE(SUM(l.amount) FILTER (WHERE l.created_at >= NOW()), 0)
+        INTO previous_at, budget_used
+        FROM economy_ledger l
+        JOIN economy_rules r ON r.entry_type = l.entry_type
+        WHERE l.user_id = p_user_id AND r.mining_budget;
+
+        IF previous_at IS NULL THEN
+            SELECT MIN(created_at) INTO previous_at FROM economy_ledger WHERE user_id = p_user_id AND created_at < NOW();
+        END IF;
+
+        elapsed_seconds := GREATEST(LEAST(
+            EXTRACT(EPOCH FROM (NOW() - COALESCE(previous_at, NOW()))),
+            14 * 24 * 60 * 60
+        ), 1);
+
+        IF budget_used + p_amount > max_mining_rate(p_user_id, elapsed_seconds) * elapsed_seconds THEN
+            RAISE EXCEPTION '% amount % exceeds the mining rate for % seconds', p_entry_type, p_amount, elapsed_seconds;
+        END IF;
+    END IF;
+
+    IF rule.max_per_day IS NOT NULL THEN
+        SELECT COALESCE(SUM(abs(amount)), 0) INTO day_total
+        FROM economy_ledger
+        WHERE user_id = p_user_id
+          AND entry_type = p_entry_type
+          AND created_at > NOW() - INTERVAL '24 hours';
+
+        IF day_total + abs(p_amount) > rule.max_per_day THEN
+            RAISE EXCEPTION '% daily limit % reached', p_entry_type, rule.max_per_day;
+        END IF;
+    END IF;
+
+    -- Spending can't take a balance below zero
+    IF rule.direction < 0 AND get_economy_balance(p_user_id, rule.currency) + p_amount < 0 THEN
+        RAISE EXCEPTION 'Insufficient % balance for %', rule.currency, p_entry_type;
+    END IF;
+
+    -- Upgrade levels must be bought one at a time, in order
+    IF p_entry_type = 'upgrade_purchase' THEN
+        IF p_reference IS NULL THEN
+            RAISE EXCEPTION 'upgrade_purchase requires the upgrade id as reference';
+        END IF;
+
+        current_level := get_upgrade_level(p_user_id, p_reference);
+
+        IF (p_metadata ->> 'level') IS NOT NULL AND (p_metadata ->> 'level')::INTEGER <> current_level + 1 THEN
+            RAISE EXCEPTION 'Upgrade % level % does not follow level %', p_reference, p_metadata ->> 'level', current_level;
+        END IF;
+    END IF;
+
+    INSERT INTO economy_ledger (user_id, entry_type, currency, amount, reference, idempotency_key, metadata)
+    VALUES (p_user_id, p_entry_type, rule.currency, p_amount, p_reference, p_idempotency_key, COALESCE(p_metadata, '{}'::jsonb));
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Player RPC: a batch of entries for the calling session, all or nothing.
+-- p_entries: [{ entry_type, amount, reference, idempotency_key, metadata }]
+CREATE OR REPLACE FUNCTION record_economy_entries(p_entries JSONB)
+RETURNS TABLE (divine_points NUMERIC, total_points_earned NUMERIC, gems NUMERIC) AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    entry JSONB;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM ensure_economy_opening_balance(caller_id);
+
+    FOR entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_entries, '[]'::jsonb))
+    LOOP
+        PERFORM insert_economy_entry(
+            caller_id,
+            entry ->> 'entry_type',
+            (entry ->> 'amount')::NUMERIC,
+            entry ->> 'reference',
+            entry ->> 'idempotency_key',
+            entry -> 'metadata',
+            TRUE
+        );
+    END LOOP;
+
+    RETURN QUERY
+    SELECT b.divine_points, b.total_points_earned, b.gems
+    FROM user_economy_balances b
+    WHERE b.user_id = caller_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Server RPC for rewards the client must not mint itself
+CREATE OR REPLACE FUNCTION grant_economy_entry(
+    p_user_id INTEGER,
+    p_entry_type TEXT,
+    p_amount NUMERIC,
+    p_reference TEXT DEFAULT NULL,
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM insert_economy_entry(p_user_id, p_entry_type, p_amount, p_reference, p_idempotency_key, p_metadata, FALSE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION insert_economy_entry(INTEGER, TEXT, NUMERIC, TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION ensure_economy_opening_balance(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION grant_economy_entry(INTEGER, TEXT, NUMERIC, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION grant_economy_entry(INTEGER, TEXT, NUMERIC, TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION record_economy_entries(JSONB) TO authenticated;
+
+-- 8. RLS: players read their own entries; all writes go through the functions above
+ALTER TABLE economy_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE economy_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE economy_earned_baselines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS economy_ledger_select_own_policy ON economy_ledger;
+CREATE POLICY economy_ledger_select_own_policy ON economy_ledger
+    FOR SELECT USING (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS economy_rules_select_policy ON economy_rules;
+CREATE POLICY economy_rules_select_policy ON economy_rules
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS economy_earned_baselines_select_own_policy ON economy_earned_baselines;
+CREATE POLICY economy_earned_baselines_select_own_policy ON economy_earned_baselines
+    FOR SELECT USING (user_id = current_app_user_id());
+
+-- 9. Client saves keep their shape, but balances and upgrade levels come from the ledger
+CREATE OR REPLACE FUNCTION enforce_ledger_balances()
+RETURNS TRIGGER AS $$
+DECLARE
+    balances RECORD;
+BEGIN
+    PERFORM ensure_economy_opening_balance(NEW.user_id);
+
+    SELECT divine_points, total_points_earned INTO balances
+    FROM user_economy_balances
+    WHERE user_id = NEW.user_id;
+
+    NEW.game_data := jsonb_set(NEW.game_data, '{divinePoints}', to_jsonb(balances.divine_points));
+    NEW.game_data := jsonb_set(NEW.game_data, '{totalPointsEarned}', to_jsonb(balances.total_points_earned));
+
+    IF jsonb_typeof(NEW.game_data -> 'upgrades') = 'array' THEN
+        NEW.game_data := jsonb_set(NEW.game_data, '{upgrades}', (
+            SELECT COALESCE(jsonb_agg(
+                CASE WHEN u ? 'id'
+                     THEN jsonb_set(u, '{level}', to_jsonb(get_upgrade_level(NEW.user_id, u ->> 'id')))
+                     ELSE u END
+            ), '[]'::jsonb)
+            FROM jsonb_array_elements(NEW.game_data -> 'upgrades') AS u
+        ));
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_ledger_balances ON user_game_data;
+CREATE TRIGGER enforce_ledger_balances
+    BEFORE INSERT OR UPDATE ON user_game_data
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_ledger_balances();
+
+-- 10. Seed opening balances and upgrade levels from existing saves (once per user).
+-- Must run before any new save so ensure_economy_opening_balance doesn't reset them to 100.
+DO $$
+DECLARE
+    seeded INTEGER;
+BEGIN
+    INSERT INTO economy_ledger (user_id, entry_type, currency, amount, idempotency_key, metadata)
+    SELECT
+        ugd.user_id,
+        'opening_balance',
+        'divine_points',
+        (ugd.game_data ->> 'divinePoints')::NUMERIC,
+        'opening_balance:' || ugd.user_id,
+        jsonb_build_object(
+            'total_points_earned', ugd.game_data ->> 'totalPointsEarned',
+            'upgrade_levels', (
+                SELECT COALESCE(jsonb_object_agg(u ->> 'id', (u ->> 'level')::INTEGER), '{}'::jsonb)
+                FROM jsonb_array_elements(
+                    CASE WHEN jsonb_typeof(ugd.game_data -> 'upgrades') = 'array'
+                         THEN ugd.game_data -> 'upgrades' ELSE '[]'::jsonb END
+                ) AS u
+                WHERE (u ->> 'level') ~ '^[0-9]+$'
+            )
+        )
+    FROM user_game_data ugd
+    WHERE (ugd.game_data ->> 'divinePoints') ~ '^[0-9]+(\.[0-9]+)?$'
+    ON CONFLICT (idempotency_key) DO NOTHING;
+
+    GET DIAGNOSTICS seeded = ROW_COUNT;
+    RAISE NOTICE 'Seeded % opening balances', seeded;
+
+    -- Read from the opening entry, since saves are rewritten from the ledger once it exists
+    INSERT INTO economy_earned_baselines (user_id, points_earned)
+    SELECT l.user_id, (l.metadata ->> 'total_points_earned')::NUMERIC - l.amount
+    FROM economy_ledger l
+    WHERE l.entry_type = 'opening_balance'
+      AND (l.metadata ->> 'total_points_earned') ~ '^[0-9]+(\.[0-9]+)?$'
+      AND (l.metadata ->> 'total_points_earned')::NUMERIC > l.amount
+    ON CONFLICT (user_id) DO NOTHING;
+
+    GET DIAGNOSTICS seeded = ROW_COUNT;
+    RAISE NOTICE 'Seeded % lifetime earnings baselines', seeded;
+END $$;
+
+COMMENT ON TABLE economy_ledger IS 'Append-only log of every divinePoints and gems change; balances are derived from it';
+COMMENT ON TABLE economy_rules IS 'Validation limits applied to each economy_ledger entry type';
+COMMENT ON TABLE economy_earned_baselines IS 'Pre-ledger lifetime earnings added to user_economy_balances.total_points_earned';
+
+INSERT INTO schema_version (version, description)
+VALUES (3, 'Economy ledger with derived balances')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,314 @@
+-- =============================================
+-- GLP DISTRIBUTION
+-- =============================================
+-- The Global Leadership Pool (global_pool, fed by the withdrawal fee in
+-- WITHDRAWALS.sql) is paid out once per epoch by the glpDistribution job.
+-- snapshot_glp_epoch() scores the qualifying players at the epoch boundary,
+-- reserves their shares from the pool and seals the result as a report: one
+-- glp_epochs row with a Merkle root over its glp_epoch_shares rows. Reports
+-- cannot be edited afterwards, so anyone can rebuild the root from the public
+-- shares and check their own (src/lib/glpEngine.ts). pay_glp_epoch() then
+-- credits exactly what the report says, once.
+-- Requires REFERRAL_SERVICE.sql and WITHDRAWALS.sql. Safe to run multiple times.
+
+-- 1. Reports
+CREATE TABLE IF NOT EXISTS glp_epochs (
+    id BIGSERIAL PRIMARY KEY,
+    epoch_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    epoch_end TIMESTAMP WITH TIME ZONE UNIQUE NOT NULL,
+    top_limit INTEGER NOT NULL,
+    min_team_volume NUMERIC NOT NULL,
+    pool_nano BIGINT NOT NULL DEFAULT 0,         -- Pool at the snapshot, in nanoTON
+    distributed_nano BIGINT NOT NULL DEFAULT 0,  -- Sum of the shares; the rest stays in the pool
+    total_points BIGINT NOT NULL DEFAULT 0,
+    participant_count INTEGER NOT NULL DEFAULT 0,
+    merkle_root TEXT,                            -- NULL when nobody qualified
+    status TEXT NOT NULL DEFAULT 'snapshotting',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT valid_epoch CHECK (epoch_end > epoch_start),
+    CONSTRAINT valid_status CHECK (status IN ('snapshotting', 'snapshotted', 'paid'))
+);
+
+-- A share's leaf is sha256('<epoch_id>:<user_id>:<points>:<amount_nano>')
+CREATE TABLE IF NOT EXISTS glp_epoch_shares (
+    epoch_id BIGINT REFERENCES glp_epochs(id) NOT NULL,
+    user_id INTEGER REFERENCES users(id) NOT NULL,
+    username TEXT,
+    team_volume NUMERIC NOT NULL,
+    withdrawal_volume NUMERIC NOT NULL,
+    points BIGINT NOT NULL CHECK (points > 0),
+    amount_nano BIGINT NOT NULL CHECK (amount_nano >= 0),
+    amount NUMERIC NOT NULL,
+    leaf_hash TEXT NOT NULL,
+    PRIMARY KEY (epoch_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_glp_epoch_shares_user ON glp_epoch_shares(user_id, epoch_id DESC);
+
+-- 2. A report can only be written while it is being snapshotted; afterwards the
+-- one allowed change is marking it paid.
+CREATE OR REPLACE FUNCTION prevent_glp_report_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'glp_epochs' AND TG_OP = 'UPDATE' THEN
+        IF OLD.status = 'snapshotting' THEN
+            RETURN NEW;
+        END IF;
+
+        IF OLD.status = 'snapshotted' AND NEW.status = 'paid'
+           AND to_jsonb(NEW) - 'status' - 'paid_at' = to_jsonb(OLD) - 'status' - 'paid_at' THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    IF TG_TABLE_NAME = 'glp_epoch_shares' AND TG_OP = 'INSERT'
+       AND EXISTS (SELECT 1 FROM glp_epochs WHERE id = NEW.epoch_id AND status = 'snapshotting') THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'GLP distribution reports are immutable (% on %)', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS glp_epochs_immutable ON glp_epochs;
+CREATE TRIGGER glp_epochs_immutable
+    BEFORE UPDATE OR DELETE ON glp_epochs
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_glp_report_changes();
+
+DROP TRIGGER IF EXISTS glp_epoch_shares_immutable ON glp_epoch_shares;
+CREATE TRIGGER glp_epoch_shares_immutable
+    BEFORE INSERT OR UPDATE OR DELETE ON glp_epoch_shares
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_glp_report_changes();
+
+-- 3. Merkle tree. Leaves are ordered by user_id; each parent is the sha256 of
+-- its two children's hex digests, smaller first, and an odd node is carried up
+-- unchanged. glpEngine.ts builds the same tree.
+CREATE OR REPLACE FUNCTION glp_leaf_hash(p_epoch_id BIGINT, p_user_id INTEGER, p_points BIGINT, p_amount_nano BIGINT)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(p_epoch_id || ':' || p_user_id || ':' || p_points || ':' || p_amount_nano, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION glp_merkle_root(p_epoch_id BIGINT)
+RETURNS TEXT AS $$
+DECLARE
+    nodes TEXT[];
+    parents TEXT[];
+    node_count INTEGER;
+    i INTEGER;
+    left_hash TEXT;
+    right_hash TEXT;
+BEGIN
+    nodes := ARRAY(SELECT leaf_hash FROM glp_epoch_shares WHERE epoch_id = p_epoch_id ORDER BY user_id);
+    node_count := COALESCE(array_length(nodes, 1), 0);
+
+    IF node_count = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    WHILE node_count > 1 LOOP
+        parents := '{}';
+        FOR i IN 1..node_count BY 2 LOOP
+            IF i = node_count THEN
+                parents := parents || nodes[i];
+            ELSE
+                left_hash := LEAST(nodes[i] COLLATE "C", nodes[i + 1] COLLATE "C");
+                right_hash := GREATEST(nodes[i] COLLATE "C", nodes[i + 1] COLLATE "C");
+                parents := parents || encode(sha256(convert_to(left_hash || right_hash, 'UTF8')), 'hex');
+            END IF;
+        END LOOP;
+        nodes := parents;
+        node_count := array_length(nodes, 1);
+    END LOOP;
+
+    RETURN nodes[1];
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 4. Score, reserve and seal one epoch. Points follow calculateGLPPoints in
+-- glpEngine.ts: 1 per 1000 TON of team volume, 1 per 5000 TON the downline
+-- withdrew during the epoch (2% per 100 TON), and +20/+50/+100 at 10k/50k/100k
+-- team volume. Running an epoch again returns the sealed report.
+CREATE OR REPLACE FUNCTION snapshot_glp_epoch(
+    p_epoch_start TIMESTAMP WITH TIME ZONE,
+    p_epoch_end TIMESTAMP WITH TIME ZONE,
+    p_top_limit INTEGER,
+    p_min_team_volume NUMERIC
+)
+RETURNS glp_epochs AS $$
+DECLARE
+    report glp_epochs;
+    pool RECORD;
+    pool_total BIGINT;
+    points_total BIGINT;
+    shared_total BIGINT;
+    share_count INTEGER;
+BEGIN
+    IF p_epoch_start IS NULL OR p_epoch_end IS NULL OR p_epoch_end <= p_epoch_start THEN
+        RAISE EXCEPTION 'Invalid GLP epoch % - %', p_epoch_start, p_epoch_end;
+    END IF;
+
+    IF p_epoch_end > NOW() THEN
+        RAISE EXCEPTION 'GLP epoch ending % has not finished', p_epoch_end;
+    END IF;
+
+    -- Serialises snapshots and keeps withdrawals from moving the pool under us
+    SELECT id, amount INTO pool
+    FROM global_pool
+    ORDER BY id
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'global_pool has no row';
+    END IF;
+
+    SELECT * INTO report FROM glp_epochs WHERE epoch_end = p_epoch_end;
+
+    IF FOUND THEN
+        IF report.epoch_start <> p_epoch_start THEN
+            RAISE EXCEPTION 'GLP epoch ending % already started at %', p_epoch_end, report.epoch_start;
+        END IF;
+        RETURN report;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM glp_epochs
+        WHERE epoch_start < p_epoch_end AND epoch_end > p_epoch_start
+    ) THEN
+        RAISE EXCEPTION 'GLP epoch % - % overlaps an earlier epoch', p_epoch_start, p_epoch_end;
+    END IF;
+
+    pool_total := GREATEST(floor(COALESCE(pool.amount, 0) * 1000000000), 0)::BIGINT;
+
+    INSERT INTO glp_epochs (epoch_start, epoch_end, top_limit, min_team_volume, pool_nano)
+    VALUES (p_epoch_start, p_epoch_end, p_top_limit, p_min_team_volume, pool_total)
+    RETURNING * INTO report;
+
+    WITH candidates AS (
+        SELECT
+            u.id,
+            u.username,
+            COALESCE(u.team_volume, 0) AS team_volume,
+            COALESCE((
+                SELECT SUM(w.amount)
+                FROM referral_chain rc
+                JOIN withdrawals w ON w.user_id = rc.user_id
+                WHERE rc.referrer_id = u.id
+                  AND w.status = 'completed'
+                  AND w.processed_at >= p_epoch_start
+                  AND w.processed_at < p_epoch_end
+            ), 0) AS withdrawal_volume
+        FROM users u
+        WHERE COALESCE(u.team_volume, 0) >= p_min_team_volume
+    ),
+    scored AS (
+        SELECT
+            c.*,
+            (
+                floor(c.team_volume / 1000)
+                + floor(c.withdrawal_volume * 0.02 / 100)
+                + CASE WHEN c.team_volume >= 10000 THEN 20 ELSE 0 END
+                + CASE WHEN c.team_volume >= 50000 THEN 50 ELSE 0 END
+                + CASE WHEN c.team_volume >= 100000 THEN 100 ELSE 0 END
+            )::BIGINT AS points
+        FROM candidates c
+    ),
+    qualified AS (
+        SELECT * FROM scored
+        WHERE points > 0
+        ORDER BY points DESC, id
+        LIMIT p_top_limit
+    ),
+    shared AS (
+        SELECT q.*, div(pool_total::NUMERIC * q.points, SUM(q.points) OVER ())::BIGINT AS amount_nano
+        FROM qualified q
+    )
+    INSERT INTO glp_epoch_shares (
+        epoch_id, user_id, username, team_volume, withdrawal_volume, points, amount_nano, amount, leaf_hash
+    )
+    SELECT
+        report.id, s.id, s.username, s.team_volume, s.withdrawal_volume, s.points, s.amount_nano,
+        s.amount_nano / 1000000000.0, glp_leaf_hash(report.id, s.id, s.points, s.amount_nano)
+    FROM shared s;
+
+    SELECT COUNT(*), COALESCE(SUM(points), 0), COALESCE(SUM(amount_nano), 0)
+    INTO share_count, points_total, shared_total
+    FROM glp_epoch_shares
+    WHERE epoch_id = report.id;
+
+    UPDATE global_pool SET amount = amount - shared_total / 1000000000.0 WHERE id = pool.id;
+
+    UPDATE glp_epochs
+    SET distributed_nano = shared_total,
+        total_points = points_total,
+        participant_count = share_count,
+        merkle_root = glp_merkle_root(report.id),
+        status = 'snapshotted'
+    WHERE id = report.id
+    RETURNING * INTO report;
+
+    RETURN report;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Credit a sealed report's shares in one transaction; paying it again does nothing
+CREATE OR REPLACE FUNCTION pay_glp_epoch(p_epoch_id BIGINT)
+RETURNS TABLE (paid INTEGER, total_amount NUMERIC) AS $$
+DECLARE
+    report glp_epochs;
+    paid_count INTEGER := 0;
+BEGIN
+    SELECT * INTO report FROM glp_epochs WHERE id = p_epoch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'GLP epoch % not found', p_epoch_id;
+    END IF;
+
+    IF report.status = 'paid' THEN
+        RETURN QUERY SELECT 0, 0::NUMERIC;
+        RETURN;
+    END IF;
+
+    IF report.status <> 'snapshotted' THEN
+        RAISE EXCEPTION 'GLP epoch % is not sealed', p_epoch_id;
+    END IF;
+
+    UPDATE users u
+    SET available_balance = COALESCE(u.available_balance, 0) + s.amount,
+        total_earned = COALESCE(u.total_earned, 0) + s.amount
+    FROM glp_epoch_shares s
+    WHERE s.epoch_id = p_epoch_id AND u.id = s.user_id AND s.amount_nano > 0;
+
+    GET DIAGNOSTICS paid_count = ROW_COUNT;
+
+    UPDATE glp_epochs SET status = 'paid', paid_at = NOW() WHERE id = p_epoch_id;
+
+    RETURN QUERY SELECT paid_count, report.distributed_nano / 1000000000.0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. RLS: reports are public so every player can verify them
+ALTER TABLE glp_epochs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE glp_epoch_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS glp_epochs_select_policy ON glp_epochs;
+CREATE POLICY glp_epochs_select_policy ON glp_epochs
+    FOR SELECT USING (status <> 'snapshotting');
+
+DROP POLICY IF EXISTS glp_epoch_shares_select_policy ON glp_epoch_shares;
+CREATE POLICY glp_epoch_shares_select_policy ON glp_epoch_shares
+    FOR SELECT USING (true);
+
+REVOKE ALL ON FUNCTION snapshot_glp_epoch(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION pay_glp_epoch(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION snapshot_glp_epoch(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION pay_glp_epoch(BIGINT) TO service_role;
+
+COMMENT ON TABLE glp_epochs IS 'Sealed GLP distribution reports, one per epoch, with the Merkle root of their shares';
+
+INSERT INTO schema_version (version, description)
+VALUES (15, 'GLP epoch snapshots with Merkle-rooted distribution reports')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,238 @@
+-- =============================================
+-- JOB RUNS
+-- =============================================
+-- Bookkeeping for the cron job runner (src/cron/jobRunner.ts). Each scheduled
+-- run of a job is one job_runs row keyed by (job_name, run_key), where the run
+-- key names the period it covers (a date, an hour, a quarter hour):
+--   * the row doubles as a lease-based lock, so only one worker runs a period
+--     and a crashed worker's lease simply expires
+--   * last_item_id is checkpointed after every item, so a restarted run resumes
+--     where the previous one stopped instead of starting over
+--   * items that failed are kept in job_run_failures for the replay CLI
+-- process_daily_rewards takes an idempotency key so a replayed or resumed run
+-- never pays a stake twice for the same day.
+-- Requires WITHDRAWALS.sql. Safe to run multiple times.
+
+-- 1. Runs and failed items
+CREATE TABLE IF NOT EXISTS job_runs (
+    id BIGSERIAL PRIMARY KEY,
+    job_name TEXT NOT NULL,
+    run_key TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    locked_by TEXT,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_item_id BIGINT, -- Checkpoint: every item up to this id is done
+    processed INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    heartbeat_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (job_name, run_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job_name, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS job_run_failures (
+    run_id BIGINT REFERENCES job_runs(id) ON DELETE CASCADE NOT NULL,
+    item_id BIGINT NOT NULL,
+    error TEXT NOT NULL,
+    failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (run_id, item_id)
+);
+
+-- 2. Take the lock for a run. Returns the run to work on, a completed run
+-- (nothing to do unless p_replay), or no row when another worker holds it.
+-- A replay starts the run over from the first item.
+CREATE OR REPLACE FUNCTION acquire_job_run(
+    p_job_name TEXT,
+    p_run_key TEXT,
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 300,
+    p_replay BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF job_runs AS $$
+DECLARE
+    run job_runs%ROWTYPE;
+BEGIN
+    INSERT INTO job_runs (job_name, run_key, locked_by, locked_until, attempts)
+    VALUES (p_job_name, p_run_key, p_worker_id, NOW() + make_interval(secs => p_lease_seconds), 1)
+    ON CONFLICT (job_name, run_key) DO NOTHING
+    RETURNING * INTO run;
+
+    IF FOUND THEN
+        RETURN NEXT run;
+        RETURN;
+    END IF;
+
+    SELECT * INTO run FROM job_runs
+    WHERE job_name = p_job_name AND run_key = p_run_key
+    FOR UPDATE;
+
+    IF run.status = 'running' AND run.locked_until > NOW() AND run.locked_by IS DISTINCT FROM p_worker_id THEN
+        RETURN;
+    END IF;
+
+    IF run.status = 'completed' AND NOT p_replay THEN
+        RETURN NEXT run;
+        RETURN;
+    END IF;
+
+    IF p_replay THEN
+        DELETE FROM job_run_failures WHERE run_id = run.id;
+    END IF;
+
+    UPDATE job_runs
+    SET status = 'running',
+        locked_by = p_worker_id,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        last_item_id = CASE WHEN p_replay THEN NULL ELSE last_item_id END,
+        processed = CASE WHEN p_replay THEN 0 ELSE processed END,
+        failed = CASE WHEN p_replay THEN 0 ELSE failed END,
+        last_error = NULL,
+        heartbeat_at = NOW(),
+        finished_at = NULL
+    WHERE id = run.id
+    RETURNING * INTO run;
+
+    RETURN NEXT run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. Record one finished item and extend the lease. FALSE means the lock was
+-- lost (lease expired and another worker took over) and the caller must stop.
+CREATE OR REPLACE FUNCTION checkpoint_job_run(
+    p_run_id BIGINT,
+    p_worker_id TEXT,
+    p_item_id BIGINT,
+    p_error TEXT DEFAULT NULL,
+    p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE job_runs
+    SET last_item_id = p_item_id,
+        processed = processed + CASE WHEN p_error IS NULL THEN 1 ELSE 0 END,
+        failed = failed + CASE WHEN p_error IS NULL THEN 0 ELSE 1 END,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW()
+    WHERE id = p_run_id AND locked_by = p_worker_id AND status = 'running';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_error IS NOT NULL THEN
+        INSERT INTO job_run_failures (run_id, item_id, error)
+        VALUES (p_run_id, p_item_id, p_error)
+        ON CONFLICT (run_id, item_id) DO UPDATE SET error = EXCLUDED.error, failed_at = NOW();
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Close the run and release the lock
+CREATE OR REPLACE FUNCTION finish_job_run(
+    p_run_id BIGINT,
+    p_worker_id TEXT,
+    p_status TEXT,
+    p_error TEXT DEFAULT NULL,
+    p_summary JSONB DEFAULT '{}'::jsonb
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_status NOT IN ('completed', 'failed') THEN
+        RAISE EXCEPTION 'Invalid job run status %', p_status;
+    END IF;
+
+    UPDATE job_runs
+    SET status = p_status,
+        last_error = p_error,
+        summary = COALESCE(p_summary, '{}'::jsonb),
+        locked_by = NULL,
+        locked_until = NULL,
+        finished_at = NOW()
+    WHERE id = p_run_id AND locked_by = p_worker_id AND status = 'running';
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Daily stake rewards, paid once per idempotency key
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'reward_history' AND column_name = 'idempotency_key'
+    ) THEN
+        ALTER TABLE reward_history ADD COLUMN idempotency_key TEXT UNIQUE;
+        RAISE NOTICE 'Added idempotency_key to reward_history';
+    ELSE
+        RAISE NOTICE 'reward_history.idempotency_key already exists';
+    END IF;
+END $$;
+
+-- The unkeyed version paid again on every call
+DROP FUNCTION IF EXISTS process_daily_rewards(INTEGER, NUMERIC);
+
+-- TRUE if the reward was paid now, FALSE if the key was already used or the stake is closed
+CREATE OR REPLACE FUNCTION process_daily_rewards(p_stake_id INTEGER, p_amount NUMERIC, p_idempotency_key TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    stake_owner INTEGER;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Invalid reward amount %', p_amount;
+    END IF;
+
+    IF p_idempotency_key IS NULL OR p_idempotency_key = '' THEN
+        RAISE EXCEPTION 'An idempotency key is required';
+    END IF;
+
+    INSERT INTO reward_history (user_id, stake_id, amount, type, idempotency_key)
+    SELECT user_id, id, p_amount, 'roi', p_idempotency_key
+    FROM stakes
+    WHERE id = p_stake_id AND is_active
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING user_id INTO stake_owner;
+
+    IF stake_owner IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE stakes
+    SET total_earned = COALESCE(total_earned, 0) + p_amount,
+        last_payout = NOW()
+    WHERE id = p_stake_id;
+
+    UPDATE users
+    SET available_balance = COALESCE(available_balance, 0) + p_amount,
+        total_earned = COALESCE(total_earned, 0) + p_amount
+    WHERE id = stake_owner;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Service role only
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_run_failures ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON FUNCTION acquire_job_run(TEXT, TEXT, TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION checkpoint_job_run(BIGINT, TEXT, BIGINT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION finish_job_run(BIGINT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION process_daily_rewards(INTEGER, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION acquire_job_run(TEXT, TEXT, TEXT, INTEGER, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION checkpoint_job_run(BIGINT, TEXT, BIGINT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION finish_job_run(BIGINT, TEXT, TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION process_daily_rewards(INTEGER, NUMERIC, TEXT) TO service_role;
+
+COMMENT ON TABLE job_runs IS 'One row per cron job period: lock, checkpoint and outcome of the run';
+
+INSERT INTO schema_version (version, description)
+VALUES (13, 'Job runs with locking and checkpoints; idempotent daily rewards')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,369 @@
+-- =============================================
+-- LEADERBOARD PERIODS
+-- =============================================
+-- Daily, weekly and monthly boards rank the divine points earned inside each
+-- UTC period instead of lifetime balances. Every counted economy_ledger entry
+-- is added to the player's day, week and month row as it is written. The
+-- leaderboards cron job (refresh_leaderboards) re-ranks the running periods
+-- every 15 minutes, keeping the previous rank for the arrows on the board, and
+-- freezes periods that have ended as their final standings.
+-- Only the running periods are backfilled from the ledger; earlier ones were
+-- never tracked. Requires ECONOMY_LEDGER.sql. Safe to run multiple times.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- 1. Which entries count. Spending and resets don't lower a player's
+-- earnings; adjustments and clawbacks take back points that never counted.
+ALTER TABLE economy_rules ADD COLUMN IF NOT EXISTS counts_for_leaderboard BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE economy_rules
+SET counts_for_leaderboard = entry_type IN (
+    'mine_tick', 'offline_claim', 'task_reward', 'referral_bonus',
+    'plausibility_adjustment', 'referral_clawback'
+)
+WHERE currency = 'divine_points';
+
+-- 2. Period tables. weekly_ and monthly_leaderboards come from
+-- divine_mining_schema.sql; daily_leaderboards is new.
+CREATE TABLE IF NOT EXISTS daily_leaderboards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    day_start DATE NOT NULL,
+    day_end DATE NOT NULL,
+    points_earned DECIMAL(18, 6) NOT NULL,
+    rank_position INTEGER,
+    reward_earned DECIMAL(18, 6) DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(user_id, day_start)
+);
+
+CREATE TABLE IF NOT EXISTS weekly_leaderboards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL,
+    week_end DATE NOT NULL,
+    points_earned DECIMAL(18, 6) NOT NULL,
+    rank_position INTEGER,
+    reward_earned DECIMAL(18, 6) DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(user_id, week_start)
+);
+
+CREATE TABLE IF NOT EXISTS monthly_leaderboards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    month_start DATE NOT NULL,
+    month_end DATE NOT NULL,
+    points_earned DECIMAL(18, 6) NOT NULL,
+    rank_position INTEGER,
+    reward_earned DECIMAL(18, 6) DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(user_id, month_start)
+);
+
+-- rank_position is the rank at the last refresh, or the final rank once is_final
+ALTER TABLE daily_leaderboards ADD COLUMN IF NOT EXISTS previous_rank INTEGER;
+ALTER TABLE daily_leaderboards ADD COLUMN IF NOT EXISTS is_final BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE daily_leaderboards ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE daily_leaderboards ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE weekly_leaderboards ADD COLUMN IF NOT EXISTS previous_rank INTEGER;
+ALTER TABLE weekly_leaderboards ADD COLUMN IF NOT EXISTS is_final BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE weekly_leaderboards ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE weekly_leaderboards ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE monthly_leaderboards ADD COLUMN IF NOT EXISTS previous_rank INTEGER;
+ALTER TABLE monthly_leaderboards ADD COLUMN IF NOT EXISTS is_final BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE monthly_leaderboards ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE monthly_leaderboards ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_daily_leaderboards_standings ON daily_leaderboards(day_start, points_earned DESC);
+CREATE INDEX IF NOT EXISTS idx_weekly_leaderboards_standings ON weekly_leaderboards(week_start, points_earned DESC);
+CREATE INDEX IF NOT EXISTS idx_monthly_leaderboards_standings ON monthly_leaderboards(month_start, points_earned DESC);
+
+-- One shape for all three boards, read by the RPCs below
+CREATE OR REPLACE VIEW leaderboard_standings AS
+    SELECT 'daily'::TEXT AS period, id, user_id, day_start AS period_start, day_end AS period_end,
+           points_earned, rank_position, previous_rank, is_final
+    FROM daily_leaderboards
+    UNION ALL
+    SELECT 'weekly', id, user_id, week_start, week_end, points_earned, rank_position, previous_rank, is_final
+    FROM weekly_leaderboards
+    UNION ALL
+    SELECT 'monthly', id, user_id, month_start, month_end, points_earned, rank_position, previous_rank, is_final
+    FROM monthly_leaderboards;
+
+-- 3. UTC period boundaries. Weeks start on Monday.
+CREATE OR REPLACE FUNCTION leaderboard_period_start(
+    p_period TEXT,
+    p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS DATE AS $$
+BEGIN
+    CASE p_period
+        WHEN 'daily' THEN RETURN (p_at AT TIME ZONE 'UTC')::DATE;
+        WHEN 'weekly' THEN RETURN date_trunc('week', p_at AT TIME ZONE 'UTC')::DATE;
+        WHEN 'monthly' THEN RETURN date_trunc('month', p_at AT TIME ZONE 'UTC')::DATE;
+        ELSE RAISE EXCEPTION 'Unknown leaderboard period %', p_period;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Last day of the period, inclusive like week_end and month_end
+CREATE OR REPLACE FUNCTION leaderboard_period_end(p_period TEXT, p_start DATE)
+RETURNS DATE AS $$
+BEGIN
+    CASE p_period
+        WHEN 'daily' THEN RETURN p_start;
+        WHEN 'weekly' THEN RETURN p_start + 6;
+        WHEN 'monthly' THEN RETURN (p_start + INTERVAL '1 month')::DATE - 1;
+        ELSE RAISE EXCEPTION 'Unknown leaderboard period %', p_period;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 4. Earnings are added as ledger entries are written. Finalized rows are
+-- left alone so a late entry can't change settled standings.
+CREATE OR REPLACE FUNCTION add_leaderboard_earnings()
+RETURNS TRIGGER AS $$
+DECLARE
+    entry_day DATE := leaderboard_period_start('daily', NEW.created_at);
+    entry_week DATE := leaderboard_period_start('weekly', NEW.created_at);
+    entry_month DATE := leaderboard_period_start('monthly', NEW.created_at);
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM economy_rules WHERE entry_type = NEW.entry_type AND counts_for_leaderboard) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO daily_leaderboards AS b (user_id, day_start, day_end, points_earned)
+    VALUES (NEW.user_id, entry_day, entry_day, NEW.amount)
+    ON CONFLICT (user_id, day_start) DO UPDATE
+    SET points_earned = b.points_earned + EXCLUDED.points_earned, updated_at = NOW()
+    WHERE NOT b.is_final;
+
+    INSERT INTO weekly_leaderboards AS b (user_id, week_start, week_end, points_earned)
+    VALUES (NEW.user_id, entry_week, leaderboard_period_end('weekly', entry_week), NEW.amount)
+    ON CONFLICT (user_id, week_start) DO UPDATE
+    SET points_earned = b.points_earned + EXCLUDED.points_earned, updated_at = NOW()
+    WHERE NOT b.is_final;
+
+    INSERT INTO monthly_leaderboards AS b (user_id, month_start, month_end, points_earned)
+    VALUES (NEW.user_id, entry_month, leaderboard_period_end('monthly', entry_month), NEW.amount)
+    ON CONFLICT (user_id, month_start) DO UPDATE
+    SET points_earned = b.points_earned + EXCLUDED.points_earned, updated_at = NOW()
+    WHERE NOT b.is_final;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS economy_ledger_leaderboards ON economy_ledger;
+CREATE TRIGGER economy_ledger_leaderboards
+    AFTER INSERT ON economy_ledger
+    FOR EACH ROW
+    WHEN (NEW.currency = 'divine_points')
+    EXECUTE FUNCTION add_leaderboard_earnings();
+
+-- 5. Backfill the running periods. Totals are recomputed, not added, so
+-- running this again doesn't double count.
+INSERT INTO daily_leaderboards (user_id, day_start, day_end, points_earned)
+SELECT l.user_id, leaderboard_period_start('daily', l.created_at), leaderboard_period_start('daily', l.created_at), SUM(l.amount)
+FROM economy_ledger l
+JOIN economy_rules r ON r.entry_type = l.entry_type AND r.counts_for_leaderboard
+WHERE l.currency = 'divine_points'
+  AND l.created_at >= leaderboard_period_start('daily')::TIMESTAMP AT TIME ZONE 'UTC'
+GROUP BY l.user_id, leaderboard_period_start('daily', l.created_at)
+ON CONFLICT (user_id, day_start) DO UPDATE
+SET points_earned = EXCLUDED.points_earned, updated_at = NOW()
+WHERE NOT daily_leaderboards.is_final;
+
+INSERT INTO weekly_leaderboards (user_id, week_start, week_end, points_earned)
+SELECT l.user_id, leaderboard_period_start('weekly', l.created_at),
+       leaderboard_period_end('weekly', leaderboard_period_start('weekly', l.created_at)), SUM(l.amount)
+FROM economy_ledger l
+JOIN economy_rules r ON r.entry_type = l.entry_type AND r.counts_for_leaderboard
+WHERE l.currency = 'divine_points'
+  AND l.created_at >= leaderboard_period_start('weekly')::TIMESTAMP AT TIME ZONE 'UTC'
+GROUP BY l.user_id, leaderboard_period_start('weekly', l.created_at)
+ON CONFLICT (user_id, week_start) DO UPDATE
+SET points_earned = EXCLUDED.points_earned, updated_at = NOW()
+WHERE NOT weekly_leaderboards.is_final;
+
+INSERT INTO monthly_leaderboards (user_id, month_start, month_end, points_earned)
+SELECT l.user_id, leaderboard_period_start('monthly', l.created_at),
+       leaderboard_period_end('monthly', leaderboard_period_start('monthly', l.created_at)), SUM(l.amount)
+FROM economy_ledger l
+JOIN economy_rules r ON r.entry_type = l.entry_type AND r.counts_for_leaderboard
+WHERE l.currency = 'divine_points'
+  AND l.created_at >= leaderboard_period_start('monthly')::TIMESTAMP AT TIME ZONE 'UTC'
+GROUP BY l.user_id, leaderboard_period_start('monthly', l.created_at)
+ON CONFLICT (user_id, month_start) DO UPDATE
+SET points_earned = EXCLUDED.points_earned, updated_at = NOW()
+WHERE NOT monthly_leaderboards.is_final;
+
+-- 6. Rollover and ranking, run by the leaderboards cron job. Ended periods
+-- get their final rank once; running ones are re-ranked on every call.
+CREATE OR REPLACE FUNCTION refresh_leaderboards(p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TABLE (period TEXT, finalized INTEGER, ranked INTEGER) AS $$
+DECLARE
+    board RECORD;
+BEGIN
+    FOR board IN
+        SELECT * FROM (VALUES
+            ('daily', 'daily_leaderboards', 'day_start'),
+            ('weekly', 'weekly_leaderboards', 'week_start'),
+            ('monthly', 'monthly_leaderboards', 'month_start')
+        ) AS b(board_period, table_name, start_column)
+    LOOP
+        period := board.board_period;
+
+        EXECUTE format(
+            'UPDATE %1$I t
+             SET rank_position = r.position, is_final = TRUE, finalized_at = NOW(), updated_at = NOW()
+             FROM (
+                 SELECT id, ROW_NUMBER() OVER (PARTITION BY %2$I ORDER BY points_earned DESC, user_id) AS position
+                 FROM %1$I
+                 WHERE %2$I < $1 AND NOT is_final
+             ) r
+             WHERE t.id = r.id',
+            board.table_name, board.start_column
+        ) USING leaderboard_period_start(board.board_period, p_at);
+        GET DIAGNOSTICS finalized = ROW_COUNT;
+
+        EXECUTE format(
+            'UPDATE %1$I t
+             SET previous_rank = t.rank_position, rank_position = r.position
+             FROM (
+                 SELECT id, ROW_NUMBER() OVER (ORDER BY points_earned DESC, user_id) AS position
+                 FROM %1$I
+                 WHERE %2$I = $1 AND NOT is_final
+             ) r
+             WHERE t.id = r.id',
+            board.table_name, board.start_column
+        ) USING leaderboard_period_start(board.board_period, p_at);
+        GET DIAGNOSTICS ranked = ROW_COUNT;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Player RPCs. Rows earned since the last refresh have no rank yet; they
+-- follow the ranked ones by points and show as new.
+-- p_previous returns the final standings of the period before the running one.
+CREATE OR REPLACE FUNCTION get_period_leaderboard(
+    p_period TEXT,
+    p_limit INTEGER DEFAULT 50,
+    p_previous BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    rank BIGINT,
+    rank_change INTEGER,
+    user_id INTEGER,
+    telegram_id BIGINT,
+    username TEXT,
+    first_name TEXT,
+    last_name TEXT,
+    joined_at TIMESTAMP WITH TIME ZONE,
+    last_active TIMESTAMP WITH TIME ZONE,
+    game_data JSONB,
+    last_updated TIMESTAMP WITH TIME ZONE,
+    points_earned NUMERIC,
+    period_start DATE,
+    period_end DATE,
+    is_final BOOLEAN
+) AS $$
+DECLARE
+    current_start DATE := leaderboard_period_start(p_period);
+    board_start DATE := CASE
+        WHEN p_previous THEN leaderboard_period_start(p_period, (current_start - 1)::TIMESTAMP AT TIME ZONE 'UTC')
+        ELSE current_start
+    END;
+BEGIN
+    RETURN QUERY
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY s.rank_position NULLS LAST, s.points_earned DESC, s.user_id),
+        s.previous_rank - s.rank_position,
+        s.user_id,
+        u.telegram_id,
+        u.username,
+        u.first_name,
+        u.last_name,
+        u.created_at,
+        u.last_active,
+        g.game_data,
+        g.last_updated,
+        s.points_earned::NUMERIC,
+        s.period_start,
+        s.period_end,
+        s.is_final
+    FROM leaderboard_standings s
+    JOIN users u ON u.id = s.user_id
+    LEFT JOIN LATERAL (
+        SELECT d.game_data, d.last_updated FROM user_game_data d
+        WHERE d.user_id = s.user_id
+        ORDER BY d.last_updated DESC
+        LIMIT 1
+    ) g ON TRUE
+    WHERE s.period = p_period
+      AND s.period_start = board_start
+    ORDER BY 1
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The caller's place on the running board; no row until they earn something
+CREATE OR REPLACE FUNCTION get_my_period_rank(p_period TEXT)
+RETURNS TABLE (rank INTEGER, rank_change INTEGER, points_earned NUMERIC) AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    board_start DATE := leaderboard_period_start(p_period);
+    mine RECORD;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT s.rank_position, s.previous_rank, s.points_earned INTO mine
+    FROM leaderboard_standings s
+    WHERE s.period = p_period AND s.period_start = board_start AND s.user_id = caller_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    rank := COALESCE(mine.rank_position, (
+        SELECT COUNT(*) + 1
+        FROM leaderboard_standings s
+        WHERE s.period = p_period
+          AND s.period_start = board_start
+          AND (s.rank_position IS NOT NULL OR s.points_earned > mine.points_earned)
+    )::INTEGER);
+    rank_change := mine.previous_rank - mine.rank_position;
+    points_earned := mine.points_earned;
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION refresh_leaderboards(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_leaderboards(TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION get_period_leaderboard(TEXT, INTEGER, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_period_rank(TEXT) TO authenticated;
+
+-- 8. RLS: boards are read through the RPCs above only
+ALTER TABLE daily_leaderboards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE weekly_leaderboards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE monthly_leaderboards ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON leaderboard_standings FROM anon, authenticated;
+
+-- Rank whatever the backfill found so the boards aren't empty until the first job run
+SELECT * FROM refresh_leaderboards();
+
+COMMENT ON TABLE daily_leaderboards IS 'Divine points earned per player and UTC day, accumulated from economy_ledger';
+COMMENT ON TABLE weekly_leaderboards IS 'Divine points earned per player and UTC week (Monday start), accumulated from economy_ledger';
+COMMENT ON TABLE monthly_leaderboards IS 'Divine points earned per player and UTC month, accumulated from economy_ledger';
+
+INSERT INTO schema_version (version, description)
+VALUES (21, 'Period leaderboards fed by the economy ledger with rollover and rank changes')
+ON CONFLICT (version) DO NOTHING;
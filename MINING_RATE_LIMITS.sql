@@ -0,0 +1,67 @@
+-- =============================================
+-- MINING RATE LIMITS
+-- =============================================
+-- mine_tick and offline_claim entries share one budget in insert_economy_entry
+-- (ECONOMY_LEDGER.sql): together they can't exceed max_mining_rate() over the time
+-- since the player's previous mining entry. The rate is worked out from what the
+-- server knows - upgrade levels in the ledger priced against the active catalog,
+-- the ascension multiplier and double_points events - with the same formula as
+-- getMaxEarnings (src/game/engine/plausibility.ts).
+-- Requires UPGRADE_DEFINITIONS.sql, ASCENSION.sql and SPECIAL_EVENTS.sql.
+-- Safe to run multiple times.
+
+-- Most points per second the player can mine over a window of p_elapsed_seconds
+-- ending now. Assumes the strongest boost stack (MAX_BOOST_MULTIPLIER) and any
+-- double_points event in the window was active throughout; offline accrual gets
+-- the 10%-per-day bonus instead. Includes PLAUSIBILITY_TOLERANCE.
+CREATE OR REPLACE FUNCTION max_mining_rate(p_user_id INTEGER, p_elapsed_seconds NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+    points_per_second NUMERIC;
+    resonance_bonus NUMERIC;
+    ascension NUMERIC;
+    event_bonus NUMERIC;
+    offline_bonus NUMERIC;
+BEGIN
+    -- Same grouping as getUpgradeEffectType: anything that isn't an energy, offline
+    -- or global upgrade adds its effect_value per level to pointsPerSecond
+    SELECT
+        1.0 + COALESCE(SUM(d.effect_value * get_upgrade_level(p_user_id, d.id)) FILTER (
+            WHERE d.id NOT IN (
+                'energy-capacity', 'energy-overflow', 'vibrational-harmony', 'transcendence', 'space-bending', 'earth-element',
+                'inner-strength', 'aura-purification', 'energy-mastery', 'air-element',
+                'psychic-awareness', 'divine-resonance', 'mindful-breathing', 'water-element',
+                'cosmic-consciousness', 'time-dilation',
+                'reality-shift'
+            )
+        ), 0),
+        COALESCE(SUM(d.effect_value * get_upgrade_level(p_user_id, d.id)) FILTER (WHERE d.id = 'divine-resonance'), 0)
+    INTO points_per_second, resonance_bonus
+    FROM active_upgrade_definitions d;
+
+    SELECT COALESCE(MAX(s.multiplier), 1) INTO ascension
+    FROM user_ascension_state s
+    WHERE s.user_id = p_user_id;
+
+    -- Mining boosts add (multiplier - 1) on top of 1x, like getEventBoost
+    SELECT COALESCE(SUM(COALESCE((event_data ->> 'multiplier')::NUMERIC, 2) - 1), 0) INTO event_bonus
+    FROM special_events
+    WHERE is_active
+      AND event_type = 'double_points'
+      AND starts_at < NOW()
+      AND ends_at > NOW() - make_interval(secs => p_elapsed_seconds);
+
+    offline_bonus := LEAST(LEAST(p_elapsed_seconds / 86400, 14) * 0.1, 1.4);
+
+    RETURN points_per_second * ascension * GREATEST(
+        (5 + GREATEST(event_bonus, 0)) * (1 + GREATEST(resonance_bonus, 0)),
+        1 + offline_bonus
+    ) * 1.05;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE ALL ON FUNCTION max_mining_rate(INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO schema_version (version, description)
+VALUES (23, 'Mining entries limited by the player''s server-derived mining rate')
+ON CONFLICT (version) DO NOTHING;
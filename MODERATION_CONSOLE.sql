@@ -0,0 +1,289 @@
+-- =============================================
+-- MODERATION CONSOLE
+-- =============================================
+-- Moderators review task_submissions from the in-app console (/moderation)
+-- or the task bot instead of editing the table by hand. Access comes from
+-- users.role, which only the service role can change:
+--   UPDATE users SET role = 'moderator' WHERE telegram_id = ...;
+-- Every decision is written to task_submission_reviews, and approval pays
+-- the task reward through the economy ledger straight away.
+-- Requires TASK_ENGINE.sql. Safe to run multiple times.
+
+-- 1. Roles
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'player'
+    CHECK (role IN ('player', 'moderator', 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_users_staff ON users(role) WHERE role <> 'player';
+
+-- Players may update their own row (TELEGRAM_AUTH_RLS.sql) but not promote themselves
+CREATE OR REPLACE FUNCTION protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND NEW.role <> 'player' THEN
+        RAISE EXCEPTION 'New users are players';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role THEN
+        RAISE EXCEPTION 'Roles are assigned by an administrator';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_user_role ON users;
+CREATE TRIGGER protect_user_role
+    BEFORE INSERT OR UPDATE OF role ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_user_role();
+
+CREATE OR REPLACE FUNCTION is_task_moderator(p_user_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM users WHERE id = p_user_id AND role IN ('moderator', 'admin'));
+$$ LANGUAGE sql STABLE;
+
+-- The caller's id, or an error for anyone who is not staff
+CREATE OR REPLACE FUNCTION require_task_moderator()
+RETURNS INTEGER AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF NOT is_task_moderator(caller_id) THEN
+        RAISE EXCEPTION 'Moderators only';
+    END IF;
+
+    RETURN caller_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 2. Audit trail
+CREATE TABLE IF NOT EXISTS task_submission_reviews (
+    id SERIAL PRIMARY KEY,
+    submission_id INTEGER NOT NULL REFERENCES task_submissions(id) ON DELETE CASCADE,
+    reviewer_id INTEGER REFERENCES users(id), -- NULL when settled directly with the service role
+    decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected', 'needs_revision')),
+    notes TEXT,
+    reward_paid BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_submission_reviews_submission ON task_submission_reviews(submission_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_submission_reviews_created_at ON task_submission_reviews(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_submissions_status_created ON task_submissions(status, created_at);
+
+CREATE OR REPLACE FUNCTION prevent_task_submission_review_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'task_submission_reviews is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_submission_reviews_append_only ON task_submission_reviews;
+CREATE TRIGGER task_submission_reviews_append_only
+    BEFORE UPDATE OR DELETE ON task_submission_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_task_submission_review_changes();
+
+-- 3. Replaces review_task_submission from TASK_ENGINE.sql: decisions are
+-- audited and approval pays the reward instead of waiting for a claim.
+CREATE OR REPLACE FUNCTION review_task_submission(
+    p_submission_id INTEGER,
+    p_decision TEXT,
+    p_reviewer_id INTEGER,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS task_submissions AS $$
+DECLARE
+    submission task_submissions%ROWTYPE;
+    paid BOOLEAN := FALSE;
+BEGIN
+    IF p_decision NOT IN ('approved', 'rejected', 'needs_revision') THEN
+        RAISE EXCEPTION 'Unknown review decision %', p_decision;
+    END IF;
+
+    SELECT * INTO submission FROM task_submissions WHERE id = p_submission_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown submission %', p_submission_id;
+    END IF;
+
+    IF submission.status <> 'pending' THEN
+        RAISE EXCEPTION 'Submission % was already reviewed (%)', p_submission_id, submission.status;
+    END IF;
+
+    UPDATE task_submissions
+    SET status = p_decision,
+        reviewed_by = p_reviewer_id,
+        reviewed_at = NOW(),
+        review_notes = p_notes,
+        updated_at = NOW()
+    WHERE id = p_submission_id
+    RETURNING * INTO submission;
+
+    UPDATE user_tasks
+    SET status = CASE p_decision
+            WHEN 'approved' THEN 'completed'
+            WHEN 'rejected' THEN 'failed'
+            ELSE 'in_progress'
+        END,
+        progress = CASE WHEN p_decision = 'approved' THEN goal ELSE progress END,
+        completed_at = CASE WHEN p_decision = 'approved' THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+    WHERE user_id = submission.user_id
+      AND task_id = submission.task_id
+      AND status = 'pending_review';
+
+    -- Only when the task was waiting on this submission; an older duplicate pays nothing
+    IF p_decision = 'approved' AND FOUND THEN
+        PERFORM pay_task_reward(submission.user_id, submission.task_id);
+        paid := TRUE;
+    END IF;
+
+    INSERT INTO task_submission_reviews (submission_id, reviewer_id, decision, notes, reward_paid)
+    VALUES (p_submission_id, p_reviewer_id, p_decision, p_notes, paid);
+
+    RETURN submission;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Console RPCs
+-- p_status NULL lists every status; p_search matches the player name or the submission
+CREATE OR REPLACE FUNCTION list_task_submissions(
+    p_status TEXT DEFAULT 'pending',
+    p_task_id TEXT DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id INTEGER,
+    user_id INTEGER,
+    username TEXT,
+    task_id TEXT,
+    task_title TEXT,
+    submission_type TEXT,
+    submission_data TEXT,
+    status TEXT,
+    reviewed_by INTEGER,
+    reviewer_username TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    total_count BIGINT
+) AS $$
+DECLARE
+    search TEXT := NULLIF(trim(COALESCE(p_search, '')), '');
+BEGIN
+    PERFORM require_task_moderator();
+
+    RETURN QUERY
+    SELECT
+        s.id,
+        s.user_id,
+        s.telegram_username,
+        s.task_id,
+        t.title,
+        s.submission_type,
+        s.submission_data,
+        s.status,
+        s.reviewed_by,
+        r.username,
+        s.reviewed_at,
+        s.review_notes,
+        s.created_at,
+        COUNT(*) OVER ()
+    FROM task_submissions s
+    LEFT JOIN tasks t ON t.task_id = s.task_id
+    LEFT JOIN users r ON r.id = s.reviewed_by
+    WHERE (p_status IS NULL OR s.status = p_status)
+      AND (p_task_id IS NULL OR s.task_id = p_task_id)
+      AND (search IS NULL
+           OR s.telegram_username ILIKE '%' || search || '%'
+           OR s.submission_data ILIKE '%' || search || '%')
+    -- Oldest first while working the queue, newest first when browsing history
+    ORDER BY
+        CASE WHEN p_status = 'pending' THEN s.created_at END ASC,
+        s.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Bulk decision; submissions someone else settled in the meantime are skipped
+CREATE OR REPLACE FUNCTION review_task_submissions(
+    p_submission_ids INTEGER[],
+    p_decision TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS SETOF task_submissions AS $$
+DECLARE
+    moderator_id INTEGER := require_task_moderator();
+    pending_id INTEGER;
+BEGIN
+    IF COALESCE(array_length(p_submission_ids, 1), 0) > 100 THEN
+        RAISE EXCEPTION 'Review at most 100 submissions at a time';
+    END IF;
+
+    FOR pending_id IN
+        SELECT s.id FROM task_submissions s
+        WHERE s.id = ANY(p_submission_ids) AND s.status = 'pending'
+        ORDER BY s.id
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        RETURN NEXT review_task_submission(pending_id, p_decision, moderator_id, NULLIF(trim(COALESCE(p_notes, '')), ''));
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Newest first; p_submission_id narrows it to one submission's history
+CREATE OR REPLACE FUNCTION get_task_submission_reviews(
+    p_submission_id INTEGER DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id INTEGER,
+    submission_id INTEGER,
+    task_id TEXT,
+    player_username TEXT,
+    reviewer_id INTEGER,
+    reviewer_username TEXT,
+    decision TEXT,
+    notes TEXT,
+    reward_paid BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    PERFORM require_task_moderator();
+
+    RETURN QUERY
+    SELECT a.id, a.submission_id, s.task_id, s.telegram_username, a.reviewer_id, r.username,
+           a.decision, a.notes, a.reward_paid, a.created_at
+    FROM task_submission_reviews a
+    JOIN task_submissions s ON s.id = a.submission_id
+    LEFT JOIN users r ON r.id = a.reviewer_id
+    WHERE p_submission_id IS NULL OR a.submission_id = p_submission_id
+    ORDER BY a.created_at DESC, a.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION require_task_moderator() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION list_task_submissions(TEXT, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_task_submissions(INTEGER[], TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_task_submission_reviews(INTEGER, INTEGER) TO authenticated;
+
+-- 5. RLS: the audit trail is read through get_task_submission_reviews only
+ALTER TABLE task_submission_reviews ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE task_submission_reviews IS 'Append-only log of every task submission decision, from the console or the task bot';
+
+INSERT INTO schema_version (version, description)
+VALUES (20, 'Moderator roles, submission review console and audit trail')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,230 @@
+-- =============================================
+-- RANK ENGINE
+-- =============================================
+-- Ranks are computed here from users.direct_referrals, total_deposit and
+-- team_volume against rank_definitions (mirrored by RANK_REQUIREMENTS in
+-- src/lib/rankSystem.ts). calculate_user_rank() is called for every player by
+-- the rankUpdate job and records each promotion or demotion in rank_history.
+-- settle_weekly_rank_bonuses() is run by the rankBonuses job once a week has
+-- ended and pays each player the weekly bonus of the rank they held at the end
+-- of it, at most once per week.
+-- Requires JOB_RUNS.sql. Safe to run multiple times.
+
+-- 1. Rank tiers, lowest first. Players below AMBASSADOR are unranked (NONE).
+CREATE TABLE IF NOT EXISTS rank_definitions (
+    rank TEXT PRIMARY KEY,
+    level INTEGER UNIQUE NOT NULL CHECK (level > 0),
+    title TEXT NOT NULL,
+    min_directs INTEGER NOT NULL,
+    min_deposit NUMERIC NOT NULL,
+    min_team_volume NUMERIC NOT NULL,
+    weekly_bonus NUMERIC NOT NULL CHECK (weekly_bonus >= 0)
+);
+
+INSERT INTO rank_definitions (rank, level, title, min_directs, min_deposit, min_team_volume, weekly_bonus) VALUES
+    ('AMBASSADOR',        1, 'Ambassador',        3,  20,    500,     15),
+    ('TON_WARRIOR',       2, 'TON Warrior',       5,  50,    1000,    25),
+    ('TON_MASTER',        3, 'TON Master',        10, 100,   5000,    100),
+    ('CRYPTO_MOGUL',      4, 'Crypto Mogul',      10, 500,   20000,   250),
+    ('TON_BARON',         5, 'TON Baron',         10, 2000,  100000,  1000),
+    ('BLOCKCHAIN_TYCOON', 6, 'Blockchain Tycoon', 10, 5000,  250000,  3000),
+    ('TON_ELITE',         7, 'TON Elite',         10, 10000, 500000,  5000),
+    ('TON_BOSS',          8, 'TON Boss',          10, 15000, 1000000, 7000)
+ON CONFLICT (rank) DO NOTHING;
+
+-- 2. Promotions and demotions
+CREATE TABLE IF NOT EXISTS rank_history (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    from_rank TEXT NOT NULL,
+    to_rank TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('promotion', 'demotion')),
+    direct_referrals INTEGER NOT NULL,
+    total_deposit NUMERIC NOT NULL,
+    team_volume NUMERIC NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rank_history_user ON rank_history(user_id, created_at DESC);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name = 'rank_updated_at'
+    ) THEN
+        ALTER TABLE users ADD COLUMN rank_updated_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added rank_updated_at to users';
+    ELSE
+        RAISE NOTICE 'users.rank_updated_at already exists';
+    END IF;
+END $$;
+
+-- 3. Weekly bonuses, one per player and week
+CREATE TABLE IF NOT EXISTS rank_bonuses (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    rank TEXT NOT NULL,
+    amount NUMERIC NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rank_bonuses' AND column_name = 'week_start'
+    ) THEN
+        ALTER TABLE rank_bonuses ADD COLUMN week_start DATE;
+        ALTER TABLE rank_bonuses ADD COLUMN settled_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added weekly settlement columns to rank_bonuses';
+    ELSE
+        RAISE NOTICE 'rank_bonuses settlement columns already exist';
+    END IF;
+END $$;
+
+-- Rows written by the old client-side processWeeklyBonuses have no week and stay
+-- pending for manual review; they were never deduplicated.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rank_bonuses_user_week ON rank_bonuses(user_id, week_start);
+
+-- 4. Recalculate one player's rank; returns the rank they hold afterwards
+CREATE OR REPLACE FUNCTION calculate_user_rank(p_user_id INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+    player RECORD;
+    current_level INTEGER;
+    qualified RECORD;
+    new_rank TEXT;
+    new_level INTEGER;
+BEGIN
+    SELECT id, rank, COALESCE(direct_referrals, 0) AS directs,
+           COALESCE(total_deposit, 0) AS deposit, COALESCE(team_volume, 0) AS volume
+    INTO player
+    FROM users WHERE id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not found', p_user_id;
+    END IF;
+
+    SELECT rank, level INTO qualified
+    FROM rank_definitions
+    WHERE player.directs >= min_directs
+      AND player.deposit >= min_deposit
+      AND player.volume >= min_team_volume
+    ORDER BY level DESC
+    LIMIT 1;
+
+    new_rank := COALESCE(qualified.rank, 'NONE');
+    new_level := COALESCE(qualified.level, 0);
+
+    -- Anything that isn't a defined rank ('None', 'Novice' from older signups) is unranked
+    SELECT COALESCE((SELECT level FROM rank_definitions WHERE rank = player.rank), 0) INTO current_level;
+
+    IF new_level <> current_level THEN
+        INSERT INTO rank_history (user_id, from_rank, to_rank, direction, direct_referrals, total_deposit, team_volume)
+        VALUES (
+            p_user_id, COALESCE(player.rank, 'NONE'), new_rank,
+            CASE WHEN new_level > current_level THEN 'promotion' ELSE 'demotion' END,
+            player.directs, player.deposit, player.volume
+        );
+    END IF;
+
+    IF player.rank IS DISTINCT FROM new_rank THEN
+        UPDATE users SET rank = new_rank, rank_updated_at = NOW() WHERE id = p_user_id;
+    END IF;
+
+    RETURN new_rank;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Rank a player held at a moment, from rank_history: the last change before
+-- it, or the rank the first change after it started from
+CREATE OR REPLACE FUNCTION get_rank_at(p_user_id INTEGER, p_at TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        (SELECT to_rank FROM rank_history
+         WHERE user_id = p_user_id AND created_at < p_at
+         ORDER BY created_at DESC, id DESC LIMIT 1),
+        (SELECT from_rank FROM rank_history
+         WHERE user_id = p_user_id AND created_at >= p_at
+         ORDER BY created_at, id LIMIT 1),
+        (SELECT rank FROM users WHERE id = p_user_id)
+    );
+$$ LANGUAGE sql STABLE;
+
+-- 6. Accrue and pay an ended week's bonus for every player who was ranked when it
+-- ended (UTC Monday midnight), so rank changes made since don't count. The rank is
+-- kept on the bonus row. Re-running a week pays nothing new.
+CREATE OR REPLACE FUNCTION settle_weekly_rank_bonuses(p_week_start DATE)
+RETURNS TABLE (settled INTEGER, total_amount NUMERIC) AS $$
+DECLARE
+    week_end TIMESTAMP WITH TIME ZONE := (p_week_start + 7)::TIMESTAMP AT TIME ZONE 'UTC';
+    bonus RECORD;
+    paid_count INTEGER := 0;
+    paid_total NUMERIC := 0;
+BEGIN
+    IF p_week_start IS NULL OR EXTRACT(ISODOW FROM p_week_start) <> 1 THEN
+        RAISE EXCEPTION 'Week must start on a Monday, got %', p_week_start;
+    END IF;
+
+    IF week_end > NOW() THEN
+        RAISE EXCEPTION 'Week of % has not ended yet', p_week_start;
+    END IF;
+
+    INSERT INTO rank_bonuses (user_id, rank, amount, status, week_start)
+    SELECT u.id, d.rank, d.weekly_bonus, 'pending', p_week_start
+    FROM users u
+    JOIN rank_definitions d ON d.rank = get_rank_at(u.id, week_end)
+    WHERE d.weekly_bonus > 0
+    ON CONFLICT (user_id, week_start) DO NOTHING;
+
+    FOR bonus IN
+        SELECT id, user_id, amount FROM rank_bonuses
+        WHERE week_start = p_week_start AND status = 'pending'
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE users
+        SET available_balance = COALESCE(available_balance, 0) + bonus.amount,
+            total_earned = COALESCE(total_earned, 0) + bonus.amount
+        WHERE id = bonus.user_id;
+
+        UPDATE rank_bonuses SET status = 'settled', settled_at = NOW() WHERE id = bonus.id;
+
+        paid_count := paid_count + 1;
+        paid_total := paid_total + bonus.amount;
+    END LOOP;
+
+    RETURN QUERY SELECT paid_count, paid_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. RLS: players see their own history and bonuses; the tiers are public
+ALTER TABLE rank_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rank_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rank_bonuses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS rank_definitions_select_policy ON rank_definitions;
+CREATE POLICY rank_definitions_select_policy ON rank_definitions
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS rank_history_select_policy ON rank_history;
+CREATE POLICY rank_history_select_policy ON rank_history
+    FOR SELECT USING (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS rank_bonuses_select_policy ON rank_bonuses;
+CREATE POLICY rank_bonuses_select_policy ON rank_bonuses
+    FOR SELECT USING (user_id = current_app_user_id());
+
+REVOKE ALL ON FUNCTION calculate_user_rank(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_rank_at(INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION settle_weekly_rank_bonuses(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION calculate_user_rank(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_weekly_rank_bonuses(DATE) TO service_role;
+
+COMMENT ON TABLE rank_history IS 'Every rank change made by calculate_user_rank, with the metrics that caused it';
+
+INSERT INTO schema_version (version, description)
+VALUES (14, 'Rank engine with history and weekly bonus settlement')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,319 @@
+-- =============================================
+-- REFERRAL PAYOUTS
+-- =============================================
+-- Multi-level referral payouts as a ledger. Every source event (a completed
+-- deposit, a validated save) gives each upline level at most one
+-- referral_payouts row, keyed by (source_type, source_id, level), so replaying
+-- an event never pays twice. Rows are held as pending, settled by the
+-- activityMonitor cron once the hold is over, and reversed (clawed back if
+-- already settled) when the source is invalidated: a deposit that is refunded
+-- or fails after completing, or a player flagged in earning_discrepancies.
+-- Replaces distribute_referral_rewards from REFERRAL_SERVICE.sql.
+-- Requires REFERRAL_SERVICE.sql and EARNING_PLAUSIBILITY.sql. Safe to run multiple times.
+
+-- 1. Ledger entry used to claw back settled point payouts
+INSERT INTO economy_rules (entry_type, currency, direction, client_allowed, max_amount, max_per_second, max_per_day, description) VALUES
+    ('referral_clawback', 'divine_points', -1, FALSE, NULL, NULL, NULL, 'Settled referral payout taken back after its source was invalidated')
+ON CONFLICT (entry_type) DO NOTHING;
+
+-- 2. Most a referrer can receive per level and currency in any 24 hours
+CREATE TABLE IF NOT EXISTS referral_payout_caps (
+    level INTEGER REFERENCES referral_levels(level) NOT NULL,
+    currency TEXT NOT NULL CHECK (currency IN ('ton', 'divine_points')),
+    daily_cap NUMERIC NOT NULL CHECK (daily_cap >= 0),
+    PRIMARY KEY (level, currency)
+);
+
+INSERT INTO referral_payout_caps (level, currency, daily_cap) VALUES
+    (1, 'ton', 50),
+    (2, 'ton', 25),
+    (3, 'ton', 15),
+    (4, 'ton', 10),
+    (5, 'ton', 5),
+    (1, 'divine_points', 100000),
+    (2, 'divine_points', 50000),
+    (3, 'divine_points', 30000),
+    (4, 'divine_points', 20000),
+    (5, 'divine_points', 10000)
+ON CONFLICT (level, currency) DO NOTHING;
+
+-- 3. Payout ledger
+CREATE TABLE IF NOT EXISTS referral_payouts (
+    id BIGSERIAL PRIMARY KEY,
+    source_type TEXT NOT NULL CHECK (source_type IN ('deposit', 'save')),
+    source_id TEXT NOT NULL,
+    source_user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    beneficiary_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    level INTEGER NOT NULL CHECK (level BETWEEN 1 AND 5),
+    currency TEXT NOT NULL CHECK (currency IN ('ton', 'divine_points')),
+    source_amount NUMERIC NOT NULL,
+    reward_rate NUMERIC(6, 4) NOT NULL,
+    amount NUMERIC NOT NULL CHECK (amount >= 0),
+    capped_amount NUMERIC NOT NULL DEFAULT 0, -- Cut from the payout by the daily cap
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'settled', 'reversed')),
+    settle_after TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    settled_at TIMESTAMP WITH TIME ZONE,
+    reversed_at TIMESTAMP WITH TIME ZONE,
+    reversal_reason TEXT,
+    clawed_back NUMERIC NOT NULL DEFAULT 0, -- What a reversal actually recovered from the beneficiary
+    UNIQUE (source_type, source_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_payouts_beneficiary ON referral_payouts(beneficiary_id, level, currency, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_referral_payouts_pending ON referral_payouts(settle_after) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_referral_payouts_source_user ON referral_payouts(source_user_id, source_type) WHERE status = 'pending';
+
+-- Deposits can now be refunded after completing
+ALTER TABLE deposits DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE deposits ADD CONSTRAINT valid_status CHECK (status IN ('pending', 'completed', 'failed', 'refunded'));
+
+-- 4. Record the upline's payouts for one source event. Returns the rows created;
+-- a replayed event creates none.
+CREATE OR REPLACE FUNCTION record_referral_payouts(
+    p_source_type TEXT,
+    p_source_id TEXT,
+    p_user_id INTEGER,
+    p_amount NUMERIC,
+    p_hold INTERVAL DEFAULT INTERVAL '24 hours'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    payout_currency TEXT := CASE p_source_type WHEN 'deposit' THEN 'ton' ELSE 'divine_points' END;
+    upline RECORD;
+    full_amount NUMERIC;
+    paid_today NUMERIC;
+    allowed NUMERIC;
+    inserted INTEGER;
+    created INTEGER := 0;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    FOR upline IN
+        SELECT c.referrer_id, c.level, l.reward_rate, cap.daily_cap
+        FROM referral_chain c
+        JOIN referral_levels l ON l.level = c.level
+        LEFT JOIN referral_payout_caps cap ON cap.level = c.level AND cap.currency = payout_currency
+        WHERE c.user_id = p_user_id AND l.reward_rate > 0
+        ORDER BY c.level
+    LOOP
+        -- Serialise payouts to the same referrer so concurrent events can't both fit under the cap
+        PERFORM 1 FROM users WHERE id = upline.referrer_id FOR UPDATE;
+
+        full_amount := round(p_amount * upline.reward_rate, 9);
+        allowed := full_amount;
+
+        IF upline.daily_cap IS NOT NULL THEN
+            SELECT COALESCE(SUM(amount), 0) INTO paid_today
+            FROM referral_payouts
+            WHERE beneficiary_id = upline.referrer_id
+              AND level = upline.level
+              AND currency = payout_currency
+              AND status <> 'reversed'
+              AND created_at > NOW() - INTERVAL '24 hours';
+
+            allowed := LEAST(full_amount, GREATEST(upline.daily_cap - paid_today, 0));
+        END IF;
+
+        -- Capped-out rows are still written so the event stays recorded as paid
+        INSERT INTO referral_payouts (
+            source_type, source_id, source_user_id, beneficiary_id, level, currency,
+            source_amount, reward_rate, amount, capped_amount, settle_after
+        )
+        VALUES (
+            p_source_type, p_source_id, p_user_id, upline.referrer_id, upline.level, payout_currency,
+            p_amount, upline.reward_rate, allowed, full_amount - allowed, NOW() + p_hold
+        )
+        ON CONFLICT (source_type, source_id, level) DO NOTHING;
+
+        GET DIAGNOSTICS inserted = ROW_COUNT;
+        created := created + inserted;
+    END LOOP;
+
+    RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Credit pending payouts whose hold is over: TON to available_balance,
+-- points through the economy ledger
+CREATE OR REPLACE FUNCTION settle_referral_payouts(p_limit INTEGER DEFAULT 500)
+RETURNS INTEGER AS $$
+DECLARE
+    payout referral_payouts%ROWTYPE;
+    settled INTEGER := 0;
+BEGIN
+    FOR payout IN
+        SELECT * FROM referral_payouts
+        WHERE status = 'pending' AND settle_after <= NOW()
+        ORDER BY id
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF payout.amount > 0 THEN
+            IF payout.currency = 'ton' THEN
+                UPDATE users
+                SET available_balance = COALESCE(available_balance, 0) + payout.amount
+                WHERE id = payout.beneficiary_id;
+            ELSE
+                PERFORM insert_economy_entry(
+                    payout.beneficiary_id, 'referral_bonus', payout.amount, 'referral_payout',
+                    'referral_payout:' || payout.id,
+                    jsonb_build_object('source_type', payout.source_type, 'source_id', payout.source_id, 'level', payout.level),
+                    FALSE
+                );
+            END IF;
+        END IF;
+
+        UPDATE referral_payouts SET status = 'settled', settled_at = NOW() WHERE id = payout.id;
+        settled := settled + 1;
+    END LOOP;
+
+    RETURN settled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Reverse every payout of an invalidated source. Pending rows are simply
+-- dropped; settled ones are taken back as far as the beneficiary's balance allows.
+CREATE OR REPLACE FUNCTION reverse_referral_payouts(p_source_type TEXT, p_source_id TEXT, p_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    payout referral_payouts%ROWTYPE;
+    recovered NUMERIC;
+    reversed INTEGER := 0;
+BEGIN
+    FOR payout IN
+        SELECT * FROM referral_payouts
+        WHERE source_type = p_source_type AND source_id = p_source_id AND status <> 'reversed'
+        ORDER BY level
+        FOR UPDATE
+    LOOP
+        recovered := 0;
+
+        IF payout.status = 'settled' AND payout.amount > 0 THEN
+            IF payout.currency = 'ton' THEN
+                SELECT LEAST(payout.amount, COALESCE(available_balance, 0)) INTO recovered
+                FROM users WHERE id = payout.beneficiary_id FOR UPDATE;
+
+                UPDATE users
+                SET available_balance = available_balance - recovered
+                WHERE id = payout.beneficiary_id;
+            ELSE
+                recovered := LEAST(payout.amount, GREATEST(get_economy_balance(payout.beneficiary_id, 'divine_points'), 0));
+
+                IF recovered > 0 THEN
+                    PERFORM insert_economy_entry(
+                        payout.beneficiary_id, 'referral_clawback', -recovered, 'referral_payout',
+                        'referral_clawback:' || payout.id,
+                        jsonb_build_object('payout_id', payout.id, 'reason', p_reason),
+                        FALSE
+                    );
+                END IF;
+            END IF;
+        END IF;
+
+        UPDATE referral_payouts
+        SET status = 'reversed',
+            reversed_at = NOW(),
+            reversal_reason = p_reason,
+            clawed_back = COALESCE(recovered, 0)
+        WHERE id = payout.id;
+
+        reversed := reversed + 1;
+    END LOOP;
+
+    RETURN reversed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Deposits pay the upline when they complete and take it back if they're refunded
+CREATE OR REPLACE FUNCTION deposits_referral_payouts()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status <> 'completed') THEN
+        PERFORM record_referral_payouts('deposit', NEW.id::TEXT, NEW.user_id, NEW.amount);
+    ELSIF TG_OP = 'UPDATE' AND OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        PERFORM reverse_referral_payouts('deposit', NEW.id::TEXT, 'deposit ' || NEW.status);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS deposits_referral_payouts ON deposits;
+CREATE TRIGGER deposits_referral_payouts
+    AFTER INSERT OR UPDATE OF status ON deposits
+    FOR EACH ROW EXECUTE FUNCTION deposits_referral_payouts();
+
+-- A flagged player's saves still on hold no longer pay their upline
+CREATE OR REPLACE FUNCTION earning_discrepancies_reverse_payouts()
+RETURNS TRIGGER AS $$
+DECLARE
+    held RECORD;
+BEGIN
+    FOR held IN
+        SELECT DISTINCT source_id FROM referral_payouts
+        WHERE source_user_id = NEW.user_id AND source_type = 'save' AND status = 'pending'
+    LOOP
+        PERFORM reverse_referral_payouts('save', held.source_id, 'earning discrepancy ' || NEW.id);
+    END LOOP;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS earning_discrepancies_reverse_payouts ON earning_discrepancies;
+CREATE TRIGGER earning_discrepancies_reverse_payouts
+    AFTER INSERT ON earning_discrepancies
+    FOR EACH ROW EXECUTE FUNCTION earning_discrepancies_reverse_payouts();
+
+-- 8. Player RPC: what each downline member has paid the caller, by status
+CREATE OR REPLACE FUNCTION get_referral_payout_totals()
+RETURNS TABLE (member_id INTEGER, currency TEXT, pending NUMERIC, settled NUMERIC, reversed NUMERIC) AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.source_user_id,
+        p.currency,
+        COALESCE(SUM(p.amount) FILTER (WHERE p.status = 'pending'), 0),
+        COALESCE(SUM(p.amount) FILTER (WHERE p.status = 'settled'), 0),
+        COALESCE(SUM(p.amount) FILTER (WHERE p.status = 'reversed'), 0)
+    FROM referral_payouts p
+    WHERE p.beneficiary_id = caller_id
+    GROUP BY p.source_user_id, p.currency;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 9. Unkeyed payouts could not be made idempotent
+DROP FUNCTION IF EXISTS distribute_referral_rewards(INTEGER, NUMERIC);
+
+-- 10. RLS: players see the payouts made to them
+ALTER TABLE referral_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_payout_caps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS referral_payouts_select_policy ON referral_payouts;
+CREATE POLICY referral_payouts_select_policy ON referral_payouts
+    FOR SELECT USING (beneficiary_id = current_app_user_id());
+
+DROP POLICY IF EXISTS referral_payout_caps_select_policy ON referral_payout_caps;
+CREATE POLICY referral_payout_caps_select_policy ON referral_payout_caps
+    FOR SELECT USING (true);
+
+REVOKE ALL ON FUNCTION record_referral_payouts(TEXT, TEXT, INTEGER, NUMERIC, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION settle_referral_payouts(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reverse_referral_payouts(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_referral_payouts(TEXT, TEXT, INTEGER, NUMERIC, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_referral_payouts(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION reverse_referral_payouts(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_referral_payout_totals() TO authenticated;
+
+COMMENT ON TABLE referral_payouts IS 'One upline payout per source event and level; pending -> settled, or reversed when the source is invalidated';
+
+INSERT INTO schema_version (version, description)
+VALUES (12, 'Referral payout ledger with daily caps and clawback')
+ON CONFLICT (version) DO NOTHING;
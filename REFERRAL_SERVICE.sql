@@ -0,0 +1,280 @@
+-- =============================================
+-- REFERRAL SERVICE
+-- =============================================
+-- One referral schema behind src/lib/referralService.ts:
+--   * referrals            direct referrer -> referred links (written by attribute_referral)
+--   * referral_chain       every upline up to level 5, maintained by a trigger on referrals
+--   * referral_levels      payout rate per level
+--   * referral_earnings    rewards, including the multi-level payouts below
+-- users.referrer_id and the retired referral_tracking table (authDatabase) are
+-- folded into referrals, then referral_chain is rebuilt from referrals.
+-- Requires REFERRAL_VERIFICATION.sql. Safe to run multiple times.
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS referral_levels (
+    level INTEGER PRIMARY KEY CHECK (level BETWEEN 1 AND 5),
+    reward_rate NUMERIC(6, 4) NOT NULL CHECK (reward_rate >= 0 AND reward_rate < 1)
+);
+
+INSERT INTO referral_levels (level, reward_rate) VALUES
+    (1, 0.10),
+    (2, 0.05),
+    (3, 0.03),
+    (4, 0.02),
+    (5, 0.01)
+ON CONFLICT (level) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS referral_chain (
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    referrer_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    level INTEGER NOT NULL CHECK (level BETWEEN 1 AND 5),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_chain_referrer ON referral_chain(referrer_id, level);
+
+-- A player has one referrer; keep the earliest link if duplicates were written
+DELETE FROM referrals r
+USING referrals earlier
+WHERE earlier.referred_id = r.referred_id AND earlier.id < r.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_referred_id ON referrals(referred_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id ON referrals(referrer_id, created_at DESC);
+
+-- 2. Fold the other sources into referrals
+INSERT INTO referrals (referrer_id, referred_id, created_at)
+SELECT u.referrer_id, u.id, COALESCE(u.created_at, NOW())
+FROM users u
+WHERE u.referrer_id IS NOT NULL AND u.referrer_id <> u.id
+ON CONFLICT (referred_id) DO NOTHING;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'referral_tracking') THEN
+        INSERT INTO referrals (referrer_id, referred_id, created_at)
+        SELECT t.referrer_id, t.referred_id, COALESCE(t.referred_at, NOW())
+        FROM referral_tracking t
+        WHERE t.referrer_id IS NOT NULL AND t.referred_id IS NOT NULL AND t.referrer_id <> t.referred_id
+        ON CONFLICT (referred_id) DO NOTHING;
+        RAISE NOTICE 'Folded referral_tracking into referrals';
+    END IF;
+END $$;
+
+UPDATE users u
+SET referrer_id = r.referrer_id
+FROM referrals r
+WHERE r.referred_id = u.id AND u.referrer_id IS NULL;
+
+-- 3. Chain maintenance
+CREATE OR REPLACE FUNCTION build_referral_chain(p_user_id INTEGER, p_referrer_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO referral_chain (user_id, referrer_id, level)
+    SELECT p_user_id, p_referrer_id, 1
+    UNION ALL
+    SELECT p_user_id, c.referrer_id, c.level + 1
+    FROM referral_chain c
+    WHERE c.user_id = p_referrer_id AND c.level < 5 AND c.referrer_id <> p_user_id
+    ON CONFLICT (user_id, level) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION referrals_build_chain()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM build_referral_chain(NEW.referred_id, NEW.referrer_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS referrals_build_chain ON referrals;
+CREATE TRIGGER referrals_build_chain
+    AFTER INSERT ON referrals
+    FOR EACH ROW
+    EXECUTE FUNCTION referrals_build_chain();
+
+-- Backfill: walk each link up to five levels, stopping on cycles
+INSERT INTO referral_chain (user_id, referrer_id, level, created_at)
+WITH RECURSIVE upline AS (
+    SELECT r.referred_id AS user_id, r.referrer_id, 1 AS level, r.created_at, ARRAY[r.referred_id, r.referrer_id] AS path
+    FROM referrals r
+    UNION ALL
+    SELECT u.user_id, r.referrer_id, u.level + 1, u.created_at, u.path || r.referrer_id
+    FROM upline u
+    JOIN referrals r ON r.referred_id = u.referrer_id
+    WHERE u.level < 5 AND NOT r.referrer_id = ANY(u.path)
+)
+SELECT user_id, referrer_id, level, created_at FROM upline
+ON CONFLICT (user_id, level) DO NOTHING;
+
+-- 4. Team volume: deposits of the whole downline, at any depth
+CREATE OR REPLACE FUNCTION recalculate_team_volume(p_user_id INTEGER)
+RETURNS NUMERIC AS $$
+DECLARE
+    volume NUMERIC;
+BEGIN
+    WITH RECURSIVE downline AS (
+        SELECT r.referred_id, ARRAY[p_user_id, r.referred_id] AS path
+        FROM referrals r
+        WHERE r.referrer_id = p_user_id
+        UNION ALL
+        SELECT r.referred_id, d.path || r.referred_id
+        FROM downline d
+        JOIN referrals r ON r.referrer_id = d.referred_id
+        WHERE NOT r.referred_id = ANY(d.path)
+    )
+    SELECT COALESCE(SUM(u.total_deposit), 0) INTO volume
+    FROM downline d
+    JOIN users u ON u.id = d.referred_id;
+
+    UPDATE users SET team_volume = volume WHERE id = p_user_id;
+    RETURN volume;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Incremental version for a new deposit; the hourly recalculation corrects any drift
+CREATE OR REPLACE FUNCTION add_team_volume(p_user_id INTEGER, p_amount NUMERIC)
+RETURNS INTEGER AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    WITH RECURSIVE upline AS (
+        SELECT r.referrer_id, ARRAY[p_user_id, r.referrer_id] AS path
+        FROM referrals r
+        WHERE r.referred_id = p_user_id
+        UNION ALL
+        SELECT r.referrer_id, u.path || r.referrer_id
+        FROM upline u
+        JOIN referrals r ON r.referred_id = u.referrer_id
+        WHERE NOT r.referrer_id = ANY(u.path)
+    )
+    UPDATE users
+    SET team_volume = COALESCE(team_volume, 0) + p_amount
+    WHERE id IN (SELECT referrer_id FROM upline);
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Multi-level payout of an earning by p_user_id to their upline, at referral_levels rates
+CREATE OR REPLACE FUNCTION distribute_referral_rewards(p_user_id INTEGER, p_amount NUMERIC)
+RETURNS INTEGER AS $$
+DECLARE
+    paid INTEGER;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    WITH payouts AS (
+        INSERT INTO referral_earnings (user_id, referral_id, amount, level, status, released_at)
+        SELECT c.referrer_id, p_user_id, round(p_amount * l.reward_rate, 9), c.level, 'released', NOW()
+        FROM referral_chain c
+        JOIN referral_levels l ON l.level = c.level
+        WHERE c.user_id = p_user_id AND l.reward_rate > 0
+        RETURNING user_id, amount
+    )
+    UPDATE users u
+    SET available_balance = COALESCE(u.available_balance, 0) + p.amount
+    FROM payouts p
+    WHERE u.id = p.user_id;
+
+    GET DIAGNOSTICS paid = ROW_COUNT;
+    RETURN paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Player RPCs: the caller's network stats and referral link analytics
+CREATE OR REPLACE FUNCTION get_referral_stats()
+RETURNS JSONB AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'direct_referrals', (SELECT COUNT(*) FROM referral_chain WHERE referrer_id = caller_id AND level = 1),
+        'active_referrals', (
+            SELECT COUNT(*) FROM referral_chain c JOIN users u ON u.id = c.user_id
+            WHERE c.referrer_id = caller_id AND c.level = 1 AND u.is_active
+        ),
+        'network_size', (SELECT COUNT(*) FROM referral_chain WHERE referrer_id = caller_id),
+        'levels', COALESCE((
+            SELECT jsonb_object_agg(level, members)
+            FROM (
+                SELECT level, COUNT(*) AS members FROM referral_chain
+                WHERE referrer_id = caller_id GROUP BY level
+            ) per_level
+        ), '{}'::jsonb),
+        'earned', (
+            SELECT COALESCE(SUM(amount), 0) FROM referral_earnings
+            WHERE user_id = caller_id AND status IN ('pending', 'released')
+        ),
+        'pending', (
+            SELECT COALESCE(SUM(amount), 0) FROM referral_earnings
+            WHERE user_id = caller_id AND status = 'pending_verification'
+        ),
+        'team_volume', (SELECT COALESCE(team_volume, 0) FROM users WHERE id = caller_id)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Attempts made with the caller's code; the attempts themselves stay private to the referred player
+CREATE OR REPLACE FUNCTION get_referral_analytics(p_days INTEGER DEFAULT 14)
+RETURNS JSONB AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'total_attempts', (SELECT COUNT(*) FROM referral_attempts WHERE referrer_id = caller_id),
+        'successful', (SELECT COUNT(*) FROM referral_attempts WHERE referrer_id = caller_id AND status = 'success'),
+        'by_day', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('date', day, 'count', referrals) ORDER BY day)
+            FROM (
+                SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS day, COUNT(*) AS referrals
+                FROM referrals
+                WHERE referrer_id = caller_id AND created_at > NOW() - make_interval(days => p_days)
+                GROUP BY 1
+            ) daily
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 7. RLS: players see the chain rows they are part of
+ALTER TABLE referral_chain ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_levels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS referral_chain_select_policy ON referral_chain;
+CREATE POLICY referral_chain_select_policy ON referral_chain
+    FOR SELECT USING (user_id = current_app_user_id() OR referrer_id = current_app_user_id());
+
+DROP POLICY IF EXISTS referral_levels_select_policy ON referral_levels;
+CREATE POLICY referral_levels_select_policy ON referral_levels
+    FOR SELECT USING (true);
+
+-- attribute_referral keeps direct_referrals now; clients may no longer bump it themselves
+REVOKE ALL ON FUNCTION increment_direct_referrals(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION build_referral_chain(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION recalculate_team_volume(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION add_team_volume(INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION distribute_referral_rewards(INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION recalculate_team_volume(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION add_team_volume(INTEGER, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION distribute_referral_rewards(INTEGER, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION get_referral_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_referral_analytics(INTEGER) TO authenticated;
+
+COMMENT ON TABLE referral_chain IS 'Upline of each referred player up to level 5; derived from referrals by trigger';
+
+INSERT INTO schema_version (version, description)
+VALUES (11, 'Unified referral schema with referral_chain')
+ON CONFLICT (version) DO NOTHING;
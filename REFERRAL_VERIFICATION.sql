@@ -0,0 +1,360 @@
+-- =============================================
+-- REFERRAL VERIFICATION
+-- =============================================
+-- Referrals are attributed server-side by attribute_referral(). Each attempt is
+-- scored from signals the client can't forge (they come from the verified
+-- initData recorded by the telegram-auth Edge Function):
+--   * Telegram account age, estimated from the Telegram user id
+--   * Telegram Premium
+--   * how many referrals the referrer landed in the last hour / day
+--   * chat_instance values shared with the referrer or their other referrals
+-- Referral rewards are written as pending_verification and paid through the
+-- economy ledger by release_verified_referral_rewards() once the referred user
+-- has actually played. High-risk attempts also wait in referral_review_queue
+-- until reviewed with review_referral_attempt().
+-- Requires TELEGRAM_AUTH_RLS.sql and ECONOMY_LEDGER.sql. Safe to run multiple times.
+
+-- 1. Login signals, written by the telegram-auth Edge Function
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name = 'telegram_account_created_at'
+    ) THEN
+        ALTER TABLE users ADD COLUMN is_premium BOOLEAN DEFAULT FALSE;
+        -- Rough estimate from the Telegram user id; ids are handed out in increasing order
+        ALTER TABLE users ADD COLUMN telegram_account_created_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added Telegram login signals to users';
+    ELSE
+        RAISE NOTICE 'users Telegram login signals already exist';
+    END IF;
+END $$;
+
+-- chat_instance identifies the chat the Mini App was opened from
+CREATE TABLE IF NOT EXISTS telegram_chat_instances (
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    chat_instance TEXT NOT NULL,
+    chat_type TEXT,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, chat_instance)
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_chat_instances_chat ON telegram_chat_instances(chat_instance);
+
+-- 2. Risk and review state on attempts, verification state on earnings
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'referral_attempts' AND column_name = 'risk_score'
+    ) THEN
+        ALTER TABLE referral_attempts ADD COLUMN referrer_id INTEGER REFERENCES users(id);
+        ALTER TABLE referral_attempts ADD COLUMN risk_score INTEGER;
+        ALTER TABLE referral_attempts ADD COLUMN risk_signals JSONB DEFAULT '{}'::jsonb;
+        ALTER TABLE referral_attempts ADD COLUMN review_status TEXT NOT NULL DEFAULT 'not_required'
+            CHECK (review_status IN ('not_required', 'pending_review', 'approved', 'rejected'));
+        ALTER TABLE referral_attempts ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+        ALTER TABLE referral_attempts ADD COLUMN review_note TEXT;
+        RAISE NOTICE 'Added risk scoring columns to referral_attempts';
+    ELSE
+        RAISE NOTICE 'referral_attempts risk scoring columns already exist';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'referral_earnings' AND column_name = 'attempt_id'
+    ) THEN
+        ALTER TABLE referral_earnings ADD COLUMN attempt_id INTEGER REFERENCES referral_attempts(id);
+        ALTER TABLE referral_earnings ADD COLUMN released_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added verification columns to referral_earnings';
+    ELSE
+        RAISE NOTICE 'referral_earnings verification columns already exist';
+    END IF;
+END $$;
+
+-- The referred user's welcome bonus is recorded as level 0
+ALTER TABLE referral_earnings DROP CONSTRAINT IF EXISTS valid_level;
+ALTER TABLE referral_earnings ADD CONSTRAINT valid_level CHECK (level BETWEEN 0 AND 5);
+
+CREATE INDEX IF NOT EXISTS idx_referral_attempts_referrer ON referral_attempts(referrer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_referral_attempts_review ON referral_attempts(created_at) WHERE review_status = 'pending_review';
+CREATE INDEX IF NOT EXISTS idx_referral_earnings_verification ON referral_earnings(attempt_id) WHERE status = 'pending_verification';
+
+-- 3. Scoring, 0-100. Attempts scoring 60 or more go to the review queue.
+CREATE OR REPLACE FUNCTION score_referral_attempt(p_referrer_id INTEGER, p_referred_id INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+    referred users%ROWTYPE;
+    account_age_days INTEGER;
+    referrals_last_hour INTEGER;
+    referrals_last_day INTEGER;
+    shares_referrer_chat BOOLEAN;
+    chat_siblings INTEGER;
+    score INTEGER := 0;
+BEGIN
+    SELECT * INTO referred FROM users WHERE id = p_referred_id;
+
+    account_age_days := EXTRACT(DAY FROM NOW() - referred.telegram_account_created_at)::INTEGER;
+    score := score + CASE
+        WHEN account_age_days IS NULL THEN 10
+        WHEN account_age_days < 30 THEN 35
+        WHEN account_age_days < 180 THEN 15
+        ELSE 0
+    END;
+
+    -- Premium costs money, which farms rarely pay for
+    score := score + CASE WHEN COALESCE(referred.is_premium, FALSE) THEN -20 ELSE 10 END;
+
+    SELECT
+        COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 hour'),
+        COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 day')
+    INTO referrals_last_hour, referrals_last_day
+    FROM referrals
+    WHERE referrer_id = p_referrer_id AND created_at > NOW() - INTERVAL '1 day';
+
+    IF referrals_last_hour >= 10 THEN score := score + 30; END IF;
+    IF referrals_last_day >= 50 THEN score := score + 20; END IF;
+
+    SELECT EXISTS (
+        SELECT 1
+        FROM telegram_chat_instances mine
+        JOIN telegram_chat_instances theirs ON theirs.chat_instance = mine.chat_instance
+        WHERE mine.user_id = p_referred_id AND theirs.user_id = p_referrer_id
+    ) INTO shares_referrer_chat;
+
+    -- Other accounts this referrer brought in during the last week, opened from the same chats
+    SELECT COUNT(DISTINCT theirs.user_id) INTO chat_siblings
+    FROM telegram_chat_instances mine
+    JOIN telegram_chat_instances theirs
+        ON theirs.chat_instance = mine.chat_instance AND theirs.user_id <> mine.user_id
+    JOIN referrals r
+        ON r.referred_id = theirs.user_id AND r.referrer_id = p_referrer_id
+    WHERE mine.user_id = p_referred_id AND r.created_at > NOW() - INTERVAL '7 days';
+
+    IF shares_referrer_chat THEN score := score + 25; END IF;
+    IF chat_siblings >= 3 THEN score := score + 30; END IF;
+
+    RETURN jsonb_build_object(
+        'score', GREATEST(0, LEAST(100, score)),
+        'signals', jsonb_build_object(
+            'account_age_days', account_age_days,
+            'is_premium', COALESCE(referred.is_premium, FALSE),
+            'referrals_last_hour', referrals_last_hour,
+            'referrals_last_day', referrals_last_day,
+            'shares_referrer_chat', shares_referrer_chat,
+            'chat_siblings', chat_siblings
+        )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_referral_attempt(
+    p_user_id INTEGER,
+    p_code TEXT,
+    p_status TEXT,
+    p_reason TEXT,
+    p_referrer_id INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+    INSERT INTO referral_attempts (user_id, referral_code, status, reason, referrer_id)
+    VALUES (p_user_id, COALESCE(p_code, ''), p_status, p_reason, p_referrer_id);
+
+    SELECT jsonb_build_object('status', p_status, 'reason', p_reason);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- 4. Player RPC: attach the caller to the referrer behind p_code
+CREATE OR REPLACE FUNCTION attribute_referral(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    code TEXT := upper(trim(COALESCE(p_code, '')));
+    code_referrer_id INTEGER;
+    caller users%ROWTYPE;
+    referrer users%ROWTYPE;
+    risk JSONB;
+    score INTEGER;
+    review TEXT;
+    new_attempt_id INTEGER;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    code_referrer_id := substring(code FROM '^DIVINE([0-9]{6})[A-Z0-9]{4}$')::INTEGER;
+    IF code_referrer_id IS NULL THEN
+        RETURN log_referral_attempt(caller_id, code, 'invalid', 'Invalid referral code format');
+    END IF;
+
+    IF code_referrer_id = caller_id THEN
+        RETURN log_referral_attempt(caller_id, code, 'self_referral', 'Cannot refer yourself', code_referrer_id);
+    END IF;
+
+    -- Row lock: a second tab racing this one sees the referrer already set
+    SELECT * INTO caller FROM users WHERE id = caller_id FOR UPDATE;
+    IF caller.referrer_id IS NOT NULL THEN
+        RETURN log_referral_attempt(caller_id, code, 'duplicate', 'Already has referrer', code_referrer_id);
+    END IF;
+
+    SELECT * INTO referrer FROM users WHERE id = code_referrer_id;
+    IF NOT FOUND THEN
+        RETURN log_referral_attempt(caller_id, code, 'failed', 'Referrer not found', code_referrer_id);
+    END IF;
+
+    IF referrer.referrer_id = caller_id THEN
+        RETURN log_referral_attempt(caller_id, code, 'invalid', 'Referrer was referred by you', code_referrer_id);
+    END IF;
+
+    risk := score_referral_attempt(referrer.id, caller_id);
+    score := (risk ->> 'score')::INTEGER;
+    review := CASE WHEN score >= 60 THEN 'pending_review' ELSE 'not_required' END;
+
+    INSERT INTO referral_attempts (
+        user_id, referral_code, status, reason, referrer_username, referrer_id,
+        risk_score, risk_signals, review_status
+    ) VALUES (
+        caller_id, code, 'success', 'Referral processed successfully', referrer.username, referrer.id,
+        score, risk -> 'signals', review
+    )
+    RETURNING id INTO new_attempt_id;
+
+    INSERT INTO referrals (referrer_id, referred_id) VALUES (referrer.id, caller_id);
+
+    UPDATE users SET referrer_id = referrer.id WHERE id = caller_id;
+    UPDATE users SET direct_referrals = COALESCE(direct_referrals, 0) + 1 WHERE id = referrer.id;
+
+    -- Welcome bonus for the new player, referral bonus for the referrer
+    INSERT INTO referral_earnings (user_id, referral_id, amount, level, status, attempt_id) VALUES
+        (caller_id, caller_id, 1000, 0, 'pending_verification', new_attempt_id),
+        (referrer.id, caller_id, 500, 1, 'pending_verification', new_attempt_id);
+
+    -- The risk score stays server-side
+    RETURN jsonb_build_object(
+        'status', 'success',
+        'reason', 'Referral recorded; rewards unlock once you start playing',
+        'referrer_username', referrer.username
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Release rewards for referred players who have mined on at least two days and
+-- earned 5000 points. Unverified rewards older than 30 days expire.
+CREATE OR REPLACE FUNCTION release_verified_referral_rewards(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (released INTEGER, expired INTEGER) AS $$
+DECLARE
+    earning RECORD;
+BEGIN
+    released := 0;
+
+    FOR earning IN
+        SELECT e.id, e.user_id, e.amount, e.level, a.user_id AS referred_id
+        FROM referral_earnings e
+        JOIN referral_attempts a ON a.id = e.attempt_id
+        WHERE e.status = 'pending_verification'
+          AND a.review_status IN ('not_required', 'approved')
+          AND (
+              SELECT COUNT(DISTINCT date_trunc('day', l.created_at)) >= 2 AND COALESCE(SUM(l.amount), 0) >= 5000
+              FROM economy_ledger l
+              WHERE l.user_id = a.user_id AND l.entry_type IN ('mine_tick', 'offline_claim')
+          )
+        ORDER BY e.id
+        LIMIT p_limit
+        FOR UPDATE OF e SKIP LOCKED
+    LOOP
+        PERFORM insert_economy_entry(
+            earning.user_id, 'referral_bonus', earning.amount, 'referral:' || earning.referred_id,
+            'referral_earning:' || earning.id, jsonb_build_object('level', earning.level), FALSE
+        );
+
+        UPDATE referral_earnings SET status = 'released', released_at = NOW() WHERE id = earning.id;
+        released := released + 1;
+    END LOOP;
+
+    UPDATE referral_earnings
+    SET status = 'expired'
+    WHERE status = 'pending_verification' AND created_at < NOW() - INTERVAL '30 days';
+    GET DIAGNOSTICS expired = ROW_COUNT;
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Review queue
+CREATE OR REPLACE VIEW referral_review_queue AS
+SELECT
+    a.id AS attempt_id,
+    a.created_at,
+    a.risk_score,
+    a.risk_signals,
+    a.user_id AS referred_id,
+    referred.username AS referred_username,
+    referred.telegram_id AS referred_telegram_id,
+    a.referrer_id,
+    referrer.username AS referrer_username,
+    COALESCE((
+        SELECT SUM(e.amount) FROM referral_earnings e
+        WHERE e.attempt_id = a.id AND e.status = 'pending_verification'
+    ), 0) AS held_amount
+FROM referral_attempts a
+JOIN users referred ON referred.id = a.user_id
+LEFT JOIN users referrer ON referrer.id = a.referrer_id
+WHERE a.review_status = 'pending_review';
+
+-- Approved attempts are released by the next release run once the activity
+-- threshold is met; rejected ones forfeit their rewards
+CREATE OR REPLACE FUNCTION review_referral_attempt(p_attempt_id INTEGER, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE referral_attempts
+    SET review_status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        reviewed_at = NOW(),
+        review_note = p_note
+    WHERE id = p_attempt_id AND review_status = 'pending_review';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Referral attempt % is not awaiting review', p_attempt_id;
+    END IF;
+
+    IF NOT p_approve THEN
+        UPDATE referral_earnings
+        SET status = 'rejected'
+        WHERE attempt_id = p_attempt_id AND status = 'pending_verification';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. RLS: players read their own attempts and earnings; referrals stay readable for
+-- the upline/downline views. Writes go through attribute_referral().
+ALTER TABLE referral_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_earnings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telegram_chat_instances ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS referral_attempts_select_own_policy ON referral_attempts;
+CREATE POLICY referral_attempts_select_own_policy ON referral_attempts
+    FOR SELECT USING (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS referral_earnings_select_own_policy ON referral_earnings;
+CREATE POLICY referral_earnings_select_own_policy ON referral_earnings
+    FOR SELECT USING (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS referrals_select_policy ON referrals;
+CREATE POLICY referrals_select_policy ON referrals
+    FOR SELECT USING (true);
+
+REVOKE ALL ON referral_review_queue FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON referral_review_queue TO service_role;
+
+REVOKE ALL ON FUNCTION score_referral_attempt(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION log_referral_attempt(INTEGER, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_verified_referral_rewards(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION review_referral_attempt(INTEGER, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION attribute_referral(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_verified_referral_rewards(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION review_referral_attempt(INTEGER, BOOLEAN, TEXT) TO service_role;
+
+COMMENT ON TABLE telegram_chat_instances IS 'Chats each user opened the Mini App from, recorded at login for referral fraud scoring';
+
+INSERT INTO schema_version (version, description)
+VALUES (10, 'Referral fraud scoring and verified reward release')
+ON CONFLICT (version) DO NOTHING;
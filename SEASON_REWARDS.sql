@@ -0,0 +1,407 @@
+-- =============================================
+-- SEASON REWARDS
+-- =============================================
+-- A season is a scheduled window, like a special event, ranked by the divine
+-- points earned inside it (the entries LEADERBOARD_PERIODS.sql counts). Its
+-- reward table has brackets by rank (top 1, top 10) or by share of the
+-- participants (top 50%), each paying gems, STK and/or a timed mining boost.
+-- The seasonClose cron job calls close_due_seasons(): final ranks and the
+-- reward of each bracket are written to season_standings once, and players
+-- collect them with claim_season_reward(). Schedule a season with the service role:
+--   INSERT INTO seasons (name, starts_at, ends_at) VALUES ('Season 1', '2026-11-01', '2026-12-01');
+--   INSERT INTO season_reward_tiers (season_id, tier_order, label, max_rank, reward_gems, reward_stk)
+--   VALUES (1, 1, 'Champion', 1, 5000, 1000);
+-- Requires LEADERBOARD_PERIODS.sql and STK_LEDGER.sql (re-run it first so
+-- apply_stk_entry accepts the 'season' source). Safe to run multiple times.
+
+-- 1. Seasons and their reward tables
+CREATE TABLE IF NOT EXISTS seasons (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,  -- Set once by close_season()
+    participant_count INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seasons_window ON seasons(starts_at, ends_at) WHERE is_active;
+
+-- A player gets the first bracket, by tier_order, that their final rank falls in.
+-- Exactly one of max_rank and top_percent is set.
+CREATE TABLE IF NOT EXISTS season_reward_tiers (
+    id SERIAL PRIMARY KEY,
+    season_id INTEGER NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+    tier_order INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    max_rank INTEGER CHECK (max_rank > 0),
+    top_percent NUMERIC(5, 2) CHECK (top_percent > 0 AND top_percent <= 100),
+    reward_gems INTEGER NOT NULL DEFAULT 0 CHECK (reward_gems >= 0),
+    reward_stk NUMERIC NOT NULL DEFAULT 0 CHECK (reward_stk >= 0),
+    boost_multiplier NUMERIC(5, 2) CHECK (boost_multiplier > 1),  -- Mining rate, e.g. 1.5 for +50%
+    boost_hours INTEGER CHECK (boost_hours > 0),
+    UNIQUE(season_id, tier_order),
+    CHECK ((max_rank IS NULL) <> (top_percent IS NULL)),
+    CHECK ((boost_multiplier IS NULL) = (boost_hours IS NULL))
+);
+
+-- 2. Standings. points_earned runs while the season is open; the rank and the
+-- reward are copied in when it closes so later edits to the tiers change nothing.
+CREATE TABLE IF NOT EXISTS season_standings (
+    id BIGSERIAL PRIMARY KEY,
+    season_id INTEGER NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    points_earned NUMERIC(24, 6) NOT NULL DEFAULT 0,
+    rank_position INTEGER,
+    tier_label TEXT,  -- NULL when the final rank earned no reward
+    reward_gems INTEGER NOT NULL DEFAULT 0,
+    reward_stk NUMERIC NOT NULL DEFAULT 0,
+    boost_multiplier NUMERIC(5, 2),
+    boost_hours INTEGER,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    stk_paid NUMERIC,  -- Can be below reward_stk once the distribution cap is near
+    boost_expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(season_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_standings_points ON season_standings(season_id, points_earned DESC);
+CREATE INDEX IF NOT EXISTS idx_season_standings_user ON season_standings(user_id, season_id);
+
+-- 3. Reward currencies
+INSERT INTO economy_rules (entry_type, currency, direction, client_allowed, max_amount, max_per_second, max_per_day, description) VALUES
+    ('season_gem_reward', 'gems', 1, FALSE, NULL, NULL, NULL, 'Gems from a season reward; reference is the season')
+ON CONFLICT (entry_type) DO NOTHING;
+
+-- STK rewards are recorded with the 'season' source, on top of STK_LEDGER.sql's
+ALTER TABLE sbt_history DROP CONSTRAINT IF EXISTS sbt_history_source_check;
+ALTER TABLE sbt_history ADD CONSTRAINT sbt_history_source_check
+    CHECK (source IN ('deposit', 'referral', 'stake', 'harvest', 'purchase', 'season'));
+
+-- 4. Earnings are added to every open season the entry falls in
+CREATE OR REPLACE FUNCTION add_season_earnings()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM economy_rules WHERE entry_type = NEW.entry_type AND counts_for_leaderboard) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO season_standings AS s (season_id, user_id, points_earned)
+    SELECT id, NEW.user_id, NEW.amount
+    FROM seasons
+    WHERE is_active
+      AND closed_at IS NULL
+      AND starts_at <= NEW.created_at
+      AND ends_at > NEW.created_at
+    ON CONFLICT (season_id, user_id) DO UPDATE
+    SET points_earned = s.points_earned + EXCLUDED.points_earned, updated_at = NOW();
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS economy_ledger_seasons ON economy_ledger;
+CREATE TRIGGER economy_ledger_seasons
+    AFTER INSERT ON economy_ledger
+    FOR EACH ROW
+    WHEN (NEW.currency = 'divine_points')
+    EXECUTE FUNCTION add_season_earnings();
+
+-- Seasons that started before this file ran. Totals are recomputed, not added.
+INSERT INTO season_standings (season_id, user_id, points_earned)
+SELECT s.id, l.user_id, SUM(l.amount)
+FROM seasons s
+JOIN economy_ledger l
+  ON l.currency = 'divine_points'
+ AND l.created_at >= s.starts_at
+ AND l.created_at < s.ends_at
+JOIN economy_rules r ON r.entry_type = l.entry_type AND r.counts_for_leaderboard
+WHERE s.is_active AND s.closed_at IS NULL
+GROUP BY s.id, l.user_id
+ON CONFLICT (season_id, user_id) DO UPDATE
+SET points_earned = EXCLUDED.points_earned, updated_at = NOW();
+
+-- 5. Closing. Ranks everyone who earned points and grants each the reward of
+-- their bracket. A season is closed once; calling again returns it unchanged.
+CREATE OR REPLACE FUNCTION close_season(p_season_id INTEGER)
+RETURNS seasons AS $$
+DECLARE
+    season seasons%ROWTYPE;
+    participants INTEGER;
+BEGIN
+    SELECT * INTO season FROM seasons WHERE id = p_season_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown season %', p_season_id;
+    END IF;
+
+    IF season.closed_at IS NOT NULL THEN
+        RETURN season;
+    END IF;
+
+    IF season.ends_at > NOW() THEN
+        RAISE EXCEPTION 'Season % runs until %', p_season_id, season.ends_at;
+    END IF;
+
+    UPDATE season_standings st
+    SET rank_position = r.position, updated_at = NOW()
+    FROM (
+        SELECT id, ROW_NUMBER() OVER (ORDER BY points_earned DESC, user_id) AS position
+        FROM season_standings
+        WHERE season_id = p_season_id AND points_earned > 0
+    ) r
+    WHERE st.id = r.id;
+    GET DIAGNOSTICS participants = ROW_COUNT;
+
+    UPDATE season_standings st
+    SET tier_label = best.label,
+        reward_gems = best.reward_gems,
+        reward_stk = best.reward_stk,
+        boost_multiplier = best.boost_multiplier,
+        boost_hours = best.boost_hours
+    FROM (
+        SELECT DISTINCT ON (ranked.id)
+            ranked.id AS standing_id, t.label, t.reward_gems, t.reward_stk, t.boost_multiplier, t.boost_hours
+        FROM season_standings ranked
+        JOIN season_reward_tiers t
+          ON t.season_id = ranked.season_id
+         AND ranked.rank_position <= COALESCE(t.max_rank, CEIL(participants * t.top_percent / 100))
+        WHERE ranked.season_id = p_season_id AND ranked.rank_position IS NOT NULL
+        ORDER BY ranked.id, t.tier_order
+    ) best
+    WHERE st.id = best.standing_id;
+
+    UPDATE seasons
+    SET closed_at = NOW(), participant_count = participants
+    WHERE id = p_season_id
+    RETURNING * INTO season;
+
+    RETURN season;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run by the seasonClose cron job
+CREATE OR REPLACE FUNCTION close_due_seasons()
+RETURNS TABLE (season_id INTEGER, participants INTEGER, rewarded INTEGER) AS $$
+DECLARE
+    due_id INTEGER;
+    closed seasons%ROWTYPE;
+BEGIN
+    FOR due_id IN
+        SELECT s.id FROM seasons s
+        WHERE s.is_active AND s.closed_at IS NULL AND s.ends_at <= NOW()
+        ORDER BY s.ends_at
+    LOOP
+        closed := close_season(due_id);
+        season_id := closed.id;
+        participants := closed.participant_count;
+        SELECT COUNT(*) INTO rewarded
+        FROM season_standings st
+        WHERE st.season_id = closed.id AND st.tier_label IS NOT NULL;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Player RPCs
+-- Seasons newest first with the caller's standing. rank is live while a season
+-- runs (players ahead of you + 1) and final once it has closed.
+CREATE OR REPLACE FUNCTION get_my_seasons(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    season_id INTEGER,
+    name TEXT,
+    description TEXT,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    participant_count INTEGER,
+    points_earned NUMERIC,
+    rank INTEGER,
+    tier_label TEXT,
+    reward_gems INTEGER,
+    reward_stk NUMERIC,
+    boost_multiplier NUMERIC,
+    boost_hours INTEGER,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    stk_paid NUMERIC,
+    boost_expires_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        s.id,
+        s.name,
+        s.description,
+        s.starts_at,
+        s.ends_at,
+        s.closed_at,
+        COALESCE(s.participant_count, (
+            SELECT COUNT(*)::INTEGER FROM season_standings o
+            WHERE o.season_id = s.id AND o.points_earned > 0
+        )),
+        COALESCE(st.points_earned, 0)::NUMERIC,
+        CASE
+            WHEN s.closed_at IS NOT NULL THEN st.rank_position
+            WHEN st.points_earned > 0 THEN (
+                SELECT COUNT(*)::INTEGER + 1 FROM season_standings o
+                WHERE o.season_id = s.id AND o.points_earned > st.points_earned
+            )
+        END,
+        st.tier_label,
+        COALESCE(st.reward_gems, 0),
+        COALESCE(st.reward_stk, 0),
+        st.boost_multiplier::NUMERIC,
+        st.boost_hours,
+        st.claimed_at,
+        st.stk_paid,
+        st.boost_expires_at
+    FROM seasons s
+    LEFT JOIN season_standings st ON st.season_id = s.id AND st.user_id = caller_id
+    WHERE s.is_active
+    ORDER BY s.starts_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Top players of a season, live or final
+CREATE OR REPLACE FUNCTION get_season_leaderboard(p_season_id INTEGER, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    rank BIGINT,
+    user_id INTEGER,
+    username TEXT,
+    first_name TEXT,
+    last_name TEXT,
+    points_earned NUMERIC,
+    tier_label TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY st.points_earned DESC, st.user_id),
+        st.user_id,
+        u.username,
+        u.first_name,
+        u.last_name,
+        st.points_earned::NUMERIC,
+        st.tier_label
+    FROM season_standings st
+    JOIN users u ON u.id = st.user_id
+    WHERE st.season_id = p_season_id AND st.points_earned > 0
+    ORDER BY 1
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Pays the caller's reward for a closed season: gems through the economy
+-- ledger, STK through apply_stk_entry (trimmed to what the cap allows) and the
+-- boost as a user_boosts row that starts now.
+CREATE OR REPLACE FUNCTION claim_season_reward(p_season_id INTEGER)
+RETURNS season_standings AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    standing season_standings%ROWTYPE;
+    reward_key TEXT := 'season:' || p_season_id || ':' || caller_id;
+    stk_amount NUMERIC;
+    boost_expires TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Same lock order as apply_stk_entry: the player first
+    PERFORM 1 FROM users WHERE id = caller_id FOR UPDATE;
+
+    SELECT * INTO standing FROM season_standings
+    WHERE season_id = p_season_id AND user_id = caller_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR standing.tier_label IS NULL THEN
+        RAISE EXCEPTION 'No reward for season %', p_season_id;
+    END IF;
+
+    IF standing.claimed_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Season % reward was already claimed', p_season_id;
+    END IF;
+
+    IF standing.reward_gems > 0 THEN
+        PERFORM ensure_economy_opening_balance(caller_id);
+        PERFORM insert_economy_entry(
+            caller_id,
+            'season_gem_reward',
+            standing.reward_gems,
+            'season:' || p_season_id,
+            reward_key || ':gems',
+            jsonb_build_object('rank', standing.rank_position, 'tier', standing.tier_label),
+            FALSE
+        );
+    END IF;
+
+    IF standing.reward_stk > 0 THEN
+        stk_amount := LEAST(standing.reward_stk, stk_remaining_cap());
+        IF stk_amount > 0 THEN
+            PERFORM apply_stk_entry(caller_id, 'mint', 'season', stk_amount, 'season_reward', NULL, reward_key || ':stk');
+        END IF;
+    END IF;
+
+    IF standing.boost_multiplier IS NOT NULL THEN
+        INSERT INTO user_boosts (user_id, boost_type, boost_multiplier, boost_duration_seconds, remaining_duration_seconds, expires_at)
+        VALUES (
+            caller_id,
+            'mining',
+            standing.boost_multiplier,
+            standing.boost_hours * 3600,
+            standing.boost_hours * 3600,
+            NOW() + standing.boost_hours * INTERVAL '1 hour'
+        )
+        RETURNING expires_at INTO boost_expires;
+    END IF;
+
+    UPDATE season_standings
+    SET claimed_at = NOW(),
+        stk_paid = COALESCE(stk_amount, 0),
+        boost_expires_at = boost_expires,
+        updated_at = NOW()
+    WHERE id = standing.id
+    RETURNING * INTO standing;
+
+    RETURN standing;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION close_season(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION close_due_seasons() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION close_season(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION close_due_seasons() TO service_role;
+GRANT EXECUTE ON FUNCTION get_my_seasons(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_season_leaderboard(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_season_reward(INTEGER) TO authenticated;
+
+-- 7. RLS: seasons and reward tables are public; standings are read through the RPCs
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE season_reward_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE season_standings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS seasons_select_policy ON seasons;
+CREATE POLICY seasons_select_policy ON seasons
+    FOR SELECT USING (is_active);
+
+DROP POLICY IF EXISTS season_reward_tiers_select_policy ON season_reward_tiers;
+CREATE POLICY season_reward_tiers_select_policy ON season_reward_tiers
+    FOR SELECT USING (true);
+
+COMMENT ON TABLE seasons IS 'Scheduled ranking windows; closed_at is set when close_season() grants the rewards';
+COMMENT ON TABLE season_reward_tiers IS 'Reward brackets per season, by rank or by share of the participants';
+COMMENT ON TABLE season_standings IS 'Points earned per player and season, with the final rank and reward once the season closes';
+
+INSERT INTO schema_version (version, description)
+VALUES (22, 'Seasons with reward tables, closing job and reward claims')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,95 @@
+-- =============================================
+-- SPECIAL EVENTS
+-- =============================================
+-- Live-ops events from special_events are read by the client (src/lib/specialEvents.ts)
+-- and applied to mining rate, energy cost and upgrade prices. Upgrade discounts are
+-- also honoured by the purchase check so discounted buys aren't rejected.
+-- Requires UPGRADE_DEFINITIONS.sql. Safe to run multiple times.
+
+-- 1. Lookups by time window
+CREATE INDEX IF NOT EXISTS idx_special_events_window ON special_events(starts_at, ends_at) WHERE is_active;
+
+-- 2. Combined cost multiplier of the events of one type running at p_at.
+-- Defaults match EVENT_EFFECTS in src/lib/specialEvents.ts; floored like MIN_COST_MULTIPLIER.
+CREATE OR REPLACE FUNCTION event_cost_multiplier(
+    p_event_type TEXT,
+    p_default NUMERIC,
+    p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS NUMERIC AS $$
+    SELECT GREATEST(0.1, COALESCE(exp(SUM(ln(m))), 1))
+    FROM (
+        SELECT COALESCE((event_data ->> 'multiplier')::NUMERIC, p_default) AS m
+        FROM special_events
+        WHERE is_active
+          AND event_type = p_event_type
+          AND starts_at <= p_at
+          AND ends_at > p_at
+    ) events
+    WHERE m > 0;
+$$ LANGUAGE sql STABLE;
+
+-- 3. Purchase check with event discounts. Replaces the version in UPGRADE_DEFINITIONS.sql.
+CREATE OR REPLACE FUNCTION check_upgrade_purchase()
+RETURNS TRIGGER AS $$
+DECLARE
+    definition RECORD;
+    current_level INTEGER;
+    discount NUMERIC;
+    price NUMERIC;
+BEGIN
+    IF NEW.entry_type <> 'upgrade_purchase' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Without a published catalog nothing can be priced, so nothing can be bought
+    IF NOT EXISTS (SELECT 1 FROM upgrade_catalogs WHERE is_active) THEN
+        RAISE EXCEPTION 'No active upgrade catalog to price % against', NEW.reference;
+    END IF;
+
+    SELECT * INTO definition FROM active_upgrade_definitions WHERE id = NEW.reference;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown upgrade %', NEW.reference;
+    END IF;
+
+    -- Purchases already in the ledger; this row isn't inserted yet
+    current_level := get_upgrade_level(NEW.user_id, NEW.reference);
+
+    IF current_level >= definition.max_level THEN
+        RAISE EXCEPTION 'Upgrade % is already at max level %', NEW.reference, definition.max_level;
+    END IF;
+
+    IF definition.requires_upgrade IS NOT NULL
+       AND get_upgrade_level(NEW.user_id, definition.requires_upgrade) < definition.requires_level THEN
+        RAISE EXCEPTION 'Upgrade % requires % level %', NEW.reference, definition.requires_upgrade, definition.requires_level;
+    END IF;
+
+    -- Entries are flushed with the next save, so a discount that ended in the last
+    -- few minutes still applies
+    discount := LEAST(
+        event_cost_multiplier('bonus_upgrades', 0.75, NOW()),
+        event_cost_multiplier('bonus_upgrades', 0.75, NOW() - INTERVAL '10 minutes')
+    );
+
+    -- Same formula as getUpgradeCost; one point of slack for floating point on the client
+    price := floor(definition.base_cost * power(definition.cost_multiplier, current_level) * discount);
+    IF abs(NEW.amount) + 1 < price THEN
+        RAISE EXCEPTION 'Upgrade % level % costs %, got %', NEW.reference, current_level + 1, price, abs(NEW.amount);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. RLS: everyone reads events; they are scheduled with the service role
+ALTER TABLE special_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS special_events_select_policy ON special_events;
+CREATE POLICY special_events_select_policy ON special_events
+    FOR SELECT USING (true);
+
+COMMENT ON TABLE special_events IS 'Live-ops events; event_data.multiplier overrides the default effect of the event_type';
+
+INSERT INTO schema_version (version, description)
+VALUES (7, 'Special events')
+ON CONFLICT (version) DO NOTHING;
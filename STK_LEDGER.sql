@@ -0,0 +1,352 @@
+-- =============================================
+-- STK LEDGER
+-- =============================================
+-- Every STK mint, burn and transfer goes through apply_stk_entry(), which
+-- locks the rows it touches, enforces the distribution cap in stk_stats and
+-- writes the sbt_history rows. users.total_sbt is recomputed from sbt_history
+-- on every entry and can't be written any other way, so it is a cached copy of
+-- the ledger rather than a balance in its own right.
+--   * server code (withdrawals, token purchases, cron) calls apply_stk_entry()
+--     with the service role key
+--   * players lock STK into mining with start_stk_mining() and collect the STK
+--     from a completed stake cycle with claim_cycle_stk()
+-- WITHDRAWALS.sql and TOKEN_PURCHASES.sql credit STK through this file.
+-- Requires TELEGRAM_AUTH_RLS.sql. Safe to run multiple times.
+
+-- 1. Supply totals. Mints are refused once total_minted would pass distribution_cap
+-- (TOKEN_CONFIG.STK.DISTRIBUTION_CAP in src/lib/tokenSystem.ts).
+CREATE TABLE IF NOT EXISTS stk_stats (
+    id SERIAL PRIMARY KEY,
+    total_minted NUMERIC NOT NULL DEFAULT 0,
+    total_burned NUMERIC NOT NULL DEFAULT 0,
+    distribution_cap NUMERIC NOT NULL DEFAULT 350000000,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE stk_stats ADD COLUMN IF NOT EXISTS total_burned NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE stk_stats ADD COLUMN IF NOT EXISTS distribution_cap NUMERIC NOT NULL DEFAULT 350000000;
+ALTER TABLE stk_stats ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- 2. sbt_history becomes the STK ledger. amount is signed; kind says how the
+-- entry moved supply, source what it was for, type keeps the finer detail.
+ALTER TABLE sbt_history ADD COLUMN IF NOT EXISTS kind TEXT;
+ALTER TABLE sbt_history ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE sbt_history ADD COLUMN IF NOT EXISTS counterparty_id INTEGER REFERENCES users(id);
+ALTER TABLE sbt_history ADD COLUMN IF NOT EXISTS balance_after NUMERIC;
+ALTER TABLE sbt_history ADD COLUMN IF NOT EXISTS idempotency_key TEXT UNIQUE;
+
+CREATE INDEX IF NOT EXISTS idx_sbt_history_user ON sbt_history(user_id, timestamp DESC);
+
+-- Legacy rows: kind from the sign, source from the old type
+DROP TRIGGER IF EXISTS sbt_history_append_only ON sbt_history;
+
+UPDATE sbt_history
+SET kind = CASE WHEN amount >= 0 THEN 'mint' ELSE 'burn' END,
+    source = CASE
+        WHEN type IN ('deposit', 'referral', 'stake', 'harvest', 'purchase') THEN type
+        WHEN type IN ('withdrawal_fee', 'withdrawal_fee_refund') THEN 'stake'
+        WHEN type = 'token_purchase' THEN 'purchase'
+    END
+WHERE kind IS NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'sbt_history_kind_check') THEN
+        ALTER TABLE sbt_history ADD CONSTRAINT sbt_history_kind_check
+            CHECK (kind IN ('opening', 'mint', 'burn', 'transfer_in', 'transfer_out'));
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'sbt_history_source_check') THEN
+        ALTER TABLE sbt_history ADD CONSTRAINT sbt_history_source_check
+            CHECK (source IN ('deposit', 'referral', 'stake', 'harvest', 'purchase'));
+    END IF;
+END $$;
+
+ALTER TABLE sbt_history ALTER COLUMN kind SET NOT NULL;
+
+-- Balances that don't match their history (written directly before the ledger)
+-- are carried over as one opening entry per player
+INSERT INTO sbt_history (user_id, amount, type, kind, idempotency_key)
+SELECT u.id, COALESCE(u.total_sbt, 0) - COALESCE(h.total, 0), 'opening_balance', 'opening', 'stk_opening:' || u.id
+FROM users u
+LEFT JOIN (
+    SELECT user_id, SUM(amount) AS total FROM sbt_history GROUP BY user_id
+) h ON h.user_id = u.id
+WHERE COALESCE(u.total_sbt, 0) <> COALESCE(h.total, 0)
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO stk_stats (total_minted, total_burned)
+SELECT
+    COALESCE(SUM(amount) FILTER (WHERE kind IN ('mint', 'opening') AND amount > 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE kind IN ('burn', 'opening') AND amount < 0), 0)
+FROM sbt_history
+WHERE NOT EXISTS (SELECT 1 FROM stk_stats);
+
+-- 3. Append-only: corrections are new entries
+CREATE OR REPLACE FUNCTION prevent_sbt_history_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'sbt_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sbt_history_append_only
+    BEFORE UPDATE OR DELETE ON sbt_history
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_sbt_history_changes();
+
+-- 4. users.total_sbt only changes inside apply_stk_entry (which sets app.stk_ledger)
+CREATE OR REPLACE FUNCTION protect_total_sbt()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('app.stk_ledger', true) IS DISTINCT FROM 'on' THEN
+        IF TG_OP = 'INSERT' AND COALESCE(NEW.total_sbt, 0) <> 0 THEN
+            RAISE EXCEPTION 'New players start with no STK';
+        END IF;
+        IF TG_OP = 'UPDATE' AND NEW.total_sbt IS DISTINCT FROM OLD.total_sbt THEN
+            RAISE EXCEPTION 'total_sbt is derived from sbt_history; use apply_stk_entry()';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_total_sbt ON users;
+CREATE TRIGGER protect_total_sbt
+    BEFORE INSERT OR UPDATE OF total_sbt ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_total_sbt();
+
+-- 5. Derived balances
+CREATE OR REPLACE VIEW user_stk_balances WITH (security_invoker = true) AS
+SELECT
+    user_id,
+    SUM(amount) AS balance,
+    COALESCE(SUM(amount) FILTER (WHERE kind = 'mint'), 0) AS total_minted,
+    MAX(timestamp) AS last_entry_at
+FROM sbt_history
+GROUP BY user_id;
+
+CREATE OR REPLACE FUNCTION get_stk_balance(p_user_id INTEGER)
+RETURNS NUMERIC AS $$
+    SELECT COALESCE(SUM(amount), 0) FROM sbt_history WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- STK still mintable under the cap. Locks stk_stats until commit, so callers
+-- that size a mint from it can't be overtaken.
+CREATE OR REPLACE FUNCTION stk_remaining_cap()
+RETURNS NUMERIC AS $$
+DECLARE
+    stats stk_stats%ROWTYPE;
+BEGIN
+    SELECT * INTO stats FROM stk_stats
+    WHERE id = (SELECT MIN(id) FROM stk_stats)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'stk_stats has no row';
+    END IF;
+
+    RETURN GREATEST(stats.distribution_cap - stats.total_minted, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. The one write path. p_kind is 'mint', 'burn' or 'transfer' (to p_to_user_id);
+-- p_amount is always positive. Returns p_user_id's balance afterwards. A
+-- repeated p_idempotency_key is a no-op.
+CREATE OR REPLACE FUNCTION apply_stk_entry(
+    p_user_id INTEGER,
+    p_kind TEXT,
+    p_source TEXT,
+    p_amount NUMERIC,
+    p_type TEXT DEFAULT NULL,
+    p_to_user_id INTEGER DEFAULT NULL,
+    p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS NUMERIC AS $$
+DECLARE
+    locked_count INTEGER;
+    remaining NUMERIC;
+    sender_balance NUMERIC;
+    receiver_balance NUMERIC;
+    entry_type TEXT := COALESCE(p_type, p_source);
+BEGIN
+    IF p_kind NOT IN ('mint', 'burn', 'transfer') THEN
+        RAISE EXCEPTION 'Unknown STK entry kind %', p_kind;
+    END IF;
+
+    IF p_source IS NULL OR p_source NOT IN ('deposit', 'referral', 'stake', 'harvest', 'purchase', 'season') THEN
+        RAISE EXCEPTION 'Unknown STK source %', p_source;
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Invalid STK amount %', p_amount;
+    END IF;
+
+    IF p_kind = 'transfer' AND (p_to_user_id IS NULL OR p_to_user_id = p_user_id) THEN
+        RAISE EXCEPTION 'A transfer needs a different recipient';
+    END IF;
+
+    -- Both sides of a transfer, in id order so opposite transfers can't deadlock
+    SELECT COUNT(*) INTO locked_count FROM (
+        SELECT id FROM users
+        WHERE id IN (p_user_id, p_to_user_id)
+        ORDER BY id
+        FOR UPDATE
+    ) locked;
+
+    IF locked_count < (CASE WHEN p_kind = 'transfer' THEN 2 ELSE 1 END) THEN
+        RAISE EXCEPTION 'Unknown user in STK entry';
+    END IF;
+
+    -- Checked under the user lock so a retry racing the original sees its row
+    IF p_idempotency_key IS NOT NULL AND EXISTS (
+        SELECT 1 FROM sbt_history WHERE idempotency_key = p_idempotency_key
+    ) THEN
+        RETURN get_stk_balance(p_user_id);
+    END IF;
+
+    IF p_kind = 'mint' THEN
+        remaining := stk_remaining_cap();
+        IF p_amount > remaining THEN
+            RAISE EXCEPTION 'STK distribution cap reached: % left, % requested', remaining, p_amount;
+        END IF;
+
+        UPDATE stk_stats
+        SET total_minted = total_minted + p_amount, updated_at = NOW()
+        WHERE id = (SELECT MIN(id) FROM stk_stats);
+    ELSIF get_stk_balance(p_user_id) < p_amount THEN
+        RAISE EXCEPTION 'Insufficient STK balance';
+    END IF;
+
+    IF p_kind = 'burn' THEN
+        UPDATE stk_stats
+        SET total_burned = total_burned + p_amount, updated_at = NOW()
+        WHERE id = (SELECT MIN(id) FROM stk_stats);
+    END IF;
+
+    sender_balance := get_stk_balance(p_user_id) + CASE WHEN p_kind = 'mint' THEN p_amount ELSE -p_amount END;
+
+    INSERT INTO sbt_history (user_id, amount, type, kind, source, counterparty_id, balance_after, idempotency_key)
+    VALUES (
+        p_user_id,
+        CASE WHEN p_kind = 'mint' THEN p_amount ELSE -p_amount END,
+        entry_type,
+        CASE WHEN p_kind = 'transfer' THEN 'transfer_out' ELSE p_kind END,
+        p_source,
+        p_to_user_id,
+        sender_balance,
+        p_idempotency_key
+    );
+
+    PERFORM set_config('app.stk_ledger', 'on', true);
+
+    UPDATE users SET total_sbt = sender_balance WHERE id = p_user_id;
+
+    IF p_kind = 'transfer' THEN
+        receiver_balance := get_stk_balance(p_to_user_id) + p_amount;
+
+        INSERT INTO sbt_history (user_id, amount, type, kind, source, counterparty_id, balance_after, idempotency_key)
+        VALUES (p_to_user_id, p_amount, entry_type, 'transfer_in', p_source, p_user_id, receiver_balance, p_idempotency_key || ':in');
+
+        UPDATE users SET total_sbt = receiver_balance WHERE id = p_to_user_id;
+    END IF;
+
+    PERFORM set_config('app.stk_ledger', 'off', true);
+
+    RETURN sender_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Player RPC: lock STK into mining. The STK leaves circulation as mining_power.
+CREATE OR REPLACE FUNCTION start_stk_mining(p_amount NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    deposit_id INTEGER;
+    balance NUMERIC;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < 100 THEN
+        RAISE EXCEPTION 'Minimum deposit is 100 STK';
+    END IF;
+
+    PERFORM 1 FROM users WHERE id = caller_id FOR UPDATE;
+
+    IF EXISTS (SELECT 1 FROM mining_deposits WHERE user_id = caller_id AND status = 'active') THEN
+        RAISE EXCEPTION 'You already have an active mining deposit';
+    END IF;
+
+    INSERT INTO mining_deposits (user_id, amount, status, started_at)
+    VALUES (caller_id, p_amount, 'active', NOW())
+    RETURNING id INTO deposit_id;
+
+    balance := apply_stk_entry(caller_id, 'burn', 'deposit', p_amount, 'mining_deposit', NULL, 'mining_deposit:' || deposit_id);
+
+    UPDATE users SET mining_power = p_amount WHERE id = caller_id;
+
+    RETURN balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 8. Player RPC: the 10% STK share of a stake whose cycle reached 300%. Paid
+-- once per stake, trimmed to what the cap still allows.
+CREATE OR REPLACE FUNCTION claim_cycle_stk(p_stake_id INTEGER)
+RETURNS NUMERIC AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    stake stakes%ROWTYPE;
+    stk_amount NUMERIC;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO stake FROM stakes WHERE id = p_stake_id AND user_id = caller_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown stake %', p_stake_id;
+    END IF;
+
+    IF COALESCE(stake.total_earned, 0) < stake.amount * 3 THEN
+        RAISE EXCEPTION 'Stake % has not completed its cycle', p_stake_id;
+    END IF;
+
+    -- Same lock order as apply_stk_entry: the player first, then stk_stats
+    PERFORM 1 FROM users WHERE id = caller_id FOR UPDATE;
+
+    stk_amount := LEAST(round(stake.amount * 0.10, 9), stk_remaining_cap());
+    IF stk_amount <= 0 THEN
+        RETURN get_stk_balance(caller_id);
+    END IF;
+
+    RETURN apply_stk_entry(caller_id, 'mint', 'stake', stk_amount, 'cycle_completion', NULL, 'stake_cycle:' || p_stake_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION stk_remaining_cap() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION apply_stk_entry(INTEGER, TEXT, TEXT, NUMERIC, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_stk_entry(INTEGER, TEXT, TEXT, NUMERIC, TEXT, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION start_stk_mining(NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_cycle_stk(INTEGER) TO authenticated;
+
+-- 9. RLS: players read their own entries; supply totals are public
+ALTER TABLE sbt_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stk_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sbt_history_select_own_policy ON sbt_history;
+CREATE POLICY sbt_history_select_own_policy ON sbt_history
+    FOR SELECT USING (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS stk_stats_select_policy ON stk_stats;
+CREATE POLICY stk_stats_select_policy ON stk_stats
+    FOR SELECT USING (true);
+
+COMMENT ON TABLE sbt_history IS 'Append-only STK ledger; users.total_sbt is derived from it';
+COMMENT ON TABLE stk_stats IS 'STK minted and burned so far, and the distribution cap mints are checked against';
+
+INSERT INTO schema_version (version, description)
+VALUES (17, 'STK ledger with atomic, capped mints, burns and transfers')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,513 @@
+-- =============================================
+-- TASK ENGINE
+-- =============================================
+-- Tasks are defined in the tasks table (schema.sql) and each player's state
+-- lives in user_tasks. All transitions and rewards happen here:
+--   available -> in_progress -> completed -> claimed
+--   in_progress -> pending_review -> completed / failed / in_progress (revision)
+--   in_progress -> failed when a time limit runs out
+--   claimed -> available again once a repeatable task's cooldown has passed
+-- Progress is measured on the server from requirements
+-- ([{ "metric": ..., "goal": ... }], see task_metric_value) and rewards are
+-- only paid by claim_task_reward() through the economy ledger.
+-- Requires ECONOMY_LEDGER.sql, REFERRAL_SERVICE.sql and WALLET_PROOF.sql.
+-- Safe to run multiple times.
+
+-- 1. Columns the engine needs
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS action_url TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reward_currency TEXT NOT NULL DEFAULT 'gems'
+    CHECK (reward_currency IN ('gems', 'divine_points'));
+
+ALTER TABLE user_tasks ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE user_tasks ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE user_tasks ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE user_tasks ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_task_submissions_pending ON task_submissions(user_id, task_id) WHERE status = 'pending';
+
+-- Gem rewards go through the ledger like every other gem change
+INSERT INTO economy_rules (entry_type, currency, direction, client_allowed, max_amount, max_per_second, max_per_day, description) VALUES
+    ('task_gem_reward', 'gems', 1, FALSE, NULL, NULL, NULL, 'Gems paid by the task engine; reference is the task id')
+ON CONFLICT (entry_type) DO NOTHING;
+
+-- 2. The tasks TaskCenter used to hard-code
+INSERT INTO tasks (
+    task_id, title, description, reward, type, emoji, requirements, submission_required, submission_type,
+    difficulty_level, category, prerequisites, max_completions, action_url
+) VALUES
+    ('mine_1000',      'Mine 1,000 Points',          'Accumulate 1,000 divine points',          50,  'mining',      '🪙', '[{"metric": "points_earned", "goal": 1000}]',  false, 'none',       1, 'mining',  '[]',              1, NULL),
+    ('mine_10000',     'Mine 10,000 Points',         'Accumulate 10,000 divine points',         100, 'mining',      '🪙', '[{"metric": "points_earned", "goal": 10000}]', false, 'none',       2, 'mining',  '["mine_1000"]',   1, NULL),
+    ('mine_1hour',     'Mine for 1 Hour',            'Keep mining active for 1 hour',           75,  'mining',      '⚡', '[{"metric": "mining_minutes", "goal": 60}]',   false, 'none',       2, 'mining',  '[]',              1, NULL),
+    ('buy_upgrade',    'Buy Your First Upgrade',     'Purchase any mining upgrade',             25,  'mining',      '⬆️', '[{"metric": "upgrades_bought", "goal": 1}]',   false, 'none',       1, 'mining',  '[]',              1, NULL),
+    ('follow_twitter', 'Follow on Twitter',          'Follow our official Twitter account',     30,  'social',      '🐦', '[]',                                           true,  'screenshot', 1, 'social',  '[]',              1, 'https://x.com/DivineTaps'),
+    ('join_telegram',  'Join Telegram',              'Join our Telegram community',             40,  'community',   '📱', '[]',                                           false, 'none',       1, 'social',  '[]',              1, 'https://t.me/DivineTaps'),
+    ('retweet_post',   'Retweet Latest Post',        'Retweet our latest announcement',         35,  'social',      '🔄', '[]',                                           true,  'link',       1, 'social',  '[]',              1, 'https://twitter.com/intent/retweet?tweet_id=1946298009924288617'),
+    ('submit_wallet',  'Submit Wallet for Airdrop',  'Prove ownership of your TON wallet',      100, 'exploration', '💎', '[{"metric": "proven_wallet", "goal": 1}]',     false, 'none',       1, 'airdrop', '[]',              1, NULL),
+    ('invite_friend',  'Invite a Friend',            'Invite a friend to join the game',        50,  'referral',    '👥', '[{"metric": "referrals", "goal": 1}]',         false, 'none',       1, 'social',  '[]',              1, NULL),
+    ('like_post',      'Like Latest Post',           'Like our latest social media post',       20,  'social',      '❤️', '[]',                                           true,  'screenshot', 1, 'social',  '[]',              1, 'https://x.com/intent/like?tweet_id=1946298009924288617')
+ON CONFLICT (task_id) DO NOTHING;
+
+-- Gems TaskCenter already paid client-side (gem_grant with reference task_<id>) count as claimed
+INSERT INTO user_tasks (user_id, task_id, status, progress, goal, completion_count, last_completed, completed_at, claimed_at)
+SELECT el.user_id, t.task_id, 'claimed', 1, 1, 1, MIN(el.created_at), MIN(el.created_at), MIN(el.created_at)
+FROM economy_ledger el
+JOIN tasks t ON el.reference = 'task_' || t.task_id
+WHERE el.entry_type = 'gem_grant'
+GROUP BY el.user_id, t.task_id
+ON CONFLICT (user_id, task_id) DO NOTHING;
+
+-- 3. Metrics a requirement can name. All are lifetime totals.
+CREATE OR REPLACE FUNCTION task_metric_value(p_user_id INTEGER, p_metric TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+    metric_value NUMERIC;
+BEGIN
+    CASE p_metric
+        WHEN 'points_earned' THEN
+            SELECT COALESCE(SUM(amount), 0) INTO metric_value
+            FROM economy_ledger
+            WHERE user_id = p_user_id AND currency = 'divine_points' AND amount > 0;
+        WHEN 'mining_minutes' THEN
+            -- The game syncs every 30 seconds while mining, so each mined minute has a mine_tick
+            SELECT COUNT(DISTINCT date_trunc('minute', created_at)) INTO metric_value
+            FROM economy_ledger
+            WHERE user_id = p_user_id AND entry_type = 'mine_tick';
+        WHEN 'upgrades_bought' THEN
+            SELECT COUNT(*) INTO metric_value
+            FROM economy_ledger
+            WHERE user_id = p_user_id AND entry_type = 'upgrade_purchase';
+
+            metric_value := metric_value + COALESCE((
+                SELECT SUM(levels.value::INTEGER)
+                FROM economy_ledger el, jsonb_each_text(el.metadata -> 'upgrade_levels') AS levels
+                WHERE el.user_id = p_user_id AND el.entry_type = 'opening_balance'
+            ), 0);
+        WHEN 'referrals' THEN
+            SELECT COUNT(*) INTO metric_value
+            FROM referral_chain
+            WHERE referrer_id = p_user_id AND level = 1;
+        WHEN 'proven_wallet' THEN
+            SELECT CASE WHEN wallet_proven_at IS NOT NULL THEN 1 ELSE 0 END INTO metric_value
+            FROM users
+            WHERE id = p_user_id;
+        ELSE
+            RAISE EXCEPTION 'Unknown task metric %', p_metric;
+    END CASE;
+
+    RETURN COALESCE(metric_value, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION task_prerequisites_met(p_user_id INTEGER, p_prerequisites JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(COALESCE(p_prerequisites, '[]'::jsonb)) AS prerequisite(task_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM user_tasks ut
+            WHERE ut.user_id = p_user_id
+              AND ut.task_id = prerequisite.task_id
+              AND ut.completion_count > 0
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- 4. Bring one player's task up to date: reopen cooled-down repeats, expire
+-- time limits, measure progress and auto-start / auto-complete tracked tasks.
+-- Returns the row locked for the rest of the transaction.
+CREATE OR REPLACE FUNCTION refresh_user_task(p_user_id INTEGER, p_task_id TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+    requirement JSONB;
+    requirement_value NUMERIC;
+    first_goal INTEGER;
+    first_value NUMERIC;
+    all_met BOOLEAN := TRUE;
+BEGIN
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown task %', p_task_id;
+    END IF;
+
+    INSERT INTO user_tasks (user_id, task_id, goal)
+    VALUES (p_user_id, p_task_id, COALESCE((task.requirements -> 0 ->> 'goal')::INTEGER, 1))
+    ON CONFLICT (user_id, task_id) DO NOTHING;
+
+    SELECT * INTO state FROM user_tasks WHERE user_id = p_user_id AND task_id = p_task_id FOR UPDATE;
+
+    -- Repeatable tasks (cooldown_hours > 0) reopen after the cooldown, up to max_completions
+    IF state.status = 'claimed'
+       AND COALESCE(task.cooldown_hours, 0) > 0
+       AND (COALESCE(task.max_completions, -1) < 0 OR state.completion_count < task.max_completions)
+       AND state.last_completed + make_interval(hours => task.cooldown_hours) <= NOW() THEN
+        UPDATE user_tasks
+        SET status = 'available', progress = 0, started_at = NULL, expires_at = NULL,
+            completed_at = NULL, claimed_at = NULL, updated_at = NOW()
+        WHERE id = state.id
+        RETURNING * INTO state;
+    END IF;
+
+    IF state.status = 'in_progress' AND state.expires_at IS NOT NULL AND state.expires_at <= NOW() THEN
+        UPDATE user_tasks SET status = 'failed', updated_at = NOW()
+        WHERE id = state.id
+        RETURNING * INTO state;
+    END IF;
+
+    IF state.status NOT IN ('available', 'in_progress')
+       OR jsonb_array_length(COALESCE(task.requirements, '[]'::jsonb)) = 0 THEN
+        RETURN state;
+    END IF;
+
+    FOR requirement IN SELECT * FROM jsonb_array_elements(task.requirements)
+    LOOP
+        requirement_value := task_metric_value(p_user_id, requirement ->> 'metric');
+        IF first_goal IS NULL THEN
+            first_goal := (requirement ->> 'goal')::INTEGER;
+            first_value := requirement_value;
+        END IF;
+        IF requirement_value < (requirement ->> 'goal')::NUMERIC THEN
+            all_met := FALSE;
+        END IF;
+    END LOOP;
+
+    -- Tracked tasks without a time limit start on their own once unlocked
+    IF state.status = 'available'
+       AND COALESCE(task.time_limit_hours, 0) = 0
+       AND task.is_active
+       AND task_prerequisites_met(p_user_id, task.prerequisites) THEN
+        state.status := 'in_progress';
+        state.started_at := NOW();
+    END IF;
+
+    UPDATE user_tasks
+    SET status = CASE WHEN state.status = 'in_progress' AND all_met THEN 'completed' ELSE state.status END,
+        progress = LEAST(floor(first_value), first_goal)::INTEGER,
+        goal = first_goal,
+        started_at = state.started_at,
+        completed_at = CASE WHEN state.status = 'in_progress' AND all_met THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+    WHERE id = state.id
+    RETURNING * INTO state;
+
+    RETURN state;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Checks shared by the player actions that start a task
+CREATE OR REPLACE FUNCTION assert_task_startable(p_user_id INTEGER, p_task tasks, p_state user_tasks)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT p_task.is_active THEN
+        RAISE EXCEPTION 'This task is no longer available';
+    END IF;
+
+    IF p_state.status NOT IN ('available', 'failed') THEN
+        RAISE EXCEPTION 'Task is %', p_state.status;
+    END IF;
+
+    IF p_state.status = 'failed' AND p_task.submission_required THEN
+        -- A rejected submission stays rejected; only timed-out tasks can be retried
+        IF EXISTS (
+            SELECT 1 FROM task_submissions
+            WHERE user_id = p_user_id AND task_id = p_task.task_id AND status = 'rejected'
+              AND created_at >= COALESCE(p_state.started_at, p_state.created_at)
+        ) THEN
+            RAISE EXCEPTION 'Your submission for this task was rejected';
+        END IF;
+    END IF;
+
+    IF COALESCE(p_task.max_completions, -1) >= 0 AND p_state.completion_count >= p_task.max_completions THEN
+        RAISE EXCEPTION 'Task already completed';
+    END IF;
+
+    IF NOT task_prerequisites_met(p_user_id, p_task.prerequisites) THEN
+        RAISE EXCEPTION 'Complete the required tasks first';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 5. Player RPCs
+CREATE OR REPLACE FUNCTION sync_my_tasks()
+RETURNS SETOF user_tasks AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    active_task_id TEXT;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    FOR active_task_id IN SELECT task_id FROM tasks WHERE is_active ORDER BY id
+    LOOP
+        PERFORM refresh_user_task(caller_id, active_task_id);
+    END LOOP;
+
+    RETURN QUERY SELECT * FROM user_tasks WHERE user_id = caller_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Needed for time-limited tasks; tracked tasks without a limit start on their own
+CREATE OR REPLACE FUNCTION start_task(p_task_id TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    state := refresh_user_task(caller_id, p_task_id);
+
+    IF state.status = 'in_progress' THEN
+        RETURN state;
+    END IF;
+
+    PERFORM assert_task_startable(caller_id, task, state);
+
+    UPDATE user_tasks
+    SET status = 'in_progress',
+        progress = 0,
+        started_at = NOW(),
+        expires_at = CASE WHEN COALESCE(task.time_limit_hours, 0) > 0
+                          THEN NOW() + make_interval(hours => task.time_limit_hours) END,
+        updated_at = NOW()
+    WHERE id = state.id;
+
+    RETURN refresh_user_task(caller_id, p_task_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tasks with no requirements and no submission are taken on the player's word
+CREATE OR REPLACE FUNCTION confirm_task(p_task_id TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    state := refresh_user_task(caller_id, p_task_id);
+
+    IF jsonb_array_length(COALESCE(task.requirements, '[]'::jsonb)) > 0 OR task.submission_required THEN
+        RAISE EXCEPTION 'This task is verified automatically or by review';
+    END IF;
+
+    IF state.status <> 'in_progress' THEN
+        PERFORM assert_task_startable(caller_id, task, state);
+    END IF;
+
+    UPDATE user_tasks
+    SET status = 'completed',
+        progress = goal,
+        started_at = COALESCE(started_at, NOW()),
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = state.id
+    RETURNING * INTO state;
+
+    RETURN state;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_task(p_task_id TEXT, p_submission_data TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+    submission TEXT := trim(COALESCE(p_submission_data, ''));
+    caller_username TEXT;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    state := refresh_user_task(caller_id, p_task_id);
+
+    IF NOT task.submission_required OR task.submission_type NOT IN ('screenshot', 'link', 'text') THEN
+        RAISE EXCEPTION 'This task does not take submissions';
+    END IF;
+
+    IF length(submission) = 0 OR length(submission) > 2000 THEN
+        RAISE EXCEPTION 'Submission must be between 1 and 2000 characters';
+    END IF;
+
+    -- Screenshots are submitted as a link to the uploaded image
+    IF task.submission_type IN ('screenshot', 'link') AND submission !~* '^https?://\S+$' THEN
+        RAISE EXCEPTION 'Submission must be a link';
+    END IF;
+
+    IF state.status <> 'in_progress' THEN
+        PERFORM assert_task_startable(caller_id, task, state);
+    END IF;
+
+    SELECT COALESCE(username, telegram_id::TEXT) INTO caller_username FROM users WHERE id = caller_id;
+
+    INSERT INTO task_submissions (user_id, task_id, submission_type, submission_data, telegram_username)
+    VALUES (caller_id, p_task_id, task.submission_type, submission, COALESCE(caller_username, ''));
+
+    UPDATE user_tasks
+    SET status = 'pending_review',
+        started_at = COALESCE(started_at, NOW()),
+        updated_at = NOW()
+    WHERE id = state.id
+    RETURNING * INTO state;
+
+    RETURN state;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The only place task rewards are paid: through the economy ledger, once per
+-- completion (the idempotency key carries the completion number).
+CREATE OR REPLACE FUNCTION pay_task_reward(p_user_id INTEGER, p_task_id TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+BEGIN
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    SELECT * INTO state FROM user_tasks WHERE user_id = p_user_id AND task_id = p_task_id FOR UPDATE;
+
+    IF state.status IS DISTINCT FROM 'completed' THEN
+        RAISE EXCEPTION 'Task is % and has no reward to claim', COALESCE(state.status, 'not started');
+    END IF;
+
+    PERFORM ensure_economy_opening_balance(p_user_id);
+    PERFORM insert_economy_entry(
+        p_user_id,
+        CASE WHEN task.reward_currency = 'divine_points' THEN 'task_reward' ELSE 'task_gem_reward' END,
+        task.reward,
+        p_task_id,
+        'task:' || p_task_id || ':' || p_user_id || ':' || (state.completion_count + 1),
+        jsonb_build_object('completion', state.completion_count + 1),
+        FALSE
+    );
+
+    UPDATE user_tasks
+    SET status = 'claimed',
+        completion_count = completion_count + 1,
+        last_completed = NOW(),
+        claimed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = state.id
+    RETURNING * INTO state;
+
+    RETURN state;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Returns the caller's balances afterwards
+CREATE OR REPLACE FUNCTION claim_task_reward(p_task_id TEXT)
+RETURNS TABLE (divine_points NUMERIC, total_points_earned NUMERIC, gems NUMERIC) AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM refresh_user_task(caller_id, p_task_id);
+    PERFORM pay_task_reward(caller_id, p_task_id);
+
+    RETURN QUERY
+    SELECT b.divine_points, b.total_points_earned, b.gems
+    FROM user_economy_balances b
+    WHERE b.user_id = caller_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Server RPC: settle a submission. Approval completes the task, leaving the
+-- reward for the player to claim; needs_revision lets them submit again.
+CREATE OR REPLACE FUNCTION review_task_submission(
+    p_submission_id INTEGER,
+    p_decision TEXT,
+    p_reviewer_id INTEGER,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS task_submissions AS $$
+DECLARE
+    submission task_submissions%ROWTYPE;
+BEGIN
+    IF p_decision NOT IN ('approved', 'rejected', 'needs_revision') THEN
+        RAISE EXCEPTION 'Unknown review decision %', p_decision;
+    END IF;
+
+    SELECT * INTO submission FROM task_submissions WHERE id = p_submission_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown submission %', p_submission_id;
+    END IF;
+
+    IF submission.status <> 'pending' THEN
+        RAISE EXCEPTION 'Submission % was already reviewed (%)', p_submission_id, submission.status;
+    END IF;
+
+    UPDATE task_submissions
+    SET status = p_decision,
+        reviewed_by = p_reviewer_id,
+        reviewed_at = NOW(),
+        review_notes = p_notes,
+        updated_at = NOW()
+    WHERE id = p_submission_id
+    RETURNING * INTO submission;
+
+    UPDATE user_tasks
+    SET status = CASE p_decision
+            WHEN 'approved' THEN 'completed'
+            WHEN 'rejected' THEN 'failed'
+            ELSE 'in_progress'
+        END,
+        progress = CASE WHEN p_decision = 'approved' THEN goal ELSE progress END,
+        completed_at = CASE WHEN p_decision = 'approved' THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+    WHERE user_id = submission.user_id
+      AND task_id = submission.task_id
+      AND status = 'pending_review';
+
+    RETURN submission;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION refresh_user_task(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION assert_task_startable(INTEGER, tasks, user_tasks) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION pay_task_reward(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION review_task_submission(INTEGER, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION review_task_submission(INTEGER, TEXT, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sync_my_tasks() TO authenticated;
+GRANT EXECUTE ON FUNCTION start_task(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_task(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_task(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_task_reward(TEXT) TO authenticated;
+
+-- 7. RLS: task definitions are public, progress and submissions private; all
+-- writes go through the functions above
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tasks_select_policy ON tasks;
+CREATE POLICY tasks_select_policy ON tasks
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS user_tasks_select_own_policy ON user_tasks;
+CREATE POLICY user_tasks_select_own_policy ON user_tasks
+    FOR SELECT USING (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS task_submissions_select_own_policy ON task_submissions;
+CREATE POLICY task_submissions_select_own_policy ON task_submissions
+    FOR SELECT USING (user_id = current_app_user_id());
+
+COMMENT ON TABLE user_tasks IS 'Per-player task state, moved only by the task engine RPCs in TASK_ENGINE.sql';
+
+INSERT INTO schema_version (version, description)
+VALUES (18, 'Server-driven task engine with server-paid rewards')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,81 @@
+-- =============================================
+-- TELEGRAM SESSION ROW LEVEL SECURITY
+-- =============================================
+-- Requests now carry a JWT issued by the telegram-auth Edge Function.
+-- Its `sub` claim is users.id, so policies can restrict writes to the caller.
+-- The Edge Function and cron jobs use the service role key and bypass RLS.
+-- Safe to run multiple times.
+
+-- 1. Helper: the users.id of the current session (NULL for anon requests)
+CREATE OR REPLACE FUNCTION current_app_user_id()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN (auth.jwt() ->> 'sub') ~ '^[0-9]+$' THEN (auth.jwt() ->> 'sub')::INTEGER
+        ELSE NULL
+    END;
+$$;
+
+-- 2. Users: profiles stay publicly readable (leaderboards, referrals), only the owner may update
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS users_select_policy ON users;
+CREATE POLICY users_select_policy ON users
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS users_update_own_policy ON users;
+CREATE POLICY users_update_own_policy ON users
+    FOR UPDATE USING (id = current_app_user_id())
+    WITH CHECK (id = current_app_user_id());
+
+-- Players may only edit profile columns. Balances, deposits, team volume, referrals,
+-- referral codes and rank are written by SECURITY DEFINER functions and the service role.
+-- Revoking the table privilege also drops any earlier column grants.
+REVOKE INSERT, UPDATE ON users FROM anon, authenticated;
+GRANT UPDATE (username, first_name, last_name, language_code, last_active, last_login_date)
+    ON users TO authenticated;
+
+-- 3. Game data: readable for leaderboards, writable only by the owner
+ALTER TABLE user_game_data ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS user_game_data_policy ON user_game_data;
+DROP POLICY IF EXISTS user_game_data_select_policy ON user_game_data;
+CREATE POLICY user_game_data_select_policy ON user_game_data
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS user_game_data_write_policy ON user_game_data;
+CREATE POLICY user_game_data_write_policy ON user_game_data
+    FOR INSERT WITH CHECK (user_id = current_app_user_id());
+
+DROP POLICY IF EXISTS user_game_data_update_policy ON user_game_data;
+CREATE POLICY user_game_data_update_policy ON user_game_data
+    FOR UPDATE USING (user_id = current_app_user_id())
+    WITH CHECK (user_id = current_app_user_id());
+
+-- 4. Private per-user tables: replace the app.current_user_id setting with the session claim
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'user_upgrades', 'user_achievements', 'user_tutorial_progress', 'mining_sessions',
+        'offline_rewards', 'daily_rewards', 'user_boosts', 'user_activity_logs'
+    ]
+    LOOP
+        IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = t) THEN
+            EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+            EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_policy', t);
+            EXECUTE format(
+                'CREATE POLICY %I ON %I FOR ALL USING (user_id = current_app_user_id()) WITH CHECK (user_id = current_app_user_id())',
+                t || '_policy', t
+            );
+            RAISE NOTICE 'Updated RLS policy for %', t;
+        END IF;
+    END LOOP;
+END $$;
+
+INSERT INTO schema_version (version, description)
+VALUES (2, 'Telegram session JWT row level security')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,193 @@
+-- =============================================
+-- TELEGRAM TASK VERIFICATION
+-- =============================================
+-- Tasks with a telegram_chat_id (e.g. "Join Telegram") are no longer taken on
+-- the player's word. request_task_verification() queues a check and moves the
+-- task to pending_review; the bot (src/bot) asks the Bot API whether the
+-- player is in the chat and settles it with resolve_task_verification():
+--   pending_review -> completed (member) / in_progress (not a member yet)
+-- The bot must be an administrator of channels it checks.
+-- Link and screenshot submissions are reviewed by moderators through bot
+-- commands, which call review_task_submission() from TASK_ENGINE.sql.
+-- Requires TASK_ENGINE.sql. Safe to run multiple times.
+
+-- 1. Which chat a task checks: @username or numeric chat id
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS telegram_chat_id TEXT;
+
+UPDATE tasks SET telegram_chat_id = '@DivineTaps'
+WHERE task_id = 'join_telegram' AND telegram_chat_id IS NULL;
+
+-- 2. Verification queue worked by the bot
+CREATE TABLE IF NOT EXISTS task_verifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    task_id TEXT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+    telegram_id BIGINT NOT NULL,
+    chat_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'verified', 'not_member', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    checked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One open check per player and task
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_verifications_one_pending
+    ON task_verifications(user_id, task_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_task_verifications_queue
+    ON task_verifications(created_at) WHERE status = 'pending';
+
+-- 3. Replaces confirm_task from TASK_ENGINE.sql: Telegram tasks are checked by the bot
+CREATE OR REPLACE FUNCTION confirm_task(p_task_id TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    state := refresh_user_task(caller_id, p_task_id);
+
+    IF jsonb_array_length(COALESCE(task.requirements, '[]'::jsonb)) > 0 OR task.submission_required THEN
+        RAISE EXCEPTION 'This task is verified automatically or by review';
+    END IF;
+
+    IF task.telegram_chat_id IS NOT NULL THEN
+        RAISE EXCEPTION 'This task is verified by the Telegram bot';
+    END IF;
+
+    IF state.status <> 'in_progress' THEN
+        PERFORM assert_task_startable(caller_id, task, state);
+    END IF;
+
+    UPDATE user_tasks
+    SET status = 'completed',
+        progress = goal,
+        started_at = COALESCE(started_at, NOW()),
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = state.id
+    RETURNING * INTO state;
+
+    RETURN state;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Player RPC: ask the bot to check membership
+CREATE OR REPLACE FUNCTION request_task_verification(p_task_id TEXT)
+RETURNS user_tasks AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    task tasks%ROWTYPE;
+    state user_tasks%ROWTYPE;
+    caller_telegram_id BIGINT;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO task FROM tasks WHERE task_id = p_task_id;
+    state := refresh_user_task(caller_id, p_task_id);
+
+    IF task.telegram_chat_id IS NULL THEN
+        RAISE EXCEPTION 'This task is not verified through Telegram';
+    END IF;
+
+    IF state.status = 'pending_review' THEN
+        RETURN state;
+    END IF;
+
+    IF state.status <> 'in_progress' THEN
+        PERFORM assert_task_startable(caller_id, task, state);
+    END IF;
+
+    SELECT telegram_id INTO caller_telegram_id FROM users WHERE id = caller_id;
+
+    INSERT INTO task_verifications (user_id, task_id, telegram_id, chat_id)
+    VALUES (caller_id, p_task_id, caller_telegram_id, task.telegram_chat_id)
+    ON CONFLICT (user_id, task_id) WHERE status = 'pending' DO NOTHING;
+
+    UPDATE user_tasks
+    SET status = 'pending_review',
+        started_at = COALESCE(started_at, NOW()),
+        updated_at = NOW()
+    WHERE id = state.id
+    RETURNING * INTO state;
+
+    RETURN state;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Bot RPC: record the Bot API answer. p_error means the lookup itself failed;
+-- the check is retried until p_max_attempts, then handed back to the player.
+CREATE OR REPLACE FUNCTION resolve_task_verification(
+    p_verification_id INTEGER,
+    p_is_member BOOLEAN,
+    p_error TEXT DEFAULT NULL,
+    p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS task_verifications AS $$
+DECLARE
+    verification task_verifications%ROWTYPE;
+BEGIN
+    SELECT * INTO verification FROM task_verifications WHERE id = p_verification_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown verification %', p_verification_id;
+    END IF;
+
+    IF verification.status <> 'pending' THEN
+        RETURN verification;
+    END IF;
+
+    UPDATE task_verifications
+    SET status = CASE
+            WHEN p_error IS NULL AND p_is_member THEN 'verified'
+            WHEN p_error IS NULL THEN 'not_member'
+            WHEN attempts + 1 >= p_max_attempts THEN 'failed'
+            ELSE 'pending'
+        END,
+        attempts = attempts + 1,
+        last_error = p_error,
+        checked_at = NOW()
+    WHERE id = p_verification_id
+    RETURNING * INTO verification;
+
+    IF verification.status = 'pending' THEN
+        RETURN verification;
+    END IF;
+
+    UPDATE user_tasks
+    SET status = CASE WHEN verification.status = 'verified' THEN 'completed' ELSE 'in_progress' END,
+        progress = CASE WHEN verification.status = 'verified' THEN goal ELSE progress END,
+        completed_at = CASE WHEN verification.status = 'verified' THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+    WHERE user_id = verification.user_id
+      AND task_id = verification.task_id
+      AND status = 'pending_review';
+
+    RETURN verification;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION resolve_task_verification(INTEGER, BOOLEAN, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_task_verification(INTEGER, BOOLEAN, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION request_task_verification(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_task(TEXT) TO authenticated;
+
+-- 6. RLS: players see their own checks; the bot uses the service role
+ALTER TABLE task_verifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_verifications_select_own_policy ON task_verifications;
+CREATE POLICY task_verifications_select_own_policy ON task_verifications
+    FOR SELECT USING (user_id = current_app_user_id());
+
+COMMENT ON TABLE task_verifications IS 'Telegram membership checks queued by request_task_verification and settled by the bot';
+
+INSERT INTO schema_version (version, description)
+VALUES (19, 'Telegram Bot API verification for chat tasks')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,307 @@
+-- =============================================
+-- TOKEN PURCHASES
+-- =============================================
+-- STK purchases paid in TON. The client creates a pending purchase with
+-- create_token_purchase() and sends the TON with the purchase memo as the
+-- transfer comment. The deposit watcher (src/cron/depositWatcher.ts) reads the
+-- deposit address's transactions, records each payment against its purchase
+-- and credits STK through confirm_token_purchase() once the payments add up to
+-- the quote; it mints with apply_stk_entry() (STK_LEDGER.sql). Clients can no
+-- longer write token_purchases or credit themselves.
+-- Requires TELEGRAM_AUTH_RLS.sql and STK_LEDGER.sql. Safe to run multiple times.
+
+-- 1. Offerings; prices are read from here rather than sent by the client
+CREATE TABLE IF NOT EXISTS token_offerings (
+    id INTEGER PRIMARY KEY,
+    tier_name TEXT NOT NULL,
+    price_per_token NUMERIC(18, 8) NOT NULL CHECK (price_per_token > 0),
+    min_purchase_usdt NUMERIC(18, 2) NOT NULL,
+    max_purchase_usdt NUMERIC(18, 2) NOT NULL,
+    total_tokens NUMERIC(24, 6) NOT NULL,
+    sold_amount NUMERIC(24, 6) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'upcoming' CHECK (status IN ('active', 'upcoming', 'soldOut'))
+);
+
+INSERT INTO token_offerings (id, tier_name, price_per_token, min_purchase_usdt, max_purchase_usdt, total_tokens, status) VALUES
+    (1, 'Private Sale Tier 1', 0.0025, 25, 5000, 10000000, 'active'),
+    (2, 'Private Sale Tier 2', 0.0055, 100, 1000, 25000000, 'upcoming')
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Purchases. user_id holds the paying wallet address (kept from the client-written table).
+CREATE TABLE IF NOT EXISTS token_purchases (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    offering_id INTEGER NOT NULL,
+    usdt_amount NUMERIC NOT NULL,
+    ton_amount NUMERIC NOT NULL,
+    tokens_purchased NUMERIC NOT NULL,
+    tx_hash TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'token_purchases' AND column_name = 'memo'
+    ) THEN
+        ALTER TABLE token_purchases ADD COLUMN app_user_id INTEGER REFERENCES users(id);
+        ALTER TABLE token_purchases ADD COLUMN memo TEXT UNIQUE;
+        ALTER TABLE token_purchases ADD COLUMN ton_amount_nano NUMERIC(30, 0);
+        ALTER TABLE token_purchases ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+        ALTER TABLE token_purchases ADD COLUMN received_nano NUMERIC(30, 0);
+        ALTER TABLE token_purchases ADD COLUMN sender_address TEXT;
+        ALTER TABLE token_purchases ADD COLUMN confirmed_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added deposit matching columns to token_purchases';
+    ELSE
+        RAISE NOTICE 'token_purchases deposit matching columns already exist';
+    END IF;
+END $$;
+
+ALTER TABLE token_purchases DROP CONSTRAINT IF EXISTS token_purchases_status_check;
+ALTER TABLE token_purchases ADD CONSTRAINT token_purchases_status_check
+    CHECK (status IN ('pending', 'confirmed', 'failed', 'expired'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_purchases_tx_hash ON token_purchases(tx_hash) WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_token_purchases_pending ON token_purchases(expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_token_purchases_app_user_id ON token_purchases(app_user_id, created_at DESC);
+
+-- 3. Last transaction the watcher processed, per deposit address
+CREATE TABLE IF NOT EXISTS deposit_watch_cursors (
+    address TEXT PRIMARY KEY,
+    last_lt NUMERIC(30, 0) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every transfer matched to a purchase by its memo. A top-up split over several
+-- transfers is credited once the 'received' ones cover the quote. 'late' payments
+-- arrived after the purchase was confirmed and 'failed' ones couldn't be
+-- processed; both, and 'received' payments on an expired purchase, need a refund.
+CREATE TABLE IF NOT EXISTS token_purchase_payments (
+    tx_hash TEXT PRIMARY KEY,
+    purchase_id TEXT REFERENCES token_purchases(id) NOT NULL,
+    amount_nano NUMERIC(30, 0) NOT NULL CHECK (amount_nano > 0),
+    sender_address TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('received', 'credited', 'late', 'failed')),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_purchase_payments_purchase ON token_purchase_payments(purchase_id, status);
+
+-- 4. Player RPC: price the purchase and hand out the memo to pay with
+CREATE OR REPLACE FUNCTION create_token_purchase(
+    p_offering_id INTEGER,
+    p_usdt_amount NUMERIC,
+    p_ton_amount NUMERIC,
+    p_wallet_address TEXT
+)
+RETURNS token_purchases AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    offering token_offerings%ROWTYPE;
+    purchase token_purchases%ROWTYPE;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO offering FROM token_offerings WHERE id = p_offering_id;
+    IF NOT FOUND OR offering.status <> 'active' THEN
+        RAISE EXCEPTION 'Offering % is not on sale', p_offering_id;
+    END IF;
+
+    IF p_usdt_amount < offering.min_purchase_usdt OR p_usdt_amount > offering.max_purchase_usdt THEN
+        RAISE EXCEPTION 'Purchase amount must be between % and % USDT', offering.min_purchase_usdt, offering.max_purchase_usdt;
+    END IF;
+
+    -- The TON quote is checked against the market price when the payment lands
+    IF p_ton_amount < 0.1 THEN
+        RAISE EXCEPTION 'Minimum purchase amount is too low';
+    END IF;
+
+    INSERT INTO token_purchases (
+        id, user_id, app_user_id, offering_id, usdt_amount, ton_amount, ton_amount_nano,
+        tokens_purchased, status, memo, expires_at
+    ) VALUES (
+        'purchase_' || floor(extract(epoch FROM clock_timestamp()) * 1000)::BIGINT || '_' || substr(md5(random()::TEXT), 1, 9),
+        p_wallet_address,
+        caller_id,
+        p_offering_id,
+        p_usdt_amount,
+        p_ton_amount,
+        ceil(p_ton_amount * 1000000000),
+        p_usdt_amount / offering.price_per_token,
+        'pending',
+        'stk-' || substr(md5(random()::TEXT || clock_timestamp()::TEXT), 1, 12),
+        NOW() + INTERVAL '30 minutes'
+    )
+    RETURNING * INTO purchase;
+
+    RETURN purchase;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Watcher RPCs. Record a matched transfer; returns its status and the total of
+-- the purchase's uncredited payments. A replayed transaction keeps its first status.
+CREATE OR REPLACE FUNCTION record_token_payment(
+    p_purchase_id TEXT,
+    p_tx_hash TEXT,
+    p_amount_nano NUMERIC,
+    p_sender_address TEXT
+)
+RETURNS TABLE (payment_status TEXT, total_received_nano NUMERIC) AS $$
+DECLARE
+    purchase token_purchases%ROWTYPE;
+BEGIN
+    SELECT * INTO purchase FROM token_purchases WHERE id = p_purchase_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown purchase %', p_purchase_id;
+    END IF;
+
+    INSERT INTO token_purchase_payments (tx_hash, purchase_id, amount_nano, sender_address, status)
+    VALUES (
+        p_tx_hash, p_purchase_id, p_amount_nano, p_sender_address,
+        CASE WHEN purchase.status = 'confirmed' THEN 'late' ELSE 'received' END
+    )
+    ON CONFLICT (tx_hash) DO NOTHING;
+
+    RETURN QUERY
+    SELECT
+        (SELECT p.status FROM token_purchase_payments p WHERE p.tx_hash = p_tx_hash),
+        (SELECT COALESCE(SUM(p.amount_nano), 0) FROM token_purchase_payments p
+         WHERE p.purchase_id = p_purchase_id AND p.status = 'received');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The received amount now comes from token_purchase_payments
+DROP FUNCTION IF EXISTS confirm_token_purchase(TEXT, TEXT, NUMERIC, TEXT);
+
+-- Confirm a purchase whose payments cover the quote and credit STK. Returns false if
+-- the purchase was already confirmed, so a replayed transaction credits nothing.
+CREATE OR REPLACE FUNCTION confirm_token_purchase(
+    p_purchase_id TEXT,
+    p_tx_hash TEXT,
+    p_sender_address TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    purchase token_purchases%ROWTYPE;
+    received NUMERIC;
+BEGIN
+    SELECT * INTO purchase FROM token_purchases WHERE id = p_purchase_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown purchase %', p_purchase_id;
+    END IF;
+
+    IF purchase.status = 'confirmed' THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Expired purchases are still honoured if the payment arrives late
+    IF purchase.status NOT IN ('pending', 'expired') THEN
+        RAISE EXCEPTION 'Purchase % is %', p_purchase_id, purchase.status;
+    END IF;
+
+    SELECT COALESCE(SUM(amount_nano), 0) INTO received
+    FROM token_purchase_payments
+    WHERE purchase_id = p_purchase_id AND status = 'received';
+
+    IF received < purchase.ton_amount_nano THEN
+        RAISE EXCEPTION 'Purchase % expects % nanoTON, got %', p_purchase_id, purchase.ton_amount_nano, received;
+    END IF;
+
+    UPDATE token_purchases
+    SET status = 'confirmed',
+        tx_hash = p_tx_hash,
+        received_nano = received,
+        sender_address = p_sender_address,
+        confirmed_at = NOW()
+    WHERE id = p_purchase_id;
+
+    UPDATE token_purchase_payments
+    SET status = 'credited'
+    WHERE purchase_id = p_purchase_id AND status = 'received';
+
+    PERFORM apply_stk_entry(
+        purchase.app_user_id, 'mint', 'purchase', purchase.tokens_purchased, 'token_purchase', NULL, 'token_purchase:' || purchase.id
+    );
+
+    UPDATE users SET last_sbt_claim = NOW() WHERE id = purchase.app_user_id;
+
+    UPDATE token_offerings
+    SET sold_amount = sold_amount + purchase.tokens_purchased
+    WHERE id = purchase.offering_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A transfer the watcher couldn't process. Recorded so the cursor can move past it;
+-- it needs a refund. Credited payments are never marked failed.
+CREATE OR REPLACE FUNCTION fail_token_payment(
+    p_purchase_id TEXT,
+    p_tx_hash TEXT,
+    p_amount_nano NUMERIC,
+    p_sender_address TEXT,
+    p_error TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO token_purchase_payments (tx_hash, purchase_id, amount_nano, sender_address, status, error)
+    VALUES (p_tx_hash, p_purchase_id, p_amount_nano, p_sender_address, 'failed', p_error)
+    ON CONFLICT (tx_hash) DO UPDATE
+    SET status = 'failed', error = EXCLUDED.error
+    WHERE token_purchase_payments.status <> 'credited';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION expire_token_purchases()
+RETURNS INTEGER AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    UPDATE token_purchases
+    SET status = 'expired'
+    WHERE status = 'pending' AND expires_at < NOW();
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+    RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. RLS: players read their own purchases (legacy rows by wallet address);
+-- all writes go through the functions above
+ALTER TABLE token_purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE token_offerings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deposit_watch_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE token_purchase_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS token_purchases_select_own_policy ON token_purchases;
+CREATE POLICY token_purchases_select_own_policy ON token_purchases
+    FOR SELECT USING (
+        app_user_id = current_app_user_id()
+        OR user_id IN (SELECT wallet_address FROM users WHERE id = current_app_user_id())
+    );
+
+DROP POLICY IF EXISTS token_offerings_select_policy ON token_offerings;
+CREATE POLICY token_offerings_select_policy ON token_offerings
+    FOR SELECT USING (true);
+
+GRANT EXECUTE ON FUNCTION create_token_purchase(INTEGER, NUMERIC, NUMERIC, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION record_token_payment(TEXT, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION confirm_token_purchase(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_token_payment(TEXT, TEXT, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_token_purchases() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_token_payment(TEXT, TEXT, NUMERIC, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION confirm_token_purchase(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_token_payment(TEXT, TEXT, NUMERIC, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_token_purchases() TO service_role;
+
+COMMENT ON TABLE token_purchase_payments IS 'Transfers matched to token purchases; late and failed ones need a refund';
+COMMENT ON TABLE token_purchases IS 'STK purchases paid in TON; confirmed only by the deposit watcher after the transfer is seen on-chain';
+
+INSERT INTO schema_version (version, description)
+VALUES (8, 'On-chain verified token purchases')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,154 @@
+-- =============================================
+-- UPGRADE DEFINITIONS
+-- =============================================
+-- Server copy of the upgrade catalog (src/game/catalog/definitions.ts). Designers
+-- publish a rebalance by inserting rows under a new catalog_version and marking
+-- that version active; clients load the active catalog on start and fall back to
+-- the bundled one if it is missing or fails validation.
+-- Purchases in economy_ledger are priced against the active catalog.
+-- Requires ECONOMY_LEDGER.sql. Safe to run multiple times.
+
+-- 1. Catalog versions. Only one is active at a time.
+CREATE TABLE IF NOT EXISTS upgrade_catalogs (
+    version INTEGER PRIMARY KEY,
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_upgrade_catalogs_active ON upgrade_catalogs(is_active) WHERE is_active;
+
+-- 2. One row per upgrade per catalog version. Display text lives in content
+-- (description, detailedDescription, benefits, tips, unlockReward).
+CREATE TABLE IF NOT EXISTS upgrade_definitions (
+    catalog_version INTEGER REFERENCES upgrade_catalogs(version) ON DELETE CASCADE NOT NULL,
+    id TEXT NOT NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    name TEXT NOT NULL,
+    effect TEXT NOT NULL,
+    base_cost NUMERIC(24, 6) NOT NULL CHECK (base_cost > 0),
+    cost_multiplier NUMERIC(10, 4) NOT NULL CHECK (cost_multiplier >= 1),
+    effect_value NUMERIC(24, 6) NOT NULL,
+    max_level INTEGER NOT NULL CHECK (max_level > 0),
+    category TEXT,
+    requires_upgrade TEXT,
+    requires_level INTEGER CHECK (requires_level > 0),
+    content JSONB NOT NULL DEFAULT '{}'::jsonb,
+    PRIMARY KEY (catalog_version, id),
+    CHECK ((requires_upgrade IS NULL) = (requires_level IS NULL))
+);
+
+CREATE OR REPLACE VIEW active_upgrade_definitions AS
+SELECT d.*
+FROM upgrade_definitions d
+JOIN upgrade_catalogs c ON c.version = d.catalog_version
+WHERE c.is_active;
+
+-- 3. Seed catalog v1 from the bundled definitions
+INSERT INTO upgrade_catalogs (version, is_active, notes)
+SELECT 1, TRUE, 'Initial catalog from src/game/catalog/definitions.ts'
+WHERE NOT EXISTS (SELECT 1 FROM upgrade_catalogs);
+
+INSERT INTO upgrade_definitions (
+    catalog_version, id, sort_order, name, effect, base_cost, cost_multiplier,
+    effect_value, max_level, category, requires_upgrade, requires_level, content
+) VALUES
+    (1, 'root-chakra', 10, '🌱 ROOT CHAKRA', '+0.5 wisdom/sec (Grounding)', 25, 1.12, 0.5, 20, 'chakra', NULL, NULL, '{"description":"Unlock your foundation - stability and security","detailedDescription":"This upgrade unlocks the ability to use cosmic upgrades, which are powerful and unique. As you progress through the tiers, you''ll gain access to more advanced features and bonuses. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+200% mining efficiency","+150% energy regeneration","Exclusive cosmic upgrades","Divine resonance bonus"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use cosmic upgrades"}'),
+    (1, 'earth-connection', 20, '🌍 EARTH CONNECTION', '+50 spiritual capacity', 75, 1.15, 50, 10, 'chakra', NULL, NULL, '{"description":"Deepen your connection to Mother Earth","detailedDescription":"This upgrade deepens your connection to Mother Earth, increasing your spiritual capacity and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+50% spiritual capacity","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use solar plexus upgrades"}'),
+    (1, 'sacral-chakra', 30, '🧘 SACRAL CHAKRA', '+1.0 wisdom/sec (Creativity)', 200, 1.18, 1, 15, 'chakra', 'root-chakra', 3, '{"description":"Awaken your creative energy and emotional flow","detailedDescription":"This upgrade awakens your creative energy and emotional flow, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+100% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use heart chakra upgrades"}'),
+    (1, 'flow-state', 40, '🌊 FLOW STATE', 'Auto-meditation when ready', 500000, 2, 1, 1, 'chakra', 'sacral-chakra', 5, '{"description":"Enter automatic meditation when conditions are perfect","detailedDescription":"This upgrade allows you to enter automatic meditation when your energy levels are high, providing a consistent boost to your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use energy mastery upgrades"}'),
+    (1, 'solar-plexus', 50, '💪 SOLAR PLEXUS', '+2.0 wisdom/sec (Willpower)', 750, 1.22, 2, 12, 'chakra', 'sacral-chakra', 3, '{"description":"Strengthen your personal power and confidence","detailedDescription":"This upgrade strengthens your personal power and confidence, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+200% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use air element upgrades"}'),
+    (1, 'inner-strength', 60, '⚡ INNER STRENGTH', '-10% energy cost', 50000, 1.5, -0.1, 8, 'chakra', 'solar-plexus', 3, '{"description":"Harness your inner power for greater efficiency","detailedDescription":"This upgrade harnesses your inner power, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["-10% energy cost","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use energy mastery upgrades"}'),
+    (1, 'heart-chakra', 70, '💚 HEART CHAKRA', '+5.0 wisdom/sec (Love)', 3000, 1.25, 5, 10, 'chakra', 'solar-plexus', 5, '{"description":"Open your heart to universal love and compassion","detailedDescription":"This upgrade opens your heart to universal love and compassion, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+500% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use cosmic consciousness upgrades"}'),
+    (1, 'compassion-resonance', 80, '💝 COMPASSION RESONANCE', '+50% boost effectiveness', 1000000, 2.5, 0.5, 5, 'chakra', 'heart-chakra', 5, '{"description":"Your love amplifies all spiritual practices","detailedDescription":"This upgrade amplifies the effectiveness of your boosts, increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+50% boost effectiveness","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use throat chakra upgrades"}'),
+    (1, 'throat-chakra', 90, '🗣️ THROAT CHAKRA', '+10.0 wisdom/sec (Truth)', 10000, 1.3, 10, 8, 'chakra', 'heart-chakra', 5, '{"description":"Speak your truth and manifest through vibration","detailedDescription":"This upgrade allows you to speak your truth and manifest through vibration, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+100% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use vibrational harmony upgrades"}'),
+    (1, 'vibrational-harmony', 100, '🎵 VIBRATIONAL HARMONY', '+2000 max energy', 75000, 1.6, 2000, 6, 'chakra', 'throat-chakra', 3, '{"description":"Your voice resonates with cosmic frequencies","detailedDescription":"This upgrade increases your max energy and your energy regeneration, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+2000 max energy","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use third eye upgrades"}'),
+    (1, 'third-eye', 110, '👁️ THIRD EYE', '+25.0 wisdom/sec (Insight)', 50000, 1.35, 25, 6, 'chakra', 'throat-chakra', 5, '{"description":"Open your inner eye to see beyond the veil","detailedDescription":"This upgrade opens your inner eye, increasing your intuition and insight, and boosting your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+25% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use psychic awareness upgrades"}'),
+    (1, 'psychic-awareness', 120, '🔮 PSYCHIC AWARENESS', '+1.0 energy/sec', 100000, 1.7, 1, 10, 'chakra', 'third-eye', 3, '{"description":"Your intuition guides your spiritual journey","detailedDescription":"This upgrade increases your wisdom and energy regeneration, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+100% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use crown chakra upgrades"}'),
+    (1, 'crown-chakra', 130, '👑 CROWN CHAKRA', '+100.0 wisdom/sec (Enlightenment)', 250000, 1.4, 100, 5, 'chakra', 'third-eye', 6, '{"description":"Connect to divine consciousness and universal wisdom","detailedDescription":"This upgrade connects you to divine consciousness and universal wisdom, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+5% offline bonus","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use cosmic consciousness upgrades"}'),
+    (1, 'cosmic-consciousness', 140, '🌟 COSMIC CONSCIOUSNESS', '+5% offline bonus', 150000, 1.8, 0.05, 3, 'chakra', NULL, NULL, '{"description":"Your consciousness transcends time and space","detailedDescription":"This upgrade transcends time and space, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+5% offline bonus","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use cosmic upgrades"}'),
+    (1, 'energy-mastery', 150, '🧘‍♀️ ENERGY MASTERY', '-30% energy cost', 5000000, 4, -0.3, 3, 'mastery', NULL, NULL, '{"description":"Master the flow of spiritual energy","detailedDescription":"This upgrade masters the flow of spiritual energy, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["-30% energy cost","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use energy mastery upgrades"}'),
+    (1, 'divine-resonance', 160, '✨ DIVINE RESONANCE', '+2.0 energy/sec', 3000000, 3.5, 2, 5, 'mastery', NULL, NULL, '{"description":"Resonate with the divine frequency","detailedDescription":"This upgrade resonates with the divine frequency, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+200% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use divine resonance upgrades"}'),
+    (1, 'transcendence', 170, '🚀 TRANSCENDENCE', '+5000 max energy', 2000000, 3, 5000, 1, 'mastery', NULL, NULL, '{"description":"Transcend physical limitations","detailedDescription":"This upgrade transcends physical limitations, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+5000 max energy","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use transcendence upgrades"}'),
+    (1, 'mindful-breathing', 180, '🫁 MINDFUL BREATHING', '+0.3 energy/sec', 150, 1.14, 0.3, 15, 'meditation', NULL, NULL, '{"description":"Master the art of conscious breathing","detailedDescription":"This upgrade masters the art of conscious breathing, increasing your energy regeneration and boosting your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+30% energy/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use mindful breathing upgrades"}'),
+    (1, 'zen-focus', 190, '🎯 ZEN FOCUS', '+1.5 wisdom/sec', 400, 1.16, 1.5, 10, 'meditation', NULL, NULL, '{"description":"Achieve perfect mental clarity","detailedDescription":"This upgrade improves your mental clarity, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+150% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use zen focus upgrades"}'),
+    (1, 'aura-purification', 200, '✨ AURA PURIFICATION', '-15% energy cost', 25000, 1.4, -0.15, 8, 'meditation', NULL, NULL, '{"description":"Purify your spiritual aura","detailedDescription":"This upgrade purifies your spiritual aura, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["-15% energy cost","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use aura purification upgrades"}'),
+    (1, 'kundalini-awakening', 210, '🐍 KUNDALINI AWAKENING', '+50.0 wisdom/sec', 1000000, 2, 50, 3, 'meditation', NULL, NULL, '{"description":"Awaken your serpent power","detailedDescription":"This upgrade awakens your serpent power, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+500% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use kundalini awakening upgrades"}'),
+    (1, 'quantum-leap', 220, '⚛️ QUANTUM LEAP', '+1000% wisdom/sec', 10000000, 5, 1000, 1, 'cosmic', NULL, NULL, '{"description":"Transcend quantum limitations","detailedDescription":"This upgrade transcends quantum limitations, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+1000% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use quantum leap upgrades"}'),
+    (1, 'time-dilation', 230, '⏰ TIME DILATION', '+10% offline bonus', 500000, 2.5, 0.1, 5, 'cosmic', NULL, NULL, '{"description":"Bend the fabric of time","detailedDescription":"This upgrade bends the fabric of time, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+10% offline bonus","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use time dilation upgrades"}'),
+    (1, 'space-bending', 240, '🌌 SPACE BENDING', '+3000 max energy', 750000, 2.2, 3000, 3, 'cosmic', NULL, NULL, '{"description":"Manipulate spatial dimensions","detailedDescription":"This upgrade manipulates spatial dimensions, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+3000 max energy","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use space bending upgrades"}'),
+    (1, 'reality-shift', 250, '🌀 REALITY SHIFT', '+500% all bonuses', 5000000, 10, 5, 1, 'cosmic', NULL, NULL, '{"description":"Shift to a higher reality","detailedDescription":"This upgrade shifts to a higher reality, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+500% all bonuses","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use reality shift upgrades"}'),
+    (1, 'fire-element', 260, '🔥 FIRE ELEMENT', '+3.0 wisdom/sec', 600, 1.2, 3, 12, 'elemental', NULL, NULL, '{"description":"Harness the power of fire","detailedDescription":"This upgrade harnesses the power of fire, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+300% wisdom/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use fire element upgrades"}'),
+    (1, 'water-element', 270, '💧 WATER ELEMENT', '+2.0 energy/sec', 800, 1.18, 2, 10, 'elemental', NULL, NULL, '{"description":"Flow like water","detailedDescription":"This upgrade allows you to flow like water, increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+200% energy/sec","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use water element upgrades"}'),
+    (1, 'earth-element', 280, '🌍 EARTH ELEMENT', '+1000 max energy', 1200, 1.25, 1000, 8, 'elemental', NULL, NULL, '{"description":"Stand firm like a mountain","detailedDescription":"This upgrade allows you to stand firm like a mountain, increasing your max energy. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["+1000 max energy","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use earth element upgrades"}'),
+    (1, 'air-element', 290, '💨 AIR ELEMENT', '-20% energy cost', 2000, 1.3, -0.2, 6, 'elemental', NULL, NULL, '{"description":"Move freely like the wind","detailedDescription":"This upgrade allows you to move freely like the wind, reducing energy costs. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.","benefits":["-20% energy cost","Increased energy regeneration","Enhanced auto-mining"],"tips":["Higher tiers provide better bonuses and upgrades","Focus on energy efficiency for longer sessions","Auto-mining improves with tier level"],"unlockReward":"Unlock the ability to use air element upgrades"}')
+ON CONFLICT (catalog_version, id) DO NOTHING;
+
+-- 4. Price upgrade purchases against the active catalog. Runs on insert so it
+-- covers both record_economy_entries and grant_economy_entry.
+CREATE OR REPLACE FUNCTION check_upgrade_purchase()
+RETURNS TRIGGER AS $$
+DECLARE
+    definition RECORD;
+    current_level INTEGER;
+    price NUMERIC;
+BEGIN
+    IF NEW.entry_type <> 'upgrade_purchase' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Without a published catalog nothing can be priced, so nothing can be bought
+    IF NOT EXISTS (SELECT 1 FROM upgrade_catalogs WHERE is_active) THEN
+        RAISE EXCEPTION 'No active upgrade catalog to price % against', NEW.reference;
+    END IF;
+
+    SELECT * INTO definition FROM active_upgrade_definitions WHERE id = NEW.reference;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown upgrade %', NEW.reference;
+    END IF;
+
+    -- Purchases already in the ledger; this row isn't inserted yet
+    current_level := get_upgrade_level(NEW.user_id, NEW.reference);
+
+    IF current_level >= definition.max_level THEN
+        RAISE EXCEPTION 'Upgrade % is already at max level %', NEW.reference, definition.max_level;
+    END IF;
+
+    IF definition.requires_upgrade IS NOT NULL
+       AND get_upgrade_level(NEW.user_id, definition.requires_upgrade) < definition.requires_level THEN
+        RAISE EXCEPTION 'Upgrade % requires % level %', NEW.reference, definition.requires_upgrade, definition.requires_level;
+    END IF;
+
+    -- Same formula as getUpgradeCost; one point of slack for floating point on the client
+    price := floor(definition.base_cost * power(definition.cost_multiplier, current_level));
+    IF abs(NEW.amount) + 1 < price THEN
+        RAISE EXCEPTION 'Upgrade % level % costs %, got %', NEW.reference, current_level + 1, price, abs(NEW.amount);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_upgrade_purchase ON economy_ledger;
+CREATE TRIGGER check_upgrade_purchase
+    BEFORE INSERT ON economy_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION check_upgrade_purchase();
+
+-- 5. RLS: everyone reads the catalog; changes are made with the service role
+ALTER TABLE upgrade_catalogs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upgrade_definitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS upgrade_catalogs_select_policy ON upgrade_catalogs;
+CREATE POLICY upgrade_catalogs_select_policy ON upgrade_catalogs
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS upgrade_definitions_select_policy ON upgrade_definitions;
+CREATE POLICY upgrade_definitions_select_policy ON upgrade_definitions
+    FOR SELECT USING (true);
+
+COMMENT ON TABLE upgrade_definitions IS 'Versioned upgrade catalog; saves store only upgrade id and level';
+
+INSERT INTO schema_version (version, description)
+VALUES (5, 'Versioned upgrade catalog')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,245 @@
+-- =============================================
+-- WALLET PROOF
+-- =============================================
+-- Players link a TON wallet by signing a TonConnect ton_proof over a nonce
+-- issued here. The wallet-proof edge function checks the signature and calls
+-- bind_proven_wallet(), which is the only way users.wallet_address,
+-- whitelisted_wallet and wallet_public_key can change. Changing to another
+-- wallet is allowed once per cooldown; every binding is kept in
+-- wallet_bindings and the edge function tells the player on Telegram.
+-- Withdrawals are only accepted to the proven wallet. Addresses saved before
+-- this migration stay in place with wallet_proven_at NULL until proven.
+-- Requires TELEGRAM_AUTH_RLS.sql and WITHDRAWALS.sql. Safe to run multiple times.
+
+-- 1. Proven wallet on the player
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name = 'wallet_proven_at'
+    ) THEN
+        ALTER TABLE users ADD COLUMN wallet_public_key TEXT;
+        ALTER TABLE users ADD COLUMN wallet_network TEXT;
+        ALTER TABLE users ADD COLUMN wallet_proven_at TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added proven wallet columns to users';
+    ELSE
+        RAISE NOTICE 'users proven wallet columns already exist';
+    END IF;
+END $$;
+
+-- A wallet can be proven by one player only
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_proven_wallet
+    ON users(wallet_address) WHERE wallet_proven_at IS NOT NULL;
+
+-- 2. Nonces signed into the proof; each is good for one binding
+CREATE TABLE IF NOT EXISTS wallet_proof_nonces (
+    nonce TEXT PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_proof_nonces_user ON wallet_proof_nonces(user_id, created_at DESC);
+
+-- 3. Every wallet a player has proven, newest last
+CREATE TABLE IF NOT EXISTS wallet_bindings (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    address TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    network TEXT NOT NULL,
+    proof_domain TEXT NOT NULL,
+    proof_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    previous_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_bindings_user ON wallet_bindings(user_id, created_at DESC);
+
+-- 4. Players may update their own row (TELEGRAM_AUTH_RLS.sql) but not its wallet
+CREATE OR REPLACE FUNCTION protect_wallet_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.wallet_address IS NOT NULL OR NEW.whitelisted_wallet IS NOT NULL
+           OR NEW.wallet_public_key IS NOT NULL OR NEW.wallet_proven_at IS NOT NULL THEN
+            RAISE EXCEPTION 'Wallets are linked with a TON Connect proof';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.wallet_address IS DISTINCT FROM OLD.wallet_address
+       OR NEW.whitelisted_wallet IS DISTINCT FROM OLD.whitelisted_wallet
+       OR NEW.wallet_public_key IS DISTINCT FROM OLD.wallet_public_key
+       OR NEW.wallet_network IS DISTINCT FROM OLD.wallet_network
+       OR NEW.wallet_proven_at IS DISTINCT FROM OLD.wallet_proven_at THEN
+        RAISE EXCEPTION 'Wallets are linked with a TON Connect proof';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_protect_wallet ON users;
+CREATE TRIGGER users_protect_wallet
+    BEFORE INSERT OR UPDATE ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_wallet_columns();
+
+-- 5. Nonce for the signed-in player's next proof
+CREATE OR REPLACE FUNCTION issue_wallet_proof_nonce()
+RETURNS TEXT AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    new_nonce TEXT := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    DELETE FROM wallet_proof_nonces
+    WHERE user_id = caller_id AND (used_at IS NOT NULL OR expires_at < NOW());
+
+    IF (SELECT COUNT(*) FROM wallet_proof_nonces WHERE user_id = caller_id) >= 5 THEN
+        RAISE EXCEPTION 'Too many pending wallet proofs, try again later';
+    END IF;
+
+    INSERT INTO wallet_proof_nonces (nonce, user_id, expires_at)
+    VALUES (new_nonce, caller_id, NOW() + INTERVAL '15 minutes');
+
+    RETURN new_nonce;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Store a proof the edge function has verified. Re-proving the current
+-- wallet only refreshes it; switching wallets waits out the cooldown.
+CREATE OR REPLACE FUNCTION bind_proven_wallet(
+    p_user_id INTEGER,
+    p_nonce TEXT,
+    p_address TEXT,
+    p_public_key TEXT,
+    p_network TEXT,
+    p_proof_domain TEXT,
+    p_proof_timestamp TIMESTAMP WITH TIME ZONE,
+    p_cooldown INTERVAL DEFAULT INTERVAL '7 days'
+)
+RETURNS TABLE (
+    proven_address TEXT,
+    replaced_address TEXT,
+    wallet_changed BOOLEAN,
+    proven_at TIMESTAMP WITH TIME ZONE,
+    rebind_available_at TIMESTAMP WITH TIME ZONE,
+    notify_telegram_id TEXT
+) AS $$
+DECLARE
+    player RECORD;
+    last_change TIMESTAMP WITH TIME ZONE;
+    is_change BOOLEAN;
+BEGIN
+    UPDATE wallet_proof_nonces
+    SET used_at = NOW()
+    WHERE nonce = p_nonce AND user_id = p_user_id AND used_at IS NULL AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet proof nonce is unknown, used or expired';
+    END IF;
+
+    SELECT u.id, u.telegram_id::TEXT AS tg_id, u.wallet_address AS current_address, u.wallet_proven_at AS current_proven_at
+    INTO player
+    FROM users u
+    WHERE u.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not found', p_user_id;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM users u
+        WHERE u.wallet_address = p_address AND u.wallet_proven_at IS NOT NULL AND u.id <> p_user_id
+    ) THEN
+        RAISE EXCEPTION 'This wallet is already linked to another account';
+    END IF;
+
+    is_change := player.current_proven_at IS NULL OR player.current_address IS DISTINCT FROM p_address;
+
+    SELECT MAX(b.created_at) INTO last_change
+    FROM wallet_bindings b
+    WHERE b.user_id = p_user_id AND b.previous_address IS DISTINCT FROM b.address;
+
+    IF is_change AND player.current_proven_at IS NOT NULL AND last_change > NOW() - p_cooldown THEN
+        RAISE EXCEPTION 'Wallet can be changed again after %', last_change + p_cooldown;
+    END IF;
+
+    INSERT INTO wallet_bindings (user_id, address, public_key, network, proof_domain, proof_timestamp, previous_address)
+    VALUES (
+        p_user_id, p_address, p_public_key, p_network, p_proof_domain, p_proof_timestamp,
+        CASE WHEN player.current_proven_at IS NOT NULL THEN player.current_address END
+    );
+
+    UPDATE users
+    SET wallet_address = p_address,
+        whitelisted_wallet = p_address,
+        wallet_public_key = p_public_key,
+        wallet_network = p_network,
+        wallet_proven_at = NOW()
+    WHERE id = p_user_id;
+
+    IF is_change THEN
+        last_change := NOW();
+    END IF;
+
+    RETURN QUERY SELECT
+        p_address,
+        CASE WHEN player.current_proven_at IS NOT NULL THEN player.current_address END,
+        is_change,
+        NOW(),
+        last_change + p_cooldown,
+        player.tg_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Withdrawals only go to the player's proven wallet
+CREATE OR REPLACE FUNCTION require_proven_withdrawal_wallet()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE id = NEW.user_id AND wallet_proven_at IS NOT NULL AND wallet_address = NEW.wallet_address
+    ) THEN
+        RAISE EXCEPTION 'Withdrawals can only be sent to your proven wallet; link it with TON Connect first';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS withdrawals_require_proven_wallet ON withdrawals;
+CREATE TRIGGER withdrawals_require_proven_wallet
+    BEFORE INSERT ON withdrawals
+    FOR EACH ROW
+    EXECUTE FUNCTION require_proven_withdrawal_wallet();
+
+-- 8. RLS: players see their own bindings; nonces are only touched through the functions
+ALTER TABLE wallet_proof_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_bindings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS wallet_bindings_select_policy ON wallet_bindings;
+CREATE POLICY wallet_bindings_select_policy ON wallet_bindings
+    FOR SELECT USING (user_id = current_app_user_id());
+
+REVOKE ALL ON FUNCTION issue_wallet_proof_nonce() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION issue_wallet_proof_nonce() TO authenticated;
+REVOKE ALL ON FUNCTION bind_proven_wallet(INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION bind_proven_wallet(INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, INTERVAL) TO service_role;
+
+COMMENT ON TABLE wallet_bindings IS 'Wallets proven with TonConnect ton_proof, one row per binding';
+
+INSERT INTO schema_version (version, description)
+VALUES (16, 'TonConnect ton_proof wallet binding')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,334 @@
+-- =============================================
+-- WITHDRAWALS
+-- =============================================
+-- Withdrawal requests are taken atomically by request_withdrawal(): the balance
+-- is locked and debited, the fee split is applied and the payout is queued as a
+-- pending withdrawals row. The payout worker (src/cron/payoutWorker.ts) claims
+-- queued rows, sends the TON and moves them through
+-- pending -> processing -> completed / failed, retrying with backoff.
+-- The STK part of the fee is minted through apply_stk_entry() (STK_LEDGER.sql)
+-- once the payout completes.
+-- Requires TELEGRAM_AUTH_RLS.sql and STK_LEDGER.sql. Safe to run multiple times.
+
+-- 1. Balances used by withdrawals
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name = 'available_balance'
+    ) THEN
+        ALTER TABLE users ADD COLUMN available_balance NUMERIC DEFAULT 0 CHECK (available_balance >= 0);
+        RAISE NOTICE 'Added available_balance to users';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name = 'reinvestment_balance'
+    ) THEN
+        ALTER TABLE users ADD COLUMN reinvestment_balance NUMERIC DEFAULT 0;
+        RAISE NOTICE 'Added reinvestment_balance to users';
+    END IF;
+END $$;
+
+INSERT INTO global_pool (amount)
+SELECT 0 WHERE NOT EXISTS (SELECT 1 FROM global_pool);
+
+-- 2. Payout queue columns
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'withdrawals' AND column_name = 'next_attempt_at'
+    ) THEN
+        ALTER TABLE withdrawals ADD COLUMN wallet_address TEXT;
+        ALTER TABLE withdrawals ADD COLUMN glp_amount NUMERIC DEFAULT 0;
+        ALTER TABLE withdrawals ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE withdrawals ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 5;
+        ALTER TABLE withdrawals ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+        ALTER TABLE withdrawals ADD COLUMN last_error TEXT;
+        -- Wallet seqno and expiry of the last signed transfer, to tell a lost send from a landed one
+        ALTER TABLE withdrawals ADD COLUMN payout_seqno INTEGER;
+        ALTER TABLE withdrawals ADD COLUMN payout_valid_until TIMESTAMP WITH TIME ZONE;
+        RAISE NOTICE 'Added payout queue columns to withdrawals';
+    ELSE
+        RAISE NOTICE 'withdrawals payout queue columns already exist';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_withdrawals_queue ON withdrawals(next_attempt_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_withdrawals_user_id ON withdrawals(user_id, created_at DESC);
+
+-- Raw form (workchain:hex) of a raw or user-friendly TON address. User-friendly
+-- ones must carry a valid CRC16 and mainnet flags; anything else raises.
+CREATE OR REPLACE FUNCTION parse_ton_address(p_address TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    address TEXT := trim(COALESCE(p_address, ''));
+    bytes BYTEA;
+    crc INTEGER := 0;
+    workchain INTEGER;
+BEGIN
+    IF address ~ '^-?[0-9]{1,3}:[0-9a-fA-F]{64}$' THEN
+        workchain := split_part(address, ':', 1)::INTEGER;
+        IF workchain NOT IN (0, -1) THEN
+            RAISE EXCEPTION 'Invalid TON address %', p_address;
+        END IF;
+        RETURN workchain || ':' || lower(split_part(address, ':', 2));
+    END IF;
+
+    IF address !~ '^[A-Za-z0-9+/_-]{48}$' THEN
+        RAISE EXCEPTION 'Invalid TON address %', p_address;
+    END IF;
+
+    bytes := decode(translate(address, '-_', '+/'), 'base64');
+
+    FOR i IN 0..33 LOOP
+        crc := crc # (get_byte(bytes, i) << 8);
+        FOR j IN 1..8 LOOP
+            crc := CASE WHEN (crc & 32768) <> 0 THEN ((crc << 1) # 4129) & 65535 ELSE (crc << 1) & 65535 END;
+        END LOOP;
+    END LOOP;
+
+    IF crc <> ((get_byte(bytes, 34) << 8) | get_byte(bytes, 35)) THEN
+        RAISE EXCEPTION 'Invalid TON address % (checksum)', p_address;
+    END IF;
+
+    IF get_byte(bytes, 0) NOT IN (17, 81) THEN
+        RAISE EXCEPTION 'Invalid TON address % (testnet or unknown flags)', p_address;
+    END IF;
+
+    workchain := get_byte(bytes, 1);
+    IF workchain = 255 THEN
+        workchain := -1;
+    ELSIF workchain <> 0 THEN
+        RAISE EXCEPTION 'Invalid TON address %', p_address;
+    END IF;
+
+    RETURN workchain || ':' || encode(substring(bytes FROM 3 FOR 32), 'hex');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3. Player RPC. Same split as WITHDRAWAL_FEES in src/lib/supabaseClient.ts.
+CREATE OR REPLACE FUNCTION request_withdrawal(p_amount NUMERIC, p_wallet_address TEXT)
+RETURNS withdrawals AS $$
+DECLARE
+    caller_id INTEGER := current_app_user_id();
+    balance NUMERIC;
+    glp_amount NUMERIC := round(p_amount * 0.10, 9);
+    stk_amount NUMERIC;
+    reinvest_amount NUMERIC := round(p_amount * 0.20, 9);
+    payout_address TEXT;
+    withdrawal withdrawals%ROWTYPE;
+BEGIN
+    IF caller_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < 1 THEN
+        RAISE EXCEPTION 'Minimum withdrawal is 1 TON';
+    END IF;
+
+    BEGIN
+        payout_address := parse_ton_address(p_wallet_address);
+    EXCEPTION WHEN raise_exception THEN
+        RAISE EXCEPTION 'Please enter a valid withdrawal address';
+    END;
+
+    -- Row lock: concurrent requests wait and see the debited balance
+    SELECT available_balance INTO balance FROM users WHERE id = caller_id FOR UPDATE;
+
+    IF COALESCE(balance, 0) < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    -- Past the distribution cap the STK share is paid out to the wallet instead
+    stk_amount := LEAST(round(p_amount * 0.10, 9), stk_remaining_cap());
+
+    UPDATE users
+    SET available_balance = available_balance - p_amount,
+        reinvestment_balance = COALESCE(reinvestment_balance, 0) + reinvest_amount
+    WHERE id = caller_id;
+
+    UPDATE global_pool SET amount = amount + glp_amount
+    WHERE id = (SELECT MIN(id) FROM global_pool);
+
+    INSERT INTO withdrawals (
+        user_id, amount, wallet_amount, redeposit_amount, sbt_amount, glp_amount,
+        wallet_address, status, next_attempt_at
+    ) VALUES (
+        caller_id, p_amount, p_amount - glp_amount - stk_amount - reinvest_amount, reinvest_amount, stk_amount, glp_amount,
+        payout_address, 'pending', NOW()
+    )
+    RETURNING * INTO withdrawal;
+
+    RETURN withdrawal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Worker RPCs (service role)
+
+-- Due payouts, plus processing ones left unconfirmed: the signed transfer expired, or
+-- the worker stopped before sending. Every claim counts as an attempt.
+CREATE OR REPLACE FUNCTION claim_withdrawal_payouts(p_limit INTEGER DEFAULT 5)
+RETURNS SETOF withdrawals AS $$
+    UPDATE withdrawals
+    SET status = 'processing',
+        attempts = attempts + 1,
+        next_attempt_at = NOW()
+    WHERE id IN (
+        SELECT id FROM withdrawals
+        WHERE (status = 'pending' AND next_attempt_at <= NOW())
+           OR (status = 'processing'
+               AND COALESCE(payout_valid_until, next_attempt_at + INTERVAL '15 minutes') < NOW() - INTERVAL '1 minute')
+        ORDER BY next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Recorded before the transfer is sent
+CREATE OR REPLACE FUNCTION record_payout_attempt(p_withdrawal_id INTEGER, p_seqno INTEGER, p_valid_until TIMESTAMP WITH TIME ZONE)
+RETURNS VOID AS $$
+    UPDATE withdrawals
+    SET payout_seqno = p_seqno,
+        payout_valid_until = p_valid_until
+    WHERE id = p_withdrawal_id AND status = 'processing';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Mints the fee STK. If the cap ran out since the request, the share it no
+-- longer covers goes back to the available balance.
+CREATE OR REPLACE FUNCTION complete_withdrawal(p_withdrawal_id INTEGER, p_tx_hash TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    withdrawal withdrawals%ROWTYPE;
+    fee_stk NUMERIC;
+BEGIN
+    SELECT * INTO withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+    IF NOT FOUND OR withdrawal.status = 'completed' THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE withdrawals
+    SET status = 'completed',
+        transaction_hash = p_tx_hash,
+        processed_at = NOW(),
+        last_error = NULL
+    WHERE id = p_withdrawal_id;
+
+    UPDATE users SET total_withdrawn = COALESCE(total_withdrawn, 0) + withdrawal.amount
+    WHERE id = withdrawal.user_id;
+
+    -- Withdrawals requested before the mint moved here already hold their fee STK
+    IF COALESCE(withdrawal.sbt_amount, 0) > 0 AND NOT EXISTS (
+        SELECT 1 FROM sbt_history WHERE idempotency_key = 'withdrawal_fee:' || withdrawal.id
+    ) THEN
+        fee_stk := LEAST(withdrawal.sbt_amount, stk_remaining_cap());
+
+        IF fee_stk > 0 THEN
+            PERFORM apply_stk_entry(
+                withdrawal.user_id, 'mint', 'stake', fee_stk, 'withdrawal_fee', NULL, 'withdrawal_fee:' || withdrawal.id
+            );
+        END IF;
+
+        IF fee_stk < withdrawal.sbt_amount THEN
+            UPDATE withdrawals SET sbt_amount = fee_stk WHERE id = p_withdrawal_id;
+            UPDATE users SET available_balance = available_balance + (withdrawal.sbt_amount - fee_stk)
+            WHERE id = withdrawal.user_id;
+        END IF;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back to pending with quadratic backoff, or failed once attempts run out. A failed
+-- withdrawal refunds the amount and reverses the fee split; reinvestment the player
+-- has already used stays spent and comes out of the refund. While the last signed
+-- transfer can still land the row stays processing; claim_withdrawal_payouts hands it
+-- back to the worker after payout_valid_until.
+CREATE OR REPLACE FUNCTION fail_withdrawal_attempt(p_withdrawal_id INTEGER, p_error TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    withdrawal withdrawals%ROWTYPE;
+    reinvest_reclaim NUMERIC;
+    refund_stk NUMERIC;
+BEGIN
+    SELECT * INTO withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+    IF NOT FOUND OR withdrawal.status <> 'processing' THEN
+        RETURN withdrawal.status;
+    END IF;
+
+    IF withdrawal.payout_valid_until > NOW() THEN
+        UPDATE withdrawals SET last_error = p_error WHERE id = p_withdrawal_id;
+        RETURN 'processing';
+    END IF;
+
+    IF withdrawal.attempts < withdrawal.max_attempts THEN
+        UPDATE withdrawals
+        SET status = 'pending',
+            last_error = p_error,
+            next_attempt_at = NOW() + make_interval(mins => withdrawal.attempts * withdrawal.attempts)
+        WHERE id = p_withdrawal_id;
+        RETURN 'pending';
+    END IF;
+
+    UPDATE withdrawals
+    SET status = 'failed',
+        last_error = p_error,
+        processed_at = NOW()
+    WHERE id = p_withdrawal_id;
+
+    SELECT LEAST(COALESCE(withdrawal.redeposit_amount, 0), GREATEST(COALESCE(reinvestment_balance, 0), 0))
+    INTO reinvest_reclaim
+    FROM users
+    WHERE id = withdrawal.user_id
+    FOR UPDATE;
+
+    UPDATE users
+    SET available_balance = available_balance + withdrawal.amount - (COALESCE(withdrawal.redeposit_amount, 0) - reinvest_reclaim),
+        reinvestment_balance = COALESCE(reinvestment_balance, 0) - reinvest_reclaim
+    WHERE id = withdrawal.user_id;
+
+    UPDATE global_pool SET amount = amount - COALESCE(withdrawal.glp_amount, 0)
+    WHERE id = (SELECT MIN(id) FROM global_pool);
+
+    -- The fee STK is only minted on completion; withdrawals requested before that
+    -- minted it up front, so take back whatever of it the player hasn't spent
+    refund_stk := 0;
+    IF EXISTS (SELECT 1 FROM sbt_history WHERE idempotency_key = 'withdrawal_fee:' || withdrawal.id) THEN
+        refund_stk := LEAST(COALESCE(withdrawal.sbt_amount, 0), get_stk_balance(withdrawal.user_id));
+    END IF;
+    IF refund_stk > 0 THEN
+        PERFORM apply_stk_entry(
+            withdrawal.user_id, 'burn', 'stake', refund_stk, 'withdrawal_fee_refund', NULL, 'withdrawal_fee_refund:' || withdrawal.id
+        );
+    END IF;
+
+    RETURN 'failed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. RLS: players see their own withdrawals; every write goes through the functions above
+ALTER TABLE withdrawals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS withdrawals_select_own_policy ON withdrawals;
+CREATE POLICY withdrawals_select_own_policy ON withdrawals
+    FOR SELECT USING (user_id = current_app_user_id());
+
+GRANT EXECUTE ON FUNCTION request_withdrawal(NUMERIC, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION parse_ton_address(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION claim_withdrawal_payouts(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_payout_attempt(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION complete_withdrawal(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_withdrawal_attempt(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_withdrawal_payouts(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION record_payout_attempt(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_withdrawal(INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_withdrawal_attempt(INTEGER, TEXT) TO service_role;
+
+COMMENT ON TABLE withdrawals IS 'Withdrawal requests and their payout queue state; written only by request_withdrawal and the payout worker';
+
+INSERT INTO schema_version (version, description)
+VALUES (9, 'Atomic withdrawal requests and payout queue')
+ON CONFLICT (version) DO NOTHING;
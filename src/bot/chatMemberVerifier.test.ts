@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Telegraf } from 'telegraf';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isChatMember, runChatMemberVerifier } from './chatMemberVerifier';
+import { startMockBotApi } from './mockBotApi';
+import type { MockBotApi } from './mockBotApi';
+
+const CHAT = '@divine_channel';
+const PLAYER = 501;
+
+let botApi: MockBotApi;
+let bot: Telegraf;
+
+beforeEach(async () => {
+  botApi = await startMockBotApi();
+  bot = new Telegraf('123:test-token', { telegram: { apiRoot: botApi.apiRoot } });
+});
+
+afterEach(() => botApi.close());
+
+// One pending verification; resolve_task_verification settles it the way
+// TELEGRAM_TASK_VERIFICATION.sql does on the first attempt
+const createVerificationDb = () => {
+  const resolved: Record<string, unknown>[] = [];
+  const rows = [{ id: 1, task_id: 'join-channel', telegram_id: String(PLAYER), chat_id: CHAT }];
+
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    limit: async () => ({ data: rows, error: null })
+  };
+
+  const db = {
+    from: () => query,
+    rpc: async (_name: string, args: Record<string, unknown>) => {
+      resolved.push(args);
+      const status = args.p_error ? 'pending' : args.p_is_member ? 'verified' : 'not_member';
+      return { data: { status }, error: null };
+    }
+  } as unknown as SupabaseClient;
+
+  return { db, resolved };
+};
+
+describe('isChatMember', () => {
+  it('accepts members and rejects players who left or were kicked', async () => {
+    botApi.setChatMember(CHAT, 1, 'member');
+    botApi.setChatMember(CHAT, 2, 'left');
+    botApi.setChatMember(CHAT, 3, 'kicked');
+    botApi.setChatMember(CHAT, 4, 'administrator');
+
+    expect(await isChatMember(bot.telegram, CHAT, 1)).toBe(true);
+    expect(await isChatMember(bot.telegram, CHAT, 2)).toBe(false);
+    expect(await isChatMember(bot.telegram, CHAT, 3)).toBe(false);
+    expect(await isChatMember(bot.telegram, CHAT, 4)).toBe(true);
+    expect(botApi.calls.filter(call => call.method === 'getChatMember')[0].params).toMatchObject({
+      chat_id: CHAT,
+      user_id: 1
+    });
+  });
+
+  it('treats a user the chat has never seen as not a member', async () => {
+    expect(await isChatMember(bot.telegram, CHAT, 99)).toBe(false);
+  });
+});
+
+describe('runChatMemberVerifier', () => {
+  it('verifies a member and tells the player', async () => {
+    botApi.setChatMember(CHAT, PLAYER, 'member');
+    const { db, resolved } = createVerificationDb();
+
+    const summary = await runChatMemberVerifier(bot.telegram, db);
+
+    expect(summary).toEqual({ checked: 1, verified: 1, notMember: 0, retrying: 0 });
+    expect(resolved[0]).toEqual({ p_verification_id: 1, p_is_member: true, p_error: null });
+    expect(botApi.getSentMessages()).toEqual([{ chatId: PLAYER, text: expect.stringContaining('Membership confirmed') }]);
+  });
+
+  it('rejects a player who left the chat', async () => {
+    botApi.setChatMember(CHAT, PLAYER, 'left');
+    const { db, resolved } = createVerificationDb();
+
+    const summary = await runChatMemberVerifier(bot.telegram, db);
+
+    expect(summary).toMatchObject({ checked: 1, notMember: 1 });
+    expect(resolved[0]).toMatchObject({ p_is_member: false, p_error: null });
+    expect(botApi.getSentMessages()[0].text).toContain(`could not find you in ${CHAT}`);
+  });
+});
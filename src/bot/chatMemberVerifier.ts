@@ -0,0 +1,108 @@
+import { TelegramError } from 'telegraf';
+import type { Telegram } from 'telegraf';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const BATCH_SIZE = 20;
+
+// Statuses getChatMember returns for someone who is in the chat
+const MEMBER_STATUSES = ['creator', 'administrator', 'member'];
+
+export type ChatMemberApi = Pick<Telegram, 'getChatMember' | 'sendMessage'>;
+
+export interface VerifierSummary {
+  checked: number;
+  verified: number;
+  notMember: number;
+  retrying: number;
+}
+
+interface PendingVerification {
+  id: number;
+  task_id: string;
+  telegram_id: number | string;
+  chat_id: string;
+}
+
+interface ResolvedVerification {
+  status: 'pending' | 'verified' | 'not_member' | 'failed';
+}
+
+// A user the chat has never seen comes back as a 400, not as status "left"
+const isUnknownMemberError = (error: unknown) =>
+  error instanceof TelegramError &&
+  error.code === 400 &&
+  /user not found|participant_id_invalid|member not found/i.test(error.description);
+
+export const isChatMember = async (api: ChatMemberApi, chatId: string, telegramId: number): Promise<boolean> => {
+  try {
+    const member = await api.getChatMember(chatId, telegramId);
+    if (member.status === 'restricted') return member.is_member;
+    return MEMBER_STATUSES.includes(member.status);
+  } catch (error) {
+    if (isUnknownMemberError(error)) return false;
+    throw error;
+  }
+};
+
+const notifyPlayer = async (api: ChatMemberApi, telegramId: number, text: string) => {
+  try {
+    await api.sendMessage(telegramId, text);
+  } catch {
+    // Players who never started the bot can't be messaged; the app shows the result anyway
+  }
+};
+
+/**
+ * Settles queued task_verifications (TELEGRAM_TASK_VERIFICATION.sql). Lookup
+ * failures leave the check pending for the next run until it runs out of attempts.
+ */
+export const runChatMemberVerifier = async (api: ChatMemberApi, db: SupabaseClient): Promise<VerifierSummary> => {
+  const summary: VerifierSummary = { checked: 0, verified: 0, notMember: 0, retrying: 0 };
+
+  const { data, error } = await db
+    .from('task_verifications')
+    .select('id, task_id, telegram_id, chat_id')
+    .eq('status', 'pending')
+    .order('created_at')
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const verification of (data || []) as PendingVerification[]) {
+    const telegramId = Number(verification.telegram_id);
+    let isMember = false;
+    let lookupError: string | null = null;
+
+    try {
+      isMember = await isChatMember(api, verification.chat_id, telegramId);
+    } catch (lookupFailure) {
+      lookupError = lookupFailure instanceof Error ? lookupFailure.message : String(lookupFailure);
+    }
+
+    const { data: resolved, error: resolveError } = await db.rpc('resolve_task_verification', {
+      p_verification_id: verification.id,
+      p_is_member: isMember,
+      p_error: lookupError
+    });
+
+    if (resolveError) {
+      console.error(`Error resolving task verification ${verification.id}:`, resolveError);
+      continue;
+    }
+
+    summary.checked++;
+    const { status } = resolved as ResolvedVerification;
+
+    if (status === 'verified') {
+      summary.verified++;
+      await notifyPlayer(api, telegramId, '✅ Membership confirmed! Open the Task Center to claim your reward.');
+    } else if (status === 'not_member') {
+      summary.notMember++;
+      await notifyPlayer(api, telegramId, `❌ We could not find you in ${verification.chat_id}. Join it, then tap Verify again.`);
+    } else if (status === 'pending') {
+      summary.retrying++;
+    }
+  }
+
+  return summary;
+};
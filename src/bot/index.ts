@@ -0,0 +1,79 @@
+/**
+ * Task bot: verifies Telegram chat tasks and runs submission review.
+ *
+ *   npx tsx src/bot/index.ts
+ *
+ * Needs TELEGRAM_BOT_TOKEN, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ * Users with a moderator or admin role get the /pending, /approve, /reject
+ * and /revise commands and a message for each new submission.
+ * TELEGRAM_API_ROOT points the bot at another Bot API server, e.g. the local
+ * stand-in in mockBotApi.ts, instead of https://api.telegram.org.
+ */
+import { Telegraf } from 'telegraf';
+import { createClient } from '@supabase/supabase-js';
+import { runChatMemberVerifier } from './chatMemberVerifier';
+import { announceNewSubmissions, registerModerationCommands } from './moderation';
+
+const POLL_INTERVAL_MS = 5000;
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+};
+
+const main = async () => {
+  const db = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+    auth: { persistSession: false }
+  });
+  const bot = new Telegraf(requireEnv('TELEGRAM_BOT_TOKEN'), {
+    telegram: process.env.TELEGRAM_API_ROOT ? { apiRoot: process.env.TELEGRAM_API_ROOT } : undefined
+  });
+
+  registerModerationCommands(bot, db);
+
+  // Submissions already waiting at startup are listed by /pending, not announced
+  const { data: latest } = await db
+    .from('task_submissions')
+    .select('id')
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  let announcedUpTo: number = latest?.id ?? 0;
+
+  // One pass at a time; a slow Bot API must not stack up overlapping runs
+  let polling = false;
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const summary = await runChatMemberVerifier(bot.telegram, db);
+      if (summary.checked > 0) {
+        console.log('Task verifications:', summary);
+      }
+      announcedUpTo = await announceNewSubmissions(bot.telegram, db, announcedUpTo);
+    } catch (error) {
+      console.error('Error polling task queue:', error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const interval = setInterval(poll, POLL_INTERVAL_MS);
+  const stop = (signal: string) => {
+    clearInterval(interval);
+    bot.stop(signal);
+  };
+  process.once('SIGINT', () => stop('SIGINT'));
+  process.once('SIGTERM', () => stop('SIGTERM'));
+
+  console.log('Task bot started');
+  await bot.launch();
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
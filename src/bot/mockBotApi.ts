@@ -0,0 +1,102 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type ChatMemberStatus = 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+
+export interface BotApiCall {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+export interface MockBotApi {
+  // Pass as telegram.apiRoot (or TELEGRAM_API_ROOT) instead of https://api.telegram.org
+  apiRoot: string;
+  calls: BotApiCall[];
+  setChatMember: (chatId: string, userId: number, status: ChatMemberStatus) => void;
+  getSentMessages: () => { chatId: number; text: string }[];
+  close: () => Promise<void>;
+}
+
+interface BotApiResponse {
+  ok: boolean;
+  result?: unknown;
+  error_code?: number;
+  description?: string;
+}
+
+const BOT_USER = { id: 1, is_bot: true, first_name: 'Task Bot', username: 'task_bot' };
+
+/**
+ * Local stand-in for the Bot API endpoints the task bot uses: getMe, getChatMember
+ * and sendMessage. Memberships are set per chat and user; anyone else is unknown to
+ * the chat, which Telegram reports as a 400. Every call is recorded.
+ */
+export const startMockBotApi = async (): Promise<MockBotApi> => {
+  const calls: BotApiCall[] = [];
+  const members = new Map<string, ChatMemberStatus>();
+  let lastMessageId = 0;
+
+  const handle = (method: string, params: Record<string, unknown>): BotApiResponse => {
+    switch (method) {
+      case 'getMe':
+        return { ok: true, result: BOT_USER };
+
+      case 'getChatMember': {
+        const status = members.get(`${params.chat_id}:${params.user_id}`);
+        if (!status) {
+          return { ok: false, error_code: 400, description: 'Bad Request: user not found' };
+        }
+        const user = { id: Number(params.user_id), is_bot: false, first_name: 'Player' };
+        return { ok: true, result: status === 'restricted' ? { status, user, is_member: true } : { status, user } };
+      }
+
+      case 'sendMessage':
+        return {
+          ok: true,
+          result: {
+            message_id: ++lastMessageId,
+            date: Math.floor(Date.now() / 1000),
+            chat: { id: Number(params.chat_id), type: 'private' },
+            text: params.text
+          }
+        };
+
+      default:
+        return { ok: false, error_code: 404, description: 'Not Found: method not found' };
+    }
+  };
+
+  // Requests arrive as POST /bot<token>/<method> with a JSON body
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const method = request.url?.split('/').pop() ?? '';
+      const params = body ? JSON.parse(body) : {};
+      calls.push({ method, params });
+
+      const result = handle(method, params);
+      response.writeHead(result.ok ? 200 : result.error_code ?? 500, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(result));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    apiRoot: `http://127.0.0.1:${port}`,
+    calls,
+    setChatMember: (chatId, userId, status) => members.set(`${chatId}:${userId}`, status),
+    getSentMessages: () => calls
+      .filter(call => call.method === 'sendMessage')
+      .map(call => ({ chatId: Number(call.params.chat_id), text: String(call.params.text) })),
+    close: () => new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      // Telegraf keeps its connection alive between calls
+      server.closeAllConnections();
+    })
+  };
+};
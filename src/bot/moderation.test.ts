@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Telegraf } from 'telegraf';
+import type { Update } from 'telegraf/types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseReviewPayload, registerModerationCommands } from './moderation';
+import { startMockBotApi } from './mockBotApi';
+import type { MockBotApi } from './mockBotApi';
+
+const MODERATOR = { id: 10, telegram_id: 900, role: 'moderator' };
+const PLAYER = { id: 20, telegram_id: 501, role: 'user' };
+
+type Row = Record<string, unknown>;
+
+// users for the role checks, and review_task_submission settling submission #12
+const createModerationDb = () => {
+  const users: Row[] = [MODERATOR, PLAYER];
+  const reviews: Row[] = [];
+
+  const db = {
+    from: () => {
+      let rows = users;
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter(row => row[column] === value);
+          return query;
+        },
+        in: (column: string, values: unknown[]) => {
+          rows = rows.filter(row => values.includes(row[column]));
+          return query;
+        },
+        maybeSingle: async () => ({ data: rows[0] ?? null, error: null })
+      };
+      return query;
+    },
+    rpc: async (_name: string, args: Row) => {
+      if (args.p_submission_id !== 12) {
+        return { data: null, error: { message: 'Submission not found' } };
+      }
+      reviews.push(args);
+      return { data: { id: 12, user_id: PLAYER.id, task_id: 'share-post' }, error: null };
+    }
+  } as unknown as SupabaseClient;
+
+  return { db, reviews };
+};
+
+let botApi: MockBotApi;
+let bot: Telegraf;
+let reviews: Row[];
+let updateId = 0;
+
+beforeEach(async () => {
+  botApi = await startMockBotApi();
+  bot = new Telegraf('123:test-token', { telegram: { apiRoot: botApi.apiRoot } });
+
+  const moderationDb = createModerationDb();
+  reviews = moderationDb.reviews;
+  registerModerationCommands(bot, moderationDb.db);
+});
+
+afterEach(() => botApi.close());
+
+// A command sent to the bot in a private chat
+const sendCommand = (fromId: number, text: string) => {
+  updateId++;
+  const update: Update = {
+    update_id: updateId,
+    message: {
+      message_id: updateId,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: fromId, type: 'private', first_name: 'Tester' },
+      from: { id: fromId, is_bot: false, first_name: 'Tester' },
+      text,
+      entities: [{ type: 'bot_command', offset: 0, length: text.split(' ')[0].length }]
+    }
+  };
+  return bot.handleUpdate(update);
+};
+
+describe('parseReviewPayload', () => {
+  it('reads the submission id and optional notes', () => {
+    expect(parseReviewPayload('12 looks good')).toEqual({ id: 12, notes: 'looks good' });
+    expect(parseReviewPayload('#12')).toEqual({ id: 12, notes: null });
+    expect(parseReviewPayload('twelve')).toBeNull();
+  });
+});
+
+describe('moderation commands', () => {
+  it('approves a submission and tells the player and the moderator', async () => {
+    await sendCommand(MODERATOR.telegram_id, '/approve 12 great post');
+
+    expect(reviews).toEqual([{ p_submission_id: 12, p_decision: 'approved', p_reviewer_id: MODERATOR.id, p_notes: 'great post' }]);
+    expect(botApi.getSentMessages()).toEqual([
+      { chatId: PLAYER.telegram_id, text: expect.stringMatching(/"share-post" was approved[\s\S]*great post$/) },
+      { chatId: MODERATOR.telegram_id, text: '#12 share-post: approved' }
+    ]);
+  });
+
+  it('rejects a submission', async () => {
+    await sendCommand(MODERATOR.telegram_id, '/reject 12');
+
+    expect(reviews).toEqual([{ p_submission_id: 12, p_decision: 'rejected', p_reviewer_id: MODERATOR.id, p_notes: null }]);
+    expect(botApi.getSentMessages()).toEqual([
+      { chatId: PLAYER.telegram_id, text: '❌ Your submission for "share-post" was rejected.' },
+      { chatId: MODERATOR.telegram_id, text: '#12 share-post: rejected' }
+    ]);
+  });
+
+  it('reports a review that fails', async () => {
+    await sendCommand(MODERATOR.telegram_id, '/approve 404');
+
+    expect(reviews).toHaveLength(0);
+    expect(botApi.getSentMessages()).toEqual([
+      { chatId: MODERATOR.telegram_id, text: 'Could not review #404: Submission not found' }
+    ]);
+  });
+
+  it('ignores commands from players without a staff role', async () => {
+    await sendCommand(PLAYER.telegram_id, '/approve 12');
+
+    expect(reviews).toHaveLength(0);
+    expect(botApi.getSentMessages()).toHaveLength(0);
+  });
+});
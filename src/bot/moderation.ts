@@ -0,0 +1,189 @@
+import type { Context, Telegraf, Telegram } from 'telegraf';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const PENDING_PAGE_SIZE = 10;
+
+export type ReviewDecision = 'approved' | 'rejected' | 'needs_revision';
+
+interface SubmissionRow {
+  id: number;
+  user_id: number;
+  task_id: string;
+  submission_type: string;
+  submission_data: string;
+  telegram_username: string;
+  created_at: string;
+}
+
+const DECISION_COMMANDS: Record<string, ReviewDecision> = {
+  approve: 'approved',
+  reject: 'rejected',
+  revise: 'needs_revision'
+};
+
+const PLAYER_MESSAGES: Record<ReviewDecision, string> = {
+  approved: '✅ Your submission for "{task}" was approved and your reward has been paid!',
+  rejected: '❌ Your submission for "{task}" was rejected.',
+  needs_revision: '✏️ Your submission for "{task}" needs changes. Open the Task Center to submit again.'
+};
+
+const formatSubmission = (submission: SubmissionRow) =>
+  `#${submission.id} ${submission.task_id} by @${submission.telegram_username}\n` +
+  `${submission.submission_type}: ${submission.submission_data}`;
+
+// "/approve 12 looks good" -> { id: 12, notes: 'looks good' }
+export const parseReviewPayload = (payload: string): { id: number; notes: string | null } | null => {
+  const match = payload.trim().match(/^#?(\d+)(?:\s+([\s\S]+))?$/);
+  if (!match) return null;
+  return { id: Number(match[1]), notes: match[2]?.trim() || null };
+};
+
+// Staff are users with a moderator or admin role (MODERATION_CONSOLE.sql); returns their user id
+export const getModeratorId = async (db: SupabaseClient, telegramId: number): Promise<number | null> => {
+  const { data, error } = await db
+    .from('users')
+    .select('id')
+    .eq('telegram_id', telegramId)
+    .in('role', ['moderator', 'admin'])
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+};
+
+const getModeratorTelegramIds = async (db: SupabaseClient): Promise<number[]> => {
+  const { data, error } = await db
+    .from('users')
+    .select('telegram_id')
+    .in('role', ['moderator', 'admin']);
+
+  if (error) throw error;
+  return (data || []).map(row => Number(row.telegram_id));
+};
+
+const getPendingSubmissions = async (db: SupabaseClient, afterId = 0): Promise<SubmissionRow[]> => {
+  const { data, error } = await db
+    .from('task_submissions')
+    .select('id, user_id, task_id, submission_type, submission_data, telegram_username, created_at')
+    .eq('status', 'pending')
+    .gt('id', afterId)
+    .order('id')
+    .limit(PENDING_PAGE_SIZE);
+
+  if (error) throw error;
+  return (data || []) as SubmissionRow[];
+};
+
+/**
+ * Settles a submission through review_task_submission, which pays approved
+ * rewards and records the decision, then tells the player.
+ */
+export const reviewSubmission = async (
+  api: Pick<Telegram, 'sendMessage'>,
+  db: SupabaseClient,
+  submissionId: number,
+  decision: ReviewDecision,
+  reviewerId: number,
+  notes: string | null
+): Promise<SubmissionRow> => {
+  const { data, error } = await db.rpc('review_task_submission', {
+    p_submission_id: submissionId,
+    p_decision: decision,
+    p_reviewer_id: reviewerId,
+    p_notes: notes
+  });
+
+  if (error) throw error;
+  const submission = data as SubmissionRow;
+
+  const { data: player } = await db
+    .from('users')
+    .select('telegram_id')
+    .eq('id', submission.user_id)
+    .maybeSingle();
+
+  if (player?.telegram_id) {
+    const message = PLAYER_MESSAGES[decision].replace('{task}', submission.task_id);
+    try {
+      await api.sendMessage(Number(player.telegram_id), notes ? `${message}\n\n${notes}` : message);
+    } catch {
+      // The review stands even if the player never started the bot
+    }
+  }
+
+  return submission;
+};
+
+/**
+ * Posts submissions newer than afterId to every moderator; returns the new
+ * cursor so each one is announced once per bot process.
+ */
+export const announceNewSubmissions = async (
+  api: Pick<Telegram, 'sendMessage'>,
+  db: SupabaseClient,
+  afterId: number
+): Promise<number> => {
+  const submissions = await getPendingSubmissions(db, afterId);
+  if (submissions.length === 0) return afterId;
+
+  for (const moderatorId of await getModeratorTelegramIds(db)) {
+    for (const submission of submissions) {
+      try {
+        await api.sendMessage(moderatorId, `📥 New submission\n${formatSubmission(submission)}\n\n/approve ${submission.id}  /reject ${submission.id}`);
+      } catch (error) {
+        console.error(`Error notifying moderator ${moderatorId}:`, error);
+      }
+    }
+  }
+
+  return submissions[submissions.length - 1].id;
+};
+
+// /pending, /approve <id> [notes], /reject <id> [notes], /revise <id> [notes]
+// Anyone without a staff role gets no answer
+export const registerModerationCommands = <C extends Context>(bot: Telegraf<C>, db: SupabaseClient) => {
+  const findModerator = async (ctx: Context) => {
+    if (!ctx.from) return null;
+    try {
+      return await getModeratorId(db, ctx.from.id);
+    } catch (error) {
+      console.error('Error checking moderator role:', error);
+      return null;
+    }
+  };
+
+  bot.command('pending', async (ctx) => {
+    if (!(await findModerator(ctx))) return;
+
+    try {
+      const submissions = await getPendingSubmissions(db);
+      await ctx.reply(submissions.length > 0
+        ? submissions.map(formatSubmission).join('\n\n')
+        : 'No submissions waiting for review.');
+    } catch (error) {
+      console.error('Error loading pending submissions:', error);
+      await ctx.reply('Could not load pending submissions.');
+    }
+  });
+
+  for (const [command, decision] of Object.entries(DECISION_COMMANDS)) {
+    bot.command(command, async (ctx) => {
+      const moderatorId = await findModerator(ctx);
+      if (!moderatorId) return;
+
+      const parsed = parseReviewPayload(ctx.payload);
+      if (!parsed) {
+        await ctx.reply(`Usage: /${command} <submission id> [notes]`);
+        return;
+      }
+
+      try {
+        const submission = await reviewSubmission(ctx.telegram, db, parsed.id, decision, moderatorId, parsed.notes);
+        await ctx.reply(`#${submission.id} ${submission.task_id}: ${decision.replace('_', ' ')}`);
+      } catch (error) {
+        console.error(`Error reviewing submission ${parsed.id}:`, error);
+        await ctx.reply(`Could not review #${parsed.id}: ${(error as { message?: string }).message || 'unknown error'}`);
+      }
+    });
+  }
+};
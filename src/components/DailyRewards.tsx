@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useGameContext } from '@/contexts/GameContext';
+import { useGameStore } from '@/hooks/useGameStore';
 import { useNotificationSystem } from './NotificationSystem';
 import { useAuth } from '@/hooks/useAuth';
 import './DailyRewards.css';
@@ -931,7 +932,8 @@ const ACHIEVEMENTS: Achievement[] = [
 
 
 export const DailyRewards: React.FC = () => {
-  const { addPoints, addGems, } = useGameContext();
+  const { addPoints } = useGameContext();
+  const addGems = useGameStore(state => state.addGems);
   const { showAchievementNotification } = useNotificationSystem();
   const { user } = useAuth();
   
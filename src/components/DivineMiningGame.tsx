@@ -1,64 +1,60 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useGameContext } from '@/contexts/GameContext';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { selectBoosts, selectGems, useGameStore } from '@/hooks/useGameStore';
+import type { ReferralResult } from '@/hooks/useGameStore';
 import { useNotificationSystem } from './NotificationSystem';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/lib/supabaseClient';
 import { migrateToUserSpecificKeys, validateUserDataIsolation, checkForDataLeakage, clearUserData } from '@/utils/userDataIsolation';
-
-interface Upgrade {
-  id: string;
-  name: string;
-  level: number;
-  effect: string;
-  baseCost: number;
-  costMultiplier: number;
-  effectValue: number;
-  category?: 'chakra' | 'mastery' | 'meditation' | 'cosmic' | 'elemental';
-  description?: string;
-  requires?: {
-    upgrade: string;
-    level: number;
-  };
-  // New educational fields
-  detailedDescription?: string;
-  benefits?: string[];
-  tips?: string[];
-  unlockProgress?: number; // 0-100 percentage
-  maxLevel: number; // Maximum level for 100% unlock
-  unlockReward?: string; // Special reward at 100%
-}
-
-interface GameState {
-  divinePoints: number;
-  pointsPerSecond: number;
-  totalEarned24h: number;
-  totalEarned7d: number;
-  upgradesPurchased: number;
-  minersActive: number;
-  isMining: boolean;
-  lastSaveTime: number;
-  sessionStartTime: number;
-  totalPointsEarned: number;
-  lastDailyReset: string;
-  lastWeeklyReset: string;
-  version: string;
-  highScore: number;
-  allTimeHighScore: number;
-  currentEnergy: number;
-  maxEnergy: number;
-  lastEnergyRegen: number;
-  offlineEfficiencyBonus: number; // New: Bonus for offline mining
-  lastOfflineTime: number; // New: Track last offline time
-  unclaimedOfflineRewards: number; // New: Track unclaimed offline rewards
-  lastOfflineRewardTime: number; // New: Track when offline rewards were last calculated
-  
-  // Add missing properties
-  miningLevel: number;
-  miningCombo: number;
-  miningStreak: number;
-  miningExperience: number;
-  miningExperienceToNext: number;
-}
+import {
+  GAME_VERSION,
+  MINING_TICK_MS,
+  applyOffline,
+  applyUpgradeEffect,
+  ascend,
+  calculateOfflineEnergyRegen,
+  calculateOfflineProgress,
+  canAutoStartMining,
+  createInitialState,
+  deriveUpgradeStats,
+  getAscensionPreview,
+  getBoostMultiplier,
+  getEnergyEfficiencyBonus as calculateEnergyEfficiencyBonus,
+  getEnergyRegenerationRate as calculateEnergyRegenerationRate,
+  getEnhancedMiningRate as calculateEnhancedMiningRate,
+  getUpgradeCost,
+  getUpgradeEfficiency,
+  isUpgradeAvailable as isUpgradeUnlocked,
+  isUpgradeMaxed,
+  mine,
+  purchase as evaluateUpgradePurchase,
+  regenerateEnergy,
+  toggleMining as toggleMiningState
+} from '@/game/engine';
+import type { GameState, Upgrade } from '@/game/engine';
+import { DEFAULT_UPGRADE_CATALOG, getCatalogUpgrades } from '@/game/catalog';
+import type { UpgradeCatalog } from '@/game/catalog';
+import {
+  SAVE_SCHEMA_VERSION,
+  createBalanceLedger,
+  createSave,
+  getLedgerBalance,
+  getSaveGameState,
+  loadSave,
+  mergeLedgers,
+  mergeSaves,
+  reconcileLedger,
+  reconcileSaveBalance,
+  reconcileUpgrades,
+  recordBalanceChange,
+  serializeSave,
+  toSavedUpgrades
+} from '@/game/save';
+import type { BalanceLedger, SaveData, SavedAchievement } from '@/game/save';
+import { createEconomyEntry, createPointsSyncQueue, economyLedger } from '@/lib/economyLedger';
+import type { PointsSyncQueue } from '@/lib/economyLedger';
+import { upgradeCatalog } from '@/lib/upgradeCatalog';
+import { ascensionService } from '@/lib/ascension';
+import { useSpecialEvents } from '@/hooks/useSpecialEvents';
 
 interface Achievement {
   id: string;
@@ -114,7 +110,6 @@ interface TutorialState {
 //   toggleIcon?: string;
 // }
 
-const GAME_VERSION = '1.1.0'; // Updated version
 // All keys will be made user-specific using getUserSpecificKey()
 const SAVE_KEY = 'divineMiningGame';
 const BACKUP_KEY = 'divineMiningGame_backup';
@@ -124,9 +119,22 @@ const SESSION_KEY = 'divineMiningSession';
 const TUTORIAL_KEY = 'divineMiningTutorial';
 const ACHIEVEMENTS_KEY = 'divineMiningAchievements';
 const UPGRADES_KEY = 'divineMiningUpgrades';
+const PRESTIGE_MULTIPLIER_KEY = 'divineMiningPrestigeMultiplier';
 const HIGH_SCORE_KEY = 'divineMiningHighScore';
-const OFFLINE_EFFICIENCY_CAP = 14; // 14 days max offline earnings
-const OFFLINE_EFFICIENCY_BONUS = 0.1; // 10% bonus per day offline (max 140%)
+const ECONOMY_QUEUE_KEY = 'divineMiningEconomyQueue';
+// Device-wide rather than user-specific: identifies this browser in the save's balance ledger
+const DEVICE_ID_KEY = 'divineMiningDeviceId';
+
+const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
 
 // Add getCurrentTier function with enhanced information
 const getCurrentTier = (level: number) => {
@@ -205,13 +213,22 @@ const getCurrentTier = (level: number) => {
 
 
 export const DivineMiningGame: React.FC = () => {
-  const { setPoints, activeBoosts, gems } = useGameContext();
+  const setPoints = useGameStore(state => state.setPoints);
+  const setStoreUpgrades = useGameStore(state => state.setUpgrades);
+  const recordUpgradePurchase = useGameStore(state => state.recordUpgradePurchase);
+  const resetGameStore = useGameStore(state => state.reset);
+  const itemBoosts = useGameStore(selectBoosts);
+  const gems = useGameStore(selectGems);
+  const { eventBoosts } = useSpecialEvents();
+  // Live-ops events apply through the same boost list as purchased boosts
+  const activeBoosts = useMemo(() => [...itemBoosts, ...eventBoosts], [itemBoosts, eventBoosts]);
   const { user } = useAuth();
   const {
     // showAchievementNotification,
     // showMilestoneNotification,
     showUpgradeNotification,
     showSystemNotification,
+    showPrestigeNotification,
     // showOfflineRewardsNotification,
   } = useNotificationSystem();
   
@@ -239,6 +256,8 @@ export const DivineMiningGame: React.FC = () => {
   // Add reset confirmation state
   const [showResetConfirmation, setShowResetConfirmation] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
+  const [showAscensionConfirmation, setShowAscensionConfirmation] = useState(false);
+  const [isAscending, setIsAscending] = useState(false);
   const [showResetButton, setShowResetButton] = useState(false);
   
   // Add tier info modal state
@@ -254,6 +273,8 @@ export const DivineMiningGame: React.FC = () => {
   const [purchasingUpgrade, setPurchasingUpgrade] = useState<string | null>(null);
 
   const miningIntervalRef = useRef<NodeJS.Timeout>();
+  // Balance ledger of the last loaded or saved state; null until the initial load finishes
+  const balanceLedgerRef = useRef<BalanceLedger | null>(null);
 
   // Helper function to get user-specific keys with complete isolation
   const getUserSpecificKey = useCallback((baseKey: string): string => {
@@ -264,6 +285,16 @@ export const DivineMiningGame: React.FC = () => {
     return `${baseKey}_${user.telegram_id}`;
   }, [user?.telegram_id]);
 
+  // Economy ledger entries waiting for the next Supabase sync
+  const economyQueueRef = useRef<{ key: string; queue: PointsSyncQueue } | null>(null);
+  const getEconomyQueue = useCallback((): PointsSyncQueue => {
+    const key = getUserSpecificKey(ECONOMY_QUEUE_KEY);
+    if (economyQueueRef.current?.key !== key) {
+      economyQueueRef.current = { key, queue: createPointsSyncQueue(key) };
+    }
+    return economyQueueRef.current.queue;
+  }, [getUserSpecificKey]);
+
   // Add reset functionality with comprehensive clearing
   const resetUserData = useCallback(async () => {
     if (!user?.telegram_id) {
@@ -539,35 +570,7 @@ export const DivineMiningGame: React.FC = () => {
       
       // Step 7: Reset game state to initial values
       console.log('Step 7: Resetting game state...');
-      const initialState: GameState = {
-        divinePoints: 100,
-        pointsPerSecond: 1.0,
-        totalEarned24h: 0,
-        totalEarned7d: 0,
-        upgradesPurchased: 0,
-        minersActive: 1,
-        isMining: false,
-        lastSaveTime: Date.now(),
-        sessionStartTime: Date.now(),
-        totalPointsEarned: 0,
-        lastDailyReset: new Date().toDateString(),
-        lastWeeklyReset: new Date().toDateString(),
-        version: GAME_VERSION,
-        highScore: 100,
-        allTimeHighScore: 100,
-        currentEnergy: 1000,
-        maxEnergy: 1000,
-        lastEnergyRegen: Date.now(),
-        offlineEfficiencyBonus: 0,
-        lastOfflineTime: Date.now(),
-        unclaimedOfflineRewards: 0,
-        lastOfflineRewardTime: Date.now(),
-        miningLevel: 1,
-        miningCombo: 1.0,
-        miningStreak: 0,
-        miningExperience: 0,
-        miningExperienceToNext: 1000
-      };
+      const initialState = createInitialState();
       
       // Reset upgrades to initial state
       const initialUpgrades = getInitialUpgrades();
@@ -577,6 +580,8 @@ export const DivineMiningGame: React.FC = () => {
       
       // Update all state
       setGameState(initialState);
+      balanceLedgerRef.current = createBalanceLedger(initialState.divinePoints);
+      getEconomyQueue().setBaseline(initialState.divinePoints);
       setUpgrades(initialUpgrades);
       setAchievements(initialAchievements);
       setHasLoadedSavedData(false);
@@ -618,7 +623,7 @@ export const DivineMiningGame: React.FC = () => {
       localStorage.setItem(userTotalEarnedKey, '0');
       localStorage.setItem(userHighScoreKey, '100');
       localStorage.setItem(userAchievementsKey, JSON.stringify(initialAchievements));
-      localStorage.setItem(userUpgradesKey, JSON.stringify(initialUpgrades));
+      localStorage.setItem(userUpgradesKey, JSON.stringify(toSavedUpgrades(initialUpgrades)));
       localStorage.setItem(userTutorialKey, JSON.stringify(resetTutorialState));
       
       // Save session data
@@ -631,20 +636,15 @@ export const DivineMiningGame: React.FC = () => {
       };
       localStorage.setItem(userSessionKey, JSON.stringify(sessionData));
       
-      // Reset GameContext data (shared context)
-      setPoints(100);
+      // Reset the shared game store (points, gems, boosts, upgrades)
+      resetGameStore();
       
-      // Reset additional GameContext data
-      const userGemsKey = `divineMiningGems_${telegramId}`;
-      const userBoostsKey = `divineMiningBoosts_${telegramId}`;
+      // Reset additional per-user data
       const userStreakKey = `divineMiningStreak_${telegramId}`;
       const userReferralKey = `divineMiningReferralData_${telegramId}`;
       const userTasksKey = `divineMiningCompletedTasks_${telegramId}`;
       const userPrestigeKey = `divineMiningPrestigeMultiplier_${telegramId}`;
       
-      // Save initial values for GameContext
-      localStorage.setItem(userGemsKey, '10'); // Default gems
-      localStorage.setItem(userBoostsKey, '[]'); // Empty boosts array
       localStorage.setItem(userStreakKey, JSON.stringify({
         current: 0,
         max: 0,
@@ -772,7 +772,7 @@ export const DivineMiningGame: React.FC = () => {
       setIsResetting(false);
       setShowResetConfirmation(false);
     }
-  }, [user?.telegram_id, showSystemNotification, setPoints, getUserSpecificKey]);
+  }, [user?.telegram_id, showSystemNotification, resetGameStore, getUserSpecificKey, getEconomyQueue]);
 
   // const migrateLocalToSupabase = useCallback(() => {
   //   setIsSavingToDatabase(true);
@@ -969,35 +969,7 @@ export const DivineMiningGame: React.FC = () => {
       
       if (resetFlag || resetParam) {
         console.log('🔄 Reset detected in getInitialState, returning fresh state');
-        return {
-          divinePoints: 100,
-          pointsPerSecond: 1.0,
-          totalEarned24h: 0,
-          totalEarned7d: 0,
-          upgradesPurchased: 0,
-          minersActive: 1,
-          isMining: false,
-          lastSaveTime: Date.now(),
-          sessionStartTime: Date.now(),
-          totalPointsEarned: 0,
-          lastDailyReset: new Date().toDateString(),
-          lastWeeklyReset: new Date().toDateString(),
-          version: GAME_VERSION,
-          highScore: 100,
-          allTimeHighScore: 100,
-          currentEnergy: 1000,
-          maxEnergy: 1000,
-          lastEnergyRegen: Date.now(),
-          offlineEfficiencyBonus: 0,
-          lastOfflineTime: Date.now(),
-          unclaimedOfflineRewards: 0,
-          lastOfflineRewardTime: Date.now(),
-          miningLevel: 1,
-          miningCombo: 1.0,
-          miningStreak: 0,
-          miningExperience: 0,
-          miningExperienceToNext: 1000
-        };
+        return createInitialState();
       }
     }
     
@@ -1032,13 +1004,13 @@ export const DivineMiningGame: React.FC = () => {
       }
     }
     
-    // Load prestige multiplier (user-specific)
-    const userPrestigeKey = getUserSpecificKey('divineMiningPrestigeMultiplier');
+    // Ascension multiplier cached alongside the save (user-specific)
+    const userPrestigeKey = getUserSpecificKey(PRESTIGE_MULTIPLIER_KEY);
     const prestigeMultiplier = parseFloat(localStorage.getItem(userPrestigeKey) || '1.0');
     
     const defaultState: GameState = {
       divinePoints: Math.max(100, savedDivinePoints),
-      pointsPerSecond: 1.0 * prestigeMultiplier,
+      pointsPerSecond: 1.0,
       totalEarned24h: 0,
       totalEarned7d: 0,
       upgradesPurchased: 0,
@@ -1063,7 +1035,9 @@ export const DivineMiningGame: React.FC = () => {
       miningCombo: 1.0,
       miningStreak: 0,
       miningExperience: 0,
-      miningExperienceToNext: 1000
+      miningExperienceToNext: 1000,
+      ascensionMultiplier: prestigeMultiplier > 1 ? prestigeMultiplier : 1,
+      ascensionCount: 0
     };
 
     try {
@@ -1089,48 +1063,17 @@ export const DivineMiningGame: React.FC = () => {
           });
           
           // Calculate offline earnings (if mining was active and reasonable time passed)
-          let offlineEarnings = 0;
-          let offlineEnergyRegen = 0;
-          let offlineEfficiencyBonus = 0;
-          let unclaimedRewards = 0;
+          const offline = applyOffline(parsed, upgrades, timeDiff);
+          const offlineEnergyRegen = offline.energyRegen;
+          const unclaimedRewards = offline.state.unclaimedOfflineRewards || 0;
           
-          if (parsed.isMining && timeDiff > 0 && timeDiff < OFFLINE_EFFICIENCY_CAP * 24 * 60 * 60 * 1000) { // Max 14 days
-            // Calculate base offline earnings
-            const baseOfflineEarnings = parsed.pointsPerSecond * (timeDiff / 1000);
-            
-            // Calculate offline efficiency bonus (10% per day, max 140%)
-            const daysOffline = Math.min(timeDiff / (24 * 60 * 60 * 1000), OFFLINE_EFFICIENCY_CAP);
-            offlineEfficiencyBonus = Math.min(daysOffline * OFFLINE_EFFICIENCY_BONUS, 1.4);
-            
-            // Apply efficiency bonus to offline earnings
-            offlineEarnings = baseOfflineEarnings * (1 + offlineEfficiencyBonus);
-            
-            // Calculate energy regeneration during offline time
-            const energyRegenUpgrades = upgrades.filter(u => u.id === 'energy-regen');
-            const energyBurstUpgrades = upgrades.filter(u => u.id === 'energy-burst');
-            const regenBonus = energyRegenUpgrades.reduce((sum, u) => sum + (u.effectValue * u.level), 0);
-            const burstBonus = energyBurstUpgrades.reduce((sum, u) => sum + (u.effectValue * u.level), 0);
-            const baseRegen = 0.3; // Reduced base regen for better balance
-            const totalRegen = baseRegen + regenBonus + burstBonus;
-            offlineEnergyRegen = totalRegen * (timeDiff / 1000);
-            
-            // Add to unclaimed rewards instead of immediately adding to points
-            unclaimedRewards = parsed.unclaimedOfflineRewards || 0;
-            unclaimedRewards += offlineEarnings;
-            
-            console.log(`Offline earnings: ${offlineEarnings.toFixed(2)} points (${baseOfflineEarnings.toFixed(2)} base + ${(offlineEfficiencyBonus * 100).toFixed(1)}% bonus) over ${Math.floor(timeDiff / 1000 / 60)} minutes`);
+          if (offline.offlineEarnings > 0) {
+            console.log(`Offline earnings: ${offline.offlineEarnings.toFixed(2)} points (+${(offline.efficiencyBonus * 100).toFixed(1)}% bonus) over ${Math.floor(timeDiff / 1000 / 60)} minutes`);
             console.log(`Offline energy regen: ${offlineEnergyRegen.toFixed(2)} energy`);
             console.log(`Total unclaimed rewards: ${unclaimedRewards.toFixed(2)} points`);
             
-            // Set mining resumed flag
-            // setMiningResumed(true);
-            
             // Show offline rewards notification
-            if (offlineEarnings > 0) {
-              // const bonusText = offlineEfficiencyBonus > 0 ? ` (+${(offlineEfficiencyBonus * 100).toFixed(1)}% offline bonus)` : '';
-              // setOfflineRewardNotification(`🎁 You have ${Math.floor(unclaimedRewards)} unclaimed offline rewards!${bonusText}`);
-              setShowOfflineRewards(true);
-            }
+            setShowOfflineRewards(true);
           }
           
           const loadedState = {
@@ -1850,26 +1793,10 @@ export const DivineMiningGame: React.FC = () => {
     }
   }, [gameState.divinePoints, setPoints, gameState.highScore, gameState.allTimeHighScore, getUserSpecificKey]);
 
-  // Listen for global gem updates to ensure perfect synchronization
-  useEffect(() => {
-    const handleGemUpdate = (event: CustomEvent) => {
-      const { gems: newGems } = event.detail;
-      console.log('🔄 DivineMiningGame received gem update:', newGems);
-      // The gems are already updated in GameContext, this is just for logging/debugging
-    };
-
-    // Listen for global gem update events
-    window.addEventListener('gemsUpdated', handleGemUpdate as EventListener);
-
-    return () => {
-      window.removeEventListener('gemsUpdated', handleGemUpdate as EventListener);
-    };
-  }, []);
-
   // Enhanced referral notification system
   useEffect(() => {
-    const handleReferralProcessed = (event: CustomEvent) => {
-      const { success, message, startParam } = event.detail;
+    const handleReferralProcessed = (result: ReferralResult) => {
+      const { success, message, startParam } = result;
       
       if (success) {
         // Show success notification
@@ -1879,16 +1806,12 @@ export const DivineMiningGame: React.FC = () => {
           'success'
         );
         
-        // Give welcome bonus
+        // The welcome bonus is paid through the ledger once the referral is verified
+        // (REFERRAL_VERIFICATION.sql); crediting it here would sync it as mining
         setTimeout(() => {
-          setGameState(prev => ({
-            ...prev,
-            divinePoints: prev.divinePoints + 1000
-          }));
-          
           showSystemNotification(
             '💎 Welcome Bonus!',
-            '+1000 Divine Points for joining through referral!',
+            '+1000 Divine Points for joining through referral, once your referral is verified!',
             'success'
           );
         }, 2000);
@@ -1906,12 +1829,12 @@ export const DivineMiningGame: React.FC = () => {
       }
     };
     
-    // Listen for referral processing events
-    window.addEventListener('referralProcessed', handleReferralProcessed as EventListener);
-    
-    return () => {
-      window.removeEventListener('referralProcessed', handleReferralProcessed as EventListener);
-    };
+    // React to referral results recorded by useReferralIntegration
+    return useGameStore.subscribe((state, previous) => {
+      if (state.lastReferralResult && state.lastReferralResult !== previous.lastReferralResult) {
+        handleReferralProcessed(state.lastReferralResult);
+      }
+    });
   }, [showSystemNotification]);
 
   // Log gem value for debugging synchronization
@@ -1921,13 +1844,8 @@ export const DivineMiningGame: React.FC = () => {
 
   // Apply active boosts to mining rate (enhanced version moved after upgrades)
   const getBoostedMiningRate = useCallback(() => {
-    const miningBoosts = activeBoosts.filter(boost => boost.type === 'mining');
-    const totalMultiplier = miningBoosts.reduce((sum, boost) => {
-      const multiplier = Number(boost.multiplier);
-      return sum + (isNaN(multiplier) ? 1 : multiplier);
-    }, 1);
     const baseRate = Number(gameState.pointsPerSecond);
-    return (isNaN(baseRate) ? 1.0 : baseRate) * totalMultiplier;
+    return (isNaN(baseRate) ? 1.0 : baseRate) * getBoostMultiplier(activeBoosts);
   }, [gameState.pointsPerSecond, activeBoosts]);
 
   // // Calculate offline mining rate with boosts and efficiency bonus
@@ -1943,6 +1861,9 @@ export const DivineMiningGame: React.FC = () => {
 
 
 
+  // Bundled catalog until the published one (if any) has loaded
+  const catalogRef = useRef<UpgradeCatalog>(DEFAULT_UPGRADE_CATALOG);
+
   // Load upgrades from localStorage or use defaults (user-specific)
   const getInitialUpgrades = (): Upgrade[] => {
     try {
@@ -1951,626 +1872,41 @@ export const DivineMiningGame: React.FC = () => {
       if (savedUpgrades) {
         const parsed = JSON.parse(savedUpgrades);
         if (Array.isArray(parsed) && parsed.length > 0) {
-          // Validate and fix upgrade data
-          const validatedUpgrades = parsed.map(upgrade => {
-            // Ensure all required fields exist
-            const validatedUpgrade = {
-              id: upgrade.id || 'unknown',
-              name: upgrade.name || 'Unknown Upgrade',
-              level: Math.max(0, Math.min(upgrade.level || 0, upgrade.maxLevel || 50)),
-              effect: upgrade.effect || '+0 effect',
-              baseCost: Math.max(1, upgrade.baseCost || 25),
-              costMultiplier: Math.max(1.01, upgrade.costMultiplier || 1.12),
-              effectValue: upgrade.effectValue || 0,
-              category: upgrade.category || 'chakra',
-              description: upgrade.description || 'An upgrade',
-              requires: upgrade.requires || undefined,
-              detailedDescription: upgrade.detailedDescription || upgrade.description || 'An upgrade',
-              benefits: upgrade.benefits || ['No benefits listed'],
-              tips: upgrade.tips || ['No tips available'],
-              unlockProgress: Math.max(0, Math.min(100, upgrade.unlockProgress || 0)),
-              maxLevel: Math.max(1, upgrade.maxLevel || 50),
-              unlockReward: upgrade.unlockReward || 'No reward'
-            };
-            
-            // Log any fixes made
-            if (upgrade.level !== validatedUpgrade.level || upgrade.baseCost !== validatedUpgrade.baseCost || upgrade.costMultiplier !== validatedUpgrade.costMultiplier) {
-              console.log(`Fixed upgrade data for ${upgrade.name}:`, {
-                original: { level: upgrade.level, baseCost: upgrade.baseCost, costMultiplier: upgrade.costMultiplier },
-                fixed: { level: validatedUpgrade.level, baseCost: validatedUpgrade.baseCost, costMultiplier: validatedUpgrade.costMultiplier }
-              });
-            }
-            
-            return validatedUpgrade;
-          });
-          
-          console.log('Loaded and validated upgrades from localStorage:', validatedUpgrades);
-          return validatedUpgrades;
+          // Definitions come from the catalog, only saved levels are kept
+          const { upgrades: reconciled, droppedUpgrades } = reconcileUpgrades(parsed, getCatalogUpgrades(catalogRef.current));
+          if (droppedUpgrades.length > 0) {
+            console.log('Dropped retired upgrades from saved data:', droppedUpgrades);
+          }
+          console.log('Loaded upgrades from localStorage:', reconciled);
+          return reconciled;
         }
       }
     } catch (error) {
       console.error('Error loading upgrades from localStorage:', error);
     }
     
-    // Spiritual progression upgrades - unlocking different parts of the soul
-    return [
-      // 🌱 ROOT CHAKRA - Foundation & Grounding
-      {
-        id: 'root-chakra',
-        name: '🌱 ROOT CHAKRA',
-        level: 0,
-        effect: '+0.5 wisdom/sec (Grounding)',
-        baseCost: 25,
-        costMultiplier: 1.12,
-        effectValue: 0.5,
-        category: 'chakra',
-        description: 'Unlock your foundation - stability and security',
-        maxLevel: 20,
-        unlockReward: 'Unlock the ability to use cosmic upgrades',
-        benefits: ['+200% mining efficiency', '+150% energy regeneration', 'Exclusive cosmic upgrades', 'Divine resonance bonus'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade unlocks the ability to use cosmic upgrades, which are powerful and unique. As you progress through the tiers, you\'ll gain access to more advanced features and bonuses. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'earth-connection',
-        name: '🌍 EARTH CONNECTION',
-        level: 0,
-        effect: '+50 spiritual capacity',
-        baseCost: 75,
-        costMultiplier: 1.15,
-        effectValue: 50,
-        category: 'chakra',
-        description: 'Deepen your connection to Mother Earth',
-        maxLevel: 10,
-        unlockReward: 'Unlock the ability to use solar plexus upgrades',
-        benefits: ['+50% spiritual capacity', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade deepens your connection to Mother Earth, increasing your spiritual capacity and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 🧘 SACRAL CHAKRA - Creativity & Flow
-      {
-        id: 'sacral-chakra',
-        name: '🧘 SACRAL CHAKRA',
-        level: 0,
-        effect: '+1.0 wisdom/sec (Creativity)',
-        baseCost: 200,
-        costMultiplier: 1.18,
-        effectValue: 1.0,
-        category: 'chakra',
-        description: 'Awaken your creative energy and emotional flow',
-        requires: { upgrade: 'root-chakra', level: 3 },
-        maxLevel: 15,
-        unlockReward: 'Unlock the ability to use heart chakra upgrades',
-        benefits: ['+100% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade awakens your creative energy and emotional flow, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'flow-state',
-        name: '🌊 FLOW STATE',
-        level: 0,
-        effect: 'Auto-meditation when ready',
-        baseCost: 500000,
-        costMultiplier: 2.0,
-        effectValue: 1,
-        category: 'chakra',
-        description: 'Enter automatic meditation when conditions are perfect',
-        requires: { upgrade: 'sacral-chakra', level: 5 },
-        maxLevel: 1,
-        unlockReward: 'Unlock the ability to use energy mastery upgrades',
-        benefits: ['Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade allows you to enter automatic meditation when your energy levels are high, providing a consistent boost to your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 💪 SOLAR PLEXUS - Willpower & Confidence
-      {
-        id: 'solar-plexus',
-        name: '💪 SOLAR PLEXUS',
-        level: 0,
-        effect: '+2.0 wisdom/sec (Willpower)',
-        baseCost: 750,
-        costMultiplier: 1.22,
-        effectValue: 2.0,
-        category: 'chakra',
-        description: 'Strengthen your personal power and confidence',
-        requires: { upgrade: 'sacral-chakra', level: 3 },
-        maxLevel: 12,
-        unlockReward: 'Unlock the ability to use air element upgrades',
-        benefits: ['+200% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade strengthens your personal power and confidence, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'inner-strength',
-        name: '⚡ INNER STRENGTH',
-        level: 0,
-        effect: '-10% energy cost',
-        baseCost: 50000,
-        costMultiplier: 1.5,
-        effectValue: -0.1,
-        category: 'chakra',
-        description: 'Harness your inner power for greater efficiency',
-        requires: { upgrade: 'solar-plexus', level: 3 },
-        maxLevel: 8,
-        unlockReward: 'Unlock the ability to use energy mastery upgrades',
-        benefits: ['-10% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade harnesses your inner power, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 💚 HEART CHAKRA - Love & Compassion
-      {
-        id: 'heart-chakra',
-        name: '💚 HEART CHAKRA',
-        level: 0,
-        effect: '+5.0 wisdom/sec (Love)',
-        baseCost: 3000,
-        costMultiplier: 1.25,
-        effectValue: 5.0,
-        category: 'chakra',
-        description: 'Open your heart to universal love and compassion',
-        requires: { upgrade: 'solar-plexus', level: 5 },
-        maxLevel: 10,
-        unlockReward: 'Unlock the ability to use cosmic consciousness upgrades',
-        benefits: ['+500% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade opens your heart to universal love and compassion, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'compassion-resonance',
-        name: '💝 COMPASSION RESONANCE',
-        level: 0,
-        effect: '+50% boost effectiveness',
-        baseCost: 1000000,
-        costMultiplier: 2.5,
-        effectValue: 0.5,
-        category: 'chakra',
-        description: 'Your love amplifies all spiritual practices',
-        requires: { upgrade: 'heart-chakra', level: 5 },
-        maxLevel: 5,
-        unlockReward: 'Unlock the ability to use throat chakra upgrades',
-        benefits: ['+50% boost effectiveness', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade amplifies the effectiveness of your boosts, increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 🗣️ THROAT CHAKRA - Communication & Truth
-      {
-        id: 'throat-chakra',
-        name: '🗣️ THROAT CHAKRA',
-        level: 0,
-        effect: '+10.0 wisdom/sec (Truth)',
-        baseCost: 10000,
-        costMultiplier: 1.3,
-        effectValue: 10.0,
-        category: 'chakra',
-        description: 'Speak your truth and manifest through vibration',
-        requires: { upgrade: 'heart-chakra', level: 5 },
-        maxLevel: 8,
-        unlockReward: 'Unlock the ability to use vibrational harmony upgrades',
-        benefits: ['+100% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade allows you to speak your truth and manifest through vibration, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'vibrational-harmony',
-        name: '🎵 VIBRATIONAL HARMONY',
-        level: 0,
-        effect: '+2000 max energy',
-        baseCost: 75000,
-        costMultiplier: 1.6,
-        effectValue: 2000,
-        category: 'chakra',
-        description: 'Your voice resonates with cosmic frequencies',
-        requires: { upgrade: 'throat-chakra', level: 3 },
-        maxLevel: 6,
-        unlockReward: 'Unlock the ability to use third eye upgrades',
-        benefits: ['+2000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade increases your max energy and your energy regeneration, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 👁️ THIRD EYE - Intuition & Insight
-      {
-        id: 'third-eye',
-        name: '👁️ THIRD EYE',
-        level: 0,
-        effect: '+25.0 wisdom/sec (Insight)',
-        baseCost: 50000,
-        costMultiplier: 1.35,
-        effectValue: 25.0,
-        category: 'chakra',
-        description: 'Open your inner eye to see beyond the veil',
-        requires: { upgrade: 'throat-chakra', level: 5 },
-        maxLevel: 6,
-        unlockReward: 'Unlock the ability to use psychic awareness upgrades',
-        benefits: ['+25% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade opens your inner eye, increasing your intuition and insight, and boosting your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'psychic-awareness',
-        name: '🔮 PSYCHIC AWARENESS',
-        level: 0,
-        effect: '+1.0 energy/sec',
-        baseCost: 100000,
-        costMultiplier: 1.7,
-        effectValue: 1.0,
-        category: 'chakra',
-        description: 'Your intuition guides your spiritual journey',
-        requires: { upgrade: 'third-eye', level: 3 },
-        maxLevel: 10,
-        unlockReward: 'Unlock the ability to use crown chakra upgrades',
-        benefits: ['+100% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade increases your wisdom and energy regeneration, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 👑 CROWN CHAKRA - Enlightenment & Unity
-      {
-        id: 'crown-chakra',
-        name: '👑 CROWN CHAKRA',
-        level: 0,
-        effect: '+100.0 wisdom/sec (Enlightenment)',
-        baseCost: 250000,
-        costMultiplier: 1.4,
-        effectValue: 100.0,
-        category: 'chakra',
-        description: 'Connect to divine consciousness and universal wisdom',
-        requires: { upgrade: 'third-eye', level: 7 },
-        maxLevel: 5,
-        unlockReward: 'Unlock the ability to use cosmic consciousness upgrades',
-        benefits: ['+5% offline bonus', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade connects you to divine consciousness and universal wisdom, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'cosmic-consciousness',
-        name: '🌟 COSMIC CONSCIOUSNESS',
-        level: 0,
-        effect: '+5% offline bonus',
-        baseCost: 150000,
-        costMultiplier: 1.8,
-        effectValue: 0.05,
-        category: 'chakra',
-        description: 'Your consciousness transcends time and space',
-        maxLevel: 3,
-        unlockReward: 'Unlock the ability to use cosmic upgrades',
-        benefits: ['+5% offline bonus', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade transcends time and space, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 🧘‍♀️ ADVANCED PRACTICES - Mastery
-      {
-        id: 'energy-mastery',
-        name: '🧘‍♀️ ENERGY MASTERY',
-        level: 0,
-        effect: '-30% energy cost',
-        baseCost: 5000000,
-        costMultiplier: 4.0,
-        effectValue: -0.3,
-        category: 'mastery',
-        description: 'Master the flow of spiritual energy',
-        maxLevel: 3,
-        unlockReward: 'Unlock the ability to use energy mastery upgrades',
-        benefits: ['-30% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade masters the flow of spiritual energy, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'divine-resonance',
-        name: '✨ DIVINE RESONANCE',
-        level: 0,
-        effect: '+2.0 energy/sec',
-        baseCost: 3000000,
-        costMultiplier: 3.5,
-        effectValue: 2.0,
-        category: 'mastery',
-        description: 'Resonate with the divine frequency',
-        maxLevel: 5,
-        unlockReward: 'Unlock the ability to use divine resonance upgrades',
-        benefits: ['+200% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade resonates with the divine frequency, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'transcendence',
-        name: '🚀 TRANSCENDENCE',
-        level: 0,
-        effect: '+5000 max energy',
-        baseCost: 2000000,
-        costMultiplier: 3.0,
-        effectValue: 5000,
-        category: 'mastery',
-        description: 'Transcend physical limitations',
-        maxLevel: 1,
-        unlockReward: 'Unlock the ability to use transcendence upgrades',
-        benefits: ['+5000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade transcends physical limitations, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 🧘‍♀️ MEDITATION PRACTICES - Inner Peace & Focus
-      {
-        id: 'mindful-breathing',
-        name: '🫁 MINDFUL BREATHING',
-        level: 0,
-        effect: '+0.3 energy/sec',
-        baseCost: 150,
-        costMultiplier: 1.14,
-        effectValue: 0.3,
-        category: 'meditation',
-        description: 'Master the art of conscious breathing',
-        maxLevel: 15,
-        unlockReward: 'Unlock the ability to use mindful breathing upgrades',
-        benefits: ['+30% energy/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade masters the art of conscious breathing, increasing your energy regeneration and boosting your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'zen-focus',
-        name: '🎯 ZEN FOCUS',
-        level: 0,
-        effect: '+1.5 wisdom/sec',
-        baseCost: 400,
-        costMultiplier: 1.16,
-        effectValue: 1.5,
-        category: 'meditation',
-        description: 'Achieve perfect mental clarity',
-        maxLevel: 10,
-        unlockReward: 'Unlock the ability to use zen focus upgrades',
-        benefits: ['+150% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade improves your mental clarity, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'aura-purification',
-        name: '✨ AURA PURIFICATION',
-        level: 0,
-        effect: '-15% energy cost',
-        baseCost: 25000,
-        costMultiplier: 1.4,
-        effectValue: -0.15,
-        category: 'meditation',
-        description: 'Purify your spiritual aura',
-        maxLevel: 8,
-        unlockReward: 'Unlock the ability to use aura purification upgrades',
-        benefits: ['-15% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade purifies your spiritual aura, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'kundalini-awakening',
-        name: '🐍 KUNDALINI AWAKENING',
-        level: 0,
-        effect: '+50.0 wisdom/sec',
-        baseCost: 1000000,
-        costMultiplier: 2.0,
-        effectValue: 50.0,
-        category: 'meditation',
-        description: 'Awaken your serpent power',
-        maxLevel: 3,
-        unlockReward: 'Unlock the ability to use kundalini awakening upgrades',
-        benefits: ['+500% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade awakens your serpent power, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // 🌟 COSMIC POWERS - Beyond Physical Reality
-      {
-        id: 'quantum-leap',
-        name: '⚛️ QUANTUM LEAP',
-        level: 0,
-        effect: '+1000% wisdom/sec',
-        baseCost: 10000000,
-        costMultiplier: 5.0,
-        effectValue: 1000.0,
-        category: 'cosmic',
-        description: 'Transcend quantum limitations',
-        maxLevel: 1,
-        unlockReward: 'Unlock the ability to use quantum leap upgrades',
-        benefits: ['+1000% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade transcends quantum limitations, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'time-dilation',
-        name: '⏰ TIME DILATION',
-        level: 0,
-        effect: '+10% offline bonus',
-        baseCost: 500000,
-        costMultiplier: 2.5,
-        effectValue: 0.1,
-        category: 'cosmic',
-        description: 'Bend the fabric of time',
-        maxLevel: 5,
-        unlockReward: 'Unlock the ability to use time dilation upgrades',
-        benefits: ['+10% offline bonus', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade bends the fabric of time, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'space-bending',
-        name: '🌌 SPACE BENDING',
-        level: 0,
-        effect: '+3000 max energy',
-        baseCost: 750000,
-        costMultiplier: 2.2,
-        effectValue: 3000,
-        category: 'cosmic',
-        description: 'Manipulate spatial dimensions',
-        maxLevel: 3,
-        unlockReward: 'Unlock the ability to use space bending upgrades',
-        benefits: ['+3000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade manipulates spatial dimensions, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'reality-shift',
-        name: '🌀 REALITY SHIFT',
-        level: 0,
-        effect: '+500% all bonuses',
-        baseCost: 5000000,
-        costMultiplier: 10.0,
-        effectValue: 5.0,
-        category: 'cosmic',
-        description: 'Shift to a higher reality',
-        maxLevel: 1,
-        unlockReward: 'Unlock the ability to use reality shift upgrades',
-        benefits: ['+500% all bonuses', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade shifts to a higher reality, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      
-      // ⚡ ELEMENTAL MASTERY - Natural Forces
-      {
-        id: 'fire-element',
-        name: '🔥 FIRE ELEMENT',
-        level: 0,
-        effect: '+3.0 wisdom/sec',
-        baseCost: 600,
-        costMultiplier: 1.2,
-        effectValue: 3.0,
-        category: 'elemental',
-        description: 'Harness the power of fire',
-        maxLevel: 12,
-        unlockReward: 'Unlock the ability to use fire element upgrades',
-        benefits: ['+300% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade harnesses the power of fire, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'water-element',
-        name: '💧 WATER ELEMENT',
-        level: 0,
-        effect: '+2.0 energy/sec',
-        baseCost: 800,
-        costMultiplier: 1.18,
-        effectValue: 2.0,
-        category: 'elemental',
-        description: 'Flow like water',
-        maxLevel: 10,
-        unlockReward: 'Unlock the ability to use water element upgrades',
-        benefits: ['+200% energy/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade allows you to flow like water, increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'earth-element',
-        name: '🌍 EARTH ELEMENT',
-        level: 0,
-        effect: '+1000 max energy',
-        baseCost: 1200,
-        costMultiplier: 1.25,
-        effectValue: 1000,
-        category: 'elemental',
-        description: 'Stand firm like a mountain',
-        maxLevel: 8,
-        unlockReward: 'Unlock the ability to use earth element upgrades',
-        benefits: ['+1000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade allows you to stand firm like a mountain, increasing your max energy. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      },
-      {
-        id: 'air-element',
-        name: '💨 AIR ELEMENT',
-        level: 0,
-        effect: '-20% energy cost',
-        baseCost: 2000,
-        costMultiplier: 1.3,
-        effectValue: -0.2,
-        category: 'elemental',
-        description: 'Move freely like the wind',
-        maxLevel: 6,
-        unlockReward: 'Unlock the ability to use air element upgrades',
-        benefits: ['-20% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
-        tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
-        unlockProgress: 0,
-        detailedDescription: 'This upgrade allows you to move freely like the wind, reducing energy costs. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
-      }
-    ];
+    return getCatalogUpgrades(catalogRef.current);
   };
 
   const [upgrades, setUpgrades] = useState<Upgrade[]>(getInitialUpgrades);
 
-  // Add isUpgradeAvailable function after upgrades state is defined
+  // Share upgrade levels with the rest of the app
+  useEffect(() => {
+    setStoreUpgrades(toSavedUpgrades(upgrades));
+  }, [upgrades, setStoreUpgrades]);
+
+  // Upgrade rules live in the engine; requirement checks need the current upgrade list
   const isUpgradeAvailable = useCallback((upgrade: Upgrade): boolean => {
-    if (!upgrade.requires) return true;
-    
-    const requiredUpgrade = upgrades.find(u => u.id === upgrade.requires!.upgrade);
-    if (!requiredUpgrade) return false;
-    
-    return requiredUpgrade.level >= upgrade.requires!.level;
+    return isUpgradeUnlocked(upgrade, upgrades);
   }, [upgrades]);
 
-  // Add getUpgradeCost function early to prevent linter errors
-  const getUpgradeCost = useCallback((upgrade: Upgrade): number => {
-    const baseCost = Number(upgrade.baseCost);
-    const costMultiplier = Number(upgrade.costMultiplier);
-    const level = Number(upgrade.level);
-    
-    const validBaseCost = isNaN(baseCost) ? 25 : baseCost;
-    const validCostMultiplier = isNaN(costMultiplier) ? 1.12 : costMultiplier;
-    const validLevel = isNaN(level) ? 0 : level;
-    
-    return Math.floor(validBaseCost * Math.pow(validCostMultiplier, validLevel));
-  }, []);
-
-  // Add missing upgrade functions after upgrades are defined
-  const isUpgradeMaxed = useCallback((upgrade: Upgrade): boolean => {
-    // Use the maxLevel property from the upgrade definition
-    const maxLevel = upgrade.maxLevel || 50;
-    return upgrade.level >= maxLevel;
-  }, []);
-
-  const getUpgradeEfficiency = useCallback((upgrade: Upgrade): number => {
-    const cost = getUpgradeCost(upgrade);
-    const effectValue = Number(upgrade.effectValue);
-    const validEffectValue = isNaN(effectValue) ? 0 : effectValue;
-    const validCost = isNaN(cost) ? 1 : cost;
-    return validEffectValue / validCost * 1000; // Points per 1000 cost
-  }, []);
-
-
   const getFilteredUpgrades = useCallback((): Upgrade[] => {
     let filtered = [...upgrades];
     
     switch (upgradeFilter) {
       case 'affordable':
         filtered = filtered.filter(upgrade => {
-          const cost = Math.floor(upgrade.baseCost * Math.pow(upgrade.costMultiplier, upgrade.level));
-          return gameState.divinePoints >= cost;
+          return gameState.divinePoints >= getUpgradeCost(upgrade, activeBoosts);
         });
         break;
       case 'recommended':
@@ -2589,7 +1925,7 @@ export const DivineMiningGame: React.FC = () => {
     }
     
     return filtered;
-  }, [upgrades, upgradeFilter, getUpgradeEfficiency, isUpgradeMaxed, gameState.divinePoints]);
+  }, [upgrades, upgradeFilter, gameState.divinePoints, activeBoosts]);
 
   const getTotalPages = useCallback((): number => {
     return Math.ceil(getFilteredUpgrades().length / upgradesPerPage);
@@ -2621,98 +1957,28 @@ export const DivineMiningGame: React.FC = () => {
 
   // Enhanced mining rate calculation with divine resonance
   const getEnhancedMiningRate = useCallback(() => {
-    const miningBoosts = activeBoosts.filter(boost => boost.type === 'mining');
-    const baseMultiplier = miningBoosts.reduce((sum, boost) => {
-      const multiplier = Number(boost.multiplier);
-      return sum + (isNaN(multiplier) ? 1 : multiplier);
-    }, 1);
-    
-    // Apply divine resonance upgrade to boost effectiveness
-    const divineResonanceUpgrades = upgrades.filter(u => u.id === 'divine-resonance');
-    const resonanceBonus = divineResonanceUpgrades.reduce((sum, u) => {
-      const effectValue = Number(u.effectValue);
-      const level = Number(u.level);
-      return sum + ((isNaN(effectValue) ? 0 : effectValue) * (isNaN(level) ? 0 : level));
-    }, 0);
-    const enhancedMultiplier = baseMultiplier * (1 + (isNaN(resonanceBonus) ? 0 : resonanceBonus));
-    
-    const baseRate = Number(gameState.pointsPerSecond);
-    return (isNaN(baseRate) ? 1.0 : baseRate) * enhancedMultiplier;
-  }, [gameState.pointsPerSecond, activeBoosts, upgrades]);
+    return calculateEnhancedMiningRate(gameState, upgrades, activeBoosts);
+  }, [gameState, activeBoosts, upgrades]);
 
   // Calculate energy regeneration rate including upgrades
   const getEnergyRegenerationRate = useCallback(() => {
-    const baseRegenRate = 0.5; // Base energy regeneration per second
-    
-    // Add energy regeneration upgrades
-    const energyRegenUpgrades = upgrades.filter(u => 
-      ['psychic-awareness', 'divine-resonance', 'mindful-breathing', 'water-element'].includes(u.id)
-    );
-    
-    const regenBonus = energyRegenUpgrades.reduce((sum, u) => {
-      const effectValue = Number(u.effectValue);
-      const level = Number(u.level);
-      return sum + ((isNaN(effectValue) ? 0 : effectValue) * (isNaN(level) ? 0 : level));
-    }, 0);
-    
-    return baseRegenRate + regenBonus;
+    return calculateEnergyRegenerationRate(upgrades);
   }, [upgrades]);
 
   // Calculate energy efficiency bonus from upgrades
   const getEnergyEfficiencyBonus = useCallback(() => {
-    const efficiencyUpgrades = upgrades.filter(u => 
-      ['inner-strength', 'aura-purification', 'energy-mastery', 'air-element'].includes(u.id)
-    );
-    
-    const efficiencyBonus = efficiencyUpgrades.reduce((sum, u) => {
-      const effectValue = Number(u.effectValue);
-      const level = Number(u.level);
-      return sum + ((isNaN(effectValue) ? 0 : effectValue) * (isNaN(level) ? 0 : level));
-    }, 0);
-    
-    return Math.max(-0.95, efficiencyBonus); // Cap at -95% to prevent negative energy costs
+    return calculateEnergyEfficiencyBonus(upgrades);
   }, [upgrades]);
 
   // Sync game state with loaded upgrades on initialization - IMPROVED VERSION
   useEffect(() => {
     // Calculate total effect from all upgrades, properly categorized
-    const totalPointsPerSecondEffect = upgrades.reduce((sum, upgrade) => {
-      const effectValue = Number(upgrade.effectValue);
-      const level = Number(upgrade.level);
-      const validEffectValue = isNaN(effectValue) ? 0 : effectValue;
-      const validLevel = isNaN(level) ? 0 : level;
-      
-      // Only count upgrades that affect points per second (most upgrades)
-      const isPPSUpgrade = !['energy-capacity', 'energy-overflow', 'vibrational-harmony', 'transcendence', 
-                            'space-bending', 'earth-element', 'inner-strength', 'aura-purification', 
-                            'energy-mastery', 'air-element', 'psychic-awareness', 'divine-resonance', 
-                            'mindful-breathing', 'water-element', 'cosmic-consciousness', 'time-dilation', 
-                            'reality-shift'].includes(upgrade.id);
-      
-      return sum + (isPPSUpgrade ? validEffectValue * validLevel : 0);
-    }, 0);
-    
-    const totalOfflineBonusEffect = upgrades.reduce((sum, upgrade) => {
-      const effectValue = Number(upgrade.effectValue);
-      const level = Number(upgrade.level);
-      const validEffectValue = isNaN(effectValue) ? 0 : effectValue;
-      const validLevel = isNaN(level) ? 0 : level;
-      
-      // Only count offline bonus upgrades
-      const isOfflineUpgrade = ['cosmic-consciousness', 'time-dilation'].includes(upgrade.id);
-      
-      return sum + (isOfflineUpgrade ? validEffectValue * validLevel : 0);
-    }, 0);
-    
-    const totalUpgradesPurchased = upgrades.reduce((sum, upgrade) => {
-      const level = Number(upgrade.level);
-      return sum + (isNaN(level) ? 0 : level);
-    }, 0);
+    const upgradeStats = deriveUpgradeStats(upgrades);
     
     setGameState(prev => {
-      const newPointsPerSecond = 1.0 + totalPointsPerSecondEffect;
-      const newOfflineBonus = totalOfflineBonusEffect;
-      const newUpgradesPurchased = totalUpgradesPurchased;
+      const newPointsPerSecond = upgradeStats.pointsPerSecond;
+      const newOfflineBonus = upgradeStats.offlineEfficiencyBonus;
+      const newUpgradesPurchased = upgradeStats.upgradesPurchased;
       
       console.log('Upgrade sync check:', {
         currentPPS: prev.pointsPerSecond,
@@ -2834,94 +2100,141 @@ export const DivineMiningGame: React.FC = () => {
   // const [lastSyncTime, setLastSyncTime] = useState<number>(Date.now());
   const SYNC_INTERVAL = 30000; // 30 seconds
 
-  // Add function to load from localStorage (enhanced version)
-  const loadFromLocalStorage = () => {
-    if (!user?.telegram_id) return null;
+  // Saved achievements only carry unlock flags; names and conditions stay in code
+  const applySavedAchievements = (saved: SavedAchievement[]) => {
+    if (saved.length === 0) return;
 
-    const savedState = localStorage.getItem(`divine_mining_state_${user.telegram_id}`);
-    if (!savedState) return null;
+    setAchievements(prev => prev.map(achievement => {
+      const savedAchievement = saved.find(a => a.id === achievement.id);
+      return savedAchievement
+        ? { ...achievement, unlocked: Boolean(savedAchievement.unlocked), unlockedAt: savedAchievement.unlockedAt }
+        : achievement;
+    }));
+  };
 
-    try {
-      const parsedState = JSON.parse(savedState);
-      
-      // Validate and sanitize the parsed state to prevent NaN values
-      const sanitizeNumber = (value: any, defaultValue: number): number => {
-        const num = Number(value);
-        return isNaN(num) || !isFinite(num) ? defaultValue : num;
-      };
-      
-      // Load all game state from localStorage with validation
+  // Parse and migrate a persisted payload (localStorage or user_game_data.game_data)
+  const parseSave = (raw: unknown, source: string) => {
+    const loaded = loadSave(raw, { fallbackState: gameState, catalog: getCatalogUpgrades(catalogRef.current) });
+    if (!loaded) return null;
+
+    if (loaded.migratedFrom < SAVE_SCHEMA_VERSION) {
+      console.log(`Migrated ${source} save from schema v${loaded.migratedFrom} to v${SAVE_SCHEMA_VERSION}`);
+    }
+    if (loaded.droppedUpgrades.length > 0) {
+      console.log(`Dropped retired upgrades from ${source} save:`, loaded.droppedUpgrades);
+    }
+
+    return loaded.data;
+  };
+
+  // Saves also fire from timers created on earlier renders, so read the latest state from a ref
+  const latestStateRef = useRef({ gameState, upgrades, achievements });
+  latestStateRef.current = { gameState, upgrades, achievements };
+
+  // Switch to the published upgrade catalog once it loads. Rates derived from
+  // upgrade levels are adjusted by the difference the new definitions make.
+  useEffect(() => {
+    let cancelled = false;
+
+    upgradeCatalog.fetchActive().then(catalog => {
+      if (cancelled || !catalog || catalog.version === catalogRef.current.version) return;
+
+      catalogRef.current = catalog;
+      const current = latestStateRef.current.upgrades;
+      const { upgrades: reconciled, droppedUpgrades } = reconcileUpgrades(current, getCatalogUpgrades(catalog));
+      if (droppedUpgrades.length > 0) {
+        console.log('Dropped upgrades missing from catalog:', droppedUpgrades);
+      }
+
+      const before = deriveUpgradeStats(current);
+      const after = deriveUpgradeStats(reconciled);
+      setUpgrades(reconciled);
       setGameState(prev => ({
         ...prev,
-        divinePoints: sanitizeNumber(parsedState.divinePoints, prev.divinePoints),
-        pointsPerSecond: sanitizeNumber(parsedState.pointsPerSecond, prev.pointsPerSecond),
-        totalEarned24h: sanitizeNumber(parsedState.totalEarned24h, prev.totalEarned24h),
-        totalEarned7d: sanitizeNumber(parsedState.totalEarned7d, prev.totalEarned7d),
-        upgradesPurchased: sanitizeNumber(parsedState.upgradesPurchased, prev.upgradesPurchased),
-        minersActive: sanitizeNumber(parsedState.minersActive, prev.minersActive),
-        isMining: Boolean(parsedState.isMining),
-        lastSaveTime: sanitizeNumber(parsedState.lastSaveTime, prev.lastSaveTime),
-        sessionStartTime: sanitizeNumber(parsedState.sessionStartTime, prev.sessionStartTime),
-        totalPointsEarned: sanitizeNumber(parsedState.totalPointsEarned, prev.totalPointsEarned),
-        lastDailyReset: parsedState.lastDailyReset || prev.lastDailyReset,
-        lastWeeklyReset: parsedState.lastWeeklyReset || prev.lastWeeklyReset,
-        version: parsedState.version || prev.version,
-        highScore: sanitizeNumber(parsedState.highScore, prev.highScore),
-        allTimeHighScore: sanitizeNumber(parsedState.allTimeHighScore, prev.allTimeHighScore),
-        currentEnergy: sanitizeNumber(parsedState.currentEnergy, prev.currentEnergy),
-        maxEnergy: sanitizeNumber(parsedState.maxEnergy, prev.maxEnergy),
-        lastEnergyRegen: sanitizeNumber(parsedState.lastEnergyRegen, prev.lastEnergyRegen),
-        offlineEfficiencyBonus: sanitizeNumber(parsedState.offlineEfficiencyBonus, prev.offlineEfficiencyBonus),
-        lastOfflineTime: sanitizeNumber(parsedState.lastOfflineTime, prev.lastOfflineTime),
-        unclaimedOfflineRewards: sanitizeNumber(parsedState.unclaimedOfflineRewards, prev.unclaimedOfflineRewards),
-        lastOfflineRewardTime: sanitizeNumber(parsedState.lastOfflineRewardTime, prev.lastOfflineRewardTime),
-        miningLevel: sanitizeNumber(parsedState.miningLevel, prev.miningLevel),
-        miningCombo: sanitizeNumber(parsedState.miningCombo, prev.miningCombo),
-        miningStreak: sanitizeNumber(parsedState.miningStreak, prev.miningStreak),
-        miningExperience: sanitizeNumber(parsedState.miningExperience, prev.miningExperience),
-        miningExperienceToNext: sanitizeNumber(parsedState.miningExperienceToNext, prev.miningExperienceToNext)
+        pointsPerSecond: prev.pointsPerSecond + after.pointsPerSecond - before.pointsPerSecond,
+        offlineEfficiencyBonus: prev.offlineEfficiencyBonus + after.offlineEfficiencyBonus - before.offlineEfficiencyBonus
       }));
+      console.log(`Using upgrade catalog v${catalog.version}`);
+    });
 
-      // Load upgrades from localStorage with validation
-      if (parsedState.upgrades && Array.isArray(parsedState.upgrades)) {
-        const validatedUpgrades = parsedState.upgrades.map((upgrade: any) => {
-          // Ensure all required fields exist
-          const validatedUpgrade = {
-            id: upgrade.id || 'unknown',
-            name: upgrade.name || 'Unknown Upgrade',
-            level: Math.max(0, Math.min(sanitizeNumber(upgrade.level, 0), upgrade.maxLevel || 50)),
-            effect: upgrade.effect || '+0 effect',
-            baseCost: Math.max(1, sanitizeNumber(upgrade.baseCost, 25)),
-            costMultiplier: Math.max(1.01, sanitizeNumber(upgrade.costMultiplier, 1.12)),
-            effectValue: sanitizeNumber(upgrade.effectValue, 0),
-            category: upgrade.category || 'chakra',
-            description: upgrade.description || 'An upgrade',
-            requires: upgrade.requires || undefined,
-            detailedDescription: upgrade.detailedDescription || upgrade.description || 'An upgrade',
-            benefits: upgrade.benefits || ['No benefits listed'],
-            tips: upgrade.tips || ['No tips available'],
-            unlockProgress: Math.max(0, Math.min(100, upgrade.unlockProgress || 0)),
-            maxLevel: Math.max(1, upgrade.maxLevel || 50),
-            unlockReward: upgrade.unlockReward || 'No reward'
-          };
-          
-          return validatedUpgrade;
-        });
-        
-        console.log('Loaded and validated upgrades from localStorage:', validatedUpgrades);
-        setUpgrades(validatedUpgrades);
-      } else {
-        console.log('No upgrades found in localStorage, using default upgrades');
-        setUpgrades(getInitialUpgrades());
-      }
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-      // Load achievements from localStorage
-      if (parsedState.achievements && Array.isArray(parsedState.achievements)) {
-        setAchievements(parsedState.achievements);
-      }
+  // Snapshot the current state, recording balance changes since the last save in the ledger.
+  // Returns null until saved data has been loaded so a fresh state can't overwrite it.
+  const buildSave = (): SaveData | null => {
+    if (!balanceLedgerRef.current) return null;
+
+    const { gameState: state, upgrades: currentUpgrades, achievements: currentAchievements } = latestStateRef.current;
+    balanceLedgerRef.current = recordBalanceChange(balanceLedgerRef.current, getDeviceId(), state.divinePoints);
+    return createSave(state, currentUpgrades, currentAchievements, balanceLedgerRef.current);
+  };
 
-      console.log('Loaded state from localStorage:', parsedState);
-      return parsedState;
+  const reportMergedFields = (mergedFields: string[]) => {
+    if (mergedFields.length === 0) return;
+
+    console.log('🔀 Merged progress from another device:', mergedFields);
+    setSaveMessage(`Merged: ${mergedFields.join(', ')}`);
+    showSystemNotification(
+      'Progress Merged',
+      `Combined progress from your other device: ${mergedFields.join(', ')}`,
+      'info'
+    );
+  };
+
+  // Apply progress merged in during a sync. State may have moved on since the snapshot
+  // was taken, so the balance is adjusted by the merged difference rather than replaced.
+  const applyMergedSave = (merged: SaveData, snapshot: SaveData) => {
+    // Another device ascended: its run replaces this one
+    if (merged.ascensionCount !== snapshot.ascensionCount) {
+      balanceLedgerRef.current = merged.balanceLedger;
+      getEconomyQueue().setBaseline(merged.divinePoints);
+      setGameState(prev => ({ ...getSaveGameState(merged), isMining: prev.isMining }));
+      setUpgrades(merged.upgrades);
+      applySavedAchievements(merged.achievements);
+      return;
+    }
+
+    // Keep the ledger adding up to the adjusted balance, which may come from the server
+    const ledger = balanceLedgerRef.current ?? merged.balanceLedger;
+    balanceLedgerRef.current = reconcileLedger(
+      mergeLedgers(ledger, merged.balanceLedger),
+      getLedgerBalance(ledger) + merged.divinePoints - snapshot.divinePoints
+    );
+    // The other device reports its own earnings to the economy ledger
+    getEconomyQueue().adjustBaseline(merged.divinePoints - snapshot.divinePoints);
+
+    setGameState(prev => ({
+      ...prev,
+      divinePoints: prev.divinePoints + merged.divinePoints - snapshot.divinePoints,
+      pointsPerSecond: merged.pointsPerSecond,
+      maxEnergy: merged.maxEnergy,
+      offlineEfficiencyBonus: merged.offlineEfficiencyBonus,
+      upgradesPurchased: merged.upgradesPurchased,
+      totalPointsEarned: Math.max(prev.totalPointsEarned, merged.totalPointsEarned),
+      highScore: Math.max(prev.highScore, merged.highScore),
+      allTimeHighScore: Math.max(prev.allTimeHighScore, merged.allTimeHighScore)
+    }));
+    setUpgrades(prev => prev.map(upgrade => {
+      const mergedLevel = merged.upgrades.find(u => u.id === upgrade.id)?.level ?? 0;
+      return mergedLevel > upgrade.level ? { ...upgrade, level: mergedLevel } : upgrade;
+    }));
+    applySavedAchievements(merged.achievements);
+  };
+
+  // Add function to load from localStorage (enhanced version)
+  const loadFromLocalStorage = () => {
+    if (!user?.telegram_id) return null;
+
+    const savedState = localStorage.getItem(`divine_mining_state_${user.telegram_id}`);
+    if (!savedState) return null;
+
+    try {
+      const save = parseSave(JSON.parse(savedState), 'localStorage');
+      console.log('Loaded state from localStorage:', save);
+      return save;
     } catch (error) {
       console.error('Error parsing localStorage divine mining state:', error);
       return null;
@@ -2933,17 +2246,13 @@ export const DivineMiningGame: React.FC = () => {
     if (!user?.telegram_id) return;
 
     try {
-      const stateToSave = {
-        ...gameState,
-        upgrades,
-        achievements,
-        lastUpdate: new Date().toISOString(),
-        saveTimestamp: Date.now() // Add explicit timestamp for conflict resolution
-      };
-      localStorage.setItem(`divine_mining_state_${user.telegram_id}`, JSON.stringify(stateToSave));
+      const stateToSave = buildSave();
+      if (!stateToSave) return;
+
+      localStorage.setItem(`divine_mining_state_${user.telegram_id}`, JSON.stringify(serializeSave(stateToSave)));
       console.log('💾 Saved to localStorage:', {
         divinePoints: stateToSave.divinePoints,
-        timestamp: stateToSave.lastUpdate
+        timestamp: new Date(stateToSave.savedAt).toISOString()
       });
     } catch (error) {
       console.error('Error saving to localStorage:', error);
@@ -2966,45 +2275,43 @@ export const DivineMiningGame: React.FC = () => {
         return;
       }
 
-      const stateToSave = {
-        user_id: userData.id,
-        game_data: {
-          divinePoints: gameState.divinePoints,
-          pointsPerSecond: gameState.pointsPerSecond,
-          totalEarned24h: gameState.totalEarned24h,
-          totalEarned7d: gameState.totalEarned7d,
-          upgradesPurchased: gameState.upgradesPurchased,
-          minersActive: gameState.minersActive,
-          isMining: gameState.isMining,
-          lastSaveTime: gameState.lastSaveTime,
-          sessionStartTime: gameState.sessionStartTime,
-          totalPointsEarned: gameState.totalPointsEarned,
-          lastDailyReset: gameState.lastDailyReset,
-          lastWeeklyReset: gameState.lastWeeklyReset,
-          version: gameState.version,
-          highScore: gameState.highScore,
-          allTimeHighScore: gameState.allTimeHighScore,
-          currentEnergy: gameState.currentEnergy,
-          maxEnergy: gameState.maxEnergy,
-          lastEnergyRegen: gameState.lastEnergyRegen,
-          offlineEfficiencyBonus: gameState.offlineEfficiencyBonus,
-          lastOfflineTime: gameState.lastOfflineTime,
-          unclaimedOfflineRewards: gameState.unclaimedOfflineRewards,
-          lastOfflineRewardTime: gameState.lastOfflineRewardTime,
-          miningLevel: gameState.miningLevel,
-          miningCombo: gameState.miningCombo,
-          miningStreak: gameState.miningStreak,
-          miningExperience: gameState.miningExperience,
-          miningExperienceToNext: gameState.miningExperienceToNext,
-          upgrades: upgrades,
-          achievements: achievements
-        },
-        last_updated: new Date().toISOString()
-      };
+      const localSave = buildSave();
+      if (!localSave) return;
+
+      // Record balance changes in the economy ledger; the stored balance is derived from it
+      const economyQueue = getEconomyQueue();
+      const balances = await economyQueue.flush(localSave.divinePoints) ?? await economyLedger.getBalances(userData.id);
+      // Server clamps and rejected entries win over this device's copy of the balance
+      const serverBalance = balances
+        ? balances.divinePoints + economyQueue.getUnreported(localSave.divinePoints)
+        : undefined;
+
+      // Another device may have synced since we last loaded; merge rather than overwrite it
+      const { data: existing, error: fetchError } = await supabase
+        .from('user_game_data')
+        .select('game_data')
+        .eq('user_id', userData.id)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      const cloudSave = existing?.game_data ? parseSave(existing.game_data, 'Supabase') : null;
+      const { save, mergedFields } = cloudSave
+        ? mergeSaves(localSave, cloudSave, serverBalance)
+        : { save: serverBalance === undefined ? localSave : reconcileSaveBalance(localSave, serverBalance), mergedFields: [] };
+
+      if (mergedFields.length > 0 || save.divinePoints !== localSave.divinePoints) {
+        applyMergedSave(save, localSave);
+        reportMergedFields(mergedFields);
+      }
 
       const { error } = await supabase
         .from('user_game_data')
-        .upsert(stateToSave, {
+        .upsert({
+          user_id: userData.id,
+          game_data: serializeSave(save),
+          last_updated: new Date(save.savedAt).toISOString()
+        }, {
           onConflict: 'user_id'
         });
 
@@ -3046,162 +2353,15 @@ export const DivineMiningGame: React.FC = () => {
       if (error) throw error;
       if (!data || !data.game_data) return null;
 
-      const gameData = data.game_data;
-
-      // Validate and sanitize the game data to prevent NaN values
-      const sanitizeNumber = (value: any, defaultValue: number): number => {
-        const num = Number(value);
-        return isNaN(num) || !isFinite(num) ? defaultValue : num;
-      };
-
-      // Calculate offline progress
-      const offlineTime = Date.now() - new Date(data.last_updated).getTime();
-      const offlinePoints = calculateOfflineProgress(offlineTime, gameData);
-
-      // Calculate energy regeneration during offline time
-      const energyRegenAmount = calculateOfflineEnergyRegen(
-        offlineTime,
-        sanitizeNumber(gameData.currentEnergy, 1000),
-        sanitizeNumber(gameData.maxEnergy, 1000),
-        sanitizeNumber(gameData.pointsPerSecond, 1.0),
-        sanitizeNumber(gameData.miningLevel, 1)
-      );
-
-      // Update state with persisted values
-      const updatedEnergy = Math.min(
-        sanitizeNumber(gameData.currentEnergy, 1000) + energyRegenAmount,
-        sanitizeNumber(gameData.maxEnergy, 1000)
-      );
-
-      setGameState(prev => ({
-        ...prev,
-        divinePoints: sanitizeNumber(gameData.divinePoints, prev.divinePoints) + offlinePoints,
-        pointsPerSecond: sanitizeNumber(gameData.pointsPerSecond, prev.pointsPerSecond),
-        totalEarned24h: sanitizeNumber(gameData.totalEarned24h, prev.totalEarned24h),
-        totalEarned7d: sanitizeNumber(gameData.totalEarned7d, prev.totalEarned7d),
-        upgradesPurchased: sanitizeNumber(gameData.upgradesPurchased, prev.upgradesPurchased),
-        minersActive: sanitizeNumber(gameData.minersActive, prev.minersActive),
-        isMining: Boolean(gameData.isMining),
-        lastSaveTime: sanitizeNumber(gameData.lastSaveTime, prev.lastSaveTime),
-        sessionStartTime: sanitizeNumber(gameData.sessionStartTime, prev.sessionStartTime),
-        totalPointsEarned: sanitizeNumber(gameData.totalPointsEarned, prev.totalPointsEarned) + offlinePoints,
-        lastDailyReset: gameData.lastDailyReset || prev.lastDailyReset,
-        lastWeeklyReset: gameData.lastWeeklyReset || prev.lastWeeklyReset,
-        version: gameData.version || prev.version,
-        highScore: Math.max(sanitizeNumber(gameData.highScore, prev.highScore), prev.highScore),
-        allTimeHighScore: Math.max(sanitizeNumber(gameData.allTimeHighScore, prev.allTimeHighScore), prev.allTimeHighScore),
-        currentEnergy: updatedEnergy,
-        maxEnergy: sanitizeNumber(gameData.maxEnergy, prev.maxEnergy),
-        lastEnergyRegen: sanitizeNumber(gameData.lastEnergyRegen, prev.lastEnergyRegen),
-        offlineEfficiencyBonus: sanitizeNumber(gameData.offlineEfficiencyBonus, prev.offlineEfficiencyBonus),
-        lastOfflineTime: sanitizeNumber(gameData.lastOfflineTime, prev.lastOfflineTime),
-        unclaimedOfflineRewards: sanitizeNumber(gameData.unclaimedOfflineRewards, prev.unclaimedOfflineRewards),
-        lastOfflineRewardTime: sanitizeNumber(gameData.lastOfflineRewardTime, prev.lastOfflineRewardTime),
-        miningLevel: sanitizeNumber(gameData.miningLevel, prev.miningLevel),
-        miningCombo: sanitizeNumber(gameData.miningCombo, prev.miningCombo),
-        miningStreak: sanitizeNumber(gameData.miningStreak, prev.miningStreak),
-        miningExperience: sanitizeNumber(gameData.miningExperience, prev.miningExperience),
-        miningExperienceToNext: sanitizeNumber(gameData.miningExperienceToNext, prev.miningExperienceToNext)
-      }));
-
-      // Load upgrades and achievements from Supabase with validation
-      if (gameData.upgrades && Array.isArray(gameData.upgrades)) {
-        const validatedUpgrades = gameData.upgrades.map((upgrade: any) => {
-          // Ensure all required fields exist
-          const validatedUpgrade = {
-            id: upgrade.id || 'unknown',
-            name: upgrade.name || 'Unknown Upgrade',
-            level: Math.max(0, Math.min(upgrade.level || 0, upgrade.maxLevel || 50)),
-            effect: upgrade.effect || '+0 effect',
-            baseCost: Math.max(1, upgrade.baseCost || 25),
-            costMultiplier: Math.max(1.01, upgrade.costMultiplier || 1.12),
-            effectValue: upgrade.effectValue || 0,
-            category: upgrade.category || 'chakra',
-            description: upgrade.description || 'An upgrade',
-            requires: upgrade.requires || undefined,
-            detailedDescription: upgrade.detailedDescription || upgrade.description || 'An upgrade',
-            benefits: upgrade.benefits || ['No benefits listed'],
-            tips: upgrade.tips || ['No tips available'],
-            unlockProgress: Math.max(0, Math.min(100, upgrade.unlockProgress || 0)),
-            maxLevel: Math.max(1, upgrade.maxLevel || 50),
-            unlockReward: upgrade.unlockReward || 'No reward'
-          };
-          
-          return validatedUpgrade;
-        });
-        
-        console.log('Loaded and validated upgrades from Supabase:', validatedUpgrades);
-        setUpgrades(validatedUpgrades);
-      } else {
-        console.log('No upgrades found in Supabase, using default upgrades');
-        setUpgrades(getInitialUpgrades());
-      }
-      
-      if (gameData.achievements && Array.isArray(gameData.achievements)) {
-        setAchievements(gameData.achievements);
-      }
-
-      // Save merged state to localStorage
-      saveToLocalStorage();
-
-      if (offlinePoints > 0 || energyRegenAmount > 0) {
-        showSystemNotification(
-          'Welcome Back!',
-          `Earned ${formatNumber(offlinePoints)} points and regenerated ${formatNumber(energyRegenAmount)} energy while away!`,
-          'success'
-        );
-      }
-
-      console.log('Loaded divine mining state from Supabase:', gameData);
-      return data; // Return the Supabase data for conflict resolution
+      const save = parseSave(data.game_data, 'Supabase');
+      console.log('Loaded divine mining state from Supabase:', save);
+      return save;
     } catch (error) {
       console.error('Error loading divine mining state from Supabase:', error);
       return null;
     }
   };
 
-  // Add helper function to calculate offline progress
-  const calculateOfflineProgress = (offlineTime: number, data: any): number => {
-    if (!data.is_mining) return 0;
-    
-    const sanitizeNumber = (value: any, defaultValue: number): number => {
-      const num = Number(value);
-      return isNaN(num) || !isFinite(num) ? defaultValue : num;
-    };
-    
-    const offlineHours = Math.max(0, offlineTime / (1000 * 60 * 60));
-    const basePointsPerHour = sanitizeNumber(data.points_per_second, 1.0) * 3600;
-    const multiplier = sanitizeNumber(data.mining_level, 1) ? 1 + (sanitizeNumber(data.mining_level, 1) * 0.1) : 1;
-    
-    return Math.floor(basePointsPerHour * offlineHours * multiplier);
-  };
-
-  // Add helper function to calculate offline energy regeneration
-  const calculateOfflineEnergyRegen = (
-    offlineTime: number,
-    currentEnergy: number,
-    maxEnergy: number,
-    regenRate: number,
-    miningLevel: number
-  ): number => {
-    const sanitizeNumber = (value: any, defaultValue: number): number => {
-      const num = Number(value);
-      return isNaN(num) || !isFinite(num) ? defaultValue : num;
-    };
-    
-    const validCurrentEnergy = sanitizeNumber(currentEnergy, 1000);
-    const validMaxEnergy = sanitizeNumber(maxEnergy, 1000);
-    const validRegenRate = sanitizeNumber(regenRate, 0.3);
-    const validMiningLevel = sanitizeNumber(miningLevel, 1);
-    
-    const premiumMultiplier = validMiningLevel > 10 ? 1.5 : 1;
-    const regenPerSecond = validRegenRate * premiumMultiplier;
-    const totalRegenPossible = Math.max(0, offlineTime / 1000) * regenPerSecond;
-    
-    const energyDeficit = Math.max(0, validMaxEnergy - validCurrentEnergy);
-    return Math.min(totalRegenPossible, energyDeficit);
-  };
-
   // Update the save function to handle both localStorage and Supabase
   const saveDivineMiningState = async () => {
     // Save to localStorage first (fast)
@@ -3211,35 +2371,86 @@ export const DivineMiningGame: React.FC = () => {
     await saveToSupabase();
   };
 
-  // Update load function to handle both localStorage and Supabase with proper priority
+  // Load both copies and merge them so progress made on either device is kept
   const loadDivineMiningState = async () => {
     console.log('🔄 Starting dual-save system load...');
     
-    // Load from localStorage first (fast)
-    const localState = loadFromLocalStorage();
-    
-    // Then load from Supabase (async) with proper conflict resolution
-    const supabaseState = await loadFromSupabase();
-    
-    // Resolve conflicts: Supabase data takes priority if it's newer
-    if (localState && supabaseState) {
-      const localTimestamp = localState.lastUpdate ? new Date(localState.lastUpdate).getTime() : 0;
-      const supabaseTimestamp = supabaseState.last_updated ? new Date(supabaseState.last_updated).getTime() : 0;
-      
-      if (supabaseTimestamp > localTimestamp) {
-        console.log('📊 Supabase data is newer, using Supabase state');
-        // Supabase data is already applied in loadFromSupabase
-      } else {
-        console.log('📊 localStorage data is newer, keeping localStorage state');
-        // localStorage data is already applied in loadFromLocalStorage
-      }
-    } else if (localState) {
-      console.log('📊 Only localStorage data available');
-    } else if (supabaseState) {
-      console.log('📊 Only Supabase data available');
+    const localSave = loadFromLocalStorage();
+    const cloudSave = await loadFromSupabase();
+    const economyQueue = getEconomyQueue();
+
+    // The server's economy ledger decides the balance; progress this device hasn't reported yet goes on top
+    const balances = user?.id ? await economyLedger.getBalances(user.id) : null;
+    const serverBalance = balances
+      ? balances.divinePoints + (localSave ? economyQueue.getUnreported(localSave.divinePoints) : 0)
+      : undefined;
+
+    let save: SaveData | null = localSave ?? cloudSave;
+    if (localSave && cloudSave) {
+      const result = mergeSaves(localSave, cloudSave, serverBalance);
+      save = result.save;
+      reportMergedFields(result.mergedFields);
     } else {
+      if (localSave) {
+        console.log('📊 Only localStorage data available');
+      } else if (cloudSave) {
+        console.log('📊 Only Supabase data available');
+      }
+      if (save && serverBalance !== undefined) save = reconcileSaveBalance(save, serverBalance);
+    }
+
+    if (!save) {
       console.log('📊 No saved data found, starting fresh');
+      balanceLedgerRef.current = createBalanceLedger(gameState.divinePoints);
+      economyQueue.setBaseline(gameState.divinePoints);
+      return;
+    }
+
+    // The queue's baseline tracks what the server has recorded; merged-in progress was reported elsewhere
+    if (balances) {
+      economyQueue.setBaseline(balances.divinePoints);
+    } else if (!economyQueue.hasBaseline() || !localSave) {
+      economyQueue.setBaseline(save.divinePoints);
+    } else {
+      economyQueue.adjustBaseline(save.divinePoints - localSave.divinePoints);
+    }
+
+    // Calculate offline progress and energy regeneration since the last save
+    const loaded = save;
+    const offlineTime = Date.now() - loaded.savedAt;
+    const offlinePoints = calculateOfflineProgress(offlineTime, loaded);
+    const energyRegenAmount = calculateOfflineEnergyRegen(offlineTime, loaded, loaded.upgrades);
+
+    // Offline earnings aren't in the ledger yet; the next save records them for this device
+    balanceLedgerRef.current = loaded.balanceLedger;
+    if (offlinePoints > 0) {
+      economyQueue.enqueue(createEconomyEntry('offline_claim', offlinePoints, undefined, { offlineMs: offlineTime }));
+    }
+
+    setGameState(prev => ({
+      ...prev,
+      ...getSaveGameState(loaded),
+      divinePoints: loaded.divinePoints + offlinePoints,
+      totalPointsEarned: loaded.totalPointsEarned + offlinePoints,
+      highScore: Math.max(loaded.highScore, prev.highScore),
+      allTimeHighScore: Math.max(loaded.allTimeHighScore, prev.allTimeHighScore),
+      currentEnergy: Math.min(loaded.currentEnergy + energyRegenAmount, loaded.maxEnergy)
+    }));
+    setUpgrades(loaded.upgrades);
+    applySavedAchievements(loaded.achievements);
+
+    if (offlinePoints > 0 || energyRegenAmount > 0) {
+      showSystemNotification(
+        'Welcome Back!',
+        `Earned ${formatNumber(offlinePoints)} points and regenerated ${formatNumber(energyRegenAmount)} energy while away!`,
+        'success'
+      );
     }
+
+    // Write the merged result back to both stores once state has updated
+    setTimeout(() => {
+      saveDivineMiningState();
+    }, 1000);
     
     console.log('✅ Dual-save system load completed');
   };
@@ -3274,6 +2485,8 @@ export const DivineMiningGame: React.FC = () => {
         if (resetFlag) {
           console.log('🔄 Reset flag detected, skipping old data load for fresh start');
           localStorage.removeItem(`RESET_FLAG_${telegramId}`);
+          balanceLedgerRef.current = createBalanceLedger(gameState.divinePoints);
+          getEconomyQueue().setBaseline(gameState.divinePoints);
           setIsInitialLoadComplete(true);
           setIsLoading(false);
           return;
@@ -3287,6 +2500,8 @@ export const DivineMiningGame: React.FC = () => {
           // Clean up the URL
           const newUrl = window.location.pathname + window.location.hash;
           window.history.replaceState({}, document.title, newUrl);
+          balanceLedgerRef.current = createBalanceLedger(gameState.divinePoints);
+          getEconomyQueue().setBaseline(gameState.divinePoints);
           setIsInitialLoadComplete(true);
           setIsLoading(false);
           return;
@@ -3427,160 +2642,94 @@ export const DivineMiningGame: React.FC = () => {
   const purchaseUpgrade = useCallback((upgradeId: string) => {
     setPurchasingUpgrade(upgradeId); // Set loading state
     
-    const upgrade = upgrades.find(u => u.id === upgradeId);
-    if (!upgrade) {
-      console.error('Upgrade not found:', upgradeId);
+    const result = evaluateUpgradePurchase(gameState, upgrades, upgradeId, activeBoosts);
+    if (!result.success) {
       setPurchasingUpgrade(null); // Clear loading state
+      switch (result.reason) {
+        case 'not_found':
+          console.error('Upgrade not found:', upgradeId);
+          break;
+        case 'locked':
+          console.error('Upgrade not available:', upgradeId);
+          showSystemNotification('Upgrade Locked', 'This upgrade requires previous upgrades to be purchased first!', 'warning');
+          break;
+        case 'maxed':
+          console.error('Upgrade already maxed:', upgradeId);
+          showSystemNotification('Upgrade Maxed', 'This upgrade has reached its maximum level!', 'info');
+          break;
+        case 'insufficient_points':
+          showSystemNotification('Insufficient Points', 'Not enough points for this upgrade!', 'warning');
+          break;
+      }
       return;
     }
 
-    // Validate upgrade can be purchased
-    if (!isUpgradeAvailable(upgrade)) {
-      console.error('Upgrade not available:', upgradeId);
-      setPurchasingUpgrade(null);
-      showSystemNotification('Upgrade Locked', 'This upgrade requires previous upgrades to be purchased first!', 'warning');
-      return;
-    }
+    const { upgrade, cost } = result;
 
-    if (isUpgradeMaxed(upgrade)) {
-      console.error('Upgrade already maxed:', upgradeId);
-      setPurchasingUpgrade(null);
-      showSystemNotification('Upgrade Maxed', 'This upgrade has reached its maximum level!', 'info');
-      return;
-    }
+    getEconomyQueue().enqueue(createEconomyEntry('upgrade_purchase', -cost, upgrade.id, { level: upgrade.level + 1 }));
 
-    const baseCost = Number(upgrade.baseCost);
-    const costMultiplier = Number(upgrade.costMultiplier);
-    const level = Number(upgrade.level);
-    
-    const validBaseCost = isNaN(baseCost) ? 25 : baseCost;
-    const validCostMultiplier = isNaN(costMultiplier) ? 1.12 : costMultiplier;
-    const validLevel = isNaN(level) ? 0 : level;
-    
-    const cost = Math.floor(validBaseCost * Math.pow(validCostMultiplier, validLevel));
-    
-    const divinePoints = Number(gameState.divinePoints);
-    const validDivinePoints = isNaN(divinePoints) ? 100 : divinePoints;
-    
-    if (validDivinePoints >= cost) {
-      // Calculate the effect this upgrade will provide
-      const effectValue = Number(upgrade.effectValue);
-      const validEffectValue = isNaN(effectValue) ? 0 : effectValue;
+    setGameState(prev => {
+      const newState = applyUpgradeEffect(prev, upgrade, cost);
       
-      setGameState(prev => {
-        let newState = {
-          ...prev,
-          divinePoints: prev.divinePoints - cost,
-          upgradesPurchased: prev.upgradesPurchased + 1
-        };
-        
-        // Handle different types of upgrades with proper effect application
-        if (upgradeId === 'energy-capacity' || upgradeId === 'energy-overflow' || upgradeId === 'vibrational-harmony' || upgradeId === 'transcendence' || upgradeId === 'space-bending' || upgradeId === 'earth-element') {
-          // Energy capacity upgrades
-          newState = {
-            ...newState,
-            maxEnergy: prev.maxEnergy + validEffectValue,
-            currentEnergy: Math.min(prev.currentEnergy, prev.maxEnergy + validEffectValue)
-          };
-        } else if (upgradeId === 'inner-strength' || upgradeId === 'aura-purification' || upgradeId === 'energy-mastery' || upgradeId === 'air-element') {
-          // Energy efficiency upgrades (negative effect values)
-          // These are handled in the mining calculation, no immediate state change needed
-          console.log(`Applied energy efficiency upgrade: ${upgrade.name} with effect ${validEffectValue}`);
-        } else if (upgradeId === 'psychic-awareness' || upgradeId === 'divine-resonance' || upgradeId === 'mindful-breathing' || upgradeId === 'water-element') {
-          // Energy regeneration upgrades
-          // These are handled in the energy regeneration calculation, no immediate state change needed
-          console.log(`Applied energy regeneration upgrade: ${upgrade.name} with effect ${validEffectValue}`);
-        } else if (upgradeId === 'cosmic-consciousness' || upgradeId === 'time-dilation') {
-          // Offline bonus upgrades
-          newState = {
-            ...newState,
-            offlineEfficiencyBonus: prev.offlineEfficiencyBonus + validEffectValue
-          };
-        } else if (upgradeId === 'reality-shift') {
-          // Global bonus upgrades
-          // This affects all bonuses, handled in calculations
-          console.log(`Applied global bonus upgrade: ${upgrade.name} with effect ${validEffectValue}`);
-        } else {
-          // Default: Points per second upgrades (most upgrades fall here)
-          newState = {
-            ...newState,
-            pointsPerSecond: prev.pointsPerSecond + validEffectValue
-          };
-        }
-        
-        console.log(`Upgrade applied: ${upgrade.name}`, {
-          effectValue: validEffectValue,
-          newPPS: newState.pointsPerSecond,
-          newMaxEnergy: newState.maxEnergy,
-          newOfflineBonus: newState.offlineEfficiencyBonus
-        });
-        
-        return newState;
+      console.log(`Upgrade applied: ${upgrade.name}`, {
+        effectValue: upgrade.effectValue,
+        newPPS: newState.pointsPerSecond,
+        newMaxEnergy: newState.maxEnergy,
+        newOfflineBonus: newState.offlineEfficiencyBonus
       });
+      
+      return newState;
+    });
 
-      setUpgrades(prev => {
-        const updatedUpgrades = prev.map(u => 
-          u.id === upgradeId 
-            ? { ...u, level: u.level + 1 }
-            : u
-        );
-        
-        // Save upgrades to localStorage immediately (user-specific)
-        try {
-          const userUpgradesKey = getUserSpecificKey(UPGRADES_KEY);
-          localStorage.setItem(userUpgradesKey, JSON.stringify(updatedUpgrades));
-          console.log('Upgrades saved to localStorage');
-          
-          // Show upgrade notification
-          showUpgradeNotification(upgrade.name, cost);
-        } catch (error) {
-          console.error('Error saving upgrades:', error);
-          showSystemNotification('Upgrade Error', 'Failed to save upgrade!', 'error');
-        }
-        
-        return updatedUpgrades;
-      });
+    setUpgrades(prev => {
+      const updatedUpgrades = prev.map(u => 
+        u.id === upgradeId 
+          ? { ...u, level: u.level + 1 }
+          : u
+      );
       
-      // Save state to both localStorage and Supabase
-      setTimeout(() => {
-        saveDivineMiningState();
-        setPurchasingUpgrade(null); // Clear loading state after save
+      // Save upgrades to localStorage immediately (user-specific)
+      try {
+        const userUpgradesKey = getUserSpecificKey(UPGRADES_KEY);
+        localStorage.setItem(userUpgradesKey, JSON.stringify(toSavedUpgrades(updatedUpgrades)));
+        console.log('Upgrades saved to localStorage');
         
-        // Dispatch custom event for TaskCenter to detect upgrade purchase
-        const upgradeEvent = new CustomEvent('upgradePurchased', {
-          detail: {
-            upgradeId: upgradeId,
-            upgradeName: upgrade.name,
-            level: upgrade.level + 1,
-            cost: cost,
-            timestamp: Date.now()
-          }
-        });
-        window.dispatchEvent(upgradeEvent);
-        console.log('🎉 Dispatched upgrade purchase event for TaskCenter');
-      }, 100);
+        // Show upgrade notification
+        showUpgradeNotification(upgrade.name, cost);
+      } catch (error) {
+        console.error('Error saving upgrades:', error);
+        showSystemNotification('Upgrade Error', 'Failed to save upgrade!', 'error');
+      }
       
-      console.log(`Purchased upgrade: ${upgrade.name} for ${cost} points`);
-    } else {
-      setPurchasingUpgrade(null); // Clear loading state on insufficient points
-      showSystemNotification('Insufficient Points', 'Not enough points for this upgrade!', 'warning');
-    }
-  }, [upgrades, gameState.divinePoints, isUpgradeAvailable, isUpgradeMaxed, showUpgradeNotification, showSystemNotification, saveDivineMiningState]);
+      return updatedUpgrades;
+    });
+    
+    // Save state to both localStorage and Supabase
+    setTimeout(() => {
+      saveDivineMiningState();
+      setPurchasingUpgrade(null); // Clear loading state after save
+      
+      // TaskCenter watches the store for purchases
+      recordUpgradePurchase({
+        upgradeId: upgradeId,
+        upgradeName: upgrade.name,
+        level: upgrade.level + 1,
+        cost: cost
+      });
+    }, 100);
+    
+    console.log(`Purchased upgrade: ${upgrade.name} for ${cost} points`);
+  }, [upgrades, gameState, activeBoosts, showUpgradeNotification, showSystemNotification, saveDivineMiningState, getEconomyQueue, recordUpgradePurchase]);
 
   // Update toggle mining function to save to both systems
   const toggleMining = useCallback(() => {
     setGameState(prev => {
-      // If trying to start mining, check energy
-      if (!prev.isMining && prev.currentEnergy < 1) {
-        // Silently prevent mining without notification - user can see energy bar
+      // Starting without energy is silently refused - user can see energy bar
+      const newState = toggleMiningState(prev);
+      if (newState === prev) {
         return prev;
       }
       
-      const newState = {
-        ...prev,
-        isMining: !prev.isMining
-      };
-      
       // Immediately save when mining state changes
       console.log(`Mining ${newState.isMining ? 'STARTED' : 'STOPPED'}:`, {
         divinePoints: newState.divinePoints,
@@ -3600,6 +2749,48 @@ export const DivineMiningGame: React.FC = () => {
     // Clear mining resumed flag when user manually toggles
   }, [showSystemNotification, saveDivineMiningState]);
 
+  // Reset balance and upgrades for a permanent multiplier. The server decides
+  // eligibility from recorded earnings and returns the multiplier.
+  const ascendGame = useCallback(async () => {
+    const { gameState: current } = latestStateRef.current;
+    const preview = getAscensionPreview(current);
+    if (!preview.eligible || isAscending) return;
+
+    setIsAscending(true);
+    try {
+      await getEconomyQueue().flush(current.divinePoints);
+      const result = await ascensionService.ascend();
+
+      const ascendedState: GameState = {
+        ...ascend(latestStateRef.current.gameState, result.multiplier),
+        divinePoints: result.divinePoints,
+        ascensionCount: result.ascensionCount
+      };
+      const freshUpgrades = getCatalogUpgrades(catalogRef.current);
+
+      balanceLedgerRef.current = createBalanceLedger(ascendedState.divinePoints);
+      getEconomyQueue().setBaseline(ascendedState.divinePoints);
+      localStorage.setItem(getUserSpecificKey(PRESTIGE_MULTIPLIER_KEY), String(result.multiplier));
+      localStorage.setItem(getUserSpecificKey(UPGRADES_KEY), JSON.stringify(toSavedUpgrades(freshUpgrades)));
+
+      setGameState(ascendedState);
+      setUpgrades(freshUpgrades);
+      setShowAscensionConfirmation(false);
+      showPrestigeNotification((result.multiplier - preview.currentMultiplier) * 100);
+
+      setTimeout(() => {
+        saveDivineMiningState();
+      }, 100);
+    } catch (error) {
+      console.error('Error ascending:', error);
+      showSystemNotification('Ascension Failed', 'Your earnings have not been verified yet. Try again in a moment.', 'error');
+    } finally {
+      setIsAscending(false);
+    }
+  }, [isAscending, getEconomyQueue, getUserSpecificKey, showPrestigeNotification, showSystemNotification, saveDivineMiningState]);
+
+  const ascensionPreview = getAscensionPreview(gameState);
+
   // Mining interval effect - ACTUALLY HANDLES THE MINING PROCESS
   useEffect(() => {
     if (!gameState.isMining) {
@@ -3614,55 +2805,24 @@ export const DivineMiningGame: React.FC = () => {
     // Start mining interval
     miningIntervalRef.current = setInterval(() => {
       setGameState(prev => {
-        // Check if we have enough energy to continue mining
-        const boostedRate = getEnhancedMiningRate();
-        const totalEfficiencyBonus = getEnergyEfficiencyBonus();
-        
-        const baseEnergyCost = 0.8;
-        const baseRate = Number(prev.pointsPerSecond);
-        const validBoostedRate = isNaN(boostedRate) ? 1.0 : boostedRate;
-        const validBaseRate = isNaN(baseRate) ? 1.0 : baseRate;
-        const miningSpeedMultiplier = Math.min(2.0, Math.max(0.5, validBoostedRate / validBaseRate));
-        const energyCost = Math.max(0.1, baseEnergyCost * miningSpeedMultiplier * (1 + totalEfficiencyBonus));
+        const result = mine(prev, upgrades, activeBoosts, MINING_TICK_MS / 1000);
         
-        // Check if we have enough energy for this mining cycle
-        if (prev.currentEnergy < energyCost) {
+        if (result.stoppedForEnergy) {
           console.log('Mining stopped: Not enough energy', {
             currentEnergy: prev.currentEnergy,
-            energyCost: energyCost,
-            boostedRate: boostedRate
+            energyCost: result.energyCost
+          });
+        } else {
+          console.log('Mining cycle:', {
+            pointsEarned: result.pointsEarned.toFixed(2),
+            energyCost: result.energyCost.toFixed(2),
+            newEnergy: result.state.currentEnergy.toFixed(2)
           });
-          
-          // Stop mining due to insufficient energy
-          return {
-            ...prev,
-            isMining: false
-          };
         }
         
-        // Calculate points earned this cycle
-        const pointsEarned = boostedRate * 0.5; // 500ms cycle
-        
-        // Update game state
-        const newState = {
-          ...prev,
-          divinePoints: prev.divinePoints + pointsEarned,
-          totalPointsEarned: prev.totalPointsEarned + pointsEarned,
-          currentEnergy: prev.currentEnergy - energyCost,
-          totalEarned24h: prev.totalEarned24h + pointsEarned,
-          totalEarned7d: prev.totalEarned7d + pointsEarned
-        };
-        
-        console.log('Mining cycle:', {
-          pointsEarned: pointsEarned.toFixed(2),
-          energyCost: energyCost.toFixed(2),
-          newEnergy: newState.currentEnergy.toFixed(2),
-          boostedRate: boostedRate.toFixed(2)
-        });
-        
-        return newState;
+        return result.state;
       });
-    }, 500); // Run every 500ms for smooth mining
+    }, MINING_TICK_MS); // Run every 500ms for smooth mining
 
     // Cleanup function
     return () => {
@@ -3671,7 +2831,7 @@ export const DivineMiningGame: React.FC = () => {
         miningIntervalRef.current = undefined;
       }
     };
-  }, [gameState.isMining, getEnhancedMiningRate, upgrades, saveGameState]);
+  }, [gameState.isMining, activeBoosts, upgrades, saveGameState]);
 
   // Energy regeneration effect
   useEffect(() => {
@@ -3680,58 +2840,25 @@ export const DivineMiningGame: React.FC = () => {
     }
 
     const energyRegenInterval = setInterval(() => {
-      setGameState(prev => {
-        const energyRegen = getEnergyRegenerationRate();
-        
-        const currentEnergy = Number(prev.currentEnergy);
-        const maxEnergy = Number(prev.maxEnergy);
-        const validCurrentEnergy = isNaN(currentEnergy) ? 1000 : currentEnergy;
-        const validMaxEnergy = isNaN(maxEnergy) ? 1000 : maxEnergy;
-        const newEnergy = Math.min(validMaxEnergy, validCurrentEnergy + energyRegen);
-        
-        return {
-          ...prev,
-          currentEnergy: newEnergy,
-          lastEnergyRegen: Date.now()
-        };
-      });
+      setGameState(prev => ({
+        ...regenerateEnergy(prev, upgrades, 1),
+        lastEnergyRegen: Date.now()
+      }));
     }, 1000); // Regenerate energy every second
 
     return () => clearInterval(energyRegenInterval);
-  }, [gameState.currentEnergy, gameState.maxEnergy, getEnergyRegenerationRate]);
+  }, [gameState.currentEnergy, gameState.maxEnergy, upgrades]);
 
   // Auto-mining effect
   useEffect(() => {
-    const autoMiningUpgrades = upgrades.filter(u => u.id === 'auto-mining');
-    const hasAutoMining = autoMiningUpgrades.some(u => u.level > 0);
-    
-    if (!hasAutoMining || gameState.isMining) {
-      return; // No auto-mining or already mining
-    }
-    
-    // Check if we have enough energy to start auto-mining
-    const boostedRate = getEnhancedMiningRate();
-    const totalEfficiencyBonus = getEnergyEfficiencyBonus();
-    
-    const baseEnergyCost = 0.8;
-    const baseRate = Number(gameState.pointsPerSecond);
-    const validBoostedRate = isNaN(boostedRate) ? 1.0 : boostedRate;
-    const validBaseRate = isNaN(baseRate) ? 1.0 : baseRate;
-    const miningSpeedMultiplier = Math.min(2.0, Math.max(0.5, validBoostedRate / validBaseRate));
-    const energyCost = Math.max(0.1, baseEnergyCost * miningSpeedMultiplier * (1 + totalEfficiencyBonus));
-    const minimumEnergyRequired = energyCost * 2 * 5; // 5 seconds worth
-    
-    const currentEnergy = Number(gameState.currentEnergy);
-    const validCurrentEnergy = isNaN(currentEnergy) ? 1000 : currentEnergy;
-    
-    if (validCurrentEnergy >= minimumEnergyRequired) {
+    if (canAutoStartMining(gameState, upgrades, activeBoosts)) {
       console.log('Auto-mining started: Sufficient energy available');
       setGameState(prev => ({
         ...prev,
         isMining: true
       }));
     }
-  }, [gameState.currentEnergy, gameState.isMining, getEnhancedMiningRate, getEnergyEfficiencyBonus]);
+  }, [gameState.currentEnergy, gameState.isMining, upgrades, activeBoosts]);
 
   // Enhanced number formatting
   const formatNumber = useCallback((num: number): string => {
@@ -3756,6 +2883,8 @@ export const DivineMiningGame: React.FC = () => {
   // Claim offline rewards function
   const claimOfflineRewards = useCallback(() => {
     if (gameState.unclaimedOfflineRewards > 0) {
+      getEconomyQueue().enqueue(createEconomyEntry('offline_claim', gameState.unclaimedOfflineRewards));
+
       setGameState(prev => {
         const newState = {
           ...prev,
@@ -3774,7 +2903,7 @@ export const DivineMiningGame: React.FC = () => {
       setShowOfflineRewards(false);
       // setOfflineRewardNotification('');
     }
-  }, [gameState.unclaimedOfflineRewards, showSystemNotification]);
+  }, [gameState.unclaimedOfflineRewards, showSystemNotification, getEconomyQueue]);
 
   // // Add test reset function for debugging
   // const testReset = useCallback(() => {
@@ -3813,24 +2942,7 @@ export const DivineMiningGame: React.FC = () => {
       try {
         const parsed = JSON.parse(savedUpgrades);
         if (Array.isArray(parsed) && parsed.length > 0) {
-          const validatedUpgrades = parsed.map(upgrade => ({
-            id: upgrade.id || 'unknown',
-            name: upgrade.name || 'Unknown Upgrade',
-            level: Math.max(0, Math.min(upgrade.level || 0, upgrade.maxLevel || 50)),
-            effect: upgrade.effect || '+0 effect',
-            baseCost: Math.max(1, upgrade.baseCost || 25),
-            costMultiplier: Math.max(1.01, upgrade.costMultiplier || 1.12),
-            effectValue: upgrade.effectValue || 0,
-            category: upgrade.category || 'chakra',
-            description: upgrade.description || 'An upgrade',
-            requires: upgrade.requires || undefined,
-            detailedDescription: upgrade.detailedDescription || upgrade.description || 'An upgrade',
-            benefits: upgrade.benefits || ['No benefits listed'],
-            tips: upgrade.tips || ['No tips available'],
-            unlockProgress: Math.max(0, Math.min(100, upgrade.unlockProgress || 0)),
-            maxLevel: Math.max(1, upgrade.maxLevel || 50),
-            unlockReward: upgrade.unlockReward || 'No reward'
-          }));
+          const { upgrades: validatedUpgrades } = reconcileUpgrades(parsed, getCatalogUpgrades(catalogRef.current));
           
           setUpgrades(validatedUpgrades);
           console.log('✅ Upgrades reloaded from localStorage:', validatedUpgrades);
@@ -3886,7 +2998,7 @@ export const DivineMiningGame: React.FC = () => {
       effectValue: u.effectValue,
       isAvailable: isUpgradeAvailable(u),
       isMaxed: isUpgradeMaxed(u),
-      cost: getUpgradeCost(u)
+      cost: getUpgradeCost(u, activeBoosts)
     })));
     
     // Check for common loading issues
@@ -3904,7 +3016,7 @@ export const DivineMiningGame: React.FC = () => {
     }
     
     showSystemNotification('Debug Complete', 'Check console for upgrade system analysis', 'info');
-  }, [gameState, upgrades, getEnergyRegenerationRate, getEnergyEfficiencyBonus, getEnhancedMiningRate, isUpgradeAvailable, isUpgradeMaxed, getUpgradeCost, getFilteredUpgrades, showSystemNotification]);
+  }, [gameState, upgrades, activeBoosts, getEnergyRegenerationRate, getEnergyEfficiencyBonus, getEnhancedMiningRate, isUpgradeAvailable, getFilteredUpgrades, showSystemNotification]);
 
   // Add keyboard shortcut for reset button visibility
   useEffect(() => {
@@ -4146,6 +3258,28 @@ export const DivineMiningGame: React.FC = () => {
           </button>
         </div>
 
+        {/* Compact Ascension */}
+        <div className="relative z-10 mb-4">
+          <button
+            onClick={() => setShowAscensionConfirmation(true)}
+            disabled={!ascensionPreview.eligible || isAscending}
+            className="w-full flex items-center justify-between p-3 rounded-lg transition-all duration-300 font-mono font-bold border bg-gradient-to-r from-yellow-900/40 to-amber-900/40 border-yellow-500/40 text-yellow-300 enabled:hover:scale-[1.01] enabled:active:scale-[0.99] enabled:shadow-[0_0_20px_rgba(234,179,8,0.3)] disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            <div className="flex items-center space-x-2">
+              <div className={`w-2 h-2 rounded-full bg-yellow-400 ${ascensionPreview.eligible ? 'animate-pulse' : ''}`}></div>
+              <span className="text-sm tracking-wider">🌟 ASCENSION</span>
+              <div className="text-xs px-2 py-1 rounded border border-yellow-400/30 bg-yellow-400/10">
+                x{ascensionPreview.currentMultiplier.toFixed(2)}
+              </div>
+            </div>
+            <div className="text-xs font-mono text-yellow-400">
+              {ascensionPreview.eligible
+                ? `ASCEND → x${ascensionPreview.nextMultiplier.toFixed(2)}`
+                : `${formatNumber(ascensionPreview.pointsToNextLevel)} MORE`}
+            </div>
+          </button>
+        </div>
+
         {/* Compact Status */}
         <div className="relative z-10 flex justify-between items-center text-xs font-mono text-gray-400 bg-gray-900/20 rounded-lg p-3 border border-gray-600/30">
           <div>
@@ -4289,7 +3423,7 @@ export const DivineMiningGame: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
                 {getPaginatedUpgrades().length > 0 ? (
                   getPaginatedUpgrades().map((upgrade) => {
-                    const cost = getUpgradeCost(upgrade);
+                    const cost = getUpgradeCost(upgrade, activeBoosts);
                     const canAfford = gameState.divinePoints >= cost;
                     const isMaxed = isUpgradeMaxed(upgrade);
                     const isAvailable = isUpgradeAvailable(upgrade);
@@ -4591,6 +3725,65 @@ export const DivineMiningGame: React.FC = () => {
         </div>
       )}
 
+      {/* Ascension Confirmation Modal */}
+      {showAscensionConfirmation && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="relative w-full max-w-md bg-gradient-to-br from-gray-900/95 to-black/95 backdrop-blur-xl border border-yellow-500/30 rounded-xl shadow-[0_0_40px_rgba(234,179,8,0.3)] overflow-hidden">
+            {/* Modal Header */}
+            <div className="flex items-center justify-between p-4 border-b border-yellow-500/20 bg-gradient-to-r from-yellow-900/20 to-amber-800/20">
+              <div className="flex items-center space-x-2">
+                <div className="w-3 h-3 rounded-full bg-yellow-400 animate-pulse"></div>
+                <div>
+                  <h2 className="text-lg font-mono font-bold text-yellow-300 tracking-wider">🌟 ASCENSION</h2>
+                  <p className="text-xs font-mono text-yellow-400">Begin a new cycle with a permanent bonus</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Modal Content */}
+            <div className="p-6 text-center">
+              <div className="mb-6">
+                <div className="text-sm font-mono text-gray-400 mb-2">MINING MULTIPLIER</div>
+                <div className="text-3xl font-mono font-bold text-yellow-300 tracking-wider">
+                  x{ascensionPreview.currentMultiplier.toFixed(2)} → x{ascensionPreview.nextMultiplier.toFixed(2)}
+                </div>
+                <div className="mt-4 space-y-2 text-left">
+                  <div className="flex items-center space-x-2 text-sm font-mono text-gray-300">
+                    <span className="text-yellow-400">•</span>
+                    <span>Divine points reset ({formatNumber(gameState.divinePoints)} → {formatNumber(Math.min(gameState.divinePoints, 100))})</span>
+                  </div>
+                  <div className="flex items-center space-x-2 text-sm font-mono text-gray-300">
+                    <span className="text-yellow-400">•</span>
+                    <span>All upgrades reset ({gameState.upgradesPurchased} purchased)</span>
+                  </div>
+                  <div className="flex items-center space-x-2 text-sm font-mono text-gray-300">
+                    <span className="text-yellow-400">•</span>
+                    <span>Lifetime earnings and achievements are kept</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setShowAscensionConfirmation(false)}
+                  disabled={isAscending}
+                  className="flex-1 px-6 py-3 rounded-lg text-sm font-mono font-bold tracking-wider transition-all duration-300 bg-gradient-to-r from-gray-700/50 to-gray-600/50 text-gray-300 border border-gray-600 hover:border-gray-500 hover:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  CANCEL
+                </button>
+                <button
+                  onClick={ascendGame}
+                  disabled={isAscending || !ascensionPreview.eligible}
+                  className="flex-1 px-6 py-3 rounded-lg text-sm font-mono font-bold tracking-wider transition-all duration-300 bg-gradient-to-r from-yellow-600 to-amber-500 hover:from-yellow-500 hover:to-amber-400 text-white border border-yellow-400 shadow-sm hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isAscending ? '🔄 ASCENDING...' : '🌟 ASCEND'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Tier Information Modal */}
       {showTierInfo && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-2 bg-black/80 backdrop-blur-sm" onClick={() => setShowTierInfo(false)}>
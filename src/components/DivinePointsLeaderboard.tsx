@@ -8,8 +8,11 @@ import {
   getDivinePointsLeaderboardByPeriod, 
   getUserDivinePointsRank,
   getDivinePointsStats,
+  getUserPeriodRank,
   // updateGenericUsernames
 } from '@/lib/supabaseClient';
+import type { LeaderboardPeriod } from '@/lib/supabaseClient';
+import { SeasonRewards } from './SeasonRewards';
 import { supabase } from '@/lib/supabaseClient';
 import './DivinePointsLeaderboard.css';
 
@@ -30,8 +33,38 @@ interface DivinePlayer {
   joinedAt: string;
   lastUpdated: string;
   period?: string;
+  // Period boards only (LEADERBOARD_PERIODS.sql)
+  periodPoints?: number;
+  rankChange?: number | null;
+  isFinal?: boolean;
 }
 
+type LeaderboardTab = 'all_time' | LeaderboardPeriod | 'seasons';
+
+interface PeriodRank {
+  rank: number;
+  rankChange: number | null;
+  pointsEarned: number;
+}
+
+const PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly'];
+
+const getTabPeriod = (tab: LeaderboardTab) => PERIODS.find(period => period === tab) ?? null;
+
+const TABS: { key: LeaderboardTab; label: string; icon: React.ReactNode }[] = [
+  { key: 'all_time', label: 'All Time', icon: <FaCrown /> },
+  { key: 'daily', label: 'Daily', icon: <BiTime /> },
+  { key: 'weekly', label: 'Weekly', icon: <BiTrendingUp /> },
+  { key: 'monthly', label: 'Monthly', icon: <BiStar /> },
+  { key: 'seasons', label: 'Seasons', icon: <GiTrophy /> }
+];
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, { current: string; previous: string }> = {
+  daily: { current: 'today', previous: 'Yesterday' },
+  weekly: { current: 'this week', previous: 'Last Week' },
+  monthly: { current: 'this month', previous: 'Last Month' }
+};
+
 interface LeaderboardData {
   topPlayers: DivinePlayer[];
   dailyWinners: DivinePlayer[];
@@ -56,6 +89,22 @@ const getRankIcon = (rank: number) => {
   return <span className="text-cyan-400 font-bold text-sm">#{rank}</span>;
 };
 
+// Places gained or lost since the last ranking pass; null is a player new to the board
+const getRankChange = (rankChange: number | null | undefined) => {
+  if (rankChange === undefined || rankChange === 0) return null;
+  if (rankChange === null) {
+    return <span className="text-purple-400 font-mono text-[10px] font-bold">NEW</span>;
+  }
+  return rankChange > 0
+    ? <span className="text-green-400 font-mono text-[10px] font-bold">▲{rankChange}</span>
+    : <span className="text-red-400 font-mono text-[10px] font-bold">▼{Math.abs(rankChange)}</span>;
+};
+
+const fetchPeriodRanks = async (): Promise<Record<LeaderboardPeriod, PeriodRank | null>> => {
+  const [daily, weekly, monthly] = await Promise.all(PERIODS.map(period => getUserPeriodRank(period)));
+  return { daily, weekly, monthly };
+};
+
 const formatNumber = (num: number): string => {
   if (num >= 1e12) return (num / 1e12).toFixed(1) + 'T';
   if (num >= 1e9) return (num / 1e9).toFixed(1) + 'B';
@@ -109,7 +158,14 @@ const generateMockDivinePlayers = (): DivinePlayer[] => {
 
 export const DivinePointsLeaderboard: React.FC = () => {
   const { user } = useAuth();
-  const [currentTab, setCurrentTab] = useState<'all_time' | 'daily' | 'weekly' | 'monthly'>('all_time');
+  const [currentTab, setCurrentTab] = useState<LeaderboardTab>('all_time');
+  const [showPrevious, setShowPrevious] = useState(false);
+  const [previousStandings, setPreviousStandings] = useState<DivinePlayer[]>([]);
+  const [periodRanks, setPeriodRanks] = useState<Record<LeaderboardPeriod, PeriodRank | null>>({
+    daily: null,
+    weekly: null,
+    monthly: null
+  });
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardData>({
     topPlayers: [],
     dailyWinners: [],
@@ -199,6 +255,9 @@ export const DivinePointsLeaderboard: React.FC = () => {
           userRankData = await getUserDivinePointsRank(user.id);
           console.log('User rank data:', userRankData);
         }
+        if (user?.id) {
+          setPeriodRanks(await fetchPeriodRanks());
+        }
 
         setLeaderboardData({
           topPlayers: allTimeData || [],
@@ -216,9 +275,9 @@ export const DivinePointsLeaderboard: React.FC = () => {
         console.error('Error loading leaderboard data:', error);
         // Fallback to mock data if database fails
         const allTimeData = generateMockDivinePlayers();
-        const dailyData = allTimeData.slice(0, 20).map(p => ({ ...p, divinePoints: Math.floor(p.divinePoints * 0.1) }));
-        const weeklyData = allTimeData.slice(0, 20).map(p => ({ ...p, divinePoints: Math.floor(p.divinePoints * 0.3) }));
-        const monthlyData = allTimeData.slice(0, 20).map(p => ({ ...p, divinePoints: Math.floor(p.divinePoints * 0.6) }));
+        const dailyData = allTimeData.slice(0, 20).map(p => ({ ...p, periodPoints: Math.floor(p.divinePoints * 0.1) }));
+        const weeklyData = allTimeData.slice(0, 20).map(p => ({ ...p, periodPoints: Math.floor(p.divinePoints * 0.3) }));
+        const monthlyData = allTimeData.slice(0, 20).map(p => ({ ...p, periodPoints: Math.floor(p.divinePoints * 0.6) }));
         
         const totalDivinePoints = allTimeData.reduce((sum, p) => sum + p.divinePoints, 0);
         const totalPointsEarned = allTimeData.reduce((sum, p) => sum + p.totalPointsEarned, 0);
@@ -257,7 +316,25 @@ export const DivinePointsLeaderboard: React.FC = () => {
     loadLeaderboardData();
   }, [user?.id, userDivinePoints]);
 
+  // Final standings of the period before the running one, fetched when asked for
+  useEffect(() => {
+    const period = getTabPeriod(currentTab);
+    if (!showPrevious || !period) return;
+
+    let cancelled = false;
+    setPreviousStandings([]);
+    getDivinePointsLeaderboardByPeriod(period, 50, true).then(standings => {
+      if (!cancelled) setPreviousStandings(standings);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showPrevious, currentTab]);
+
   const getCurrentTabData = () => {
+    if (showPrevious && getTabPeriod(currentTab)) return previousStandings;
+
     switch (currentTab) {
       case 'all_time': return leaderboardData.topPlayers;
       case 'daily': return leaderboardData.dailyWinners;
@@ -282,6 +359,13 @@ export const DivinePointsLeaderboard: React.FC = () => {
       if (user?.id && userDivinePoints > 0) {
         userRankData = await getUserDivinePointsRank(user.id);
       }
+      if (user?.id) {
+        setPeriodRanks(await fetchPeriodRanks());
+      }
+      const period = getTabPeriod(currentTab);
+      if (showPrevious && period) {
+        setPreviousStandings(await getDivinePointsLeaderboardByPeriod(period, 50, true));
+      }
 
       setLeaderboardData({
         topPlayers: allTimeData,
@@ -315,6 +399,12 @@ export const DivinePointsLeaderboard: React.FC = () => {
   //   }
   // };
 
+  const tabPeriod = getTabPeriod(currentTab);
+  const myPeriodRank = tabPeriod ? periodRanks[tabPeriod] : null;
+  const getPoints = (player: DivinePlayer) => (tabPeriod ? player.periodPoints ?? 0 : player.divinePoints);
+  const tabData = getCurrentTabData();
+  const topPoints = tabPeriod ? Math.max(0, ...tabData.map(getPoints)) : stats.maxDivinePoints;
+
   if (isLoading) {
     return (
       <div className="flex-1 p-custom space-y-2 overflow-y-auto game-scrollbar">
@@ -445,19 +535,33 @@ export const DivinePointsLeaderboard: React.FC = () => {
                 <div className="w-8 h-8 bg-gradient-to-br from-cyan-400 to-blue-500 rounded-lg flex items-center justify-center">
                   <span className="text-white text-xs font-bold">YOU</span>
                 </div>
-                <div>
-                  <div className="text-cyan-400 font-mono font-bold text-sm tracking-wider">
-                    #{userRank || 'N/A'}
-                    {previousUserRank && userRank && previousUserRank !== userRank && (
-                      <span className={`ml-2 text-xs ${
-                        userRank < previousUserRank ? 'text-green-400' : 'text-red-400'
-                      }`}>
-                        {userRank < previousUserRank ? '↗' : '↘'}
-                      </span>
-                    )}
+                {tabPeriod ? (
+                  <div>
+                    <div className="text-cyan-400 font-mono font-bold text-sm tracking-wider">
+                      #{myPeriodRank?.rank || 'N/A'}
+                      {myPeriodRank && (
+                        <span className="ml-2">{getRankChange(myPeriodRank.rankChange)}</span>
+                      )}
+                    </div>
+                    <div className="text-cyan-300 text-xs font-mono uppercase tracking-wider">
+                      Rank {PERIOD_LABELS[tabPeriod].current}
+                    </div>
                   </div>
-                  <div className="text-cyan-300 text-xs font-mono uppercase tracking-wider">Rank</div>
-                </div>
+                ) : (
+                  <div>
+                    <div className="text-cyan-400 font-mono font-bold text-sm tracking-wider">
+                      #{userRank || 'N/A'}
+                      {previousUserRank && userRank && previousUserRank !== userRank && (
+                        <span className={`ml-2 text-xs ${
+                          userRank < previousUserRank ? 'text-green-400' : 'text-red-400'
+                        }`}>
+                          {userRank < previousUserRank ? '↗' : '↘'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-cyan-300 text-xs font-mono uppercase tracking-wider">Rank</div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -490,15 +594,10 @@ export const DivinePointsLeaderboard: React.FC = () => {
 
       {/* Tab Navigation */}
       <div className="flex gap-1 bg-black/20 rounded-lg p-1">
-        {[
-          { key: 'all_time', label: 'All Time', icon: <FaCrown /> },
-          { key: 'daily', label: 'Daily', icon: <BiTime /> },
-          { key: 'weekly', label: 'Weekly', icon: <BiTrendingUp /> },
-          { key: 'monthly', label: 'Monthly', icon: <BiStar /> }
-        ].map((tab) => (
+        {TABS.map((tab) => (
           <button
             key={tab.key}
-            onClick={() => setCurrentTab(tab.key as any)}
+            onClick={() => setCurrentTab(tab.key)}
             className={`flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-md text-xs font-mono transition-all duration-300 ${
               currentTab === tab.key
                 ? 'bg-cyan-500/30 text-cyan-300 border border-cyan-400/50'
@@ -511,15 +610,39 @@ export const DivinePointsLeaderboard: React.FC = () => {
         ))}
       </div>
 
-      {/* Leaderboard */}
+      {/* Running period or the final standings of the one before */}
+      {tabPeriod && (
+        <div className="flex gap-1 bg-black/20 rounded-lg p-1">
+          {[false, true].map(previous => (
+            <button
+              key={String(previous)}
+              onClick={() => setShowPrevious(previous)}
+              className={`flex-1 py-1 px-3 rounded-md text-[10px] font-mono tracking-wider transition-all duration-300 ${
+                showPrevious === previous
+                  ? 'bg-cyan-500/20 text-cyan-300 border border-cyan-400/40'
+                  : 'text-gray-400 hover:text-cyan-300 hover:bg-black/30'
+              }`}
+            >
+              {previous ? `${PERIOD_LABELS[tabPeriod].previous.toUpperCase()} (FINAL)` : 'LIVE'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Leaderboard, or the season rewards tab */}
+      {currentTab === 'seasons' ? (
+        <SeasonRewards />
+      ) : (
       <div className="space-y-2">
-        {getCurrentTabData().length === 0 ? (
+        {tabData.length === 0 ? (
           <div className="text-center py-8 text-gray-400">
             <div className="text-lg mb-2">No players found</div>
-            <div className="text-sm">Start mining to appear on the leaderboard!</div>
+            <div className="text-sm">
+              {tabPeriod && showPrevious ? 'No final standings for this period yet.' : 'Start mining to appear on the leaderboard!'}
+            </div>
           </div>
         ) : (
-          getCurrentTabData().map((player, index) => {
+          tabData.map((player, index) => {
           const isCurrentUser = user?.id === player.userId;
           return (
             <div
@@ -541,7 +664,10 @@ export const DivinePointsLeaderboard: React.FC = () => {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <div className="flex items-center gap-2">
-                  {getRankIcon(player.rank)}
+                  <div className="flex flex-col items-center">
+                    {getRankIcon(player.rank)}
+                    {!player.isFinal && getRankChange(player.rankChange)}
+                  </div>
                   <div className="w-8 h-8 bg-gradient-to-br from-cyan-400 to-blue-500 rounded-lg flex items-center justify-center">
                     <span className="text-white text-xs font-bold">
                       {player.username.charAt(0).toUpperCase()}
@@ -571,10 +697,12 @@ export const DivinePointsLeaderboard: React.FC = () => {
 
               <div className="text-right">
                 <div className="text-cyan-400 font-mono font-bold text-lg tracking-wider">
-                  {formatNumber(player.divinePoints)}
+                  {formatNumber(getPoints(player))}
                 </div>
                 <div className="text-cyan-300 text-xs font-mono">
-                  +{player.pointsPerSecond.toFixed(1)}/s
+                  {tabPeriod
+                    ? player.isFinal ? 'final' : `earned ${PERIOD_LABELS[tabPeriod].current}`
+                    : `+${player.pointsPerSecond.toFixed(1)}/s`}
                 </div>
                 <div className="text-gray-400 text-xs">
                   Total: {formatNumber(player.totalPointsEarned)}
@@ -583,7 +711,7 @@ export const DivinePointsLeaderboard: React.FC = () => {
             </div>
 
             {/* Progress bar for top 3 */}
-            {player.rank <= 3 && stats.maxDivinePoints > 0 && (
+            {player.rank <= 3 && topPoints > 0 && (
               <div className="mt-2">
                 <div className="w-full bg-gray-700 rounded-full h-1">
                   <div 
@@ -592,7 +720,7 @@ export const DivinePointsLeaderboard: React.FC = () => {
                       player.rank === 2 ? 'bg-gray-300' :
                       'bg-amber-600'
                     }`}
-                    style={{ width: `${(player.divinePoints / stats.maxDivinePoints) * 100}%` }}
+                    style={{ width: `${(getPoints(player) / topPoints) * 100}%` }}
                   ></div>
                 </div>
               </div>
@@ -602,6 +730,7 @@ export const DivinePointsLeaderboard: React.FC = () => {
         })
         )}
       </div>
+      )}
 
       {/* Last Updated */}
       <div className="text-center text-gray-500 text-xs font-mono mt-4">
@@ -1,15 +1,16 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { RefreshCw, Users, Award, TrendingUp } from 'lucide-react';
 import useAuth from '@/hooks/useAuth';
-import { supabase } from '@/lib/supabaseClient';
+import { glpEngine, nanoToTon } from '@/lib/glpEngine';
+import type { GlpEpoch } from '@/lib/glpEngine';
+import { GlpShareVerifier } from './GlpShareVerifier';
 
 interface PoolEntry {
-  id: string;
+  id: number;
   username: string;
   avatar_url: string;
   shares: number;
   expected_reward: number;
-  created_at: string;
 }
 
 interface PoolStats {
@@ -63,8 +64,9 @@ const SkeletonLoader = () => (
 );
 
 // Modify PlayerStats for GMP
-const UserPoolStats = React.memo(({ userShares, userRank, expectedReward }: { 
+const UserPoolStats = React.memo(({ userShares, totalShares, userRank, expectedReward }: { 
   userShares: number;
+  totalShares: number;
   userRank: number;
   expectedReward: number;
 }) => {
@@ -87,10 +89,10 @@ const UserPoolStats = React.memo(({ userShares, userRank, expectedReward }: {
           </div>
         </div>
         <div className="space-y-2">
-          <Progress value={(userShares / expectedReward) * 100} />
+          <Progress value={totalShares > 0 ? (userShares / totalShares) * 100 : 0} />
           <div className="flex justify-between text-sm">
             <span className="text-gray-400">Expected Reward</span>
-            <span className="text-white font-medium">${expectedReward.toFixed(2)}</span>
+            <span className="text-white font-medium">{expectedReward.toFixed(4)} TON</span>
           </div>
         </div>
       </div>
@@ -142,7 +144,7 @@ const PoolEntryRow = React.memo(({ entry, index, isCurrentUser, topShares }: {
 
         <div className="text-right flex-shrink-0">
           <div className="font-medium text-white">
-            ${entry.expected_reward.toFixed(2)}
+            {entry.expected_reward.toFixed(4)} TON
           </div>
           <div className="text-sm text-gray-400">
             {percentageOfTop}% of top
@@ -157,48 +159,44 @@ const GlobalMatrixPool: React.FC = () => {
   const { user } = useAuth();
   const [poolEntries, setPoolEntries] = useState<PoolEntry[]>([]);
   const [poolStats, setPoolStats] = useState<PoolStats | null>(null);
+  const [epoch, setEpoch] = useState<GlpEpoch | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userPosition, setUserPosition] = useState<number | null>(null);
   const [userShares, setUserShares] = useState<number>(0);
+  const [userReward, setUserReward] = useState<number>(0);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [error, setError] = useState<string | null>(null);
 
   const fetchPoolData = useCallback(async () => {
     try {
-      const [entriesResponse, statsResponse] = await Promise.all([
-        supabase
-          .from('global_pool_rankings')
-          .select('*')
-          .order('shares', { ascending: false })
-          .limit(100),
-        supabase
-          .from('global_pool_stats')
-          .select('*')
-          .limit(1)
-      ]);
+      // The leaderboard is the latest sealed distribution report
+      const latestEpoch = await glpEngine.getLatestEpoch();
+      const shares = latestEpoch ? await glpEngine.getEpochShares(latestEpoch.id) : [];
+      const entries: PoolEntry[] = shares
+        .map(share => ({
+          id: share.userId,
+          username: share.username || `Player ${share.userId}`,
+          avatar_url: '',
+          shares: share.points,
+          expected_reward: nanoToTon(share.amountNano)
+        }))
+        .sort((a, b) => b.shares - a.shares || a.id - b.id);
 
-      if (entriesResponse.error) throw entriesResponse.error;
-      if (statsResponse.error) throw statsResponse.error;
-
-      if (entriesResponse.data) {
-        setPoolEntries(entriesResponse.data);
-        if (user?.id) {
-          const userPos = entriesResponse.data.findIndex(entry => entry.id === user.id) + 1;
-          const userEntry = entriesResponse.data.find(entry => entry.id === user.id);
-          setUserPosition(userPos || null);
-          setUserShares(userEntry?.shares || 0);
-        }
+      setEpoch(latestEpoch);
+      setPoolEntries(entries);
+      if (user?.id) {
+        const userPos = entries.findIndex(entry => entry.id === user.id) + 1;
+        const userEntry = entries.find(entry => entry.id === user.id);
+        setUserPosition(userPos || null);
+        setUserShares(userEntry?.shares || 0);
+        setUserReward(userEntry?.expected_reward || 0);
       }
 
-      if (statsResponse.data && statsResponse.data.length > 0) {
-        setPoolStats(statsResponse.data[0]);
-      } else {
-        setPoolStats({
-          total_reward: 0,
-          total_shares: 0,
-          total_participants: 0
-        });
-      }
+      setPoolStats({
+        total_reward: latestEpoch ? nanoToTon(latestEpoch.distributedNano) : 0,
+        total_shares: latestEpoch?.totalPoints || 0,
+        total_participants: latestEpoch?.participantCount || 0
+      });
 
       setLastUpdate(new Date());
       setError(null);
@@ -245,10 +243,13 @@ const GlobalMatrixPool: React.FC = () => {
         <>
           <UserPoolStats 
             userShares={userShares}
+            totalShares={poolStats?.total_shares || 0}
             userRank={userPosition || 0}
-            expectedReward={poolStats?.total_reward || 0}
+            expectedReward={userReward}
           />
 
+          <GlpShareVerifier userId={user?.id} epoch={epoch} />
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="bg-gray-800/30 rounded-xl p-6 border border-gray-700/50">
               <div className="flex items-center gap-2 text-blue-400 mb-2">
@@ -266,7 +267,7 @@ const GlobalMatrixPool: React.FC = () => {
                 <span className="font-medium">Total Reward</span>
               </div>
               <div className="text-2xl font-bold text-white">
-                ${poolStats?.total_reward.toLocaleString() || '0'}
+                {poolStats?.total_reward.toLocaleString() || '0'} TON
               </div>
             </div>
 
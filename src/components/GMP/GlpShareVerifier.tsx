@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, ShieldCheck, XCircle } from 'lucide-react';
+import { glpEngine, nanoToTon } from '@/lib/glpEngine';
+import type { GlpEpoch, GlpShareVerification } from '@/lib/glpEngine';
+
+interface GlpShareVerifierProps {
+  userId?: number;
+  epoch?: GlpEpoch | null; // Defaults to the latest sealed epoch
+}
+
+const shortHash = (hash: string | null) => (hash ? `${hash.slice(0, 10)}…${hash.slice(-6)}` : '--');
+
+const Check = ({ label, ok }: { label: string; ok: boolean }) => (
+  <div className="flex items-center gap-2 text-sm">
+    {ok ? <CheckCircle2 className="w-4 h-4 text-green-400" /> : <XCircle className="w-4 h-4 text-red-400" />}
+    <span className={ok ? 'text-gray-300' : 'text-red-300'}>{label}</span>
+  </div>
+);
+
+// Rebuilds the epoch's Merkle tree in the browser and checks the player's share against it
+export const GlpShareVerifier: React.FC<GlpShareVerifierProps> = ({ userId, epoch: epochProp }) => {
+  const [latestEpoch, setLatestEpoch] = useState<GlpEpoch | null>(null);
+  const [verification, setVerification] = useState<GlpShareVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const epoch = epochProp === undefined ? latestEpoch : epochProp;
+
+  useEffect(() => {
+    if (epochProp !== undefined) return;
+    glpEngine.getLatestEpoch()
+      .then(setLatestEpoch)
+      .catch(err => console.error('Error loading GLP epoch:', err));
+  }, [epochProp]);
+
+  useEffect(() => {
+    setVerification(null);
+    setError(null);
+  }, [epoch?.id, userId]);
+
+  const verify = async () => {
+    if (!epoch || !userId) return;
+    setIsVerifying(true);
+    try {
+      setVerification(await glpEngine.verifyShare(epoch.id, userId));
+      setError(null);
+    } catch (err) {
+      console.error('Error verifying GLP share:', err);
+      setError('Could not verify the distribution. Please try again later.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!epoch) return null;
+
+  return (
+    <div className="bg-gray-800/30 rounded-xl border border-gray-700/50 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-blue-400">
+          <ShieldCheck className="w-5 h-5" />
+          <span className="font-medium">Verify your GLP share</span>
+        </div>
+        <button
+          onClick={verify}
+          disabled={!userId || isVerifying}
+          className="px-3 py-1.5 bg-blue-500/20 border border-blue-400/40 rounded-lg text-sm text-blue-300 hover:bg-blue-500/30 disabled:opacity-50"
+        >
+          {isVerifying ? 'Verifying…' : 'Verify'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+        <div>Epoch ending {new Date(epoch.epochEnd).toLocaleDateString()}</div>
+        <div className="text-right">{epoch.status === 'paid' ? 'Paid' : 'Awaiting payout'}</div>
+        <div>Pool {nanoToTon(epoch.poolNano).toFixed(4)} TON</div>
+        <div className="text-right">{epoch.participantCount} leaders, {epoch.totalPoints.toLocaleString()} points</div>
+        <div className="col-span-2 font-mono break-all">Root {shortHash(epoch.merkleRoot)}</div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {verification && (
+        <div className="space-y-2 border-t border-gray-700/50 pt-3">
+          {verification.share ? (
+            <div className="text-sm text-white">
+              {verification.share.points.toLocaleString()} points → {nanoToTon(verification.share.amountNano).toFixed(4)} TON
+            </div>
+          ) : (
+            <div className="text-sm text-gray-400">You had no share in this epoch.</div>
+          )}
+          <Check label="Published shares rebuild the sealed root" ok={verification.rootMatches} />
+          {verification.share && (
+            <>
+              <Check label={`Your leaf is in the tree (${verification.proof.length}-step proof)`} ok={verification.leafMatches} />
+              <Check label="Your amount matches your points" ok={verification.amountMatches} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlpShareVerifier;
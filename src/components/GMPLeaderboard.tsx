@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { GiCrown, GiTrophy, GiMedal, GiCoins, GiGems, GiLightningArc } from 'react-icons/gi';
 import { BiTime, BiTrendingUp, BiStar } from 'react-icons/bi';
 import { useGameContext } from '@/contexts/GameContext';
+import { useAuth } from '@/hooks/useAuth';
+import { GlpShareVerifier } from '@/components/GMP/GlpShareVerifier';
 import './GMPLeaderboard.css';
 
 interface Player {
@@ -96,6 +98,7 @@ const formatNumber = (num: number): string => {
 
 export const GMPLeaderboard: React.FC = () => {
   const { points: userPoints, gems: userGems } = useGameContext();
+  const { user } = useAuth();
   const [currentTab, setCurrentTab] = useState<'global' | 'weekly' | 'monthly' | 'recent'>('global');
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardData>({
     topPlayers: [],
@@ -415,6 +418,11 @@ export const GMPLeaderboard: React.FC = () => {
             <div className="text-gray-400 text-xs font-mono uppercase tracking-wider">Updated</div>
           </div>
         </div>
+
+        {/* Latest Global Leadership Pool payout, checked against its Merkle root */}
+        <div className="mt-3">
+          <GlpShareVerifier userId={user?.id} />
+        </div>
     </div>
   );
 };
\ No newline at end of file
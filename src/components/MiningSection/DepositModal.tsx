@@ -11,7 +11,7 @@ interface DepositModalProps {
 }
 
 export const DepositModal: React.FC<DepositModalProps> = ({ isOpen, onClose, onSuccess }) => {
-  const { user, updateUserData } = useAuth();
+  const { user, refreshSTKBalance } = useAuth();
   const [amount, setAmount] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   // const [showConfirmation, setShowConfirmation] = useState(false);
@@ -57,19 +57,15 @@ export const DepositModal: React.FC<DepositModalProps> = ({ isOpen, onClose, onS
     
     setIsProcessing(true);
     try {
-      const { success, error } = await miningSystem.startMining(user.id, depositAmount);
+      const { success, error } = await miningSystem.startMining(depositAmount);
       
       if (!success) {
         throw new Error(error || 'Failed to start mining');
       }
       
       toast.success('Mining started successfully!');
-      if (updateUserData) {
-        updateUserData({
-          total_sbt: (user.total_sbt || 0) - depositAmount,
-          mining_power: depositAmount
-        });
-      }
+      // The deposit was taken from the STK ledger on the server
+      await refreshSTKBalance();
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -2,10 +2,12 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { GiPerson, GiPresent, GiShare } from 'react-icons/gi';
 import { BiLink } from 'react-icons/bi';
 import { useGameContext } from '@/contexts/GameContext';
+import { useGameStore } from '@/hooks/useGameStore';
 import { useAuth } from '@/hooks/useAuth';
 import { useReferralIntegration } from '@/hooks/useReferralIntegration';
 import './ReferralSystem.css';
-import { supabase } from '@/lib/supabaseClient';
+import { referralService } from '@/lib/referralService';
+import type { ReferralPayoutTotals } from '@/lib/referralService';
 import { ReferralPrompt } from '@/components/ReferralPrompt';
 
 interface ReferralReward {
@@ -40,8 +42,12 @@ interface DownlineInfo {
   isActive: boolean;
   level: number; // How many levels down (1 = direct referral)
   directReferrals: number;
+  payouts: ReferralPayoutTotals[]; // What this member's deposits and mining have paid you
 }
 
+const formatPayout = (amount: number, currency: ReferralPayoutTotals['currency']) =>
+  currency === 'ton' ? `${amount.toFixed(2)} TON` : `${Math.floor(amount).toLocaleString()} pts`;
+
 // Referral reward tiers
 const REFERRAL_REWARDS: ReferralReward[] = [
   {
@@ -87,7 +93,8 @@ const REFERRAL_REWARDS: ReferralReward[] = [
 ];
 
 export const ReferralSystem: React.FC = () => {
-  const { addPoints, addGems } = useGameContext();
+  const { addPoints } = useGameContext();
+  const addGems = useGameStore(state => state.addGems);
   const { user } = useAuth();
   const { 
     referralData,
@@ -284,82 +291,33 @@ export const ReferralSystem: React.FC = () => {
     if (!user?.id) return;
 
     try {
-      // Load upline (who referred you and their referrers)
-      const uplineResponse = await supabase
-        .from('users')
-        .select(`
-          id,
-          username,
-          rank,
-          total_earned,
-          created_at,
-          is_active,
-          referrer_id,
-          referrer:users!referrer_id(
-            id,
-            username,
-            rank,
-            total_earned,
-            created_at,
-            is_active,
-            referrer_id
-          )
-        `)
-        .eq('id', user.id)
-        .single();
-
-    let uplineArray: UplineInfo[] = [];
-    if (uplineResponse.data?.referrer_id) {
-      let currentUser = uplineResponse.data;
-      let level = 1;
-
-      while (currentUser.referrer && level <= 5) { // Limit to 5 levels
-        const referrerData = Array.isArray(currentUser.referrer) ? currentUser.referrer[0] : currentUser.referrer;
-        uplineArray.push({
-          id: referrerData.id.toString(),
-          username: referrerData.username,
-          rank: referrerData.rank || 'Novice',
-          totalEarned: referrerData.total_earned || 0,
-          joinedAt: new Date(referrerData.created_at).getTime(),
-          isActive: referrerData.is_active,
-          level
-        });
+      const [upline, downline, payoutTotals] = await Promise.all([
+        referralService.getUpline(user.id),
+        referralService.getDownline(user.id),
+        referralService.getPayoutTotals()
+      ]);
 
-        // Break the loop since we can't go deeper with current query structure
-        break;
-      }
-    }
+    const uplineArray: UplineInfo[] = upline.map(member => ({
+      id: member.id.toString(),
+      username: member.username,
+      rank: member.rank,
+      totalEarned: member.totalEarned,
+      joinedAt: member.joinedAt,
+      isActive: member.isActive,
+      level: member.level
+    }));
 
-    // Load downline (your referrals and their referrals)
-    const downlineResponse = await supabase
-      .from('referrals')
-      .select(`
-        *,
-        referred:users!referred_id(
-          id,
-          username,
-          rank,
-          total_earned,
-          created_at,
-          is_active,
-          direct_referrals
-        )
-      `)
-      .eq('referrer_id', user.id);
-
-    let downlineArray: DownlineInfo[] = [];
-    if (downlineResponse.data) {
-      downlineArray = downlineResponse.data.map(ref => ({
-        id: ref.referred.id.toString(),
-        username: ref.referred.username,
-        rank: ref.referred.rank || 'Novice',
-        totalEarned: ref.referred.total_earned || 0,
-        joinedAt: new Date(ref.referred.created_at).getTime(),
-        isActive: ref.referred.is_active,
-        level: 1,
-        directReferrals: ref.referred.direct_referrals || 0
-      }));
-    }
+    const downlineArray: DownlineInfo[] = downline.map(member => ({
+      id: member.id.toString(),
+      username: member.username,
+      rank: member.rank,
+      totalEarned: member.totalEarned,
+      joinedAt: member.joinedAt,
+      isActive: member.isActive,
+      level: member.level,
+      directReferrals: member.directReferrals,
+      payouts: payoutTotals[member.id] || []
+    }));
 
     // Update all states at once
     setUplineData(uplineArray);
@@ -793,6 +751,22 @@ useEffect(() => {
                         </div>
                       </div>
                     </div>
+                    {member.payouts.map(payout => (
+                      <div key={payout.currency} className="grid grid-cols-3 gap-1 mt-2 pt-2 border-t border-green-500/10 text-center">
+                        <div>
+                          <div className="text-yellow-400 font-mono text-xs">{formatPayout(payout.pending, payout.currency)}</div>
+                          <div className="text-gray-500 font-mono text-xs">Pending</div>
+                        </div>
+                        <div>
+                          <div className="text-green-400 font-mono text-xs">{formatPayout(payout.settled, payout.currency)}</div>
+                          <div className="text-gray-500 font-mono text-xs">Settled</div>
+                        </div>
+                        <div>
+                          <div className="text-red-400 font-mono text-xs">{formatPayout(payout.reversed, payout.currency)}</div>
+                          <div className="text-gray-500 font-mono text-xs">Reversed</div>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
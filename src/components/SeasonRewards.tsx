@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { GiCrown, GiDiamonds, GiTrophy } from 'react-icons/gi';
+import { BiTime } from 'react-icons/bi';
+import { useAuth } from '@/hooks/useAuth';
+import { useGameStore } from '@/hooks/useGameStore';
+import { economyLedger } from '@/lib/economyLedger';
+import { formatEventCountdown } from '@/lib/specialEvents';
+import {
+  formatBracket,
+  formatSeasonReward,
+  getSeasonBoost,
+  getSeasonStatus,
+  isSeasonClaimable,
+  seasons as seasonService
+} from '@/lib/seasons';
+import type { SeasonLeaderboardEntry, SeasonRewardTier, SeasonSummary } from '@/lib/seasons';
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+const formatPoints = (points: number) => Math.floor(points).toLocaleString();
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string } | null)?.message || fallback;
+
+// The season the tab opens on: the running one, then the next, then the latest closed
+const getFeaturedSeason = (list: SeasonSummary[], now: number) =>
+  list.find(season => ['running', 'closing'].includes(getSeasonStatus(season, now))) ??
+  [...list].reverse().find(season => getSeasonStatus(season, now) === 'upcoming') ??
+  list[0] ??
+  null;
+
+// Season tab of the leaderboard: the featured season with its reward table and
+// top players, rewards waiting to be claimed, and the player's past seasons.
+export const SeasonRewards: React.FC = () => {
+  const { user } = useAuth();
+  const setGems = useGameStore(state => state.setGems);
+  const addBoost = useGameStore(state => state.addBoost);
+  const [seasonList, setSeasonList] = useState<SeasonSummary[]>([]);
+  const [tiers, setTiers] = useState<SeasonRewardTier[]>([]);
+  const [standings, setStandings] = useState<SeasonLeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [claimingId, setClaimingId] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const loadSeasons = useCallback(async () => {
+    if (!user?.id) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const list = await seasonService.getMySeasons();
+      setSeasonList(list);
+
+      const featured = getFeaturedSeason(list, Date.now());
+      if (featured) {
+        const [featuredTiers, featuredStandings] = await Promise.all([
+          seasonService.getRewardTiers([featured.id]),
+          getSeasonStatus(featured) === 'upcoming' ? Promise.resolve([]) : seasonService.getLeaderboard(featured.id, 10)
+        ]);
+        setTiers(featuredTiers);
+        setStandings(featuredStandings);
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      setMessage('Could not load seasons.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadSeasons();
+  }, [loadSeasons]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleClaim = async (season: SeasonSummary) => {
+    setClaimingId(season.id);
+    setMessage(null);
+
+    try {
+      const claimed = await seasonService.claimReward(season);
+      setSeasonList(list => list.map(item => (item.id === claimed.id ? claimed : item)));
+
+      const boost = getSeasonBoost(claimed);
+      if (boost) addBoost(boost);
+
+      if (user?.id && claimed.reward && claimed.reward.gems > 0) {
+        const balances = await economyLedger.getBalances(user.id);
+        if (balances) setGems(balances.gems);
+      }
+
+      const stkShort = claimed.reward && claimed.stkPaid !== null && claimed.stkPaid < claimed.reward.stk;
+      setMessage(stkShort
+        ? `${season.name} reward claimed. Only ${claimed.stkPaid} STK was left to distribute.`
+        : `${season.name} reward claimed!`);
+    } catch (error) {
+      console.error('Error claiming season reward:', error);
+      setMessage(getErrorMessage(error, 'Could not claim the reward.'));
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8 text-cyan-400 font-mono text-sm animate-pulse tracking-wider">
+        LOADING SEASONS...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="text-center py-8 text-gray-400 text-sm">Sign in to take part in seasons.</div>
+    );
+  }
+
+  const featured = getFeaturedSeason(seasonList, now);
+  const featuredStatus = featured ? getSeasonStatus(featured, now) : null;
+  const claimable = seasonList.filter(isSeasonClaimable);
+  const history = seasonList.filter(season => season.closedAt !== null);
+
+  return (
+    <div className="space-y-2">
+      {message && (
+        <div className="bg-black/40 border border-cyan-400/30 rounded-lg p-2 text-center text-cyan-300 text-xs font-mono">
+          {message}
+        </div>
+      )}
+
+      {!featured && (
+        <div className="text-center py-8 text-gray-400">
+          <div className="text-lg mb-2">No seasons yet</div>
+          <div className="text-sm">The next season will be announced here.</div>
+        </div>
+      )}
+
+      {/* Featured season */}
+      {featured && (
+        <div className="relative bg-black/40 backdrop-blur-xl border border-purple-400/40 rounded-xl p-3 shadow-[0_0_20px_rgba(168,85,247,0.15)]">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center gap-2">
+              <GiTrophy className="text-purple-400 text-lg" />
+              <span className="text-purple-300 font-mono font-bold tracking-wider text-sm">{featured.name.toUpperCase()}</span>
+            </div>
+            <span className="flex items-center gap-1 text-[10px] font-mono text-gray-300">
+              <BiTime />
+              {featuredStatus === 'running' && `ENDS IN ${formatEventCountdown(featured.endsAt - now)}`}
+              {featuredStatus === 'upcoming' && `STARTS IN ${formatEventCountdown(featured.startsAt - now)}`}
+              {featuredStatus === 'closing' && 'FINAL RESULTS SOON'}
+              {featuredStatus === 'closed' && `ENDED ${formatDate(featured.endsAt)}`}
+            </span>
+          </div>
+          {featured.description && <div className="text-gray-400 text-xs mb-2">{featured.description}</div>}
+
+          {featuredStatus !== 'upcoming' && (
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              <div className="bg-black/30 rounded-lg p-2 text-center">
+                <div className="text-cyan-400 font-mono text-[10px] tracking-wider">YOUR RANK</div>
+                <div className="text-white font-bold text-sm">{featured.rank ? `#${featured.rank}` : 'N/A'}</div>
+              </div>
+              <div className="bg-black/30 rounded-lg p-2 text-center">
+                <div className="text-yellow-400 font-mono text-[10px] tracking-wider">EARNED</div>
+                <div className="text-white font-bold text-sm">{formatPoints(featured.pointsEarned)}</div>
+              </div>
+              <div className="bg-black/30 rounded-lg p-2 text-center">
+                <div className="text-green-400 font-mono text-[10px] tracking-wider">PLAYERS</div>
+                <div className="text-white font-bold text-sm">{featured.participantCount.toLocaleString()}</div>
+              </div>
+            </div>
+          )}
+
+          {/* Reward table */}
+          {tiers.length > 0 && (
+            <div className="space-y-1 mb-2">
+              {tiers.map(tier => (
+                <div key={tier.id} className="flex items-center justify-between bg-black/30 rounded-lg px-2 py-1 text-xs">
+                  <span className="text-purple-300 font-mono font-bold">
+                    {tier.tierLabel} <span className="text-gray-400 font-normal">({formatBracket(tier)})</span>
+                  </span>
+                  <span className="text-gray-200">{formatSeasonReward(tier)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {standings.length > 0 && (
+            <div className="space-y-1">
+              {standings.map(entry => (
+                <div
+                  key={entry.userId}
+                  className={`flex items-center justify-between px-2 py-1 rounded-lg text-xs ${
+                    entry.userId === user.id ? 'bg-green-500/10 border border-green-400/40' : 'bg-black/20'
+                  }`}
+                >
+                  <span className="flex items-center gap-2 text-white">
+                    {entry.rank === 1 ? <GiCrown className="text-yellow-400" /> : <span className="text-cyan-400 font-mono">#{entry.rank}</span>}
+                    {entry.username}
+                  </span>
+                  <span className="text-cyan-300 font-mono">{formatPoints(entry.pointsEarned)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Rewards waiting to be claimed */}
+      {claimable.map(season => season.reward && (
+        <div
+          key={season.id}
+          className="flex items-center justify-between bg-black/40 border border-yellow-400/50 rounded-xl p-3 shadow-[0_0_20px_rgba(251,191,36,0.2)]"
+        >
+          <div>
+            <div className="text-yellow-300 font-mono font-bold text-sm">
+              {season.name}: {season.reward.tierLabel} (#{season.rank})
+            </div>
+            <div className="text-gray-300 text-xs">{formatSeasonReward(season.reward)}</div>
+          </div>
+          <button
+            onClick={() => handleClaim(season)}
+            disabled={claimingId !== null}
+            className={`px-3 py-2 rounded-lg font-mono text-xs font-bold transition-all duration-300 ${
+              claimingId !== null
+                ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                : 'bg-yellow-500/20 border border-yellow-400 text-yellow-300 hover:bg-yellow-500/30'
+            }`}
+          >
+            {claimingId === season.id ? 'CLAIMING...' : 'CLAIM'}
+          </button>
+        </div>
+      ))}
+
+      {/* Season history */}
+      {history.length > 0 && (
+        <div className="bg-black/40 border border-cyan-400/30 rounded-xl p-3">
+          <div className="flex items-center gap-2 mb-2">
+            <GiDiamonds className="text-cyan-400" />
+            <span className="text-cyan-400 font-mono font-bold text-xs tracking-wider">SEASON HISTORY</span>
+          </div>
+          <div className="space-y-1">
+            {history.map(season => (
+              <div key={season.id} className="flex items-center justify-between bg-black/20 rounded-lg px-2 py-1 text-xs">
+                <div>
+                  <div className="text-white font-bold">{season.name}</div>
+                  <div className="text-gray-400">
+                    {formatDate(season.startsAt)} – {formatDate(season.endsAt)}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-cyan-300 font-mono">
+                    {season.rank ? `#${season.rank} of ${season.participantCount.toLocaleString()}` : 'Did not place'}
+                  </div>
+                  <div className={season.claimedAt ? 'text-green-400' : 'text-gray-400'}>
+                    {season.reward
+                      ? `${season.reward.tierLabel}${season.claimedAt ? ' • claimed' : ''}`
+                      : `${formatPoints(season.pointsEarned)} pts`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
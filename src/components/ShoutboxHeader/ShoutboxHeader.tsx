@@ -1,9 +1,19 @@
-import { FC, useState, useEffect, useRef } from 'react';
+import { FC, useState, useEffect, useMemo, useRef } from 'react';
+import { SpecialEventBanner } from '@/components/SpecialEventBanner';
+import { useSpecialEvents } from '@/hooks/useSpecialEvents';
 
 export const ShoutboxHeader: FC<{ onTabChange?: (tab: string) => void }> = ({ onTabChange }) => {
-  const [shoutboxMessages] = useState([
+  const [announcements] = useState([
     { text: "CroakKingdom is coming soon! 🐸" }
   ]);
+  const { activeEvents, upcomingEvents } = useSpecialEvents();
+  const liveEvents = useMemo(() => [...activeEvents, ...upcomingEvents], [activeEvents, upcomingEvents]);
+
+  // Event names scroll with the announcements; the countdown is pinned on the left
+  const shoutboxMessages = useMemo(() => [
+    ...liveEvents.map(event => ({ text: `🎉 ${event.name}${event.description ? ` - ${event.description}` : ''}` })),
+    ...announcements
+  ], [liveEvents, announcements]);
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const [scrollSpeed] = useState(30); // pixels per second
@@ -28,6 +38,13 @@ export const ShoutboxHeader: FC<{ onTabChange?: (tab: string) => void }> = ({ on
   return (
     <div className="relative top-0 left-0 right-0 z-50 bg-gradient-to-r from-green-600 to-yellow-600 overflow-hidden h-8">
       <div className="relative flex items-center h-full">
+        {/* Event countdown */}
+        {liveEvents.length > 0 && (
+          <div className="relative z-10 pl-1 shrink-0">
+            <SpecialEventBanner events={liveEvents} compact />
+          </div>
+        )}
+
         {/* Scrolling messages */}
         <div className="flex-1 overflow-hidden"
              onMouseEnter={() => setIsPaused(true)}
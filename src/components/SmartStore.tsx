@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useTonConnectUI } from '@tonconnect/ui-react';
-import { toNano } from '@ton/core';
-import { supabase } from '../lib/supabaseClient';
+import type { TonConnectUI } from '@tonconnect/ui-react';
+import { beginCell } from '@ton/core';
+import { DEPOSIT_ADDRESS, tokenPurchases } from '../lib/tokenPurchases';
+import type { TokenPurchase } from '../lib/tokenPurchases';
 import { useAuth } from '../hooks/useAuth';
 import { GiFrog, GiBasket, GiTrophy, GiWallet, GiCoins } from 'react-icons/gi';
 
@@ -18,50 +20,33 @@ interface TokenOffering {
   soldAmount: number; // Amount sold for progress calculation
 }
 
-// Add these constants at the top of the file after imports
-const MAINNET_DEPOSIT_ADDRESS = 'UQACvk54LPa9hJB1MbuDuipTrX63NB3mGLcn0gebqUc8_joY';
-const TESTNET_DEPOSIT_ADDRESS = 'UQACvk54LPa9hJB1MbuDuipTrX63NB3mGLcn0gebqUc8_joY';
-const isMainnet = true; // Toggle this for testing
-const DEPOSIT_ADDRESS = isMainnet ? MAINNET_DEPOSIT_ADDRESS : TESTNET_DEPOSIT_ADDRESS;
-
 // Add STK price constant
 const STK_PRICE_USDT = 0.0025; // 1 STK = $0.0025 USDT
 
-// Update the sendTonTransaction function to use tonConnectUI directly
-const sendTonTransaction = async (amount: number, tonConnectUI: any) => {
+// Pay a purchase: the memo goes in the transfer comment so the deposit watcher can match it
+const sendTonTransaction = async (amountNano: string, memo: string, tonConnectUI: TonConnectUI) => {
   try {
-    // More detailed validation
-    console.log('sendTonTransaction called with amount:', amount, 'type:', typeof amount);
-    
-    if (typeof amount !== 'number') {
-      throw new Error(`Amount must be a number, got: ${typeof amount}`);
-    }
-    
-    if (isNaN(amount)) {
-      throw new Error('Amount is NaN');
-    }
-    
-    if (!isFinite(amount)) {
-      throw new Error('Amount is not finite');
-    }
-    
-    if (amount <= 0) {
-      throw new Error(`Amount must be positive, got: ${amount}`);
+    console.log('sendTonTransaction called with:', { amountNano, memo });
+
+    if (!/^\d+$/.test(amountNano) || BigInt(amountNano) <= 0n) {
+      throw new Error(`Amount must be a positive nanoTON value, got: ${amountNano}`);
     }
-    
-    // Convert to string with fixed precision to avoid floating point issues
-    const amountString = amount.toFixed(9);
-    console.log('Amount as string:', amountString);
-    
-    const amountInNano = toNano(amountString);
-    console.log('Amount in nano:', amountInNano.toString());
+
+    // Text comment: 32-bit zero opcode followed by the comment
+    const payload = beginCell()
+      .storeUint(0, 32)
+      .storeStringTail(memo)
+      .endCell()
+      .toBoc()
+      .toString('base64');
     
     const transaction = {
       validUntil: Math.floor(Date.now() / 1000) + 60 * 20, // 20 minutes
       messages: [
         {
           address: DEPOSIT_ADDRESS,
-          amount: amountInNano.toString(),
+          amount: amountNano,
+          payload
         },
       ],
     };
@@ -102,19 +87,6 @@ const fetchTonPrice = async (): Promise<PriceData> => {
   }
 };
 
-// Add interface for purchase record
-interface PurchaseRecord {
-  id: string;
-  user_id: string;
-  offering_id: number;
-  usdt_amount: number;
-  ton_amount: number;
-  tokens_purchased: number;
-  tx_hash?: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  created_at: string;
-}
-
 const SmartStore = () => {
   const [tonConnectUI] = useTonConnectUI();
   const { user, refreshSTKBalance } = useAuth();
@@ -165,7 +137,7 @@ const SmartStore = () => {
   const [showWalletModal, setShowWalletModal] = useState(false);
 
   // Add state for purchase history
-  const [purchaseHistory, setPurchaseHistory] = useState<PurchaseRecord[]>([]);
+  const [purchaseHistory, setPurchaseHistory] = useState<TokenPurchase[]>([]);
   const [isHistoryLoading, setIsHistoryLoading] = useState(false);
   const [isHistoryVisible, setIsHistoryVisible] = useState(false);
 
@@ -178,21 +150,7 @@ const SmartStore = () => {
 
     setIsHistoryLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('token_purchases')
-        .select('*')
-        .eq('user_id', tonConnectUI.account.address)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Failed to fetch purchase history:', error);
-        setPurchaseHistory([]);
-      } else {
-        setPurchaseHistory(data || []);
-      }
-    } catch (error) {
-      console.error('Error fetching purchase history:', error);
-      setPurchaseHistory([]);
+      setPurchaseHistory(await tokenPurchases.getHistory(tonConnectUI.account.address));
     } finally {
       setIsHistoryLoading(false);
     }
@@ -203,6 +161,18 @@ const SmartStore = () => {
     refreshPurchaseHistory();
   }, [tonConnectUI.connected, tonConnectUI.account?.address]);
 
+  // Pending purchases are confirmed by the deposit watcher; keep checking until they settle
+  useEffect(() => {
+    if (!purchaseHistory.some(purchase => purchase.status === 'pending')) return;
+
+    const timeout = setTimeout(async () => {
+      await refreshPurchaseHistory();
+      await refreshSTKBalance();
+    }, 15000);
+
+    return () => clearTimeout(timeout);
+  }, [purchaseHistory]);
+
   // Add useEffect to fetch price data
   useEffect(() => {
     const loadPrices = async () => {
@@ -235,14 +205,6 @@ const SmartStore = () => {
     if (!tonConnectUI.connected || !tonConnectUI.account?.address) return;
 
     try {
-      // Update the user's wallet address if it's not set
-      if (user && user.wallet_address !== tonConnectUI.account.address) {
-        await supabase
-          .from('users')
-          .update({ wallet_address: tonConnectUI.account.address })
-          .eq('telegram_id', user.telegram_id);
-      }
-
       // Refresh STK balance using the auth hook
       await refreshSTKBalance();
     } catch (error) {
@@ -288,7 +250,6 @@ const SmartStore = () => {
     }
 
     setIsProcessing(true);
-    let purchaseId: string | null = null;
     
     try {
       // Check if wallet is connected
@@ -349,88 +310,32 @@ const SmartStore = () => {
         return;
       }
 
-      // Generate unique purchase ID
-      purchaseId = `purchase_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Create pending purchase record
-      const purchaseRecord: PurchaseRecord = {
-        id: purchaseId,
-        user_id: userWalletAddress,
-        offering_id: selectedOffering.id,
-        usdt_amount: amount,
-        ton_amount: tonAmount,
-        tokens_purchased: tokensPurchased,
-        status: 'pending',
-        created_at: new Date().toISOString()
-      };
-
-      console.log('Creating purchase record:', purchaseRecord);
-
-      // Insert pending purchase into database
-      const { error: insertError } = await supabase
-        .from('token_purchases')
-        .insert([purchaseRecord]);
-
-      if (insertError) {
-        console.error('Failed to create purchase record:', insertError);
-        showSnackbar('Database Error', 'Failed to create purchase record');
-        return;
-      }
-      
-      console.log('Purchase record created successfully');
+      // Server prices the purchase and issues the memo to pay with
+      const purchase = await tokenPurchases.create(selectedOffering.id, amount, tonAmount, userWalletAddress);
+      console.log('Created pending purchase:', purchase);
       
-      // Send TON transaction
+      // Send TON transaction. If the wallet rejects it the purchase simply expires.
       console.log('Sending TON transaction...');
-      const result = await sendTonTransaction(tonAmount, tonConnectUI);
+      const result = await sendTonTransaction(String(purchase.ton_amount_nano), purchase.memo!, tonConnectUI);
 
       if (result) {
-        console.log('TON transaction successful:', result);
-        
-        // Update purchase record with transaction hash and status
-        const { error: updateError } = await supabase
-          .from('token_purchases')
-          .update({ 
-            status: 'confirmed',
-            tx_hash: result.boc || result.hash
-          })
-          .eq('id', purchaseId);
-
-        if (updateError) {
-          console.error('Failed to update purchase record:', updateError);
-        }
-
-        console.log('Processing token allocation...');
-        // Process the token allocation
-        await processTokenAllocation(userWalletAddress, tokensPurchased, selectedOffering.id);
+        console.log('TON transaction sent:', result);
 
-        console.log('Refreshing user balance...');
-        // Refresh the balance from the DB to get the confirmed new value
-        await refreshUserBalance();
-
-        console.log('Refreshing purchase history...');
-        // Refresh purchase history
+        // STK is credited once the deposit watcher sees the transfer on-chain
         await refreshPurchaseHistory();
 
         showSnackbar(
-          'Purchase Successful!',
-          `Successfully purchased ${tokensPurchased.toFixed(2)} tokens for ${tonAmount.toFixed(4)} TON`
+          'Payment Sent!',
+          `Your ${Number(purchase.tokens_purchased).toFixed(2)} tokens will be credited once the payment is confirmed on-chain`
         );
         
         setIsPurchaseModalOpen(false);
         setPurchaseAmount('');
-        console.log('=== Purchase Process Completed Successfully ===');
+        console.log('=== Purchase Payment Sent ===');
       }
     } catch (error) {
       console.error('Purchase failed:', error);
       
-      // Update purchase record as failed if we have a purchase ID
-      if (purchaseId) {
-        await supabase
-          .from('token_purchases')
-          .update({ status: 'failed' })
-          .eq('id', purchaseId);
-      }
-      
       showSnackbar(
         'Purchase Failed',
         error instanceof Error ? error.message : 'Please try again later'
@@ -440,156 +345,6 @@ const SmartStore = () => {
     }
   };
 
-  // Update the processTokenAllocation function to use the authenticated user
-  const processTokenAllocation = async (userId: string, tokenAmount: number, offeringId: number) => {
-    try {
-      console.log('Starting token allocation process...');
-      console.log('User ID (wallet address):', userId);
-      console.log('Token amount to allocate:', tokenAmount);
-      console.log('Offering ID:', offeringId);
-      console.log('Current auth user:', user);
-
-      // Use the authenticated user from the auth hook
-      if (!user || !user.id) {
-        console.error('No authenticated user found');
-        return;
-      }
-
-      console.log('Current user data:', user);
-      console.log('Current STK balance:', user.total_sbt);
-
-      // Update user's STK token balance
-      const currentSTK = user.total_sbt || 0;
-      const newSTKBalance = currentSTK + tokenAmount;
-
-      console.log('New STK balance will be:', newSTKBalance);
-
-      // Update the user's wallet address if it's different
-      if (user.wallet_address !== userId) {
-        const { error: walletUpdateError } = await supabase
-          .from('users')
-          .update({ wallet_address: userId })
-          .eq('id', user.id);
-
-        if (walletUpdateError) {
-          console.error('Failed to update wallet address:', walletUpdateError);
-        }
-      }
-
-      // Update the STK balance
-      const { error: balanceError } = await supabase
-        .from('users')
-        .update({ 
-          total_sbt: newSTKBalance,
-          last_sbt_claim: new Date().toISOString()
-        })
-        .eq('id', user.id);
-
-      if (balanceError) {
-        console.error('Failed to update user STK balance:', balanceError);
-        return;
-      }
-
-      console.log('Successfully updated STK balance in database');
-
-      // Log the STK earning in earning_history
-      const { error: logError } = await supabase
-        .from('earning_history')
-        .insert({
-          user_id: user.id,
-          amount: tokenAmount,
-          type: 'token_purchase',
-          created_at: new Date().toISOString()
-        });
-
-      if (logError) {
-        console.error('Failed to log STK earning:', logError);
-      }
-
-      // Log in SBT history (since we're using total_sbt for STK)
-      const { error: sbtError } = await supabase
-        .from('sbt_history')
-        .insert({
-          user_id: user.id,
-          amount: tokenAmount,
-          type: 'token_purchase',
-          timestamp: new Date().toISOString()
-        });
-
-      if (sbtError) {
-        console.error('Failed to log SBT history:', sbtError);
-      }
-
-      // Update offering sold amount (if token_offerings table exists)
-      try {
-        const { error: offeringError } = await supabase
-          .from('token_offerings')
-          .update({ 
-            sold_amount: tokenAmount 
-          })
-          .eq('id', offeringId);
-
-        if (offeringError) {
-          console.error('Failed to update offering:', offeringError);
-        }
-      } catch (error) {
-        console.log('token_offerings table might not exist, skipping update');
-      }
-
-      console.log(`Successfully allocated ${tokenAmount} STK tokens to user ${user.id}`);
-
-      // Refresh the auth user data to reflect the new balance
-      console.log('Refreshing auth user data...');
-      await refreshSTKBalance();
-      
-      // Verify the update by fetching the user data again
-      const { data: verifyUser, error: verifyError } = await supabase
-        .from('users')
-        .select('total_sbt')
-        .eq('id', user.id)
-        .single();
-
-      if (verifyError) {
-        console.error('Failed to verify STK balance update:', verifyError);
-      } else {
-        console.log('Verified STK balance after update:', verifyUser.total_sbt);
-      }
-
-    } catch (error) {
-      console.error('Token allocation failed:', error);
-    }
-  };
-
-  // Add useEffect to update wallet address when connected
-  useEffect(() => {
-    const updateWalletAddress = async () => {
-      if (tonConnectUI.connected && tonConnectUI.account?.address && user) {
-        try {
-          // Only update if the wallet address is different
-          if (user.wallet_address !== tonConnectUI.account.address) {
-            console.log('Updating wallet address in database...');
-            const { error } = await supabase
-              .from('users')
-              .update({ wallet_address: tonConnectUI.account.address })
-              .eq('telegram_id', user.telegram_id);
-
-            if (error) {
-              console.error('Failed to update wallet address:', error);
-            } else {
-              console.log('Wallet address updated successfully');
-              // Refresh user data to get the updated wallet address
-              await refreshSTKBalance();
-            }
-          }
-        } catch (error) {
-          console.error('Error updating wallet address:', error);
-        }
-      }
-    };
-
-    updateWalletAddress();
-  }, [tonConnectUI.connected, tonConnectUI.account?.address, user?.telegram_id, user?.wallet_address]);
-
   // Add wallet connection modal
   const renderWalletModal = () => {
     if (!showWalletModal) return null;
@@ -1050,7 +805,7 @@ const SmartStore = () => {
                             </p>
                             <span className={`mt-2 inline-block px-3 py-1 text-xs font-bold rounded-full ${
                               purchase.status === 'confirmed' ? 'bg-gradient-to-r from-green-400 to-emerald-500 text-white' :
-                              purchase.status === 'failed' ? 'bg-gradient-to-r from-red-400 to-orange-400 text-white' :
+                              purchase.status === 'failed' || purchase.status === 'expired' ? 'bg-gradient-to-r from-red-400 to-orange-400 text-white' :
                               'bg-gradient-to-r from-yellow-400 to-orange-400 text-white'
                             }`}>
                               {purchase.status.charAt(0).toUpperCase() + purchase.status.slice(1)}
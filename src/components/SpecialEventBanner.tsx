@@ -0,0 +1,53 @@
+import { FC, useEffect, useState } from 'react';
+import { formatEventCountdown, isEventActive } from '@/lib/specialEvents';
+import type { SpecialEvent } from '@/lib/specialEvents';
+
+const EVENT_ICONS: Record<string, string> = {
+  double_points: '⚡',
+  reduced_energy: '🔋',
+  bonus_upgrades: '🕉️'
+};
+
+// Countdown for running and upcoming events. compact shows only the first one, on one line.
+export const SpecialEventBanner: FC<{ events: SpecialEvent[]; compact?: boolean }> = ({ events, compact = false }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (events.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [events.length]);
+
+  const shownEvents = compact ? events.slice(0, 1) : events;
+  if (shownEvents.length === 0) return null;
+
+  return (
+    <div className={compact ? 'flex items-center' : 'relative z-10 mt-2 space-y-1'}>
+      {shownEvents.map(event => {
+        const active = isEventActive(event, now);
+        const countdown = formatEventCountdown((active ? event.endsAt : event.startsAt) - now);
+
+        return (
+          <div
+            key={event.id}
+            className={compact
+              ? 'flex items-center space-x-1 px-2 py-0.5 rounded-2xl bg-black/40 text-[10px] font-mono font-bold text-white whitespace-nowrap'
+              : `flex items-center justify-between px-2 py-1 rounded-lg border font-mono text-[10px] ${
+                  active
+                    ? 'border-yellow-500/40 bg-yellow-500/10 text-yellow-300'
+                    : 'border-gray-500/30 bg-gray-500/10 text-gray-300'
+                }`}
+            title={event.description ?? undefined}
+          >
+            <span className="truncate">
+              {EVENT_ICONS[event.type] ?? '🎉'} {event.name}
+            </span>
+            <span className={compact ? 'text-yellow-300' : 'ml-2 shrink-0'}>
+              {active ? 'ENDS IN' : 'STARTS IN'} {countdown}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,548 +1,288 @@
-import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { GiCoins, GiLightningArc, GiUpgrade } from 'react-icons/gi';
-import { useGameContext } from '@/contexts/GameContext';
+import { useGameStore } from '@/hooks/useGameStore';
 import { useAuth } from '@/hooks/useAuth';
+import { WalletProofPanel } from '@/components/WalletProofPanel';
+import { buildTaskViews, taskEngine } from '@/lib/taskEngine';
+import { economyLedger } from '@/lib/economyLedger';
+import { isTaskModerator } from '@/lib/taskModeration';
+import { Link } from '@/components/Link/Link.tsx';
+import type { TaskDefinition, TaskView, UserTaskState } from '@/lib/taskEngine';
 import './TaskCenter.css';
 
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  reward: string;
-  progress: number;
-  max: number;
-  completed: boolean;
-  icon?: React.ReactNode;
-  type: 'mining' | 'social' | 'airdrop';
-}
-
-interface TaskProgress {
-  [key: string]: number;
-}
-
-interface GameState {
-  divinePoints?: number;
-  isMining?: boolean;
-  sessionStartTime?: number;
-  upgrades?: Array<{ id: string; level: number }>;
-  upgradesPurchased?: number;
-}
+type TaskTab = 'all' | 'mining' | 'social' | 'airdrop';
+
+// Server re-evaluation is cheap but not free; progress from mining shows up within this
+const SYNC_INTERVAL_MS = 30000;
+const TELEGRAM_CHECK_DELAY_MS = 8000;
+
+const formatReward = (task: TaskDefinition) =>
+  `${task.reward.toLocaleString()} ${task.rewardCurrency === 'gems' ? 'Gems' : 'Points'}`;
+
+const getTaskIcon = (task: TaskDefinition): React.ReactNode => {
+  switch (task.requirements[0]?.metric) {
+    case 'points_earned': return <GiCoins className="text-yellow-400" />;
+    case 'mining_minutes': return <GiLightningArc className="text-green-400" />;
+    case 'upgrades_bought': return <GiUpgrade className="text-blue-400" />;
+    default: return <span>{task.emoji}</span>;
+  }
+};
+
+const formatProgress = (task: TaskView) => {
+  const { progress, goal } = task.state;
+  if (task.requirements[0]?.metric === 'mining_minutes') {
+    return `Progress: ${progress}m / ${goal}m`;
+  }
+  return `Progress: ${progress.toLocaleString()}/${goal.toLocaleString()}`;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string } | null)?.message || fallback;
+
+// The game's own save, only used to show whether mining is running
+const readIsMining = (): boolean => {
+  try {
+    const saved = localStorage.getItem('divineMiningGame');
+    return saved ? !!JSON.parse(saved).isMining : false;
+  } catch {
+    return false;
+  }
+};
 
 export const TaskCenter: React.FC = () => {
-  const { addGems } = useGameContext();
+  const setGems = useGameStore(state => state.setGems);
   const { user } = useAuth();
-  
-  // Centralized state management
-  const [completedTasks, setCompletedTasks] = useState<string[]>([]);
-  const [taskProgress, setTaskProgress] = useState<TaskProgress>({});
-  const [processingTasks, setProcessingTasks] = useState<Set<string>>(new Set());
-  const [lastCompletionTime, setLastCompletionTime] = useState<{ [key: string]: number }>({});
-  const [gameState, setGameState] = useState<GameState>({});
-  const [miningTime, setMiningTime] = useState<number>(0);
-  
+
+  const [definitions, setDefinitions] = useState<TaskDefinition[]>([]);
+  const [states, setStates] = useState<UserTaskState[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isMining, setIsMining] = useState(readIsMining);
+  const [activeTab, setActiveTab] = useState<TaskTab>('all');
+
   // Modal states
   const [showRewardModal, setShowRewardModal] = useState(false);
   const [rewardMessage, setRewardMessage] = useState('');
-  const [showTaskModal, setShowTaskModal] = useState(false);
-  const [currentTaskModal, setCurrentTaskModal] = useState<{
-    task: Task;
-    type: 'social' | 'wallet' | 'invite';
-    message: string;
-    confirmText: string;
-    cancelText?: string;
-    onConfirm: () => void;
-    onCancel?: () => void;
-  } | null>(null);
+  const [confirmTask, setConfirmTask] = useState<TaskView | null>(null);
+  const [submissionTask, setSubmissionTask] = useState<TaskView | null>(null);
+  const [submission, setSubmission] = useState('');
+  const [submissionError, setSubmissionError] = useState('');
+  const [infoTask, setInfoTask] = useState<{ task: TaskView; message: string } | null>(null);
   const [showWalletModal, setShowWalletModal] = useState(false);
-  const [walletAddress, setWalletAddress] = useState('');
-  const [walletError, setWalletError] = useState('');
-  
-  // Refs for tracking
-  const autoCompletedTasksRef = useRef<Set<string>>(new Set());
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastUpdateRef = useRef<number>(0);
-  const isInitializedRef = useRef<boolean>(false);
-  
-  // Helper function to get user-specific localStorage keys
-  const getUserSpecificKey = useCallback((baseKey: string, userId?: string) => {
-    if (!userId) return baseKey;
-    return `${baseKey}_${userId}`;
-  }, []);
 
-  // Safe localStorage operations
-  const safeGetItem = useCallback((key: string, defaultValue: any = null) => {
-    try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch (error) {
-      console.error('Error reading localStorage:', error);
-      return defaultValue;
-    }
+  const applyState = useCallback((next: UserTaskState) => {
+    setStates(prev => [...prev.filter(state => state.taskId !== next.taskId), next]);
   }, []);
 
-  const safeSetItem = useCallback((key: string, value: any) => {
+  const statesRef = useRef<UserTaskState[]>([]);
+  useEffect(() => {
+    statesRef.current = states;
+  }, [states]);
+
+  const syncTasks = useCallback(async () => {
+    if (!user?.id) return;
     try {
-      localStorage.setItem(key, JSON.stringify(value));
+      const next = await taskEngine.sync();
+
+      // Approved submissions are paid on the server; pick up the new gem balance
+      const paidByReview = next.some(state =>
+        state.status === 'claimed' &&
+        statesRef.current.some(previous => previous.taskId === state.taskId && previous.status === 'pending_review')
+      );
+      if (paidByReview) {
+        const balances = await economyLedger.getBalances(user.id);
+        if (balances) setGems(balances.gems);
+      }
+
+      setStates(next);
+      setLoadError(null);
     } catch (error) {
-      console.error('Error writing to localStorage:', error);
+      console.error('Error syncing tasks:', error);
+      setLoadError('Could not refresh your tasks');
     }
-  }, []);
+  }, [user?.id, setGems]);
 
-  // Optimized mining time calculation
-  const calculateMiningTime = useCallback((currentGameState: GameState, userId: string) => {
-    if (!currentGameState.isMining || !currentGameState.sessionStartTime) {
-      return 0;
-    }
+  useEffect(() => {
+    if (!user?.id) return;
 
-    const miningTimeKey = getUserSpecificKey('miningTime', userId);
-    const lastUpdateKey = getUserSpecificKey('lastMiningUpdate', userId);
-    
-    const now = Date.now();
-    const storedTime = parseFloat(localStorage.getItem(miningTimeKey) || '0');
-    const lastUpdate = parseFloat(localStorage.getItem(lastUpdateKey) || '0');
-    
-    // Calculate time delta more accurately
-    const timeDelta = lastUpdate > 0 ? 
-      (now - lastUpdate) / 1000 : 
-      (now - currentGameState.sessionStartTime) / 1000;
-    
-    const newTotalTime = storedTime + Math.max(0, timeDelta);
-    
-    // Update storage
-    localStorage.setItem(miningTimeKey, newTotalTime.toString());
-    localStorage.setItem(lastUpdateKey, now.toString());
-    
-    return Math.min(newTotalTime, 3600); // Cap at 1 hour
-  }, [getUserSpecificKey]);
-
-  // Centralized game state reader
-  const readGameState = useCallback((): GameState => {
-    const savedGameState = safeGetItem('divineMiningGame', {});
-    return {
-      divinePoints: savedGameState.divinePoints || 0,
-      isMining: savedGameState.isMining || false,
-      sessionStartTime: savedGameState.sessionStartTime || 0,
-      upgrades: savedGameState.upgrades || [],
-      upgradesPurchased: savedGameState.upgradesPurchased || 0
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const tasks = await taskEngine.getTasks();
+        if (!cancelled) setDefinitions(tasks);
+        await syncTasks();
+      } catch (error) {
+        console.error('Error loading tasks:', error);
+        if (!cancelled) setLoadError('Could not load tasks');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
     };
-  }, [safeGetItem]);
 
-  // Optimized progress calculation
-  const calculateProgress = useCallback(() => {
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, syncTasks]);
+
+  useEffect(() => {
     if (!user?.id) return;
 
-    const currentGameState = readGameState();
-    const userId = user.id.toString();
-    
-    // Calculate mining time
-    const currentMiningTime = calculateMiningTime(currentGameState, userId);
-    
-    // Check for upgrades
-    const hasUpgrades = currentGameState.upgrades?.some(upgrade => (upgrade.level || 0) > 0) || 
-                       (currentGameState.upgradesPurchased || 0) > 0;
-
-    const newProgress: TaskProgress = {
-      mine_1000: Math.min(currentGameState.divinePoints || 0, 1000),
-      mine_10000: Math.min(currentGameState.divinePoints || 0, 10000),
-      mine_1hour: Math.floor(currentMiningTime),
-      buy_upgrade: hasUpgrades ? 1 : 0,
-      follow_twitter: 0,
-      join_telegram: 0,
-      retweet_post: 0,
-      submit_wallet: 0,
-      invite_friend: 0,
-      like_post: 0
-    };
+    const interval = setInterval(() => {
+      setIsMining(readIsMining());
+      syncTasks();
+    }, SYNC_INTERVAL_MS);
 
-    // Update states
-    setGameState(currentGameState);
-    setMiningTime(currentMiningTime);
-    setTaskProgress(newProgress);
-
-    // Auto-complete tasks
-    const tasksToComplete = [
-      { id: 'mine_1000', condition: newProgress.mine_1000 >= 1000, reward: '50 Gems' },
-      { id: 'mine_10000', condition: newProgress.mine_10000 >= 10000, reward: '100 Gems' },
-      { id: 'mine_1hour', condition: newProgress.mine_1hour >= 3600, reward: '75 Gems' },
-      { id: 'buy_upgrade', condition: newProgress.buy_upgrade >= 1, reward: '25 Gems' }
-    ];
-
-    tasksToComplete.forEach(({ id, condition, reward }) => {
-      if (condition && 
-          !completedTasks.includes(id) && 
-          !processingTasks.has(id) &&
-          !autoCompletedTasksRef.current.has(id)) {
-        console.log(`🎉 Auto-completing task: ${id}`);
-        autoCompletedTasksRef.current.add(id);
-        completeTask(id, reward);
+    // Upgrade purchases are recorded in the ledger on the next save; check again shortly after
+    const unsubscribe = useGameStore.subscribe((state, previous) => {
+      if (state.lastUpgradePurchase && state.lastUpgradePurchase !== previous.lastUpgradePurchase) {
+        setTimeout(syncTasks, 5000);
       }
     });
 
-  }, [user?.id, readGameState, calculateMiningTime, completedTasks, processingTasks]);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [user?.id, syncTasks]);
 
-  // Optimized completeTask function
-  const completeTask = useCallback((taskId: string, reward: string) => {
-    const now = Date.now();
-    
-    // Comprehensive validation
-    if (completedTasks.includes(taskId)) {
-      console.log(`⚠️ Task ${taskId} already completed`);
-      return;
-    }
-    
-    if (processingTasks.has(taskId)) {
-      console.log(`⚠️ Task ${taskId} is being processed`);
-      return;
-    }
-    
-    // Rate limiting
-    const lastCompletion = lastCompletionTime[taskId];
-    if (lastCompletion && (now - lastCompletion) < 1000) {
-      console.log(`⚠️ Task ${taskId} rate limited`);
-      return;
-    }
-    
-    // Mark as processing
-    setProcessingTasks(prev => new Set(prev).add(taskId));
-    setLastCompletionTime(prev => ({ ...prev, [taskId]: now }));
-    
+  const tasks = useMemo(() => buildTaskViews(definitions, states), [definitions, states]);
+
+  const claimReward = useCallback(async (task: TaskView) => {
+    setBusyTaskId(task.taskId);
     try {
-      const gemMatch = reward.match(/(\d+)\s*Gems?/);
-      if (gemMatch) {
-        const gemAmount = parseInt(gemMatch[1], 10);
-        
-        // Atomic state update
-        setCompletedTasks(prev => {
-          if (prev.includes(taskId)) {
-            console.log(`⚠️ Task ${taskId} was completed by another process`);
-            autoCompletedTasksRef.current.delete(taskId);
-            return prev;
-          }
-          
-          const newCompleted = [...prev, taskId];
-          
-          // Add gems and show reward
-          addGems(gemAmount, `task_${taskId}`);
-          setRewardMessage(`🎉 Task completed! +${gemAmount} Gems`);
-          setShowRewardModal(true);
-          
-          // Clean up auto-completion tracking
-          autoCompletedTasksRef.current.delete(taskId);
-          
-          return newCompleted;
-        });
+      const balances = await taskEngine.claimReward(task.taskId);
+      if (balances && task.rewardCurrency === 'gems') {
+        setGems(balances.gems);
       }
+      setRewardMessage(`🎉 Task completed! +${formatReward(task)}`);
+      setShowRewardModal(true);
     } catch (error) {
-      console.error('Error completing task:', error);
+      console.error('Error claiming task reward:', error);
+      setInfoTask({ task, message: getErrorMessage(error, 'Could not claim the reward. Please try again.') });
     } finally {
-      // Always clean up processing state
-      setProcessingTasks(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(taskId);
-        return newSet;
-      });
+      setBusyTaskId(null);
+      await syncTasks();
     }
-  }, [completedTasks, processingTasks, lastCompletionTime, addGems]);
+  }, [setGems, syncTasks]);
 
-  // Load completed tasks on mount
-  useEffect(() => {
-    if (!user?.id) return;
+  const runTaskStep = useCallback(async (task: TaskView, step: () => Promise<UserTaskState>) => {
+    setBusyTaskId(task.taskId);
+    try {
+      const next = await step();
+      applyState(next);
+      return next;
+    } catch (error) {
+      console.error(`Error updating task ${task.taskId}:`, error);
+      setInfoTask({ task, message: getErrorMessage(error, 'Something went wrong. Please try again.') });
+      return null;
+    } finally {
+      setBusyTaskId(null);
+    }
+  }, [applyState]);
 
-    const userId = user.id.toString();
-    const completedTasksKey = getUserSpecificKey('divineMiningCompletedTasks', userId);
-    const savedTasks = safeGetItem(completedTasksKey, []);
-    
-    setCompletedTasks(savedTasks);
-    
-    // Clean up auto-completion refs
-    savedTasks.forEach((taskId: string) => {
-      autoCompletedTasksRef.current.delete(taskId);
-    });
-    
-    isInitializedRef.current = true;
-  }, [user?.id, getUserSpecificKey, safeGetItem]);
+  const handleConfirm = useCallback(async (task: TaskView) => {
+    setConfirmTask(null);
 
-  // Save completed tasks
-  useEffect(() => {
-    if (!user?.id || !isInitializedRef.current) return;
+    if (task.verification === 'telegram') {
+      const next = await runTaskStep(task, () => taskEngine.requestVerification(task.taskId));
+      if (next) {
+        // The bot checks the queue every few seconds
+        setTimeout(syncTasks, TELEGRAM_CHECK_DELAY_MS);
+      }
+      return;
+    }
 
-    const userId = user.id.toString();
-    const completedTasksKey = getUserSpecificKey('divineMiningCompletedTasks', userId);
-    safeSetItem(completedTasksKey, completedTasks);
-  }, [completedTasks, user?.id, getUserSpecificKey, safeSetItem]);
+    const next = await runTaskStep(task, () => taskEngine.confirm(task.taskId));
+    if (next?.status === 'completed') {
+      await claimReward(task);
+    }
+  }, [runTaskStep, claimReward, syncTasks]);
 
-  // Optimized polling with better cleanup
-  useEffect(() => {
-    if (!user?.id) return;
+  const handleSubmit = useCallback(async () => {
+    if (!submissionTask) return;
 
-    // Initial calculation
-    calculateProgress();
-
-    // Set up optimized interval (every 2 seconds instead of 1)
-    intervalRef.current = setInterval(() => {
-      const now = Date.now();
-      
-      // Throttle updates to prevent excessive calculations
-      if (now - lastUpdateRef.current < 2000) return;
-      
-      lastUpdateRef.current = now;
-      calculateProgress();
-    }, 2000);
-
-    // Event listeners for immediate updates
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'divineMiningGame') {
-        calculateProgress();
-      }
-    };
+    const trimmed = submission.trim();
+    if (!trimmed) {
+      setSubmissionError('Please enter your submission');
+      return;
+    }
+    if (submissionTask.submissionType !== 'text' && !/^https?:\/\/\S+$/i.test(trimmed)) {
+      setSubmissionError('Please enter a link starting with https://');
+      return;
+    }
 
-    const handleUpgradePurchase = (e: CustomEvent) => {
-      console.log('🎉 Upgrade purchased event detected:', e.detail);
-      // Force immediate progress calculation
-      setTimeout(calculateProgress, 100);
-    };
+    const task = submissionTask;
+    setSubmissionTask(null);
+    const next = await runTaskStep(task, () => taskEngine.submit(task.taskId, trimmed));
+    if (next) {
+      setInfoTask({ task, message: '✅ Submission received!\n\nA moderator will review it and your reward is paid as soon as it is approved.' });
+    }
+  }, [submissionTask, submission, runTaskStep]);
 
-    window.addEventListener('storage', handleStorageChange);
-    window.addEventListener('upgradePurchased', handleUpgradePurchase as EventListener);
+  const handleTaskAction = useCallback(async (task: TaskView) => {
+    const { status } = task.state;
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('upgradePurchased', handleUpgradePurchase as EventListener);
-    };
-  }, [user?.id, calculateProgress]);
-
-  // Memoized task definitions
-  const tasks: Task[] = useMemo(() => [
-    {
-      id: 'mine_1000',
-      title: 'Mine 1,000 Points',
-      description: 'Accumulate 1,000 divine points',
-      reward: '50 Gems',
-      progress: completedTasks.includes('mine_1000') ? 1000 : (taskProgress.mine_1000 || 0),
-      max: 1000,
-      completed: completedTasks.includes('mine_1000'),
-      icon: <GiCoins className="text-yellow-400" />,
-      type: 'mining'
-    },
-    {
-      id: 'mine_10000',
-      title: 'Mine 10,000 Points',
-      description: 'Accumulate 10,000 divine points',
-      reward: '100 Gems',
-      progress: completedTasks.includes('mine_10000') ? 10000 : (taskProgress.mine_10000 || 0),
-      max: 10000,
-      completed: completedTasks.includes('mine_10000'),
-      icon: <GiCoins className="text-yellow-400" />,
-      type: 'mining'
-    },
-    {
-      id: 'mine_1hour',
-      title: 'Mine for 1 Hour',
-      description: 'Keep mining active for 1 hour',
-      reward: '75 Gems',
-      progress: completedTasks.includes('mine_1hour') ? 3600 : (taskProgress.mine_1hour || 0),
-      max: 3600,
-      completed: completedTasks.includes('mine_1hour'),
-      icon: <GiLightningArc className="text-green-400" />,
-      type: 'mining'
-    },
-    {
-      id: 'buy_upgrade',
-      title: 'Buy Your First Upgrade',
-      description: 'Purchase any mining upgrade',
-      reward: '25 Gems',
-      progress: completedTasks.includes('buy_upgrade') ? 1 : (taskProgress.buy_upgrade || 0),
-      max: 1,
-      completed: completedTasks.includes('buy_upgrade'),
-      icon: <GiUpgrade className="text-blue-400" />,
-      type: 'mining'
-    },
-    {
-      id: 'follow_twitter',
-      title: 'Follow on Twitter',
-      description: 'Follow our official Twitter account',
-      reward: '30 Gems',
-      progress: completedTasks.includes('follow_twitter') ? 1 : (taskProgress.follow_twitter || 0),
-      max: 1,
-      completed: completedTasks.includes('follow_twitter'),
-      icon: <span className="text-blue-400">🐦</span>,
-      type: 'social'
-    },
-    {
-      id: 'join_telegram',
-      title: 'Join Telegram',
-      description: 'Join our Telegram community',
-      reward: '40 Gems',
-      progress: completedTasks.includes('join_telegram') ? 1 : (taskProgress.join_telegram || 0),
-      max: 1,
-      completed: completedTasks.includes('join_telegram'),
-      icon: <span className="text-blue-400">📱</span>,
-      type: 'social'
-    },
-    {
-      id: 'retweet_post',
-      title: 'Retweet Latest Post',
-      description: 'Retweet our latest announcement',
-      reward: '35 Gems',
-      progress: completedTasks.includes('retweet_post') ? 1 : (taskProgress.retweet_post || 0),
-      max: 1,
-      completed: completedTasks.includes('retweet_post'),
-      icon: <span className="text-blue-400">🔄</span>,
-      type: 'social'
-    },
-    {
-      id: 'submit_wallet',
-      title: 'Submit Wallet for Airdrop',
-      description: 'Submit your wallet address for airdrop',
-      reward: '100 Gems',
-      progress: completedTasks.includes('submit_wallet') ? 1 : (taskProgress.submit_wallet || 0),
-      max: 1,
-      completed: completedTasks.includes('submit_wallet'),
-      icon: <span className="text-purple-400">💎</span>,
-      type: 'airdrop'
-    },
-    {
-      id: 'invite_friend',
-      title: 'Invite a Friend',
-      description: 'Invite a friend to join the game',
-      reward: '50 Gems',
-      progress: completedTasks.includes('invite_friend') ? 1 : (taskProgress.invite_friend || 0),
-      max: 1,
-      completed: completedTasks.includes('invite_friend'),
-      icon: <span className="text-green-400">👥</span>,
-      type: 'social'
-    },
-    {
-      id: 'like_post',
-      title: 'Like Latest Post',
-      description: 'Like our latest social media post',
-      reward: '20 Gems',
-      progress: completedTasks.includes('like_post') ? 1 : (taskProgress.like_post || 0),
-      max: 1,
-      completed: completedTasks.includes('like_post'),
-      icon: <span className="text-red-400">❤️</span>,
-      type: 'social'
+    if (status === 'completed') {
+      await claimReward(task);
+      return;
     }
-  ], [completedTasks, taskProgress]);
-
-  // Rest of the component methods remain the same...
-  const displayTaskModal = useCallback((task: Task, type: 'social' | 'wallet' | 'invite', message: string, confirmText: string, cancelText?: string, onConfirm?: () => void, onCancel?: () => void) => {
-    setCurrentTaskModal({
-      task,
-      type,
-      message,
-      confirmText,
-      cancelText,
-      onConfirm: onConfirm || (() => completeTask(task.id, task.reward)),
-      onCancel
-    });
-    setShowTaskModal(true);
-  }, [completeTask]);
 
-  const handleTaskAction = useCallback((task: Task) => {
-    if (completedTasks.includes(task.id)) {
-      displayTaskModal(task, 'invite', 'This task has already been completed!', 'OK');
+    if (status === 'pending_review') {
+      setInfoTask({
+        task,
+        message: task.verification === 'telegram'
+          ? 'We are checking your membership with Telegram. This takes a few seconds.'
+          : 'Your submission is waiting for review.'
+      });
       return;
     }
-    
-    if (processingTasks.has(task.id)) {
-      displayTaskModal(task, 'invite', 'This task is currently being processed. Please wait...', 'OK');
+
+    if (task.locked) {
+      setInfoTask({ task, message: 'Complete the earlier tasks in this chain first.' });
       return;
     }
 
-    switch (task.id) {
-      case 'follow_twitter':
-        window.open('https://x.com/DivineTaps', '_blank');
-        setTimeout(() => {
-          displayTaskModal(
-            task,
-            'social',
-            'Did you follow @DivineTaps on Twitter?',
-            'Yes, Complete Task',
-            'Not Yet',
-            () => completeTask(task.id, task.reward),
-            () => setShowTaskModal(false)
-          );
-        }, 3000);
-        break;
-      case 'join_telegram':
-        window.open('https://t.me/DivineTaps', '_blank');
-        setTimeout(() => {
-          displayTaskModal(
-            task,
-            'social',
-            'Did you join our Telegram group?',
-            'Yes, Complete Task',
-            'Not Yet',
-            () => completeTask(task.id, task.reward),
-            () => setShowTaskModal(false)
-          );
-        }, 3000);
-        break;
-      case 'retweet_post':
-        window.open('https://twitter.com/intent/retweet?tweet_id=1946298009924288617', '_blank');
-        setTimeout(() => {
-          displayTaskModal(
-            task,
-            'social',
-            'Did you retweet our latest post?',
-            'Yes, Complete Task',
-            'Not Yet',
-            () => completeTask(task.id, task.reward),
-            () => setShowTaskModal(false)
-          );
-        }, 3000);
-        break;
-      case 'submit_wallet':
-        setWalletAddress('');
-        setWalletError('');
+    // Time-limited tasks run from when the player starts them
+    if (task.timeLimitHours > 0 && (status === 'available' || status === 'failed')) {
+      await runTaskStep(task, () => taskEngine.start(task.taskId));
+      return;
+    }
+
+    if (task.verification === 'tracked') {
+      if (task.requirements[0]?.metric === 'proven_wallet') {
         setShowWalletModal(true);
-        break;
-      case 'invite_friend':
-        displayTaskModal(
+      } else if (task.requirements[0]?.metric === 'referrals') {
+        setInfoTask({
           task,
-          'invite',
-          '👥 Share your referral link with friends!\n\nYou can find your referral link in the Referral System tab.',
-          'Got It!',
-          undefined,
-          () => completeTask(task.id, task.reward)
-        );
-        break;
-      case 'like_post':
-        window.open('https://x.com/intent/like?tweet_id=1946298009924288617', '_blank');
-        setTimeout(() => {
-          displayTaskModal(
-            task,
-            'social',
-            'Did you like our latest post?',
-            'Yes, Complete Task',
-            'Not Yet',
-            () => completeTask(task.id, task.reward),
-            () => setShowTaskModal(false)
-          );
-        }, 3000);
-        break;
-      default:
-        break;
+          message: '👥 Share your referral link with friends!\n\nYou can find your referral link in the Referral System tab. The task completes when a friend joins with it.'
+        });
+      }
+      return;
+    }
+
+    if (task.actionUrl) {
+      window.open(task.actionUrl, '_blank');
     }
-  }, [completedTasks, processingTasks, displayTaskModal, completeTask]);
 
-  const getMiningStatus = useCallback(() => {
-    return gameState.isMining ? 'ACTIVE' : 'INACTIVE';
-  }, [gameState.isMining]);
+    if (task.verification === 'submission') {
+      setSubmission('');
+      setSubmissionError('');
+      setSubmissionTask(task);
+      return;
+    }
 
-  // Filter tasks by type
-  const miningTasks = useMemo(() => tasks.filter(task => task.type === 'mining'), [tasks]);
-  const socialTasks = useMemo(() => tasks.filter(task => task.type === 'social'), [tasks]);
-  const airdropTasks = useMemo(() => tasks.filter(task => task.type === 'airdrop'), [tasks]);
+    setTimeout(() => setConfirmTask(task), task.actionUrl ? 3000 : 0);
+  }, [claimReward, runTaskStep]);
 
-  const [activeTab, setActiveTab] = useState<'all' | 'mining' | 'social' | 'airdrop'>('all');
+  // Filter tasks by category
+  const miningTasks = useMemo(() => tasks.filter(task => task.category === 'mining'), [tasks]);
+  const socialTasks = useMemo(() => tasks.filter(task => task.category === 'social'), [tasks]);
+  const airdropTasks = useMemo(() => tasks.filter(task => task.category === 'airdrop'), [tasks]);
 
-  const getCurrentTasks = useCallback(() => {
+  const currentTasks = useMemo(() => {
     switch (activeTab) {
       case 'mining': return miningTasks;
       case 'social': return socialTasks;
@@ -551,39 +291,19 @@ export const TaskCenter: React.FC = () => {
     }
   }, [activeTab, miningTasks, socialTasks, airdropTasks, tasks]);
 
-  // Debug function for development
-  const resetMiningTimeTracking = useCallback(() => {
-    if (!user?.id) return;
-    
-    const userId = user.id.toString();
-    const miningTimeKey = getUserSpecificKey('miningTime', userId);
-    const lastUpdateKey = getUserSpecificKey('lastMiningUpdate', userId);
-    
-    localStorage.removeItem(miningTimeKey);
-    localStorage.removeItem(lastUpdateKey);
-    
-    setMiningTime(0);
-    autoCompletedTasksRef.current.delete('mine_1hour');
-    
-    console.log('🔄 Mining time tracking reset');
-  }, [user?.id, getUserSpecificKey]);
-
-  // Expose debug functions (development only)
-  useEffect(() => {
-    if (import.meta.env.DEV) {
-      (window as any).resetMiningTime = resetMiningTimeTracking;
-      (window as any).debugTaskCenter = () => {
-        console.log('Task Center Debug:', {
-          gameState,
-          taskProgress,
-          completedTasks,
-          processingTasks: Array.from(processingTasks),
-          miningTime,
-          autoCompleted: Array.from(autoCompletedTasksRef.current)
-        });
-      };
+  const getActionLabel = (task: TaskView) => {
+    switch (task.state.status) {
+      case 'completed': return 'CLAIM';
+      case 'claimed': return 'COMPLETED';
+      case 'pending_review': return task.verification === 'telegram' ? 'VERIFYING' : 'IN REVIEW';
+      case 'failed': return task.timeLimitHours > 0 ? 'RETRY' : 'REJECTED';
+      default:
+        if (task.locked) return 'LOCKED';
+        if (task.timeLimitHours > 0 && task.state.status === 'available') return 'START';
+        if (task.verification === 'submission') return 'SUBMIT';
+        return task.verification === 'telegram' ? 'JOIN' : 'ACTION';
     }
-  }, [resetMiningTimeTracking, gameState, taskProgress, completedTasks, processingTasks, miningTime]);
+  };
 
   return (
     <div className="task-center-container flex-1 p-custom space-y-2 overflow-y-auto game-scrollbar">
@@ -593,17 +313,23 @@ export const TaskCenter: React.FC = () => {
         <div className="absolute top-0 right-0 w-3 h-3 border-r-2 border-t-2 border-cyan-400"></div>
         <div className="absolute bottom-0 left-0 w-3 h-3 border-l-2 border-b-2 border-cyan-400"></div>
         <div className="absolute bottom-0 right-0 w-3 h-3 border-r-2 border-b-2 border-cyan-400"></div>
-        
+
         <div className="text-center">
           <div className="flex items-center justify-center space-x-2 mb-2">
             <div className="w-2 h-2 bg-cyan-400 rounded-full animate-pulse"></div>
             <span className="text-cyan-400 font-mono font-bold tracking-wider text-sm">TASK CENTER</span>
             <div className="w-2 h-2 bg-cyan-400 rounded-full animate-pulse"></div>
           </div>
-          
+
           <p className="text-cyan-300 font-mono text-xs tracking-wider">
             Complete missions to earn bonus rewards
           </p>
+
+          {isTaskModerator(user) && (
+            <Link to="/moderation" className="inline-block mt-2 text-orange-400 font-mono text-xs font-bold tracking-wider">
+              REVIEW SUBMISSIONS →
+            </Link>
+          )}
         </div>
       </div>
 
@@ -614,50 +340,23 @@ export const TaskCenter: React.FC = () => {
             <div className="w-2 h-2 bg-cyan-400 rounded-full animate-pulse"></div>
             <span className="text-cyan-400 font-mono font-bold text-xs tracking-wider">MINING STATUS</span>
           </div>
-          <div className="text-right">
-            <div className="text-cyan-300 font-mono text-xs tracking-wider">
-              {getMiningStatus()}
-            </div>
-            {import.meta.env.DEV && (
-              <div className="flex gap-1 mt-1">
-                <button
-                  onClick={() => {
-                    (window as any).debugTaskCenter?.();
-                  }}
-                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
-                  title="Debug Task Center"
-                >
-                  🔍
-                </button>
-                <button
-                  onClick={() => {
-                    if (confirm('Reset mining time tracking?')) {
-                      resetMiningTimeTracking();
-                      alert('Mining time tracking reset!');
-                    }
-                  }}
-                  className="px-2 py-1 text-xs bg-orange-600 text-white rounded hover:bg-orange-700"
-                  title="Reset Mining Time"
-                >
-                  🔄
-                </button>
-              </div>
-            )}
+          <div className="text-cyan-300 font-mono text-xs tracking-wider">
+            {isMining ? 'ACTIVE' : 'INACTIVE'}
           </div>
         </div>
       </div>
 
       {/* Task Type Tabs */}
       <div className="flex gap-1">
-        {[
+        {([
           { id: 'all', name: 'All', count: tasks.length },
           { id: 'mining', name: 'Mining', count: miningTasks.length },
           { id: 'social', name: 'Social', count: socialTasks.length },
           { id: 'airdrop', name: 'Airdrop', count: airdropTasks.length }
-        ].map(({ id, name, count }) => (
+        ] as const).map(({ id, name, count }) => (
           <button
             key={id}
-            onClick={() => setActiveTab(id as any)}
+            onClick={() => setActiveTab(id)}
             className={`flex-1 flex items-center justify-center gap-1 py-2 rounded-lg font-mono text-xs font-bold tracking-wider transition-all duration-300 ${
               activeTab === id
                 ? 'bg-gradient-to-r from-cyan-500 to-blue-600 text-white shadow-[0_0_20px_rgba(0,255,255,0.3)]'
@@ -669,23 +368,37 @@ export const TaskCenter: React.FC = () => {
         ))}
       </div>
 
+      {loadError && (
+        <div className="text-red-400 font-mono text-xs tracking-wider text-center">❌ {loadError}</div>
+      )}
+
       {/* Task List */}
       <div className="space-y-2">
-        {getCurrentTasks().map((task) => {
-          const isCompleted = task.completed;
-          const isProcessing = processingTasks.has(task.id);
-          
+        {isLoading && tasks.length === 0 && (
+          <div className="text-cyan-300 font-mono text-xs tracking-wider text-center animate-pulse">LOADING TASKS...</div>
+        )}
+
+        {currentTasks.map((task) => {
+          const { status } = task.state;
+          const isCompleted = status === 'claimed';
+          const isClaimable = status === 'completed';
+          const isProcessing = busyTaskId === task.taskId || status === 'pending_review';
+          const isAutoTracked = task.verification === 'tracked' &&
+            !isClaimable &&
+            !['proven_wallet', 'referrals'].includes(task.requirements[0]?.metric ?? '') &&
+            task.timeLimitHours === 0;
+
           return (
-            <div key={task.id} className={`relative bg-black/40 backdrop-blur-xl border rounded-lg p-3 transition-all duration-300 ${
-              isCompleted 
-                ? 'bg-green-500/20 border-green-400 shadow-[0_0_20px_rgba(34,197,94,0.1)]' 
+            <div key={task.taskId} className={`relative bg-black/40 backdrop-blur-xl border rounded-lg p-3 transition-all duration-300 ${
+              isCompleted || isClaimable
+                ? 'bg-green-500/20 border-green-400 shadow-[0_0_20px_rgba(34,197,94,0.1)]'
                 : isProcessing
                 ? 'bg-orange-500/20 border-orange-400 shadow-[0_0_20px_rgba(255,165,0,0.1)]'
                 : 'bg-gray-800/50 border-cyan-500/30 shadow-[0_0_20px_rgba(0,255,255,0.1)]'
             }`}>
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center gap-2">
-                  {task.icon}
+                  {getTaskIcon(task)}
                   <div>
                     <h3 className={`font-mono font-bold text-sm tracking-wider ${
                       isCompleted ? 'text-green-400' : 'text-cyan-300'
@@ -696,53 +409,63 @@ export const TaskCenter: React.FC = () => {
                   </div>
                 </div>
                 <div className="text-right">
-                  <div className="text-yellow-400 font-mono text-sm font-bold tracking-wider">{task.reward}</div>
+                  <div className="text-yellow-400 font-mono text-sm font-bold tracking-wider">{formatReward(task)}</div>
                   {isCompleted && (
                     <div className="text-green-400 text-xs font-mono tracking-wider">✓ COMPLETED</div>
                   )}
-                  {isProcessing && (
-                    <div className="text-orange-400 text-xs font-mono tracking-wider animate-pulse">⏳ PROCESSING</div>
+                  {status === 'pending_review' && (
+                    <div className="text-orange-400 text-xs font-mono tracking-wider animate-pulse">
+                      ⏳ {task.verification === 'telegram' ? 'VERIFYING' : 'IN REVIEW'}
+                    </div>
+                  )}
+                  {task.availableAgainAt && (
+                    <div className="text-gray-400 text-xs font-mono tracking-wider">
+                      AGAIN {task.availableAgainAt.toLocaleString()}
+                    </div>
+                  )}
+                  {status === 'in_progress' && task.state.expiresAt && (
+                    <div className="text-orange-400 text-xs font-mono tracking-wider">
+                      ENDS {new Date(task.state.expiresAt).toLocaleString()}
+                    </div>
                   )}
                 </div>
               </div>
-              
+
               {/* Progress Bar */}
               <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
-                <div 
+                <div
                   className={`h-2 rounded-full transition-all duration-300 ${
-                    isCompleted ? 'bg-green-500' : 'bg-cyan-500'
+                    isCompleted || isClaimable ? 'bg-green-500' : 'bg-cyan-500'
                   }`}
-                  style={{ width: `${Math.min((task.progress / task.max) * 100, 100)}%` }}
+                  style={{ width: `${Math.min((task.state.progress / task.state.goal) * 100, 100)}%` }}
                 ></div>
               </div>
-              
+
               <div className="flex items-center justify-between">
                 <div className="text-xs text-gray-400 font-mono tracking-wider">
-                  {task.id === 'mine_1hour' ? (
-                    `Progress: ${Math.floor(task.progress / 60)}m ${task.progress % 60}s / 60m 0s`
-                  ) : (
-                    `Progress: ${task.progress.toLocaleString()}/${task.max.toLocaleString()}`
-                  )}
+                  {formatProgress(task)}
                 </div>
-                
+
                 {/* Action Button */}
-                {task.type === 'mining' ? (
+                {isAutoTracked ? (
                   <div className="text-xs text-gray-500 font-mono tracking-wider">
                     AUTO-TRACKED
                   </div>
                 ) : (
                   <button
                     onClick={() => handleTaskAction(task)}
-                    disabled={isCompleted || isProcessing}
+                    disabled={isCompleted || busyTaskId !== null || (status === 'failed' && task.timeLimitHours === 0)}
                     className={`px-3 py-1 rounded-lg font-mono text-xs font-bold tracking-wider transition-all duration-300 ${
                       isCompleted
                         ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
                         : isProcessing
                         ? 'bg-orange-600 text-orange-200 cursor-not-allowed animate-pulse'
+                        : isClaimable
+                        ? 'bg-green-600 hover:bg-green-500 text-white border border-green-400'
                         : 'bg-cyan-600 hover:bg-cyan-500 text-white border border-cyan-400'
                     }`}
                   >
-                    {isCompleted ? 'COMPLETED' : isProcessing ? 'PROCESSING...' : 'ACTION'}
+                    {busyTaskId === task.taskId ? 'PROCESSING...' : getActionLabel(task)}
                   </button>
                 )}
               </div>
@@ -756,13 +479,13 @@ export const TaskCenter: React.FC = () => {
         <div className="fixed inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-50 p-4">
           <div className="relative bg-black/90 backdrop-blur-2xl rounded-xl p-6 text-center max-w-sm mx-4 border border-cyan-400/30 shadow-[0_0_30px_rgba(0,255,255,0.3)]">
             <div className="text-4xl mb-4 animate-bounce">🎉</div>
-            
+
             <h3 className="text-white font-mono font-bold text-xl mb-4 tracking-wider">TASK COMPLETED!</h3>
-            
+
             <div className="bg-cyan-500/20 backdrop-blur-xl rounded-lg p-4 border border-cyan-400/30 mb-6">
               <p className="text-cyan-200 text-sm font-mono tracking-wider">{rewardMessage}</p>
             </div>
-            
+
             <button
               onClick={() => setShowRewardModal(false)}
               className="bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-cyan-500 hover:to-blue-500 transition-all duration-300 shadow-[0_0_20px_rgba(0,255,255,0.3)]"
@@ -773,73 +496,76 @@ export const TaskCenter: React.FC = () => {
         </div>
       )}
 
-      {/* Custom Task Modal */}
-      {showTaskModal && currentTaskModal && (
+      {/* Self-reported task confirmation and info messages */}
+      {(confirmTask || infoTask) && (
         <div className="fixed inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-50 p-4">
           <div className="relative bg-black/90 backdrop-blur-2xl rounded-xl p-6 text-center max-w-md mx-4 border border-cyan-400/30 shadow-[0_0_30px_rgba(0,255,255,0.3)]">
             {/* Close button */}
             <button
-              onClick={() => setShowTaskModal(false)}
+              onClick={() => {
+                setConfirmTask(null);
+                setInfoTask(null);
+              }}
               className="absolute top-2 right-2 text-gray-400 hover:text-white text-2xl transition-colors duration-300"
             >
               ×
             </button>
-            
+
             {/* Corner decorations */}
             <div className="absolute top-0 left-0 w-3 h-3 border-l-2 border-t-2 border-cyan-400"></div>
             <div className="absolute top-0 right-0 w-3 h-3 border-r-2 border-t-2 border-cyan-400"></div>
             <div className="absolute bottom-0 left-0 w-3 h-3 border-l-2 border-b-2 border-cyan-400"></div>
             <div className="absolute bottom-0 right-0 w-3 h-3 border-r-2 border-b-2 border-cyan-400"></div>
-            
-            {/* Task Icon */}
-            <div className="text-4xl mb-4">
-              {currentTaskModal.type === 'social' && '🌐'}
-              {currentTaskModal.type === 'wallet' && '💎'}
-              {currentTaskModal.type === 'invite' && '👥'}
-            </div>
-            
-            {/* Task Title */}
+
+            <div className="text-4xl mb-4">{(confirmTask || infoTask?.task)?.emoji}</div>
+
             <h3 className="text-white font-mono font-bold text-lg mb-3 tracking-wider">
-              {currentTaskModal.task.title}
+              {(confirmTask || infoTask?.task)?.title}
             </h3>
-            
-            {/* Task Message */}
+
             <div className="bg-cyan-500/10 backdrop-blur-xl rounded-lg p-4 border border-cyan-400/20 mb-6">
               <p className="text-cyan-200 text-sm font-mono tracking-wider whitespace-pre-line">
-                {currentTaskModal.message}
+                {confirmTask
+                  ? confirmTask.verification === 'telegram'
+                    ? `Joined ${confirmTask.telegramChatId}? We will check with Telegram before paying the reward.`
+                    : `Did you complete "${confirmTask.title}"?`
+                  : infoTask?.message}
               </p>
             </div>
-            
-            {/* Reward Info */}
-            <div className="bg-yellow-500/10 backdrop-blur-xl rounded-lg p-3 border border-yellow-400/20 mb-6">
-              <div className="text-yellow-400 font-mono font-bold text-sm tracking-wider">
-                REWARD: {currentTaskModal.task.reward}
+
+            {confirmTask && (
+              <div className="bg-yellow-500/10 backdrop-blur-xl rounded-lg p-3 border border-yellow-400/20 mb-6">
+                <div className="text-yellow-400 font-mono font-bold text-sm tracking-wider">
+                  REWARD: {formatReward(confirmTask)}
+                </div>
               </div>
-            </div>
-            
-            {/* Action Buttons */}
+            )}
+
             <div className="flex gap-3 justify-center">
-              <button
-                onClick={() => {
-                  currentTaskModal.onConfirm();
-                  setShowTaskModal(false);
-                }}
-                className="bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-cyan-500 hover:to-blue-500 transition-all duration-300 shadow-[0_0_20px_rgba(0,255,255,0.3)] flex items-center gap-2"
-              >
-                <span>✅</span>
-                <span>{currentTaskModal.confirmText}</span>
-              </button>
-              
-              {currentTaskModal.cancelText && (
+              {confirmTask ? (
+                <>
+                  <button
+                    onClick={() => handleConfirm(confirmTask)}
+                    className="bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-cyan-500 hover:to-blue-500 transition-all duration-300 shadow-[0_0_20px_rgba(0,255,255,0.3)] flex items-center gap-2"
+                  >
+                    <span>✅</span>
+                    <span>{confirmTask.verification === 'telegram' ? 'Verify' : 'Yes, Complete Task'}</span>
+                  </button>
+                  <button
+                    onClick={() => setConfirmTask(null)}
+                    className="bg-gradient-to-r from-gray-600 to-gray-500 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-gray-500 hover:to-gray-400 transition-all duration-300 flex items-center gap-2"
+                  >
+                    <span>❌</span>
+                    <span>Not Yet</span>
+                  </button>
+                </>
+              ) : (
                 <button
-                  onClick={() => {
-                    currentTaskModal.onCancel?.();
-                    setShowTaskModal(false);
-                  }}
-                  className="bg-gradient-to-r from-gray-600 to-gray-500 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-gray-500 hover:to-gray-400 transition-all duration-300 flex items-center gap-2"
+                  onClick={() => setInfoTask(null)}
+                  className="bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-cyan-500 hover:to-blue-500 transition-all duration-300 shadow-[0_0_20px_rgba(0,255,255,0.3)] flex items-center gap-2"
                 >
-                  <span>❌</span>
-                  <span>{currentTaskModal.cancelText}</span>
+                  <span>✅</span>
+                  <span>Got It!</span>
                 </button>
               )}
             </div>
@@ -847,107 +573,80 @@ export const TaskCenter: React.FC = () => {
         </div>
       )}
 
-      {/* Custom Wallet Input Modal */}
-      {showWalletModal && (
+      {/* Submission Modal */}
+      {submissionTask && (
         <div className="fixed inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-50 p-4">
           <div className="relative bg-black/90 backdrop-blur-2xl rounded-xl p-6 text-center max-w-md mx-4 border border-cyan-400/30 shadow-[0_0_30px_rgba(0,255,255,0.3)]">
-            {/* Close button */}
             <button
-              onClick={() => setShowWalletModal(false)}
+              onClick={() => setSubmissionTask(null)}
               className="absolute top-2 right-2 text-gray-400 hover:text-white text-2xl transition-colors duration-300"
             >
               ×
             </button>
-            
-            {/* Corner decorations */}
+
             <div className="absolute top-0 left-0 w-3 h-3 border-l-2 border-t-2 border-cyan-400"></div>
             <div className="absolute top-0 right-0 w-3 h-3 border-r-2 border-t-2 border-cyan-400"></div>
             <div className="absolute bottom-0 left-0 w-3 h-3 border-l-2 border-b-2 border-cyan-400"></div>
             <div className="absolute bottom-0 right-0 w-3 h-3 border-r-2 border-b-2 border-cyan-400"></div>
-            
-            {/* Wallet Icon */}
-            <div className="text-4xl mb-4">💎</div>
-            
-            {/* Title */}
+
+            <div className="text-4xl mb-4">{submissionTask.emoji}</div>
+
             <h3 className="text-white font-mono font-bold text-lg mb-3 tracking-wider">
-              SUBMIT WALLET FOR AIRDROP
+              {submissionTask.title}
             </h3>
-            
-            {/* Description */}
+
             <div className="bg-cyan-500/10 backdrop-blur-xl rounded-lg p-4 border border-cyan-400/20 mb-6">
               <p className="text-cyan-200 text-sm font-mono tracking-wider">
-                Enter your wallet address to receive exclusive airdrops and rewards!
+                {submissionTask.submissionType === 'screenshot'
+                  ? 'Upload a screenshot showing you completed the task and paste the image link below.'
+                  : submissionTask.submissionType === 'link'
+                  ? 'Paste the link to your post below.'
+                  : 'Describe how you completed the task.'}
               </p>
             </div>
-            
-            {/* Wallet Input */}
+
             <div className="mb-6">
               <label className="block text-cyan-400 font-mono font-bold text-sm mb-2 tracking-wider">
-                WALLET ADDRESS
+                {submissionTask.submissionType === 'text' ? 'DETAILS' : 'LINK'}
               </label>
               <input
                 type="text"
-                value={walletAddress}
+                value={submission}
                 onChange={(e) => {
-                  setWalletAddress(e.target.value);
-                  setWalletError(''); // Clear error when user types
+                  setSubmission(e.target.value);
+                  setSubmissionError('');
                 }}
-                placeholder="Enter your wallet address here..."
+                placeholder={submissionTask.submissionType === 'text' ? 'Enter details...' : 'https://...'}
                 className="w-full bg-black/50 border border-cyan-400/30 rounded-lg px-4 py-3 text-white font-mono text-sm tracking-wider placeholder-gray-500 focus:outline-none focus:border-cyan-400 focus:ring-2 focus:ring-cyan-400/20 transition-all duration-300"
                 autoFocus
               />
-              {walletError && (
+              {submissionError && (
                 <div className="mt-2 text-red-400 font-mono text-xs tracking-wider">
-                  ❌ {walletError}
+                  ❌ {submissionError}
                 </div>
               )}
             </div>
-            
-            {/* Reward Info */}
+
             <div className="bg-yellow-500/10 backdrop-blur-xl rounded-lg p-3 border border-yellow-400/20 mb-6">
               <div className="text-yellow-400 font-mono font-bold text-sm tracking-wider">
-                REWARD: 100 Gems
+                REWARD: {formatReward(submissionTask)}
               </div>
               <div className="text-yellow-300 font-mono text-xs tracking-wider mt-1">
-                + Access to exclusive airdrops
+                Paid after a moderator approves your submission
               </div>
             </div>
-            
-            {/* Action Buttons */}
+
             <div className="flex gap-3 justify-center">
               <button
-                onClick={() => {
-                  const trimmedAddress = walletAddress.trim();
-                  if (!trimmedAddress) {
-                    setWalletError('Please enter a wallet address');
-                    return;
-                  }
-                  if (trimmedAddress.length < 10) {
-                    setWalletError('Wallet address must be at least 10 characters');
-                    return;
-                  }
-                  if (trimmedAddress.length > 100) {
-                    setWalletError('Wallet address is too long');
-                    return;
-                  }
-                  
-                  // Success - close modal and show success message
-                  setShowWalletModal(false);
-                  displayTaskModal(
-                    tasks.find(t => t.id === 'submit_wallet')!,
-                    'invite',
-                    '✅ Wallet address submitted successfully!\n\nYou will receive 100 Gems and access to exclusive airdrops!',
-                    'Awesome!'
-                  );
-                }}
+                onClick={handleSubmit}
                 className="bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-cyan-500 hover:to-blue-500 transition-all duration-300 shadow-[0_0_20px_rgba(0,255,255,0.3)] flex items-center gap-2"
               >
-                <span>💎</span>
-                <span>Submit Wallet</span>
+                <span>📤</span>
+                <span>Submit</span>
               </button>
-              
+
               <button
-                onClick={() => setShowWalletModal(false)}
+                onClick={() => setSubmissionTask(null)}
                 className="bg-gradient-to-r from-gray-600 to-gray-500 text-white font-mono font-bold py-3 px-6 rounded-lg tracking-wider hover:from-gray-500 hover:to-gray-400 transition-all duration-300 flex items-center gap-2"
               >
                 <span>❌</span>
@@ -957,6 +656,41 @@ export const TaskCenter: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Wallet Proof Modal */}
+      {showWalletModal && (
+        <div className="fixed inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-50 p-4">
+          <div className="relative bg-black/90 backdrop-blur-2xl rounded-xl p-6 text-center max-w-md mx-4 border border-cyan-400/30 shadow-[0_0_30px_rgba(0,255,255,0.3)]">
+            <button
+              onClick={() => setShowWalletModal(false)}
+              className="absolute top-2 right-2 text-gray-400 hover:text-white text-2xl transition-colors duration-300"
+            >
+              ×
+            </button>
+
+            <div className="absolute top-0 left-0 w-3 h-3 border-l-2 border-t-2 border-cyan-400"></div>
+            <div className="absolute top-0 right-0 w-3 h-3 border-r-2 border-t-2 border-cyan-400"></div>
+            <div className="absolute bottom-0 left-0 w-3 h-3 border-l-2 border-b-2 border-cyan-400"></div>
+            <div className="absolute bottom-0 right-0 w-3 h-3 border-r-2 border-b-2 border-cyan-400"></div>
+
+            <div className="text-4xl mb-4">💎</div>
+
+            <h3 className="text-white font-mono font-bold text-lg mb-3 tracking-wider">
+              SUBMIT WALLET FOR AIRDROP
+            </h3>
+
+            <div className="text-left mb-2">
+              <WalletProofPanel
+                userId={user?.id}
+                onProven={() => {
+                  setShowWalletModal(false);
+                  syncTasks();
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
-}; 
\ No newline at end of file
+};
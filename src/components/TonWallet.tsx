@@ -22,6 +22,8 @@ import ta from "../utility/tonapi";
 import { JettonList } from "./JettonList";
 import { NFTList } from "./NFTList";
 import { useAuth } from '@/hooks/useAuth';
+import { useRank } from '@/hooks/useRank';
+import { getRankTitle } from '@/lib/rankSystem';
 
 interface TokenInfo {
   name: string;
@@ -62,6 +64,7 @@ function TonWallet() {
   const [, setSelectedJetton] = useState<any>(null);
   const [isImportingToken, setIsImportingToken] = useState(false);
   const { user } = useAuth();
+  const { rankTitle, rankProgress } = useRank(user?.id ?? 0);
   const userStkBalance = user?.total_sbt || 0;
 
   const connectedAddressString = useTonAddress();
@@ -371,7 +374,7 @@ function TonWallet() {
                       {user?.username || 'Ribbit User'}
                     </h2>
                     <span className="px-2 py-0.5 bg-green-100 rounded-full text-xs font-medium text-green-700">
-                      {user?.rank || 'Tadpole'}
+                      {rankTitle}
                     </span>
                   </div>
                   
@@ -459,6 +462,26 @@ function TonWallet() {
                         </p>
                       </div>
                     ))}
+
+                    {/* Progress toward the next rank */}
+                    {rankProgress.nextRank && (
+                      <div className="col-span-2 p-2 bg-green-50 rounded-lg space-y-2">
+                        <p className="text-xs text-green-700">
+                          Next rank: <span className="font-medium text-green-800">{getRankTitle(rankProgress.nextRank)}</span>
+                        </p>
+                        {rankProgress.thresholds.map(threshold => (
+                          <div key={threshold.label}>
+                            <div className="flex justify-between text-xs text-green-700 mb-1">
+                              <span>{threshold.label}</span>
+                              <span>{formatNumber(threshold.current)} / {formatNumber(threshold.required)}</span>
+                            </div>
+                            <div className="h-1.5 bg-green-100 rounded-full overflow-hidden">
+                              <div className="h-full bg-green-500 rounded-full" style={{ width: `${threshold.percent}%` }}></div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
 
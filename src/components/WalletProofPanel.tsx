@@ -0,0 +1,63 @@
+import { FC, useEffect, useRef } from 'react';
+import { useWalletBinding } from '@/hooks/useWalletBinding';
+import { WALLET_REBIND_COOLDOWN_DAYS } from '@/lib/walletBinding';
+
+interface WalletProofPanelProps {
+  userId?: number;
+  onProven?: (address: string) => void; // Called with the proven address, including one proven earlier
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}…${address.slice(-6)}`;
+
+// Links the player's wallet by having it sign a TON Connect proof
+export const WalletProofPanel: FC<WalletProofPanelProps> = ({ userId, onProven }) => {
+  const { binding, isProven, rebindAvailableAt, canRebind, isProving, error, proveWallet } =
+    useWalletBinding(userId);
+  const provenAddress = isProven && binding ? binding.address : null;
+
+  const onProvenRef = useRef(onProven);
+  onProvenRef.current = onProven;
+
+  useEffect(() => {
+    if (provenAddress) onProvenRef.current?.(provenAddress);
+  }, [provenAddress]);
+
+  return (
+    <div className="space-y-3">
+      {isProven && binding ? (
+        <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+          <div className="text-xs text-green-400 mb-1">Proven wallet</div>
+          <div className="text-sm font-mono text-white break-all">{binding.address}</div>
+        </div>
+      ) : binding ? (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-sm text-yellow-300">
+          {shortAddress(binding.address)} was entered by hand and has not been proven. Connect it to confirm you own it.
+        </div>
+      ) : (
+        <p className="text-xs text-white/60">
+          Connect your wallet and approve the signature request. Nothing is sent and no fee is charged.
+        </p>
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <button
+        onClick={proveWallet}
+        disabled={!userId || isProving || (isProven && !canRebind)}
+        className="w-full py-2.5 rounded-lg font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isProving ? 'Verifying…' : isProven ? 'Change wallet' : 'Connect & prove wallet'}
+      </button>
+
+      {isProven && (
+        <p className="text-xs text-white/40">
+          {canRebind || !rebindAvailableAt
+            ? `After a change you can switch again in ${WALLET_REBIND_COOLDOWN_DAYS} days. You'll get a Telegram message for every change.`
+            : `You can change your wallet again on ${rebindAvailableAt.toLocaleDateString()}.`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WalletProofPanel;
@@ -3,6 +3,7 @@ import { Button } from '@telegram-apps/telegram-ui';
 import { supabase } from '@/lib/supabaseClient';
 import { useAuth } from '@/hooks/useAuth';
 import { NFTMinter } from '@/components/NFTMinter';
+import { WalletProofPanel } from '@/components/WalletProofPanel';
 
 interface WhitelistWalletModalProps {
   isOpen: boolean;
@@ -11,7 +12,7 @@ interface WhitelistWalletModalProps {
 }
 
 export const WhitelistWalletModal: FC<WhitelistWalletModalProps> = ({ isOpen, onClose, onSuccess }) => {
-  const [walletAddress, setWalletAddress] = useState('');
+  const [provenAddress, setProvenAddress] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [hasMinted, setHasMinted] = useState(false);
@@ -31,18 +32,14 @@ export const WhitelistWalletModal: FC<WhitelistWalletModalProps> = ({ isOpen, on
         throw new Error('Please mint the NFT first');
       }
 
-      // Validate TON wallet address format
-      if (!walletAddress.match(/^[0-9A-Za-z]{48}$/)) {
-        throw new Error('Invalid TON wallet address format');
+      // The address itself was stored by the wallet-proof function
+      if (!provenAddress) {
+        throw new Error('Please connect and prove your wallet first');
       }
 
-      // Update user's wallet address in the database
       const { error: updateError } = await supabase
         .from('users')
-        .update({ 
-          wallet_address: walletAddress,
-          has_nft: true
-        })
+        .update({ has_nft: true })
         .eq('id', user.id);
 
       if (updateError) throw updateError;
@@ -98,29 +95,20 @@ export const WhitelistWalletModal: FC<WhitelistWalletModalProps> = ({ isOpen, on
               <span className="w-6 h-6 rounded-full bg-blue-500/20 text-blue-400 flex items-center justify-center text-sm">
                 2
               </span>
-              <h4 className="text-white font-medium">Enter Wallet Address</h4>
+              <h4 className="text-white font-medium">Prove Your Wallet</h4>
             </div>
             <form onSubmit={handleSubmit}>
               <div className="space-y-4">
-                <div>
-                  <input
-                    type="text"
-                    value={walletAddress}
-                    onChange={(e) => setWalletAddress(e.target.value)}
-                    placeholder="Enter your TON wallet address"
-                    className="w-full px-3 py-2 bg-black/20 border border-white/5 rounded-lg text-white 
-                      placeholder-white/40 focus:outline-none focus:border-blue-500"
-                  />
-                  {error && (
-                    <p className="text-red-500 text-sm mt-1">{error}</p>
-                  )}
-                </div>
+                <WalletProofPanel userId={user?.id} onProven={setProvenAddress} />
+                {error && (
+                  <p className="text-red-500 text-sm mt-1">{error}</p>
+                )}
 
                 <Button
                   type="submit"
-                  disabled={isLoading || !walletAddress || !hasMinted}
+                  disabled={isLoading || !provenAddress || !hasMinted}
                   className={`w-full py-2.5 rounded-lg font-medium transition-all duration-200
-                    ${isLoading || !walletAddress || !hasMinted
+                    ${isLoading || !provenAddress || !hasMinted
                       ? 'bg-blue-500/50 text-white/50 cursor-not-allowed'
                       : 'bg-blue-500 hover:bg-blue-600 text-white'
                     }`}
@@ -1,6 +1,8 @@
-import { FC, useState } from 'react';
+import { FC, useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/lib/supabaseClient';
+import { getWithdrawalSplit, requestWithdrawal } from '@/lib/supabaseClient';
+import { walletBinding } from '@/lib/walletBinding';
+import type { WalletBinding } from '@/lib/walletBinding';
 
 interface WithdrawModalProps {
   isOpen: boolean;
@@ -11,10 +13,22 @@ interface WithdrawModalProps {
 export const WithdrawModal: FC<WithdrawModalProps> = ({ isOpen, onClose, availableBalance }) => {
   const { user } = useAuth();
   const [amount, setAmount] = useState('');
-  const [withdrawalAddress, setWithdrawalAddress] = useState(user?.wallet_address || '');
+  const [wallet, setWallet] = useState<WalletBinding | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
+  const parsedAmount = parseFloat(amount);
+  const split = parsedAmount > 0 ? getWithdrawalSplit(parsedAmount) : null;
+  const withdrawalAddress = wallet?.provenAt ? wallet.address : null;
+
+  // Payouts only go to the wallet proven with TON Connect
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+    walletBinding.getBinding(user.id)
+      .then(setWallet)
+      .catch(err => console.error('Error loading withdrawal wallet:', err));
+  }, [isOpen, user?.id]);
+
   const handleWithdraw = async () => {
     try {
       setIsLoading(true);
@@ -30,30 +44,11 @@ export const WithdrawModal: FC<WithdrawModalProps> = ({ isOpen, onClose, availab
       }
 
       if (!withdrawalAddress) {
-        throw new Error('Please enter a valid withdrawal address');
+        throw new Error('Link your wallet with TON Connect before withdrawing');
       }
 
-      // Create withdrawal request
-      const { error: withdrawError } = await supabase
-        .from('withdrawals')
-        .insert({
-          user_id: user?.id,
-          amount: withdrawAmount,
-          wallet_address: withdrawalAddress,
-          status: 'pending'
-        });
-
-      if (withdrawError) throw withdrawError;
-
-      // Update user's available balance
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({
-          available_balance: `available_balance - ${withdrawAmount}`
-        })
-        .eq('id', user?.id);
-
-      if (updateError) throw updateError;
+      // Balance debit, fee split and payout queueing happen atomically on the server
+      await requestWithdrawal(withdrawAmount, withdrawalAddress);
 
       onClose();
     } catch (err: any) {
@@ -89,16 +84,28 @@ export const WithdrawModal: FC<WithdrawModalProps> = ({ isOpen, onClose, availab
             />
           </div>
 
-          {/* Wallet Address Input */}
+          {/* Fee Split */}
+          {split && (
+            <div className="bg-black/20 rounded-lg p-3 text-xs text-white/60 space-y-1">
+              <div className="flex justify-between"><span>You receive</span><span className="text-white">{split.userAmount.toFixed(2)} TON</span></div>
+              <div className="flex justify-between"><span>Global Leadership Pool</span><span>{split.fees.glp.toFixed(2)} TON</span></div>
+              <div className="flex justify-between"><span>$STK reputation</span><span>{split.fees.stk.toFixed(2)}</span></div>
+              <div className="flex justify-between"><span>Re-investment wallet</span><span>{split.fees.reinvest.toFixed(2)} TON</span></div>
+            </div>
+          )}
+
+          {/* Proven Wallet */}
           <div>
             <label className="text-sm text-white/60 mb-1 block">Withdrawal Address</label>
-            <input
-              type="text"
-              value={withdrawalAddress}
-              onChange={(e) => setWithdrawalAddress(e.target.value)}
-              placeholder="Enter TON wallet address"
-              className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2"
-            />
+            {withdrawalAddress ? (
+              <div className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm break-all">
+                {withdrawalAddress}
+              </div>
+            ) : (
+              <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-3 py-2 text-sm text-yellow-300">
+                Link your wallet with TON Connect to withdraw. Withdrawals are only sent to a wallet you have proven you own.
+              </div>
+            )}
           </div>
 
           {error && (
@@ -115,7 +122,7 @@ export const WithdrawModal: FC<WithdrawModalProps> = ({ isOpen, onClose, availab
             </button>
             <button
               onClick={handleWithdraw}
-              disabled={isLoading}
+              disabled={isLoading || !withdrawalAddress}
               className="flex-1 px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors disabled:opacity-50"
             >
               {isLoading ? 'Processing...' : 'Withdraw'}
@@ -1,7 +1,7 @@
 import { FC, useState, useRef } from 'react';
 import { Button, Snackbar } from '@telegram-apps/telegram-ui';
 import { NFTMinter } from './NFTMinter';
-import { supabase } from '@/lib/supabaseClient';
+import { WalletProofPanel } from './WalletProofPanel';
 
 interface WithdrawalInfoModalProps {
   isOpen: boolean;
@@ -17,11 +17,7 @@ export const WithdrawalInfoModal: FC<WithdrawalInfoModalProps> = ({
   onWalletSubmit 
 }) => {
   const [isMinted, setIsMinted] = useState(false);
-  const [walletAddress, setWalletAddress] = useState('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [walletError, setWalletError] = useState('');
-  const [isSubmitted, setIsSubmitted] = useState(false);
-  const [submittedAddress, setSubmittedAddress] = useState('');
+  const [provenAddress, setProvenAddress] = useState<string | null>(null);
   
   // Snackbar state
   const [snackbarVisible, setSnackbarVisible] = useState(false);
@@ -52,47 +48,12 @@ export const WithdrawalInfoModal: FC<WithdrawalInfoModalProps> = ({
     );
   };
 
-  const handleWalletSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const trimmedAddress = walletAddress.trim();
-    
-    if (!trimmedAddress) {
-      setWalletError('Wallet address is required');
-      return;
-    }
-    
-    setWalletError('');
-    setIsSubmitting(true);
-    
-    try {
-      if (userId) {
-        const { error } = await supabase
-          .from('users')
-          .update({ whitelisted_wallet: trimmedAddress })
-          .eq('id', userId);
-          
-        if (error) throw error;
-      }
-      
-      if (onWalletSubmit) {
-        onWalletSubmit(trimmedAddress);
-      }
-      
-      setSubmittedAddress(trimmedAddress);
-      setIsSubmitted(true);
-      setWalletAddress('');
-      
-      showSnackbar(
-        'Wallet Address Added Successfully!', 
-        `Your wallet address ${trimmedAddress.slice(0, 6)}...${trimmedAddress.slice(-4)} has been submitted.`
-      );
-    } catch (error) {
-      console.error('Error submitting wallet address:', error);
-      setWalletError('Failed to submit wallet address. Please try again.');
-      showSnackbar('Submission Failed', 'There was an error submitting your wallet address. Please try again.');
-    } finally {
-      setIsSubmitting(false);
+  // The wallet-proof function stores the address as both payout and whitelist wallet
+  const handleWalletProven = (address: string) => {
+    if (address !== provenAddress) {
+      onWalletSubmit?.(address);
     }
+    setProvenAddress(address);
   };
 
   if (!isOpen) return null;
@@ -120,7 +81,7 @@ export const WithdrawalInfoModal: FC<WithdrawalInfoModalProps> = ({
 
         {isMinted && (
           <div className="space-y-4 mt-4">
-            {isSubmitted ? (
+            {provenAddress ? (
             <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
               <div className="flex items-center justify-center mb-3">
                 <div className="w-12 h-12 rounded-full bg-green-500/20 flex items-center justify-center">
@@ -129,10 +90,10 @@ export const WithdrawalInfoModal: FC<WithdrawalInfoModalProps> = ({
                   </svg>
                 </div>
               </div>
-              <h4 className="text-green-400 text-center font-medium mb-2">Wallet Address Added Successfully!</h4>
-              <p className="text-white/60 text-sm text-center mb-3">Your submitted wallet address:</p>
+              <h4 className="text-green-400 text-center font-medium mb-2">Wallet Whitelisted</h4>
+              <p className="text-white/60 text-sm text-center mb-3">Weekly distributions go to your proven wallet:</p>
               <div className="bg-black/30 rounded-lg p-3 break-all text-center">
-                <span className="text-blue-400 text-sm font-mono">{submittedAddress}</span>
+                <span className="text-blue-400 text-sm font-mono">{provenAddress}</span>
               </div>
               <Button
                 onClick={onClose}
@@ -142,29 +103,11 @@ export const WithdrawalInfoModal: FC<WithdrawalInfoModalProps> = ({
               </Button>
             </div>
           ) : (
-            <form onSubmit={handleWalletSubmit} className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
-              <h4 className="text-sm font-medium text-blue-400 mb-2">Submit Your TON Wallet Address</h4>
-              <p className="text-xs text-white/60 mb-3">Enter your TON wallet address to receive weekly distributions</p>
-              <div className="flex flex-col space-y-3">
-                <input
-                  type="text"
-                  value={walletAddress}
-                  onChange={(e) => setWalletAddress(e.target.value)}
-                  placeholder="EQ..."
-                  className="bg-black/30 border border-blue-500/30 rounded-lg px-3 py-2 text-sm text-white w-full focus:outline-none focus:ring-1 focus:ring-blue-500"
-                />
-                {walletError && (
-                  <p className="text-red-400 text-xs">{walletError}</p>
-                )}
-                <Button
-                  type="submit"
-                  disabled={isSubmitting || !walletAddress.trim()}
-                  className="w-full"
-                >
-                  {isSubmitting ? 'Submitting...' : 'Submit Wallet Address'}
-                </Button>
-              </div>
-            </form>
+            <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-blue-400 mb-2">Link Your TON Wallet</h4>
+              <p className="text-xs text-white/60 mb-3">Prove you own the wallet that should receive weekly distributions</p>
+              <WalletProofPanel userId={userId} onProven={handleWalletProven} />
+            </div>
           )}
             
             {/* Important Notes */}
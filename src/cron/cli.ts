@@ -0,0 +1,73 @@
+/**
+ * Trigger or replay a scheduled job by hand:
+ *
+ *   npx tsx src/cron/cli.ts list
+ *   npx tsx src/cron/cli.ts run dailyRewards [--date 2024-05-01] [--replay]
+ *   npx tsx src/cron/cli.ts status dailyRewards [--limit 10]
+ *
+ * --date is any ISO date or time inside the period to run (default: now).
+ * A period that already completed is only run again with --replay.
+ *
+ * Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, e.g. for the local stack
+ * from `supabase start` with the SQL files applied.
+ */
+import { runJob } from './jobRunner';
+import { findJob, SCHEDULED_JOBS } from './jobs';
+import { createServiceClient } from './serviceClient';
+
+const USAGE = 'Usage: cli.ts list | run <job> [--date <iso>] [--replay] | status <job> [--limit <n>]';
+
+const getFlag = (args: string[], flag: string): string | undefined => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const main = async (args: string[]): Promise<number> => {
+  const [command, jobName] = args;
+
+  if (command === 'list') {
+    for (const job of SCHEDULED_JOBS) {
+      console.log(`${job.name.padEnd(16)} ${job.schedule.padEnd(14)} per ${job.period}`);
+    }
+    return 0;
+  }
+
+  const job = jobName ? findJob(jobName) : undefined;
+  if (!job || (command !== 'run' && command !== 'status')) {
+    console.error(jobName && !job ? `Unknown job ${jobName}` : USAGE);
+    return 1;
+  }
+
+  const db = createServiceClient();
+
+  if (command === 'status') {
+    const { data, error } = await db
+      .from('job_runs')
+      .select('run_key, status, processed, failed, attempts, last_item_id, last_error, started_at, finished_at')
+      .eq('job_name', job.name)
+      .order('started_at', { ascending: false })
+      .limit(Number(getFlag(args, '--limit')) || 10);
+
+    if (error) throw error;
+    console.table(data);
+    return 0;
+  }
+
+  const date = getFlag(args, '--date');
+  const at = date ? new Date(date) : new Date();
+  if (Number.isNaN(at.getTime())) {
+    console.error(`Invalid --date ${date}`);
+    return 1;
+  }
+
+  const result = await runJob(job, { at, replay: args.includes('--replay'), db });
+  console.log(JSON.stringify(result, null, 2));
+  return result.outcome === 'failed' ? 1 : 0;
+};
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
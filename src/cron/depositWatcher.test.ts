@@ -0,0 +1,270 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logCronWarning } from '@/lib/logger';
+import { FixtureTonApi } from '@/utility/ton-api-fixture';
+import type { Transaction } from '@/utility/ton-api';
+import { runDepositWatcher } from './depositWatcher';
+
+vi.mock('@/lib/logger', () => ({ logCronWarning: vi.fn() }));
+// Imported through tokenPurchases; the watcher only uses the client it is given
+vi.mock('@/lib/supabaseClient', () => ({ supabase: {} }));
+
+type RpcArgs = Record<string, unknown>;
+
+interface StoredPurchase {
+  id: string;
+  memo: string;
+  status: string;
+  usdt_amount: number;
+  ton_amount_nano: string;
+}
+
+const DEPOSIT_ADDRESS = 'UQ-deposit';
+const TON = 1_000_000_000;
+
+// 10 USDT at 5 USD per TON
+const makePurchase = (id: string): StoredPurchase => ({
+  id,
+  memo: `STK-${id}`,
+  status: 'pending',
+  usdt_amount: 10,
+  ton_amount_nano: String(2 * TON)
+});
+
+const transfer = (lt: number, amountNano: number, memo: string): Transaction => ({
+  hash: `hash-${lt}`,
+  lt,
+  utime: lt,
+  success: true,
+  aborted: false,
+  in_msg: {
+    value: amountNano,
+    source: { address: 'UQ-buyer' },
+    decoded_op_name: 'text_comment',
+    decoded_body: { text: memo }
+  }
+});
+
+interface StoredPayment {
+  tx_hash: string;
+  purchase_id: string;
+  amount_nano: bigint;
+  status: string;
+  error?: string;
+}
+
+// In-memory stand-in for deposit_watch_cursors, token_purchases,
+// token_purchase_payments and the watcher functions in TOKEN_PURCHASES.sql
+const createDepositDb = (purchases: StoredPurchase[], expiredCount = 0) => {
+  const cursors = new Map<string, number>();
+  const payments: StoredPayment[] = [];
+  const calls: { name: string; args: RpcArgs }[] = [];
+  // Purchase ids confirm_token_purchase raises for
+  const failing = new Set<string>();
+
+  const received = (purchaseId: string) => payments
+    .filter(payment => payment.purchase_id === purchaseId && payment.status === 'received')
+    .reduce((sum, payment) => sum + payment.amount_nano, 0n);
+
+  const db = {
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: async () => {
+          if (table === 'deposit_watch_cursors') {
+            const lastLt = cursors.get(String(filters.address));
+            return { data: lastLt === undefined ? null : { last_lt: lastLt }, error: null };
+          }
+          return { data: purchases.find(purchase => purchase.memo === filters.memo) ?? null, error: null };
+        },
+        upsert: async (row: { address: string; last_lt: number }) => {
+          cursors.set(row.address, row.last_lt);
+          return { error: null };
+        }
+      };
+      return query;
+    },
+
+    rpc: async (name: string, args: RpcArgs = {}) => {
+      calls.push({ name, args });
+      const purchase = purchases.find(p => p.id === args.p_purchase_id);
+
+      if (name === 'record_token_payment') {
+        if (!payments.some(payment => payment.tx_hash === args.p_tx_hash)) {
+          payments.push({
+            tx_hash: String(args.p_tx_hash),
+            purchase_id: String(args.p_purchase_id),
+            amount_nano: BigInt(String(args.p_amount_nano)),
+            status: purchase?.status === 'confirmed' ? 'late' : 'received'
+          });
+        }
+        const payment = payments.find(p => p.tx_hash === args.p_tx_hash)!;
+        return {
+          data: [{ payment_status: payment.status, total_received_nano: received(payment.purchase_id).toString() }],
+          error: null
+        };
+      }
+      if (name === 'confirm_token_purchase') {
+        if (!purchase || failing.has(purchase.id)) {
+          return { data: null, error: { message: `Purchase ${args.p_purchase_id} is failed` } };
+        }
+        if (purchase.status === 'confirmed') return { data: false, error: null };
+        purchase.status = 'confirmed';
+        payments.filter(p => p.purchase_id === purchase.id && p.status === 'received').forEach(p => {
+          p.status = 'credited';
+        });
+        return { data: true, error: null };
+      }
+      if (name === 'fail_token_payment') {
+        const payment = payments.find(p => p.tx_hash === args.p_tx_hash);
+        if (payment) {
+          Object.assign(payment, { status: 'failed', error: args.p_error });
+        } else {
+          payments.push({
+            tx_hash: String(args.p_tx_hash),
+            purchase_id: String(args.p_purchase_id),
+            amount_nano: BigInt(String(args.p_amount_nano)),
+            status: 'failed',
+            error: String(args.p_error)
+          });
+        }
+        return { data: null, error: null };
+      }
+      if (name === 'expire_token_purchases') return { data: expiredCount, error: null };
+      return { data: null, error: { message: `Unknown function ${name}` } };
+    }
+  } as unknown as SupabaseClient;
+
+  const called = (name: string) => calls.filter(call => call.name === name);
+  const paymentStatus = (txHash: string) => payments.find(payment => payment.tx_hash === txHash)?.status;
+
+  return { db, cursors, called, paymentStatus, failing };
+};
+
+const getTonPriceUsd = async () => 5;
+
+describe('runDepositWatcher', () => {
+  it('confirms a purchase paid in full and handles each transaction once', async () => {
+    const purchase = makePurchase('a');
+    const { db, cursors, called } = createDepositDb([purchase]);
+    const api = new FixtureTonApi({ [DEPOSIT_ADDRESS]: [transfer(10, 2 * TON, purchase.memo)] });
+
+    const summary = await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ transactions: 1, confirmed: 1, underpaid: 0, unmatched: 0 });
+    expect(called('confirm_token_purchase')[0].args).toEqual({
+      p_purchase_id: 'a',
+      p_tx_hash: 'hash-10',
+      p_sender_address: 'UQ-buyer'
+    });
+    expect(purchase.status).toBe('confirmed');
+    expect(cursors.get(DEPOSIT_ADDRESS)).toBe(10);
+
+    api.addTransactions(DEPOSIT_ADDRESS, transfer(11, TON, 'unknown-memo'));
+    const next = await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(next).toMatchObject({ transactions: 1, confirmed: 0, unmatched: 1 });
+    expect(called('confirm_token_purchase')).toHaveLength(1);
+    expect(cursors.get(DEPOSIT_ADDRESS)).toBe(11);
+  });
+
+  it('leaves an underpaid purchase pending and reports it', async () => {
+    const purchase = makePurchase('b');
+    const { db, called } = createDepositDb([purchase]);
+    const api = new FixtureTonApi({ [DEPOSIT_ADDRESS]: [transfer(20, 1.5 * TON, purchase.memo)] });
+
+    const summary = await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ confirmed: 0, underpaid: 1 });
+    expect(purchase.status).toBe('pending');
+    expect(called('confirm_token_purchase')).toHaveLength(0);
+    expect(logCronWarning).toHaveBeenCalledWith('depositWatcher', 'Underpaid token purchase', expect.objectContaining({
+      purchaseId: 'b',
+      receivedNano: String(1.5 * TON)
+    }));
+  });
+
+  it('adds up a top-up sent in several transfers', async () => {
+    const purchase = makePurchase('d');
+    const { db, called, paymentStatus } = createDepositDb([purchase]);
+    const api = new FixtureTonApi({ [DEPOSIT_ADDRESS]: [transfer(30, 1.5 * TON, purchase.memo)] });
+
+    await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+    api.addTransactions(DEPOSIT_ADDRESS, transfer(31, 0.5 * TON, purchase.memo));
+    const summary = await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ confirmed: 1, underpaid: 0 });
+    expect(purchase.status).toBe('confirmed');
+    expect(called('confirm_token_purchase')[0].args).toMatchObject({ p_tx_hash: 'hash-31' });
+    expect([paymentStatus('hash-30'), paymentStatus('hash-31')]).toEqual(['credited', 'credited']);
+  });
+
+  it('records a payment that arrives after the purchase was confirmed for a refund', async () => {
+    const purchase = makePurchase('e');
+    const { db, called, paymentStatus } = createDepositDb([purchase]);
+    const api = new FixtureTonApi({
+      [DEPOSIT_ADDRESS]: [transfer(40, 2 * TON, purchase.memo), transfer(41, 2 * TON, purchase.memo)]
+    });
+
+    const summary = await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ transactions: 2, confirmed: 1, late: 1 });
+    expect(called('confirm_token_purchase')).toHaveLength(1);
+    expect(paymentStatus('hash-41')).toBe('late');
+    expect(logCronWarning).toHaveBeenCalledWith(
+      'depositWatcher',
+      'Payment for an already confirmed token purchase needs a refund',
+      expect.objectContaining({ purchaseId: 'e', txHash: 'hash-41' })
+    );
+  });
+
+  it('records a payment it cannot confirm as failed and moves past it', async () => {
+    const broken = makePurchase('f');
+    const next = makePurchase('g');
+    const { db, cursors, paymentStatus, failing } = createDepositDb([broken, next]);
+    failing.add('f');
+    const api = new FixtureTonApi({
+      [DEPOSIT_ADDRESS]: [transfer(50, 2 * TON, broken.memo), transfer(51, 2 * TON, next.memo)]
+    });
+
+    const summary = await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ transactions: 2, confirmed: 1, failed: 1 });
+    expect(paymentStatus('hash-50')).toBe('failed');
+    expect(next.status).toBe('confirmed');
+    expect(cursors.get(DEPOSIT_ADDRESS)).toBe(51);
+    expect(logCronWarning).toHaveBeenCalledWith(
+      'depositWatcher',
+      'Token purchase payment failed and needs a refund',
+      expect.objectContaining({ purchaseId: 'f', error: 'Purchase f is failed' })
+    );
+  });
+
+  it('waits for a TON price before judging a payment', async () => {
+    const purchase = makePurchase('h');
+    const { db, cursors } = createDepositDb([purchase]);
+    const api = new FixtureTonApi({ [DEPOSIT_ADDRESS]: [transfer(60, 2 * TON, purchase.memo)] });
+
+    const summary = await runDepositWatcher(db, { api, getTonPriceUsd: async () => null, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ transactions: 0, confirmed: 0 });
+    expect(cursors.has(DEPOSIT_ADDRESS)).toBe(false);
+
+    await runDepositWatcher(db, { api, getTonPriceUsd, address: DEPOSIT_ADDRESS });
+    expect(purchase.status).toBe('confirmed');
+  });
+
+  it('expires stale purchases after reading the deposit address', async () => {
+    const { db, called } = createDepositDb([makePurchase('c')], 2);
+
+    const summary = await runDepositWatcher(db, { api: new FixtureTonApi(), getTonPriceUsd, address: DEPOSIT_ADDRESS });
+
+    expect(summary).toMatchObject({ transactions: 0, expired: 2 });
+    expect(called('expire_token_purchases')).toHaveLength(1);
+  });
+});
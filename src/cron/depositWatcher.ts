@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logCronWarning } from '@/lib/logger';
+import { DEPOSIT_ADDRESS, fetchTonPriceUsd } from '@/lib/tokenPurchases';
+import { TonApi } from '@/utility/ton-api';
+import type { TonApiClient, Transaction } from '@/utility/ton-api';
+
+const JOB_NAME = 'depositWatcher';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+const NANO_PER_TON = 1_000_000_000;
+// TON may move between the client's quote and the payment landing
+const PRICE_TOLERANCE = 0.05;
+
+export interface DepositWatcherOptions {
+  // Defaults to tonapi.io; FixtureTonApi serves recorded transactions
+  api?: TonApiClient;
+  getTonPriceUsd?: () => Promise<number | null>;
+  address?: string;
+}
+
+export interface DepositWatchSummary {
+  transactions: number;
+  confirmed: number;
+  underpaid: number;
+  late: number;
+  failed: number;
+  unmatched: number;
+  expired: number;
+}
+
+interface IncomingTransfer {
+  hash: string;
+  lt: number;
+  sender: string;
+  amountNano: bigint;
+  memo: string | null;
+}
+
+interface PendingPurchase {
+  id: string;
+  status: string;
+  usdt_amount: number;
+  ton_amount_nano: string | number;
+}
+
+type PaymentStatus = 'received' | 'credited' | 'late' | 'failed';
+
+interface RecordedPayment {
+  payment_status: PaymentStatus;
+  total_received_nano: string | number;
+}
+
+// 'retry' leaves the transaction for the next run; 'replayed' was handled before
+type PaymentOutcome = 'confirmed' | 'underpaid' | 'late' | 'failed' | 'replayed' | 'retry';
+
+// Successful incoming transfer from another wallet, or null
+export const toIncomingTransfer = (transaction: Transaction): IncomingTransfer | null => {
+  const message = transaction.in_msg;
+  if (!transaction.success || transaction.aborted || !message?.source || !(message.value > 0)) {
+    return null;
+  }
+
+  const memo = message.decoded_op_name === 'text_comment' ? message.decoded_body?.text?.trim() || null : null;
+
+  return {
+    hash: transaction.hash,
+    lt: transaction.lt,
+    sender: message.source.address,
+    amountNano: BigInt(message.value),
+    memo
+  };
+};
+
+const getCursor = async (db: SupabaseClient, address: string): Promise<number | null> => {
+  const { data, error } = await db
+    .from('deposit_watch_cursors')
+    .select('last_lt')
+    .eq('address', address)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? Number(data.last_lt) : null;
+};
+
+const saveCursor = async (db: SupabaseClient, address: string, lastLt: number) => {
+  const { error } = await db
+    .from('deposit_watch_cursors')
+    .upsert({ address, last_lt: lastLt, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
+
+// Transactions after the cursor, oldest first. Without a cursor only the latest page is read.
+const fetchNewTransactions = async (
+  api: TonApiClient,
+  address: string,
+  cursor: number | null
+): Promise<Transaction[]> => {
+  if (cursor === null) {
+    const page = await api.getAccountTransactions(address, { limit: PAGE_SIZE, sort_order: 'desc' });
+    if (!page) throw new Error('tonapi returned no transactions');
+    return [...page.transactions].reverse();
+  }
+
+  const transactions: Transaction[] = [];
+  let afterLt = cursor;
+
+  for (let i = 0; i < MAX_PAGES; i++) {
+    const page = await api.getAccountTransactions(address, { limit: PAGE_SIZE, after_lt: afterLt, sort_order: 'asc' });
+    if (!page) throw new Error('tonapi returned no transactions');
+
+    transactions.push(...page.transactions);
+    if (page.transactions.length < PAGE_SIZE) break;
+    afterLt = page.transactions[page.transactions.length - 1].lt;
+  }
+
+  return transactions;
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+
+/**
+ * Record a transfer against its purchase and confirm the purchase once its
+ * payments cover the quote. Payments for an already confirmed purchase are
+ * recorded as late and left for a refund.
+ */
+const handlePayment = async (
+  db: SupabaseClient,
+  transfer: IncomingTransfer,
+  purchase: PendingPurchase,
+  getTonPriceUsd: () => Promise<number | null>
+): Promise<PaymentOutcome> => {
+  const { data, error } = await db.rpc('record_token_payment', {
+    p_purchase_id: purchase.id,
+    p_tx_hash: transfer.hash,
+    p_amount_nano: transfer.amountNano.toString(),
+    p_sender_address: transfer.sender
+  });
+  if (error) throw error;
+
+  const payment = (Array.isArray(data) ? data[0] : data) as RecordedPayment;
+  if (payment.payment_status === 'late') return 'late';
+  if (payment.payment_status !== 'received') return 'replayed';
+
+  const tonPrice = await getTonPriceUsd();
+  if (tonPrice === null) return 'retry';
+
+  // Top-ups count together with the earlier transfers for the same memo
+  const receivedNano = BigInt(payment.total_received_nano);
+  const receivedUsd = (Number(receivedNano) / NANO_PER_TON) * tonPrice;
+  const paidInFull = receivedNano >= BigInt(purchase.ton_amount_nano ?? 0)
+    && receivedUsd >= Number(purchase.usdt_amount) * (1 - PRICE_TOLERANCE);
+
+  if (!paidInFull) {
+    // Left pending for a top-up until it expires; then it needs a manual refund
+    await logCronWarning(JOB_NAME, 'Underpaid token purchase', {
+      purchaseId: purchase.id,
+      txHash: transfer.hash,
+      receivedNano: receivedNano.toString(),
+      expectedNano: String(purchase.ton_amount_nano),
+      receivedUsd,
+      usdtAmount: purchase.usdt_amount
+    });
+    return 'underpaid';
+  }
+
+  const { data: credited, error: confirmError } = await db.rpc('confirm_token_purchase', {
+    p_purchase_id: purchase.id,
+    p_tx_hash: transfer.hash,
+    p_sender_address: transfer.sender
+  });
+  if (confirmError) throw confirmError;
+  return credited ? 'confirmed' : 'replayed';
+};
+
+/**
+ * Match incoming transfers on the deposit address to token purchases by their
+ * memo and credit STK for those paid in full. Transactions are read from a
+ * per-address cursor, so each one is handled once; a transfer that can't be
+ * processed is recorded as failed for a refund rather than holding the cursor
+ * back. Stale purchases are expired.
+ */
+export const runDepositWatcher = async (
+  db: SupabaseClient,
+  options: DepositWatcherOptions = {}
+): Promise<DepositWatchSummary> => {
+  const api = options.api ?? new TonApi();
+  const address = options.address ?? DEPOSIT_ADDRESS;
+  const summary: DepositWatchSummary = {
+    transactions: 0, confirmed: 0, underpaid: 0, late: 0, failed: 0, unmatched: 0, expired: 0
+  };
+
+  // One price per run
+  const fetchPrice = options.getTonPriceUsd ?? fetchTonPriceUsd;
+  let tonPrice: Promise<number | null> | undefined;
+  const getTonPriceUsd = () => {
+    if (!tonPrice) tonPrice = fetchPrice();
+    return tonPrice;
+  };
+
+  const cursor = await getCursor(db, address);
+  const transactions = await fetchNewTransactions(api, address, cursor);
+  let lastLt = cursor;
+
+  try {
+    for (const transaction of transactions) {
+      const transfer = toIncomingTransfer(transaction);
+
+      if (transfer?.memo) {
+        const { data: purchase, error } = await db
+          .from('token_purchases')
+          .select('id, status, usdt_amount, ton_amount_nano')
+          .eq('memo', transfer.memo)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (!purchase) {
+          summary.unmatched++;
+        } else {
+          let outcome: PaymentOutcome;
+          try {
+            outcome = await handlePayment(db, transfer, purchase as PendingPurchase, getTonPriceUsd);
+          } catch (paymentError) {
+            // Throws, keeping the cursor here, if even the failure can't be recorded
+            const { error: failError } = await db.rpc('fail_token_payment', {
+              p_purchase_id: purchase.id,
+              p_tx_hash: transfer.hash,
+              p_amount_nano: transfer.amountNano.toString(),
+              p_sender_address: transfer.sender,
+              p_error: errorMessage(paymentError)
+            });
+            if (failError) throw failError;
+
+            await logCronWarning(JOB_NAME, 'Token purchase payment failed and needs a refund', {
+              purchaseId: purchase.id,
+              txHash: transfer.hash,
+              receivedNano: transfer.amountNano.toString(),
+              error: errorMessage(paymentError)
+            });
+            outcome = 'failed';
+          }
+
+          // Retry from this transaction on the next run
+          if (outcome === 'retry') break;
+          if (outcome === 'late') {
+            await logCronWarning(JOB_NAME, 'Payment for an already confirmed token purchase needs a refund', {
+              purchaseId: purchase.id,
+              txHash: transfer.hash,
+              receivedNano: transfer.amountNano.toString()
+            });
+          }
+          if (outcome !== 'replayed') summary[outcome]++;
+        }
+      } else if (transfer) {
+        summary.unmatched++;
+      }
+
+      summary.transactions++;
+      lastLt = transaction.lt;
+    }
+  } finally {
+    if (lastLt !== null && lastLt !== cursor) {
+      await saveCursor(db, address, lastLt);
+    }
+  }
+
+  const { data: expired, error: expireError } = await db.rpc('expire_token_purchases');
+  if (expireError) throw expireError;
+  summary.expired = Number(expired) || 0;
+
+  return summary;
+};
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logCronError, logCronWarning } from '@/lib/logger';
+import { MINING_BOOST, checkEarningPlausibility, createInitialState } from '@/game/engine';
+import type { ActiveBoost, PlausibilityResult, Upgrade } from '@/game/engine';
+import { DEFAULT_UPGRADE_CATALOG, getCatalogUpgrades } from '@/game/catalog';
+import { getSaveGameState, loadSave } from '@/game/save';
+import { upgradeCatalog } from '@/lib/upgradeCatalog';
+import { getEventBoost, specialEvents } from '@/lib/specialEvents';
+import type { SpecialEvent } from '@/lib/specialEvents';
+import { referralService } from '@/lib/referralService';
+
+const JOB_NAME = 'earningPlausibility';
+const BATCH_SIZE = 500;
+
+interface UnvalidatedGameData {
+  user_id: number;
+  game_data: unknown;
+  last_updated: string;
+  validated_game_data: unknown;
+  validated_at: string | null;
+}
+
+interface UserBoostRow {
+  user_id: number;
+  boost_type: string;
+  boost_multiplier: number;
+  activated_at: string;
+  expires_at: string;
+}
+
+export interface PlausibilitySummary {
+  checked: number;
+  flagged: number;
+  clamped: number;
+}
+
+const parseGameData = (raw: unknown, catalog: Upgrade[]) =>
+  loadSave(raw, { fallbackState: createInitialState(0), catalog })?.data ?? null;
+
+// Any event overlapping the window counts as running for all of it, so the check
+// never flags earnings made during an event
+const getWindowBoosts = (events: SpecialEvent[], from: number, to: number): ActiveBoost[] =>
+  events
+    .filter(event => event.startsAt < to && event.endsAt > from)
+    .map(getEventBoost)
+    .filter((boost): boost is ActiveBoost => boost !== null);
+
+// Boosts granted on the server, such as season rewards, count the same way
+const getWindowUserBoosts = (boosts: UserBoostRow[], userId: number, from: number, to: number): ActiveBoost[] =>
+  boosts
+    .filter(boost => boost.user_id === userId)
+    .filter(boost => new Date(boost.activated_at).getTime() < to && new Date(boost.expires_at).getTime() > from)
+    .map(boost => ({
+      type: boost.boost_type,
+      multiplier: boost.boost_type === MINING_BOOST ? Number(boost.boost_multiplier) - 1 : Number(boost.boost_multiplier),
+      expires: new Date(boost.expires_at).getTime()
+    }));
+
+const getUserBoostsSince = async (db: SupabaseClient, userIds: number[], since: Date): Promise<UserBoostRow[]> => {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await db
+    .from('user_boosts')
+    .select('user_id, boost_type, boost_multiplier, activated_at, expires_at')
+    .in('user_id', userIds)
+    .gt('expires_at', since.toISOString());
+
+  if (error) throw error;
+  return (data || []) as UserBoostRow[];
+};
+
+const recordDiscrepancy = async (
+  db: SupabaseClient,
+  userId: number,
+  result: PlausibilityResult,
+  resolution: 'flagged' | 'clamped',
+  details: Record<string, unknown>
+) => {
+  const { error } = await db.from('earning_discrepancies').insert({
+    user_id: userId,
+    calculated: result.maxDivinePoints,
+    recorded: result.maxDivinePoints + result.excess,
+    source: 'plausibility',
+    resolution,
+    details: { ...details, maxEarned: result.maxEarned, recordedEarned: result.recordedEarned, excess: result.excess },
+    timestamp: new Date().toISOString()
+  });
+  if (error) throw error;
+};
+
+/**
+ * Compare every save synced since the last run against its previous validated snapshot.
+ * Anything above what the mining formulas allow is recorded in earning_discrepancies;
+ * with clamp enabled the excess is also removed through a plausibility_adjustment entry.
+ * Plausible saves put the upline's referral payouts for the mined points on hold.
+ * db must be a service role client: the clamp and the snapshot RPCs aren't granted to players.
+ */
+export const runEarningPlausibilityCheck = async (db: SupabaseClient, clamp = true): Promise<PlausibilitySummary> => {
+  const summary: PlausibilitySummary = { checked: 0, flagged: 0, clamped: 0 };
+
+  const { data: rows, error } = await db
+    .from('unvalidated_game_data')
+    .select('user_id, game_data, last_updated, validated_game_data, validated_at')
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  const catalog = getCatalogUpgrades((await upgradeCatalog.fetchActive()) ?? DEFAULT_UPGRADE_CATALOG);
+
+  const validatedTimes = ((rows || []) as UnvalidatedGameData[])
+    .filter(row => row.validated_at)
+    .map(row => new Date(row.validated_at!).getTime());
+  const events = validatedTimes.length > 0
+    ? await specialEvents.getEventsBetween(new Date(Math.min(...validatedTimes)), new Date())
+    : [];
+  const userBoosts = validatedTimes.length > 0
+    ? await getUserBoostsSince(db, ((rows || []) as UnvalidatedGameData[]).map(row => row.user_id), new Date(Math.min(...validatedTimes)))
+    : [];
+
+  for (const row of (rows || []) as UnvalidatedGameData[]) {
+    try {
+      const current = parseGameData(row.game_data, catalog);
+      const previous = row.validated_game_data ? parseGameData(row.validated_game_data, catalog) : null;
+
+      // First sighting: nothing to compare against yet
+      if (current && previous && row.validated_at) {
+        summary.checked++;
+
+        const { data: externalCredits } = await db.rpc('get_external_credits', {
+          p_user_id: row.user_id,
+          p_since: row.validated_at
+        });
+
+        const credited = Number(externalCredits) || 0;
+        const validatedAt = new Date(row.validated_at).getTime();
+        const lastUpdated = new Date(row.last_updated).getTime();
+        const elapsedMs = lastUpdated - validatedAt;
+        const result = checkEarningPlausibility({
+          previous: getSaveGameState(previous),
+          current: getSaveGameState(current),
+          upgrades: current.upgrades,
+          elapsedMs,
+          externalCredits: credited,
+          eventBoosts: [
+            ...getWindowBoosts(events, validatedAt, lastUpdated),
+            ...getWindowUserBoosts(userBoosts, row.user_id, validatedAt, lastUpdated)
+          ]
+        });
+
+        if (!result.plausible) {
+          summary.flagged++;
+          const shouldClamp = clamp && current.divinePoints > 0;
+          await recordDiscrepancy(db, row.user_id, result, shouldClamp ? 'clamped' : 'flagged', {
+            elapsedMs,
+            previousDivinePoints: previous.divinePoints,
+            divinePoints: current.divinePoints
+          });
+
+          if (shouldClamp) {
+            const { error: adjustError } = await db.rpc('grant_economy_entry', {
+              p_user_id: row.user_id,
+              p_entry_type: 'plausibility_adjustment',
+              p_amount: -Math.min(result.excess, current.divinePoints),
+              p_reference: 'earning_plausibility',
+              p_idempotency_key: `plausibility:${row.user_id}:${row.last_updated}`,
+              p_metadata: { validated_at: row.validated_at, last_updated: row.last_updated }
+            });
+            if (adjustError) throw adjustError;
+            summary.clamped++;
+          }
+
+          await logCronWarning(JOB_NAME, 'Implausible earnings detected', {
+            userId: row.user_id,
+            excess: result.excess,
+            clamped: shouldClamp
+          });
+        } else if (result.recordedEarned > credited) {
+          // Only mined points pay the upline, not bonuses credited from outside the game
+          await referralService.recordPayouts(
+            'save',
+            `${row.user_id}:${row.last_updated}`,
+            row.user_id,
+            result.recordedEarned - credited,
+            db
+          );
+        }
+      }
+
+      // Snapshot (after any clamp) becomes the baseline for the next run
+      const { error: markError } = await db.rpc('mark_game_data_validated', { p_user_id: row.user_id });
+      if (markError) throw markError;
+    } catch (rowError) {
+      await logCronError(JOB_NAME, rowError, 'error', { userId: row.user_id });
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { defineBatchJob, getRunKey, getRunKeyStart, runJob } from './jobRunner';
+import type { JobDefinition } from './jobRunner';
+
+interface StoredRun {
+  id: number;
+  job_name: string;
+  run_key: string;
+  status: 'running' | 'completed' | 'failed';
+  locked_by: string | null;
+  last_item_id: number | null;
+  processed: number;
+  failed: number;
+  failures: Map<number, string>;
+}
+
+type RpcArgs = Record<string, unknown>;
+
+// In-memory stand-in following the contract of the job_runs RPCs. It tests the
+// runner only; JOB_RUNS.sql itself is not exercised here. Leases never expire;
+// tests hand a run to another worker with takeOver().
+const createJobRunsDb = () => {
+  const runs: StoredRun[] = [];
+
+  const functions: Record<string, (args: RpcArgs) => unknown> = {
+    acquire_job_run(args) {
+      let run = runs.find(r => r.job_name === args.p_job_name && r.run_key === args.p_run_key);
+      if (!run) {
+        run = {
+          id: runs.length + 1,
+          job_name: String(args.p_job_name),
+          run_key: String(args.p_run_key),
+          status: 'running',
+          locked_by: String(args.p_worker_id),
+          last_item_id: null,
+          processed: 0,
+          failed: 0,
+          failures: new Map()
+        };
+        runs.push(run);
+        return [{ ...run }];
+      }
+
+      if (run.status === 'running' && run.locked_by !== null && run.locked_by !== args.p_worker_id) return [];
+      if (run.status === 'completed' && !args.p_replay) return [{ ...run }];
+
+      if (args.p_replay) {
+        Object.assign(run, { last_item_id: null, processed: 0, failed: 0, failures: new Map() });
+      }
+      Object.assign(run, { status: 'running', locked_by: args.p_worker_id });
+      return [{ ...run }];
+    },
+
+    checkpoint_job_run(args) {
+      const run = runs.find(r => r.id === args.p_run_id);
+      if (!run || run.locked_by !== args.p_worker_id || run.status !== 'running') return false;
+
+      run.last_item_id = Number(args.p_item_id);
+      if (args.p_error) {
+        run.failed++;
+        run.failures.set(run.last_item_id, String(args.p_error));
+      } else {
+        run.processed++;
+      }
+      return true;
+    },
+
+    finish_job_run(args) {
+      const run = runs.find(r => r.id === args.p_run_id);
+      if (!run || run.locked_by !== args.p_worker_id || run.status !== 'running') return false;
+
+      Object.assign(run, { status: args.p_status, locked_by: null });
+      return true;
+    }
+  };
+
+  const db = {
+    rpc: async (name: string, args: RpcArgs) => {
+      const fn = functions[name];
+      return fn ? { data: fn(args), error: null } : { data: null, error: { message: `Unknown function ${name}` } };
+    }
+  } as unknown as SupabaseClient;
+
+  const takeOver = (workerId: string) => runs.forEach(run => {
+    run.locked_by = workerId;
+  });
+
+  return { db, runs, takeOver };
+};
+
+const AT = new Date('2024-05-01T13:50:00Z');
+
+// Visits items 1..count, throwing for the ids in failIds
+const createCountingJob = (count: number, options: { failIds?: number[]; onItem?: (id: number) => void } = {}) => {
+  const visited: number[] = [];
+
+  const job = defineBatchJob<number>({
+    name: 'counting',
+    schedule: '0 0 * * *',
+    period: 'day',
+    batchSize: 2,
+    fetchBatch: async (_ctx, afterId, limit) =>
+      Array.from({ length: count }, (_, index) => index + 1)
+        .filter(id => id > (afterId ?? 0))
+        .slice(0, limit),
+    getItemId: id => id,
+    processItem: async (_ctx, id) => {
+      visited.push(id);
+      options.onItem?.(id);
+      if (options.failIds?.includes(id)) throw new Error(`Item ${id} failed`);
+    }
+  });
+
+  return { job, visited };
+};
+
+describe('run keys', () => {
+  it('names the UTC period containing the date', () => {
+    expect(getRunKey('week', AT)).toBe('2024-04-29');
+    expect(getRunKey('day', AT)).toBe('2024-05-01');
+    expect(getRunKey('hour', AT)).toBe('2024-05-01T13');
+    expect(getRunKey('quarter_hour', AT)).toBe('2024-05-01T13:45');
+  });
+
+  it('maps a run key back to the start of its period', () => {
+    expect(getRunKeyStart('2024-05-01').toISOString()).toBe('2024-05-01T00:00:00.000Z');
+    expect(getRunKeyStart('2024-05-01T13').toISOString()).toBe('2024-05-01T13:00:00.000Z');
+    expect(getRunKeyStart('2024-05-01T13:45').toISOString()).toBe('2024-05-01T13:45:00.000Z');
+  });
+});
+
+describe('runJob', () => {
+  it('processes every item across batches and completes the run', async () => {
+    const { db, runs } = createJobRunsDb();
+    const { job, visited } = createCountingJob(5);
+
+    const summary = await runJob(job, { db, at: AT, workerId: 'worker-a' });
+
+    expect(summary).toMatchObject({ job: 'counting', runKey: '2024-05-01', outcome: 'completed', processed: 5, failed: 0 });
+    expect(visited).toEqual([1, 2, 3, 4, 5]);
+    expect(runs[0]).toMatchObject({ status: 'completed', last_item_id: 5 });
+  });
+
+  it('records failed items and carries on', async () => {
+    const { db, runs } = createJobRunsDb();
+    const { job } = createCountingJob(4, { failIds: [2] });
+
+    const summary = await runJob(job, { db, at: AT, workerId: 'worker-a' });
+
+    expect(summary).toMatchObject({ outcome: 'completed', processed: 3, failed: 1 });
+    expect(runs[0].failures.get(2)).toBe('Item 2 failed');
+  });
+
+  it('skips a completed period unless it is replayed', async () => {
+    const { db } = createJobRunsDb();
+    const { job, visited } = createCountingJob(3);
+
+    await runJob(job, { db, at: AT, workerId: 'worker-a' });
+    const skipped = await runJob(job, { db, at: AT, workerId: 'worker-a' });
+    expect(skipped).toMatchObject({ outcome: 'skipped', processed: 3 });
+    expect(visited).toEqual([1, 2, 3]);
+
+    const replayed = await runJob(job, { db, at: AT, workerId: 'worker-a', replay: true });
+    expect(replayed).toMatchObject({ outcome: 'completed', processed: 3 });
+    expect(visited).toEqual([1, 2, 3, 1, 2, 3]);
+  });
+
+  it('leaves a period another worker holds alone', async () => {
+    const { db, takeOver } = createJobRunsDb();
+    const { job, visited } = createCountingJob(3, { onItem: id => id === 1 && takeOver('worker-b') });
+
+    // worker-b takes the lease while worker-a is on item 1
+    expect(await runJob(job, { db, at: AT, workerId: 'worker-a' })).toMatchObject({ outcome: 'locked' });
+    expect(visited).toEqual([1]);
+
+    expect(await runJob(job, { db, at: AT, workerId: 'worker-c' })).toMatchObject({ outcome: 'locked' });
+  });
+
+  it('resumes a failed run after the last checkpoint', async () => {
+    const { db, runs } = createJobRunsDb();
+    const crashing = createCountingJob(5);
+
+    // The connection drops while checkpointing item 3
+    const crashingDb = {
+      rpc: async (name: string, args: RpcArgs) => {
+        if (name === 'checkpoint_job_run' && args.p_item_id === 3) throw new Error('Connection lost');
+        return db.rpc(name, args);
+      }
+    } as unknown as SupabaseClient;
+
+    const failed = await runJob(crashing.job, { db: crashingDb, at: AT, workerId: 'worker-a' });
+    expect(failed).toMatchObject({ outcome: 'failed', error: 'Connection lost' });
+    expect(runs[0]).toMatchObject({ status: 'failed', last_item_id: 2 });
+
+    const { job, visited } = createCountingJob(5);
+    const summary = await runJob(job, { db, at: AT, workerId: 'worker-a' });
+
+    expect(summary).toMatchObject({ outcome: 'completed', resumedFrom: 2, processed: 5 });
+    expect(visited).toEqual([3, 4, 5]);
+  });
+
+  it('marks a task job that throws as failed', async () => {
+    const { db, runs } = createJobRunsDb();
+    const job: JobDefinition = {
+      name: 'task',
+      schedule: '* * * * *',
+      period: 'hour',
+      run: async () => {
+        throw new Error('RPC unavailable');
+      }
+    };
+
+    const summary = await runJob(job, { db, at: AT, workerId: 'worker-a' });
+
+    expect(summary).toMatchObject({ outcome: 'failed', error: 'RPC unavailable', runKey: '2024-05-01T13' });
+    expect(runs[0].status).toBe('failed');
+  });
+});
@@ -0,0 +1,195 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// A run whose worker stops checkpointing for this long can be taken over
+const DEFAULT_LEASE_SECONDS = 300;
+const WORKER_ID = `${process.pid}-${Math.random().toString(36).slice(2, 10)}`;
+
+// The period one run covers; it determines the run key
+export type JobPeriod = 'week' | 'day' | 'hour' | 'quarter_hour';
+
+export interface JobContext {
+  db: SupabaseClient;
+  runKey: string;
+  runDate: Date; // Start of the period, UTC
+}
+
+interface JobDefinitionBase {
+  name: string;
+  schedule: string; // Cron expression
+  period: JobPeriod;
+  leaseSeconds?: number;
+}
+
+/**
+ * Walks a table in ascending id order. processItem must be idempotent: after a
+ * crash the item in flight when the last checkpoint was written is processed again.
+ */
+export interface BatchJobDefinition<T> extends JobDefinitionBase {
+  batchSize: number;
+  fetchBatch: (ctx: JobContext, afterId: number | null, limit: number) => Promise<T[]>;
+  getItemId: (item: T) => number;
+  processItem: (ctx: JobContext, item: T) => Promise<void>;
+}
+
+// A single step with no items; it only gets the lock and the run record
+export interface TaskJobDefinition extends JobDefinitionBase {
+  run: (ctx: JobContext) => Promise<Record<string, unknown>>;
+}
+
+export type JobDefinition = BatchJobDefinition<unknown> | TaskJobDefinition;
+
+export interface JobRunOptions {
+  db: SupabaseClient; // Service role client; the job_runs RPCs aren't granted to players
+  at?: Date; // Any time inside the period to run; defaults to now
+  replay?: boolean; // Run a completed period again from the first item
+  workerId?: string;
+}
+
+export interface JobRunSummary {
+  job: string;
+  runKey: string;
+  // skipped: the period already completed; locked: another worker holds it
+  outcome: 'completed' | 'failed' | 'skipped' | 'locked';
+  processed: number;
+  failed: number;
+  resumedFrom: number | null;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+interface JobRunRow {
+  id: number;
+  status: 'running' | 'completed' | 'failed';
+  last_item_id: number | null;
+  processed: number;
+  failed: number;
+}
+
+export const defineBatchJob = <T>(job: BatchJobDefinition<T>): JobDefinition =>
+  job as unknown as BatchJobDefinition<unknown>;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// UTC period containing the date: 2024-04-29 (the week's Monday), 2024-05-01,
+// 2024-05-01T13 or 2024-05-01T13:45
+export const getRunKey = (period: JobPeriod, date: Date): string => {
+  if (period === 'week') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday))
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  const day = date.toISOString().slice(0, 10);
+  if (period === 'day') return day;
+
+  const hour = `${day}T${pad(date.getUTCHours())}`;
+  if (period === 'hour') return hour;
+
+  return `${hour}:${pad(Math.floor(date.getUTCMinutes() / 15) * 15)}`;
+};
+
+export const getRunKeyStart = (runKey: string): Date => {
+  if (runKey.length === 10) return new Date(`${runKey}T00:00:00Z`);
+  if (runKey.length === 13) return new Date(`${runKey}:00:00Z`);
+  return new Date(`${runKey}:00Z`);
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Returns false if the lock was lost part way through
+const processBatches = async (
+  job: BatchJobDefinition<unknown>,
+  ctx: JobContext,
+  run: JobRunRow,
+  workerId: string,
+  summary: JobRunSummary
+): Promise<boolean> => {
+  let afterId = run.last_item_id;
+
+  for (;;) {
+    const items = await job.fetchBatch(ctx, afterId, job.batchSize);
+
+    for (const item of items) {
+      const itemId = job.getItemId(item);
+      let itemError: string | null = null;
+
+      try {
+        await job.processItem(ctx, item);
+        summary.processed++;
+      } catch (error) {
+        itemError = errorMessage(error);
+        summary.failed++;
+      }
+
+      const { data: stillHeld, error } = await ctx.db.rpc('checkpoint_job_run', {
+        p_run_id: run.id,
+        p_worker_id: workerId,
+        p_item_id: itemId,
+        p_error: itemError,
+        p_lease_seconds: job.leaseSeconds ?? DEFAULT_LEASE_SECONDS
+      });
+
+      if (error) throw error;
+      if (!stillHeld) return false;
+      afterId = itemId;
+    }
+
+    if (items.length < job.batchSize) return true;
+  }
+};
+
+/**
+ * Run the job for the period containing options.at. Only one worker runs a
+ * period at a time; a period that already completed is skipped unless replayed,
+ * and one left unfinished resumes after its last checkpoint.
+ */
+export const runJob = async (job: JobDefinition, options: JobRunOptions): Promise<JobRunSummary> => {
+  const { db } = options;
+  const workerId = options.workerId ?? WORKER_ID;
+  const runKey = getRunKey(job.period, options.at ?? new Date());
+  const ctx: JobContext = { db, runKey, runDate: getRunKeyStart(runKey) };
+  const summary: JobRunSummary = { job: job.name, runKey, outcome: 'completed', processed: 0, failed: 0, resumedFrom: null };
+
+  const { data, error } = await db.rpc('acquire_job_run', {
+    p_job_name: job.name,
+    p_run_key: runKey,
+    p_worker_id: workerId,
+    p_lease_seconds: job.leaseSeconds ?? DEFAULT_LEASE_SECONDS,
+    p_replay: options.replay ?? false
+  });
+
+  if (error) throw error;
+
+  const run = ((data || []) as JobRunRow[])[0];
+  if (!run) return { ...summary, outcome: 'locked' };
+  if (run.status === 'completed') {
+    return { ...summary, outcome: 'skipped', processed: run.processed, failed: run.failed };
+  }
+
+  summary.processed = run.processed;
+  summary.failed = run.failed;
+  summary.resumedFrom = run.last_item_id;
+
+  try {
+    if ('run' in job) {
+      summary.details = await job.run(ctx);
+    } else if (!(await processBatches(job, ctx, run, workerId, summary))) {
+      return { ...summary, outcome: 'locked' };
+    }
+  } catch (runError) {
+    summary.outcome = 'failed';
+    summary.error = errorMessage(runError);
+  }
+
+  const { error: finishError } = await db.rpc('finish_job_run', {
+    p_run_id: run.id,
+    p_worker_id: workerId,
+    p_status: summary.outcome,
+    p_error: summary.error ?? null,
+    p_summary: { processed: summary.processed, failed: summary.failed, ...summary.details }
+  });
+
+  if (finishError) throw finishError;
+  return summary;
+};
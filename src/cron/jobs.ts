@@ -0,0 +1,264 @@
+import { logCronError, logCronInfo, logCronWarning } from '@/lib/logger';
+import { referralReview } from '@/lib/referralVerification';
+import { referralService } from '@/lib/referralService';
+import { TOKEN_CONFIG } from '@/lib/tokenSystem';
+import { runEarningPlausibilityCheck } from './earningPlausibility';
+import { defineBatchJob, getRunKey } from './jobRunner';
+import type { JobContext, JobDefinition } from './jobRunner';
+
+interface ActiveStake {
+  id: number;
+  user_id: number;
+  amount: number;
+  daily_rate: number;
+  speed_boost_active: boolean | null;
+}
+
+interface UserRow {
+  id: number;
+}
+
+const fetchUsers = async (ctx: JobContext, afterId: number | null, limit: number): Promise<UserRow[]> => {
+  let query = ctx.db.from('users').select('id').order('id', { ascending: true }).limit(limit);
+  if (afterId !== null) query = query.gt('id', afterId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Daily rewards distribution - Runs every day at midnight
+export const dailyRewardsJob = defineBatchJob<ActiveStake>({
+  name: 'dailyRewards',
+  schedule: '0 0 * * *',
+  period: 'day',
+  batchSize: 200,
+
+  async fetchBatch(ctx, afterId, limit) {
+    let query = ctx.db
+      .from('stakes')
+      .select('id, user_id, amount, daily_rate, speed_boost_active')
+      .eq('is_active', true)
+      .order('id', { ascending: true })
+      .limit(limit);
+    if (afterId !== null) query = query.gt('id', afterId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
+  getItemId: stake => stake.id,
+
+  async processItem(ctx, stake) {
+    let dailyRate = Number(stake.daily_rate);
+    if (stake.speed_boost_active) {
+      dailyRate *= 2; // Double the rate if speed boost is active
+    }
+
+    // One payment per stake and day, however often the day is run
+    const { error } = await ctx.db.rpc('process_daily_rewards', {
+      p_stake_id: stake.id,
+      p_amount: Number(stake.amount) * dailyRate,
+      p_idempotency_key: `dailyRewards:${ctx.runKey}:${stake.id}`
+    });
+
+    if (error) throw error;
+  }
+});
+
+// Team volume recalculation - Runs every hour
+export const teamVolumeJob = defineBatchJob<UserRow>({
+  name: 'teamVolume',
+  schedule: '0 * * * *',
+  period: 'hour',
+  batchSize: 500,
+  fetchBatch: fetchUsers,
+  getItemId: user => user.id,
+
+  async processItem(ctx, user) {
+    const { error } = await ctx.db.rpc('recalculate_team_volume', { p_user_id: user.id });
+    if (error) throw error;
+  }
+});
+
+// Rank updates - Runs daily at 1 AM
+export const rankUpdateJob = defineBatchJob<UserRow>({
+  name: 'rankUpdate',
+  schedule: '0 1 * * *',
+  period: 'day',
+  batchSize: 500,
+  fetchBatch: fetchUsers,
+  getItemId: user => user.id,
+
+  async processItem(ctx, user) {
+    const { error } = await ctx.db.rpc('calculate_user_rank', { p_user_id: user.id });
+    if (error) throw error;
+  }
+});
+
+// Weekly rank bonuses - Runs Mondays at 2 AM for the week that ended at midnight,
+// paid at the rank each player held when it ended
+export const rankBonusesJob: JobDefinition = {
+  name: 'rankBonuses',
+  schedule: '0 2 * * 1',
+  period: 'week',
+
+  async run(ctx) {
+    const weekStart = getRunKey('week', new Date(ctx.runDate.getTime() - 1));
+    const { data, error } = await ctx.db.rpc('settle_weekly_rank_bonuses', { p_week_start: weekStart });
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as { settled: number; total_amount: number } | null;
+    return { settled: Number(row?.settled) || 0, totalAmount: Number(row?.total_amount) || 0 };
+  }
+};
+
+// GLP distribution - Runs Mondays at 3 AM for the epoch that ended at midnight.
+// Snapshotting and paying are separate steps so a failed payout can be retried
+// from the same sealed report.
+export const glpDistributionJob: JobDefinition = {
+  name: 'glpDistribution',
+  schedule: '0 3 * * 1',
+  period: 'week',
+
+  async run(ctx) {
+    const epochEnd = ctx.runDate;
+    const epochStart = new Date(epochEnd.getTime() - TOKEN_CONFIG.GLP.DISTRIBUTION_INTERVAL);
+
+    const { data: epoch, error: snapshotError } = await ctx.db.rpc('snapshot_glp_epoch', {
+      p_epoch_start: epochStart.toISOString(),
+      p_epoch_end: epochEnd.toISOString(),
+      p_top_limit: TOKEN_CONFIG.GLP.TOP_EARNERS_LIMIT,
+      p_min_team_volume: TOKEN_CONFIG.GLP.MINIMUM_TEAM_VOLUME
+    });
+    if (snapshotError) throw snapshotError;
+
+    const report = epoch as { id: number; participant_count: number; merkle_root: string | null };
+    const { data, error } = await ctx.db.rpc('pay_glp_epoch', { p_epoch_id: report.id });
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as { paid: number; total_amount: number } | null;
+    return {
+      epochId: report.id,
+      participants: report.participant_count,
+      merkleRoot: report.merkle_root,
+      paid: Number(row?.paid) || 0,
+      totalAmount: Number(row?.total_amount) || 0
+    };
+  }
+};
+
+// User activity monitoring - Runs every 15 minutes
+export const activityMonitorJob: JobDefinition = {
+  name: 'activityMonitor',
+  schedule: '*/15 * * * *',
+  period: 'quarter_hour',
+  leaseSeconds: 900,
+
+  async run(ctx) {
+    const details: Record<string, unknown> = {};
+
+    // Clean up inactive sessions
+    const { error: cleanupError } = await ctx.db.rpc('cleanup_inactive_sessions');
+
+    if (cleanupError) {
+      await logCronWarning('activityMonitor', 'Failed to cleanup sessions', {
+        error: cleanupError.message
+      });
+    }
+
+    // Monitor for suspicious activity
+    const { data: suspiciousActivity, error: monitorError } = await ctx.db.rpc('check_suspicious_activity');
+
+    if (monitorError) {
+      await logCronError('activityMonitor', monitorError, 'warning');
+    } else if (suspiciousActivity && suspiciousActivity.length > 0) {
+      details.suspiciousActivity = suspiciousActivity.length;
+      await logCronWarning('activityMonitor', 'Suspicious activity detected', {
+        activities: suspiciousActivity
+      });
+    }
+
+    // Check mining earnings synced since the last run
+    try {
+      const plausibility = await runEarningPlausibilityCheck(ctx.db);
+      details.plausibility = plausibility;
+      await logCronInfo('activityMonitor', 'Earning plausibility check finished', { ...plausibility });
+    } catch (plausibilityError) {
+      await logCronError('activityMonitor', plausibilityError, 'warning');
+    }
+
+    // Pay referral rewards held until the referred player became active
+    try {
+      const referralRewards = await referralReview.releaseVerifiedRewards(ctx.db);
+      details.referralRewards = referralRewards;
+      if (referralRewards.released > 0 || referralRewards.expired > 0) {
+        await logCronInfo('activityMonitor', 'Released verified referral rewards', { ...referralRewards });
+      }
+    } catch (referralError) {
+      await logCronError('activityMonitor', referralError, 'warning');
+    }
+
+    // Credit upline payouts that made it through their hold without being reversed
+    try {
+      const settledPayouts = await referralService.settlePayouts(ctx.db);
+      details.settledPayouts = settledPayouts;
+      if (settledPayouts > 0) {
+        await logCronInfo('activityMonitor', 'Settled referral payouts', { settled: settledPayouts });
+      }
+    } catch (payoutError) {
+      await logCronError('activityMonitor', payoutError, 'warning');
+    }
+
+    return details;
+  }
+};
+
+// Period leaderboards - Runs every 15 minutes: re-ranks the running day, week
+// and month and freezes the final standings of any that ended
+export const leaderboardsJob: JobDefinition = {
+  name: 'leaderboards',
+  schedule: '*/15 * * * *',
+  period: 'quarter_hour',
+
+  async run(ctx) {
+    const { data, error } = await ctx.db.rpc('refresh_leaderboards', { p_at: ctx.runDate.toISOString() });
+    if (error) throw error;
+
+    const rows = (data || []) as { period: string; finalized: number; ranked: number }[];
+    return Object.fromEntries(rows.map(row => [row.period, { finalized: row.finalized, ranked: row.ranked }]));
+  }
+};
+
+// Season closing - Runs hourly: ranks seasons that have ended and grants the
+// reward of each bracket for players to claim
+export const seasonCloseJob: JobDefinition = {
+  name: 'seasonClose',
+  schedule: '5 * * * *',
+  period: 'hour',
+
+  async run(ctx) {
+    const { data, error } = await ctx.db.rpc('close_due_seasons');
+    if (error) throw error;
+
+    const rows = (data || []) as { season_id: number; participants: number; rewarded: number }[];
+    for (const row of rows) {
+      await logCronInfo('seasonClose', `Closed season ${row.season_id}`, { ...row });
+    }
+    return { closed: rows.length, seasons: rows };
+  }
+};
+
+export const SCHEDULED_JOBS: JobDefinition[] = [
+  dailyRewardsJob,
+  teamVolumeJob,
+  rankUpdateJob,
+  rankBonusesJob,
+  glpDistributionJob,
+  activityMonitorJob,
+  leaderboardsJob,
+  seasonCloseJob
+];
+
+export const findJob = (name: string): JobDefinition | undefined => SCHEDULED_JOBS.find(job => job.name === name);
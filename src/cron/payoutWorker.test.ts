@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Transaction } from '@/utility/ton-api';
+import { runPayoutWorker } from './payoutWorker';
+import type { PayoutWallet } from './payoutWorker';
+
+vi.mock('@/lib/logger', () => ({ logCronWarning: vi.fn() }));
+
+type RpcArgs = Record<string, unknown>;
+
+const WALLET_ADDRESS = 'EQ-hot-wallet';
+const MINUTE_MS = 60 * 1000;
+
+const makeWithdrawal = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  wallet_amount: 1.5,
+  wallet_address: 'UQ-player',
+  attempts: 5,
+  max_attempts: 5,
+  payout_valid_until: null,
+  ...overrides
+});
+
+// Claims the given rows and records every other RPC; fail_withdrawal_attempt answers
+// with failStatus
+const createPayoutDb = (rows: object[], failStatus = 'failed') => {
+  const calls: { name: string; args: RpcArgs }[] = [];
+
+  const db = {
+    rpc: async (name: string, args: RpcArgs) => {
+      calls.push({ name, args });
+      if (name === 'claim_withdrawal_payouts') return { data: rows, error: null };
+      if (name === 'fail_withdrawal_attempt') return { data: failStatus, error: null };
+      return { data: null, error: null };
+    }
+  } as unknown as SupabaseClient;
+
+  const called = (name: string) => calls.filter(call => call.name === name);
+
+  return { db, called };
+};
+
+const createWallet = (sendTransfer: PayoutWallet['sendTransfer'] = async () => undefined): PayoutWallet => ({
+  address: WALLET_ADDRESS,
+  getSeqno: async () => 12,
+  sendTransfer
+});
+
+const payoutTransaction = (comment: string): Transaction => ({
+  hash: 'payout-hash',
+  lt: 100,
+  utime: 0,
+  success: true,
+  aborted: false,
+  out_msgs: [{ value: 1_500_000_000, decoded_op_name: 'text_comment', decoded_body: { text: comment } }]
+});
+
+// Serves the given pages in order, repeating the last one
+const createApi = (...pages: Transaction[][]) => {
+  let call = 0;
+  return {
+    getAccountTransactions: async () => ({ transactions: pages[Math.min(call++, pages.length - 1)] })
+  };
+};
+
+describe('runPayoutWorker', () => {
+  it('keeps a failed attempt processing while its transfer can still land', async () => {
+    const { db, called } = createPayoutDb([makeWithdrawal({ attempts: 4 })], 'processing');
+    // The transfer is broadcast but the node times out
+    const wallet = createWallet(async () => {
+      throw new Error('Request timed out');
+    });
+
+    const summary = await runPayoutWorker(db, { wallet, api: createApi([]) });
+
+    expect(summary).toMatchObject({ claimed: 1, unconfirmed: 1, failed: 0 });
+    expect(called('record_payout_attempt')).toHaveLength(1);
+    expect(called('fail_withdrawal_attempt')[0].args).toMatchObject({ p_error: 'Request timed out' });
+  });
+
+  it('refunds on the last attempt once the transfer has expired and the wallet shows no payout', async () => {
+    const expired = new Date(Date.now() - 5 * MINUTE_MS).toISOString();
+    const { db, called } = createPayoutDb([makeWithdrawal({ payout_valid_until: expired })]);
+    const sendTransfer = vi.fn(async () => undefined);
+
+    const summary = await runPayoutWorker(db, { wallet: createWallet(sendTransfer), api: createApi([]) });
+
+    expect(summary).toMatchObject({ claimed: 1, failed: 1 });
+    expect(sendTransfer).not.toHaveBeenCalled();
+    expect(called('fail_withdrawal_attempt')[0].args).toMatchObject({ p_withdrawal_id: 7 });
+  });
+
+  it('completes instead of refunding when the payout shows up on the last look', async () => {
+    const expired = new Date(Date.now() - 5 * MINUTE_MS).toISOString();
+    const { db, called } = createPayoutDb([makeWithdrawal({ payout_valid_until: expired })]);
+    const api = createApi([], [payoutTransaction('withdrawal:7')]);
+
+    const summary = await runPayoutWorker(db, { wallet: createWallet(), api });
+
+    expect(summary).toMatchObject({ completed: 1, failed: 0 });
+    expect(called('complete_withdrawal')[0].args).toEqual({ p_withdrawal_id: 7, p_tx_hash: 'payout-hash' });
+    expect(called('fail_withdrawal_attempt')).toHaveLength(0);
+  });
+
+  it("doesn't refund while the wallet's transactions can't be read", async () => {
+    const expired = new Date(Date.now() - 5 * MINUTE_MS).toISOString();
+    const { db, called } = createPayoutDb([makeWithdrawal({ payout_valid_until: expired })]);
+    const api = {
+      getAccountTransactions: async () => {
+        throw new Error('tonapi unavailable');
+      }
+    };
+
+    const summary = await runPayoutWorker(db, { wallet: createWallet(), api });
+
+    expect(summary).toMatchObject({ unconfirmed: 1, failed: 0 });
+    expect(called('fail_withdrawal_attempt')).toHaveLength(0);
+  });
+});
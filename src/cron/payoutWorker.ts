@@ -0,0 +1,261 @@
+import { Address, internal, SendMode, TonClient, WalletContractV4 } from '@ton/ton';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logCronWarning } from '@/lib/logger';
+import { TonApi } from '@/utility/ton-api';
+import type { TonApiClient } from '@/utility/ton-api';
+
+const JOB_NAME = 'payoutWorker';
+const BATCH_SIZE = 5;
+const NANO_PER_TON = 1_000_000_000;
+// Signed transfers expire after this, so an unconfirmed one can't land after a resend
+const TRANSFER_TTL_SECONDS = 60;
+const CONFIRM_POLL_MS = 5000;
+const DEFAULT_TONCENTER_ENDPOINT = 'https://toncenter.com/api/v2/jsonRPC';
+
+export interface PayoutTransfer {
+  seqno: number;
+  to: string;
+  amountNano: bigint;
+  comment: string;
+  validUntil: number; // Unix seconds
+}
+
+export interface PayoutWallet {
+  address: string;
+  getSeqno: () => Promise<number>;
+  sendTransfer: (transfer: PayoutTransfer) => Promise<void>;
+}
+
+export interface PayoutWorkerOptions {
+  wallet?: PayoutWallet;
+  api?: TonApiClient;
+}
+
+export interface PayoutSummary {
+  claimed: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  unconfirmed: number;
+}
+
+interface QueuedWithdrawal {
+  id: number;
+  wallet_amount: number | string;
+  wallet_address: string;
+  attempts: number;
+  max_attempts: number;
+  payout_valid_until: string | null;
+}
+
+/**
+ * Hot wallet from PAYOUT_WALLET_SECRET_KEY (hex ed25519 secret key, public key in
+ * the last 32 bytes). TONCENTER_ENDPOINT and TONCENTER_API_KEY are optional.
+ */
+export const createTonPayoutWallet = (): PayoutWallet => {
+  const secretKeyHex = process.env.PAYOUT_WALLET_SECRET_KEY;
+  if (!secretKeyHex) {
+    throw new Error('PAYOUT_WALLET_SECRET_KEY is not set');
+  }
+
+  const secretKey = Buffer.from(secretKeyHex, 'hex');
+  const client = new TonClient({
+    endpoint: process.env.TONCENTER_ENDPOINT || DEFAULT_TONCENTER_ENDPOINT,
+    apiKey: process.env.TONCENTER_API_KEY
+  });
+  const wallet = client.open(WalletContractV4.create({ workchain: 0, publicKey: secretKey.subarray(32) }));
+
+  return {
+    address: wallet.address.toString(),
+    getSeqno: () => wallet.getSeqno(),
+    sendTransfer: ({ seqno, to, amountNano, comment, validUntil }) =>
+      wallet.sendTransfer({
+        seqno,
+        secretKey,
+        timeout: validUntil,
+        sendMode: SendMode.PAY_GAS_SEPARATELY,
+        messages: [internal({ to: Address.parse(to), value: amountNano, body: comment, bounce: false })]
+      })
+  };
+};
+
+const getPayoutComment = (withdrawalId: number) => `withdrawal:${withdrawalId}`;
+
+// Hash of the hot wallet transaction that sent this comment, if tonapi has indexed it
+const findPayoutTransaction = async (
+  api: TonApiClient,
+  walletAddress: string,
+  comment: string
+): Promise<string | null> => {
+  const page = await api.getAccountTransactions(walletAddress, { limit: 100, sort_order: 'desc' });
+  const transaction = page?.transactions.find(tx =>
+    tx.success && tx.out_msgs?.some(msg => msg.decoded_op_name === 'text_comment' && msg.decoded_body?.text === comment)
+  );
+  return transaction?.hash ?? null;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const completeWithdrawal = async (db: SupabaseClient, withdrawalId: number, txHash: string) => {
+  const { error } = await db.rpc('complete_withdrawal', { p_withdrawal_id: withdrawalId, p_tx_hash: txHash });
+  if (error) throw error;
+};
+
+// Same bound as fail_withdrawal_attempt: a failure on this claim is refunded, not retried
+const isLastAttempt = (withdrawal: QueuedWithdrawal) => withdrawal.attempts >= withdrawal.max_attempts;
+
+// Returns true once the payout is completed, false if it is still unconfirmed
+const payOut = async (
+  withdrawal: QueuedWithdrawal,
+  wallet: PayoutWallet,
+  api: TonApiClient,
+  db: SupabaseClient
+): Promise<boolean> => {
+  const comment = getPayoutComment(withdrawal.id);
+
+  // A previous attempt may have landed after the worker gave up waiting
+  const existingHash = await findPayoutTransaction(api, wallet.address, comment);
+  if (existingHash) {
+    await completeWithdrawal(db, withdrawal.id, existingHash);
+    return true;
+  }
+
+  // The last claim only settles earlier transfers; it never signs a new one
+  if (isLastAttempt(withdrawal)) {
+    throw new Error(`Payout not confirmed after ${withdrawal.max_attempts - 1} attempts`);
+  }
+
+  const seqno = await wallet.getSeqno();
+  const validUntil = Math.floor(Date.now() / 1000) + TRANSFER_TTL_SECONDS;
+
+  const validUntilIso = new Date(validUntil * 1000).toISOString();
+  const { error: recordError } = await db.rpc('record_payout_attempt', {
+    p_withdrawal_id: withdrawal.id,
+    p_seqno: seqno,
+    p_valid_until: validUntilIso
+  });
+  if (recordError) throw recordError;
+  withdrawal.payout_valid_until = validUntilIso;
+
+  await wallet.sendTransfer({
+    seqno,
+    to: withdrawal.wallet_address,
+    amountNano: BigInt(Math.round(Number(withdrawal.wallet_amount) * NANO_PER_TON)),
+    comment,
+    validUntil
+  });
+
+  // Wait for the wallet to accept the transfer, then for tonapi to index it
+  while (Date.now() / 1000 < validUntil + CONFIRM_POLL_MS / 1000) {
+    await sleep(CONFIRM_POLL_MS);
+    if ((await wallet.getSeqno()) <= seqno) continue;
+
+    const txHash = await findPayoutTransaction(api, wallet.address, comment);
+    if (txHash) {
+      await completeWithdrawal(db, withdrawal.id, txHash);
+      return true;
+    }
+  }
+
+  // Left processing; the next claim after validUntil checks again before resending
+  return false;
+};
+
+// The last attempt is only refunded once the last signed transfer has expired and the
+// hot wallet shows no transfer with its comment. Until then it stays processing and
+// the next claim checks again.
+const settleFinalAttempt = async (
+  withdrawal: QueuedWithdrawal,
+  wallet: PayoutWallet,
+  api: TonApiClient,
+  db: SupabaseClient
+): Promise<'completed' | 'unconfirmed' | 'refundable'> => {
+  if (withdrawal.payout_valid_until && Date.now() <= Date.parse(withdrawal.payout_valid_until)) {
+    return 'unconfirmed';
+  }
+
+  let txHash: string | null;
+  try {
+    txHash = await findPayoutTransaction(api, wallet.address, getPayoutComment(withdrawal.id));
+  } catch {
+    return 'unconfirmed';
+  }
+
+  if (!txHash) return 'refundable';
+  await completeWithdrawal(db, withdrawal.id, txHash);
+  return 'completed';
+};
+
+let isRunning = false;
+
+/**
+ * Send queued withdrawals from the hot wallet one at a time. Each transfer carries
+ * the withdrawal id as its comment so a retry can find an earlier send on-chain
+ * instead of paying twice. Errors send the withdrawal back to the queue with
+ * backoff; the max_attempts-th claim sends nothing and refunds the balance once no
+ * earlier transfer for it can still land.
+ */
+export const runPayoutWorker = async (db: SupabaseClient, options: PayoutWorkerOptions = {}): Promise<PayoutSummary> => {
+  const summary: PayoutSummary = { claimed: 0, completed: 0, retrying: 0, failed: 0, unconfirmed: 0 };
+
+  // Runs can outlast the cron interval while waiting for confirmations
+  if (isRunning) return summary;
+  isRunning = true;
+
+  try {
+    const wallet = options.wallet ?? createTonPayoutWallet();
+    const api = options.api ?? new TonApi();
+
+    const { data: claimed, error } = await db.rpc('claim_withdrawal_payouts', { p_limit: BATCH_SIZE });
+    if (error) throw error;
+
+    for (const withdrawal of (claimed || []) as QueuedWithdrawal[]) {
+      summary.claimed++;
+
+      try {
+        if (await payOut(withdrawal, wallet, api, db)) {
+          summary.completed++;
+        } else {
+          summary.unconfirmed++;
+        }
+      } catch (payoutError) {
+        const message = payoutError instanceof Error ? payoutError.message : String(payoutError);
+
+        if (isLastAttempt(withdrawal)) {
+          const outcome = await settleFinalAttempt(withdrawal, wallet, api, db);
+          if (outcome === 'completed') {
+            summary.completed++;
+            continue;
+          }
+          if (outcome === 'unconfirmed') {
+            summary.unconfirmed++;
+            continue;
+          }
+        }
+
+        const { data: status, error: failError } = await db.rpc('fail_withdrawal_attempt', {
+          p_withdrawal_id: withdrawal.id,
+          p_error: message
+        });
+        if (failError) throw failError;
+
+        if (status === 'failed') {
+          summary.failed++;
+          await logCronWarning(JOB_NAME, 'Withdrawal failed and was refunded', {
+            withdrawalId: withdrawal.id,
+            attempts: withdrawal.attempts,
+            error: message
+          });
+        } else if (status === 'pending') {
+          summary.retrying++;
+        } else {
+          summary.unconfirmed++;
+        }
+      }
+    }
+
+    return summary;
+  } finally {
+    isRunning = false;
+  }
+};
@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+};
+
+// Job bookkeeping, payouts, deposit confirmation and ledger grants are granted to
+// service_role only, so server jobs can't use the app's anon/session client.
+export const createServiceClient = (): SupabaseClient =>
+  createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+    auth: { persistSession: false }
+  });
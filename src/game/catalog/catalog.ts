@@ -0,0 +1,21 @@
+import type { Upgrade } from '@/game/engine';
+import { UPGRADE_CATALOG_VERSION, UPGRADE_DEFINITIONS } from './definitions';
+import type { UpgradeCatalog, UpgradeDefinition } from './types';
+import { validateUpgradeCatalog } from './validation';
+
+// Throws if the definitions fail validation
+export const createUpgradeCatalog = (version: number, upgrades: UpgradeDefinition[]): UpgradeCatalog => {
+  const errors = validateUpgradeCatalog(upgrades);
+  if (errors.length > 0) {
+    throw new Error(`Invalid upgrade catalog v${version}: ${errors.join('; ')}`);
+  }
+  return { version, upgrades };
+};
+
+export const DEFAULT_UPGRADE_CATALOG = createUpgradeCatalog(UPGRADE_CATALOG_VERSION, UPGRADE_DEFINITIONS);
+
+// Fresh level-0 upgrades for a catalog; saved levels are applied with reconcileUpgrades
+export const getCatalogUpgrades = (catalog: UpgradeCatalog): Upgrade[] =>
+  catalog.upgrades.map(definition => ({ ...definition, level: 0, unlockProgress: 0 }));
+
+export const getDefaultUpgrades = (): Upgrade[] => getCatalogUpgrades(DEFAULT_UPGRADE_CATALOG);
@@ -0,0 +1,476 @@
+import type { UpgradeDefinition } from './types';
+
+// Bump when definitions change so synced catalogs and saves can tell which one they were built from
+export const UPGRADE_CATALOG_VERSION = 1;
+
+// Spiritual progression upgrades - unlocking different parts of the soul.
+// Levels are not part of the definition; saves store them as { id, level }.
+export const UPGRADE_DEFINITIONS: UpgradeDefinition[] = [
+  // 🌱 ROOT CHAKRA - Foundation & Grounding
+  {
+    id: 'root-chakra',
+    name: '🌱 ROOT CHAKRA',
+    effect: '+0.5 wisdom/sec (Grounding)',
+    baseCost: 25,
+    costMultiplier: 1.12,
+    effectValue: 0.5,
+    category: 'chakra',
+    description: 'Unlock your foundation - stability and security',
+    maxLevel: 20,
+    unlockReward: 'Unlock the ability to use cosmic upgrades',
+    benefits: ['+200% mining efficiency', '+150% energy regeneration', 'Exclusive cosmic upgrades', 'Divine resonance bonus'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade unlocks the ability to use cosmic upgrades, which are powerful and unique. As you progress through the tiers, you\'ll gain access to more advanced features and bonuses. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'earth-connection',
+    name: '🌍 EARTH CONNECTION',
+    effect: '+50 spiritual capacity',
+    baseCost: 75,
+    costMultiplier: 1.15,
+    effectValue: 50,
+    category: 'chakra',
+    description: 'Deepen your connection to Mother Earth',
+    maxLevel: 10,
+    unlockReward: 'Unlock the ability to use solar plexus upgrades',
+    benefits: ['+50% spiritual capacity', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade deepens your connection to Mother Earth, increasing your spiritual capacity and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 🧘 SACRAL CHAKRA - Creativity & Flow
+  {
+    id: 'sacral-chakra',
+    name: '🧘 SACRAL CHAKRA',
+    effect: '+1.0 wisdom/sec (Creativity)',
+    baseCost: 200,
+    costMultiplier: 1.18,
+    effectValue: 1.0,
+    category: 'chakra',
+    description: 'Awaken your creative energy and emotional flow',
+    requires: { upgrade: 'root-chakra', level: 3 },
+    maxLevel: 15,
+    unlockReward: 'Unlock the ability to use heart chakra upgrades',
+    benefits: ['+100% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade awakens your creative energy and emotional flow, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'flow-state',
+    name: '🌊 FLOW STATE',
+    effect: 'Auto-meditation when ready',
+    baseCost: 500000,
+    costMultiplier: 2.0,
+    effectValue: 1,
+    category: 'chakra',
+    description: 'Enter automatic meditation when conditions are perfect',
+    requires: { upgrade: 'sacral-chakra', level: 5 },
+    maxLevel: 1,
+    unlockReward: 'Unlock the ability to use energy mastery upgrades',
+    benefits: ['Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade allows you to enter automatic meditation when your energy levels are high, providing a consistent boost to your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 💪 SOLAR PLEXUS - Willpower & Confidence
+  {
+    id: 'solar-plexus',
+    name: '💪 SOLAR PLEXUS',
+    effect: '+2.0 wisdom/sec (Willpower)',
+    baseCost: 750,
+    costMultiplier: 1.22,
+    effectValue: 2.0,
+    category: 'chakra',
+    description: 'Strengthen your personal power and confidence',
+    requires: { upgrade: 'sacral-chakra', level: 3 },
+    maxLevel: 12,
+    unlockReward: 'Unlock the ability to use air element upgrades',
+    benefits: ['+200% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade strengthens your personal power and confidence, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'inner-strength',
+    name: '⚡ INNER STRENGTH',
+    effect: '-10% energy cost',
+    baseCost: 50000,
+    costMultiplier: 1.5,
+    effectValue: -0.1,
+    category: 'chakra',
+    description: 'Harness your inner power for greater efficiency',
+    requires: { upgrade: 'solar-plexus', level: 3 },
+    maxLevel: 8,
+    unlockReward: 'Unlock the ability to use energy mastery upgrades',
+    benefits: ['-10% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade harnesses your inner power, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 💚 HEART CHAKRA - Love & Compassion
+  {
+    id: 'heart-chakra',
+    name: '💚 HEART CHAKRA',
+    effect: '+5.0 wisdom/sec (Love)',
+    baseCost: 3000,
+    costMultiplier: 1.25,
+    effectValue: 5.0,
+    category: 'chakra',
+    description: 'Open your heart to universal love and compassion',
+    requires: { upgrade: 'solar-plexus', level: 5 },
+    maxLevel: 10,
+    unlockReward: 'Unlock the ability to use cosmic consciousness upgrades',
+    benefits: ['+500% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade opens your heart to universal love and compassion, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'compassion-resonance',
+    name: '💝 COMPASSION RESONANCE',
+    effect: '+50% boost effectiveness',
+    baseCost: 1000000,
+    costMultiplier: 2.5,
+    effectValue: 0.5,
+    category: 'chakra',
+    description: 'Your love amplifies all spiritual practices',
+    requires: { upgrade: 'heart-chakra', level: 5 },
+    maxLevel: 5,
+    unlockReward: 'Unlock the ability to use throat chakra upgrades',
+    benefits: ['+50% boost effectiveness', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade amplifies the effectiveness of your boosts, increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 🗣️ THROAT CHAKRA - Communication & Truth
+  {
+    id: 'throat-chakra',
+    name: '🗣️ THROAT CHAKRA',
+    effect: '+10.0 wisdom/sec (Truth)',
+    baseCost: 10000,
+    costMultiplier: 1.3,
+    effectValue: 10.0,
+    category: 'chakra',
+    description: 'Speak your truth and manifest through vibration',
+    requires: { upgrade: 'heart-chakra', level: 5 },
+    maxLevel: 8,
+    unlockReward: 'Unlock the ability to use vibrational harmony upgrades',
+    benefits: ['+100% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade allows you to speak your truth and manifest through vibration, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'vibrational-harmony',
+    name: '🎵 VIBRATIONAL HARMONY',
+    effect: '+2000 max energy',
+    baseCost: 75000,
+    costMultiplier: 1.6,
+    effectValue: 2000,
+    category: 'chakra',
+    description: 'Your voice resonates with cosmic frequencies',
+    requires: { upgrade: 'throat-chakra', level: 3 },
+    maxLevel: 6,
+    unlockReward: 'Unlock the ability to use third eye upgrades',
+    benefits: ['+2000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade increases your max energy and your energy regeneration, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 👁️ THIRD EYE - Intuition & Insight
+  {
+    id: 'third-eye',
+    name: '👁️ THIRD EYE',
+    effect: '+25.0 wisdom/sec (Insight)',
+    baseCost: 50000,
+    costMultiplier: 1.35,
+    effectValue: 25.0,
+    category: 'chakra',
+    description: 'Open your inner eye to see beyond the veil',
+    requires: { upgrade: 'throat-chakra', level: 5 },
+    maxLevel: 6,
+    unlockReward: 'Unlock the ability to use psychic awareness upgrades',
+    benefits: ['+25% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade opens your inner eye, increasing your intuition and insight, and boosting your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'psychic-awareness',
+    name: '🔮 PSYCHIC AWARENESS',
+    effect: '+1.0 energy/sec',
+    baseCost: 100000,
+    costMultiplier: 1.7,
+    effectValue: 1.0,
+    category: 'chakra',
+    description: 'Your intuition guides your spiritual journey',
+    requires: { upgrade: 'third-eye', level: 3 },
+    maxLevel: 10,
+    unlockReward: 'Unlock the ability to use crown chakra upgrades',
+    benefits: ['+100% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade increases your wisdom and energy regeneration, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 👑 CROWN CHAKRA - Enlightenment & Unity
+  {
+    id: 'crown-chakra',
+    name: '👑 CROWN CHAKRA',
+    effect: '+100.0 wisdom/sec (Enlightenment)',
+    baseCost: 250000,
+    costMultiplier: 1.4,
+    effectValue: 100.0,
+    category: 'chakra',
+    description: 'Connect to divine consciousness and universal wisdom',
+    requires: { upgrade: 'third-eye', level: 6 },
+    maxLevel: 5,
+    unlockReward: 'Unlock the ability to use cosmic consciousness upgrades',
+    benefits: ['+5% offline bonus', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade connects you to divine consciousness and universal wisdom, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'cosmic-consciousness',
+    name: '🌟 COSMIC CONSCIOUSNESS',
+    effect: '+5% offline bonus',
+    baseCost: 150000,
+    costMultiplier: 1.8,
+    effectValue: 0.05,
+    category: 'chakra',
+    description: 'Your consciousness transcends time and space',
+    maxLevel: 3,
+    unlockReward: 'Unlock the ability to use cosmic upgrades',
+    benefits: ['+5% offline bonus', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade transcends time and space, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 🧘‍♀️ ADVANCED PRACTICES - Mastery
+  {
+    id: 'energy-mastery',
+    name: '🧘‍♀️ ENERGY MASTERY',
+    effect: '-30% energy cost',
+    baseCost: 5000000,
+    costMultiplier: 4.0,
+    effectValue: -0.3,
+    category: 'mastery',
+    description: 'Master the flow of spiritual energy',
+    maxLevel: 3,
+    unlockReward: 'Unlock the ability to use energy mastery upgrades',
+    benefits: ['-30% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade masters the flow of spiritual energy, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'divine-resonance',
+    name: '✨ DIVINE RESONANCE',
+    effect: '+2.0 energy/sec',
+    baseCost: 3000000,
+    costMultiplier: 3.5,
+    effectValue: 2.0,
+    category: 'mastery',
+    description: 'Resonate with the divine frequency',
+    maxLevel: 5,
+    unlockReward: 'Unlock the ability to use divine resonance upgrades',
+    benefits: ['+200% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade resonates with the divine frequency, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'transcendence',
+    name: '🚀 TRANSCENDENCE',
+    effect: '+5000 max energy',
+    baseCost: 2000000,
+    costMultiplier: 3.0,
+    effectValue: 5000,
+    category: 'mastery',
+    description: 'Transcend physical limitations',
+    maxLevel: 1,
+    unlockReward: 'Unlock the ability to use transcendence upgrades',
+    benefits: ['+5000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade transcends physical limitations, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 🧘‍♀️ MEDITATION PRACTICES - Inner Peace & Focus
+  {
+    id: 'mindful-breathing',
+    name: '🫁 MINDFUL BREATHING',
+    effect: '+0.3 energy/sec',
+    baseCost: 150,
+    costMultiplier: 1.14,
+    effectValue: 0.3,
+    category: 'meditation',
+    description: 'Master the art of conscious breathing',
+    maxLevel: 15,
+    unlockReward: 'Unlock the ability to use mindful breathing upgrades',
+    benefits: ['+30% energy/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade masters the art of conscious breathing, increasing your energy regeneration and boosting your mining rate. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'zen-focus',
+    name: '🎯 ZEN FOCUS',
+    effect: '+1.5 wisdom/sec',
+    baseCost: 400,
+    costMultiplier: 1.16,
+    effectValue: 1.5,
+    category: 'meditation',
+    description: 'Achieve perfect mental clarity',
+    maxLevel: 10,
+    unlockReward: 'Unlock the ability to use zen focus upgrades',
+    benefits: ['+150% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade improves your mental clarity, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'aura-purification',
+    name: '✨ AURA PURIFICATION',
+    effect: '-15% energy cost',
+    baseCost: 25000,
+    costMultiplier: 1.4,
+    effectValue: -0.15,
+    category: 'meditation',
+    description: 'Purify your spiritual aura',
+    maxLevel: 8,
+    unlockReward: 'Unlock the ability to use aura purification upgrades',
+    benefits: ['-15% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade purifies your spiritual aura, reducing energy costs and increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'kundalini-awakening',
+    name: '🐍 KUNDALINI AWAKENING',
+    effect: '+50.0 wisdom/sec',
+    baseCost: 1000000,
+    costMultiplier: 2.0,
+    effectValue: 50.0,
+    category: 'meditation',
+    description: 'Awaken your serpent power',
+    maxLevel: 3,
+    unlockReward: 'Unlock the ability to use kundalini awakening upgrades',
+    benefits: ['+500% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade awakens your serpent power, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // 🌟 COSMIC POWERS - Beyond Physical Reality
+  {
+    id: 'quantum-leap',
+    name: '⚛️ QUANTUM LEAP',
+    effect: '+1000% wisdom/sec',
+    baseCost: 10000000,
+    costMultiplier: 5.0,
+    effectValue: 1000.0,
+    category: 'cosmic',
+    description: 'Transcend quantum limitations',
+    maxLevel: 1,
+    unlockReward: 'Unlock the ability to use quantum leap upgrades',
+    benefits: ['+1000% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade transcends quantum limitations, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'time-dilation',
+    name: '⏰ TIME DILATION',
+    effect: '+10% offline bonus',
+    baseCost: 500000,
+    costMultiplier: 2.5,
+    effectValue: 0.1,
+    category: 'cosmic',
+    description: 'Bend the fabric of time',
+    maxLevel: 5,
+    unlockReward: 'Unlock the ability to use time dilation upgrades',
+    benefits: ['+10% offline bonus', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade bends the fabric of time, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'space-bending',
+    name: '🌌 SPACE BENDING',
+    effect: '+3000 max energy',
+    baseCost: 750000,
+    costMultiplier: 2.2,
+    effectValue: 3000,
+    category: 'cosmic',
+    description: 'Manipulate spatial dimensions',
+    maxLevel: 3,
+    unlockReward: 'Unlock the ability to use space bending upgrades',
+    benefits: ['+3000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade manipulates spatial dimensions, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'reality-shift',
+    name: '🌀 REALITY SHIFT',
+    effect: '+500% all bonuses',
+    baseCost: 5000000,
+    costMultiplier: 10.0,
+    effectValue: 5.0,
+    category: 'cosmic',
+    description: 'Shift to a higher reality',
+    maxLevel: 1,
+    unlockReward: 'Unlock the ability to use reality shift upgrades',
+    benefits: ['+500% all bonuses', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade shifts to a higher reality, allowing you to mine for longer periods. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  
+  // ⚡ ELEMENTAL MASTERY - Natural Forces
+  {
+    id: 'fire-element',
+    name: '🔥 FIRE ELEMENT',
+    effect: '+3.0 wisdom/sec',
+    baseCost: 600,
+    costMultiplier: 1.2,
+    effectValue: 3.0,
+    category: 'elemental',
+    description: 'Harness the power of fire',
+    maxLevel: 12,
+    unlockReward: 'Unlock the ability to use fire element upgrades',
+    benefits: ['+300% wisdom/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade harnesses the power of fire, increasing your wisdom and energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'water-element',
+    name: '💧 WATER ELEMENT',
+    effect: '+2.0 energy/sec',
+    baseCost: 800,
+    costMultiplier: 1.18,
+    effectValue: 2.0,
+    category: 'elemental',
+    description: 'Flow like water',
+    maxLevel: 10,
+    unlockReward: 'Unlock the ability to use water element upgrades',
+    benefits: ['+200% energy/sec', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade allows you to flow like water, increasing your energy regeneration. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'earth-element',
+    name: '🌍 EARTH ELEMENT',
+    effect: '+1000 max energy',
+    baseCost: 1200,
+    costMultiplier: 1.25,
+    effectValue: 1000,
+    category: 'elemental',
+    description: 'Stand firm like a mountain',
+    maxLevel: 8,
+    unlockReward: 'Unlock the ability to use earth element upgrades',
+    benefits: ['+1000 max energy', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade allows you to stand firm like a mountain, increasing your max energy. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  },
+  {
+    id: 'air-element',
+    name: '💨 AIR ELEMENT',
+    effect: '-20% energy cost',
+    baseCost: 2000,
+    costMultiplier: 1.3,
+    effectValue: -0.2,
+    category: 'elemental',
+    description: 'Move freely like the wind',
+    maxLevel: 6,
+    unlockReward: 'Unlock the ability to use air element upgrades',
+    benefits: ['-20% energy cost', 'Increased energy regeneration', 'Enhanced auto-mining'],
+    tips: ['Higher tiers provide better bonuses and upgrades', 'Focus on energy efficiency for longer sessions', 'Auto-mining improves with tier level'],
+    detailedDescription: 'This upgrade allows you to move freely like the wind, reducing energy costs. Higher tiers provide better bonuses and upgrades, and auto-mining improves with tier level. Focus on energy efficiency for longer sessions to maximize your earnings.'
+  }
+];
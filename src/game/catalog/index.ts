@@ -0,0 +1,4 @@
+export * from './types';
+export * from './definitions';
+export * from './validation';
+export * from './catalog';
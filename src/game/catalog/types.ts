@@ -0,0 +1,9 @@
+import type { Upgrade } from '@/game/engine';
+
+// Static part of an upgrade. Level and unlock progress are per-player and live in saves.
+export type UpgradeDefinition = Omit<Upgrade, 'level' | 'unlockProgress'>;
+
+export interface UpgradeCatalog {
+  version: number;
+  upgrades: UpgradeDefinition[];
+}
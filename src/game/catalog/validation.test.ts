@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { UPGRADE_DEFINITIONS } from './definitions';
+import type { UpgradeDefinition } from './types';
+import { validateUpgradeCatalog } from './validation';
+
+const makeDefinition = (overrides: Partial<UpgradeDefinition> = {}): UpgradeDefinition => ({
+  id: 'root-chakra',
+  name: 'Root Chakra',
+  effect: '+0.5 wisdom/sec',
+  baseCost: 25,
+  costMultiplier: 1.12,
+  effectValue: 0.5,
+  maxLevel: 20,
+  ...overrides
+});
+
+describe('validateUpgradeCatalog', () => {
+  it('accepts the bundled catalog', () => {
+    expect(validateUpgradeCatalog(UPGRADE_DEFINITIONS)).toEqual([]);
+  });
+
+  it('rejects missing and duplicate ids', () => {
+    expect(validateUpgradeCatalog([makeDefinition({ id: '' }), makeDefinition(), makeDefinition()])).toEqual([
+      'Upgrade without an id',
+      'Duplicate upgrade id root-chakra'
+    ]);
+  });
+
+  it('rejects a requirement on an upgrade that is not in the catalog', () => {
+    const errors = validateUpgradeCatalog([makeDefinition({ requires: { upgrade: 'retired', level: 1 } })]);
+    expect(errors).toEqual(['root-chakra: requires unknown upgrade retired']);
+  });
+
+  it('rejects a required level the other upgrade cannot reach', () => {
+    const base = makeDefinition({ id: 'base', maxLevel: 3 });
+
+    expect(validateUpgradeCatalog([base, makeDefinition({ requires: { upgrade: 'base', level: 4 } })])).toEqual([
+      "root-chakra: requires base level 4, which can't be reached"
+    ]);
+    expect(validateUpgradeCatalog([base, makeDefinition({ requires: { upgrade: 'base', level: 0 } })])).toHaveLength(1);
+    expect(validateUpgradeCatalog([base, makeDefinition({ requires: { upgrade: 'base', level: 3 } })])).toEqual([]);
+  });
+
+  it('rejects requirement chains that loop', () => {
+    const errors = validateUpgradeCatalog([
+      makeDefinition({ id: 'a', requires: { upgrade: 'b', level: 1 } }),
+      makeDefinition({ id: 'b', requires: { upgrade: 'c', level: 1 } }),
+      makeDefinition({ id: 'c', requires: { upgrade: 'a', level: 1 } }),
+      makeDefinition({ id: 'd', requires: { upgrade: 'a', level: 1 } })
+    ]);
+
+    expect(errors).toEqual([
+      'a: requires chain loops back on itself',
+      'b: requires chain loops back on itself',
+      'c: requires chain loops back on itself'
+    ]);
+    expect(validateUpgradeCatalog([makeDefinition({ requires: { upgrade: 'root-chakra', level: 1 } })])).toContain(
+      'root-chakra: requires chain loops back on itself'
+    );
+  });
+
+  it('requires maxLevel to be a positive integer', () => {
+    [0, -1, 2.5, NaN].forEach(maxLevel => {
+      expect(validateUpgradeCatalog([makeDefinition({ maxLevel })])).toEqual([
+        'root-chakra: maxLevel must be a positive integer'
+      ]);
+    });
+    expect(validateUpgradeCatalog([makeDefinition({ maxLevel: 1 })])).toEqual([]);
+  });
+
+  it('keeps costMultiplier at 1 or above so later levels never get cheaper', () => {
+    [0.99, 0, -2, Infinity].forEach(costMultiplier => {
+      expect(validateUpgradeCatalog([makeDefinition({ costMultiplier })])).toEqual([
+        'root-chakra: costMultiplier must be at least 1'
+      ]);
+    });
+    expect(validateUpgradeCatalog([makeDefinition({ costMultiplier: 1 })])).toEqual([]);
+  });
+
+  it('rejects non-positive costs and non-numeric effects', () => {
+    expect(validateUpgradeCatalog([makeDefinition({ baseCost: 0, effectValue: NaN })])).toEqual([
+      'root-chakra: baseCost must be greater than 0',
+      'root-chakra: effectValue must be a number'
+    ]);
+  });
+});
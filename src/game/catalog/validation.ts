@@ -0,0 +1,79 @@
+import type { UpgradeDefinition } from './types';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+// Follow requires links from an upgrade; true if they lead back to it
+const isInRequirementCycle = (start: UpgradeDefinition, byId: Map<string, UpgradeDefinition>): boolean => {
+  const visited = new Set<string>();
+  let current = start.requires ? byId.get(start.requires.upgrade) : undefined;
+
+  while (current && !visited.has(current.id)) {
+    if (current.id === start.id) return true;
+    visited.add(current.id);
+    current = current.requires ? byId.get(current.requires.upgrade) : undefined;
+  }
+
+  return false;
+};
+
+/**
+ * Check a catalog before it is used. Returns one message per problem; an empty
+ * array means the catalog is valid.
+ */
+export const validateUpgradeCatalog = (upgrades: UpgradeDefinition[]): string[] => {
+  const errors: string[] = [];
+  const byId = new Map<string, UpgradeDefinition>();
+
+  upgrades.forEach(upgrade => {
+    if (!upgrade.id) {
+      errors.push('Upgrade without an id');
+      return;
+    }
+    if (byId.has(upgrade.id)) {
+      errors.push(`Duplicate upgrade id ${upgrade.id}`);
+    }
+    byId.set(upgrade.id, upgrade);
+  });
+
+  upgrades.forEach(upgrade => {
+    const { id } = upgrade;
+
+    if (!isPositiveInteger(upgrade.maxLevel)) {
+      errors.push(`${id}: maxLevel must be a positive integer`);
+    }
+    if (!isFiniteNumber(upgrade.baseCost) || upgrade.baseCost <= 0) {
+      errors.push(`${id}: baseCost must be greater than 0`);
+    }
+    // Below 1 later levels would get cheaper
+    if (!isFiniteNumber(upgrade.costMultiplier) || upgrade.costMultiplier < 1) {
+      errors.push(`${id}: costMultiplier must be at least 1`);
+    }
+    if (!isFiniteNumber(upgrade.effectValue)) {
+      errors.push(`${id}: effectValue must be a number`);
+    }
+
+    if (upgrade.requires) {
+      const required = byId.get(upgrade.requires.upgrade);
+      if (!required) {
+        errors.push(`${id}: requires unknown upgrade ${upgrade.requires.upgrade}`);
+      } else if (
+        !isPositiveInteger(upgrade.requires.level) ||
+        upgrade.requires.level > required.maxLevel
+      ) {
+        errors.push(`${id}: requires ${required.id} level ${upgrade.requires.level}, which can't be reached`);
+      }
+    }
+  });
+
+  upgrades.forEach(upgrade => {
+    if (isInRequirementCycle(upgrade, byId)) {
+      errors.push(`${upgrade.id}: requires chain loops back on itself`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,46 @@
+import { ASCENSION_BONUS_PER_LEVEL, ASCENSION_THRESHOLD, STARTING_POINTS } from './constants';
+import { createInitialState } from './engine';
+import { sanitizeNumber } from './rules';
+import type { AscensionPreview, GameState } from './types';
+
+// Multiplier steps earned: one at the threshold, two at 4x, three at 9x...
+const getAscensionLevel = (lifetimeEarned: number): number => {
+  return Math.floor(Math.sqrt(Math.max(0, lifetimeEarned) / ASCENSION_THRESHOLD));
+};
+
+export const getAscensionMultiplier = (lifetimeEarned: number): number => {
+  return 1 + ASCENSION_BONUS_PER_LEVEL * getAscensionLevel(lifetimeEarned);
+};
+
+// What ascending now would give. Not eligible until lifetime earnings beat the current multiplier.
+export const getAscensionPreview = (state: GameState): AscensionPreview => {
+  const lifetimeEarned = sanitizeNumber(state.totalPointsEarned, 0);
+  const currentMultiplier = sanitizeNumber(state.ascensionMultiplier, 1);
+  const nextMultiplier = Math.max(currentMultiplier, getAscensionMultiplier(lifetimeEarned));
+  const nextLevel = Math.round((nextMultiplier - 1) / ASCENSION_BONUS_PER_LEVEL) + 1;
+
+  return {
+    eligible: nextMultiplier > currentMultiplier,
+    currentMultiplier,
+    nextMultiplier,
+    pointsToNextLevel: Math.max(0, ASCENSION_THRESHOLD * nextLevel * nextLevel - lifetimeEarned)
+  };
+};
+
+/**
+ * Start a new run with a higher multiplier. Balance and run progress reset;
+ * lifetime earnings, the all-time high score and daily stats carry over.
+ * Upgrade levels are reset by the caller, which owns the catalog.
+ */
+export const ascend = (state: GameState, multiplier: number, now = Date.now()): GameState => ({
+  ...createInitialState(now),
+  divinePoints: Math.min(sanitizeNumber(state.divinePoints, 0), STARTING_POINTS),
+  totalPointsEarned: state.totalPointsEarned,
+  allTimeHighScore: state.allTimeHighScore,
+  totalEarned24h: state.totalEarned24h,
+  totalEarned7d: state.totalEarned7d,
+  lastDailyReset: state.lastDailyReset,
+  lastWeeklyReset: state.lastWeeklyReset,
+  ascensionMultiplier: Math.max(sanitizeNumber(state.ascensionMultiplier, 1), multiplier),
+  ascensionCount: sanitizeNumber(state.ascensionCount, 0) + 1
+});
@@ -0,0 +1,53 @@
+// Divine Mining economy constants
+
+export const GAME_VERSION = '1.1.0';
+
+export const STARTING_POINTS = 100;
+export const BASE_POINTS_PER_SECOND = 1.0;
+export const BASE_MAX_ENERGY = 1000;
+
+export const MINING_TICK_MS = 500; // Mining cycle length used by the game loop
+export const BASE_ENERGY_COST = 0.8; // Energy spent per mining cycle
+export const MIN_ENERGY_COST = 0.1;
+export const BASE_ENERGY_REGEN = 0.5; // Energy regenerated per second
+export const MAX_ENERGY_EFFICIENCY_BONUS = -0.95; // Cap at -95% to prevent negative energy costs
+export const AUTO_MINING_ENERGY_SECONDS = 5; // Auto-mining waits for 5 seconds worth of energy
+
+export const OFFLINE_EFFICIENCY_CAP = 14; // 14 days max offline earnings
+export const OFFLINE_EFFICIENCY_BONUS = 0.1; // 10% bonus per day offline (max 140%)
+export const MAX_OFFLINE_EFFICIENCY_BONUS = 1.4;
+export const OFFLINE_BASE_ENERGY_REGEN = 0.3; // Reduced base regen while away
+
+export const DEFAULT_BASE_COST = 25;
+export const DEFAULT_COST_MULTIPLIER = 1.12;
+export const DEFAULT_MAX_LEVEL = 50;
+
+// Upgrade ids grouped by the part of the economy they affect.
+// Anything not listed here adds its effectValue to pointsPerSecond.
+export const ENERGY_CAPACITY_UPGRADES = [
+  'energy-capacity', 'energy-overflow', 'vibrational-harmony', 'transcendence', 'space-bending', 'earth-element'
+];
+export const ENERGY_EFFICIENCY_UPGRADES = ['inner-strength', 'aura-purification', 'energy-mastery', 'air-element'];
+export const ENERGY_REGEN_UPGRADES = ['psychic-awareness', 'divine-resonance', 'mindful-breathing', 'water-element'];
+export const OFFLINE_BONUS_UPGRADES = ['cosmic-consciousness', 'time-dilation'];
+export const GLOBAL_BONUS_UPGRADES = ['reality-shift'];
+
+export const DIVINE_RESONANCE_UPGRADE = 'divine-resonance';
+export const AUTO_MINING_UPGRADE = 'auto-mining';
+export const OFFLINE_REGEN_UPGRADES = ['energy-regen', 'energy-burst'];
+
+// ActiveBoost types. Mining boosts add to the rate multiplier; cost boosts
+// multiply the cost (0.5 = half price) and stack multiplicatively.
+export const MINING_BOOST = 'mining';
+export const ENERGY_COST_BOOST = 'energy_cost';
+export const UPGRADE_COST_BOOST = 'upgrade_cost';
+export const MIN_COST_MULTIPLIER = 0.1; // Stacked discounts never make anything free
+
+// Ascension: the multiplier grows by ASCENSION_BONUS_PER_LEVEL each time lifetime
+// earnings pass ASCENSION_THRESHOLD * n^2. Mirrored by ascension_multiplier() in ASCENSION.sql.
+export const ASCENSION_THRESHOLD = 1_000_000;
+export const ASCENSION_BONUS_PER_LEVEL = 0.25;
+
+// Plausibility checks (see plausibility.ts). Mirrored by max_mining_rate() in MINING_RATE_LIMITS.sql.
+export const MAX_BOOST_MULTIPLIER = 5; // Upper bound for stacked mining boosts, which are client-side only
+export const PLAUSIBILITY_TOLERANCE = 1.05; // 5% headroom for clock skew and rounding
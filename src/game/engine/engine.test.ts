@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { applyOffline, createInitialState, createMiningEngine, mine, purchase, tick, toggleMining } from './engine';
+import type { ActiveBoost, Upgrade } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const makeUpgrade = (overrides: Partial<Upgrade> = {}): Upgrade => ({
+  id: 'mining-speed',
+  name: 'Mining Speed',
+  level: 0,
+  effect: '+1/sec',
+  baseCost: 150,
+  costMultiplier: 1.5,
+  effectValue: 1,
+  maxLevel: 10,
+  ...overrides
+});
+
+const halfPrice: ActiveBoost = { type: 'upgrade_cost', multiplier: 0.5, expires: NOW + DAY_MS };
+
+describe('mine', () => {
+  const state = { ...createInitialState(NOW), isMining: true };
+
+  it('earns the mining rate and spends energy per mining cycle', () => {
+    const result = mine(state, [], [], 1);
+
+    expect(result.pointsEarned).toBe(1);
+    expect(result.energyCost).toBeCloseTo(1.6);
+    expect(result.state.divinePoints).toBe(state.divinePoints + 1);
+    expect(result.state.totalPointsEarned).toBe(1);
+    expect(result.state.currentEnergy).toBeCloseTo(state.currentEnergy - 1.6);
+  });
+
+  it('stops mining when energy runs out', () => {
+    const result = mine({ ...state, currentEnergy: 1 }, [], [], 1);
+
+    expect(result.stoppedForEnergy).toBe(true);
+    expect(result.pointsEarned).toBe(0);
+    expect(result.state.isMining).toBe(false);
+  });
+
+  it('does nothing while idle', () => {
+    const idle = createInitialState(NOW);
+    expect(mine(idle, [], [], 1).state).toBe(idle);
+  });
+});
+
+describe('tick', () => {
+  it('regenerates energy after mining, never above max', () => {
+    const state = { ...createInitialState(NOW), isMining: true, currentEnergy: 500 };
+    const result = tick(state, [], [], 10);
+
+    expect(result.state.currentEnergy).toBeCloseTo(500 - 16 + 5);
+    expect(tick({ ...state, isMining: false, currentEnergy: 999.9 }, [], [], 10).state.currentEnergy).toBe(1000);
+  });
+});
+
+describe('purchase', () => {
+  const state = { ...createInitialState(NOW), divinePoints: 200 };
+
+  it('deducts the cost and raises the level', () => {
+    const result = purchase(state, [makeUpgrade()], 'mining-speed');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.cost).toBe(150);
+    expect(result.state.divinePoints).toBe(50);
+    expect(result.state.pointsPerSecond).toBe(state.pointsPerSecond + 1);
+    expect(result.upgrades[0].level).toBe(1);
+  });
+
+  it('reports why a purchase failed', () => {
+    const locked = makeUpgrade({ id: 'locked', requires: { upgrade: 'mining-speed', level: 1 } });
+    const maxed = makeUpgrade({ id: 'maxed', level: 10 });
+    const upgrades = [makeUpgrade(), locked, maxed];
+
+    expect(purchase(state, upgrades, 'missing')).toEqual({ success: false, reason: 'not_found' });
+    expect(purchase(state, upgrades, 'locked')).toMatchObject({ success: false, reason: 'locked' });
+    expect(purchase(state, upgrades, 'maxed')).toMatchObject({ success: false, reason: 'maxed' });
+    expect(purchase({ ...state, divinePoints: 100 }, upgrades, 'mining-speed')).toMatchObject({
+      success: false,
+      reason: 'insufficient_points',
+      cost: 150
+    });
+  });
+
+  it('applies active cost boosts', () => {
+    const result = purchase({ ...state, divinePoints: 100 }, [makeUpgrade()], 'mining-speed', [halfPrice]);
+
+    expect(result).toMatchObject({ success: true, cost: 75 });
+  });
+});
+
+describe('applyOffline', () => {
+  it('holds offline earnings until they are claimed', () => {
+    const state = { ...createInitialState(NOW), isMining: true, currentEnergy: 900 };
+    const result = applyOffline(state, [], DAY_MS);
+
+    expect(result.offlineEarnings).toBeCloseTo(86400 * 1.1);
+    expect(result.state.unclaimedOfflineRewards).toBeCloseTo(86400 * 1.1);
+    expect(result.state.divinePoints).toBe(state.divinePoints);
+    expect(result.state.currentEnergy).toBe(1000);
+  });
+});
+
+describe('toggleMining', () => {
+  it("won't start without energy", () => {
+    const state = { ...createInitialState(NOW), currentEnergy: 0.5 };
+
+    expect(toggleMining(state).isMining).toBe(false);
+    expect(toggleMining({ ...state, currentEnergy: 1 }).isMining).toBe(true);
+  });
+});
+
+describe('createMiningEngine', () => {
+  it('keeps state and upgrades across calls', () => {
+    const engine = createMiningEngine({ ...createInitialState(NOW), divinePoints: 200 }, [makeUpgrade()]);
+
+    engine.toggleMining();
+    engine.tick(1);
+    expect(engine.getState().divinePoints).toBe(201);
+
+    expect(engine.purchase('mining-speed').success).toBe(true);
+    expect(engine.getUpgrades()[0].level).toBe(1);
+    expect(engine.getMiningRate()).toBe(2);
+  });
+
+  it('applies its boosts to purchases', () => {
+    const state = { ...createInitialState(NOW), divinePoints: 100 };
+
+    expect(createMiningEngine(state, [makeUpgrade()]).purchase('mining-speed').success).toBe(false);
+
+    const engine = createMiningEngine(state, [makeUpgrade()], [halfPrice]);
+    expect(engine.purchase('mining-speed')).toMatchObject({ success: true, cost: 75 });
+    expect(engine.getState().divinePoints).toBe(25);
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  BASE_MAX_ENERGY,
+  BASE_POINTS_PER_SECOND,
+  GAME_VERSION,
+  MINING_TICK_MS,
+  STARTING_POINTS
+} from './constants';
+import {
+  applyUpgradeEffect,
+  calculateOfflineEnergyRegen,
+  calculateOfflineProgress,
+  getEnergyRegenerationRate,
+  getEnhancedMiningRate,
+  getMiningEnergyCost,
+  getOfflineEfficiencyBonus,
+  getUpgradeCost,
+  isUpgradeAvailable,
+  isUpgradeMaxed
+} from './rules';
+import type {
+  ActiveBoost,
+  GameState,
+  MiningTickResult,
+  OfflineResult,
+  PurchaseResult,
+  Upgrade
+} from './types';
+
+// State of a brand new (or freshly reset) player
+export const createInitialState = (now = Date.now()): GameState => ({
+  divinePoints: STARTING_POINTS,
+  pointsPerSecond: BASE_POINTS_PER_SECOND,
+  totalEarned24h: 0,
+  totalEarned7d: 0,
+  upgradesPurchased: 0,
+  minersActive: 1,
+  isMining: false,
+  lastSaveTime: now,
+  sessionStartTime: now,
+  totalPointsEarned: 0,
+  lastDailyReset: new Date(now).toDateString(),
+  lastWeeklyReset: new Date(now).toDateString(),
+  version: GAME_VERSION,
+  highScore: STARTING_POINTS,
+  allTimeHighScore: STARTING_POINTS,
+  currentEnergy: BASE_MAX_ENERGY,
+  maxEnergy: BASE_MAX_ENERGY,
+  lastEnergyRegen: now,
+  offlineEfficiencyBonus: 0,
+  lastOfflineTime: now,
+  unclaimedOfflineRewards: 0,
+  lastOfflineRewardTime: now,
+  miningLevel: 1,
+  miningCombo: 1.0,
+  miningStreak: 0,
+  miningExperience: 0,
+  miningExperienceToNext: 1000,
+  ascensionMultiplier: 1,
+  ascensionCount: 0
+});
+
+// Advance active mining by dt seconds. Energy cost scales with dt relative to one mining cycle.
+export const mine = (
+  state: GameState,
+  upgrades: Upgrade[],
+  boosts: ActiveBoost[],
+  dt: number
+): MiningTickResult => {
+  if (!state.isMining || dt <= 0) {
+    return { state, pointsEarned: 0, energyCost: 0, stoppedForEnergy: false };
+  }
+
+  const energyCost = getMiningEnergyCost(state, upgrades, boosts) * (dt * 1000 / MINING_TICK_MS);
+  if (state.currentEnergy < energyCost) {
+    return { state: { ...state, isMining: false }, pointsEarned: 0, energyCost, stoppedForEnergy: true };
+  }
+
+  const pointsEarned = getEnhancedMiningRate(state, upgrades, boosts) * dt;
+
+  return {
+    state: {
+      ...state,
+      divinePoints: state.divinePoints + pointsEarned,
+      totalPointsEarned: state.totalPointsEarned + pointsEarned,
+      currentEnergy: state.currentEnergy - energyCost,
+      totalEarned24h: state.totalEarned24h + pointsEarned,
+      totalEarned7d: state.totalEarned7d + pointsEarned
+    },
+    pointsEarned,
+    energyCost,
+    stoppedForEnergy: false
+  };
+};
+
+// Regenerate energy for dt seconds, never above maxEnergy
+export const regenerateEnergy = (state: GameState, upgrades: Upgrade[], dt: number): GameState => {
+  if (state.currentEnergy >= state.maxEnergy || dt <= 0) return state;
+
+  return {
+    ...state,
+    currentEnergy: Math.min(state.maxEnergy, state.currentEnergy + getEnergyRegenerationRate(upgrades) * dt)
+  };
+};
+
+// Mine then regenerate for dt seconds
+export const tick = (
+  state: GameState,
+  upgrades: Upgrade[],
+  boosts: ActiveBoost[],
+  dt: number
+): MiningTickResult => {
+  const result = mine(state, upgrades, boosts, dt);
+  return { ...result, state: regenerateEnergy(result.state, upgrades, dt) };
+};
+
+export const purchase = (
+  state: GameState,
+  upgrades: Upgrade[],
+  upgradeId: string,
+  boosts: ActiveBoost[] = []
+): PurchaseResult => {
+  const upgrade = upgrades.find(u => u.id === upgradeId);
+  if (!upgrade) return { success: false, reason: 'not_found' };
+  if (!isUpgradeAvailable(upgrade, upgrades)) return { success: false, reason: 'locked', upgrade };
+  if (isUpgradeMaxed(upgrade)) return { success: false, reason: 'maxed', upgrade };
+
+  const cost = getUpgradeCost(upgrade, boosts);
+  if (state.divinePoints < cost) return { success: false, reason: 'insufficient_points', upgrade, cost };
+
+  return {
+    success: true,
+    state: applyUpgradeEffect(state, upgrade, cost),
+    upgrades: upgrades.map(u => (u.id === upgradeId ? { ...u, level: u.level + 1 } : u)),
+    upgrade,
+    cost
+  };
+};
+
+// Credit time spent away. Earnings go to unclaimedOfflineRewards until the player claims them.
+export const applyOffline = (state: GameState, upgrades: Upgrade[], offlineMs: number): OfflineResult => {
+  const offlineEarnings = calculateOfflineProgress(offlineMs, state);
+  if (offlineEarnings <= 0) {
+    return { state, offlineEarnings: 0, efficiencyBonus: 0, energyRegen: 0 };
+  }
+
+  const energyRegen = calculateOfflineEnergyRegen(offlineMs, state, upgrades);
+
+  return {
+    state: {
+      ...state,
+      currentEnergy: Math.min(state.maxEnergy, state.currentEnergy + energyRegen),
+      unclaimedOfflineRewards: (state.unclaimedOfflineRewards || 0) + offlineEarnings
+    },
+    offlineEarnings,
+    efficiencyBonus: getOfflineEfficiencyBonus(offlineMs),
+    energyRegen
+  };
+};
+
+export const toggleMining = (state: GameState): GameState => {
+  // Mining can't start without energy
+  if (!state.isMining && state.currentEnergy < 1) return state;
+  return { ...state, isMining: !state.isMining };
+};
+
+// Stateful wrapper for headless simulations (balancing scripts, tests)
+export const createMiningEngine = (initialState: GameState, initialUpgrades: Upgrade[], boosts: ActiveBoost[] = []) => {
+  let state = initialState;
+  let upgrades = initialUpgrades;
+
+  return {
+    getState: () => state,
+    getUpgrades: () => upgrades,
+    getMiningRate: () => getEnhancedMiningRate(state, upgrades, boosts),
+
+    tick(dt: number): MiningTickResult {
+      const result = tick(state, upgrades, boosts, dt);
+      state = result.state;
+      return result;
+    },
+
+    purchase(upgradeId: string): PurchaseResult {
+      const result = purchase(state, upgrades, upgradeId, boosts);
+      if (result.success) {
+        state = result.state;
+        upgrades = result.upgrades;
+      }
+      return result;
+    },
+
+    applyOffline(offlineMs: number): OfflineResult {
+      const result = applyOffline(state, upgrades, offlineMs);
+      state = result.state;
+      return result;
+    },
+
+    toggleMining(): GameState {
+      state = toggleMining(state);
+      return state;
+    }
+  };
+};
+
+export type MiningEngine = ReturnType<typeof createMiningEngine>;
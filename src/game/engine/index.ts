@@ -0,0 +1,6 @@
+export * from './types';
+export * from './constants';
+export * from './rules';
+export * from './engine';
+export * from './plausibility';
+export * from './ascension';
@@ -0,0 +1,60 @@
+import { MAX_BOOST_MULTIPLIER, MINING_BOOST, PLAUSIBILITY_TOLERANCE } from './constants';
+import { deriveUpgradeStats, getBaseMiningRate, getEnhancedMiningRate, getOfflineEfficiencyBonus, sanitizeNumber } from './rules';
+import type { ActiveBoost, GameState, PlausibilityInput, PlausibilityResult, Upgrade } from './types';
+
+const MAX_BOOSTS: ActiveBoost[] = [{ type: MINING_BOOST, multiplier: MAX_BOOST_MULTIPLIER - 1, expires: Infinity }];
+
+/**
+ * Upper bound on points earned over a window. Uses the rate derived from upgrade
+ * levels rather than the save's pointsPerSecond, assumes the strongest boost (and
+ * any given event boosts) was active throughout, and takes the better of online
+ * mining and offline accrual.
+ */
+export const getMaxEarnings = (
+  state: GameState,
+  upgrades: Upgrade[],
+  elapsedMs: number,
+  eventBoosts: ActiveBoost[] = []
+): number => {
+  const elapsedSeconds = Math.max(0, elapsedMs) / 1000;
+  const derivedState = { ...state, pointsPerSecond: deriveUpgradeStats(upgrades).pointsPerSecond };
+
+  const onlineRate = getEnhancedMiningRate(derivedState, upgrades, [...MAX_BOOSTS, ...eventBoosts]);
+  const offlineRate = getBaseMiningRate(derivedState) * (1 + getOfflineEfficiencyBonus(elapsedMs));
+
+  return Math.max(onlineRate, offlineRate) * elapsedSeconds;
+};
+
+export const checkEarningPlausibility = ({
+  previous,
+  current,
+  upgrades,
+  elapsedMs,
+  externalCredits = 0,
+  eventBoosts = []
+}: PlausibilityInput): PlausibilityResult => {
+  // Offline rewards earned before the window can be claimed during it
+  const carriedOver = sanitizeNumber(previous.unclaimedOfflineRewards, 0) + Math.max(0, externalCredits);
+  const maxEarned = getMaxEarnings(previous, upgrades, elapsedMs, eventBoosts) * PLAUSIBILITY_TOLERANCE + carriedOver;
+
+  const recordedEarned = sanitizeNumber(current.totalPointsEarned, 0) - sanitizeNumber(previous.totalPointsEarned, 0);
+  const maxDivinePoints = sanitizeNumber(previous.divinePoints, 0) + maxEarned;
+  const excess = Math.max(
+    0,
+    recordedEarned - maxEarned,
+    sanitizeNumber(current.divinePoints, 0) - maxDivinePoints
+  );
+
+  return { plausible: excess === 0, maxEarned, recordedEarned, maxDivinePoints, excess };
+};
+
+// Pull an implausible state back to the most it could have reached
+export const clampToPlausible = (previous: GameState, current: GameState, result: PlausibilityResult): GameState => {
+  if (result.plausible) return current;
+
+  return {
+    ...current,
+    divinePoints: Math.min(current.divinePoints, result.maxDivinePoints),
+    totalPointsEarned: Math.min(current.totalPointsEarned, previous.totalPointsEarned + result.maxEarned)
+  };
+};
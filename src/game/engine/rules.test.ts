@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './engine';
+import {
+  applyUpgradeEffect,
+  calculateOfflineEnergyRegen,
+  calculateOfflineProgress,
+  getBoostMultiplier,
+  getCostMultiplier,
+  getEnhancedMiningRate,
+  getMiningEnergyCost,
+  getOfflineEfficiencyBonus,
+  getUpgradeCost,
+  getUpgradeEffectType,
+  isUpgradeAvailable,
+  isUpgradeMaxed,
+  sanitizeNumber
+} from './rules';
+import type { ActiveBoost, Upgrade } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const makeUpgrade = (overrides: Partial<Upgrade> = {}): Upgrade => ({
+  id: 'mining-speed',
+  name: 'Mining Speed',
+  level: 0,
+  effect: '+1/sec',
+  baseCost: 100,
+  costMultiplier: 1.5,
+  effectValue: 1,
+  maxLevel: 10,
+  ...overrides
+});
+
+const boost = (type: string, multiplier: number): ActiveBoost => ({ type, multiplier, expires: NOW + DAY_MS });
+
+describe('sanitizeNumber', () => {
+  it('falls back for values that are not finite numbers', () => {
+    expect(sanitizeNumber('12.5', 0)).toBe(12.5);
+    expect(sanitizeNumber(NaN, 3)).toBe(3);
+    expect(sanitizeNumber(Infinity, 3)).toBe(3);
+    expect(sanitizeNumber('abc', 7)).toBe(7);
+  });
+});
+
+describe('getUpgradeEffectType', () => {
+  it('groups upgrades by the part of the economy they affect', () => {
+    expect(getUpgradeEffectType('energy-capacity')).toBe('energyCapacity');
+    expect(getUpgradeEffectType('inner-strength')).toBe('energyEfficiency');
+    expect(getUpgradeEffectType('divine-resonance')).toBe('energyRegen');
+    expect(getUpgradeEffectType('time-dilation')).toBe('offlineBonus');
+    expect(getUpgradeEffectType('reality-shift')).toBe('global');
+    expect(getUpgradeEffectType('mining-speed')).toBe('pointsPerSecond');
+  });
+});
+
+describe('upgrade costs', () => {
+  it('grows the cost geometrically with the level', () => {
+    expect(getUpgradeCost(makeUpgrade())).toBe(100);
+    expect(getUpgradeCost(makeUpgrade({ level: 2 }))).toBe(225);
+  });
+
+  it('applies upgrade cost boosts and ignores other boost types', () => {
+    const upgrade = makeUpgrade({ level: 2 });
+    expect(getUpgradeCost(upgrade, [boost('upgrade_cost', 0.75)])).toBe(168);
+    expect(getUpgradeCost(upgrade, [boost('mining', 0.75), boost('energy_cost', 0.5)])).toBe(225);
+  });
+
+  it('stacks discounts multiplicatively but never below the minimum multiplier', () => {
+    expect(getCostMultiplier([boost('upgrade_cost', 0.5), boost('upgrade_cost', 0.5)], 'upgrade_cost')).toBe(0.25);
+    expect(getCostMultiplier([boost('upgrade_cost', 0.05)], 'upgrade_cost')).toBe(0.1);
+    expect(getCostMultiplier([], 'upgrade_cost')).toBe(1);
+  });
+});
+
+describe('upgrade availability', () => {
+  const base = makeUpgrade({ id: 'base', level: 2 });
+
+  it('requires the prerequisite upgrade at the given level', () => {
+    expect(isUpgradeAvailable(makeUpgrade({ requires: { upgrade: 'base', level: 2 } }), [base])).toBe(true);
+    expect(isUpgradeAvailable(makeUpgrade({ requires: { upgrade: 'base', level: 3 } }), [base])).toBe(false);
+    expect(isUpgradeAvailable(makeUpgrade({ requires: { upgrade: 'missing', level: 1 } }), [base])).toBe(false);
+    expect(isUpgradeAvailable(makeUpgrade(), [])).toBe(true);
+  });
+
+  it('is maxed at maxLevel', () => {
+    expect(isUpgradeMaxed(makeUpgrade({ level: 9 }))).toBe(false);
+    expect(isUpgradeMaxed(makeUpgrade({ level: 10 }))).toBe(true);
+  });
+});
+
+describe('mining rate', () => {
+  it('adds mining boosts on top of 1x', () => {
+    expect(getBoostMultiplier([])).toBe(1);
+    expect(getBoostMultiplier([boost('mining', 0.5), boost('mining', 1), boost('upgrade_cost', 0.5)])).toBe(2.5);
+  });
+
+  it('applies ascension, boosts and divine resonance', () => {
+    const state = { ...createInitialState(NOW), pointsPerSecond: 2, ascensionMultiplier: 1.5 };
+    const resonance = makeUpgrade({ id: 'divine-resonance', level: 2, effectValue: 0.1 });
+
+    expect(getEnhancedMiningRate(state, [])).toBe(3);
+    expect(getEnhancedMiningRate(state, [], [boost('mining', 0.5)])).toBe(4.5);
+    expect(getEnhancedMiningRate(state, [resonance], [boost('mining', 0.5)])).toBeCloseTo(5.4);
+  });
+});
+
+describe('getMiningEnergyCost', () => {
+  const state = createInitialState(NOW);
+
+  it('scales with the mining speed, capped at 2x', () => {
+    expect(getMiningEnergyCost(state, [])).toBeCloseTo(0.8);
+    expect(getMiningEnergyCost(state, [], [boost('mining', 0.5)])).toBeCloseTo(1.2);
+    expect(getMiningEnergyCost(state, [], [boost('mining', 4)])).toBeCloseTo(1.6);
+  });
+
+  it('applies efficiency upgrades and energy cost boosts down to the minimum', () => {
+    const efficiency = makeUpgrade({ id: 'inner-strength', level: 1, effectValue: -0.5 });
+
+    expect(getMiningEnergyCost(state, [efficiency])).toBeCloseTo(0.4);
+    expect(getMiningEnergyCost(state, [efficiency], [boost('energy_cost', 0.5)])).toBeCloseTo(0.2);
+    expect(getMiningEnergyCost(state, [efficiency], [boost('energy_cost', 0.1)])).toBe(0.1);
+  });
+});
+
+describe('applyUpgradeEffect', () => {
+  const state = createInitialState(NOW);
+
+  it('deducts the cost and raises pointsPerSecond', () => {
+    const next = applyUpgradeEffect(state, makeUpgrade({ effectValue: 2 }), 60);
+
+    expect(next.divinePoints).toBe(state.divinePoints - 60);
+    expect(next.pointsPerSecond).toBe(state.pointsPerSecond + 2);
+    expect(next.upgradesPurchased).toBe(1);
+  });
+
+  it('raises max energy for capacity upgrades', () => {
+    const next = applyUpgradeEffect(state, makeUpgrade({ id: 'energy-capacity', effectValue: 500 }), 0);
+
+    expect(next.maxEnergy).toBe(state.maxEnergy + 500);
+    expect(next.currentEnergy).toBe(state.currentEnergy);
+    expect(next.pointsPerSecond).toBe(state.pointsPerSecond);
+  });
+});
+
+describe('offline progress', () => {
+  const state = { ...createInitialState(NOW), isMining: true };
+
+  it('earns 10% extra per day away, up to 140%', () => {
+    expect(getOfflineEfficiencyBonus(DAY_MS)).toBeCloseTo(0.1);
+    expect(getOfflineEfficiencyBonus(20 * DAY_MS)).toBeCloseTo(1.4);
+    expect(getOfflineEfficiencyBonus(-DAY_MS)).toBe(0);
+  });
+
+  it('only accrues while mining and within the cap', () => {
+    expect(calculateOfflineProgress(DAY_MS, state)).toBeCloseTo(86400 * 1.1);
+    expect(calculateOfflineProgress(DAY_MS, { ...state, isMining: false })).toBe(0);
+    expect(calculateOfflineProgress(14 * DAY_MS, state)).toBe(0);
+  });
+
+  it('regenerates energy up to the missing amount', () => {
+    const drained = { ...state, currentEnergy: 990 };
+
+    expect(calculateOfflineEnergyRegen(10_000, drained, [])).toBeCloseTo(3);
+    expect(calculateOfflineEnergyRegen(DAY_MS, drained, [])).toBe(10);
+  });
+});
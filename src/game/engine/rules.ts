@@ -0,0 +1,206 @@
+import {
+  AUTO_MINING_ENERGY_SECONDS,
+  AUTO_MINING_UPGRADE,
+  BASE_ENERGY_COST,
+  BASE_ENERGY_REGEN,
+  BASE_MAX_ENERGY,
+  BASE_POINTS_PER_SECOND,
+  DEFAULT_BASE_COST,
+  DEFAULT_COST_MULTIPLIER,
+  DEFAULT_MAX_LEVEL,
+  DIVINE_RESONANCE_UPGRADE,
+  ENERGY_CAPACITY_UPGRADES,
+  ENERGY_COST_BOOST,
+  ENERGY_EFFICIENCY_UPGRADES,
+  ENERGY_REGEN_UPGRADES,
+  GLOBAL_BONUS_UPGRADES,
+  MAX_ENERGY_EFFICIENCY_BONUS,
+  MAX_OFFLINE_EFFICIENCY_BONUS,
+  MIN_COST_MULTIPLIER,
+  MIN_ENERGY_COST,
+  MINING_BOOST,
+  MINING_TICK_MS,
+  OFFLINE_BASE_ENERGY_REGEN,
+  OFFLINE_BONUS_UPGRADES,
+  OFFLINE_EFFICIENCY_BONUS,
+  OFFLINE_EFFICIENCY_CAP,
+  OFFLINE_REGEN_UPGRADES,
+  UPGRADE_COST_BOOST
+} from './constants';
+import type { ActiveBoost, GameState, Upgrade, UpgradeEffectType } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Coerce persisted values (which may be strings, null or NaN) to a finite number
+export const sanitizeNumber = (value: unknown, defaultValue: number): number => {
+  const num = Number(value);
+  return isNaN(num) || !isFinite(num) ? defaultValue : num;
+};
+
+// Sum of effectValue * level for the given upgrade ids
+const sumUpgradeEffects = (upgrades: Upgrade[], ids: string[]): number => {
+  return upgrades
+    .filter(u => ids.includes(u.id))
+    .reduce((sum, u) => sum + sanitizeNumber(u.effectValue, 0) * sanitizeNumber(u.level, 0), 0);
+};
+
+export const getUpgradeEffectType = (upgradeId: string): UpgradeEffectType => {
+  if (ENERGY_CAPACITY_UPGRADES.includes(upgradeId)) return 'energyCapacity';
+  if (ENERGY_EFFICIENCY_UPGRADES.includes(upgradeId)) return 'energyEfficiency';
+  if (ENERGY_REGEN_UPGRADES.includes(upgradeId)) return 'energyRegen';
+  if (OFFLINE_BONUS_UPGRADES.includes(upgradeId)) return 'offlineBonus';
+  if (GLOBAL_BONUS_UPGRADES.includes(upgradeId)) return 'global';
+  return 'pointsPerSecond';
+};
+
+// Product of all active cost boosts of one type, e.g. 0.75 during a 25% off event
+export const getCostMultiplier = (boosts: ActiveBoost[], type: string): number => {
+  const multiplier = boosts
+    .filter(boost => boost.type === type)
+    .reduce((product, boost) => product * sanitizeNumber(boost.multiplier, 1), 1);
+
+  return Math.max(MIN_COST_MULTIPLIER, multiplier);
+};
+
+export const getUpgradeCost = (upgrade: Upgrade, boosts: ActiveBoost[] = []): number => {
+  const baseCost = sanitizeNumber(upgrade.baseCost, DEFAULT_BASE_COST);
+  const costMultiplier = sanitizeNumber(upgrade.costMultiplier, DEFAULT_COST_MULTIPLIER);
+  const level = sanitizeNumber(upgrade.level, 0);
+
+  return Math.floor(baseCost * Math.pow(costMultiplier, level) * getCostMultiplier(boosts, UPGRADE_COST_BOOST));
+};
+
+export const isUpgradeAvailable = (upgrade: Upgrade, upgrades: Upgrade[]): boolean => {
+  if (!upgrade.requires) return true;
+
+  const requiredUpgrade = upgrades.find(u => u.id === upgrade.requires!.upgrade);
+  if (!requiredUpgrade) return false;
+
+  return requiredUpgrade.level >= upgrade.requires.level;
+};
+
+export const isUpgradeMaxed = (upgrade: Upgrade): boolean => {
+  return upgrade.level >= (upgrade.maxLevel || DEFAULT_MAX_LEVEL);
+};
+
+// Points gained per 1000 points spent on the next level
+export const getUpgradeEfficiency = (upgrade: Upgrade): number => {
+  const cost = getUpgradeCost(upgrade);
+  return sanitizeNumber(upgrade.effectValue, 0) / (cost || 1) * 1000;
+};
+
+// Additive multiplier of all active mining boosts (1 + sum of multipliers)
+export const getBoostMultiplier = (boosts: ActiveBoost[]): number => {
+  return boosts
+    .filter(boost => boost.type === MINING_BOOST)
+    .reduce((sum, boost) => sum + sanitizeNumber(boost.multiplier, 1), 1);
+};
+
+// pointsPerSecond with the permanent ascension multiplier applied
+export const getBaseMiningRate = (state: GameState): number => {
+  return sanitizeNumber(state.pointsPerSecond, BASE_POINTS_PER_SECOND) * sanitizeNumber(state.ascensionMultiplier, 1);
+};
+
+// Mining rate with boosts applied, amplified by the divine resonance upgrade
+export const getEnhancedMiningRate = (state: GameState, upgrades: Upgrade[], boosts: ActiveBoost[] = []): number => {
+  const resonanceBonus = sumUpgradeEffects(upgrades, [DIVINE_RESONANCE_UPGRADE]);
+  const enhancedMultiplier = getBoostMultiplier(boosts) * (1 + resonanceBonus);
+
+  return getBaseMiningRate(state) * enhancedMultiplier;
+};
+
+export const getEnergyRegenerationRate = (upgrades: Upgrade[]): number => {
+  return BASE_ENERGY_REGEN + sumUpgradeEffects(upgrades, ENERGY_REGEN_UPGRADES);
+};
+
+// Energy efficiency upgrades carry negative effect values (e.g. -0.2 = 20% cheaper)
+export const getEnergyEfficiencyBonus = (upgrades: Upgrade[]): number => {
+  return Math.max(MAX_ENERGY_EFFICIENCY_BONUS, sumUpgradeEffects(upgrades, ENERGY_EFFICIENCY_UPGRADES));
+};
+
+// Energy spent for one mining cycle (MINING_TICK_MS). Faster mining costs more, within 0.5x-2x.
+export const getMiningEnergyCost = (state: GameState, upgrades: Upgrade[], boosts: ActiveBoost[] = []): number => {
+  const boostedRate = getEnhancedMiningRate(state, upgrades, boosts);
+  const baseRate = getBaseMiningRate(state) || BASE_POINTS_PER_SECOND;
+  const miningSpeedMultiplier = Math.min(2.0, Math.max(0.5, boostedRate / baseRate));
+
+  const energyCost = BASE_ENERGY_COST * miningSpeedMultiplier * (1 + getEnergyEfficiencyBonus(upgrades));
+  return Math.max(MIN_ENERGY_COST, energyCost * getCostMultiplier(boosts, ENERGY_COST_BOOST));
+};
+
+export const canAutoStartMining = (state: GameState, upgrades: Upgrade[], boosts: ActiveBoost[] = []): boolean => {
+  const hasAutoMining = upgrades.some(u => u.id === AUTO_MINING_UPGRADE && u.level > 0);
+  if (!hasAutoMining || state.isMining) return false;
+
+  const cyclesPerSecond = 1000 / MINING_TICK_MS;
+  const minimumEnergyRequired = getMiningEnergyCost(state, upgrades, boosts) * cyclesPerSecond * AUTO_MINING_ENERGY_SECONDS;
+
+  return sanitizeNumber(state.currentEnergy, BASE_MAX_ENERGY) >= minimumEnergyRequired;
+};
+
+// Recompute the stats that are a pure function of upgrade levels
+export const deriveUpgradeStats = (upgrades: Upgrade[]) => {
+  const pointsPerSecondEffect = upgrades
+    .filter(u => getUpgradeEffectType(u.id) === 'pointsPerSecond')
+    .reduce((sum, u) => sum + sanitizeNumber(u.effectValue, 0) * sanitizeNumber(u.level, 0), 0);
+
+  return {
+    pointsPerSecond: BASE_POINTS_PER_SECOND + pointsPerSecondEffect,
+    offlineEfficiencyBonus: sumUpgradeEffects(upgrades, OFFLINE_BONUS_UPGRADES),
+    upgradesPurchased: upgrades.reduce((sum, u) => sum + sanitizeNumber(u.level, 0), 0)
+  };
+};
+
+// Apply one level of an upgrade to the game state. Cost is deducted here.
+export const applyUpgradeEffect = (state: GameState, upgrade: Upgrade, cost: number): GameState => {
+  const effectValue = sanitizeNumber(upgrade.effectValue, 0);
+  const newState: GameState = {
+    ...state,
+    divinePoints: state.divinePoints - cost,
+    upgradesPurchased: state.upgradesPurchased + 1
+  };
+
+  switch (getUpgradeEffectType(upgrade.id)) {
+    case 'energyCapacity':
+      newState.maxEnergy = state.maxEnergy + effectValue;
+      newState.currentEnergy = Math.min(state.currentEnergy, state.maxEnergy + effectValue);
+      break;
+    case 'offlineBonus':
+      newState.offlineEfficiencyBonus = state.offlineEfficiencyBonus + effectValue;
+      break;
+    case 'pointsPerSecond':
+      newState.pointsPerSecond = state.pointsPerSecond + effectValue;
+      break;
+    // Efficiency, regeneration and global upgrades are read from upgrade levels when rates are computed
+    default:
+      break;
+  }
+
+  return newState;
+};
+
+// Offline efficiency bonus earned for time away (10% per day, max 140%)
+export const getOfflineEfficiencyBonus = (offlineMs: number): number => {
+  const daysOffline = Math.min(Math.max(0, offlineMs) / DAY_MS, OFFLINE_EFFICIENCY_CAP);
+  return Math.min(daysOffline * OFFLINE_EFFICIENCY_BONUS, MAX_OFFLINE_EFFICIENCY_BONUS);
+};
+
+// Points mined while away. Only accrues if mining was active and the absence is within the cap.
+export const calculateOfflineProgress = (offlineMs: number, state: GameState): number => {
+  if (!state.isMining || offlineMs <= 0 || offlineMs >= OFFLINE_EFFICIENCY_CAP * DAY_MS) return 0;
+
+  const baseOfflineEarnings = getBaseMiningRate(state) * (offlineMs / 1000);
+  return baseOfflineEarnings * (1 + getOfflineEfficiencyBonus(offlineMs));
+};
+
+// Energy regenerated while away, capped at the missing energy
+export const calculateOfflineEnergyRegen = (offlineMs: number, state: GameState, upgrades: Upgrade[]): number => {
+  const regenRate = OFFLINE_BASE_ENERGY_REGEN + sumUpgradeEffects(upgrades, OFFLINE_REGEN_UPGRADES);
+  const totalRegenPossible = Math.max(0, offlineMs / 1000) * regenRate;
+  const energyDeficit = Math.max(
+    0,
+    sanitizeNumber(state.maxEnergy, BASE_MAX_ENERGY) - sanitizeNumber(state.currentEnergy, BASE_MAX_ENERGY)
+  );
+
+  return Math.min(totalRegenPossible, energyDeficit);
+};
@@ -0,0 +1,128 @@
+// Divine Mining engine types - shared by the engine and the React views
+
+export type UpgradeCategory = 'chakra' | 'mastery' | 'meditation' | 'cosmic' | 'elemental';
+
+export interface Upgrade {
+  id: string;
+  name: string;
+  level: number;
+  effect: string;
+  baseCost: number;
+  costMultiplier: number;
+  effectValue: number;
+  category?: UpgradeCategory;
+  description?: string;
+  requires?: {
+    upgrade: string;
+    level: number;
+  };
+  // Educational fields
+  detailedDescription?: string;
+  benefits?: string[];
+  tips?: string[];
+  unlockProgress?: number; // 0-100 percentage
+  maxLevel: number; // Maximum level for 100% unlock
+  unlockReward?: string; // Special reward at 100%
+}
+
+export interface GameState {
+  divinePoints: number;
+  pointsPerSecond: number;
+  totalEarned24h: number;
+  totalEarned7d: number;
+  upgradesPurchased: number;
+  minersActive: number;
+  isMining: boolean;
+  lastSaveTime: number;
+  sessionStartTime: number;
+  totalPointsEarned: number;
+  lastDailyReset: string;
+  lastWeeklyReset: string;
+  version: string;
+  highScore: number;
+  allTimeHighScore: number;
+  currentEnergy: number;
+  maxEnergy: number;
+  lastEnergyRegen: number;
+  offlineEfficiencyBonus: number; // Bonus for offline mining
+  lastOfflineTime: number; // Track last offline time
+  unclaimedOfflineRewards: number; // Track unclaimed offline rewards
+  lastOfflineRewardTime: number; // Track when offline rewards were last calculated
+  miningLevel: number;
+  miningCombo: number;
+  miningStreak: number;
+  miningExperience: number;
+  miningExperienceToNext: number;
+  ascensionMultiplier: number; // Permanent mining multiplier earned by ascending
+  ascensionCount: number;
+}
+
+export interface ActiveBoost {
+  type: string;
+  multiplier: number;
+  expires: number;
+}
+
+// How an upgrade's effectValue is applied to the game state
+export type UpgradeEffectType =
+  | 'pointsPerSecond'
+  | 'energyCapacity'
+  | 'energyEfficiency'
+  | 'energyRegen'
+  | 'offlineBonus'
+  | 'global';
+
+export type PurchaseFailureReason = 'not_found' | 'locked' | 'maxed' | 'insufficient_points';
+
+export type PurchaseResult =
+  | {
+      success: true;
+      state: GameState;
+      upgrades: Upgrade[];
+      upgrade: Upgrade; // The upgrade as it was before the purchase
+      cost: number;
+    }
+  | {
+      success: false;
+      reason: PurchaseFailureReason;
+      upgrade?: Upgrade;
+      cost?: number;
+    };
+
+export interface MiningTickResult {
+  state: GameState;
+  pointsEarned: number;
+  energyCost: number;
+  stoppedForEnergy: boolean;
+}
+
+export interface OfflineResult {
+  state: GameState;
+  offlineEarnings: number;
+  efficiencyBonus: number;
+  energyRegen: number;
+}
+
+export interface PlausibilityInput {
+  previous: GameState; // Last validated state
+  current: GameState;
+  upgrades: Upgrade[]; // Current levels; upgrades only ever raise the rate
+  elapsedMs: number; // Wall time between the two states
+  externalCredits?: number; // Points granted outside mining in the window (tasks, referrals)
+  eventBoosts?: ActiveBoost[]; // Live-ops events and granted boosts that overlapped the window
+}
+
+export interface PlausibilityResult {
+  plausible: boolean;
+  maxEarned: number; // Most points the player could have earned in the window
+  recordedEarned: number; // totalPointsEarned growth reported by the save
+  maxDivinePoints: number;
+  excess: number; // How far the save is over the limit (0 when plausible)
+}
+
+export interface AscensionPreview {
+  eligible: boolean;
+  currentMultiplier: number;
+  nextMultiplier: number; // Multiplier after ascending now
+  pointsToNextLevel: number; // Lifetime earnings still needed for the next multiplier step
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './migrations';
+export * from './ledger';
+export * from './saveData';
+export * from './merge';
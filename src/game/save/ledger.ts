@@ -0,0 +1,83 @@
+import { sanitizeNumber } from '@/game/engine';
+import type { BalanceLedger, BalanceLedgerEntry } from './types';
+
+export const createBalanceLedger = (base: number): BalanceLedger => ({ base, devices: {} });
+
+export const getLedgerBalance = (ledger: BalanceLedger): number => {
+  return Object.values(ledger.devices).reduce(
+    (balance, entry) => balance + entry.earned - entry.spent,
+    ledger.base
+  );
+};
+
+/**
+ * Record the difference between the current balance and what the ledger accounts for
+ * as earnings or spending by this device. Call before every save.
+ */
+export const recordBalanceChange = (
+  ledger: BalanceLedger,
+  deviceId: string,
+  balance: number,
+  now = Date.now()
+): BalanceLedger => {
+  const delta = balance - getLedgerBalance(ledger);
+  if (delta === 0) return ledger;
+
+  const entry = ledger.devices[deviceId] ?? { earned: 0, spent: 0, updatedAt: now };
+  return {
+    ...ledger,
+    devices: {
+      ...ledger.devices,
+      [deviceId]: {
+        earned: entry.earned + Math.max(0, delta),
+        spent: entry.spent + Math.max(0, -delta),
+        updatedAt: now
+      }
+    }
+  };
+};
+
+// Move the base so the ledger adds up to the balance derived from the server's economy
+// ledger. Device counters are kept; the server figure already includes what they recorded.
+export const reconcileLedger = (ledger: BalanceLedger, serverBalance: number): BalanceLedger => {
+  const difference = serverBalance - getLedgerBalance(ledger);
+  return difference === 0 ? ledger : { ...ledger, base: ledger.base + difference };
+};
+
+// Per-device counters only grow, so the max of each side is the latest value
+export const mergeLedgers = (a: BalanceLedger, b: BalanceLedger): BalanceLedger => {
+  const devices: Record<string, BalanceLedgerEntry> = { ...a.devices };
+
+  Object.entries(b.devices).forEach(([deviceId, entry]) => {
+    const existing = devices[deviceId];
+    devices[deviceId] = existing
+      ? {
+          earned: Math.max(existing.earned, entry.earned),
+          spent: Math.max(existing.spent, entry.spent),
+          updatedAt: Math.max(existing.updatedAt, entry.updatedAt)
+        }
+      : entry;
+  });
+
+  return { base: Math.max(a.base, b.base), devices };
+};
+
+export const sanitizeLedger = (value: unknown, fallbackBase: number): BalanceLedger => {
+  if (!value || typeof value !== 'object') return createBalanceLedger(fallbackBase);
+
+  const raw = value as { base?: unknown; devices?: unknown };
+  const devices: Record<string, BalanceLedgerEntry> = {};
+
+  if (raw.devices && typeof raw.devices === 'object') {
+    Object.entries(raw.devices as Record<string, Partial<BalanceLedgerEntry>>).forEach(([deviceId, entry]) => {
+      if (!entry || typeof entry !== 'object') return;
+      devices[deviceId] = {
+        earned: Math.max(0, sanitizeNumber(entry.earned, 0)),
+        spent: Math.max(0, sanitizeNumber(entry.spent, 0)),
+        updatedAt: sanitizeNumber(entry.updatedAt, 0)
+      };
+    });
+  }
+
+  return { base: sanitizeNumber(raw.base, fallbackBase), devices };
+};
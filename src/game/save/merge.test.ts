@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from '@/game/engine';
+import { getLedgerBalance, recordBalanceChange } from './ledger';
+import { mergeSaves, reconcileSaveBalance } from './merge';
+import { createSave } from './saveData';
+import type { BalanceLedger, SaveData } from './types';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const makeSave = (divinePoints: number, balanceLedger: BalanceLedger, savedAt = NOW): SaveData =>
+  createSave({ ...createInitialState(NOW), divinePoints }, [], [], balanceLedger, savedAt);
+
+// Both devices started from 100; the phone mined 500 and the tablet 300
+const phoneLedger = recordBalanceChange({ base: 100, devices: {} }, 'phone', 600, NOW);
+const tabletLedger = recordBalanceChange({ base: 100, devices: {} }, 'tablet', 400, NOW);
+const phone = makeSave(600, phoneLedger, NOW + 1000);
+const tablet = makeSave(400, tabletLedger, NOW);
+
+describe('mergeSaves', () => {
+  it("adds up both devices' earnings without a server balance", () => {
+    const { save, mergedFields } = mergeSaves(phone, tablet);
+
+    expect(save.divinePoints).toBe(900);
+    expect(mergedFields).toContain('divinePoints');
+  });
+
+  it('takes the balance from the server when it is known', () => {
+    // The server clamped 200 of the tablet's points
+    const { save, mergedFields } = mergeSaves(phone, tablet, 700);
+
+    expect(save.divinePoints).toBe(700);
+    expect(getLedgerBalance(save.balanceLedger)).toBe(700);
+    expect(mergedFields).toContain('divinePoints');
+  });
+
+  it('keeps the server balance on the next merge', () => {
+    const { save } = mergeSaves(phone, tablet, 700);
+    const next = mergeSaves(save, tablet, 700);
+
+    expect(next.save.divinePoints).toBe(700);
+    expect(next.mergedFields).not.toContain('divinePoints');
+  });
+
+  it('lets the later ascension win and still applies the server balance', () => {
+    const ascended = { ...makeSave(100, { base: 100, devices: {} }), ascensionCount: 1 };
+    const { save } = mergeSaves(phone, ascended, 100);
+
+    expect(save.ascensionCount).toBe(1);
+    expect(save.divinePoints).toBe(100);
+  });
+});
+
+describe('reconcileSaveBalance', () => {
+  it('rebases the client ledger onto the server balance', () => {
+    const save = reconcileSaveBalance(phone, 250);
+
+    expect(save.divinePoints).toBe(250);
+    expect(getLedgerBalance(save.balanceLedger)).toBe(250);
+    expect(save.balanceLedger.devices).toEqual(phone.balanceLedger.devices);
+  });
+});
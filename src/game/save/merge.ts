@@ -0,0 +1,114 @@
+import { applyUpgradeEffect } from '@/game/engine';
+import type { GameState, Upgrade } from '@/game/engine';
+import { getLedgerBalance, mergeLedgers, reconcileLedger } from './ledger';
+import type { SaveData, SavedAchievement, SaveMergeResult } from './types';
+
+// Counters that never decrease during normal play, so the larger copy is the real one
+const MONOTONIC_FIELDS = ['totalPointsEarned', 'highScore', 'allTimeHighScore'] as const;
+
+const mergeAchievements = (
+  base: SavedAchievement[],
+  other: SavedAchievement[],
+  mergedFields: string[]
+): SavedAchievement[] => {
+  const byId = new Map(base.map(a => [a.id, a]));
+
+  other.forEach(achievement => {
+    const existing = byId.get(achievement.id);
+    if (!existing) {
+      byId.set(achievement.id, achievement);
+      if (achievement.unlocked) mergedFields.push(`achievements.${achievement.id}`);
+      return;
+    }
+    if (achievement.unlocked && !existing.unlocked) {
+      byId.set(achievement.id, achievement);
+      mergedFields.push(`achievements.${achievement.id}`);
+    } else if (achievement.unlocked && existing.unlocked && achievement.unlockedAt !== undefined) {
+      // Keep the earliest unlock time
+      byId.set(achievement.id, {
+        ...existing,
+        unlockedAt: Math.min(existing.unlockedAt ?? achievement.unlockedAt, achievement.unlockedAt)
+      });
+    }
+  });
+
+  return Array.from(byId.values());
+};
+
+// Take the higher level of each upgrade and apply the effect of any extra levels
+const mergeUpgrades = (
+  state: GameState,
+  base: Upgrade[],
+  other: Upgrade[],
+  mergedFields: string[]
+): { state: GameState; upgrades: Upgrade[] } => {
+  let mergedState = state;
+
+  const upgrades = base.map(upgrade => {
+    const otherLevel = other.find(u => u.id === upgrade.id)?.level ?? 0;
+    if (otherLevel <= upgrade.level) return upgrade;
+
+    let current = upgrade;
+    while (current.level < otherLevel) {
+      mergedState = applyUpgradeEffect(mergedState, current, 0);
+      current = { ...current, level: current.level + 1 };
+    }
+    mergedFields.push(`upgrades.${upgrade.id}`);
+    return current;
+  });
+
+  return { state: mergedState, upgrades };
+};
+
+// Rebase a save onto the balance derived from the server's economy ledger
+export const reconcileSaveBalance = (save: SaveData, serverBalance: number): SaveData => ({
+  ...save,
+  divinePoints: serverBalance,
+  balanceLedger: reconcileLedger(save.balanceLedger, serverBalance)
+});
+
+/**
+ * Merge two copies of the same player's save (e.g. localStorage and user_game_data)
+ * without discarding progress made on either. The newer copy provides transient
+ * fields like energy and mining status. Copies from different ascensions aren't
+ * merged; the later ascension wins.
+ *
+ * serverBalance is the economy ledger balance plus whatever this device hasn't
+ * reported yet. When given it decides divinePoints, so server-side clamps and
+ * rejected entries stick, and the client ledger is reconciled to it.
+ */
+export const mergeSaves = (local: SaveData, cloud: SaveData, serverBalance?: number): SaveMergeResult => {
+  // Progress on a copy from before an ascension belongs to a run that has been reset
+  if (local.ascensionCount !== cloud.ascensionCount) {
+    const result: SaveMergeResult = local.ascensionCount > cloud.ascensionCount
+      ? { save: local, mergedFields: [] }
+      : { save: cloud, mergedFields: ['ascensionCount'] };
+    return serverBalance === undefined ? result : { ...result, save: reconcileSaveBalance(result.save, serverBalance) };
+  }
+
+  const [newer, older] = local.savedAt >= cloud.savedAt ? [local, cloud] : [cloud, local];
+  const mergedFields: string[] = [];
+
+  const { state: upgradedState, upgrades } = mergeUpgrades(newer, newer.upgrades, older.upgrades, mergedFields);
+  const merged: SaveData = { ...newer, ...upgradedState, upgrades };
+
+  MONOTONIC_FIELDS.forEach(field => {
+    if (older[field] > merged[field]) {
+      merged[field] = older[field];
+      mergedFields.push(field);
+    }
+  });
+
+  merged.achievements = mergeAchievements(newer.achievements, older.achievements, mergedFields);
+
+  // Without a server balance the spendable balance is rebuilt from both devices' earn/spend records
+  const ledger = mergeLedgers(newer.balanceLedger, older.balanceLedger);
+  const balance = serverBalance ?? getLedgerBalance(ledger);
+  merged.balanceLedger = reconcileLedger(ledger, balance);
+  if (balance !== newer.divinePoints) {
+    merged.divinePoints = balance;
+    mergedFields.push('divinePoints');
+  }
+
+  return { save: merged, mergedFields };
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from '@/game/engine';
+import type { Upgrade } from '@/game/engine';
+import { SAVE_MIGRATIONS } from './migrations';
+import { getSaveVersion, loadSave, migrateSave } from './saveData';
+import { SAVE_SCHEMA_VERSION } from './types';
+import type { RawSave } from './types';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const makeUpgrade = (overrides: Partial<Upgrade> = {}): Upgrade => ({
+  id: 'mining-speed',
+  name: 'Mining Speed',
+  level: 0,
+  effect: '+1/sec',
+  baseCost: 150,
+  costMultiplier: 1.5,
+  effectValue: 1,
+  maxLevel: 10,
+  ...overrides
+});
+
+const runStep = (from: number, save: RawSave) => SAVE_MIGRATIONS.find(m => m.from === from)!.migrate(save);
+
+// A pre-versioning save as the game wrote it before schemaVersion existed
+const legacySave: RawSave = {
+  divinePoints: 750,
+  pointsPerSecond: 3,
+  isMining: true,
+  lastUpdate: '2025-06-01T12:00:00.000Z',
+  upgrades: [{ ...makeUpgrade({ level: 4 }), name: 'Old name', baseCost: 1 }],
+  achievements: [
+    { id: 'first-mine', name: 'First Mine', unlocked: true, unlockedAt: 1, icon: '⛏️' },
+    { name: 'missing id' },
+    null
+  ]
+};
+
+describe('SAVE_MIGRATIONS', () => {
+  it('chains one version at a time up to the current schema', () => {
+    SAVE_MIGRATIONS.forEach((migration, index) => {
+      expect(migration.from).toBe(index);
+      expect(migration.to).toBe(index + 1);
+    });
+    expect(SAVE_MIGRATIONS[SAVE_MIGRATIONS.length - 1].to).toBe(SAVE_SCHEMA_VERSION);
+  });
+});
+
+describe('migration steps', () => {
+  it('v0 -> v1 moves the legacy timestamps to savedAt and trims achievements', () => {
+    const save = runStep(0, legacySave);
+
+    expect(save.savedAt).toBe(Date.parse('2025-06-01T12:00:00.000Z'));
+    expect(save).not.toHaveProperty('lastUpdate');
+    expect(save.achievements).toEqual([{ id: 'first-mine', unlocked: true, unlockedAt: 1 }]);
+    expect(runStep(0, { saveTimestamp: 42 }).savedAt).toBe(42);
+    expect(runStep(0, {}).upgrades).toEqual([]);
+  });
+
+  it('v1 -> v2 starts the balance ledger from the saved balance', () => {
+    expect(runStep(1, { divinePoints: 750 }).balanceLedger).toEqual({ base: 750, devices: {} });
+    expect(runStep(1, { divinePoints: 'lots' }).balanceLedger).toEqual({ base: 0, devices: {} });
+  });
+
+  it('v2 -> v3 keeps only upgrade ids and levels', () => {
+    const save = runStep(2, { upgrades: [makeUpgrade({ level: 4 }), { level: 2 }, { id: 'x', level: 'bad' }] });
+
+    expect(save.upgrades).toEqual([{ id: 'mining-speed', level: 4 }, { id: 'x', level: 0 }]);
+  });
+
+  it('v3 -> v4 starts saves that never ascended at 1x', () => {
+    expect(runStep(3, {})).toEqual({ ascensionMultiplier: 1, ascensionCount: 0 });
+  });
+});
+
+describe('migrateSave', () => {
+  it('runs every step from the saved version and stamps the current one', () => {
+    const { save, migratedFrom } = migrateSave(legacySave);
+
+    expect(migratedFrom).toBe(0);
+    expect(save.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(save.balanceLedger).toEqual({ base: 750, devices: {} });
+    expect(save.upgrades).toEqual([{ id: 'mining-speed', level: 4 }]);
+    expect(save.ascensionCount).toBe(0);
+  });
+
+  it('leaves a current save untouched', () => {
+    const current = { schemaVersion: SAVE_SCHEMA_VERSION, divinePoints: 5 };
+    expect(migrateSave(current)).toEqual({ save: current, migratedFrom: SAVE_SCHEMA_VERSION });
+  });
+
+  it('refuses saves from a newer version', () => {
+    expect(() => migrateSave({ schemaVersion: SAVE_SCHEMA_VERSION + 1 })).toThrow(/newer than supported/);
+  });
+
+  it('treats a missing or malformed version as a legacy save', () => {
+    expect(getSaveVersion({})).toBe(0);
+    expect(getSaveVersion({ schemaVersion: '2' })).toBe(2);
+    expect(getSaveVersion({ schemaVersion: -1 })).toBe(0);
+    expect(getSaveVersion({ schemaVersion: 1.5 })).toBe(0);
+  });
+});
+
+describe('loadSave', () => {
+  const options = { fallbackState: createInitialState(NOW), catalog: [makeUpgrade(), makeUpgrade({ id: 'new-one' })] };
+
+  it('applies saved levels to the current catalog', () => {
+    const loaded = loadSave(legacySave, options);
+
+    expect(loaded?.migratedFrom).toBe(0);
+    expect(loaded?.data.upgrades.map(u => [u.id, u.level, u.name, u.baseCost])).toEqual([
+      ['mining-speed', 4, 'Mining Speed', 150],
+      ['new-one', 0, 'Mining Speed', 150]
+    ]);
+    expect(loaded?.data.divinePoints).toBe(750);
+  });
+
+  it('reports saved upgrades that left the catalog', () => {
+    const loaded = loadSave({ schemaVersion: SAVE_SCHEMA_VERSION, upgrades: [{ id: 'retired', level: 3 }] }, options);
+    expect(loaded?.droppedUpgrades).toEqual(['retired']);
+  });
+
+  it('falls back to the current state for malformed fields', () => {
+    const loaded = loadSave({
+      schemaVersion: SAVE_SCHEMA_VERSION,
+      divinePoints: 'NaN',
+      currentEnergy: null,
+      upgrades: 'not a list',
+      achievements: [{ id: 7 }],
+      balanceLedger: 'broken'
+    }, options);
+
+    expect(loaded?.data.divinePoints).toBe(options.fallbackState.divinePoints);
+    expect(loaded?.data.currentEnergy).toBe(options.fallbackState.currentEnergy);
+    expect(loaded?.data.upgrades.every(u => u.level === 0)).toBe(true);
+    expect(loaded?.data.achievements).toEqual([]);
+    expect(loaded?.data.balanceLedger).toEqual({ base: options.fallbackState.divinePoints, devices: {} });
+  });
+
+  it('rejects payloads that are not objects', () => {
+    expect(loadSave(null, options)).toBeNull();
+    expect(loadSave('{"divinePoints":1}', options)).toBeNull();
+    expect(loadSave([legacySave], options)).toBeNull();
+  });
+});
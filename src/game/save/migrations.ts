@@ -0,0 +1,64 @@
+import type { RawSave, SaveMigration } from './types';
+
+// Upgrade ids renamed in a release: old id -> new id.
+// Saved levels follow the rename instead of being dropped.
+export const UPGRADE_ID_RENAMES: Record<string, string> = {};
+
+// v0: pre-versioning payloads. Timestamps lived in lastUpdate (ISO string)
+// and saveTimestamp, and achievements were stored with every UI field.
+const migrate_v0_to_v1 = (save: RawSave): RawSave => {
+  const savedAt =
+    Number(save.saveTimestamp) ||
+    Date.parse(String(save.lastUpdate ?? '')) ||
+    Number(save.lastSaveTime) ||
+    0;
+
+  const achievements = Array.isArray(save.achievements)
+    ? save.achievements
+        .filter(a => a && typeof a.id === 'string')
+        .map(a => ({ id: a.id, unlocked: Boolean(a.unlocked), unlockedAt: a.unlockedAt }))
+    : [];
+
+  const migrated: RawSave = {
+    ...save,
+    savedAt,
+    upgrades: Array.isArray(save.upgrades) ? save.upgrades : [],
+    achievements
+  };
+  delete migrated.lastUpdate;
+  delete migrated.saveTimestamp;
+
+  return migrated;
+};
+
+// v1 -> v2: start a balance ledger so divinePoints can be merged across devices.
+// The existing balance becomes the base; no device has recorded changes yet.
+const migrate_v1_to_v2 = (save: RawSave): RawSave => ({
+  ...save,
+  balanceLedger: { base: Number(save.divinePoints) || 0, devices: {} }
+});
+
+// v2 -> v3: upgrade definitions moved to the catalog; keep only { id, level }
+const migrate_v2_to_v3 = (save: RawSave): RawSave => ({
+  ...save,
+  upgrades: Array.isArray(save.upgrades)
+    ? save.upgrades
+        .filter(u => u && typeof u.id === 'string')
+        .map(u => ({ id: u.id, level: Number(u.level) || 0 }))
+    : []
+});
+
+// v3 -> v4: ascension. Saves from before it have never ascended.
+const migrate_v3_to_v4 = (save: RawSave): RawSave => ({
+  ...save,
+  ascensionMultiplier: 1,
+  ascensionCount: 0
+});
+
+// Ordered: each entry upgrades a payload from `from` to `to` (always from + 1)
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  { from: 0, to: 1, description: 'Wrap legacy saves in a versioned envelope', migrate: migrate_v0_to_v1 },
+  { from: 1, to: 2, description: 'Add per-device balance ledger', migrate: migrate_v1_to_v2 },
+  { from: 2, to: 3, description: 'Store upgrade levels without definitions', migrate: migrate_v2_to_v3 },
+  { from: 3, to: 4, description: 'Add ascension multiplier and count', migrate: migrate_v3_to_v4 }
+];
@@ -0,0 +1,158 @@
+import { sanitizeNumber } from '@/game/engine';
+import type { GameState, Upgrade } from '@/game/engine';
+import { sanitizeLedger } from './ledger';
+import { SAVE_MIGRATIONS, UPGRADE_ID_RENAMES } from './migrations';
+import { SAVE_SCHEMA_VERSION } from './types';
+import type { BalanceLedger, LoadedSave, PersistedSave, RawSave, SaveData, SavedAchievement, SavedUpgrade } from './types';
+
+export const getSaveVersion = (save: RawSave): number => {
+  const version = Number(save.schemaVersion);
+  return Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+// Run every registered migration between the payload's version and the current one
+export const migrateSave = (raw: RawSave): { save: RawSave; migratedFrom: number } => {
+  const migratedFrom = getSaveVersion(raw);
+  if (migratedFrom > SAVE_SCHEMA_VERSION) {
+    throw new Error(`Save schema v${migratedFrom} is newer than supported v${SAVE_SCHEMA_VERSION}`);
+  }
+
+  let save = raw;
+  let version = migratedFrom;
+  while (version < SAVE_SCHEMA_VERSION) {
+    const migration = SAVE_MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No save migration registered from v${version}`);
+    }
+    save = { ...migration.migrate(save), schemaVersion: migration.to };
+    version = migration.to;
+  }
+
+  return { save, migratedFrom };
+};
+
+// Sanitize each GameState field, falling back to the caller's current value
+const sanitizeState = (save: RawSave, fallback: GameState): GameState => {
+  const state: Record<string, unknown> = { ...fallback };
+
+  (Object.keys(fallback) as (keyof GameState)[]).forEach(key => {
+    const fallbackValue = fallback[key];
+    const value = save[key];
+
+    if (typeof fallbackValue === 'number') {
+      // Number(null) and Number('') are 0, not missing
+      state[key] = value === null || value === '' ? fallbackValue : sanitizeNumber(value, fallbackValue);
+    } else if (typeof fallbackValue === 'boolean') {
+      state[key] = Boolean(value);
+    } else {
+      state[key] = typeof value === 'string' && value ? value : fallbackValue;
+    }
+  });
+
+  return state as unknown as GameState;
+};
+
+/**
+ * Apply saved levels to the current upgrade catalog. Definitions (costs, effects,
+ * text) always come from the catalog; only the level is taken from the save.
+ * New upgrades start at level 0 and renamed ones keep their progress.
+ */
+export const reconcileUpgrades = (
+  savedUpgrades: unknown[],
+  catalog: Upgrade[]
+): { upgrades: Upgrade[]; droppedUpgrades: string[] } => {
+  const savedLevels = new Map<string, number>();
+  const droppedUpgrades: string[] = [];
+
+  savedUpgrades.forEach(entry => {
+    if (!entry || typeof entry !== 'object') return;
+    const { id, level } = entry as { id?: unknown; level?: unknown };
+    if (typeof id !== 'string') return;
+
+    const currentId = UPGRADE_ID_RENAMES[id] ?? id;
+    if (!catalog.some(u => u.id === currentId)) {
+      droppedUpgrades.push(id);
+      return;
+    }
+    savedLevels.set(currentId, Math.max(savedLevels.get(currentId) ?? 0, sanitizeNumber(level, 0)));
+  });
+
+  const upgrades = catalog.map(upgrade => ({
+    ...upgrade,
+    level: Math.max(0, Math.min(Math.floor(savedLevels.get(upgrade.id) ?? upgrade.level), upgrade.maxLevel))
+  }));
+
+  return { upgrades, droppedUpgrades };
+};
+
+/**
+ * Parse a persisted payload of any known schema version into the current SaveData.
+ * Returns null for payloads that aren't objects.
+ */
+export const loadSave = (
+  raw: unknown,
+  options: { fallbackState: GameState; catalog: Upgrade[] }
+): LoadedSave | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const { save, migratedFrom } = migrateSave(raw as RawSave);
+  const { upgrades, droppedUpgrades } = reconcileUpgrades(
+    Array.isArray(save.upgrades) ? save.upgrades : [],
+    options.catalog
+  );
+
+  const achievements: SavedAchievement[] = Array.isArray(save.achievements)
+    ? (save.achievements as SavedAchievement[]).filter(a => a && typeof a.id === 'string')
+    : [];
+
+  const state = sanitizeState(save, options.fallbackState);
+
+  return {
+    data: {
+      ...state,
+      schemaVersion: SAVE_SCHEMA_VERSION,
+      savedAt: sanitizeNumber(save.savedAt, 0),
+      upgrades,
+      achievements,
+      balanceLedger: sanitizeLedger(save.balanceLedger, state.divinePoints)
+    },
+    migratedFrom,
+    droppedUpgrades
+  };
+};
+
+export const toSavedUpgrades = (upgrades: Upgrade[]): SavedUpgrade[] =>
+  upgrades.map(({ id, level }) => ({ id, level }));
+
+// Snapshot the current state as SaveData; pass it through serializeSave before writing it
+export const createSave = (
+  state: GameState,
+  upgrades: Upgrade[],
+  achievements: SavedAchievement[],
+  balanceLedger: BalanceLedger,
+  now = Date.now()
+): SaveData => ({
+  ...state,
+  schemaVersion: SAVE_SCHEMA_VERSION,
+  savedAt: now,
+  upgrades,
+  achievements: achievements.map(({ id, unlocked, unlockedAt }) => ({ id, unlocked, unlockedAt })),
+  balanceLedger
+});
+
+// Payload written to localStorage and user_game_data.game_data
+export const serializeSave = (save: SaveData): PersistedSave => ({
+  ...save,
+  upgrades: toSavedUpgrades(save.upgrades)
+});
+
+// Strip the envelope fields so the result can be merged into component state
+export const getSaveGameState = (save: SaveData): GameState => {
+  const state: Partial<SaveData> = { ...save };
+  delete state.schemaVersion;
+  delete state.savedAt;
+  delete state.upgrades;
+  delete state.achievements;
+  delete state.balanceLedger;
+  return state as GameState;
+};
@@ -0,0 +1,68 @@
+import type { GameState, Upgrade } from '@/game/engine';
+
+// Bump this and register a migrate_vN_to_vN+1 in migrations.ts whenever the
+// persisted shape changes. Saves written before versioning are treated as v0.
+export const SAVE_SCHEMA_VERSION = 4;
+
+export interface SavedAchievement {
+  id: string;
+  unlocked: boolean;
+  unlockedAt?: number;
+}
+
+// Upgrade definitions come from the catalog, so only levels are persisted
+export interface SavedUpgrade {
+  id: string;
+  level: number;
+}
+
+// Earn/spend totals one device has applied to the spendable balance. Only the
+// owning device writes its entry, so both counters only ever grow.
+export interface BalanceLedgerEntry {
+  earned: number;
+  spent: number;
+  updatedAt: number; // Unix ms
+}
+
+// divinePoints = base + sum(earned - spent) across devices
+export interface BalanceLedger {
+  base: number; // Balance when the ledger was introduced
+  devices: Record<string, BalanceLedgerEntry>;
+}
+
+// A loaded save, with saved upgrade levels applied to the current catalog
+export interface SaveData extends GameState {
+  schemaVersion: number;
+  savedAt: number; // Unix ms
+  upgrades: Upgrade[];
+  achievements: SavedAchievement[];
+  balanceLedger: BalanceLedger;
+}
+
+// Payload written to localStorage (divine_mining_state_<telegramId>) and
+// user_game_data.game_data. GameState fields stay at the top level so
+// leaderboard queries like game_data->divinePoints keep working.
+export interface PersistedSave extends Omit<SaveData, 'upgrades'> {
+  upgrades: SavedUpgrade[];
+}
+
+// Untyped payload passed between migrations
+export type RawSave = Record<string, unknown>;
+
+export interface SaveMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (save: RawSave) => RawSave;
+}
+
+export interface LoadedSave {
+  data: SaveData;
+  migratedFrom: number; // Schema version the payload was written with
+  droppedUpgrades: string[]; // Saved upgrade ids no longer in the catalog
+}
+
+export interface SaveMergeResult {
+  save: SaveData;
+  mergedFields: string[]; // Fields where the other copy contributed progress
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { initData, useSignal } from '@telegram-apps/sdk-react';
 import { supabase } from '@/lib/supabaseClient';
 import type { User } from '@/lib/supabaseClient';
+import { stkLedger } from '@/lib/stkLedger';
+import { clearTelegramSession, establishTelegramSession } from '@/lib/telegramSession';
 
 export interface AuthUser extends User {
   total_earned?: number;
@@ -149,6 +151,7 @@ export const useAuth = () => {
   const [hasInitialized, setHasInitialized] = useState(false);
   
   const telegramData = useSignal(initData.state);
+  const initDataRaw = useSignal(initData.raw);
 
   // Add sync interval state
   const [, setSyncInterval] = useState<NodeJS.Timeout | null>(null);
@@ -165,12 +168,21 @@ export const useAuth = () => {
       return;
     }
 
+    if (!initDataRaw) {
+      setError('Missing Telegram launch data');
+      setIsLoading(false);
+      return;
+    }
+
     try {
+      // Verify initData server-side before touching any user rows
+      await establishTelegramSession(initDataRaw);
+
       const telegramUser = telegramData.user;
       const telegramId = String(telegramUser.id);
 
       // First attempt to get existing user with total_sbt
-      let { data: existingUser, error: fetchError } = await supabase
+      const { data: existingUser, error: fetchError } = await supabase
         .from('users')
         .select(`
           *,
@@ -182,88 +194,12 @@ export const useAuth = () => {
         .eq('telegram_id', telegramId)
         .single();
 
-      // Better error handling for existing user
+      // telegram-auth creates the row while verifying initData; players can't insert into users
       if (fetchError) {
         if (fetchError.code === 'PGRST116') {
-          // User doesn't exist, proceed with creation
-          
-          // Generate referral code for new user
-          const generateUserReferralCode = (userId: number) => {
-            const baseCode = `DIVINE${userId.toString().padStart(6, '0')}`;
-            const userIdHash = userId.toString();
-            const suffix = userIdHash.split('').reduce((acc, char) => {
-              return ((acc << 5) - acc + char.charCodeAt(0)) & 0xFFFF;
-            }, 0);
-            return `${baseCode}${suffix.toString(36).toUpperCase().padStart(4, '0')}`;
-          };
-          
-          const { data: newUser, error: createError } = await supabase
-            .from('users')
-            .insert([{
-              telegram_id: telegramId,
-              username: telegramUser.username || (telegramUser.firstName ? `${telegramUser.firstName}${telegramUser.lastName ? ` ${telegramUser.lastName}` : ''}` : `Miner_${String(telegramId).slice(-4)}`),
-              first_name: telegramUser.firstName || null,
-              last_name: telegramUser.lastName || null,
-              language_code: telegramUser.languageCode || null,
-              wallet_address: null,
-              balance: 0,
-              total_deposit: 0,
-              total_withdrawn: 0,
-              total_earned: 0,
-              total_sbt: 0, // Initialize STK balance
-              team_volume: 0,
-              direct_referrals: 0,
-              rank: 'Novice',
-              last_active: new Date().toISOString(),
-              login_streak: 0,
-              last_login_date: new Date().toISOString(),
-              is_active: true,
-              last_deposit_time: null,
-              last_deposit_date: null
-            }])
-            .select()
-            .maybeSingle();
-          
-          // After user creation, update with referral code
-          if (newUser && !createError) {
-            const referralCode = generateUserReferralCode(newUser.id);
-            await supabase
-              .from('users')
-              .update({ referral_code: referralCode })
-              .eq('id', newUser.id);
-            
-            // Add referral code to the user object
-            newUser.referral_code = referralCode;
-          }
-
-          if (createError) {
-            if (createError.code === '23505') { // Unique constraint violation
-              // Try fetching the user one more time in case of race condition
-              const { data: retryUser, error: retryError } = await supabase
-                .from('users')
-                .select(`
-                  *,
-                  referrer:users(
-                    username,
-                    rank
-                  )
-                `)
-                .eq('telegram_id', telegramId)
-                .single();
-
-              if (retryError) {
-                throw new Error('Failed to fetch or create user account');
-              }
-              existingUser = retryUser;
-            } else {
-              throw new Error(`Failed to create new user: ${createError.message}`);
-            }
-          } else {
-            existingUser = newUser;
-          }
-        } else {
-          throw new Error('Failed to fetch user data');
+          throw new Error('Account not found. The telegram-auth function creates it on sign-in; for the dev mock it needs TELEGRAM_AUTH_ALLOW_MOCK.');
         }
+        throw new Error('Failed to fetch user data');
       }
 
       // Update last active timestamp and login date
@@ -296,7 +232,7 @@ export const useAuth = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [telegramData, hasInitialized, user]);
+  }, [telegramData, initDataRaw, hasInitialized, user]);
 
   useEffect(() => {
     // Only initialize if not already done
@@ -381,6 +317,7 @@ export const useAuth = () => {
 
   const logout = useCallback(() => {
     console.log('Logging out user:', user?.telegram_id);
+    clearTelegramSession();
     setUser(null);
   }, [user]);
 
@@ -462,31 +399,25 @@ export const useAuth = () => {
     };
   }, [user?.id, currentEarnings]);
 
-  // Add a function to refresh STK balance
+  // STK balance as derived from the ledger; total_sbt is only written by the server
   const refreshSTKBalance = useCallback(async () => {
-    if (!user?.telegram_id) return;
+    if (!user?.id) return;
 
     try {
-      const { data: updatedUser, error } = await supabase
-        .from('users')
-        .select('total_sbt')
-        .eq('telegram_id', user.telegram_id)
-        .single();
-
-      if (error) throw error;
+      const balance = await stkLedger.getBalance(user.id);
 
       setUser(prev => {
         if (!prev) return null;
         return {
           ...prev,
-          total_sbt: updatedUser.total_sbt || 0
+          total_sbt: balance
         };
       });
 
     } catch (error) {
       console.error('Failed to refresh STK balance:', error);
     }
-  }, [user?.telegram_id]);
+  }, [user?.id]);
 
   return useMemo(() => ({
     user,
@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { ActiveBoost } from '@/game/engine';
+import type { SavedUpgrade } from '@/game/save';
+
+const STORE_KEY = 'divineMiningStore';
+const STORE_VERSION = 1;
+
+const DEFAULT_POINTS = 100;
+const DEFAULT_GEMS = 10;
+
+// Gem grant limits (per call)
+const GEM_CLAIM_COOLDOWN_MS = 100;
+const MAX_GEM_GRANT = 10000;
+const GEM_GRANT_CAP = 1000;
+
+export interface UpgradePurchase {
+  upgradeId: string;
+  upgradeName: string;
+  level: number;
+  cost: number;
+  timestamp: number;
+}
+
+export interface ReferralResult {
+  success: boolean;
+  message: string;
+  startParam?: string;
+  timestamp: number;
+}
+
+interface PersistedGameStore {
+  points: number;
+  gems: number;
+  boosts: ActiveBoost[];
+  upgrades: SavedUpgrade[];
+}
+
+export interface GameStoreState extends PersistedGameStore {
+  telegramId: string | null;
+  lastGemClaimAt: number;
+  // Latest one-off events, for components that react to them (TaskCenter, DivineMiningGame)
+  lastUpgradePurchase: UpgradePurchase | null;
+  lastReferralResult: ReferralResult | null;
+
+  setPoints: (points: number) => void;
+  setGems: (gems: number) => void;
+  addGems: (amount: number, source?: string) => void;
+  addBoost: (boost: ActiveBoost) => void;
+  removeBoost: (index: number) => void;
+  pruneExpiredBoosts: (now?: number) => void;
+  setUpgrades: (upgrades: SavedUpgrade[]) => void;
+  recordUpgradePurchase: (purchase: Omit<UpgradePurchase, 'timestamp'>) => void;
+  recordReferralResult: (result: Omit<ReferralResult, 'timestamp'>) => void;
+  reset: () => void;
+}
+
+const getStoreKey = (telegramId: string | null) => (telegramId ? `${STORE_KEY}_${telegramId}` : STORE_KEY);
+
+const defaultPersistedState = (): PersistedGameStore => ({
+  points: DEFAULT_POINTS,
+  gems: DEFAULT_GEMS,
+  boosts: [],
+  upgrades: []
+});
+
+// Values the old GameContext kept in separate localStorage keys
+const readLegacyState = (telegramId: string | null): PersistedGameStore => {
+  const suffix = telegramId ? `_${telegramId}` : '';
+  const state = defaultPersistedState();
+
+  try {
+    const points = localStorage.getItem(`spiritualEssencePoints${suffix}`);
+    const gems = localStorage.getItem(`divineMiningGems${suffix}`);
+    const boosts = localStorage.getItem(`divineMiningBoosts${suffix}`);
+
+    if (points) state.points = parseInt(points, 10) || DEFAULT_POINTS;
+    if (gems) state.gems = parseInt(gems, 10) || 0;
+    if (boosts) state.boosts = JSON.parse(boosts);
+  } catch (error) {
+    console.error('Error reading legacy game data:', error);
+  }
+
+  return state;
+};
+
+export const useGameStore = create<GameStoreState>()(
+  persist(
+    (set, get) => ({
+      ...defaultPersistedState(),
+      telegramId: null,
+      lastGemClaimAt: 0,
+      lastUpgradePurchase: null,
+      lastReferralResult: null,
+
+      setPoints: (points) => set({ points }),
+
+      setGems: (gems) => set({ gems }),
+
+      // Local balance only: ledger gems are granted by the server (task and season
+      // rewards), and setGems replaces this with the ledger balance when it is read
+      addGems: (amount, source = 'unknown') => {
+        const now = Date.now();
+        if (now - get().lastGemClaimAt < GEM_CLAIM_COOLDOWN_MS) {
+          console.warn('🚫 Gem claim rate limit exceeded - preventing spam');
+          return;
+        }
+
+        if (amount <= 0 || amount > MAX_GEM_GRANT) {
+          console.warn('🚫 Invalid gem amount:', amount);
+          return;
+        }
+
+        if (amount > GEM_GRANT_CAP) {
+          console.warn(`🚫 Gem amount too large, capping at ${GEM_GRANT_CAP}:`, amount);
+          amount = GEM_GRANT_CAP;
+        }
+
+        const gems = get().gems + amount;
+        set({ gems, lastGemClaimAt: now });
+        console.log(`💎 Gem Transaction: +${amount} from ${source} | New Total: ${gems} | User: ${get().telegramId ?? 'anonymous'}`);
+      },
+
+      addBoost: (boost) => set(state => ({ boosts: [...state.boosts, boost] })),
+
+      removeBoost: (index) => set(state => ({ boosts: state.boosts.filter((_, i) => i !== index) })),
+
+      pruneExpiredBoosts: (now = Date.now()) => {
+        const boosts = get().boosts;
+        const active = boosts.filter(boost => now < boost.expires);
+        if (active.length !== boosts.length) set({ boosts: active });
+      },
+
+      setUpgrades: (upgrades) => set({ upgrades }),
+
+      recordUpgradePurchase: (purchase) => set({ lastUpgradePurchase: { ...purchase, timestamp: Date.now() } }),
+
+      recordReferralResult: (result) => set({ lastReferralResult: { ...result, timestamp: Date.now() } }),
+
+      reset: () => set({ ...defaultPersistedState(), lastUpgradePurchase: null, lastReferralResult: null })
+    }),
+    {
+      name: STORE_KEY,
+      version: STORE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      partialize: ({ points, gems, boosts, upgrades }): PersistedGameStore => ({ points, gems, boosts, upgrades }),
+      // Loaded per user by loadGameStore once the Telegram user is known
+      skipHydration: true
+    }
+  )
+);
+
+/**
+ * Point the store at a Telegram user's saved data. A user without a store entry
+ * yet is seeded from the legacy per-key values.
+ */
+export const loadGameStore = async (telegramId: string | null): Promise<void> => {
+  const name = getStoreKey(telegramId);
+  if (useGameStore.getState().telegramId === telegramId && useGameStore.persist.hasHydrated()) return;
+
+  useGameStore.persist.setOptions({ name });
+
+  // Any setState persists to the new key, so telegramId is only set after rehydrating
+  if (localStorage.getItem(name) !== null) {
+    await useGameStore.persist.rehydrate();
+    useGameStore.setState({ telegramId, lastUpgradePurchase: null, lastReferralResult: null });
+  } else {
+    useGameStore.setState({ ...readLegacyState(telegramId), telegramId, lastUpgradePurchase: null, lastReferralResult: null });
+  }
+};
+
+// Re-read the store after another tab wrote it
+export const syncGameStoreFromStorage = (key: string | null): void => {
+  if (key === getStoreKey(useGameStore.getState().telegramId)) {
+    useGameStore.persist.rehydrate();
+  }
+};
+
+// Typed selectors
+export const selectPoints = (state: GameStoreState) => state.points;
+export const selectGems = (state: GameStoreState) => state.gems;
+export const selectBoosts = (state: GameStoreState) => state.boosts;
+export const selectUpgrades = (state: GameStoreState) => state.upgrades;
+export const selectUpgradeLevel = (upgradeId: string) => (state: GameStoreState) =>
+  state.upgrades.find(upgrade => upgrade.id === upgradeId)?.level ?? 0;
+export const selectLastUpgradePurchase = (state: GameStoreState) => state.lastUpgradePurchase;
+export const selectLastReferralResult = (state: GameStoreState) => state.lastReferralResult;
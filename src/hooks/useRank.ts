@@ -1,41 +1,67 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
-import { rankSystem } from '@/lib/rankSystem';
-import { RANK_REQUIREMENTS } from '@/lib/rankSystem';
+import {
+  RANK_REQUIREMENTS,
+  getQualifiedRank,
+  getRankProgress,
+  getRankTitle,
+  rankSystem
+} from '@/lib/rankSystem';
+import type { RankChange, RankProgress, UserRank } from '@/lib/rankSystem';
 
 export const useRank = (userId: number) => {
-  const [currentRank, setCurrentRank] = useState<string>('NONE');
-  const [rankProgress] = useState({
-    directReferrals: 0,
-    teamVolume: 0,
-    totalStake: 0
-  });
+  const [currentRank, setCurrentRank] = useState<UserRank>('NONE');
+  // Where the metrics would put the player now; the stored rank catches up on the daily recalculation
+  const [qualifiedRank, setQualifiedRank] = useState<UserRank>('NONE');
+  const [rankProgress, setRankProgress] = useState<RankProgress>(() =>
+    getRankProgress('NONE', { directReferrals: 0, totalDeposit: 0, teamVolume: 0 })
+  );
+  const [rankHistory, setRankHistory] = useState<RankChange[]>([]);
+
+  const loadRank = useCallback(async () => {
+    try {
+      const [standing, history] = await Promise.all([
+        rankSystem.getStanding(userId),
+        rankSystem.getHistory(userId, 5)
+      ]);
+      if (!standing) return;
+
+      setCurrentRank(standing.rank);
+      setQualifiedRank(getQualifiedRank(standing.metrics));
+      setRankProgress(getRankProgress(standing.rank, standing.metrics));
+      setRankHistory(history);
+    } catch (error) {
+      console.error('Error loading rank:', error);
+    }
+  }, [userId]);
 
   useEffect(() => {
     if (!userId) return;
 
-    const checkRank = async () => {
-      const newRank = await rankSystem.calculateRank(userId);
-      setCurrentRank(newRank);
-    };
-
     // Subscribe to user changes
     const subscription = supabase
       .channel(`public:users:id=eq.${userId}`)
-      .on('postgres_changes', { 
-        event: '*', 
-        schema: 'public', 
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
         table: 'users',
         filter: `id=eq.${userId}`
-      }, checkRank)
+      }, loadRank)
       .subscribe();
 
-    checkRank();
+    loadRank();
 
     return () => {
       supabase.removeChannel(subscription);
     };
-  }, [userId]);
+  }, [userId, loadRank]);
 
-  return { currentRank, rankProgress, RANK_REQUIREMENTS };
-}; 
\ No newline at end of file
+  return {
+    currentRank,
+    rankTitle: getRankTitle(currentRank),
+    qualifiedRank,
+    rankProgress,
+    rankHistory,
+    RANK_REQUIREMENTS
+  };
+};
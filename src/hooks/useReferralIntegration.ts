@@ -1,7 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { retrieveLaunchParams } from '@telegram-apps/sdk-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useGameStore } from '@/hooks/useGameStore';
 import { supabase } from '@/lib/supabaseClient';
+import { getReferralCode, getReferralLink, parseReferralCode, referralService } from '@/lib/referralService';
+import type { ReferralAttemptStatus } from '@/lib/referralVerification';
 
 interface ReferralData {
   code: string;
@@ -25,7 +28,7 @@ interface ReferralAttempt {
   id: string;
   timestamp: number;
   code: string;
-  status: 'success' | 'failed' | 'invalid' | 'duplicate' | 'self_referral';
+  status: ReferralAttemptStatus;
   reason?: string;
   referrer_username?: string;
 }
@@ -51,22 +54,6 @@ interface ReferralUser {
   total_earned?: number;
 }
 
-interface DatabaseReferral {
-  id: number;
-  referrer_id: number;
-  referred_id: number;
-  created_at: string;
-  referred: {
-    id: number;
-    username: string;
-    telegram_id: number;
-    total_earned: number;
-    rank: string;
-    is_active: boolean;
-    created_at: string;
-  };
-}
-
 export const useReferralIntegration = () => {
   const { user } = useAuth();
   const [referralCode, setReferralCode] = useState<string>('');
@@ -136,23 +123,6 @@ export const useReferralIntegration = () => {
     // Update debug info
     setDebugInfo(prev => ({ ...prev, lastAttempt: attempt }));
 
-    // Also save to database for analytics (if tables exist)
-    if (user?.id) {
-      try {
-        // Using a generic table insert that may or may not exist
-        await supabase.from('referral_attempts').insert({
-          user_id: user.id,
-          referral_code: code,
-          status,
-          reason,
-          referrer_username,
-          timestamp: new Date().toISOString()
-        });
-      } catch (error) {
-        console.debug('Referral attempt logging failed (table may not exist):', error);
-      }
-    }
-
     return attempt;
   }, [user?.id]);
 
@@ -162,20 +132,11 @@ export const useReferralIntegration = () => {
       return { isValid: false, error: 'Referral code is required' };
     }
 
-    // Check format
-    const startParamRegex = /^DIVINE\d{6}[A-Z0-9]{4}$/i;
-    if (!startParamRegex.test(code)) {
+    const referrerId = parseReferralCode(code);
+    if (referrerId === null) {
       return { isValid: false, error: 'Invalid referral code format' };
     }
 
-    // Extract referrer ID
-    const referrerIdMatch = code.match(/DIVINE(\d{6})/i);
-    if (!referrerIdMatch) {
-      return { isValid: false, error: 'Could not extract referrer ID' };
-    }
-
-    const referrerId = parseInt(referrerIdMatch[1]);
-    
     // Check self-referral
     if (referrerId === user?.id) {
       return { isValid: false, error: 'Cannot refer yourself' };
@@ -193,18 +154,10 @@ export const useReferralIntegration = () => {
       return { success: false, error: validation.error };
     }
 
-    // Check if referrer exists
-    const referrerIdMatch = code.match(/DIVINE(\d{6})/i);
-    const referrerId = parseInt(referrerIdMatch![1]);
-
     try {
-      const { data: referrer, error } = await supabase
-        .from('users')
-        .select('id, username, telegram_id')
-        .eq('id', referrerId)
-        .single();
+      const referrer = await referralService.findReferrer(code);
 
-      if (error || !referrer) {
+      if (!referrer) {
         await trackReferralAttempt(code, 'failed', 'Referrer not found');
         return { success: false, error: 'Referrer not found' };
       }
@@ -217,24 +170,9 @@ export const useReferralIntegration = () => {
     }
   }, [validateReferralCode, trackReferralAttempt]);
 
-  // Generate a static referral code based on user ID (never changes)
+  // Static referral code for a user id (never changes)
   const generateReferralCode = useCallback((userId: number) => {
-    if (!userId) return '';
-    
-    // Create a static code based on user ID only - no timestamp
-    // This ensures the code is always the same for each user
-    const baseCode = `DIVINE${userId.toString().padStart(6, '0')}`;
-    
-    // Create a deterministic suffix based on user ID for uniqueness
-    // This will always be the same for the same user
-    const userIdHash = userId.toString();
-    const suffix = userIdHash.split('').reduce((acc, char) => {
-      return ((acc << 5) - acc + char.charCodeAt(0)) & 0xFFFF;
-    }, 0);
-    
-    const code = `${baseCode}${suffix.toString(36).toUpperCase().padStart(4, '0')}`;
-    
-    return code;
+    return userId ? getReferralCode(userId) : '';
   }, []);
 
   // Load or create referral code from database
@@ -242,49 +180,17 @@ export const useReferralIntegration = () => {
     if (!user?.id) return '';
 
     try {
-      // First, try to get existing referral code from database
-      const { data: userData, error: fetchError } = await supabase
-        .from('users')
-        .select('referral_code')
-        .eq('id', user.id)
-        .single();
-
-      if (fetchError) {
-        console.error('Error fetching referral code:', fetchError);
-        return '';
-      }
-
-      // If user already has a referral code, use it
-      if (userData.referral_code) {
-        setReferralCode(userData.referral_code);
-        return userData.referral_code;
-      }
-
-      // If no referral code exists, generate one and save it
-      const newCode = generateReferralCode(user.id);
-      
-      // Save the new code to the database
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ referral_code: newCode })
-        .eq('id', user.id);
-
-      if (updateError) {
-        console.error('Error saving referral code:', updateError);
-        // Still use the generated code even if saving fails
-      }
-
-      setReferralCode(newCode);
-      return newCode;
-
+      const code = await referralService.getCode(user.id);
+      setReferralCode(code);
+      return code;
     } catch (error) {
       console.error('Error loading referral code:', error);
       // Fallback to generating code without saving
-      const fallbackCode = generateReferralCode(user.id);
+      const fallbackCode = getReferralCode(user.id);
       setReferralCode(fallbackCode);
       return fallbackCode;
     }
-  }, [user?.id, generateReferralCode]);
+  }, [user?.id]);
 
   // Load referral data from database
   const loadReferralData = useCallback(async () => {
@@ -293,57 +199,30 @@ export const useReferralIntegration = () => {
     try {
       console.log('Loading referral data for user:', user.id);
       
-      // Get user's referrals from database
-      const { data: referrals, error: referralsError } = await supabase
-        .from('referrals')
-        .select(`
-          *,
-          referred:users!referred_id(
-            id,
-            username,
-            telegram_id,
-            total_earned,
-            rank,
-            is_active,
-            created_at
-          )
-        `)
-        .eq('referrer_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (referralsError) {
-        console.error('Error loading referrals:', referralsError);
-        return;
-      }
-
-      console.log('Loaded referrals:', referrals?.length || 0);
-
-      // Get referral earnings
-      const { data: earnings, error: earningsError } = await supabase
-        .from('referral_earnings')
-        .select('amount')
-        .eq('user_id', user.id);
+      const [referrals, stats, analytics] = await Promise.all([
+        referralService.getDownline(user.id, 1),
+        referralService.getStats(),
+        referralService.getAnalytics()
+      ]);
 
-      if (earningsError) {
-        console.error('Error loading referral earnings:', earningsError);
-      }
+      console.log('Loaded referrals:', referrals.length);
 
-      const totalEarned = earnings?.reduce((sum, e) => sum + Number(e.amount), 0) || 0;
-      const totalReferrals = referrals?.length || 0;
-      const activeReferrals = referrals?.filter(r => r.referred?.is_active).length || 0;
+      const totalEarned = stats.earned;
+      const totalReferrals = stats.directReferrals;
+      const activeReferrals = stats.activeReferrals;
 
       // Convert database referrals to display format
-      const referralUsers: ReferralUser[] = (referrals as DatabaseReferral[])?.map(r => ({
-        id: r.referred.id.toString(),
-        username: r.referred.username || `User_${r.referred.telegram_id}`,
-        joinedAt: new Date(r.created_at).getTime(),
-        isActive: r.referred.is_active,
-        pointsEarned: Math.floor(Number(r.referred.total_earned) * 100), // Convert to points
-        avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${r.referred.username}`,
-        telegram_id: r.referred.telegram_id,
-        rank: r.referred.rank,
-        total_earned: Number(r.referred.total_earned)
-      })) || [];
+      const referralUsers: ReferralUser[] = referrals.map(member => ({
+        id: member.id.toString(),
+        username: member.username,
+        joinedAt: member.joinedAt,
+        isActive: member.isActive,
+        pointsEarned: Math.floor(member.totalEarned * 100), // Convert to points
+        avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${member.username}`,
+        telegram_id: member.telegramId !== null ? Number(member.telegramId) : undefined,
+        rank: member.rank,
+        total_earned: member.totalEarned
+      }));
 
       // Calculate level based on referrals
       const level = Math.floor(totalReferrals / 5) + 1;
@@ -361,7 +240,8 @@ export const useReferralIntegration = () => {
         },
         referrals: referralUsers,
         level,
-        nextLevelReward: `Level ${level + 1} Reward`
+        nextLevelReward: `Level ${level + 1} Reward`,
+        analytics: { ...analytics, topReferralSources: [] }
       }));
 
     } catch (error) {
@@ -405,116 +285,20 @@ export const useReferralIntegration = () => {
         return;
       }
       
-      // Extract referrer ID from start parameter
-      const referrerIdMatch = startParam.match(/DIVINE(\d{6})/i);
-      const referrerId = parseInt(referrerIdMatch![1]);
-      
-      // Check if user already has a referrer
-      const { data: existingUser, error: userError } = await supabase
-        .from('users')
-        .select('referrer_id')
-        .eq('id', user.id)
-        .single();
-      
-      if (userError) {
-        console.error('Error checking existing user:', userError);
-        await trackReferralAttempt(startParam, 'failed', 'Database error');
-        setDebugInfo(prev => ({ ...prev, error: 'Database error', processed: true }));
-        return;
-      }
-      
-      if (existingUser?.referrer_id) {
-        console.log('User already has a referrer:', existingUser.referrer_id);
-        await trackReferralAttempt(startParam, 'duplicate', 'Already has referrer');
-        setDebugInfo(prev => ({ ...prev, error: 'Already has referrer', processed: true }));
-        return;
-      }
-      
-      // Check if referrer exists
-      const { data: referrer, error: referrerError } = await supabase
-        .from('users')
-        .select('id, username, telegram_id')
-        .eq('id', referrerId)
-        .single();
-      
-      if (referrerError || !referrer) {
-        console.log('Referrer not found:', referrerId);
-        await trackReferralAttempt(startParam, 'failed', 'Referrer not found');
-        setDebugInfo(prev => ({ ...prev, error: 'Referrer not found', processed: true }));
-        return;
-      }
-      
-      console.log('Valid referrer found:', referrer.username);
-      
-      // Create referral relationship
-      const { error: referralError } = await supabase
-        .from('referrals')
-        .insert({
-          referrer_id: referrerId,
-          referred_id: user.id
-        });
-      
-      if (referralError) {
-        console.error('Error creating referral:', referralError);
-        setDebugInfo(prev => ({ ...prev, error: 'Failed to create referral', processed: true }));
-        return;
-      }
-      
-      // Update user's referrer_id
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ referrer_id: referrerId })
-        .eq('id', user.id);
-      
-      if (updateError) {
-        console.error('Error updating user referrer:', updateError);
-        setDebugInfo(prev => ({ ...prev, error: 'Failed to update user', processed: true }));
+      // Attribution, fraud scoring and attempt logging happen server-side
+      const result = await referralService.attach(startParam);
+      await trackReferralAttempt(startParam, result.status, result.reason, result.referrer_username);
+
+      if (result.status !== 'success') {
+        console.log('Referral not applied:', result.reason);
+        setDebugInfo(prev => ({ ...prev, error: result.reason, processed: true }));
         return;
       }
-      
-      // Update referrer's direct_referrals count
-      const { error: countError } = await supabase
-        .rpc('increment_direct_referrals', { user_id: referrerId });
-      
-      if (countError) {
-        console.error('Error updating referrer count:', countError);
-      }
-      
-      // Give welcome bonus to new user
-      const welcomeBonus = 1000;
-      const { error: bonusError } = await supabase
-        .from('referral_earnings')
-        .insert({
-          user_id: user.id,
-          referral_id: user.id,
-          amount: welcomeBonus,
-          level: 0
-        });
-      
-      if (bonusError) {
-        console.error('Error giving welcome bonus:', bonusError);
-      }
-      
-      // Give referral bonus to referrer
-      const referralBonus = 500;
-      const { error: referrerBonusError } = await supabase
-        .from('referral_earnings')
-        .insert({
-          user_id: referrerId,
-          referral_id: user.id,
-          amount: referralBonus,
-          level: 1
-        });
-      
-      if (referrerBonusError) {
-        console.error('Error giving referrer bonus:', referrerBonusError);
-      }
-      
+
       console.log('Referral processed successfully!');
-      await trackReferralAttempt(startParam, 'success', 'Referral processed successfully', referrer.username);
       setDebugInfo(prev => ({ 
         ...prev, 
-        referredBy: referrer.username, 
+        referredBy: result.referrer_username ?? null, 
         processed: true 
       }));
       
@@ -549,7 +333,7 @@ export const useReferralIntegration = () => {
   const generateTelegramReferralLink = useCallback((code?: string) => {
     const codeToUse = code || referralCode;
     if (!codeToUse) return '';
-    return `https://t.me/DivineTaps_bot/mine?startapp=${codeToUse}`;
+    return getReferralLink(codeToUse);
   }, [referralCode]);
 
   // Get referral statistics
@@ -634,29 +418,20 @@ export const useReferralIntegration = () => {
           // Mark this specific code as processed for this user
           localStorage.setItem(`referral_processed_${user.id}_${startParam}`, 'true');
           
-          // Show success notification to user
-          if (typeof window !== 'undefined' && window.dispatchEvent) {
-            window.dispatchEvent(new CustomEvent('referralProcessed', {
-              detail: { 
-                startParam,
-                success: true,
-                message: 'Welcome! You\'ve successfully joined through a referral link!'
-              }
-            }));
-          }
+          // DivineMiningGame shows the notification
+          useGameStore.getState().recordReferralResult({
+            startParam,
+            success: true,
+            message: 'Welcome! You\'ve successfully joined through a referral link!'
+          });
           
         } catch (error) {
           console.error('Error in referral processing:', error);
           
-          // Show error notification to user
-          if (typeof window !== 'undefined' && window.dispatchEvent) {
-            window.dispatchEvent(new CustomEvent('referralProcessed', {
-              detail: { 
-                success: false,
-                message: 'There was an issue processing your referral. Please try again.'
-              }
-            }));
-          }
+          useGameStore.getState().recordReferralResult({
+            success: false,
+            message: 'There was an issue processing your referral. Please try again.'
+          });
         }
       };
       
@@ -665,18 +440,6 @@ export const useReferralIntegration = () => {
     }
   }, [user?.id, loadReferralCode, loadReferralData, processStartParameter, trackReferralAttempt]);
 
-  // Create database stored procedure for incrementing referrals
-  useEffect(() => {
-    const createStoredProcedure = async () => {
-      const { error } = await supabase.rpc('create_increment_referrals_function');
-      if (error && !error.message.includes('already exists')) {
-        console.error('Error creating stored procedure:', error);
-      }
-    };
-    
-    createStoredProcedure();
-  }, []);
-
   // Load referral attempts from localStorage
   const loadReferralAttempts = useCallback(() => {
     if (!user?.id) return;
@@ -740,93 +503,17 @@ export const useReferralIntegration = () => {
         return { success: false, error: validation.error };
       }
       
-      // Extract referrer ID
-      const referrerIdMatch = referralCode.match(/DIVINE(\d{6})/i);
-      if (!referrerIdMatch) {
-        await trackReferralAttempt(referralCode, 'invalid', 'Invalid code format');
-        return { success: false, error: 'Invalid code format' };
-      }
-      
-      const referrerId = parseInt(referrerIdMatch[1]);
-      
-      // Check if user already has a referrer
-      const { data: existingUser } = await supabase
-        .from('users')
-        .select('referrer_id')
-        .eq('id', user.id)
-        .single();
-      
-      if (existingUser?.referrer_id) {
-        await trackReferralAttempt(referralCode, 'duplicate', 'User already has a referrer');
-        return { success: false, error: 'You already have a referrer' };
-      }
-      
-      // Check if referrer exists
-      const { data: referrer, error: referrerError } = await supabase
-        .from('users')
-        .select('id, username, telegram_id')
-        .eq('id', referrerId)
-        .single();
-      
-      if (referrerError || !referrer) {
-        await trackReferralAttempt(referralCode, 'failed', 'Referrer not found');
-        return { success: false, error: 'Referrer not found' };
-      }
-      
-      // Prevent self-referral
-      if (referrer.id === user.id) {
-        await trackReferralAttempt(referralCode, 'invalid', 'Cannot refer yourself');
-        return { success: false, error: 'Cannot refer yourself' };
-      }
-      
-      // Create referral relationship
-      const { error: referralError } = await supabase
-        .from('referrals')
-        .insert({
-          referrer_id: referrerId,
-          referred_id: user.id,
-          status: 'active'
-        });
-      
-      if (referralError) {
-        console.error('Error creating referral:', referralError);
-        await trackReferralAttempt(referralCode, 'failed', 'Failed to create referral relationship');
-        return { success: false, error: 'Failed to create referral relationship' };
-      }
-      
-      // Update user's referrer_id
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ referrer_id: referrerId })
-        .eq('id', user.id);
-      
-      if (updateError) {
-        console.error('Error updating user referrer:', updateError);
-        await trackReferralAttempt(referralCode, 'failed', 'Failed to update user referrer');
-        return { success: false, error: 'Failed to update user referrer' };
-      }
-      
-      // Update referrer's direct_referrals count
-      try {
-        const { error: countError } = await supabase
-          .rpc('increment_direct_referrals', { user_id: referrerId });
-        
-        if (countError) {
-          console.error('Error updating referrer count:', countError);
-          // Don't fail the whole process for this
-        }
-      } catch (error) {
-        console.error('Error incrementing referrer count:', error);
-        // Don't fail the whole process for this
+      const result = await referralService.attach(referralCode);
+      await trackReferralAttempt(referralCode, result.status, result.reason, result.referrer_username);
+
+      if (result.status !== 'success') {
+        return { success: false, error: result.status === 'duplicate' ? 'You already have a referrer' : result.reason };
       }
       
-      // Track the successful attempt
-      await trackReferralAttempt(referralCode, 'success', 'Manual entry successful', referrer.username);
-      
       // Reload data
       await loadReferralData();
       
-      return { success: true, referrer: referrer.username };
+      return { success: true, referrer: result.referrer_username };
     } catch (error) {
       console.error('Error processing referral code manually:', error);
       await trackReferralAttempt(referralCode, 'failed', 'System error');
@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getEventBoosts, isEventActive, specialEvents } from '@/lib/specialEvents';
+import type { SpecialEvent } from '@/lib/specialEvents';
+
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Live-ops events from special_events. eventBoosts can be passed to the engine alongside item boosts.
+export const useSpecialEvents = () => {
+  const [events, setEvents] = useState<SpecialEvent[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEvents = async () => {
+      const currentEvents = await specialEvents.getCurrentEvents();
+      if (cancelled) return;
+      setEvents(currentEvents);
+      setNow(Date.now());
+    };
+
+    loadEvents();
+    const interval = setInterval(loadEvents, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  // Re-evaluate exactly when the next event starts or ends
+  useEffect(() => {
+    const nextChange = events
+      .flatMap(event => [event.startsAt, event.endsAt])
+      .filter(time => time > now)
+      .sort((a, b) => a - b)[0];
+    if (nextChange === undefined) return;
+
+    const timeout = setTimeout(() => setNow(Date.now()), Math.min(nextChange - now + 50, MAX_TIMEOUT_MS));
+    return () => clearTimeout(timeout);
+  }, [events, now]);
+
+  const activeEvents = useMemo(() => events.filter(event => isEventActive(event, now)), [events, now]);
+  const upcomingEvents = useMemo(() => events.filter(event => event.startsAt > now), [events, now]);
+  const eventBoosts = useMemo(() => getEventBoosts(activeEvents, now), [activeEvents, now]);
+
+  return { activeEvents, upcomingEvents, eventBoosts };
+};
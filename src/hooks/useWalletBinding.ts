@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTonConnectUI } from '@tonconnect/ui-react';
+import { getRebindAvailableAt, walletBinding } from '@/lib/walletBinding';
+import type { WalletBinding, WalletBindingChange } from '@/lib/walletBinding';
+
+// Nonces expire after 15 minutes on the server; fetch a fresh one before that
+const NONCE_REFRESH_MS = 10 * 60 * 1000;
+
+// Every mounted hook hears the same connection; only the first submits its proof
+const submittedProofs = new Set<string>();
+
+/**
+ * Proven-wallet status plus a proveWallet() that opens TonConnect with a
+ * ton_proof request. Wallets only send the proof while connecting, so an
+ * already connected wallet is disconnected first.
+ */
+export const useWalletBinding = (userId?: number) => {
+  const [tonConnectUI] = useTonConnectUI();
+  const [binding, setBinding] = useState<WalletBinding | null>(null);
+  const [history, setHistory] = useState<WalletBindingChange[]>([]);
+  const [isProving, setIsProving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBinding = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [current, changes] = await Promise.all([
+        walletBinding.getBinding(userId),
+        walletBinding.getHistory(userId)
+      ]);
+      setBinding(current);
+      setHistory(changes);
+    } catch (loadError) {
+      console.error('Error loading wallet binding:', loadError);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadBinding();
+  }, [loadBinding]);
+
+  // Keep a live nonce in the connect request so any new connection carries a proof
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const refreshNonce = async () => {
+      tonConnectUI.setConnectRequestParameters({ state: 'loading' });
+      try {
+        const nonce = await walletBinding.issueNonce();
+        if (!cancelled) {
+          tonConnectUI.setConnectRequestParameters({ state: 'ready', value: { tonProof: nonce } });
+        }
+      } catch (nonceError) {
+        console.error('Error issuing wallet proof nonce:', nonceError);
+        if (!cancelled) tonConnectUI.setConnectRequestParameters(null);
+      }
+    };
+
+    refreshNonce();
+    const interval = setInterval(refreshNonce, NONCE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      tonConnectUI.setConnectRequestParameters(null);
+    };
+  }, [tonConnectUI, userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return tonConnectUI.onStatusChange(async wallet => {
+      const tonProof = wallet?.connectItems?.tonProof;
+      if (!wallet || !tonProof || !('proof' in tonProof)) return;
+      if (submittedProofs.has(tonProof.proof.signature)) return;
+
+      submittedProofs.add(tonProof.proof.signature);
+      setIsProving(true);
+      try {
+        await walletBinding.submitProof(wallet.account, tonProof.proof);
+        setError(null);
+        await loadBinding();
+      } catch (proofError) {
+        console.error('Wallet proof rejected:', proofError);
+        setError(proofError instanceof Error ? proofError.message : 'Wallet verification failed');
+      } finally {
+        setIsProving(false);
+      }
+    });
+  }, [tonConnectUI, userId, loadBinding]);
+
+  const proveWallet = useCallback(async () => {
+    setError(null);
+    if (tonConnectUI.connected) {
+      await tonConnectUI.disconnect();
+    }
+    await tonConnectUI.openModal();
+  }, [tonConnectUI]);
+
+  const rebindAvailableAt = binding?.provenAt ? getRebindAvailableAt(history) : null;
+
+  return {
+    binding,
+    history,
+    isProven: !!binding?.provenAt,
+    rebindAvailableAt,
+    canRebind: !rebindAvailableAt || rebindAvailableAt.getTime() <= Date.now(),
+    isProving,
+    error,
+    proveWallet,
+    refresh: loadBinding
+  };
+};
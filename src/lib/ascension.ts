@@ -0,0 +1,24 @@
+import { supabase } from './supabaseClient';
+
+export interface AscensionRecord {
+  ascensionCount: number;
+  multiplier: number;
+  divinePoints: number; // Server balance after the reset
+}
+
+export const ascensionService = {
+  // Ascend the signed-in player. Throws the Supabase error if they aren't eligible.
+  async ascend(): Promise<AscensionRecord> {
+    const { data, error } = await supabase.rpc('ascend');
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) throw new Error('Ascension returned no result');
+
+    return {
+      ascensionCount: Number(row.ascension_count),
+      multiplier: Number(row.multiplier),
+      divinePoints: Number(row.divine_points)
+    };
+  }
+};
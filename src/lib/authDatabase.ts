@@ -165,50 +165,12 @@ export const dailyRewardsTableMigration: DatabaseMigration = {
   }
 };
 
-// Migration to create referral tracking table
-export const referralTrackingMigration: DatabaseMigration = {
-  name: 'referral_tracking',
-  version: '1.0.0',
-  description: 'Create referral tracking table for detailed referral analytics',
-  execute: async () => {
-    try {
-      const createTableSQL = `
-        CREATE TABLE IF NOT EXISTS referral_tracking (
-          id SERIAL PRIMARY KEY,
-          referrer_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-          referred_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-          referred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-          is_active BOOLEAN DEFAULT true,
-          total_earned NUMERIC DEFAULT 0,
-          last_activity TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-          UNIQUE(referred_id)
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_referral_tracking_referrer_id ON referral_tracking(referrer_id);
-        CREATE INDEX IF NOT EXISTS idx_referral_tracking_referred_id ON referral_tracking(referred_id);
-        CREATE INDEX IF NOT EXISTS idx_referral_tracking_referred_at ON referral_tracking(referred_at);
-      `;
-
-      const { error } = await supabase.rpc('exec_sql', { sql: createTableSQL });
-      if (error) {
-        console.warn('Referral tracking migration warning:', error.message);
-      }
-
-      console.log('Referral tracking migration completed');
-    } catch (error) {
-      console.error('Error in referral tracking migration:', error);
-      throw error;
-    }
-  }
-};
-
 // All migrations
 export const allMigrations: DatabaseMigration[] = [
   divineMiningUserMigration,
   gameDataTableMigration,
   achievementsTableMigration,
-  dailyRewardsTableMigration,
-  referralTrackingMigration
+  dailyRewardsTableMigration
 ];
 
 // Run all migrations
@@ -350,54 +312,6 @@ export const getDailyRewardHistory = async (userId: number): Promise<any[]> => {
   }
 };
 
-// Track referral
-export const trackReferral = async (referrerId: number, referredId: number): Promise<void> => {
-  try {
-    const { error } = await supabase
-      .from('referral_tracking')
-      .insert({
-        referrer_id: referrerId,
-        referred_id: referredId,
-        referred_at: new Date().toISOString()
-      });
-
-    if (error) throw error;
-  } catch (error) {
-    console.error('Error tracking referral:', error);
-    throw error;
-  }
-};
-
-// Get user's referral statistics
-export const getReferralStats = async (userId: number): Promise<any> => {
-  try {
-    const { data, error } = await supabase
-      .from('referral_tracking')
-      .select('*')
-      .eq('referrer_id', userId);
-
-    if (error) throw error;
-
-    const activeReferrals = data?.filter(ref => ref.is_active) || [];
-    const totalEarned = activeReferrals.reduce((sum, ref) => sum + (ref.total_earned || 0), 0);
-
-    return {
-      totalReferrals: data?.length || 0,
-      activeReferrals: activeReferrals.length,
-      totalEarned: totalEarned,
-      referrals: data || []
-    };
-  } catch (error) {
-    console.error('Error getting referral stats:', error);
-    return {
-      totalReferrals: 0,
-      activeReferrals: 0,
-      totalEarned: 0,
-      referrals: []
-    };
-  }
-};
-
 export default {
   runMigrations,
   saveGameData,
@@ -405,7 +319,5 @@ export default {
   unlockAchievement,
   getUserAchievements,
   claimDailyReward,
-  getDailyRewardHistory,
-  trackReferral,
-  getReferralStats
+  getDailyRewardHistory
 }; 
\ No newline at end of file
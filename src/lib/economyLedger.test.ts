@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEconomyEntry, createPointsSyncQueue } from './economyLedger';
+
+interface SentEntry {
+  entry_type: string;
+  amount: number;
+  idempotency_key: string;
+}
+
+// Stand-in for record_economy_entries: all or nothing, rejecting a batch with any
+// entry reject() matches. Requests from the offlineFrom-th on fail to connect.
+const ledger = vi.hoisted(() => ({
+  recorded: [] as SentEntry[],
+  batches: [] as SentEntry[][],
+  reject: null as ((entry: SentEntry) => boolean) | null,
+  offlineFrom: Infinity
+}));
+
+vi.mock('@/lib/supabaseClient', () => ({
+  supabase: {
+    rpc: async (_name: string, { p_entries }: { p_entries: SentEntry[] }) => {
+      ledger.batches.push(p_entries);
+      if (ledger.batches.length >= ledger.offlineFrom) return { data: null, error: { code: '', message: 'Failed to fetch' } };
+      if (ledger.reject && p_entries.some(ledger.reject)) {
+        return { data: null, error: { code: 'P0001', message: 'Rule violation' } };
+      }
+      ledger.recorded.push(...p_entries);
+      const total = ledger.recorded.reduce((sum, entry) => sum + entry.amount, 0);
+      return { data: [{ divine_points: total, total_points_earned: total, gems: 0 }], error: null };
+    }
+  }
+}));
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value)
+});
+
+describe('createPointsSyncQueue', () => {
+  beforeEach(() => {
+    storage.clear();
+    ledger.recorded = [];
+    ledger.batches = [];
+    ledger.reject = null;
+    ledger.offlineFrom = Infinity;
+  });
+
+  it('sends mining since the baseline ahead of queued entries', async () => {
+    const queue = createPointsSyncQueue('queue');
+    queue.setBaseline(100);
+    queue.enqueue(createEconomyEntry('upgrade_purchase', -50, 'root-chakra'));
+
+    await queue.flush(150);
+
+    expect(ledger.batches).toHaveLength(1);
+    expect(ledger.recorded.map(entry => [entry.entry_type, entry.amount])).toEqual([
+      ['mine_tick', 100],
+      ['upgrade_purchase', -50]
+    ]);
+    expect(queue.getUnreported(150)).toBe(0);
+  });
+
+  it('drops only the entry the ledger rejects', async () => {
+    const queue = createPointsSyncQueue('queue');
+    queue.setBaseline(100);
+    queue.enqueue(createEconomyEntry('offline_claim', 5000));
+    queue.enqueue(createEconomyEntry('upgrade_purchase', -50, 'root-chakra'));
+    ledger.reject = entry => entry.entry_type === 'offline_claim';
+
+    const balances = await queue.flush(5110);
+
+    expect(ledger.recorded.map(entry => entry.entry_type)).toEqual(['mine_tick', 'upgrade_purchase']);
+    expect(balances?.divinePoints).toBe(10);
+    expect(queue.getUnreported(5110)).toBe(0);
+  });
+
+  it('keeps the unsent entries when the connection drops part way', async () => {
+    const queue = createPointsSyncQueue('queue');
+    queue.setBaseline(100);
+    const purchase = createEconomyEntry('upgrade_purchase', -50, 'root-chakra');
+    queue.enqueue(createEconomyEntry('offline_claim', 5000));
+    queue.enqueue(purchase);
+    ledger.reject = entry => entry.entry_type === 'offline_claim';
+
+    // The batch is rejected, the mine_tick and offline_claim are sent on their own,
+    // then the connection drops
+    ledger.offlineFrom = 4;
+    await queue.flush(5110);
+
+    expect(ledger.recorded.map(entry => entry.entry_type)).toEqual(['mine_tick']);
+    expect(queue.getUnreported(5110)).toBe(-50);
+
+    // Mining since then is measured from the points the server has seen
+    ledger.offlineFrom = Infinity;
+    await queue.flush(5120);
+
+    expect(ledger.recorded.map(entry => [entry.entry_type, entry.amount, entry.idempotency_key])).toEqual([
+      ['mine_tick', 60, expect.any(String)],
+      ['mine_tick', 10, expect.any(String)],
+      ['upgrade_purchase', -50, purchase.idempotencyKey]
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+import { supabase } from './supabaseClient';
+
+// Mirrors economy_rules in ECONOMY_LEDGER.sql. gem_grant, task_reward, referral_bonus
+// and opening_balance are written by the server only.
+export type EconomyEntryType =
+  | 'mine_tick'
+  | 'upgrade_purchase'
+  | 'gem_grant'
+  | 'task_reward'
+  | 'referral_bonus'
+  | 'offline_claim';
+
+export type EconomyCurrency = 'divine_points' | 'gems';
+
+export interface EconomyEntry {
+  entryType: EconomyEntryType;
+  amount: number; // Signed: spending is negative
+  reference?: string; // Upgrade id, task id, gem source...
+  metadata?: Record<string, unknown>;
+  idempotencyKey: string;
+}
+
+export interface EconomyBalances {
+  divinePoints: number;
+  totalPointsEarned: number;
+  gems: number;
+}
+
+export interface EconomyLedgerRow {
+  id: number;
+  entry_type: EconomyEntryType | 'opening_balance';
+  currency: EconomyCurrency;
+  amount: number;
+  reference: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+// RAISE EXCEPTION in record_economy_entries: an entry broke a rule and won't succeed on retry
+const RULE_VIOLATION_CODE = 'P0001';
+
+const isRuleViolation = (error: unknown): boolean => (error as { code?: string })?.code === RULE_VIOLATION_CODE;
+
+const generateIdempotencyKey = (): string => {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+// The ledger stores NUMERIC(24, 6)
+const roundAmount = (amount: number): number => Math.round(amount * 1e6) / 1e6;
+
+export const createEconomyEntry = (
+  entryType: EconomyEntryType,
+  amount: number,
+  reference?: string,
+  metadata?: Record<string, unknown>
+): EconomyEntry => ({
+  entryType,
+  amount: roundAmount(amount),
+  reference,
+  metadata,
+  idempotencyKey: generateIdempotencyKey()
+});
+
+export const economyLedger = {
+  // Returns the balances after the batch, or throws the Supabase error
+  async recordEntries(entries: EconomyEntry[]): Promise<EconomyBalances | null> {
+    if (entries.length === 0) return null;
+
+    const { data, error } = await supabase.rpc('record_economy_entries', {
+      p_entries: entries.map(entry => ({
+        entry_type: entry.entryType,
+        amount: entry.amount,
+        reference: entry.reference ?? null,
+        idempotency_key: entry.idempotencyKey,
+        metadata: entry.metadata ?? {}
+      }))
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    return {
+      divinePoints: Number(row.divine_points),
+      totalPointsEarned: Number(row.total_points_earned),
+      gems: Number(row.gems)
+    };
+  },
+
+  async getBalances(userId: number): Promise<EconomyBalances | null> {
+    try {
+      const { data, error } = await supabase
+        .from('user_economy_balances')
+        .select('divine_points, total_points_earned, gems')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        divinePoints: Number(data.divine_points),
+        totalPointsEarned: Number(data.total_points_earned),
+        gems: Number(data.gems)
+      };
+    } catch (error) {
+      console.error('Error fetching economy balances:', error);
+      return null;
+    }
+  },
+
+  async getRecentEntries(userId: number, currency?: EconomyCurrency, limit = 100): Promise<EconomyLedgerRow[]> {
+    try {
+      let query = supabase
+        .from('economy_ledger')
+        .select('id, entry_type, currency, amount, reference, metadata, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (currency) {
+        query = query.eq('currency', currency);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching economy ledger entries:', error);
+      return [];
+    }
+  }
+};
+
+export interface PointsSyncQueue {
+  hasBaseline: () => boolean;
+  getUnreported: (balance: number) => number;
+  setBaseline: (balance: number) => void;
+  adjustBaseline: (delta: number) => void;
+  enqueue: (entry: EconomyEntry) => void;
+  flush: (balance: number) => Promise<EconomyBalances | null>;
+}
+
+interface PointsSyncQueueState {
+  baseline: number | null; // divinePoints at the last successful flush
+  pending: EconomyEntry[];
+}
+
+/**
+ * Collects divinePoints entries between syncs. Purchases and claims are queued
+ * explicitly; whatever else the balance gained since the last flush is sent as a
+ * single mine_tick, so mining doesn't need an entry per tick. Mining is the only
+ * other way the balance grows on the client: rewards are paid by the server, and
+ * the ledger caps mine_tick at the player's mining rate. State is kept in
+ * localStorage so unsent entries survive a reload.
+ */
+export const createPointsSyncQueue = (storageKey: string): PointsSyncQueue => {
+  const load = (): PointsSyncQueueState => {
+    try {
+      const saved = localStorage.getItem(storageKey);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        return {
+          baseline: typeof parsed.baseline === 'number' ? parsed.baseline : null,
+          pending: Array.isArray(parsed.pending) ? parsed.pending : []
+        };
+      }
+    } catch (error) {
+      console.error('Error loading economy sync queue:', error);
+    }
+    return { baseline: null, pending: [] };
+  };
+
+  let state = load();
+
+  const persist = () => {
+    localStorage.setItem(storageKey, JSON.stringify(state));
+  };
+
+  return {
+    hasBaseline: () => state.baseline !== null,
+
+    // Balance change the server hasn't seen yet: queued entries plus mining since the last flush
+    getUnreported: (balance: number) => (state.baseline === null ? 0 : balance - state.baseline),
+
+    setBaseline(balance: number) {
+      state = { ...state, baseline: balance };
+      persist();
+    },
+
+    // Balance changes that were recorded elsewhere, e.g. progress merged from another device
+    adjustBaseline(delta: number) {
+      if (state.baseline === null || delta === 0) return;
+      state = { ...state, baseline: state.baseline + delta };
+      persist();
+    },
+
+    enqueue(entry: EconomyEntry) {
+      state = { ...state, pending: [...state.pending, entry] };
+      persist();
+    },
+
+    async flush(balance: number) {
+      if (state.baseline === null) return null;
+
+      const pending = state.pending;
+      const queuedTotal = pending.reduce((sum, entry) => sum + entry.amount, 0);
+      const mined = roundAmount(balance - state.baseline - queuedTotal);
+
+      // Mining goes first so purchases it funded pass the balance check
+      const entries = mined > 0
+        ? [createEconomyEntry('mine_tick', mined), ...pending]
+        : pending;
+
+      // Queued entries in unsent stay pending, along with any enqueued during the request
+      const settle = (unsent: EconomyEntry[] = []) => {
+        const unsentTotal = unsent.reduce((sum, entry) => sum + entry.amount, 0);
+        state = { baseline: balance - unsentTotal, pending: [...unsent, ...state.pending.slice(pending.length)] };
+        persist();
+      };
+
+      try {
+        const balances = await economyLedger.recordEntries(entries);
+        settle();
+        return balances;
+      } catch (error) {
+        if (!isRuleViolation(error)) {
+          console.error('Error recording economy entries:', error);
+          return null;
+        }
+        if (entries.length === 1) {
+          // Retrying won't help; the server balance stays authoritative
+          console.error('Economy entry rejected:', error, entries[0]);
+          settle();
+          return null;
+        }
+      }
+
+      // The batch is all or nothing, so send the entries one at a time and drop
+      // only the ones that break a rule
+      let balances: EconomyBalances | null = null;
+      for (const [index, entry] of entries.entries()) {
+        try {
+          balances = (await economyLedger.recordEntries([entry])) ?? balances;
+        } catch (error) {
+          if (isRuleViolation(error)) {
+            console.error('Economy entry rejected:', error, entry);
+            continue;
+          }
+
+          console.error('Error recording economy entries:', error);
+          // Nothing was recorded yet; the next flush sends the batch again
+          if (index === 0) return null;
+          settle(entries.slice(index));
+          return balances;
+        }
+      }
+
+      settle();
+      return balances;
+    }
+  };
+};
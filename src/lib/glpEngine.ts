@@ -0,0 +1,262 @@
+import { supabase } from "./supabaseClient";
+
+// Global Leadership Pool epochs are snapshotted and paid by the server
+// (GLP_DISTRIBUTION.sql); this module reads the sealed reports and lets anyone
+// check them against their Merkle root.
+
+const NANO_PER_TON = 1_000_000_000;
+
+export type GlpEpochStatus = 'snapshotted' | 'paid';
+
+export interface GlpEpoch {
+  id: number;
+  epochStart: string;
+  epochEnd: string;
+  topLimit: number;
+  minTeamVolume: number;
+  poolNano: number;
+  distributedNano: number;
+  totalPoints: number;
+  participantCount: number;
+  merkleRoot: string | null;
+  status: GlpEpochStatus;
+  paidAt: string | null;
+}
+
+export interface GlpShare {
+  epochId: number;
+  userId: number;
+  username: string | null;
+  teamVolume: number;
+  withdrawalVolume: number;
+  points: number;
+  amountNano: number;
+  amount: number;
+  leafHash: string;
+}
+
+export interface GlpShareVerification {
+  epoch: GlpEpoch;
+  share: GlpShare | null; // null if the player had no share that epoch
+  proof: string[];
+  computedRoot: string | null;
+  rootMatches: boolean; // Every published share hashes to the published root
+  leafMatches: boolean; // The player's share hashes to its published leaf
+  amountMatches: boolean; // The player's amount is their points' part of the pool
+  verified: boolean;
+}
+
+interface GlpEpochRow {
+  id: number;
+  epoch_start: string;
+  epoch_end: string;
+  top_limit: number;
+  min_team_volume: number;
+  pool_nano: number;
+  distributed_nano: number;
+  total_points: number;
+  participant_count: number;
+  merkle_root: string | null;
+  status: GlpEpochStatus;
+  paid_at: string | null;
+}
+
+interface GlpShareRow {
+  epoch_id: number;
+  user_id: number;
+  username: string | null;
+  team_volume: number | null;
+  withdrawal_volume: number | null;
+  points: number;
+  amount_nano: number;
+  amount: number | null;
+  leaf_hash: string;
+}
+
+// Mirrors the scoring in snapshot_glp_epoch: 1 point per 1000 TON of team
+// volume, 2% of the downline's withdrawals per 100 TON, plus volume bonuses
+export const calculateGLPPoints = (teamVolume: number, withdrawalVolume: number): number => {
+  const volumePoints = Math.floor(teamVolume / 1000);
+  const withdrawalPoints = Math.floor((withdrawalVolume * 0.02) / 100);
+
+  let bonusPoints = 0;
+  if (teamVolume >= 10000) bonusPoints += 20;
+  if (teamVolume >= 50000) bonusPoints += 50;
+  if (teamVolume >= 100000) bonusPoints += 100;
+
+  return volumePoints + withdrawalPoints + bonusPoints;
+};
+
+export const nanoToTon = (nano: number): number => nano / NANO_PER_TON;
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const hashPair = (a: string, b: string) => sha256Hex(a < b ? a + b : b + a);
+
+export const hashGlpLeaf = (share: Pick<GlpShare, 'epochId' | 'userId' | 'points' | 'amountNano'>): Promise<string> =>
+  sha256Hex(`${share.epochId}:${share.userId}:${share.points}:${share.amountNano}`);
+
+// Every level of the tree, leaves first. Same shape as glp_merkle_root: pairs
+// are hashed smaller digest first and an odd node moves up unchanged.
+export const buildMerkleTree = async (leaves: string[]): Promise<string[][]> => {
+  const levels = [leaves];
+
+  while (levels[levels.length - 1].length > 1) {
+    const nodes = levels[levels.length - 1];
+    const parents: string[] = [];
+    for (let i = 0; i < nodes.length; i += 2) {
+      parents.push(i + 1 < nodes.length ? await hashPair(nodes[i], nodes[i + 1]) : nodes[i]);
+    }
+    levels.push(parents);
+  }
+
+  return levels;
+};
+
+export const getMerkleRoot = (levels: string[][]): string | null => levels[levels.length - 1][0] ?? null;
+
+// Sibling hashes from the leaf up to the root
+export const getMerkleProof = (levels: string[][], index: number): string[] => {
+  const proof: string[] = [];
+  let position = index;
+
+  for (const nodes of levels.slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < nodes.length) proof.push(nodes[sibling]);
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+};
+
+export const verifyMerkleProof = async (leaf: string, proof: string[], root: string): Promise<boolean> => {
+  let hash = leaf;
+  for (const sibling of proof) {
+    hash = await hashPair(hash, sibling);
+  }
+  return hash === root;
+};
+
+const toEpoch = (row: GlpEpochRow): GlpEpoch => ({
+  id: Number(row.id),
+  epochStart: row.epoch_start,
+  epochEnd: row.epoch_end,
+  topLimit: Number(row.top_limit),
+  minTeamVolume: Number(row.min_team_volume),
+  poolNano: Number(row.pool_nano),
+  distributedNano: Number(row.distributed_nano),
+  totalPoints: Number(row.total_points),
+  participantCount: Number(row.participant_count),
+  merkleRoot: row.merkle_root,
+  status: row.status,
+  paidAt: row.paid_at
+});
+
+const toShare = (row: GlpShareRow): GlpShare => ({
+  epochId: Number(row.epoch_id),
+  userId: Number(row.user_id),
+  username: row.username,
+  teamVolume: Number(row.team_volume) || 0,
+  withdrawalVolume: Number(row.withdrawal_volume) || 0,
+  points: Number(row.points),
+  amountNano: Number(row.amount_nano),
+  amount: Number(row.amount) || 0,
+  leafHash: row.leaf_hash
+});
+
+export const glpEngine = {
+  async getEpochs(limit = 10): Promise<GlpEpoch[]> {
+    const { data, error } = await supabase
+      .from('glp_epochs')
+      .select('*')
+      .order('epoch_end', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toEpoch);
+  },
+
+  async getLatestEpoch(): Promise<GlpEpoch | null> {
+    const [epoch] = await glpEngine.getEpochs(1);
+    return epoch ?? null;
+  },
+
+  async getEpoch(epochId: number): Promise<GlpEpoch | null> {
+    const { data, error } = await supabase
+      .from('glp_epochs')
+      .select('*')
+      .eq('id', epochId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toEpoch(data) : null;
+  },
+
+  // Leaf order, which is also the order the tree is built in
+  async getEpochShares(epochId: number): Promise<GlpShare[]> {
+    const { data, error } = await supabase
+      .from('glp_epoch_shares')
+      .select('*')
+      .eq('epoch_id', epochId)
+      .order('user_id', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toShare);
+  },
+
+  async getUserShares(userId: number, limit = 10): Promise<GlpShare[]> {
+    const { data, error } = await supabase
+      .from('glp_epoch_shares')
+      .select('*')
+      .eq('user_id', userId)
+      .order('epoch_id', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toShare);
+  },
+
+  /**
+   * Rebuild the epoch's tree from its published shares and check it against the
+   * sealed root, then check the player's own leaf, proof and amount.
+   */
+  async verifyShare(epochId: number, userId: number): Promise<GlpShareVerification> {
+    const [epoch, shares] = await Promise.all([glpEngine.getEpoch(epochId), glpEngine.getEpochShares(epochId)]);
+    if (!epoch) throw new Error(`GLP epoch ${epochId} not found`);
+
+    const leaves = await Promise.all(shares.map(hashGlpLeaf));
+    const levels = await buildMerkleTree(leaves);
+    const computedRoot = getMerkleRoot(levels);
+    const rootMatches =
+      computedRoot === epoch.merkleRoot &&
+      shares.length === epoch.participantCount &&
+      shares.reduce((sum, share) => sum + share.points, 0) === epoch.totalPoints;
+
+    const index = shares.findIndex(share => share.userId === userId);
+    const share = index >= 0 ? shares[index] : null;
+    const proof = share ? getMerkleProof(levels, index) : [];
+
+    const leafMatches =
+      !!share && !!epoch.merkleRoot && leaves[index] === share.leafHash &&
+      (await verifyMerkleProof(leaves[index], proof, epoch.merkleRoot));
+
+    // Integer division in nanoTON, as the snapshot does
+    const amountMatches =
+      !!share && epoch.totalPoints > 0 &&
+      BigInt(share.amountNano) === (BigInt(epoch.poolNano) * BigInt(share.points)) / BigInt(epoch.totalPoints);
+
+    return {
+      epoch,
+      share,
+      proof,
+      computedRoot,
+      rootMatches,
+      leafMatches,
+      amountMatches,
+      verified: rootMatches && leafMatches && amountMatches
+    };
+  }
+};
@@ -1,49 +1,59 @@
 import { supabase } from "./supabaseClient";
 
+// Lowest first. The server ranks players from rank_definitions (RANK_ENGINE.sql);
+// keep the two in step.
 export const RANK_REQUIREMENTS = {
   AMBASSADOR: {
+    title: 'Ambassador',
     minDirects: 3,
     minStake: 20,
     minTeamVolume: 500,
     weeklyBonus: 15
   },
   TON_WARRIOR: {
+    title: 'TON Warrior',
     minDirects: 5,
     minStake: 50,
     minTeamVolume: 1000,
     weeklyBonus: 25
   },
   TON_MASTER: {
+    title: 'TON Master',
     minDirects: 10,
     minStake: 100,
     minTeamVolume: 5000,
     weeklyBonus: 100
   },
   CRYPTO_MOGUL: {
+    title: 'Crypto Mogul',
     minDirects: 10,
     minStake: 500,
     minTeamVolume: 20000,
     weeklyBonus: 250
   },
   TON_BARON: {
+    title: 'TON Baron',
     minDirects: 10,
     minStake: 2000,
     minTeamVolume: 100000,
     weeklyBonus: 1000
   },
   BLOCKCHAIN_TYCOON: {
+    title: 'Blockchain Tycoon',
     minDirects: 10,
     minStake: 5000,
     minTeamVolume: 250000,
     weeklyBonus: 3000
   },
   TON_ELITE: {
+    title: 'TON Elite',
     minDirects: 10,
     minStake: 10000,
     minTeamVolume: 500000,
     weeklyBonus: 5000
   },
   TON_BOSS: {
+    title: 'TON Boss',
     minDirects: 10,
     minStake: 15000,
     minTeamVolume: 1000000,
@@ -51,72 +61,150 @@ export const RANK_REQUIREMENTS = {
   }
 };
 
-type RankType = keyof typeof RANK_REQUIREMENTS;
+export type RankType = keyof typeof RANK_REQUIREMENTS;
+export type UserRank = RankType | 'NONE';
 
-interface RankedUser {
-  id: number;
-  rank: RankType;
-  team_volume: number;
+const RANK_ORDER = Object.keys(RANK_REQUIREMENTS) as RankType[];
+
+// What the thresholds are checked against: direct_referrals, total_deposit, team_volume
+export interface RankMetrics {
+  directReferrals: number;
+  totalDeposit: number;
+  teamVolume: number;
+}
+
+export interface RankThresholdProgress {
+  label: string;
+  current: number;
+  required: number;
+  percent: number; // 0-100
+}
+
+export interface RankProgress {
+  rank: UserRank;
+  nextRank: RankType | null;
+  thresholds: RankThresholdProgress[]; // Empty at the top rank
+}
+
+export interface RankChange {
+  fromRank: string;
+  toRank: string;
+  direction: 'promotion' | 'demotion';
+  createdAt: string;
 }
 
+export interface RankBonus {
+  rank: string;
+  amount: number;
+  status: string;
+  weekStart: string | null;
+  settledAt: string | null;
+}
+
+const isRank = (rank: string | null | undefined): rank is RankType =>
+  !!rank && rank in RANK_REQUIREMENTS;
+
+// Older signups were stored as 'None' or 'Novice'; both are unranked
+export const toUserRank = (rank: string | null | undefined): UserRank => (isRank(rank) ? rank : 'NONE');
+
+export const getRankTitle = (rank: string | null | undefined): string =>
+  isRank(rank) ? RANK_REQUIREMENTS[rank].title : 'Unranked';
+
+// Highest rank whose thresholds are all met
+export const getQualifiedRank = (metrics: RankMetrics): UserRank => {
+  for (const rank of [...RANK_ORDER].reverse()) {
+    const requirements = RANK_REQUIREMENTS[rank];
+    if (
+      metrics.directReferrals >= requirements.minDirects &&
+      metrics.totalDeposit >= requirements.minStake &&
+      metrics.teamVolume >= requirements.minTeamVolume
+    ) {
+      return rank;
+    }
+  }
+  return 'NONE';
+};
+
+export const getNextRank = (rank: UserRank): RankType | null =>
+  RANK_ORDER[rank === 'NONE' ? 0 : RANK_ORDER.indexOf(rank) + 1] ?? null;
+
+const toThreshold = (label: string, current: number, required: number): RankThresholdProgress => ({
+  label,
+  current,
+  required,
+  percent: required > 0 ? Math.min(100, (current / required) * 100) : 100
+});
+
+export const getRankProgress = (rank: UserRank, metrics: RankMetrics): RankProgress => {
+  const nextRank = getNextRank(rank);
+  if (!nextRank) return { rank, nextRank, thresholds: [] };
+
+  const requirements = RANK_REQUIREMENTS[nextRank];
+  return {
+    rank,
+    nextRank,
+    thresholds: [
+      toThreshold('Direct referrals', metrics.directReferrals, requirements.minDirects),
+      toThreshold('Total deposit', metrics.totalDeposit, requirements.minStake),
+      toThreshold('Team volume', metrics.teamVolume, requirements.minTeamVolume)
+    ]
+  };
+};
+
 export const rankSystem = {
-  async calculateRank(userId: number): Promise<string> {
-    const { data: user } = await supabase
+  // Stored rank plus the metrics it was computed from
+  async getStanding(userId: number): Promise<{ rank: UserRank; metrics: RankMetrics } | null> {
+    const { data: user, error } = await supabase
       .from('users')
-      .select(`
-        direct_referrals,
-        total_deposit,
-        team_volume,
-        rank
-      `)
+      .select('direct_referrals, total_deposit, team_volume, rank')
       .eq('id', userId)
-      .single();
-
-    if (!user) return 'NONE';
-
-    // Check ranks from highest to lowest
-    for (const [rank, requirements] of Object.entries(RANK_REQUIREMENTS).reverse()) {
-      if (
-        user.direct_referrals >= requirements.minDirects &&
-        user.total_deposit >= requirements.minStake &&
-        user.team_volume >= requirements.minTeamVolume
-      ) {
-        return rank;
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!user) return null;
+
+    return {
+      rank: toUserRank(user.rank),
+      metrics: {
+        directReferrals: Number(user.direct_referrals) || 0,
+        totalDeposit: Number(user.total_deposit) || 0,
+        teamVolume: Number(user.team_volume) || 0
       }
-    }
+    };
+  },
 
-    return 'NONE';
+  async getHistory(userId: number, limit = 20): Promise<RankChange[]> {
+    const { data, error } = await supabase
+      .from('rank_history')
+      .select('from_rank, to_rank, direction, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      fromRank: row.from_rank,
+      toRank: row.to_rank,
+      direction: row.direction,
+      createdAt: row.created_at
+    }));
   },
 
-  async processWeeklyBonuses(): Promise<void> {
-    try {
-      // Get all ranked users
-      const { data: rankedUsers } = await supabase
-        .from('users')
-        .select('id, rank, team_volume')
-        .neq('rank', 'NONE');
-
-      if (!rankedUsers) return;
-
-      for (const user of rankedUsers as RankedUser[]) {
-        const requirements = RANK_REQUIREMENTS[user.rank];
-        
-        // Verify minimum team volume is maintained
-        if (user.team_volume >= requirements.minTeamVolume) {
-          // Create bonus transaction
-          await supabase
-            .from('rank_bonuses')
-            .insert({
-              user_id: user.id,
-              rank: user.rank,
-              amount: requirements.weeklyBonus,
-              status: 'pending',
-              created_at: new Date().toISOString()
-            });
-        }
-      }
-    } catch (error) {
-      console.error('Weekly bonus processing failed:', error);
-    }
+  async getBonuses(userId: number, limit = 20): Promise<RankBonus[]> {
+    const { data, error } = await supabase
+      .from('rank_bonuses')
+      .select('rank, amount, status, week_start, settled_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      rank: row.rank,
+      amount: Number(row.amount) || 0,
+      status: row.status,
+      weekStart: row.week_start,
+      settledAt: row.settled_at
+    }));
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,278 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { attributeReferral } from './referralVerification';
+import type { ReferralAttribution } from './referralVerification';
+
+// Payout rates per upline level; the server reads them from referral_levels (REFERRAL_SERVICE.sql)
+// and caps each level per day in referral_payout_caps (REFERRAL_PAYOUTS.sql)
+export const REFERRAL_CONFIG = {
+  MAX_LEVEL: 5,
+  REWARDS: {
+    1: 0.10,
+    2: 0.05,
+    3: 0.03,
+    4: 0.02,
+    5: 0.01
+  } as Record<number, number>,
+  // Paid by attribute_referral once the referred player passes the activity check
+  WELCOME_BONUS: 1000,
+  REFERRER_BONUS: 500
+};
+
+const REFERRAL_CODE_PATTERN = /^DIVINE(\d{6})[A-Z0-9]{4}$/i;
+const BOT_APP_URL = 'https://t.me/DivineTaps_bot/mine';
+
+export interface ReferralMember {
+  id: number;
+  username: string;
+  telegramId: string | null;
+  rank: string;
+  totalEarned: number;
+  isActive: boolean;
+  joinedAt: number;
+  directReferrals: number;
+  level: number; // Distance from the player the network was loaded for
+}
+
+export interface ReferralStats {
+  directReferrals: number;
+  activeReferrals: number;
+  networkSize: number;
+  membersByLevel: Record<number, number>;
+  earned: number;
+  pending: number; // Held until the referred player passes the activity check
+  teamVolume: number;
+}
+
+// Source events that pay the upline; deposits pay TON, validated saves pay points
+export type ReferralPayoutSource = 'deposit' | 'save';
+export type ReferralPayoutCurrency = 'ton' | 'divine_points';
+
+export interface ReferralPayoutTotals {
+  currency: ReferralPayoutCurrency;
+  pending: number;
+  settled: number;
+  reversed: number;
+}
+
+export interface ReferralAnalytics {
+  totalAttempts: number;
+  successfulReferrals: number;
+  failedAttempts: number;
+  conversionRate: number;
+  referralsByDay: Array<{ date: string; count: number }>;
+}
+
+interface ChainMemberRow {
+  level: number;
+  created_at: string;
+  member: {
+    id: number;
+    username: string | null;
+    telegram_id: string | number | null;
+    rank: string | null;
+    total_earned: number | null;
+    is_active: boolean | null;
+    direct_referrals: number | null;
+    created_at: string;
+  } | null;
+}
+
+// Static per user: DIVINE + zero-padded id + a checksum suffix (same as the telegram-auth function)
+export const getReferralCode = (userId: number): string => {
+  const suffix = userId.toString().split('').reduce((acc, char) => {
+    return ((acc << 5) - acc + char.charCodeAt(0)) & 0xFFFF;
+  }, 0);
+  return `DIVINE${userId.toString().padStart(6, '0')}${suffix.toString(36).toUpperCase().padStart(4, '0')}`;
+};
+
+// Referrer id behind a code, or null if it isn't one of ours
+export const parseReferralCode = (code: string): number | null => {
+  const match = code.trim().match(REFERRAL_CODE_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+export const getReferralLink = (code: string) => `${BOT_APP_URL}?startapp=${code}`;
+
+const SELECT_MEMBER = 'id, username, telegram_id, rank, total_earned, is_active, direct_referrals, created_at';
+
+const toMember = (row: ChainMemberRow): ReferralMember | null => {
+  if (!row.member) return null;
+  return {
+    id: row.member.id,
+    username: row.member.username || `User_${row.member.telegram_id ?? row.member.id}`,
+    telegramId: row.member.telegram_id !== null ? String(row.member.telegram_id) : null,
+    rank: row.member.rank || 'Novice',
+    totalEarned: Number(row.member.total_earned) || 0,
+    isActive: row.member.is_active ?? false,
+    joinedAt: new Date(row.member.created_at).getTime(),
+    directReferrals: row.member.direct_referrals || 0,
+    level: row.level
+  };
+};
+
+export const referralService = {
+  // Attach the signed-in player to the code's owner; see attribute_referral
+  attach(code: string): Promise<ReferralAttribution> {
+    return attributeReferral(code);
+  },
+
+  // The player's stored code. telegram-auth saves it when the row is created; older
+  // rows without one get the same code derived from their id.
+  async getCode(userId: number): Promise<string> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('referral_code')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return data.referral_code || getReferralCode(userId);
+  },
+
+  async findReferrer(code: string): Promise<{ id: number; username: string } | null> {
+    const referrerId = parseReferralCode(code);
+    if (referrerId === null) return null;
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, username')
+      .eq('id', referrerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Referrers above the player, nearest first
+  async getUpline(userId: number): Promise<ReferralMember[]> {
+    const { data, error } = await supabase
+      .from('referral_chain')
+      .select(`level, created_at, member:users!referrer_id(${SELECT_MEMBER})`)
+      .eq('user_id', userId)
+      .order('level', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as unknown as ChainMemberRow[])
+      .map(toMember)
+      .filter((member): member is ReferralMember => member !== null);
+  },
+
+  // Everyone below the player up to MAX_LEVEL, newest first within each level
+  async getDownline(userId: number, maxLevel = REFERRAL_CONFIG.MAX_LEVEL): Promise<ReferralMember[]> {
+    const { data, error } = await supabase
+      .from('referral_chain')
+      .select(`level, created_at, member:users!user_id(${SELECT_MEMBER})`)
+      .eq('referrer_id', userId)
+      .lte('level', maxLevel)
+      .order('level', { ascending: true })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as unknown as ChainMemberRow[])
+      .map(row => {
+        const member = toMember(row);
+        // Joined the network when the link was made, not when the account was created
+        return member && { ...member, joinedAt: new Date(row.created_at).getTime() };
+      })
+      .filter((member): member is ReferralMember => member !== null);
+  },
+
+  async getStats(): Promise<ReferralStats> {
+    const { data, error } = await supabase.rpc('get_referral_stats');
+    if (error) throw error;
+
+    const levels = (data?.levels || {}) as Record<string, number>;
+    return {
+      directReferrals: Number(data?.direct_referrals) || 0,
+      activeReferrals: Number(data?.active_referrals) || 0,
+      networkSize: Number(data?.network_size) || 0,
+      membersByLevel: Object.fromEntries(Object.entries(levels).map(([level, count]) => [Number(level), Number(count)])),
+      earned: Number(data?.earned) || 0,
+      pending: Number(data?.pending) || 0,
+      teamVolume: Number(data?.team_volume) || 0
+    };
+  },
+
+  async getAnalytics(days = 14): Promise<ReferralAnalytics> {
+    const { data, error } = await supabase.rpc('get_referral_analytics', { p_days: days });
+    if (error) throw error;
+
+    const totalAttempts = Number(data?.total_attempts) || 0;
+    const successfulReferrals = Number(data?.successful) || 0;
+    return {
+      totalAttempts,
+      successfulReferrals,
+      failedAttempts: totalAttempts - successfulReferrals,
+      conversionRate: totalAttempts > 0 ? (successfulReferrals / totalAttempts) * 100 : 0,
+      referralsByDay: ((data?.by_day || []) as Array<{ date: string; count: number }>)
+        .map(day => ({ date: day.date, count: Number(day.count) }))
+    };
+  },
+
+  // What each downline member has paid the signed-in player, keyed by member id
+  async getPayoutTotals(): Promise<Record<number, ReferralPayoutTotals[]>> {
+    const { data, error } = await supabase.rpc('get_referral_payout_totals');
+    if (error) throw error;
+
+    const totals: Record<number, ReferralPayoutTotals[]> = {};
+    for (const row of (data || []) as Array<ReferralPayoutTotals & { member_id: number }>) {
+      totals[row.member_id] = [...(totals[row.member_id] || []), {
+        currency: row.currency,
+        pending: Number(row.pending) || 0,
+        settled: Number(row.settled) || 0,
+        reversed: Number(row.reversed) || 0
+      }];
+    }
+    return totals;
+  },
+
+  // Service role only: hold the upline's share of a source event; replaying the same event pays nothing
+  async recordPayouts(
+    source: ReferralPayoutSource,
+    sourceId: string,
+    userId: number,
+    amount: number,
+    db: SupabaseClient = supabase
+  ): Promise<number> {
+    const { data, error } = await db.rpc('record_referral_payouts', {
+      p_source_type: source,
+      p_source_id: sourceId,
+      p_user_id: userId,
+      p_amount: amount
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  },
+
+  // Service role only: credit payouts whose hold is over
+  async settlePayouts(db: SupabaseClient = supabase, limit = 500): Promise<number> {
+    const { data, error } = await db.rpc('settle_referral_payouts', { p_limit: limit });
+    if (error) throw error;
+    return Number(data) || 0;
+  },
+
+  // Service role only: cancel an invalidated event's payouts, clawing back any already settled
+  async reversePayouts(source: ReferralPayoutSource, sourceId: string, reason: string): Promise<number> {
+    const { data, error } = await supabase.rpc('reverse_referral_payouts', {
+      p_source_type: source,
+      p_source_id: sourceId,
+      p_reason: reason
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  },
+
+  // Service role only: add a deposit to the team volume of the whole upline
+  async addTeamVolume(userId: number, amount: number): Promise<number> {
+    const { data, error } = await supabase.rpc('add_team_volume', {
+      p_user_id: userId,
+      p_amount: amount
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  }
+};
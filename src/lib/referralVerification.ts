@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+export type ReferralAttemptStatus = 'success' | 'failed' | 'invalid' | 'duplicate' | 'self_referral';
+
+// Outcome of attribute_referral; rewards stay pending_verification until the new player is active
+export interface ReferralAttribution {
+  status: ReferralAttemptStatus;
+  reason: string;
+  referrer_username?: string;
+}
+
+export interface ReferralRiskSignals {
+  account_age_days: number | null;
+  is_premium: boolean;
+  referrals_last_hour: number;
+  referrals_last_day: number;
+  shares_referrer_chat: boolean;
+  chat_siblings: number;
+}
+
+export interface ReferralReviewItem {
+  attempt_id: number;
+  created_at: string;
+  risk_score: number;
+  risk_signals: ReferralRiskSignals;
+  referred_id: number;
+  referred_username: string | null;
+  referred_telegram_id: string | null;
+  referrer_id: number;
+  referrer_username: string | null;
+  held_amount: number;
+}
+
+export interface ReferralReleaseSummary {
+  released: number;
+  expired: number;
+}
+
+// Attach the signed-in player to the referrer behind the code; scored and logged server-side
+export const attributeReferral = async (code: string): Promise<ReferralAttribution> => {
+  const { data, error } = await supabase.rpc('attribute_referral', { p_code: code });
+  if (error) throw error;
+  return data as ReferralAttribution;
+};
+
+// Service role only: high-risk attempts waiting for a decision, and the reward release run
+export const referralReview = {
+  async getQueue(limit = 50): Promise<ReferralReviewItem[]> {
+    const { data, error } = await supabase
+      .from('referral_review_queue')
+      .select('*')
+      .order('risk_score', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ReferralReviewItem[];
+  },
+
+  async resolve(attemptId: number, approve: boolean, note?: string): Promise<void> {
+    const { error } = await supabase.rpc('review_referral_attempt', {
+      p_attempt_id: attemptId,
+      p_approve: approve,
+      p_note: note ?? null
+    });
+
+    if (error) throw error;
+  },
+
+  // Service role only: pass the cron job's client
+  async releaseVerifiedRewards(db: SupabaseClient = supabase): Promise<ReferralReleaseSummary> {
+    const { data, error } = await db.rpc('release_verified_referral_rewards');
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as ReferralReleaseSummary | null;
+    return { released: Number(row?.released) || 0, expired: Number(row?.expired) || 0 };
+  }
+};
@@ -0,0 +1,217 @@
+import { supabase } from "./supabaseClient";
+import { MINING_BOOST } from '@/game/engine';
+import type { ActiveBoost } from '@/game/engine';
+
+// Seasons and their rewards (SEASON_REWARDS.sql). Standings are kept on the
+// server from the economy ledger; the seasonClose cron job fixes the final
+// ranks and rewards, and players collect them with claimReward.
+
+export type SeasonStatus = 'upcoming' | 'running' | 'closing' | 'closed';
+
+export interface SeasonSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  startsAt: number; // Unix ms
+  endsAt: number;
+  closedAt: number | null;
+  participantCount: number;
+  pointsEarned: number; // The player's, inside the season window
+  rank: number | null; // Live while running, final once closed
+  reward: SeasonReward | null; // Set once the season closed with the player in a bracket
+  claimedAt: number | null;
+  stkPaid: number | null;
+  boostExpiresAt: number | null;
+}
+
+export interface SeasonReward {
+  tierLabel: string;
+  gems: number;
+  stk: number;
+  boostMultiplier: number | null; // Mining rate, e.g. 1.5 for +50%
+  boostHours: number | null;
+}
+
+export interface SeasonRewardTier extends SeasonReward {
+  id: number;
+  seasonId: number;
+  tierOrder: number;
+  maxRank: number | null;
+  topPercent: number | null;
+}
+
+export interface SeasonLeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  pointsEarned: number;
+  tierLabel: string | null;
+}
+
+interface SeasonSummaryRow {
+  season_id: number;
+  name: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string;
+  closed_at: string | null;
+  participant_count: number | null;
+  points_earned: number;
+  rank: number | null;
+  tier_label: string | null;
+  reward_gems: number;
+  reward_stk: number;
+  boost_multiplier: number | null;
+  boost_hours: number | null;
+  claimed_at: string | null;
+  stk_paid: number | null;
+  boost_expires_at: string | null;
+}
+
+interface SeasonRewardTierRow {
+  id: number;
+  season_id: number;
+  tier_order: number;
+  label: string;
+  max_rank: number | null;
+  top_percent: number | null;
+  reward_gems: number;
+  reward_stk: number;
+  boost_multiplier: number | null;
+  boost_hours: number | null;
+}
+
+interface SeasonLeaderboardRow {
+  rank: number;
+  user_id: number;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  points_earned: number;
+  tier_label: string | null;
+}
+
+const toTime = (value: string | null) => (value ? new Date(value).getTime() : null);
+
+const toSeasonSummary = (row: SeasonSummaryRow): SeasonSummary => ({
+  id: row.season_id,
+  name: row.name,
+  description: row.description,
+  startsAt: new Date(row.starts_at).getTime(),
+  endsAt: new Date(row.ends_at).getTime(),
+  closedAt: toTime(row.closed_at),
+  participantCount: Number(row.participant_count) || 0,
+  pointsEarned: Number(row.points_earned) || 0,
+  rank: row.rank,
+  reward: row.tier_label
+    ? {
+        tierLabel: row.tier_label,
+        gems: Number(row.reward_gems) || 0,
+        stk: Number(row.reward_stk) || 0,
+        boostMultiplier: row.boost_multiplier === null ? null : Number(row.boost_multiplier),
+        boostHours: row.boost_hours
+      }
+    : null,
+  claimedAt: toTime(row.claimed_at),
+  stkPaid: row.stk_paid === null ? null : Number(row.stk_paid),
+  boostExpiresAt: toTime(row.boost_expires_at)
+});
+
+const toSeasonRewardTier = (row: SeasonRewardTierRow): SeasonRewardTier => ({
+  id: row.id,
+  seasonId: row.season_id,
+  tierOrder: row.tier_order,
+  tierLabel: row.label,
+  maxRank: row.max_rank,
+  topPercent: row.top_percent === null ? null : Number(row.top_percent),
+  gems: Number(row.reward_gems) || 0,
+  stk: Number(row.reward_stk) || 0,
+  boostMultiplier: row.boost_multiplier === null ? null : Number(row.boost_multiplier),
+  boostHours: row.boost_hours
+});
+
+export const getSeasonStatus = (season: SeasonSummary, now = Date.now()): SeasonStatus => {
+  if (season.closedAt !== null) return 'closed';
+  if (now < season.startsAt) return 'upcoming';
+  // Ended but not yet closed by the cron job
+  return now < season.endsAt ? 'running' : 'closing';
+};
+
+export const isSeasonClaimable = (season: SeasonSummary) => season.reward !== null && season.claimedAt === null;
+
+// "Top 1", "Top 10", "Top 25%"
+export const formatBracket = (tier: SeasonRewardTier) =>
+  tier.maxRank !== null ? `Top ${tier.maxRank}` : `Top ${tier.topPercent}%`;
+
+// "500 Gems • 10 STK • +50% mining 24h"
+export const formatSeasonReward = (reward: SeasonReward) => {
+  const parts: string[] = [];
+  if (reward.gems > 0) parts.push(`${reward.gems.toLocaleString()} Gems`);
+  if (reward.stk > 0) parts.push(`${reward.stk.toLocaleString()} STK`);
+  if (reward.boostMultiplier !== null && reward.boostHours !== null) {
+    parts.push(`+${Math.round((reward.boostMultiplier - 1) * 100)}% mining ${reward.boostHours}h`);
+  }
+  return parts.join(' • ');
+};
+
+// Engine boost for a claimed reward, or null when it had none or it has run out
+export const getSeasonBoost = (season: SeasonSummary, now = Date.now()): ActiveBoost | null => {
+  const multiplier = season.reward?.boostMultiplier;
+  if (!multiplier || season.boostExpiresAt === null || season.boostExpiresAt <= now) return null;
+
+  // Mining boosts are additive on top of 1x
+  return { type: MINING_BOOST, multiplier: multiplier - 1, expires: season.boostExpiresAt };
+};
+
+export const seasons = {
+  // Newest first, with the signed-in player's standing in each
+  async getMySeasons(limit = 20): Promise<SeasonSummary[]> {
+    const { data, error } = await supabase.rpc('get_my_seasons', { p_limit: limit });
+
+    if (error) throw error;
+    return ((data || []) as SeasonSummaryRow[]).map(toSeasonSummary);
+  },
+
+  async getRewardTiers(seasonIds: number[]): Promise<SeasonRewardTier[]> {
+    if (seasonIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('season_reward_tiers')
+      .select('id, season_id, tier_order, label, max_rank, top_percent, reward_gems, reward_stk, boost_multiplier, boost_hours')
+      .in('season_id', seasonIds)
+      .order('tier_order');
+
+    if (error) throw error;
+    return ((data || []) as SeasonRewardTierRow[]).map(toSeasonRewardTier);
+  },
+
+  async getLeaderboard(seasonId: number, limit = 50): Promise<SeasonLeaderboardEntry[]> {
+    const { data, error } = await supabase.rpc('get_season_leaderboard', {
+      p_season_id: seasonId,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return ((data || []) as SeasonLeaderboardRow[]).map(row => ({
+      rank: Number(row.rank),
+      userId: row.user_id,
+      username: row.username || [row.first_name, row.last_name].filter(Boolean).join(' ') || `Player ${row.user_id}`,
+      pointsEarned: Number(row.points_earned) || 0,
+      tierLabel: row.tier_label
+    }));
+  },
+
+  // Pays the reward on the server; returns the season as it stands afterwards
+  async claimReward(season: SeasonSummary): Promise<SeasonSummary> {
+    const { data, error } = await supabase.rpc('claim_season_reward', { p_season_id: season.id });
+
+    if (error) throw error;
+    const row = data as { claimed_at: string; stk_paid: number | null; boost_expires_at: string | null };
+    return {
+      ...season,
+      claimedAt: toTime(row.claimed_at),
+      stkPaid: row.stk_paid === null ? null : Number(row.stk_paid),
+      boostExpiresAt: toTime(row.boost_expires_at)
+    };
+  }
+};
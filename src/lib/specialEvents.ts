@@ -0,0 +1,111 @@
+import { supabase } from './supabaseClient';
+import { ENERGY_COST_BOOST, MINING_BOOST, UPGRADE_COST_BOOST } from '@/game/engine';
+import type { ActiveBoost } from '@/game/engine';
+
+// event_type values in special_events. Other types are shown but have no game effect.
+export type SpecialEventType = 'double_points' | 'reduced_energy' | 'bonus_upgrades';
+
+export interface SpecialEvent {
+  id: string;
+  name: string;
+  description: string | null;
+  type: SpecialEventType | string;
+  data: { multiplier?: number } & Record<string, unknown>;
+  startsAt: number; // Unix ms
+  endsAt: number;
+}
+
+interface SpecialEventRow {
+  id: string;
+  event_name: string;
+  event_description: string | null;
+  event_type: string;
+  event_data: Record<string, unknown> | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+// Effect of each event type when event_data doesn't set a multiplier.
+// Keep in sync with event_cost_multiplier() in SPECIAL_EVENTS.sql.
+const EVENT_EFFECTS: Record<SpecialEventType, { boostType: string; defaultMultiplier: number }> = {
+  double_points: { boostType: MINING_BOOST, defaultMultiplier: 2 },
+  reduced_energy: { boostType: ENERGY_COST_BOOST, defaultMultiplier: 0.5 },
+  bonus_upgrades: { boostType: UPGRADE_COST_BOOST, defaultMultiplier: 0.75 }
+};
+
+const toSpecialEvent = (row: SpecialEventRow): SpecialEvent => ({
+  id: row.id,
+  name: row.event_name,
+  description: row.event_description,
+  type: row.event_type,
+  data: row.event_data ?? {},
+  startsAt: new Date(row.starts_at).getTime(),
+  endsAt: new Date(row.ends_at).getTime()
+});
+
+export const isEventActive = (event: SpecialEvent, now = Date.now()): boolean => {
+  return event.startsAt <= now && now < event.endsAt;
+};
+
+// Engine boost for an event, or null for types without a game effect
+export const getEventBoost = (event: SpecialEvent): ActiveBoost | null => {
+  const effect = EVENT_EFFECTS[event.type as SpecialEventType];
+  if (!effect) return null;
+
+  const multiplier = Number(event.data.multiplier ?? effect.defaultMultiplier);
+  if (!isFinite(multiplier) || multiplier <= 0) return null;
+
+  return {
+    type: effect.boostType,
+    // Mining boosts are additive on top of 1x; cost boosts are used as-is
+    multiplier: effect.boostType === MINING_BOOST ? multiplier - 1 : multiplier,
+    expires: event.endsAt
+  };
+};
+
+export const getEventBoosts = (events: SpecialEvent[], now = Date.now()): ActiveBoost[] => {
+  return events
+    .filter(event => isEventActive(event, now))
+    .map(getEventBoost)
+    .filter((boost): boost is ActiveBoost => boost !== null);
+};
+
+// "2d 4h", "3h 12m", "45m 10s"
+export const formatEventCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+};
+
+export const specialEvents = {
+  // Enabled events overlapping [from, to]
+  async getEventsBetween(from: Date, to: Date): Promise<SpecialEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('special_events')
+        .select('id, event_name, event_description, event_type, event_data, starts_at, ends_at')
+        .eq('is_active', true)
+        .lt('starts_at', to.toISOString())
+        .gt('ends_at', from.toISOString())
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(toSpecialEvent);
+    } catch (error) {
+      console.error('Error fetching special events:', error);
+      return [];
+    }
+  },
+
+  // Running events plus those starting within the look-ahead window, for countdowns
+  async getCurrentEvents(lookAheadMs = 24 * 60 * 60 * 1000): Promise<SpecialEvent[]> {
+    const now = Date.now();
+    return this.getEventsBetween(new Date(now), new Date(now + lookAheadMs));
+  }
+};
@@ -0,0 +1,118 @@
+import { supabase } from "./supabaseClient";
+
+// STK balances come from sbt_history (STK_LEDGER.sql). Mints, burns and
+// transfers only happen inside apply_stk_entry on the server; players reach it
+// through the two RPCs below, and users.total_sbt is a copy kept in step with
+// the ledger.
+
+export type StkSource = 'deposit' | 'referral' | 'stake' | 'harvest' | 'purchase' | 'season';
+
+export type StkEntryKind = 'opening' | 'mint' | 'burn' | 'transfer_in' | 'transfer_out';
+
+export interface StkEntry {
+  id: number;
+  amount: number; // Signed: burns and outgoing transfers are negative
+  kind: StkEntryKind;
+  source: StkSource | null; // null for opening balances
+  type: string; // Finer detail, e.g. withdrawal_fee or mining_deposit
+  counterpartyId: number | null;
+  balanceAfter: number | null;
+  createdAt: string;
+}
+
+export interface StkSupply {
+  totalMinted: number;
+  totalBurned: number;
+  distributionCap: number;
+  remaining: number;
+}
+
+interface StkEntryRow {
+  id: number;
+  amount: number;
+  kind: StkEntryKind;
+  source: StkSource | null;
+  type: string;
+  counterparty_id: number | null;
+  balance_after: number | null;
+  timestamp: string;
+}
+
+interface StkStatsRow {
+  total_minted: number;
+  total_burned: number;
+  distribution_cap: number;
+}
+
+const toStkEntry = (row: StkEntryRow): StkEntry => ({
+  id: row.id,
+  amount: Number(row.amount),
+  kind: row.kind,
+  source: row.source,
+  type: row.type,
+  counterpartyId: row.counterparty_id,
+  balanceAfter: row.balance_after === null ? null : Number(row.balance_after),
+  createdAt: row.timestamp
+});
+
+export const stkLedger = {
+  async getBalance(userId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('user_stk_balances')
+      .select('balance')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return Number(data?.balance ?? 0);
+  },
+
+  // Newest first
+  async getHistory(userId: number, limit = 50): Promise<StkEntry[]> {
+    const { data, error } = await supabase
+      .from('sbt_history')
+      .select('id, amount, kind, source, type, counterparty_id, balance_after, timestamp')
+      .eq('user_id', userId)
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as StkEntryRow[]).map(toStkEntry);
+  },
+
+  async getSupply(): Promise<StkSupply | null> {
+    const { data, error } = await supabase
+      .from('stk_stats')
+      .select('total_minted, total_burned, distribution_cap')
+      .order('id')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const row = data as StkStatsRow;
+    const totalMinted = Number(row.total_minted);
+    const distributionCap = Number(row.distribution_cap);
+    return {
+      totalMinted,
+      totalBurned: Number(row.total_burned),
+      distributionCap,
+      remaining: Math.max(distributionCap - totalMinted, 0)
+    };
+  },
+
+  // Locks STK into mining; returns the balance left
+  async startMining(amount: number): Promise<number> {
+    const { data, error } = await supabase.rpc('start_stk_mining', { p_amount: amount });
+    if (error) throw error;
+    return Number(data);
+  },
+
+  // The STK share of a stake that completed its 300% cycle, paid once per stake
+  async claimCycleStk(stakeId: number): Promise<number> {
+    const { data, error } = await supabase.rpc('claim_cycle_stk', { p_stake_id: stakeId });
+    if (error) throw error;
+    return Number(data);
+  }
+};
@@ -0,0 +1,233 @@
+import { supabase } from "./supabaseClient";
+import type { EconomyBalances } from "./economyLedger";
+
+// Tasks are defined in the tasks table and every transition happens on the
+// server (TASK_ENGINE.sql). This module loads them and calls the player RPCs;
+// rewards only arrive through claimReward().
+
+export type TaskStatus = 'available' | 'in_progress' | 'completed' | 'claimed' | 'pending_review' | 'failed';
+
+export type TaskSubmissionType = 'screenshot' | 'link' | 'text' | 'none';
+
+export type TaskMetric = 'points_earned' | 'mining_minutes' | 'upgrades_bought' | 'referrals' | 'proven_wallet';
+
+export interface TaskRequirement {
+  metric: TaskMetric;
+  goal: number;
+}
+
+export interface TaskDefinition {
+  taskId: string;
+  title: string;
+  description: string;
+  reward: number;
+  rewardCurrency: 'gems' | 'divine_points';
+  type: string;
+  category: string;
+  emoji: string;
+  requirements: TaskRequirement[];
+  prerequisites: string[];
+  cooldownHours: number;
+  maxCompletions: number; // -1 for unlimited
+  timeLimitHours: number; // 0 for no limit
+  submissionRequired: boolean;
+  submissionType: TaskSubmissionType;
+  actionUrl: string | null;
+  telegramChatId: string | null; // Membership checked by the task bot
+  difficultyLevel: number;
+}
+
+export interface UserTaskState {
+  taskId: string;
+  status: TaskStatus;
+  progress: number;
+  goal: number;
+  completionCount: number;
+  lastCompleted: string | null;
+  startedAt: string | null;
+  expiresAt: string | null;
+}
+
+// How the player finishes a task
+export type TaskVerification = 'tracked' | 'submission' | 'telegram' | 'self_report';
+
+export interface TaskView extends TaskDefinition {
+  state: UserTaskState;
+  verification: TaskVerification;
+  locked: boolean; // Prerequisites not completed yet
+  availableAgainAt: Date | null; // Repeatable task cooling down
+}
+
+interface TaskRow {
+  task_id: string;
+  title: string;
+  description: string;
+  reward: number;
+  reward_currency: 'gems' | 'divine_points' | null;
+  type: string;
+  category: string;
+  emoji: string;
+  requirements: TaskRequirement[] | null;
+  prerequisites: string[] | null;
+  cooldown_hours: number | null;
+  max_completions: number | null;
+  time_limit_hours: number | null;
+  submission_required: boolean | null;
+  submission_type: TaskSubmissionType | null;
+  action_url: string | null;
+  telegram_chat_id: string | null;
+  difficulty_level: number | null;
+}
+
+interface UserTaskRow {
+  task_id: string;
+  status: TaskStatus;
+  progress: number | null;
+  goal: number | null;
+  completion_count: number | null;
+  last_completed: string | null;
+  started_at: string | null;
+  expires_at: string | null;
+}
+
+interface BalancesRow {
+  divine_points: number;
+  total_points_earned: number;
+  gems: number;
+}
+
+const toTaskDefinition = (row: TaskRow): TaskDefinition => ({
+  taskId: row.task_id,
+  title: row.title,
+  description: row.description,
+  reward: Number(row.reward),
+  rewardCurrency: row.reward_currency || 'gems',
+  type: row.type,
+  category: row.category,
+  emoji: row.emoji,
+  requirements: row.requirements || [],
+  prerequisites: row.prerequisites || [],
+  cooldownHours: row.cooldown_hours || 0,
+  maxCompletions: row.max_completions ?? -1,
+  timeLimitHours: row.time_limit_hours || 0,
+  submissionRequired: !!row.submission_required,
+  submissionType: row.submission_type || 'none',
+  actionUrl: row.action_url,
+  telegramChatId: row.telegram_chat_id,
+  difficultyLevel: row.difficulty_level || 1
+});
+
+const toUserTaskState = (row: UserTaskRow): UserTaskState => ({
+  taskId: row.task_id,
+  status: row.status,
+  progress: row.progress || 0,
+  goal: row.goal || 1,
+  completionCount: row.completion_count || 0,
+  lastCompleted: row.last_completed,
+  startedAt: row.started_at,
+  expiresAt: row.expires_at
+});
+
+const firstRow = <T>(data: T | T[] | null): T | null => (Array.isArray(data) ? data[0] ?? null : data);
+
+export const getTaskVerification = (task: TaskDefinition): TaskVerification => {
+  if (task.requirements.length > 0) return 'tracked';
+  if (task.submissionRequired) return 'submission';
+  if (task.telegramChatId) return 'telegram';
+  return 'self_report';
+};
+
+// Combines definitions with the player's state; tasks the server hasn't created a row for yet show as available
+export const buildTaskViews = (tasks: TaskDefinition[], states: UserTaskState[]): TaskView[] => {
+  const stateById = new Map(states.map(state => [state.taskId, state]));
+  const completedIds = new Set(states.filter(state => state.completionCount > 0).map(state => state.taskId));
+
+  return tasks.map(task => {
+    const state = stateById.get(task.taskId) || {
+      taskId: task.taskId,
+      status: 'available' as TaskStatus,
+      progress: 0,
+      goal: task.requirements[0]?.goal || 1,
+      completionCount: 0,
+      lastCompleted: null,
+      startedAt: null,
+      expiresAt: null
+    };
+
+    const repeatable = task.cooldownHours > 0 &&
+      (task.maxCompletions < 0 || state.completionCount < task.maxCompletions);
+
+    return {
+      ...task,
+      state,
+      verification: getTaskVerification(task),
+      locked: state.status === 'available' && task.prerequisites.some(id => !completedIds.has(id)),
+      availableAgainAt: repeatable && state.status === 'claimed' && state.lastCompleted
+        ? new Date(new Date(state.lastCompleted).getTime() + task.cooldownHours * 60 * 60 * 1000)
+        : null
+    };
+  });
+};
+
+export const taskEngine = {
+  async getTasks(): Promise<TaskDefinition[]> {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('task_id, title, description, reward, reward_currency, type, category, emoji, requirements, prerequisites, cooldown_hours, max_completions, time_limit_hours, submission_required, submission_type, action_url, telegram_chat_id, difficulty_level')
+      .eq('is_active', true)
+      .order('id');
+
+    if (error) throw error;
+    return ((data || []) as TaskRow[]).map(toTaskDefinition);
+  },
+
+  // Re-evaluates progress, time limits and cooldowns on the server
+  async sync(): Promise<UserTaskState[]> {
+    const { data, error } = await supabase.rpc('sync_my_tasks');
+    if (error) throw error;
+    return ((data || []) as UserTaskRow[]).map(toUserTaskState);
+  },
+
+  async start(taskId: string): Promise<UserTaskState> {
+    const { data, error } = await supabase.rpc('start_task', { p_task_id: taskId });
+    if (error) throw error;
+    return toUserTaskState(data as UserTaskRow);
+  },
+
+  async confirm(taskId: string): Promise<UserTaskState> {
+    const { data, error } = await supabase.rpc('confirm_task', { p_task_id: taskId });
+    if (error) throw error;
+    return toUserTaskState(data as UserTaskRow);
+  },
+
+  // Queues a membership check; the task stays pending_review until the bot answers
+  async requestVerification(taskId: string): Promise<UserTaskState> {
+    const { data, error } = await supabase.rpc('request_task_verification', { p_task_id: taskId });
+    if (error) throw error;
+    return toUserTaskState(data as UserTaskRow);
+  },
+
+  // Links for link/screenshot tasks, free text for text tasks; reviewed by a moderator
+  async submit(taskId: string, submission: string): Promise<UserTaskState> {
+    const { data, error } = await supabase.rpc('submit_task', {
+      p_task_id: taskId,
+      p_submission_data: submission
+    });
+    if (error) throw error;
+    return toUserTaskState(data as UserTaskRow);
+  },
+
+  async claimReward(taskId: string): Promise<EconomyBalances | null> {
+    const { data, error } = await supabase.rpc('claim_task_reward', { p_task_id: taskId });
+    if (error) throw error;
+
+    const row = firstRow(data as BalancesRow | BalancesRow[] | null);
+    if (!row) return null;
+
+    return {
+      divinePoints: Number(row.divine_points),
+      totalPointsEarned: Number(row.total_points_earned),
+      gems: Number(row.gems)
+    };
+  }
+};
@@ -0,0 +1,155 @@
+import { supabase } from "./supabaseClient";
+import type { User } from "./supabaseClient";
+import type { TaskSubmissionType } from "./taskEngine";
+
+// Review of task_submissions for staff (MODERATION_CONSOLE.sql). Every RPC
+// checks users.role on the server; approving pays the task reward there too.
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected' | 'needs_revision';
+
+export type ReviewDecision = Exclude<SubmissionStatus, 'pending'>;
+
+export interface ModerationSubmission {
+  id: number;
+  userId: number;
+  username: string;
+  taskId: string;
+  taskTitle: string | null;
+  submissionType: Exclude<TaskSubmissionType, 'none'>;
+  submissionData: string;
+  status: SubmissionStatus;
+  reviewedBy: number | null;
+  reviewerUsername: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+}
+
+export interface SubmissionFilters {
+  status: SubmissionStatus | 'all';
+  taskId: string | null;
+  search: string;
+}
+
+export interface SubmissionPage {
+  submissions: ModerationSubmission[];
+  total: number;
+}
+
+export interface SubmissionReview {
+  id: number;
+  submissionId: number;
+  taskId: string;
+  playerUsername: string;
+  reviewerId: number | null;
+  reviewerUsername: string | null;
+  decision: ReviewDecision;
+  notes: string | null;
+  rewardPaid: boolean;
+  createdAt: string;
+}
+
+interface SubmissionRow {
+  id: number;
+  user_id: number;
+  username: string;
+  task_id: string;
+  task_title: string | null;
+  submission_type: ModerationSubmission['submissionType'];
+  submission_data: string;
+  status: SubmissionStatus;
+  reviewed_by: number | null;
+  reviewer_username: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  created_at: string;
+  total_count: number;
+}
+
+interface ReviewRow {
+  id: number;
+  submission_id: number;
+  task_id: string;
+  player_username: string;
+  reviewer_id: number | null;
+  reviewer_username: string | null;
+  decision: ReviewDecision;
+  notes: string | null;
+  reward_paid: boolean;
+  created_at: string;
+}
+
+const toModerationSubmission = (row: SubmissionRow): ModerationSubmission => ({
+  id: row.id,
+  userId: row.user_id,
+  username: row.username,
+  taskId: row.task_id,
+  taskTitle: row.task_title,
+  submissionType: row.submission_type,
+  submissionData: row.submission_data,
+  status: row.status,
+  reviewedBy: row.reviewed_by,
+  reviewerUsername: row.reviewer_username,
+  reviewedAt: row.reviewed_at,
+  reviewNotes: row.review_notes,
+  createdAt: row.created_at
+});
+
+const toSubmissionReview = (row: ReviewRow): SubmissionReview => ({
+  id: row.id,
+  submissionId: row.submission_id,
+  taskId: row.task_id,
+  playerUsername: row.player_username,
+  reviewerId: row.reviewer_id,
+  reviewerUsername: row.reviewer_username,
+  decision: row.decision,
+  notes: row.notes,
+  rewardPaid: row.reward_paid,
+  createdAt: row.created_at
+});
+
+// Only hides the console; the RPCs below enforce the role themselves
+export const isTaskModerator = (user: Pick<User, 'role'> | null | undefined) =>
+  user?.role === 'moderator' || user?.role === 'admin';
+
+export const taskModeration = {
+  async listSubmissions(filters: SubmissionFilters, page: number, pageSize = 20): Promise<SubmissionPage> {
+    const { data, error } = await supabase.rpc('list_task_submissions', {
+      p_status: filters.status === 'all' ? null : filters.status,
+      p_task_id: filters.taskId,
+      p_search: filters.search.trim() || null,
+      p_limit: pageSize,
+      p_offset: (page - 1) * pageSize
+    });
+
+    if (error) throw error;
+    const rows = (data || []) as SubmissionRow[];
+    return {
+      submissions: rows.map(toModerationSubmission),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0
+    };
+  },
+
+  // Returns the ids that were settled; ones already reviewed by someone else are skipped
+  async review(submissionIds: number[], decision: ReviewDecision, notes: string): Promise<number[]> {
+    const { data, error } = await supabase.rpc('review_task_submissions', {
+      p_submission_ids: submissionIds,
+      p_decision: decision,
+      p_notes: notes.trim() || null
+    });
+
+    if (error) throw error;
+    return ((data || []) as { id: number }[]).map(row => row.id);
+  },
+
+  // Newest first; pass a submission id for that submission's history only
+  async getReviews(submissionId: number | null = null, limit = 50): Promise<SubmissionReview[]> {
+    const { data, error } = await supabase.rpc('get_task_submission_reviews', {
+      p_submission_id: submissionId,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return ((data || []) as ReviewRow[]).map(toSubmissionReview);
+  }
+};
@@ -0,0 +1,82 @@
+import { supabase, setSupabaseAccessToken } from './supabaseClient';
+
+// Hash used by src/mockEnv.ts. The telegram-auth function only accepts it when
+// TELEGRAM_AUTH_ALLOW_MOCK is set, which is never the case in production.
+export const DEV_MOCK_INIT_DATA_HASH = 'z9y8x7w6v5u4t3s2r1q0p9o8n7m6l5k4j3i2h1g0';
+
+const SESSION_REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh 5 minutes before expiry
+
+export interface TelegramSession {
+  accessToken: string;
+  expiresAt: number; // Unix ms
+  userId: number;
+  telegramId: number;
+}
+
+interface TelegramAuthResponse {
+  access_token: string;
+  expires_at: number; // Unix seconds
+  user_id: number;
+  telegram_id: number;
+}
+
+let currentSession: TelegramSession | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const isMockInitData = (initDataRaw: string): boolean => {
+  return new URLSearchParams(initDataRaw).get('hash') === DEV_MOCK_INIT_DATA_HASH;
+};
+
+export const getTelegramSession = (): TelegramSession | null => currentSession;
+
+export const clearTelegramSession = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  currentSession = null;
+  setSupabaseAccessToken(null);
+};
+
+const scheduleRefresh = (initDataRaw: string, expiresAt: number) => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+
+  const delay = Math.max(0, expiresAt - Date.now() - SESSION_REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    establishTelegramSession(initDataRaw).catch(error => {
+      console.error('Failed to refresh Telegram session:', error);
+    });
+  }, delay);
+};
+
+/**
+ * Sends the raw initData to the telegram-auth Edge Function, which verifies its
+ * HMAC against the bot token and returns a session JWT for RLS.
+ *
+ * In development the mock environment may run without the function deployed;
+ * in that case null is returned and requests keep using the anon key.
+ */
+export const establishTelegramSession = async (initDataRaw: string): Promise<TelegramSession | null> => {
+  const { data, error } = await supabase.functions.invoke<TelegramAuthResponse>('telegram-auth', {
+    body: { initData: initDataRaw }
+  });
+
+  if (error || !data?.access_token) {
+    if (import.meta.env.DEV && isMockInitData(initDataRaw)) {
+      console.warn('⚠️ telegram-auth unavailable for mock initData, continuing with anon key');
+      return null;
+    }
+    throw new Error('Telegram session verification failed');
+  }
+
+  currentSession = {
+    accessToken: data.access_token,
+    expiresAt: data.expires_at * 1000,
+    userId: data.user_id,
+    telegramId: data.telegram_id
+  };
+  setSupabaseAccessToken(currentSession.accessToken);
+  scheduleRefresh(initDataRaw, currentSession.expiresAt);
+
+  return currentSession;
+};
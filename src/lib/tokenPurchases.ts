@@ -0,0 +1,68 @@
+import { supabase } from './supabaseClient';
+
+const MAINNET_DEPOSIT_ADDRESS = 'UQACvk54LPa9hJB1MbuDuipTrX63NB3mGLcn0gebqUc8_joY';
+const TESTNET_DEPOSIT_ADDRESS = 'UQACvk54LPa9hJB1MbuDuipTrX63NB3mGLcn0gebqUc8_joY';
+const isMainnet = true; // Toggle this for testing
+export const DEPOSIT_ADDRESS = isMainnet ? MAINNET_DEPOSIT_ADDRESS : TESTNET_DEPOSIT_ADDRESS;
+
+export type TokenPurchaseStatus = 'pending' | 'confirmed' | 'failed' | 'expired';
+
+export interface TokenPurchase {
+  id: string;
+  user_id: string; // paying wallet address
+  offering_id: number;
+  usdt_amount: number;
+  ton_amount: number;
+  ton_amount_nano: string | null;
+  tokens_purchased: number;
+  memo: string | null;
+  tx_hash?: string | null;
+  status: TokenPurchaseStatus;
+  expires_at: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+}
+
+// TON/USD from CoinGecko, or null when unavailable
+export const fetchTonPriceUsd = async (): Promise<number | null> => {
+  try {
+    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=the-open-network&vs_currencies=usd');
+    const data = await response.json();
+    const price = Number(data?.['the-open-network']?.usd);
+    return isFinite(price) && price > 0 ? price : null;
+  } catch (error) {
+    console.error('Error fetching TON price:', error);
+    return null;
+  }
+};
+
+export const tokenPurchases = {
+  // Pending purchase priced by the server; pay ton_amount_nano with memo as the comment
+  async create(offeringId: number, usdtAmount: number, tonAmount: number, walletAddress: string): Promise<TokenPurchase> {
+    const { data, error } = await supabase.rpc('create_token_purchase', {
+      p_offering_id: offeringId,
+      p_usdt_amount: usdtAmount,
+      p_ton_amount: tonAmount,
+      p_wallet_address: walletAddress
+    });
+
+    if (error) throw error;
+    return data as TokenPurchase;
+  },
+
+  async getHistory(walletAddress: string): Promise<TokenPurchase[]> {
+    try {
+      const { data, error } = await supabase
+        .from('token_purchases')
+        .select('*')
+        .eq('user_id', walletAddress)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as TokenPurchase[];
+    } catch (error) {
+      console.error('Error fetching purchase history:', error);
+      return [];
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { supabase } from './supabaseClient';
+import { createUpgradeCatalog } from '@/game/catalog';
+import type { UpgradeCatalog, UpgradeDefinition } from '@/game/catalog';
+import type { UpgradeCategory } from '@/game/engine';
+
+interface UpgradeDefinitionRow {
+  catalog_version: number;
+  id: string;
+  name: string;
+  effect: string;
+  base_cost: number | string; // NUMERIC columns may arrive as strings
+  cost_multiplier: number | string;
+  effect_value: number | string;
+  max_level: number;
+  category: string | null;
+  requires_upgrade: string | null;
+  requires_level: number | null;
+  content: Partial<Pick<UpgradeDefinition, 'description' | 'detailedDescription' | 'benefits' | 'tips' | 'unlockReward'>> | null;
+}
+
+const toDefinition = (row: UpgradeDefinitionRow): UpgradeDefinition => ({
+  ...(row.content ?? {}),
+  id: row.id,
+  name: row.name,
+  effect: row.effect,
+  baseCost: Number(row.base_cost),
+  costMultiplier: Number(row.cost_multiplier),
+  effectValue: Number(row.effect_value),
+  maxLevel: row.max_level,
+  category: (row.category ?? undefined) as UpgradeCategory | undefined,
+  requires: row.requires_upgrade && row.requires_level !== null
+    ? { upgrade: row.requires_upgrade, level: row.requires_level }
+    : undefined
+});
+
+export const upgradeCatalog = {
+  // Active catalog from upgrade_definitions, or null if none is published or it fails validation
+  async fetchActive(): Promise<UpgradeCatalog | null> {
+    try {
+      const { data, error } = await supabase
+        .from('active_upgrade_definitions')
+        .select('*')
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      if (!data || data.length === 0) return null;
+
+      const rows = data as UpgradeDefinitionRow[];
+      return createUpgradeCatalog(rows[0].catalog_version, rows.map(toDefinition));
+    } catch (error) {
+      console.error('Error loading upgrade catalog:', error);
+      return null;
+    }
+  }
+};
@@ -0,0 +1,116 @@
+import type { Account, TonProofItemReplySuccess } from '@tonconnect/ui-react';
+import { supabase } from "./supabaseClient";
+
+// A player's payout wallet is only set by the wallet-proof Edge Function after
+// it checks a TonConnect ton_proof (WALLET_PROOF.sql). Keep in step with
+// bind_proven_wallet's p_cooldown.
+export const WALLET_REBIND_COOLDOWN_DAYS = 7;
+
+export interface WalletBinding {
+  address: string;
+  publicKey: string | null;
+  network: string | null;
+  provenAt: string | null; // null: saved before proofs were required, not trusted for payouts
+}
+
+export interface WalletBindingChange {
+  address: string;
+  previousAddress: string | null;
+  createdAt: string;
+}
+
+export interface WalletProofResult {
+  address: string;
+  publicKey: string;
+  network: string;
+  provenAt: string;
+  changed: boolean;
+  rebindAvailableAt: string | null;
+}
+
+interface WalletProofResponse {
+  address: string;
+  public_key: string;
+  network: string;
+  proven_at: string;
+  changed: boolean;
+  rebind_available_at: string | null;
+}
+
+// When the player may switch to another wallet, counted from their last change
+export const getRebindAvailableAt = (history: WalletBindingChange[]): Date | null => {
+  const lastChange = history.find(change => change.previousAddress !== change.address);
+  if (!lastChange) return null;
+  return new Date(new Date(lastChange.createdAt).getTime() + WALLET_REBIND_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+};
+
+export const walletBinding = {
+  async getBinding(userId: number): Promise<WalletBinding | null> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('wallet_address, wallet_public_key, wallet_network, wallet_proven_at')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data?.wallet_address) return null;
+
+    return {
+      address: data.wallet_address,
+      publicKey: data.wallet_public_key,
+      network: data.wallet_network,
+      provenAt: data.wallet_proven_at
+    };
+  },
+
+  // Newest first
+  async getHistory(userId: number, limit = 10): Promise<WalletBindingChange[]> {
+    const { data, error } = await supabase
+      .from('wallet_bindings')
+      .select('address, previous_address, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      address: row.address,
+      previousAddress: row.previous_address,
+      createdAt: row.created_at
+    }));
+  },
+
+  // Payload the wallet has to sign; good for one proof within 15 minutes
+  async issueNonce(): Promise<string> {
+    const { data, error } = await supabase.rpc('issue_wallet_proof_nonce');
+    if (error) throw error;
+    return data as string;
+  },
+
+  async submitProof(account: Account, proof: TonProofItemReplySuccess['proof']): Promise<WalletProofResult> {
+    const { data, error } = await supabase.functions.invoke<WalletProofResponse>('wallet-proof', {
+      body: {
+        address: account.address,
+        network: account.chain,
+        public_key: account.publicKey,
+        proof: { ...proof, state_init: account.walletStateInit }
+      }
+    });
+
+    if (error || !data) {
+      // The function's message (cooldown, wallet taken, bad proof) is the useful part
+      const context = (error as { context?: Response } | null)?.context;
+      const body = context ? await context.json().catch(() => null) : null;
+      throw new Error(body?.error || 'Wallet verification failed');
+    }
+
+    return {
+      address: data.address,
+      publicKey: data.public_key,
+      network: data.network,
+      provenAt: data.proven_at,
+      changed: data.changed,
+      rebindAvailableAt: data.rebind_available_at
+    };
+  }
+};
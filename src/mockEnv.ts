@@ -4,6 +4,7 @@ import {
   parseInitData,
   LaunchParams, retrieveLaunchParams
 } from '@telegram-apps/sdk-react';
+import { DEV_MOCK_INIT_DATA_HASH } from '@/lib/telegramSession';
 
 // It is important, to mock the environment only for development purposes.
 // When building the application the import.meta.env.DEV will value become
@@ -32,7 +33,7 @@ if (import.meta.env.DEV) {
           is_premium: false,
           allows_write_to_pm: false,
         })],
-        ['hash', 'z9y8x7w6v5u4t3s2r1q0p9o8n7m6l5k4j3i2h1g0'],
+        ['hash', DEV_MOCK_INIT_DATA_HASH],
         ['auth_date', '1711555555'],
         ['start_param', 'testuser'],
         ['chat_type', 'private'],
@@ -3,6 +3,7 @@ import type { ComponentType, JSX } from 'react';
 import { IndexPage } from '@/pages/IndexPage/IndexPage';
 import { InitDataPage } from '@/pages/InitDataPage.tsx';
 import { LaunchParamsPage } from '@/pages/LaunchParamsPage.tsx';
+import { ModerationPage } from '@/pages/ModerationPage/ModerationPage';
 import { ThemeParamsPage } from '@/pages/ThemeParamsPage.tsx';
 import { TONConnectPage } from '@/pages/TONConnectPage/TONConnectPage';
 
@@ -18,6 +19,8 @@ export const routes: Route[] = [
   { path: '/init-data', Component: InitDataPage, title: 'Init Data' },
   { path: '/theme-params', Component: ThemeParamsPage, title: 'Theme Params' },
   { path: '/launch-params', Component: LaunchParamsPage, title: 'Launch Params' },
+  // Staff only; the page and its RPCs check users.role
+  { path: '/moderation', Component: ModerationPage, title: 'Moderation' },
   {
     path: '/ton-connect',
     Component: TONConnectPage,
@@ -13,6 +13,8 @@ import { ReferralSystem } from '@/components/ReferralSystem';
 import { useReferralIntegration } from '@/hooks/useReferralIntegration';
 import { GameProvider, useGameContext } from '@/contexts/GameContext';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { SpecialEventBanner } from '@/components/SpecialEventBanner';
+import { useSpecialEvents } from '@/hooks/useSpecialEvents';
 import { 
   GiCrystalBall, 
   GiCrystalCluster,
@@ -46,6 +48,7 @@ import '@/utils/gemSyncTest';
 // Header component that uses GameContext
 const GameHeader: FC<{ user: any; currentTab: string }> = ({ user, currentTab }) => {
   const { gems } = useGameContext();
+  const { activeEvents, upcomingEvents } = useSpecialEvents();
   
   return (
     <div className="relative bg-black/40 backdrop-blur-xl border border-cyan-500/30 rounded-xl p-4 mb-2 shadow-[0_0_30px_rgba(0,255,255,0.1)] overflow-hidden game-card-frame">
@@ -97,6 +100,9 @@ const GameHeader: FC<{ user: any; currentTab: string }> = ({ user, currentTab })
           </div>
         )}
       </div>
+
+      {/* Live Events */}
+      <SpecialEventBanner events={[...activeEvents, ...upcomingEvents]} />
     </div>
   );
 };
@@ -0,0 +1,379 @@
+import {
+  Button,
+  Cell,
+  Checkbox,
+  Input,
+  List,
+  Pagination,
+  Placeholder,
+  Section,
+  Select,
+  Spinner,
+  Text,
+  Textarea,
+} from '@telegram-apps/telegram-ui';
+import { type FC, useCallback, useEffect, useMemo, useState } from 'react';
+
+import { DisplayData, type DisplayDataRow } from '@/components/DisplayData/DisplayData.tsx';
+import { Page } from '@/components/Page.tsx';
+import { useAuth } from '@/hooks/useAuth';
+import { taskEngine } from '@/lib/taskEngine';
+import type { TaskDefinition } from '@/lib/taskEngine';
+import { isTaskModerator, taskModeration } from '@/lib/taskModeration';
+import type {
+  ModerationSubmission,
+  ReviewDecision,
+  SubmissionFilters,
+  SubmissionReview,
+  SubmissionStatus,
+} from '@/lib/taskModeration';
+
+import './ModerationPage.css';
+
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 400;
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_revision: 'Needs revision',
+};
+
+const DECISIONS: { decision: ReviewDecision; label: string; mode: 'filled' | 'bezeled' | 'gray' }[] = [
+  { decision: 'approved', label: 'Approve', mode: 'filled' },
+  { decision: 'rejected', label: 'Reject', mode: 'bezeled' },
+  { decision: 'needs_revision', label: 'Ask for changes', mode: 'gray' },
+];
+
+const IMAGE_URL = /\.(png|jpe?g|gif|webp)(\?.*)?$/i;
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string } | null)?.message || fallback;
+
+// What the player sent: links open outside the app, screenshots show inline
+const SubmissionPreview: FC<{ submission: ModerationSubmission; reviews: SubmissionReview[] }> = ({
+  submission,
+  reviews,
+}) => {
+  const isLink = /^https?:\/\//i.test(submission.submissionData);
+  const rows: DisplayDataRow[] = [
+    { title: 'Player', value: `@${submission.username} (#${submission.userId})` },
+    { title: 'Task', value: submission.taskTitle || submission.taskId },
+    { title: 'Type', value: submission.submissionType },
+    isLink
+      ? { title: 'Submission', type: 'link', value: submission.submissionData }
+      : { title: 'Submission', value: submission.submissionData },
+    { title: 'Submitted', value: new Date(submission.createdAt).toLocaleString() },
+    { title: 'Status', value: STATUS_LABELS[submission.status] },
+    ...(submission.reviewedAt
+      ? [
+        { title: 'Reviewed By', value: submission.reviewerUsername || 'service' },
+        { title: 'Reviewed At', value: new Date(submission.reviewedAt).toLocaleString() },
+        { title: 'Notes', value: submission.reviewNotes || undefined },
+      ]
+      : []),
+  ];
+
+  return (
+    <>
+      <DisplayData header={`Submission #${submission.id}`} rows={rows}/>
+      {submission.submissionType === 'screenshot' && isLink && IMAGE_URL.test(submission.submissionData) && (
+        <img className="moderation-page__screenshot" src={submission.submissionData} alt="Submitted screenshot"/>
+      )}
+      {submission.submissionType === 'text' && (
+        <Text className="moderation-page__text">{submission.submissionData}</Text>
+      )}
+      {reviews.length > 0 && (
+        <Section header="History">
+          {reviews.map((review) => (
+            <Cell
+              key={review.id}
+              multiline
+              subtitle={`${review.reviewerUsername || 'service'} · ${new Date(review.createdAt).toLocaleString()}`}
+              description={review.notes || undefined}
+            >
+              {STATUS_LABELS[review.decision]}{review.rewardPaid ? ' · reward paid' : ''}
+            </Cell>
+          ))}
+        </Section>
+      )}
+    </>
+  );
+};
+
+export const ModerationPage: FC = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const canModerate = isTaskModerator(user);
+
+  const [tasks, setTasks] = useState<TaskDefinition[]>([]);
+  const [filters, setFilters] = useState<SubmissionFilters>({ status: 'pending', taskId: null, search: '' });
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [submissions, setSubmissions] = useState<ModerationSubmission[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [previewId, setPreviewId] = useState<number | null>(null);
+  const [previewReviews, setPreviewReviews] = useState<SubmissionReview[]>([]);
+  const [auditTrail, setAuditTrail] = useState<SubmissionReview[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await taskModeration.listSubmissions(filters, page, PAGE_SIZE);
+      setSubmissions(result.submissions);
+      setTotal(result.total);
+      setSelectedIds(ids => ids.filter(id => result.submissions.some(s => s.id === id && s.status === 'pending')));
+      setError(null);
+    } catch (loadError) {
+      console.error('Error loading submissions:', loadError);
+      setError(getErrorMessage(loadError, 'Could not load submissions'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  const loadAuditTrail = useCallback(async () => {
+    try {
+      setAuditTrail(await taskModeration.getReviews(null, 20));
+    } catch (loadError) {
+      console.error('Error loading review log:', loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!canModerate) return;
+    taskEngine.getTasks()
+      .then(all => setTasks(all.filter(task => task.submissionRequired)))
+      .catch(loadError => console.error('Error loading tasks:', loadError));
+    loadAuditTrail();
+  }, [canModerate, loadAuditTrail]);
+
+  useEffect(() => {
+    if (canModerate) loadQueue();
+  }, [canModerate, loadQueue]);
+
+  // Search as the moderator types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(current => (current.search === searchInput ? current : { ...current, search: searchInput }));
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (previewId === null) {
+      setPreviewReviews([]);
+      return;
+    }
+    taskModeration.getReviews(previewId)
+      .then(setPreviewReviews)
+      .catch(loadError => console.error('Error loading submission history:', loadError));
+  }, [previewId]);
+
+  const preview = useMemo(
+    () => submissions.find(submission => submission.id === previewId) || null,
+    [submissions, previewId],
+  );
+  const pendingOnPage = useMemo(
+    () => submissions.filter(submission => submission.status === 'pending').map(submission => submission.id),
+    [submissions],
+  );
+  const allSelected = pendingOnPage.length > 0 && pendingOnPage.every(id => selectedIds.includes(id));
+
+  const updateFilters = (changes: Partial<SubmissionFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]));
+  };
+
+  const review = async (ids: number[], decision: ReviewDecision) => {
+    if (ids.length === 0) return;
+
+    setIsReviewing(true);
+    setMessage(null);
+    try {
+      const settled = await taskModeration.review(ids, decision, notes);
+      const skipped = ids.length - settled.length;
+      setMessage(`${STATUS_LABELS[decision]}: ${settled.length}${skipped > 0 ? ` (${skipped} already reviewed)` : ''}`);
+      setSelectedIds([]);
+      setNotes('');
+      await Promise.all([loadQueue(), loadAuditTrail()]);
+      if (previewId !== null && ids.includes(previewId)) {
+        setPreviewReviews(await taskModeration.getReviews(previewId));
+      }
+    } catch (reviewError) {
+      console.error('Error reviewing submissions:', reviewError);
+      setError(getErrorMessage(reviewError, 'Could not review submissions'));
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  if (isAuthLoading) {
+    return (
+      <Page>
+        <Placeholder header="Moderation">
+          <Spinner size="l"/>
+        </Placeholder>
+      </Page>
+    );
+  }
+
+  if (!canModerate) {
+    return (
+      <Page>
+        <Placeholder header="Moderators only" description="Ask an administrator for access to the review console."/>
+      </Page>
+    );
+  }
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+  // Bulk selection wins; otherwise the buttons act on the previewed submission
+  const reviewIds = selectedIds.length > 0 ? selectedIds : preview?.status === 'pending' ? [preview.id] : [];
+
+  return (
+    <Page>
+      <List>
+        <Section header="Filters">
+          <Select
+            header="Status"
+            value={filters.status}
+            onChange={(e) => updateFilters({ status: e.target.value as SubmissionFilters['status'] })}
+          >
+            {(Object.keys(STATUS_LABELS) as SubmissionStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+            <option value="all">All</option>
+          </Select>
+          <Select
+            header="Task"
+            value={filters.taskId || ''}
+            onChange={(e) => updateFilters({ taskId: e.target.value || null })}
+          >
+            <option value="">All tasks</option>
+            {tasks.map(task => (
+              <option key={task.taskId} value={task.taskId}>{task.title}</option>
+            ))}
+          </Select>
+          <Input
+            header="Search"
+            placeholder="Player or submission"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </Section>
+
+        <Section
+          header={`Queue (${total})`}
+          footer={pageCount > 1 && (
+            <Pagination
+              count={pageCount}
+              page={page}
+              onChange={(_, nextPage) => setPage(nextPage)}
+              disabled={isLoading}
+            />
+          )}
+        >
+          {pendingOnPage.length > 0 && (
+            <Cell
+              Component="label"
+              before={(
+                <Checkbox
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? [] : pendingOnPage)}
+                />
+              )}
+            >
+              Select all pending on this page
+            </Cell>
+          )}
+          {isLoading && submissions.length === 0 && (
+            <Placeholder>
+              <Spinner size="m"/>
+            </Placeholder>
+          )}
+          {!isLoading && submissions.length === 0 && (
+            <Placeholder description="Nothing matches these filters."/>
+          )}
+          {submissions.map(submission => (
+            <Cell
+              key={submission.id}
+              multiline
+              hovered={submission.id === previewId}
+              onClick={() => setPreviewId(submission.id === previewId ? null : submission.id)}
+              before={submission.status === 'pending' ? (
+                <span onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={selectedIds.includes(submission.id)}
+                    onChange={() => toggleSelected(submission.id)}
+                  />
+                </span>
+              ) : undefined}
+              subtitle={`@${submission.username} · ${new Date(submission.createdAt).toLocaleString()}`}
+              description={submission.submissionData}
+              after={STATUS_LABELS[submission.status]}
+            >
+              #{submission.id} {submission.taskTitle || submission.taskId}
+            </Cell>
+          ))}
+        </Section>
+
+        {reviewIds.length > 0 && (
+          <Section header={selectedIds.length > 0 ? `Review ${selectedIds.length} selected` : `Review #${reviewIds[0]}`}>
+            <Textarea
+              header="Notes"
+              placeholder="Optional, shown to the player"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <div className="moderation-page__actions">
+              {DECISIONS.map(({ decision, label, mode }) => (
+                <Button
+                  key={decision}
+                  mode={mode}
+                  size="s"
+                  loading={isReviewing}
+                  disabled={isReviewing}
+                  onClick={() => review(reviewIds, decision)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </Section>
+        )}
+
+        {message && <Text className="moderation-page__message">{message}</Text>}
+        {error && <Text className="moderation-page__error">{error}</Text>}
+
+        {preview && <SubmissionPreview submission={preview} reviews={previewReviews}/>}
+
+        <Section header="Recent Decisions">
+          {auditTrail.length === 0 && <Placeholder description="No decisions yet."/>}
+          {auditTrail.map(entry => (
+            <Cell
+              key={entry.id}
+              multiline
+              subtitle={`${entry.reviewerUsername || 'service'} · ${new Date(entry.createdAt).toLocaleString()}`}
+              description={entry.notes || undefined}
+              after={entry.rewardPaid ? 'Paid' : undefined}
+            >
+              {STATUS_LABELS[entry.decision]} #{entry.submissionId} {entry.taskId} (@{entry.playerUsername})
+            </Cell>
+          ))}
+        </Section>
+      </List>
+    </Page>
+  );
+};
@@ -2,6 +2,7 @@ import { openLink } from '@telegram-apps/sdk-react';
 import { TonConnectButton, useTonWallet } from '@tonconnect/ui-react';
 import {
   Avatar,
+  Button,
   Cell,
   List,
   Navigation,
@@ -14,11 +15,70 @@ import type { FC } from 'react';
 
 import { DisplayData } from '@/components/DisplayData/DisplayData.tsx';
 import { Page } from '@/components/Page.tsx';
+import { useAuth } from '@/hooks/useAuth';
+import { useWalletBinding } from '@/hooks/useWalletBinding';
 
 import './TONConnectPage.css';
 
+interface ProvenWalletProps {
+  walletBinding: ReturnType<typeof useWalletBinding>;
+  connectedAddress?: string;
+}
+
+// The payout wallet the server accepted from a ton_proof, next to the connected one
+const ProvenWallet: FC<ProvenWalletProps> = ({ walletBinding, connectedAddress }) => {
+  const { binding, isProven, rebindAvailableAt, canRebind, isProving, error, proveWallet } =
+    walletBinding;
+
+  // While disconnected the connect button above already asks for a proof
+  if (!connectedAddress) {
+    return (
+      <Text className="ton-connect-page__proven">
+        {isProven && binding
+          ? `Proven wallet: ${binding.address.slice(0, 8)}…${binding.address.slice(-6)}`
+          : 'Connecting also proves you own the wallet, so it can receive withdrawals.'}
+      </Text>
+    );
+  }
+
+  return (
+    <>
+      <DisplayData
+        header="Proven Wallet"
+        rows={[
+          { title: 'Address', value: isProven ? binding?.address : undefined },
+          { title: 'Public Key', value: isProven ? binding?.publicKey ?? undefined : undefined },
+          {
+            title: 'Proven At',
+            value: binding?.provenAt ? new Date(binding.provenAt).toLocaleString() : undefined,
+          },
+          ...(isProven
+            ? [{ title: 'Matches Connected', value: binding?.address === connectedAddress }]
+            : []),
+          ...(rebindAvailableAt && !canRebind
+            ? [{ title: 'Can Change On', value: rebindAvailableAt.toLocaleDateString() }]
+            : []),
+        ]}
+      />
+      {error && <Text className="ton-connect-page__error">{error}</Text>}
+      <Button
+        className="ton-connect-page__button-connected"
+        size="m"
+        loading={isProving}
+        disabled={isProven && !canRebind}
+        onClick={proveWallet}
+      >
+        {isProven ? 'Change proven wallet' : 'Prove wallet ownership'}
+      </Button>
+    </>
+  );
+};
+
 export const TONConnectPage: FC = () => {
   const wallet = useTonWallet();
+  const { user } = useAuth();
+  // Held here so the proof submitted on connect survives the switch between branches
+  const walletBinding = useWalletBinding(user?.id);
 
   if (!wallet) {
     return (
@@ -33,6 +93,7 @@ export const TONConnectPage: FC = () => {
                 wallet
               </Text>
               <TonConnectButton className="ton-connect-page__button"/>
+              {user && <ProvenWallet walletBinding={walletBinding}/>}
             </>
           }
         />
@@ -82,6 +143,7 @@ export const TONConnectPage: FC = () => {
             { title: 'Public Key', value: publicKey },
           ]}
         />
+        {user && <ProvenWallet walletBinding={walletBinding} connectedAddress={address}/>}
         <DisplayData
           header="Device"
           rows={[
@@ -0,0 +1,28 @@
+import type { TonApiClient, Transaction, TransactionQuery, Transactions } from './ton-api';
+
+/**
+ * TonApiClient serving recorded transactions from memory, with tonapi's lt filters,
+ * sort order and page limit. For tests and for running the cron workers offline.
+ */
+export class FixtureTonApi implements TonApiClient {
+    private _transactions = new Map<string, Transaction[]>();
+
+    constructor(transactions: Record<string, Transaction[]> = {}) {
+        Object.entries(transactions).forEach(([address, list]) => this.addTransactions(address, ...list));
+    }
+
+    public addTransactions(address: string, ...transactions: Transaction[]) {
+        this._transactions.set(address, [...(this._transactions.get(address) ?? []), ...transactions]);
+    }
+
+    public async getAccountTransactions(address: string, query: TransactionQuery = {}): Promise<Transactions | undefined> {
+        const { limit = 100, after_lt, before_lt, sort_order = 'desc' } = query;
+
+        const transactions = (this._transactions.get(address) ?? [])
+            .filter(tx => after_lt === undefined || tx.lt > Number(after_lt))
+            .filter(tx => before_lt === undefined || tx.lt < Number(before_lt))
+            .sort((a, b) => (sort_order === 'asc' ? a.lt - b.lt : b.lt - a.lt));
+
+        return { transactions: transactions.slice(0, limit) };
+    }
+}
@@ -96,7 +96,47 @@ interface Account {
     status: string;
 }
 
-export class TonApi {
+export interface TransactionMessage {
+    value: number;
+    source?: {
+        address: string;
+    };
+    destination?: {
+        address: string;
+    };
+    decoded_op_name?: string;
+    decoded_body?: {
+        text?: string;
+    };
+}
+
+export interface Transaction {
+    hash: string;
+    lt: number;
+    utime: number;
+    success: boolean;
+    aborted: boolean;
+    in_msg?: TransactionMessage;
+    out_msgs?: TransactionMessage[];
+}
+
+export interface Transactions {
+    transactions: Transaction[];
+}
+
+export interface TransactionQuery {
+    limit?: number;
+    after_lt?: number | string;
+    before_lt?: number | string;
+    sort_order?: 'asc' | 'desc';
+}
+
+// The tonapi endpoints the cron workers read, so they can run against recorded data
+export interface TonApiClient {
+    getAccountTransactions(address: string, query?: TransactionQuery): Promise<Transactions | undefined>;
+}
+
+export class TonApi implements TonApiClient {
     private _url: string = 'https://tonapi.io/v2/';
     private _token: string = 'AHZ25K6GOTNFOVQAAAAGWQBCDALGUCPWSHPKL2KQBMUPYIZ4XTQ6ZKHEEONHPY57RXQWUCI';
 
@@ -208,6 +248,10 @@ export class TonApi {
         return data;
     }
 
+    public async getAccountTransactions(address: string, query: TransactionQuery = {}): Promise<Transactions | undefined> {
+        return this.send(`blockchain/accounts/${address}/transactions`, query);
+    }
+
     public async getAllNFTs(limit: number = 1000): Promise<Items | undefined> {
         try {
             const data = await this.send('accounts/all/nfts', {
@@ -21,6 +21,7 @@ export interface UserDataKeys {
   spiritualEssencePoints: string;
   divineMiningGems: string;
   divineMiningBoosts: string;
+  divineMiningStore: string;
   
   // Mining section data
   mining_state: string;
@@ -55,6 +56,7 @@ export const getUserSpecificKeys = (telegramId: string): UserDataKeys => {
     spiritualEssencePoints: `spiritualEssencePoints_${telegramId}`,
     divineMiningGems: `divineMiningGems_${telegramId}`,
     divineMiningBoosts: `divineMiningBoosts_${telegramId}`,
+    divineMiningStore: `divineMiningStore_${telegramId}`,
     
     // Mining section data
     mining_state: `mining_state_${telegramId}`,
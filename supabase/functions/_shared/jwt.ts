@@ -0,0 +1,46 @@
+// Minimal HS256 JWT signing with WebCrypto, compatible with Supabase's JWT secret
+
+const encoder = new TextEncoder();
+
+const base64UrlEncode = (input: Uint8Array | string): string => {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const signJwt = async (payload: Record<string, unknown>, secret: string): Promise<string> => {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signingInput = `${header}.${body}`;
+
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(signingInput)));
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+};
+
+const base64UrlDecode = (input: string): Uint8Array => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+// Payload of an unexpired HS256 token signed with the secret, otherwise null
+export const verifyJwt = async (token: string, secret: string): Promise<Record<string, unknown> | null> => {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+
+  try {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), encoder.encode(`${header}.${body}`));
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+    if (typeof payload.exp === 'number' && payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,29 @@
+// Telegram doesn't expose when an account was created, but user ids are handed out
+// in increasing order, so a few known (id, registration date) points give a rough
+// estimate. Only good to a few months; used as a fraud signal, never shown to users.
+
+// [user id, unix ms]. Ids jumped past 2^31 to 5e9 in late 2021.
+const ID_DATE_ANCHORS: Array<[number, number]> = [
+  [0, Date.UTC(2013, 7, 1)],
+  [100_000_000, Date.UTC(2015, 2, 1)],
+  [500_000_000, Date.UTC(2018, 0, 1)],
+  [1_000_000_000, Date.UTC(2019, 9, 1)],
+  [2_000_000_000, Date.UTC(2021, 5, 1)],
+  [2_147_483_647, Date.UTC(2021, 10, 1)],
+  [5_000_000_000, Date.UTC(2021, 10, 1)],
+  [6_000_000_000, Date.UTC(2023, 2, 1)],
+  [7_000_000_000, Date.UTC(2024, 2, 1)],
+  [8_000_000_000, Date.UTC(2025, 2, 1)]
+];
+
+export const estimateTelegramAccountCreatedAt = (telegramId: number, now = Date.now()): Date => {
+  let i = 1;
+  while (i < ID_DATE_ANCHORS.length - 1 && telegramId > ID_DATE_ANCHORS[i][0]) i++;
+
+  // Past the last anchor the last segment's rate is extrapolated
+  const [fromId, fromTime] = ID_DATE_ANCHORS[i - 1];
+  const [toId, toTime] = ID_DATE_ANCHORS[i];
+  const estimate = fromTime + ((telegramId - fromId) / (toId - fromId)) * (toTime - fromTime);
+
+  return new Date(Math.min(Math.max(estimate, ID_DATE_ANCHORS[0][1]), now));
+};
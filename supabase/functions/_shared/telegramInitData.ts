@@ -0,0 +1,118 @@
+// Telegram Mini App initData verification
+// https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+//
+// Uses only WebCrypto so it runs unchanged in Deno (Edge Functions) and Node 20+.
+
+export interface TelegramInitDataUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  is_premium?: boolean;
+  photo_url?: string;
+}
+
+export interface VerifiedInitData {
+  user: TelegramInitDataUser;
+  authDate: number; // Unix seconds
+  startParam?: string;
+  chatInstance?: string;
+  chatType?: string;
+}
+
+export type InitDataVerificationResult =
+  | { ok: true; data: VerifiedInitData }
+  | { ok: false; reason: 'missing_hash' | 'invalid_hash' | 'expired' | 'future_auth_date' | 'missing_user' | 'malformed' };
+
+export interface VerifyOptions {
+  maxAgeSeconds?: number; // Default 24 hours
+  now?: number; // Unix ms, injectable for tests
+  allowedMockHash?: string; // Development only: accept this literal hash without HMAC
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 24 * 60 * 60;
+const CLOCK_SKEW_SECONDS = 60;
+
+const encoder = new TextEncoder();
+
+const hmacSha256 = async (key: Uint8Array, message: string): Promise<Uint8Array> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+};
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Constant-time comparison so the hash can't be recovered byte by byte
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// All fields except hash, sorted by key, as key=value joined with \n
+export const buildDataCheckString = (params: URLSearchParams): string => {
+  return Array.from(params.entries())
+    .filter(([key]) => key !== 'hash')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+};
+
+export const computeInitDataHash = async (dataCheckString: string, botToken: string): Promise<string> => {
+  const secretKey = await hmacSha256(encoder.encode('WebAppData'), botToken);
+  return toHex(await hmacSha256(secretKey, dataCheckString));
+};
+
+export const verifyTelegramInitData = async (
+  initDataRaw: string,
+  botToken: string,
+  options: VerifyOptions = {}
+): Promise<InitDataVerificationResult> => {
+  const params = new URLSearchParams(initDataRaw);
+  const hash = params.get('hash');
+  if (!hash) return { ok: false, reason: 'missing_hash' };
+
+  const isMock = options.allowedMockHash !== undefined && hash === options.allowedMockHash;
+  if (!isMock) {
+    const expected = await computeInitDataHash(buildDataCheckString(params), botToken);
+    if (!timingSafeEqual(expected, hash.toLowerCase())) return { ok: false, reason: 'invalid_hash' };
+  }
+
+  const authDate = Number(params.get('auth_date'));
+  if (!Number.isFinite(authDate) || authDate <= 0) return { ok: false, reason: 'malformed' };
+
+  // The dev mock carries a fixed auth_date, so only real payloads are checked for age
+  if (!isMock) {
+    const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+    if (authDate - nowSeconds > CLOCK_SKEW_SECONDS) return { ok: false, reason: 'future_auth_date' };
+    if (nowSeconds - authDate > (options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS)) return { ok: false, reason: 'expired' };
+  }
+
+  const userJson = params.get('user');
+  if (!userJson) return { ok: false, reason: 'missing_user' };
+
+  let user: TelegramInitDataUser;
+  try {
+    user = JSON.parse(userJson);
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (!user || typeof user.id !== 'number') return { ok: false, reason: 'missing_user' };
+
+  return {
+    ok: true,
+    data: {
+      user,
+      authDate,
+      startParam: params.get('start_param') ?? undefined,
+      chatInstance: params.get('chat_instance') ?? undefined,
+      chatType: params.get('chat_type') ?? undefined
+    }
+  };
+};
@@ -0,0 +1,183 @@
+// TonConnect ton_proof verification
+// https://docs.ton.org/develop/dapps/ton-connect/sign
+//
+// The wallet signs the dapp domain, a timestamp and our nonce (the payload)
+// with its key. The key isn't trusted from the client: it is read from the
+// wallet's state_init, whose hash must be the address being proven.
+import { Address, Cell, contractAddress, loadStateInit } from 'https://esm.sh/@ton/core@0.60.1';
+
+export interface TonProofRequest {
+  address: string; // Raw form, 0:<hex>
+  network: string; // TonConnect chain id: -239 mainnet, -3 testnet
+  public_key?: string;
+  proof: {
+    timestamp: number; // Unix seconds
+    domain: { lengthBytes: number; value: string };
+    payload: string;
+    signature: string; // Base64
+    state_init: string; // Base64 BoC
+  };
+}
+
+export interface VerifiedTonProof {
+  address: string; // Raw form, 0:<hex>
+  publicKey: string; // Hex
+  network: string;
+  domain: string;
+  timestamp: number;
+  payload: string;
+}
+
+export type TonProofVerificationResult =
+  | { ok: true; data: VerifiedTonProof }
+  | {
+    ok: false;
+    reason: 'malformed' | 'wrong_network' | 'wrong_domain' | 'expired' | 'future_timestamp' | 'address_mismatch' | 'invalid_signature';
+  };
+
+export interface TonProofOptions {
+  allowedDomains: string[];
+  network: string;
+  maxAgeSeconds?: number; // Default 15 minutes
+  now?: number; // Unix ms, injectable for tests
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 15 * 60;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Where the public key sits in the data cell: wallet v1/v2 after seqno, v3/v4
+// after seqno and subwallet id, v5 after the signature flag, seqno and wallet id
+const PUBLIC_KEY_BIT_OFFSETS = [64, 65, 32];
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+// sha256(0xffff ++ "ton-connect" ++ sha256(message)), where message is
+// "ton-proof-item-v2/" ++ workchain (BE) ++ hash ++ domain length (LE) ++ domain ++ timestamp (LE) ++ payload
+export const buildTonProofSignedData = async (
+  address: Address,
+  domain: string,
+  timestamp: number,
+  payload: string
+): Promise<Uint8Array> => {
+  const workchain = new Uint8Array(4);
+  new DataView(workchain.buffer).setInt32(0, address.workChain, false);
+
+  const domainBytes = encoder.encode(domain);
+  const domainLength = new Uint8Array(4);
+  new DataView(domainLength.buffer).setUint32(0, domainBytes.length, true);
+
+  const timestampBytes = new Uint8Array(8);
+  new DataView(timestampBytes.buffer).setBigUint64(0, BigInt(timestamp), true);
+
+  const message = concatBytes(
+    encoder.encode('ton-proof-item-v2/'),
+    workchain,
+    new Uint8Array(address.hash),
+    domainLength,
+    domainBytes,
+    timestampBytes,
+    encoder.encode(payload)
+  );
+
+  return sha256(concatBytes(new Uint8Array([0xff, 0xff]), encoder.encode('ton-connect'), await sha256(message)));
+};
+
+const readPublicKeyCandidates = (data: Cell): Uint8Array[] => {
+  const candidates: Uint8Array[] = [];
+  for (const offset of PUBLIC_KEY_BIT_OFFSETS) {
+    const slice = data.beginParse();
+    if (slice.remainingBits < offset + 256) continue;
+    slice.skip(offset);
+    candidates.push(new Uint8Array(slice.loadBuffer(32)));
+  }
+  return candidates;
+};
+
+const verifyEd25519 = async (publicKey: Uint8Array, signature: Uint8Array, data: Uint8Array): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey('raw', publicKey, { name: 'Ed25519' }, false, ['verify']);
+    return await crypto.subtle.verify('Ed25519', key, signature, data);
+  } catch {
+    return false;
+  }
+};
+
+export const verifyTonProof = async (
+  request: TonProofRequest,
+  options: TonProofOptions
+): Promise<TonProofVerificationResult> => {
+  const { proof } = request;
+  if (!proof || typeof proof.payload !== 'string' || !proof.domain || typeof proof.signature !== 'string' || typeof proof.state_init !== 'string') {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  if (request.network !== options.network) return { ok: false, reason: 'wrong_network' };
+
+  const domain = proof.domain.value;
+  if (!options.allowedDomains.includes(domain) || encoder.encode(domain).length !== proof.domain.lengthBytes) {
+    return { ok: false, reason: 'wrong_domain' };
+  }
+
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  if (!Number.isInteger(proof.timestamp)) return { ok: false, reason: 'malformed' };
+  if (proof.timestamp - nowSeconds > CLOCK_SKEW_SECONDS) return { ok: false, reason: 'future_timestamp' };
+  if (nowSeconds - proof.timestamp > (options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS)) return { ok: false, reason: 'expired' };
+
+  let address: Address;
+  let candidates: Uint8Array[];
+  let signature: Uint8Array;
+  try {
+    address = Address.parse(request.address);
+    const stateInit = loadStateInit(Cell.fromBase64(proof.state_init).beginParse());
+    if (!contractAddress(address.workChain, stateInit).equals(address)) {
+      return { ok: false, reason: 'address_mismatch' };
+    }
+    candidates = stateInit.data ? readPublicKeyCandidates(stateInit.data) : [];
+    signature = fromBase64(proof.signature);
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  const claimedKey = request.public_key?.toLowerCase();
+  const signedData = await buildTonProofSignedData(address, domain, proof.timestamp, proof.payload);
+
+  for (const candidate of candidates) {
+    const publicKey = toHex(candidate);
+    if (claimedKey && claimedKey !== publicKey) continue;
+    if (await verifyEd25519(candidate, signature, signedData)) {
+      return {
+        ok: true,
+        data: {
+          address: address.toRawString(),
+          publicKey,
+          network: request.network,
+          domain,
+          timestamp: proof.timestamp,
+          payload: proof.payload
+        }
+      };
+    }
+  }
+
+  return { ok: false, reason: 'invalid_signature' };
+};
@@ -0,0 +1,182 @@
+// Exchanges raw Telegram initData for a Supabase session JWT.
+//
+// POST { initData: string } -> { access_token, expires_at, user_id, telegram_id }
+//
+// Required secrets: TELEGRAM_BOT_TOKEN, JWT_SECRET (the project's JWT secret),
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (provided by the platform).
+// Set TELEGRAM_AUTH_ALLOW_MOCK=true only for `supabase functions serve` so the
+// development mock environment (src/mockEnv.ts) can sign in.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { signJwt } from '../_shared/jwt.ts';
+import { estimateTelegramAccountCreatedAt } from '../_shared/telegramAccountAge.ts';
+import { verifyTelegramInitData } from '../_shared/telegramInitData.ts';
+import type { TelegramInitDataUser, VerifiedInitData } from '../_shared/telegramInitData.ts';
+
+const SESSION_TTL_SECONDS = 60 * 60;
+const DEV_MOCK_INIT_DATA_HASH = 'z9y8x7w6v5u4t3s2r1q0p9o8n7m6l5k4j3i2h1g0';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const generateUserReferralCode = (userId: number) => {
+  const baseCode = `DIVINE${userId.toString().padStart(6, '0')}`;
+  const suffix = userId.toString().split('').reduce((acc, char) => {
+    return ((acc << 5) - acc + char.charCodeAt(0)) & 0xFFFF;
+  }, 0);
+  return `${baseCode}${suffix.toString(36).toUpperCase().padStart(4, '0')}`;
+};
+
+// Find the users row for this Telegram account, creating it on first login
+const findOrCreateUser = async (telegramUser: TelegramInitDataUser): Promise<number> => {
+  const telegramId = String(telegramUser.id);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('users')
+    .select('id')
+    .eq('telegram_id', telegramId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (existing) return existing.id;
+
+  const displayName = telegramUser.first_name
+    ? `${telegramUser.first_name}${telegramUser.last_name ? ` ${telegramUser.last_name}` : ''}`
+    : `Miner_${telegramId.slice(-4)}`;
+
+  const { data: created, error: createError } = await supabase
+    .from('users')
+    .insert({
+      telegram_id: telegramId,
+      username: telegramUser.username || displayName,
+      first_name: telegramUser.first_name || null,
+      last_name: telegramUser.last_name || null,
+      language_code: telegramUser.language_code || null,
+      rank: 'Novice',
+      is_active: true
+    })
+    .select('id')
+    .single();
+
+  if (createError) {
+    // Unique violation: a concurrent request created the row first
+    if (createError.code === '23505') {
+      const { data: retry, error: retryError } = await supabase
+        .from('users')
+        .select('id')
+        .eq('telegram_id', telegramId)
+        .single();
+      if (retryError) throw retryError;
+      return retry.id;
+    }
+    throw createError;
+  }
+
+  await supabase
+    .from('users')
+    .update({ referral_code: generateUserReferralCode(created.id) })
+    .eq('id', created.id);
+
+  return created.id;
+};
+
+// Signals from the verified initData, read by the referral fraud scoring (REFERRAL_VERIFICATION.sql)
+const recordLoginSignals = async (userId: number, initData: VerifiedInitData) => {
+  const now = new Date().toISOString();
+
+  const { error: userError } = await supabase
+    .from('users')
+    .update({
+      last_active: now,
+      is_premium: initData.user.is_premium === true,
+      telegram_account_created_at: estimateTelegramAccountCreatedAt(initData.user.id).toISOString()
+    })
+    .eq('id', userId);
+
+  if (userError) throw userError;
+  if (!initData.chatInstance) return;
+
+  const { error: chatError } = await supabase
+    .from('telegram_chat_instances')
+    .upsert({
+      user_id: userId,
+      chat_instance: initData.chatInstance,
+      chat_type: initData.chatType ?? null,
+      last_seen_at: now
+    });
+
+  if (chatError) throw chatError;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const botToken = Deno.env.get('TELEGRAM_BOT_TOKEN');
+  const jwtSecret = Deno.env.get('JWT_SECRET');
+  if (!botToken || !jwtSecret) {
+    console.error('telegram-auth is missing TELEGRAM_BOT_TOKEN or JWT_SECRET');
+    return jsonResponse({ error: 'Server misconfigured' }, 500);
+  }
+
+  let initDataRaw: unknown;
+  try {
+    ({ initData: initDataRaw } = await req.json());
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  if (typeof initDataRaw !== 'string' || initDataRaw.length === 0) {
+    return jsonResponse({ error: 'initData is required' }, 400);
+  }
+
+  const verification = await verifyTelegramInitData(initDataRaw, botToken, {
+    allowedMockHash: Deno.env.get('TELEGRAM_AUTH_ALLOW_MOCK') === 'true' ? DEV_MOCK_INIT_DATA_HASH : undefined
+  });
+
+  if (!verification.ok) {
+    console.warn('Rejected Telegram initData:', verification.reason);
+    return jsonResponse({ error: 'Invalid initData', reason: verification.reason }, 401);
+  }
+
+  try {
+    const { user: telegramUser } = verification.data;
+    const userId = await findOrCreateUser(telegramUser);
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + SESSION_TTL_SECONDS;
+
+    // `sub` is the users.id; RLS policies read it through auth.jwt()
+    const accessToken = await signJwt({
+      aud: 'authenticated',
+      role: 'authenticated',
+      sub: String(userId),
+      telegram_id: String(telegramUser.id),
+      iat: issuedAt,
+      exp: expiresAt
+    }, jwtSecret);
+
+    // Missing signals only make referral scoring more cautious; don't fail the login
+    try {
+      await recordLoginSignals(userId, verification.data);
+    } catch (signalError) {
+      console.error('Failed to record login signals:', signalError);
+    }
+
+    return jsonResponse({
+      access_token: accessToken,
+      expires_at: expiresAt,
+      user_id: userId,
+      telegram_id: telegramUser.id
+    });
+  } catch (error) {
+    console.error('telegram-auth failed:', error);
+    return jsonResponse({ error: 'Authentication failed' }, 500);
+  }
+});
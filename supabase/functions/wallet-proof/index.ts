@@ -0,0 +1,136 @@
+// Links the signed-in player's TON wallet from a TonConnect ton_proof.
+//
+// POST { address, network, public_key, proof } with the session JWT from
+// telegram-auth -> { address, public_key, network, proven_at, changed, rebind_available_at }
+//
+// The proof payload must be a nonce from issue_wallet_proof_nonce() (WALLET_PROOF.sql).
+// Required secrets: JWT_SECRET, TON_PROOF_DOMAINS (comma separated, the domains
+// the app is served from), TELEGRAM_BOT_TOKEN for change notices, and
+// SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY (provided by the platform).
+// TON_NETWORK defaults to mainnet (-239).
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { verifyJwt } from '../_shared/jwt.ts';
+import { verifyTonProof } from '../_shared/tonProof.ts';
+import type { TonProofRequest } from '../_shared/tonProof.ts';
+
+const MAINNET = '-239';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+interface BindingResult {
+  proven_address: string;
+  replaced_address: string | null;
+  wallet_changed: boolean;
+  proven_at: string;
+  rebind_available_at: string | null;
+  notify_telegram_id: string | null;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}…${address.slice(-6)}`;
+
+// Tell the player on Telegram whenever their payout wallet changes, so a
+// hijacked session can't move it silently
+const notifyWalletChange = async (botToken: string, binding: BindingResult) => {
+  if (!binding.notify_telegram_id) return;
+
+  const text = binding.replaced_address
+    ? `Your payout wallet was changed from ${shortAddress(binding.replaced_address)} to ${shortAddress(binding.proven_address)}. ` +
+      'If this wasn\'t you, contact support right away.'
+    : `Wallet ${shortAddress(binding.proven_address)} is now linked to your account for withdrawals and airdrops.`;
+
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: binding.notify_telegram_id, text })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Telegram sendMessage failed with ${response.status}`);
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const jwtSecret = Deno.env.get('JWT_SECRET');
+  const allowedDomains = (Deno.env.get('TON_PROOF_DOMAINS') ?? '')
+    .split(',')
+    .map(domain => domain.trim())
+    .filter(Boolean);
+  if (!jwtSecret || allowedDomains.length === 0) {
+    console.error('wallet-proof is missing JWT_SECRET or TON_PROOF_DOMAINS');
+    return jsonResponse({ error: 'Server misconfigured' }, 500);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const claims = await verifyJwt(token, jwtSecret);
+  const userId = Number(claims?.sub);
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  let body: TonProofRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const verification = await verifyTonProof(body, {
+    allowedDomains,
+    network: Deno.env.get('TON_NETWORK') ?? MAINNET
+  });
+
+  if (!verification.ok) {
+    console.warn(`Rejected ton_proof for user ${userId}:`, verification.reason);
+    return jsonResponse({ error: 'Invalid wallet proof', reason: verification.reason }, 401);
+  }
+
+  const proof = verification.data;
+  const { data, error } = await supabase.rpc('bind_proven_wallet', {
+    p_user_id: userId,
+    p_nonce: proof.payload,
+    p_address: proof.address,
+    p_public_key: proof.publicKey,
+    p_network: proof.network,
+    p_proof_domain: proof.domain,
+    p_proof_timestamp: new Date(proof.timestamp * 1000).toISOString()
+  });
+
+  if (error) {
+    // Raised by bind_proven_wallet: stale nonce, wallet taken, or cooldown
+    console.warn(`Wallet binding refused for user ${userId}:`, error.message);
+    return jsonResponse({ error: error.message }, 409);
+  }
+
+  const binding = (Array.isArray(data) ? data[0] : data) as BindingResult;
+
+  const botToken = Deno.env.get('TELEGRAM_BOT_TOKEN');
+  if (binding.wallet_changed && botToken) {
+    // The binding stands even if the notice can't be delivered
+    try {
+      await notifyWalletChange(botToken, binding);
+    } catch (notifyError) {
+      console.error('Failed to send wallet change notice:', notifyError);
+    }
+  }
+
+  return jsonResponse({
+    address: binding.proven_address,
+    public_key: proof.publicKey,
+    network: proof.network,
+    proven_at: binding.proven_at,
+    changed: binding.wallet_changed,
+    rebind_available_at: binding.rebind_available_at
+  });
+});